@@ -3,6 +3,8 @@
 import { auth } from '@/lib/auth';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import { getBalances } from './payments';
+import { OUTSTANDING_FEE_STATUSES, getFeeBalance } from '@/lib/allocation-utils';
+import { getUserResidenceId, getUserResidences } from '@/lib/residence-utils';
 
 /**
  * Dashboard Server Actions
@@ -78,40 +80,10 @@ export async function getDashboardStats() {
 			};
 		}
 
-        // Determine Residence ID based on role
-        let residenceId = null;
-        let residenceData = null;
-
-        if (profile.role === 'syndic') {
-            const resResult = await supabase.from('residences').select('id, name, address, city').eq('syndic_user_id', userId).maybeSingle();
-            const { data: res } = resResult || { data: null };
-            if (res) {
-                residenceId = res.id;
-                residenceData = res;
-            }
-        } else if (profile.role === 'guard') {
-            const resResult = await supabase.from('residences').select('id, name, address, city').eq('guard_user_id', userId).maybeSingle();
-            const { data: res } = resResult || { data: null };
-            if (res) {
-                residenceId = res.id;
-                residenceData = res;
-            }
-        } else {
-            // Resident
-            const prLinkResult = await supabase
-                .from('profile_residences')
-                .select('residence_id, residences(id, name, address, city)')
-                .eq('profile_id', userId)
-                .limit(1)
-                .maybeSingle();
-            const { data: prLink } = prLinkResult || { data: null };
-            
-            if (prLink && prLink.residences) {
-                residenceId = prLink.residence_id;
-                residenceData = prLink.residences; // Join returns object or array? Assuming object if singular relation, but types say array usually.
-                if (Array.isArray(residenceData)) residenceData = residenceData[0];
-            }
-        }
+        // Residence selected in the residence switcher (or the user's only one)
+        const residenceId = await getUserResidenceId(supabase, userId, profile.role);
+        const residences = residenceId ? await getUserResidences(supabase, userId, profile.role) : [];
+        const residenceData = residences.find((r) => r.id === residenceId) || null;
 
 		// If user has no residence assigned, return empty stats (likely in onboarding)
 		if (!residenceId) {
@@ -189,14 +161,14 @@ export async function getDashboardStats() {
 			// Outstanding fees
 			supabase
 				.from('fees')
-				.select('amount')
+				.select('amount, balance_due')
 				.eq('residence_id', residenceId)
-				.in('status', ['unpaid', 'overdue']),
+				.in('status', OUTSTANDING_FEE_STATUSES),
 
 			// All fees for payment rate calculation
 			supabase
 				.from('fees')
-				.select('id, amount, status, user_id')
+				.select('id, amount, amount_paid, status, user_id')
 				.eq('residence_id', residenceId),
 
 			// Open incidents
@@ -214,11 +186,13 @@ export async function getDashboardStats() {
 					.from('announcements')
 					.select('id', { count: 'exact', head: true })
 					.eq('residence_id', residenceId)
-					.gte('created_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()) // Last 30 days
+					.is('archived_at', null)
+					.lte('publish_at', new Date().toISOString())
+					.gte('publish_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()) // Published in the last 30 days
 			).catch(() => ({ count: 0, error: null, data: null } as any)),
 
 			// Balances
-			getBalances(residenceId),
+			getBalances(BigInt(residenceId)),
 
 			// Recent payments (last 7 days)
 			supabase
@@ -245,7 +219,7 @@ export async function getDashboardStats() {
 
 		const outstandingFees =
 			(outstandingFeesResult && outstandingFeesResult.data) 
-				? outstandingFeesResult.data.reduce((sum: number, fee: any) => sum + Number(fee.amount), 0) 
+				? outstandingFeesResult.data.reduce((sum: number, fee: any) => sum + getFeeBalance(fee), 0) 
 				: 0;
 
 		const openIncidents = (openIncidentsResult && 'count' in openIncidentsResult) ? (openIncidentsResult.count || 0) : 0;
@@ -298,8 +272,7 @@ export async function getDashboardStats() {
 		// Calculate payment rate (percentage of fees paid)
 		const totalFeesAmount = allFeesData.reduce((sum: number, fee: any) => sum + Number(fee.amount), 0);
 		const paidFeesAmount = allFeesData
-			.filter((fee: any) => fee.status === 'paid')
-			.reduce((sum: number, fee: any) => sum + Number(fee.amount), 0);
+			.reduce((sum: number, fee: any) => sum + Number(fee.amount_paid || 0), 0);
 		const fillRate = totalFeesAmount > 0 
 			? Math.round((paidFeesAmount / totalFeesAmount) * 100) 
 			: 100;
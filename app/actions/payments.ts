@@ -1,8 +1,54 @@
 'use server';
 
+import { headers } from 'next/headers';
 import { auth } from '@/lib/auth';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
-import { getUserResidenceId } from '@/lib/residence-utils';
+import { authorize } from '@/lib/permissions';
+import {
+	LEDGER_ACCOUNTS,
+	LedgerAccount,
+	getPaymentAccount,
+	listLedgerEntries,
+	getLedgerBalances,
+	postLedgerEntry,
+	postPaymentEntry,
+	SETTLED_PAYMENT_STATUSES,
+} from '@/lib/ledger-utils';
+import {
+	createBalanceSnapshot,
+	deleteBalanceSnapshot,
+	getLockedThrough,
+	listBalanceSnapshots,
+	lockBalanceSnapshot,
+} from '@/lib/reconciliation-utils';
+import {
+	AllocationInput,
+	applyAllocations,
+	getResidentCredit,
+	listOutstandingFees,
+	planAllocations,
+	releasePaymentAllocations,
+	selectFeesToPay,
+} from '@/lib/allocation-utils';
+import { createFeeCheckoutSession, MAX_FEES_PER_CHECKOUT } from '@/lib/stripe/services/fee-checkout.service';
+import { buildAccountStatement } from '@/lib/statement-utils';
+import {
+	approveBankTransfer,
+	declareBankTransfer,
+	listPendingTransfers,
+	listResidentTransfers,
+	rejectBankTransfer,
+} from '@/lib/bank-transfer-utils';
+import {
+	confirmStatementLine,
+	ignoreStatementLine,
+	importBankStatement,
+	listBankStatements,
+	listStatementLines,
+	StatementLineCorrection,
+	StatementLineStatus,
+} from '@/lib/bank-statement-utils';
+import { StatementFormat } from '@/lib/bank-statement-parser';
 
 /**
  * Payment Server Actions
@@ -11,7 +57,7 @@ import { getUserResidenceId } from '@/lib/residence-utils';
 
 /**
  * Get balances for a residence
- * Calculates cash on hand and bank balance from payments and expenses
+ * Reads cash on hand and bank balance from the latest ledger entries
  */
 export async function getBalances(residenceId?: bigint) {
 	console.log('[Payments Actions] Getting balances');
@@ -26,75 +72,19 @@ export async function getBalances(residenceId?: bigint) {
 
 		const supabase = createSupabaseAdminClient();
 
-		// Get user's residence if not provided
-		let targetResidenceId = residenceId;
-		if (!targetResidenceId) {
-            targetResidenceId = await getUserResidenceId(supabase, userId) as any;
-			if (!targetResidenceId) {
-				throw new Error('User has no residence assigned');
-			}
+		const access = await authorize(supabase, userId, 'accounts.view_all', residenceId ? Number(residenceId) : null);
+		if (!access.ok) {
+			throw new Error(access.error);
 		}
+		const targetResidenceId = access.actor.residenceId;
 
-		// Calculate cash on hand: cash payments - cash expenses
-		const { data: cashPayments, error: cashPaymentsError } = await supabase
-			.from('payments')
-			.select('amount')
-			.eq('residence_id', targetResidenceId)
-			.in('method', ['cash'])
-			.eq('status', 'verified');
-
-		if (cashPaymentsError) {
-			console.error('[Payments Actions] Error fetching cash payments:', cashPaymentsError);
-			throw cashPaymentsError;
-		}
-
-		const { data: cashExpenses, error: cashExpensesError } = await supabase
-			.from('expenses')
-			.select('amount')
-			.eq('residence_id', targetResidenceId);
-		// Note: expenses table doesn't have paid_from field yet, will need migration
-
-		if (cashExpensesError) {
-			console.error('[Payments Actions] Error fetching cash expenses:', cashExpensesError);
-			throw cashExpensesError;
-		}
+		const balances = await getLedgerBalances(supabase, targetResidenceId);
 
-		// Calculate bank balance: online payments - bank expenses
-		// Note: Using 'card' instead of 'online_card' based on the actual enum values
-		const { data: bankPayments, error: bankPaymentsError } = await supabase
-			.from('payments')
-			.select('amount')
-			.eq('residence_id', targetResidenceId)
-			.in('method', ['bank_transfer', 'card'])
-			.eq('status', 'verified');
-
-		if (bankPaymentsError) {
-			console.error('[Payments Actions] Error fetching bank payments:', bankPaymentsError);
-			throw bankPaymentsError;
-		}
-
-		// Compute totals
-		const cashIn = cashPayments?.reduce((sum, p) => sum + Number(p.amount), 0) || 0;
-		const cashOut = cashExpenses?.reduce((sum, e) => sum + Number(e.amount), 0) || 0;
-		const bankIn = bankPayments?.reduce((sum, p) => sum + Number(p.amount), 0) || 0;
-		// For now, assume all expenses are from cash until we add paid_from field
-		const bankOut = 0;
-
-		const cashOnHand = cashIn - cashOut;
-		const bankBalance = bankIn - bankOut;
-
-		console.log('[Payments Actions] Balances calculated:', {
-			cashIn,
-			cashOut,
-			bankIn,
-			bankOut,
-			cashOnHand,
-			bankBalance,
-		});
+		console.log('[Payments Actions] Balances read from ledger:', balances);
 
 		return {
-			cashOnHand,
-			bankBalance,
+			cashOnHand: balances.cash,
+			bankBalance: balances.bank,
 			error: null,
 		};
 	} catch (error: any) {
@@ -109,7 +99,9 @@ export async function getBalances(residenceId?: bigint) {
 
 /**
  * Create a cash payment record
- * Payment must be linked to a specific resident and apartment number
+ * Payment must be linked to a specific resident and apartment number.
+ * The amount settles the resident's oldest fees first unless `allocations` lists
+ * the fees to pay; whatever is left becomes resident credit.
  */
 export async function createCashPayment(data: {
 	userId: string;
@@ -117,6 +109,7 @@ export async function createCashPayment(data: {
 	profileResidenceId?: number;
 	amount: number;
 	feeId?: bigint;
+	allocations?: AllocationInput[];
 	residenceId?: bigint;
 }) {
 	console.log('[Payments Actions] Creating cash payment:', data);
@@ -136,30 +129,40 @@ export async function createCashPayment(data: {
 
 		const supabase = createSupabaseAdminClient();
 
-		// Get residence ID if not provided
-		let targetResidenceId = data.residenceId;
-		if (!targetResidenceId) {
-            targetResidenceId = await getUserResidenceId(supabase, currentUserId) as any;
-			if (!targetResidenceId) {
-				throw new Error('User has no residence assigned');
-			}
+		const access = await authorize(supabase, currentUserId, 'payments.record', data.residenceId ? Number(data.residenceId) : null);
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const targetResidenceId = access.actor.residenceId;
+
+		// The payer must live in this residence at that apartment (and match the given link, if any)
+		let profileResidenceQuery = supabase
+			.from('profile_residences')
+			.select('id')
+			.eq('profile_id', data.userId)
+			.eq('residence_id', targetResidenceId)
+			.eq('apartment_number', data.apartmentNumber.trim());
+		if (data.profileResidenceId) {
+			profileResidenceQuery = profileResidenceQuery.eq('id', data.profileResidenceId);
+		}
+		const { data: profileResidence } = await profileResidenceQuery.maybeSingle();
+
+		if (!profileResidence) {
+			throw new Error(`Resident is not associated with apartment ${data.apartmentNumber} in this residence`);
 		}
+		const profileResidenceId = profileResidence.id;
 
-		// If profile_residence_id is not provided, find it from apartment number
-		let profileResidenceId = data.profileResidenceId;
-		if (!profileResidenceId) {
-			const { data: profileResidence } = await supabase
-				.from('profile_residences')
-				.select('id')
-				.eq('profile_id', data.userId)
-				.eq('residence_id', targetResidenceId)
-				.eq('apartment_number', data.apartmentNumber.trim())
-				.maybeSingle();
+		// Plan allocations before recording anything so invalid choices fail cleanly
+		const outstandingFees = await listOutstandingFees(supabase, targetResidenceId, data.userId);
+		let manualAllocations = data.allocations;
+		if (!manualAllocations?.length && data.feeId) {
+			const fee = outstandingFees.find((f: any) => Number(f.id) === Number(data.feeId));
+			manualAllocations = fee ? [{ feeId: fee.id, amount: Math.min(Number(data.amount), fee.balance_due) }] : [];
+		}
 
-			if (!profileResidence) {
-				throw new Error(`Resident is not associated with apartment ${data.apartmentNumber} in this residence`);
-			}
-			profileResidenceId = profileResidence.id;
+		const { plan, error: allocationError } = planAllocations(outstandingFees, Number(data.amount), manualAllocations);
+		if (allocationError) {
+			throw new Error(allocationError);
 		}
 
 		// Create payment record with apartment number
@@ -170,7 +173,7 @@ export async function createCashPayment(data: {
 				user_id: data.userId,
 				apartment_number: data.apartmentNumber.trim(),
 				profile_residence_id: profileResidenceId,
-				fee_id: data.feeId || null,
+				fee_id: data.feeId || (plan.length === 1 ? plan[0].fee.id : null),
 				amount: data.amount,
 				method: 'cash',
 				status: 'verified',
@@ -187,22 +190,24 @@ export async function createCashPayment(data: {
 
 		console.log('[Payments Actions] Cash payment created:', payment.id);
 
-		// If linked to a fee, update fee status to paid
-		if (data.feeId) {
-			const { error: feeUpdateError } = await supabase
-				.from('fees')
-				.update({ status: 'paid' })
-				.eq('id', data.feeId);
+		const ledgerResult = await postPaymentEntry(supabase, payment, currentUserId);
+		if (!ledgerResult.success) {
+			console.error('[Payments Actions] Error posting payment to ledger:', ledgerResult.error);
+		}
 
-			if (feeUpdateError) {
-				console.error('[Payments Actions] Error updating fee status:', feeUpdateError);
-				// Don't throw - payment is recorded, just log the error
-			}
+		// Apply the payment to the planned fees - don't throw, the payment is recorded
+		const allocationResult = await applyAllocations(supabase, payment, plan, currentUserId);
+		if (!allocationResult.success) {
+			console.error('[Payments Actions] Error allocating payment:', allocationResult.error);
 		}
 
+		const credit = await getResidentCredit(supabase, targetResidenceId, data.userId);
+
 		return {
 			success: true,
 			payment,
+			allocations: allocationResult.allocations,
+			credit,
 		};
 	} catch (error: any) {
 		console.error('[Payments Actions] Error creating cash payment:', error);
@@ -229,14 +234,11 @@ export async function getResidents(residenceId?: bigint) {
 
 		const supabase = createSupabaseAdminClient();
 
-		// Get user's residence if not provided
-		let targetResidenceId = residenceId;
-		if (!targetResidenceId) {
-            targetResidenceId = await getUserResidenceId(supabase, userId) as any;
-			if (!targetResidenceId) {
-				throw new Error('User has no residence assigned');
-			}
+		const access = await authorize(supabase, userId, 'residents.manage', residenceId ? Number(residenceId) : null);
+		if (!access.ok) {
+			throw new Error(access.error);
 		}
+		const targetResidenceId = access.actor.residenceId;
 
 		// Get all verified residents for the residence via profile_residences
 		const { data: residentsLinks, error: residentsError } = await supabase
@@ -284,3 +286,889 @@ export async function getResidents(residenceId?: bigint) {
 		};
 	}
 }
+
+/**
+ * Get a resident's outstanding fees (oldest first) and unallocated credit
+ * Used to choose which fees a new payment settles
+ */
+export async function getOutstandingFees(residentId: string) {
+	console.log('[Payments Actions] Getting outstanding fees for resident:', residentId);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'accounts.view_all');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const [fees, credit] = await Promise.all([
+			listOutstandingFees(supabase, residenceId, residentId),
+			getResidentCredit(supabase, residenceId, residentId),
+		]);
+
+		return {
+			success: true,
+			fees,
+			credit,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error getting outstanding fees:', error);
+		return {
+			success: false,
+			fees: [],
+			credit: 0,
+			error: error.message || 'Failed to get outstanding fees',
+		};
+	}
+}
+
+/**
+ * Get a resident's statement of account for one apartment over a date range
+ * The PDF is generated client-side from the returned data
+ */
+export async function getResidentStatement(data: { residentId: string; apartmentNumber: string; from: string; to: string }) {
+	console.log('[Payments Actions] Getting statement:', data);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		if (!data.apartmentNumber || !data.from || !data.to) {
+			throw new Error('Apartment and period are required');
+		}
+
+		if (data.from > data.to) {
+			throw new Error('Start date must be before end date');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'accounts.view_all');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const statement = await buildAccountStatement(supabase, {
+			residenceId,
+			userId: data.residentId,
+			apartmentNumber: data.apartmentNumber,
+			from: data.from,
+			to: data.to,
+		});
+
+		return {
+			success: true,
+			statement,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error getting statement:', error);
+		return {
+			success: false,
+			statement: null,
+			error: error.message || 'Failed to get statement',
+		};
+	}
+}
+
+/**
+ * Get ledger entries for the syndic's residence, newest first
+ */
+export async function getLedgerEntries(filters: { account?: LedgerAccount; from?: string; to?: string; limit?: number } = {}) {
+	console.log('[Payments Actions] Getting ledger entries:', filters);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'ledger.view');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const entries = await listLedgerEntries(supabase, { residenceId, ...filters });
+
+		return {
+			success: true,
+			entries,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error getting ledger entries:', error);
+		return {
+			success: false,
+			entries: [],
+			error: error.message || 'Failed to get ledger entries',
+		};
+	}
+}
+
+/**
+ * Refund all or part of a verified payment
+ * Posts a refund entry on the account the payment landed in
+ */
+export async function refundPayment(data: { paymentId: number; amount: number; reason: string }) {
+	console.log('[Payments Actions] Refunding payment:', data);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		if (!data.reason || data.reason.trim() === '') {
+			throw new Error('A reason is required for refunds');
+		}
+
+		const amount = Number(data.amount);
+		if (!Number.isFinite(amount) || amount <= 0) {
+			throw new Error('Refund amount must be greater than 0');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'ledger.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const { data: payment } = await supabase
+			.from('payments')
+			.select('id, residence_id, amount, method, status, apartment_number')
+			.eq('id', data.paymentId)
+			.eq('residence_id', residenceId)
+			.maybeSingle();
+
+		if (!payment) {
+			throw new Error('Payment not found');
+		}
+
+		if (!SETTLED_PAYMENT_STATUSES.includes(payment.status)) {
+			throw new Error('Only verified payments can be refunded');
+		}
+
+		// Refunds already posted for this payment are negative entries
+		const { data: previousRefunds } = await supabase
+			.from('transaction_history')
+			.select('amount')
+			.eq('reference_table', 'payments')
+			.eq('reference_id', payment.id)
+			.eq('transaction_type', 'refund');
+
+		const alreadyRefunded = (previousRefunds || []).reduce((sum: number, r: any) => sum - Number(r.amount), 0);
+		const refundable = Number(payment.amount) - alreadyRefunded;
+
+		if (amount > refundable + 0.005) {
+			throw new Error(`Only ${refundable.toFixed(2)} MAD can still be refunded on this payment`);
+		}
+
+		// Refunded money can no longer cover fees
+		await releasePaymentAllocations(supabase, payment, amount);
+
+		const result = await postLedgerEntry(supabase, {
+			residenceId,
+			account: getPaymentAccount(payment.method),
+			type: 'refund',
+			amount: -amount,
+			referenceTable: 'payments',
+			referenceId: payment.id,
+			method: payment.method,
+			description: `Refund of payment #${payment.id}: ${data.reason.trim()}`,
+			createdBy: userId,
+		});
+
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		console.log('[Payments Actions] Refund posted for payment:', payment.id);
+
+		return {
+			success: true,
+			entry: result.data,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error refunding payment:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to refund payment',
+		};
+	}
+}
+
+/**
+ * Record a manual balance adjustment (counting difference, bank fees, opening balance...)
+ */
+export async function recordBalanceAdjustment(data: { account: LedgerAccount; amount: number; description: string }) {
+	console.log('[Payments Actions] Recording balance adjustment:', data);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		if (!LEDGER_ACCOUNTS.includes(data.account)) {
+			throw new Error('Account must be cash or bank');
+		}
+
+		if (!data.description || data.description.trim() === '') {
+			throw new Error('A description is required for adjustments');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'ledger.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const result = await postLedgerEntry(supabase, {
+			residenceId,
+			account: data.account,
+			type: 'adjustment',
+			amount: Number(data.amount),
+			description: data.description.trim(),
+			createdBy: userId,
+		});
+
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		return {
+			success: true,
+			entry: result.data,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error recording adjustment:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to record adjustment',
+		};
+	}
+}
+
+/**
+ * Get period-close reconciliations for the syndic's residence, with the current
+ * ledger balances to pre-fill a new one
+ */
+export async function getReconciliations() {
+	console.log('[Payments Actions] Getting reconciliations');
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'reconciliations.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const [snapshots, balances, lockedThrough] = await Promise.all([
+			listBalanceSnapshots(supabase, residenceId),
+			getLedgerBalances(supabase, residenceId),
+			getLockedThrough(supabase, residenceId),
+		]);
+
+		return {
+			success: true,
+			snapshots,
+			balances,
+			lockedThrough,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error getting reconciliations:', error);
+		return {
+			success: false,
+			snapshots: [],
+			balances: { cash: 0, bank: 0 },
+			lockedThrough: null,
+			error: error.message || 'Failed to get reconciliations',
+		};
+	}
+}
+
+/**
+ * Record counted cash and the bank statement balance at the end of a period
+ */
+export async function closePeriod(data: {
+	snapshotDate: string;
+	countedCash: number;
+	bankStatementBalance: number;
+	notes?: string;
+}) {
+	console.log('[Payments Actions] Closing period:', data);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'reconciliations.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const result = await createBalanceSnapshot(supabase, {
+			residenceId,
+			snapshotDate: data.snapshotDate,
+			countedCash: data.countedCash,
+			bankStatementBalance: data.bankStatementBalance,
+			notes: data.notes,
+			createdBy: userId,
+		});
+
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		return {
+			success: true,
+			snapshot: result.data,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error closing period:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to save reconciliation',
+		};
+	}
+}
+
+/**
+ * Lock a reconciled period, optionally posting its discrepancies as adjustments
+ */
+export async function lockPeriod(data: { snapshotId: number; postAdjustments: boolean; notes?: string }) {
+	console.log('[Payments Actions] Locking period:', data);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'reconciliations.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const result = await lockBalanceSnapshot(supabase, {
+			residenceId,
+			snapshotId: data.snapshotId,
+			lockedBy: userId,
+			postAdjustments: data.postAdjustments,
+			notes: data.notes,
+		});
+
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		return {
+			success: true,
+			snapshot: result.data,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error locking period:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to lock period',
+		};
+	}
+}
+
+/**
+ * Delete a reconciliation that has not been locked
+ */
+export async function deleteReconciliation(snapshotId: number) {
+	console.log('[Payments Actions] Deleting reconciliation:', snapshotId);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'reconciliations.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const result = await deleteBalanceSnapshot(supabase, { residenceId, snapshotId });
+
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		return {
+			success: true,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error deleting reconciliation:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to delete reconciliation',
+		};
+	}
+}
+
+/**
+ * Get the resident's outstanding fees, credit and bank transfer declarations
+ * Used by the resident's payments page to declare transfers
+ */
+export async function getMyPaymentsOverview() {
+	console.log('[Payments Actions] Getting resident payments overview');
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'payments.declare');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const [fees, credit, transfers] = await Promise.all([
+			listOutstandingFees(supabase, residenceId, userId),
+			getResidentCredit(supabase, residenceId, userId),
+			listResidentTransfers(supabase, residenceId, userId),
+		]);
+
+		return {
+			success: true,
+			fees,
+			credit,
+			transfers,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error getting payments overview:', error);
+		return {
+			success: false,
+			fees: [],
+			credit: 0,
+			transfers: [],
+			error: error.message || 'Failed to load your payments',
+		};
+	}
+}
+
+/**
+ * Start a Stripe Checkout session paying the resident's outstanding fees by card
+ * (all of them, or `feeIds`). The Stripe webhook records the payment and settles the fees.
+ * @returns The Checkout URL to send the resident to
+ */
+export async function startFeeCheckout(feeIds?: number[]) {
+	console.log('[Payments Actions] Starting fee checkout:', feeIds);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'payments.declare');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const outstanding = await listOutstandingFees(supabase, residenceId, userId);
+		const { fees, error: selectionError } = selectFeesToPay(outstanding, feeIds, MAX_FEES_PER_CHECKOUT);
+		if (selectionError) {
+			throw new Error(selectionError);
+		}
+
+		// Come back to the payments page once paid or cancelled
+		const headersList = await headers();
+		const host = headersList.get('host');
+		const protocol = headersList.get('x-forwarded-proto') || 'http';
+		const baseUrl = `${protocol}://${host}`;
+
+		const checkout = await createFeeCheckoutSession(supabase, {
+			residenceId,
+			userId,
+			fees,
+			successUrl: `${baseUrl}/app/payments?checkout=success`,
+			cancelUrl: `${baseUrl}/app/payments`,
+		});
+
+		if (!checkout.url) {
+			throw new Error('Stripe did not return a checkout URL');
+		}
+
+		return {
+			success: true,
+			url: checkout.url,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error starting fee checkout:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to start card payment',
+		};
+	}
+}
+
+/**
+ * Declare a bank transfer with its proof against one or more fees
+ * FormData fields: file, amount, feeIds (JSON array), reference, transferDate
+ * The payment stays pending until the syndic verifies it.
+ */
+export async function submitBankTransfer(formData: FormData) {
+	console.log('[Payments Actions] Submitting bank transfer');
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'payments.declare');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const feeIds = JSON.parse(String(formData.get('feeIds') || '[]')).map((id: any) => Number(id));
+
+		const result = await declareBankTransfer(supabase, {
+			residenceId,
+			userId,
+			amount: Number(formData.get('amount')),
+			feeIds,
+			proof: formData.get('file') as File,
+			reference: (formData.get('reference') as string | null) || null,
+			transferDate: (formData.get('transferDate') as string | null) || null,
+		});
+
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		return {
+			success: true,
+			payment: result.payment,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error submitting bank transfer:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to declare transfer',
+		};
+	}
+}
+
+/**
+ * Get the bank transfers waiting for the syndic's verification
+ */
+export async function getPendingTransfers() {
+	console.log('[Payments Actions] Getting pending transfers');
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'payments.verify');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+
+		const transfers = await listPendingTransfers(supabase, access.actor.residenceId);
+
+		return {
+			success: true,
+			transfers,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error getting pending transfers:', error);
+		return {
+			success: false,
+			transfers: [],
+			error: error.message || 'Failed to load pending transfers',
+		};
+	}
+}
+
+/**
+ * Approve or reject a declared bank transfer
+ * Approval settles the declared fees; rejection needs a reason shown to the resident
+ */
+export async function reviewTransfer(data: { paymentId: number; decision: 'approve' | 'reject'; reason?: string }) {
+	console.log('[Payments Actions] Reviewing transfer:', data);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'payments.verify');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const result = data.decision === 'approve'
+			? await approveBankTransfer(supabase, residenceId, data.paymentId, userId)
+			: await rejectBankTransfer(supabase, residenceId, data.paymentId, userId, data.reason || '');
+
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		return {
+			success: true,
+			payment: result.payment,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error reviewing transfer:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to review transfer',
+		};
+	}
+}
+
+/**
+ * Import a bank statement (CSV, CAMT.053 or OFX) of the residence account and match its lines
+ */
+export async function importStatement(formData: FormData) {
+	console.log('[Payments Actions] Importing bank statement');
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'reconciliations.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+
+		const format = formData.get('format') as string | null;
+		const result = await importBankStatement(supabase, {
+			residenceId: access.actor.residenceId,
+			userId,
+			file: formData.get('file') as File,
+			format: format && format !== 'auto' ? (format as StatementFormat) : null,
+		});
+
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		return {
+			success: true,
+			statement: result.statement,
+			imported: result.imported || 0,
+			skipped: result.skipped || 0,
+			suggested: result.suggested || 0,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error importing statement:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to import statement',
+		};
+	}
+}
+
+/**
+ * Imported bank statements, latest first
+ */
+export async function getBankStatements() {
+	console.log('[Payments Actions] Getting bank statements');
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'reconciliations.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+
+		const statements = await listBankStatements(supabase, access.actor.residenceId);
+
+		return {
+			success: true,
+			statements,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error getting bank statements:', error);
+		return {
+			success: false,
+			statements: [],
+			error: error.message || 'Failed to load bank statements',
+		};
+	}
+}
+
+/**
+ * Lines of a statement, or every line still to review
+ */
+export async function getStatementLines(filters: { statementId?: number | null; status?: StatementLineStatus | null } = {}) {
+	console.log('[Payments Actions] Getting statement lines:', filters);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'reconciliations.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+
+		const lines = await listStatementLines(supabase, access.actor.residenceId, filters);
+
+		return {
+			success: true,
+			lines,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error getting statement lines:', error);
+		return {
+			success: false,
+			lines: [],
+			error: error.message || 'Failed to load statement lines',
+		};
+	}
+}
+
+/**
+ * Confirm a statement line (with its suggested match or a correction) or ignore it
+ */
+export async function reviewStatementLine(data: {
+	lineId: number;
+	decision: 'confirm' | 'ignore';
+	correction?: StatementLineCorrection;
+}) {
+	console.log('[Payments Actions] Reviewing statement line:', data);
+
+	try {
+		const session = await auth();
+		const userId = session?.user?.id;
+
+		if (!userId) {
+			throw new Error('User not authenticated');
+		}
+
+		const supabase = createSupabaseAdminClient();
+
+		const access = await authorize(supabase, userId, 'reconciliations.manage');
+		if (!access.ok) {
+			throw new Error(access.error);
+		}
+		const { residenceId } = access.actor;
+
+		const result = data.decision === 'confirm'
+			? await confirmStatementLine(supabase, residenceId, data.lineId, userId, data.correction)
+			: await ignoreStatementLine(supabase, residenceId, data.lineId, userId);
+
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+
+		return {
+			success: true,
+			line: result.line,
+		};
+	} catch (error: any) {
+		console.error('[Payments Actions] Error reviewing statement line:', error);
+		return {
+			success: false,
+			error: error.message || 'Failed to review statement line',
+		};
+	}
+}
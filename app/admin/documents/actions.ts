@@ -49,6 +49,8 @@ export async function reviewDocument({
         .from('residences')
         .select('id, name, address, city')
         .eq('syndic_user_id', userId)
+        .order('id', { ascending: true })
+        .limit(1)
         .maybeSingle()
 
       if (residenceCheckError) {
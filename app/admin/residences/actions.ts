@@ -80,20 +80,6 @@ export async function createResidence(data: CreateResidenceData) {
           error: 'Le syndic sélectionné n\'existe pas ou n\'est pas valide',
         }
       }
-
-      // Check if syndic is already assigned to another residence
-      const { data: existingResidence } = await supabase
-        .from('residences')
-        .select('id, name')
-        .eq('syndic_user_id', data.syndic_user_id)
-        .maybeSingle()
-
-      if (existingResidence) {
-        return {
-          success: false,
-          error: `Ce syndic est déjà assigné à la résidence "${existingResidence.name}"`,
-        }
-      }
     }
 
     // Create residence
@@ -103,24 +103,15 @@ export async function deleteSyndic(syndicId: string) {
       }
     }
 
-    // 4. Get residence where syndic is assigned
-    const { data: residence } = await supabase
+    // 4-5. Unassign the syndic from every residence they manage
+    const { error: residenceError } = await supabase
       .from('residences')
-      .select('id')
+      .update({ syndic_user_id: null })
       .eq('syndic_user_id', syndicId)
-      .maybeSingle()
-
-    // 5. If residence assigned, unassign it
-    if (residence) {
-      const { error: residenceError } = await supabase
-        .from('residences')
-        .update({ syndic_user_id: null })
-        .eq('id', residence.id)
-
-      if (residenceError) {
-        console.error('[Admin Delete Syndic] Error unassigning residence:', residenceError)
-        // Continue anyway
-      }
+
+    if (residenceError) {
+      console.error('[Admin Delete Syndic] Error unassigning residence:', residenceError)
+      // Continue anyway
     }
 
     // 6. Delete from profiles
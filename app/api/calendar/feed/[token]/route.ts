@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidences } from '@/lib/residence-utils';
+import { buildICalendar, listCalendarItems, type CalendarItem } from '@/lib/calendar-utils';
+
+/**
+ * Calendar Feed
+ * GET /api/calendar/feed/[token].ics - iCalendar feed of a user's residences for calendar apps.
+ * Calendar apps cannot sign in, so the secret token in the URL identifies the user.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Past items stay visible for a while, future ones up to a year ahead
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const token = (await params).token.replace(/\.ics$/i, '');
+    if (!token) {
+      return new NextResponse('Not found', { status: 404 });
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('calendar_feed_token', token)
+      .maybeSingle();
+
+    if (!profile) {
+      return new NextResponse('Not found', { status: 404 });
+    }
+
+    const residences = await getUserResidences(supabase, profile.id, profile.role);
+
+    const now = Date.now();
+    const range = {
+      from: new Date(now - FEED_PAST_DAYS * DAY_MS),
+      to: new Date(now + FEED_FUTURE_DAYS * DAY_MS),
+    };
+
+    const items: CalendarItem[] = [];
+    for (const residence of residences) {
+      const residenceItems = await listCalendarItems(supabase, {
+        residenceId: residence.id,
+        userId: profile.id,
+        role: profile.role,
+        range,
+      });
+
+      // Tell residences apart when the user belongs to several
+      items.push(...(residences.length > 1
+        ? residenceItems.map((item) => ({ ...item, title: `[${residence.name}] ${item.title}` }))
+        : residenceItems));
+    }
+
+    const calendarName = residences.length === 1 ? `${residences[0].name} - Sakan` : 'Sakan';
+    const body = buildICalendar(items, calendarName, request.nextUrl.origin);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="sakan.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (error: any) {
+    console.error('[Calendar Feed] Error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
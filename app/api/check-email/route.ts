@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidenceId } from '@/lib/residence-utils';
 
 /**
  * POST /api/check-email
@@ -60,13 +61,15 @@ export async function POST(req: Request) {
       existingRole = profile?.role || null;
       isSyndic = existingRole === 'syndic';
       
-      // If syndic, get their managed residence
+      // If syndic, get their managed residence (the requested one when they manage several)
       if (isSyndic) {
-        const { data: residence } = await supabase
+        let residenceQuery = supabase
           .from('residences')
           .select('id')
-          .eq('syndic_user_id', existingUser.id)
-          .maybeSingle();
+          .eq('syndic_user_id', existingUser.id);
+        if (body.residence_id) residenceQuery = residenceQuery.eq('id', Number(body.residence_id));
+
+        const { data: residence } = await residenceQuery.order('id', { ascending: true }).limit(1).maybeSingle();
         
         managedResidenceId = residence?.id || null;
       }
@@ -81,13 +84,7 @@ export async function POST(req: Request) {
       .maybeSingle();
     
     if (currentUserProfile?.role === 'syndic') {
-      const { data: currentUserResidence } = await supabase
-        .from('residences')
-        .select('id')
-        .eq('syndic_user_id', session.user.id)
-        .maybeSingle();
-      
-      currentUserManagedResidenceId = currentUserResidence?.id || null;
+      currentUserManagedResidenceId = await getUserResidenceId(supabase, session.user.id, 'syndic');
     }
 
     // Get residence_id from request body if provided
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { createSupabaseAdminClient } from '@/lib/supabase/server'
+import { getUserResidenceId, getUserResidences } from '@/lib/residence-utils'
 
 export async function GET() {
   try {
@@ -29,40 +30,11 @@ export async function GET() {
       return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
     }
 
-    let hasResidence = false
-    let residenceDetails = null
-
-    // Check based on role
-    if (profile.role === 'syndic') {
-      const { data: residence, error: resError } = await supabase
-        .from('residences')
-        .select('id, name, syndic_user_id')
-        .eq('syndic_user_id', userId)
-        .maybeSingle()
-      
-      console.log('[Check Residence] Syndic residence check:', residence, 'Error:', resError)
-      hasResidence = !!residence
-      residenceDetails = residence
-    } else if (profile.role === 'guard') {
-      const { data: residence } = await supabase
-        .from('residences')
-        .select('id, name, guard_user_id')
-        .eq('guard_user_id', userId)
-        .maybeSingle()
-      
-      hasResidence = !!residence
-      residenceDetails = residence
-    } else if (profile.role === 'resident') {
-      const { data: pr } = await supabase
-        .from('profile_residences')
-        .select('residence_id')
-        .eq('profile_id', userId)
-        .limit(1)
-        .maybeSingle()
-      
-      hasResidence = !!pr
-      residenceDetails = pr
-    }
+    // Syndics and residents can belong to several residences
+    const residences = await getUserResidences(supabase, userId, profile.role)
+    const residenceId = await getUserResidenceId(supabase, userId, profile.role)
+    const hasResidence = residences.length > 0
+    const residenceDetails = residences.find((r) => r.id === residenceId) || null
 
     console.log('[Check Residence] Final result:', { hasResidence, role: profile.role, verified: profile.verified })
 
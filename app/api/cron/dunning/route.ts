@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { markOverdueFees } from '@/lib/fee-schedule-utils';
+import { runDunning } from '@/lib/dunning-utils';
+
+/**
+ * Cron: Dunning
+ * GET /api/cron/dunning - Mark overdue fees and apply every residence's dunning policy
+ * (reminders, notices, formal letters, late fees). Meant to run once a day.
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient();
+
+    const overdue = await markOverdueFees(supabase);
+
+    const { data: steps, error } = await supabase
+      .from('dunning_steps')
+      .select('residence_id')
+      .eq('active', true);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const residenceIds = Array.from(new Set((steps || []).map((s: any) => s.residence_id as number)));
+
+    const totals = { applied: 0, emailsSent: 0, emailsFailed: 0, lateFees: 0 };
+    for (const residenceId of residenceIds) {
+      const result = await runDunning(supabase, residenceId);
+      totals.applied += result.applied;
+      totals.emailsSent += result.emailsSent;
+      totals.emailsFailed += result.emailsFailed;
+      totals.lateFees += result.lateFees;
+    }
+
+    console.log('[Cron] Dunning run - residences:', residenceIds.length, 'marked overdue:', overdue, 'steps applied:', totals.applied);
+
+    return NextResponse.json({ success: true, data: { residences: residenceIds.length, overdue, ...totals } });
+  } catch (error: any) {
+    console.error('[Cron] Dunning error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
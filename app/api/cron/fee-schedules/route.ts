@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { generateScheduledFees, markOverdueFees } from '@/lib/fee-schedule-utils';
+
+/**
+ * Cron: Fee Schedules
+ * GET /api/cron/fee-schedules - Generate due fees for every residence and mark overdue fees
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient();
+
+    const { data: schedules, error } = await supabase
+      .from('fee_schedules')
+      .select('residence_id')
+      .eq('active', true);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const residenceIds = Array.from(new Set((schedules || []).map((s: any) => s.residence_id as number)));
+
+    let created = 0;
+    for (const residenceId of residenceIds) {
+      const result = await generateScheduledFees(supabase, residenceId);
+      created += result.created;
+    }
+
+    // Residences without schedules still have manual fees that can fall overdue
+    const overdue = await markOverdueFees(supabase);
+
+    console.log('[Cron] Fee schedules run - residences:', residenceIds.length, 'fees created:', created, 'marked overdue:', overdue);
+
+    return NextResponse.json({ success: true, data: { residences: residenceIds.length, created, overdue } });
+  } catch (error: any) {
+    console.error('[Cron] Fee schedules error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { escalateSlaBreaches } from '@/lib/incident-sla-utils';
+
+/**
+ * Cron: Incident SLA
+ * GET /api/cron/incident-sla - Notify each residence's syndic of unresolved incidents
+ * that missed their acknowledgement or resolution target. Meant to run every hour.
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient();
+
+    const totals = await escalateSlaBreaches(supabase);
+
+    console.log('[Cron] Incident SLA run - residences:', totals.residences, 'acknowledgement breaches:', totals.acknowledge, 'resolution breaches:', totals.resolve);
+
+    return NextResponse.json({ success: true, data: totals });
+  } catch (error: any) {
+    console.error('[Cron] Incident SLA error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import {
+  buildAssemblyPack,
+  loadAssemblyFonts,
+  needsUnicodeFonts,
+  validateAssemblyPackInput,
+  type AssemblyPackInput,
+} from '@/lib/assembly-utils';
+import { generateAssemblyPackPDF } from '@/lib/pdf/generator';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: General assembly pack
+ * POST /api/mobile/analytics/assembly-pack - PDF bundle for the yearly general assembly:
+ * convocation, accounts of the fiscal year, arrears per apartment and proposed budget
+ * (syndics only). Add `format=json` to get the data instead of the PDF.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const input: AssemblyPackInput = {
+      locale: body.locale || 'fr',
+      fiscalYear: Number(body.fiscal_year),
+      meetingDate: body.meeting_date,
+      meetingTime: body.meeting_time,
+      location: typeof body.location === 'string' ? body.location : '',
+      agenda: body.agenda,
+      budgetIncreasePercent: body.budget_increase_percent === undefined ? 0 : Number(body.budget_increase_percent),
+      budgetOverrides: body.budget_overrides,
+    };
+
+    const validationError = validateAssemblyPackInput(input);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'analytics.view');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const pack = await buildAssemblyPack(supabase, access.actor.residenceId, input);
+
+    if (request.nextUrl.searchParams.get('format') === 'json') {
+      return NextResponse.json(
+        { success: true, data: pack },
+        { headers: getCorsHeaders() }
+      );
+    }
+
+    const fonts = needsUnicodeFonts(input.locale) ? await loadAssemblyFonts() : undefined;
+    const pdfBytes = await generateAssemblyPackPDF(pack, fonts);
+
+    return new NextResponse(Buffer.from(pdfBytes), {
+      headers: {
+        ...getCorsHeaders(),
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="ag-${input.fiscalYear}-${input.locale}.pdf"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('[Mobile API] Assembly pack POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
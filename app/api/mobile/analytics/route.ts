@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import {
+  analyticsToCSV,
+  getResidenceAnalytics,
+  isAnalyticsSection,
+  parseAnalyticsRange,
+} from '@/lib/analytics-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Analytics
+ * GET /api/mobile/analytics?from=&to= - Collection rate, expenses, arrears ageing, incident
+ * resolution and complaint volume of the residence (syndics only).
+ * Add `format=csv&section=<section>` to download the data behind one chart.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const range = parseAnalyticsRange(searchParams.get('from'), searchParams.get('to'));
+    if (!range.success || !range.data) {
+      return NextResponse.json(
+        { success: false, error: range.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'analytics.view');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const analytics = await getResidenceAnalytics(supabase, access.actor.residenceId, range.data);
+
+    if (searchParams.get('format') === 'csv') {
+      const section = searchParams.get('section');
+      if (!isAnalyticsSection(section)) {
+        return NextResponse.json(
+          { success: false, error: 'section must be one of collection, expenses, arrears, incidents, complaints' },
+          { status: 400, headers: getCorsHeaders() }
+        );
+      }
+
+      return new NextResponse(analyticsToCSV(analytics, section), {
+        headers: {
+          ...getCorsHeaders(),
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="analytics-${section}-${range.data.from}-to-${range.data.to}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(
+      { success: true, data: analytics },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Analytics GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
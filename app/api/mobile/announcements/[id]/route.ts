@@ -0,0 +1,239 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize, can, ownsRecord } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS, PATCH',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Resolve the caller and the announcement, checking both belong to the same residence
+ */
+async function loadAnnouncementForUser(request: NextRequest, idParam: string) {
+  const mobileUser = await getMobileUser(request);
+  if (!mobileUser?.id) {
+    return { status: 401, error: 'Unauthorized' };
+  }
+
+  const id = parseInt(idParam);
+  if (isNaN(id)) {
+    return { status: 400, error: 'Invalid announcement ID' };
+  }
+
+  const supabase = createSupabaseAdminClient();
+
+  const access = await authorize(supabase, mobileUser.id);
+  if (!access.ok) {
+    return { status: access.status, error: access.error };
+  }
+
+  const { actor } = access;
+
+  const { data: announcement, error } = await supabase
+    .from('announcements')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    return { status: 400, error: error.message };
+  }
+
+  if (!ownsRecord(actor, announcement)) {
+    return { status: 404, error: 'Announcement not found' };
+  }
+
+  return { supabase, actor, announcement };
+}
+
+/**
+ * Mobile API: Announcement by ID
+ * GET /api/mobile/announcements/[id] - Get announcement details
+ * PATCH /api/mobile/announcements/[id] - Edit, pin, schedule or archive (syndics only)
+ * DELETE /api/mobile/announcements/[id] - Delete announcement (syndics only)
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadAnnouncementForUser(request, id);
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { actor, announcement } = result;
+
+    // Residents cannot read scheduled or archived announcements
+    const isVisible =
+      !announcement.archived_at && new Date(announcement.publish_at).getTime() <= Date.now();
+
+    if (!can(actor.role, 'announcements.manage') && !isVisible) {
+      return NextResponse.json(
+        { success: false, error: 'Announcement not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: announcement },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Announcement GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadAnnouncementForUser(request, id);
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { supabase, actor, announcement } = result;
+
+    if (!can(actor.role, 'announcements.manage')) {
+      return NextResponse.json(
+        { success: false, error: 'Only syndics can update announcements' },
+        { status: 403, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json();
+
+    const updateData: any = {};
+    if (body.title != null) updateData.title = String(body.title).trim();
+    if (body.content != null) updateData.content = String(body.content).trim();
+    if (body.attachment_url !== undefined) updateData.attachment_url = body.attachment_url || null;
+    if (body.is_pinned != null) updateData.is_pinned = body.is_pinned === true;
+    if (body.publish_at != null) {
+      const date = new Date(body.publish_at);
+      if (isNaN(date.getTime())) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid publish_at date' },
+          { status: 400, headers: getCorsHeaders() }
+        );
+      }
+      updateData.publish_at = date.toISOString();
+    }
+    if (body.archived != null) {
+      updateData.archived_at = body.archived ? new Date().toISOString() : null;
+      if (body.archived) updateData.is_pinned = false;
+    }
+
+    if (updateData.title === '' || updateData.content === '') {
+      return NextResponse.json(
+        { success: false, error: 'Title and content cannot be empty' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const { data: updatedAnnouncement, error: updateError } = await supabase
+      .from('announcements')
+      .update(updateData)
+      .eq('id', announcement.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error('[Mobile API] Announcements PATCH: Error updating announcement:', updateError);
+      return NextResponse.json(
+        { success: false, error: updateError.message || 'Failed to update announcement' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: updatedAnnouncement },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Announcement PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadAnnouncementForUser(request, id);
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { supabase, actor, announcement } = result;
+
+    if (!can(actor.role, 'announcements.manage')) {
+      return NextResponse.json(
+        { success: false, error: 'Only syndics can delete announcements' },
+        { status: 403, headers: getCorsHeaders() }
+      );
+    }
+
+    const { error: deleteError } = await supabase
+      .from('announcements')
+      .delete()
+      .eq('id', announcement.id);
+
+    if (deleteError) {
+      console.error('[Mobile API] Announcements DELETE: Error deleting announcement:', deleteError);
+      return NextResponse.json(
+        { success: false, error: deleteError.message || 'Failed to delete announcement' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Announcement DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
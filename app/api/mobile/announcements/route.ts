@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Announcements
+ * GET /api/mobile/announcements - Get announcements of the user's residence
+ * POST /api/mobile/announcements - Publish an announcement (syndics only)
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const userId = mobileUser.id;
+
+    const access = await authorize(supabase, userId);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { residenceId } = access.actor;
+
+    const searchParams = request.nextUrl.searchParams;
+    // Syndics can ask for scheduled/archived announcements too
+    const includeAll = access.actor.role === 'syndic' && searchParams.get('include') === 'all';
+
+    let announcementsQuery = supabase
+      .from('announcements')
+      .select(`
+        *,
+        author:created_by (
+          id,
+          full_name
+        )
+      `)
+      .eq('residence_id', residenceId);
+
+    if (!includeAll) {
+      announcementsQuery = announcementsQuery
+        .is('archived_at', null)
+        .lte('publish_at', new Date().toISOString());
+    }
+
+    const { data: announcements, error: announcementsError } = await announcementsQuery
+      .order('is_pinned', { ascending: false })
+      .order('publish_at', { ascending: false });
+
+    if (announcementsError) {
+      return NextResponse.json(
+        { success: false, error: announcementsError.message },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const announcementsWithAuthor = (announcements || []).map((announcement: any) => ({
+      ...announcement,
+      author_name: announcement.author?.full_name || 'Syndic',
+    }));
+
+    return NextResponse.json(
+      { success: true, data: announcementsWithAuthor },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Announcements GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const userId = mobileUser.id;
+
+    const access = await authorize(supabase, userId, 'announcements.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { residenceId } = access.actor;
+
+    const body = await request.json();
+
+    if (!body.title?.trim() || !body.content?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Title and content are required' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    let publishAt = new Date().toISOString();
+    if (body.publish_at) {
+      const date = new Date(body.publish_at);
+      if (isNaN(date.getTime())) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid publish_at date' },
+          { status: 400, headers: getCorsHeaders() }
+        );
+      }
+      publishAt = date.toISOString();
+    }
+
+    const { data: newAnnouncement, error: createError } = await supabase
+      .from('announcements')
+      .insert({
+        residence_id: residenceId,
+        created_by: userId,
+        title: body.title.trim(),
+        content: body.content.trim(),
+        attachment_url: body.attachment_url || null,
+        is_pinned: body.is_pinned === true,
+        publish_at: publishAt,
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error('[Mobile API] Announcements POST: Error creating announcement:', createError);
+      return NextResponse.json(
+        { success: false, error: createError.message || 'Failed to create announcement' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: newAnnouncement },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Announcements POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
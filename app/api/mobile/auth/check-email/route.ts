@@ -8,7 +8,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*', // Allow all origins for mobile apps
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
     'Access-Control-Max-Age': '86400', // 24 hours
   };
 }
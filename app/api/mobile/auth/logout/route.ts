@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { revokeMobileSession, revokeAllMobileSessions } from '@/lib/auth/mobile-sessions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Logout
+ * POST /api/mobile/auth/logout
+ *
+ * Revokes the caller's session. With `all: true`, every session of the user is revoked.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getMobileUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const supabase = createSupabaseAdminClient();
+
+    if (body?.all === true) {
+      const revoked = await revokeAllMobileSessions(supabase, user.id);
+      console.log('[Mobile Auth] All sessions revoked for user:', user.id, revoked);
+      return NextResponse.json({ success: true, revoked }, { headers: getCorsHeaders() });
+    }
+
+    if (!user.sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'This token is not tied to a mobile session' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    await revokeMobileSession(supabase, user.id, user.sessionId, 'logout');
+    console.log('[Mobile Auth] Session logged out:', user.sessionId);
+
+    return NextResponse.json({ success: true, revoked: 1 }, { headers: getCorsHeaders() });
+  } catch (error: any) {
+    console.error('[Mobile Auth] Error logging out:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { refreshMobileSession, getDeviceInfo } from '@/lib/auth/mobile-sessions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Refresh Session
+ * POST /api/mobile/auth/refresh
+ *
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * The old refresh token stops working; presenting it again revokes the session.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { refreshToken } = body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Refresh token is required' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const result = await refreshMobileSession(supabase, refreshToken, getDeviceInfo(request, body));
+
+    if (!result.success || !result.tokens) {
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to refresh session' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result.tokens,
+    }, { headers: getCorsHeaders() });
+  } catch (error: any) {
+    console.error('[Mobile Auth] Error refreshing session:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
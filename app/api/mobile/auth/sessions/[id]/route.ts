@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { revokeMobileSession } from '@/lib/auth/mobile-sessions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Revoke Session
+ * DELETE /api/mobile/auth/sessions/[id] - Sign out one device
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getMobileUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id } = await params;
+    const supabase = createSupabaseAdminClient();
+    const revoked = /^[0-9a-f-]{36}$/i.test(id)
+      && await revokeMobileSession(supabase, user.id, id, id === user.sessionId ? 'logout' : 'revoked');
+
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { headers: getCorsHeaders() });
+  } catch (error: any) {
+    console.error('[Mobile API] Session DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { listMobileSessions, revokeAllMobileSessions } from '@/lib/auth/mobile-sessions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Sessions
+ * GET /api/mobile/auth/sessions - Devices the user is signed in on
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getMobileUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const sessions = await listMobileSessions(supabase, user.id, user.sessionId);
+
+    return NextResponse.json({ success: true, data: sessions }, { headers: getCorsHeaders() });
+  } catch (error: any) {
+    console.error('[Mobile API] Sessions GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+/**
+ * DELETE /api/mobile/auth/sessions - Sign out every other device
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getMobileUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const revoked = await revokeAllMobileSessions(supabase, user.id, user.sessionId);
+
+    return NextResponse.json({ success: true, revoked }, { headers: getCorsHeaders() });
+  } catch (error: any) {
+    console.error('[Mobile API] Sessions DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
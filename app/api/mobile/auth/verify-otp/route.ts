@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidences, type UserResidence } from '@/lib/residence-utils';
+import { createMobileSession, getDeviceInfo } from '@/lib/auth/mobile-sessions';
 
 /**
  * CORS headers for mobile API
@@ -8,7 +10,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*', // Allow all origins for mobile apps
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
     'Access-Control-Max-Age': '86400', // 24 hours
   };
 }
@@ -25,7 +27,8 @@ export async function OPTIONS() {
  * POST /api/mobile/auth/verify-otp
  * 
  * This endpoint allows residents to authenticate using the OTP code sent to their email
- * when they were added by a syndic.
+ * when they were added by a syndic. Returns a short-lived access token and a refresh token
+ * (see POST /api/mobile/auth/refresh).
  */
 export async function POST(request: NextRequest) {
   try {
@@ -135,75 +138,19 @@ export async function POST(request: NextRequest) {
       // Don't fail the request, but log the error
     }
 
-    // Generate a session token using Supabase admin API
-    // Create a session for the user that can be used for API authentication
-    let accessToken: string | null = null;
-    const refreshToken = null;
-    
-    try {
-      // Use admin API to generate a session for the existing user
-      // This creates a JWT access token that the mobile app can use
-      const { data: sessionData, error: sessionError } = await supabase.auth.admin.generateLink({
-        type: 'magiclink',
-        email: user.email,
-      });
-
-      if (!sessionError && sessionData?.properties?.hashed_token) {
-        // Extract the token from the magic link
-        // Actually, we need a different approach - use admin API to create a session directly
-        // For now, we'll use a workaround: create a custom token that we can validate
-        
-        // Better approach: Use Supabase's admin API to sign in the user
-        // We'll create a session by setting the user's email as confirmed and generating a token
-        const { data: authData, error: authError } = await supabase.auth.admin.createUser({
-          email: user.email,
-          email_confirm: true,
-          user_metadata: {
-            full_name: profile.full_name,
-            role: profile.role,
-          },
-        });
-
-        if (!authError && authData?.user) {
-          // User exists or was created, now generate a session
-          // We'll use the admin API to create a session token
-          // Note: Supabase admin API doesn't directly create sessions, so we'll use a workaround
-          
-          // For mobile apps, we can return a custom token that includes the user ID
-          // The API routes will validate this token
-          accessToken = `otp_verified_${user.id}`;
-        }
-      }
-    } catch (sessionError) {
-      console.error('[Mobile Auth] Error creating session:', sessionError);
-      // Fallback: use custom token
-      accessToken = `otp_verified_${user.id}`;
-    }
-
-    // If we couldn't create a Supabase session, use custom token
-    if (!accessToken) {
-      accessToken = `otp_verified_${user.id}`;
-    }
+    // Start a signed session for this device
+    const session = await createMobileSession(supabase, user, getDeviceInfo(request, body));
 
     // Fetch user's available roles and residences
-    let syndicResidence = null;
+    let syndicResidence: UserResidence | null = null;
     let residentResidences: any[] = [];
     const availableRoles: string[] = [];
 
-    // Check if user is a syndic
-    const { data: syndicRes } = await supabase
-      .from('residences')
-      .select('id, name, address, city')
-      .eq('syndic_user_id', user.id)
-      .maybeSingle();
+    // Check if user is a syndic (a professional syndic can manage several residences)
+    const syndicResidences = await getUserResidences(supabase, user.id, 'syndic');
 
-    if (syndicRes) {
-      syndicResidence = {
-        id: syndicRes.id,
-        name: syndicRes.name,
-        address: syndicRes.address,
-        city: syndicRes.city,
-      };
+    if (syndicResidences.length > 0) {
+      syndicResidence = syndicResidences[0];
       availableRoles.push('syndic');
     }
 
@@ -257,8 +204,10 @@ export async function POST(request: NextRequest) {
       message: 'OTP verified successfully',
       userId: user.id,
       email: user.email,
-      accessToken: accessToken,
-      refreshToken: refreshToken,
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn,
+      sessionId: session.sessionId,
       profile: {
         id: profile.id,
         full_name: profile.full_name,
@@ -271,6 +220,7 @@ export async function POST(request: NextRequest) {
         defaultRole: defaultRole,
         availableRoles: availableRoles,
         syndicResidence: syndicResidence,
+        syndicResidences: syndicResidences,
         residentResidences: residentResidences,
       },
     }, { headers: getCorsHeaders() });
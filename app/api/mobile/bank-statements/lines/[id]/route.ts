@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { confirmStatementLine, ignoreStatementLine } from '@/lib/bank-statement-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Mobile API: Review a bank statement line (syndic only)
+ * PATCH /api/mobile/bank-statements/lines/[id] - Confirm the suggested match ({ decision: "confirm" }),
+ * confirm another one ({ decision: "confirm", payment_id } for a declared transfer,
+ * { decision: "confirm", user_id, fee_ids } for fees, { decision: "confirm", category, description }
+ * for a debit) or ignore the line ({ decision: "ignore" })
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'PATCH, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid line ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'reconciliations.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    const body = await request.json();
+
+    if (body.decision !== 'confirm' && body.decision !== 'ignore') {
+      return NextResponse.json(
+        { success: false, error: 'decision must be "confirm" or "ignore"' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = body.decision === 'confirm'
+      ? await confirmStatementLine(supabase, residenceId, id, mobileUser.id, {
+        paymentId: body.payment_id ? Number(body.payment_id) : null,
+        userId: body.user_id || null,
+        feeIds: Array.isArray(body.fee_ids) ? body.fee_ids.map(Number) : null,
+        category: body.category || null,
+        description: body.description || null,
+      })
+      : await ignoreStatementLine(supabase, residenceId, id, mobileUser.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.line },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Statement line PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { listStatementLines, StatementLineStatus } from '@/lib/bank-statement-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Mobile API: Bank statement lines (syndic only)
+ * GET /api/mobile/bank-statements/lines - Lines still to review (unmatched or suggested), or the
+ * lines of one statement with ?statement_id=; filter by ?status=unmatched|suggested|confirmed|ignored
+ */
+
+const LINE_STATUSES: StatementLineStatus[] = ['unmatched', 'suggested', 'confirmed', 'ignored'];
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'reconciliations.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const statementId = searchParams.get('statement_id');
+    const status = searchParams.get('status');
+
+    if (status && !LINE_STATUSES.includes(status as StatementLineStatus)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${LINE_STATUSES.join(', ')}` },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const lines = await listStatementLines(supabase, access.actor.residenceId, {
+      statementId: statementId ? parseInt(statementId) || null : null,
+      status: status as StatementLineStatus | null,
+    });
+
+    return NextResponse.json(
+      { success: true, data: lines },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Statement lines GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
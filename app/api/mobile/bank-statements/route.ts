@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { importBankStatement, listBankStatements } from '@/lib/bank-statement-utils';
+import { STATEMENT_FORMATS, StatementFormat } from '@/lib/bank-statement-parser';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Mobile API: Bank statements (syndic only)
+ * GET /api/mobile/bank-statements - Imported statements, latest first, with the number of lines to review
+ * POST /api/mobile/bank-statements - Import a statement (multipart/form-data: file, optional format
+ * csv|camt053|ofx); its lines are matched right away
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'reconciliations.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const statements = await listBankStatements(supabase, access.actor.residenceId);
+
+    return NextResponse.json(
+      { success: true, data: statements },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Bank statements GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'reconciliations.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const formData = await request.formData();
+    const format = (formData.get('format') as string | null) || null;
+    if (format && !STATEMENT_FORMATS.includes(format as StatementFormat)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of: ${STATEMENT_FORMATS.join(', ')}` },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await importBankStatement(supabase, {
+      residenceId: access.actor.residenceId,
+      userId: mobileUser.id,
+      file: formData.get('file') as File,
+      format: format as StatementFormat | null,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          statement: result.statement,
+          imported: result.imported,
+          skipped: result.skipped,
+          suggested: result.suggested,
+        },
+      },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Bank statements POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize, ownsRecord } from '@/lib/permissions';
+import { deleteCalendarEvent, updateCalendarEvent } from '@/lib/calendar-utils';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Resolve the caller and the event, checking the caller may manage the residence calendar
+ */
+async function loadEventForManager(request: NextRequest, idParam: string) {
+  const mobileUser = await getMobileUser(request);
+  if (!mobileUser?.id) {
+    return { status: 401, error: 'Unauthorized' };
+  }
+
+  const id = parseInt(idParam);
+  if (isNaN(id)) {
+    return { status: 400, error: 'Invalid event ID' };
+  }
+
+  const supabase = createSupabaseAdminClient();
+
+  const access = await authorize(supabase, mobileUser.id, 'calendar.manage');
+  if (!access.ok) {
+    return { status: access.status, error: access.error };
+  }
+
+  const { data: event, error } = await supabase
+    .from('calendar_events')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    return { status: 400, error: error.message };
+  }
+
+  if (!ownsRecord(access.actor, event)) {
+    return { status: 404, error: 'Event not found' };
+  }
+
+  return { supabase, event };
+}
+
+/**
+ * Mobile API: Calendar event by ID
+ * PATCH /api/mobile/calendar/[id] - Update an event (syndics only)
+ * DELETE /api/mobile/calendar/[id] - Delete an event (syndics only)
+ */
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadEventForManager(request, id);
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { supabase, event } = result;
+    const body = await request.json();
+
+    const updated = await updateCalendarEvent(supabase, event, {
+      title: body.title,
+      description: body.description,
+      event_type: body.event_type,
+      location: body.location,
+      starts_at: body.starts_at,
+      ends_at: body.ends_at,
+      all_day: typeof body.all_day === 'boolean' ? body.all_day : undefined,
+    });
+
+    if (!updated.success) {
+      console.error('[Mobile API] Calendar PATCH: Error updating event:', updated.error);
+      return NextResponse.json(
+        { success: false, error: updated.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: updated.data },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Calendar PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadEventForManager(request, id);
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { supabase, event } = result;
+
+    const { error: deleteError } = await deleteCalendarEvent(supabase, event.id);
+
+    if (deleteError) {
+      console.error('[Mobile API] Calendar DELETE: Error deleting event:', deleteError);
+      return NextResponse.json(
+        { success: false, error: deleteError },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Calendar DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getCalendarFeedPath, getCalendarFeedToken } from '@/lib/calendar-utils';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Calendar feed
+ * GET /api/mobile/calendar/feed - URL of the user's iCalendar feed, to add to the phone's calendar
+ * POST /api/mobile/calendar/feed - Replace the feed URL; the old one stops working
+ */
+
+async function respondWithFeed(request: NextRequest, regenerate: boolean) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const token = await getCalendarFeedToken(supabase, mobileUser.id, regenerate);
+    const url = `${request.nextUrl.origin}${getCalendarFeedPath(token)}`;
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { url, webcal_url: url.replace(/^https?:\/\//, 'webcal://') },
+      },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Calendar feed error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return respondWithFeed(request, false);
+}
+
+export async function POST(request: NextRequest) {
+  return respondWithFeed(request, true);
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { createCalendarEvent, listCalendarItems, parseCalendarRange } from '@/lib/calendar-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Calendar
+ * GET /api/mobile/calendar?from=&to= - Events, fee due dates, interventions and poll closings in a date range
+ * POST /api/mobile/calendar - Create an event (syndics only)
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const range = parseCalendarRange(searchParams.get('from'), searchParams.get('to'));
+    if (!range.success || !range.data) {
+      return NextResponse.json(
+        { success: false, error: range.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const items = await listCalendarItems(supabase, { ...access.actor, range: range.data });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: items,
+        range: { from: range.data.from.toISOString(), to: range.data.to.toISOString() },
+      },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Calendar GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const userId = mobileUser.id;
+
+    const access = await authorize(supabase, userId, 'calendar.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json();
+
+    const result = await createCalendarEvent(supabase, access.actor.residenceId, userId, {
+      title: body.title,
+      description: body.description,
+      event_type: body.event_type,
+      location: body.location,
+      starts_at: body.starts_at,
+      ends_at: body.ends_at,
+      all_day: body.all_day === true,
+    });
+
+    if (!result.success) {
+      console.error('[Mobile API] Calendar POST: Error creating event:', result.error);
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Calendar POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
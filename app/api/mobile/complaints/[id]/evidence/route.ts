@@ -1,19 +1,81 @@
-import { NextResponse } from 'next/server';
-// TODO: Implement this function for evidence upload feature
-// import { auth } from '@/lib/auth';
-// import { getComplaintEvidence } from '@/app/app/complaints/actions';
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { listComplaintEvidence } from '@/lib/complaint-evidence-utils';
+import { authorize } from '@/lib/permissions';
 
 /**
  * Mobile API: Get evidence for a complaint
- * GET /api/mobile/complaints/[id]/evidence
+ * GET /api/mobile/complaints/[id]/evidence - Evidence files with signed URLs valid for
+ * one hour (syndics only; never returned to the complained-about resident)
  */
 
-export async function GET() {
-  // TODO: Implement complaint evidence retrieval feature
-  // This endpoint requires getComplaintEvidence function
-  return NextResponse.json(
-    { success: false, error: 'Complaint evidence retrieval not yet implemented' },
-    { status: 501 }
-  );
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
 }
 
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const complaintId = parseInt(idParam);
+    if (isNaN(complaintId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid complaint ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'complaints.review');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await listComplaintEvidence(supabase, {
+      residenceId: access.actor.residenceId,
+      userId: mobileUser.id,
+      complaintId,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.evidence },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Complaint evidence GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { listComplaintMessages, postComplaintMessage } from '@/lib/complaint-mediation-utils';
+import { authorize, can } from '@/lib/permissions';
+
+/**
+ * Mobile API: Complaint mediation thread
+ * GET /api/mobile/complaints/[id]/messages - Messages the user may read (both channels for
+ * the syndic, only their own conversation with the syndic for each party)
+ * POST /api/mobile/complaints/[id]/messages - Send a message (syndics give the channel)
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const complaintId = parseInt(idParam);
+    if (isNaN(complaintId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid complaint ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await listComplaintMessages(supabase, complaintId, {
+      residenceId: access.actor.residenceId,
+      userId: mobileUser.id,
+      isSyndic: can(access.actor.role, 'complaints.review'),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: { channels: result.channels, messages: result.messages } },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Complaint messages GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const complaintId = parseInt(idParam);
+    if (isNaN(complaintId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid complaint ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await postComplaintMessage(supabase, complaintId, {
+      residenceId: access.actor.residenceId,
+      userId: mobileUser.id,
+      isSyndic: can(access.actor.role, 'complaints.review'),
+    }, {
+      body: typeof body.body === 'string' ? body.body : '',
+      channel: body.channel,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.message },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Complaint messages POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
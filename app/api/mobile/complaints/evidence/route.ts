@@ -1,19 +1,72 @@
-import { NextResponse } from 'next/server';
-// TODO: Implement these functions for evidence upload feature
-// import { auth } from '@/lib/auth';
-// import { uploadComplaintEvidence, addComplaintEvidence } from '@/app/app/complaints/actions';
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { addComplaintEvidence } from '@/lib/complaint-evidence-utils';
+import { authorize } from '@/lib/permissions';
 
 /**
  * Mobile API: Complaint Evidence
- * POST /api/mobile/complaints/evidence - Upload evidence file
+ * POST /api/mobile/complaints/evidence - Upload a photo, audio or video file as evidence
+ * for one of the user's own complaints (multipart/form-data: file, complaint_id)
  */
 
-export async function POST() {
-  // TODO: Implement complaint evidence upload feature
-  // This endpoint requires uploadComplaintEvidence and addComplaintEvidence functions
-  return NextResponse.json(
-    { success: false, error: 'Complaint evidence upload not yet implemented' },
-    { status: 501 }
-  );
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
 }
 
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'complaints.create');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const formData = await request.formData();
+
+    const result = await addComplaintEvidence(supabase, {
+      residenceId: access.actor.residenceId,
+      userId: mobileUser.id,
+      complaintId: Number(formData.get('complaint_id')),
+      file: formData.get('file') as File | null,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.evidence },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Complaint evidence POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
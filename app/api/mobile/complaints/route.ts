@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { parseResidenceId } from '@/lib/residence-utils';
+import { authorize, can } from '@/lib/permissions';
 
 /**
  * Mobile API: Complaints
@@ -12,7 +14,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
   };
 }
 
@@ -20,23 +22,6 @@ export async function OPTIONS() {
   return NextResponse.json({}, { headers: getCorsHeaders() });
 }
 
-/**
- * Helper to get user's residence ID
- */
-async function _getUserResidenceId(userId: string, userRole: string, supabase: any): Promise<number | null> {
-  if (userRole === 'syndic') {
-    const { data } = await supabase.from('residences').select('id').eq('syndic_user_id', userId).maybeSingle();
-    return data?.id || null;
-  } else if (userRole === 'guard') {
-    const { data } = await supabase.from('residences').select('id').eq('guard_user_id', userId).maybeSingle();
-    return data?.id || null;
-  } else if (userRole === 'resident') {
-    const { data } = await supabase.from('profile_residences').select('residence_id').eq('profile_id', userId).limit(1).maybeSingle();
-    return data?.residence_id || null;
-  }
-  return null;
-}
-
 export async function GET(request: NextRequest) {
   try {
     const mobileUser = await getMobileUser(request);
@@ -53,149 +38,20 @@ export async function GET(request: NextRequest) {
 
     console.log('[Mobile API] Complaints: Fetching complaints for user:', userId);
 
-    // Get user profile
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError) {
-      console.error('[Mobile API] Complaints: Profile error:', profileError);
-      return NextResponse.json(
-        { success: false, error: `Failed to fetch user profile: ${profileError.message}` },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
-    if (!userProfile) {
-      console.error('[Mobile API] Complaints: Profile not found for user:', userId);
-      return NextResponse.json(
-        { success: false, error: 'User profile not found. Please contact your syndic.' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
     const searchParams = request.nextUrl.searchParams;
     const status = searchParams.get('status');
-    const requestedRole = searchParams.get('role') as 'syndic' | 'resident' | null; // Current role from mobile app
-    const requestedResidenceId = searchParams.get('residence_id'); // Selected residence when in resident mode
-
-    console.log('[Mobile API] Complaints: Role:', requestedRole, 'Residence ID:', requestedResidenceId);
 
-    // Validate user's actual roles
-    let hasSyndicRole = false;
-    let hasResidentRole = false;
-    
-    // Check if user is actually a syndic
-    const { data: syndicCheck } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-    hasSyndicRole = !!syndicCheck;
-    
-    // Check if user is actually a resident
-    const { data: residentCheck } = await supabase
-      .from('profile_residences')
-      .select('profile_id')
-      .eq('profile_id', userId)
-      .limit(1)
-      .maybeSingle();
-    hasResidentRole = !!residentCheck;
-    
-    // Determine effective role: validate requested role against actual roles
-    let effectiveRole = requestedRole || userProfile.role;
-    
-    // CRITICAL: If user requested syndic but doesn't actually have it, force resident role
-    if (effectiveRole === 'syndic' && !hasSyndicRole) {
-      console.warn('[Mobile API] Complaints: User requested syndic role but doesn\'t have it. Forcing resident role.');
-      effectiveRole = 'resident';
-    }
-    
-    // If user requested resident but doesn't have it, this is an error
-    if (effectiveRole === 'resident' && !hasResidentRole) {
-      return NextResponse.json(
-        { success: false, error: 'User is not registered as a resident' },
-        { status: 403, headers: getCorsHeaders() }
-      );
-    }
-
-    // Determine residence ID based on role
-    let residenceId: number | null = null;
-    let isResidentInResidence = false;
-
-    if (effectiveRole === 'resident') {
-      // User is viewing as resident - check profile_residences table
-      if (requestedResidenceId) {
-        // Verify user is actually a resident in the requested residence
-        const parsedResidenceId = parseInt(requestedResidenceId, 10);
-        if (!isNaN(parsedResidenceId)) {
-          const { data: profileResidence } = await supabase
-            .from('profile_residences')
-            .select('residence_id')
-            .eq('profile_id', userId)
-            .eq('residence_id', parsedResidenceId)
-            .maybeSingle();
-          
-          if (profileResidence) {
-            residenceId = parsedResidenceId;
-            isResidentInResidence = true;
-            console.log('[Mobile API] Complaints: User is a resident in residence:', residenceId);
-          } else {
-            console.error('[Mobile API] Complaints: User is not a resident in requested residence:', parsedResidenceId);
-            return NextResponse.json(
-              { success: false, error: 'You are not a resident in this residence.' },
-              { status: 403, headers: getCorsHeaders() }
-            );
-          }
-        }
-      } else {
-        // Get first residence from profile_residences
-        const { data: pr } = await supabase
-          .from('profile_residences')
-          .select('residence_id')
-          .eq('profile_id', userId)
-          .limit(1)
-          .maybeSingle();
-        
-        if (pr) {
-          residenceId = pr.residence_id;
-          isResidentInResidence = true;
-        }
-      }
-    } else if (effectiveRole === 'syndic') {
-      // User is viewing as syndic - get syndic's residence
-      const { data: res } = await supabase
-        .from('residences')
-        .select('id')
-        .eq('syndic_user_id', userId)
-        .maybeSingle();
-      
-      if (res) {
-        residenceId = res.id;
-        console.log('[Mobile API] Complaints: User is a syndic of residence:', residenceId);
-      }
-    } else if (userProfile.role === 'guard') {
-      // User is a guard
-      const { data: res } = await supabase
-        .from('residences')
-        .select('id')
-        .eq('guard_user_id', userId)
-        .maybeSingle();
-      
-      if (res) {
-        residenceId = res.id;
-      }
-    }
-    
-    if (!residenceId) {
-      console.error('[Mobile API] Complaints: No residence found for user:', userId, 'Role:', effectiveRole);
+    // Residence from the residence_id parameter or the X-Residence-Id header, else the first one
+    const access = await authorize(supabase, userId, 'residence.view', parseResidenceId(searchParams.get('residence_id')), searchParams.get('role'));
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'User has no residence assigned. Please contact your syndic.' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
+    // Users who do not review complaints only see the ones they filed
+    const ownComplaintsOnly = !can(access.actor.role, 'complaints.review');
 
     // Map mobile status to backend status
     let backendStatus: string | undefined;
@@ -234,14 +90,9 @@ export async function GET(request: NextRequest) {
       `)
       .eq('residence_id', residenceId);
 
-    // Role-based filtering
-    // If viewing as resident, only show complaints for this user in this residence
-    if (effectiveRole === 'resident' && isResidentInResidence) {
+    // Role-based filtering: residents only see their own complaints
+    if (ownComplaintsOnly) {
       query = query.eq('complainant_id', userId);
-      console.log('[Mobile API] Complaints: Filtering complaints for resident user:', userId, 'in residence:', residenceId);
-    } else if (effectiveRole === 'syndic') {
-      // Syndic can see all complaints for the residence
-      console.log('[Mobile API] Complaints: Syndic viewing all complaints for residence:', residenceId);
     }
 
     // Status filter
@@ -313,80 +164,21 @@ export async function POST(request: NextRequest) {
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile and residence
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
-      console.error('[Mobile API] Complaints POST: Profile error:', profileError);
-      return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
-    // Get role context from query params or body
+    // Only residents can create complaints
     const searchParams = request.nextUrl.searchParams;
-    const requestedRole = searchParams.get('role') as 'syndic' | 'resident' | null;
-    const requestedResidenceId = searchParams.get('residence_id');
-    const body = await request.json();
-    
-    // Determine effective role - for POST, must be resident
-    const effectiveRole = requestedRole || userProfile.role;
-    
-    // Only residents can create complaints (even if they're also syndic, they must be in resident mode)
-    if (effectiveRole !== 'resident') {
+    const access = await authorize(supabase, userId, 'complaints.create', parseResidenceId(searchParams.get('residence_id')), searchParams.get('role'));
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Only residents can create complaints. Please switch to resident mode.' },
-        { status: 403, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
 
-    // Get residence ID from profile_residences
-    let residenceId: number | null = null;
-    
-    if (requestedResidenceId) {
-      // Verify user is actually a resident in the requested residence
-      const parsedResidenceId = parseInt(requestedResidenceId, 10);
-      if (!isNaN(parsedResidenceId)) {
-        const { data: profileResidence } = await supabase
-          .from('profile_residences')
-          .select('residence_id')
-          .eq('profile_id', userId)
-          .eq('residence_id', parsedResidenceId)
-          .maybeSingle();
-        
-        if (profileResidence) {
-          residenceId = parsedResidenceId;
-        } else {
-          console.error('[Mobile API] Complaints POST: User is not a resident in requested residence:', parsedResidenceId);
-          return NextResponse.json(
-            { success: false, error: 'You are not a resident in this residence.' },
-            { status: 403, headers: getCorsHeaders() }
-          );
-        }
-      }
-    } else {
-      // Get first residence from profile_residences
-      const { data: prLink } = await supabase
-        .from('profile_residences')
-        .select('residence_id')
-        .eq('profile_id', userId)
-        .limit(1)
-        .maybeSingle();
-
-      if (prLink) {
-        residenceId = prLink.residence_id;
-      }
-    }
-
-    if (!residenceId) {
-      console.error('[Mobile API] Complaints POST: No residence found for user:', userId);
+    const body = await request.json().catch(() => null);
+    if (!body) {
       return NextResponse.json(
-        { success: false, error: 'User has no residence assigned' },
+        { success: false, error: 'Invalid JSON body' },
         { status: 400, headers: getCorsHeaders() }
       );
     }
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { upsertContractor } from '@/lib/work-order-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Mobile API: Contractor by ID (syndic only)
+ * PATCH /api/mobile/contractors/[id] - Update a contractor; `active: false` removes them
+ * from the directory while keeping their work orders
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'PATCH, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const contractorId = parseInt(idParam);
+    if (isNaN(contractorId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid contractor ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'incidents.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await upsertContractor(supabase, access.actor.residenceId, mobileUser.id, {
+      id: contractorId,
+      name: body.name,
+      trade: body.trade,
+      phone: body.phone,
+      email: body.email,
+      notes: body.notes,
+      active: typeof body.active === 'boolean' ? body.active : undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Contractor not found' ? 404 : 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.contractor },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Contractor PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidences, parseResidenceId } from '@/lib/residence-utils';
+import { authorize } from '@/lib/permissions';
 import { getDashboardStats } from '@/app/actions/dashboard';
 
 /**
@@ -13,7 +15,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
   };
 }
 
@@ -35,115 +37,31 @@ export async function GET(request: NextRequest) {
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get role and residence_id from query params (for role switching)
+    // Residence from the residence_id parameter or the X-Residence-Id header, else the first one
     const searchParams = request.nextUrl.searchParams;
-    const requestedRole = searchParams.get('role') as 'syndic' | 'resident' | null;
-    const requestedResidenceId = searchParams.get('residence_id');
-
-    console.log('[Mobile API] Dashboard: Fetching profile for user:', userId, 'Role:', requestedRole, 'Residence:', requestedResidenceId);
-
-    // Get user profile
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id, full_name')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError) {
-      console.error('[Mobile API] Dashboard: Profile error:', profileError);
+    const access = await authorize(supabase, userId, 'residence.view', parseResidenceId(searchParams.get('residence_id')), searchParams.get('role'));
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: `Failed to fetch user profile: ${profileError.message}` },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { role, residenceId } = access.actor;
 
-    if (!userProfile) {
-      console.error('[Mobile API] Dashboard: Profile not found for user:', userId);
-      return NextResponse.json(
-        { success: false, error: 'User profile not found. Please contact your syndic.' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
+    console.log('[Mobile API] Dashboard: Fetching dashboard for user:', userId, 'Role:', role, 'Residence:', residenceId);
 
-    // Determine active role: use requested role if provided, otherwise use profile role
-    // IMPORTANT: Validate that the user actually has the requested role
-    let activeRole = requestedRole || userProfile.role;
-    
-    // Check if user actually has the requested role
-    let hasSyndicRole = false;
-    let hasResidentRole = false;
-    
-    // Check if user is a syndic
-    const { data: syndicCheck } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-    hasSyndicRole = !!syndicCheck;
-    
-    // Check if user is a resident
-    const { data: residentCheck } = await supabase
-      .from('profile_residences')
-      .select('profile_id')
-      .eq('profile_id', userId)
-      .limit(1)
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('full_name')
+      .eq('id', userId)
       .maybeSingle();
-    hasResidentRole = !!residentCheck;
-    
-    // Validate active role - if user doesn't have the requested role, use their actual role
-    if (activeRole === 'syndic' && !hasSyndicRole) {
-      // User requested syndic but doesn't have it - force resident role
-      activeRole = 'resident';
-      console.warn('[Mobile API] Dashboard: User requested syndic role but doesn\'t have it. Forcing resident role.');
-    } else if (activeRole === 'resident' && !hasResidentRole) {
-      // User requested resident but doesn't have it - this shouldn't happen, but fallback to profile role
-      activeRole = userProfile.role || 'resident';
-      console.warn('[Mobile API] Dashboard: User requested resident role but doesn\'t have it. Using profile role.');
-    }
 
-    // If user is a resident (or requesting resident role), return resident-specific stats
-    if (activeRole === 'resident') {
+    // Residents get their own stats
+    if (role === 'resident') {
       console.log('[Mobile API] Dashboard: User is a resident, fetching residence data');
-      
-      // Get residence ID - use requested residence_id if provided, otherwise get first residence
-      let residenceId: number | null = null;
-      let residenceData: any = null;
-
-      if (requestedResidenceId) {
-        // Use requested residence
-        const { data: res } = await supabase
-          .from('residences')
-          .select('id, name, address, city')
-          .eq('id', parseInt(requestedResidenceId))
-          .maybeSingle();
-        
-        if (res) {
-          residenceId = res.id;
-          residenceData = res;
-        }
-      } else {
-        // Get first residence from profile_residences
-        const { data: prLink, error: prLinkError } = await supabase
-          .from('profile_residences')
-          .select('residence_id, residences(id, name, address, city)')
-          .eq('profile_id', userId)
-          .limit(1)
-          .maybeSingle();
-
-        if (prLinkError) {
-          console.error('[Mobile API] Dashboard: Error fetching residence:', prLinkError);
-          return NextResponse.json(
-            { success: false, error: `Failed to fetch residence: ${prLinkError.message}` },
-            { status: 400, headers: getCorsHeaders() }
-          );
-        }
-
-        if (prLink) {
-          residenceId = prLink.residence_id;
-          residenceData = Array.isArray(prLink.residences) ? prLink.residences[0] : prLink.residences;
-        }
-      }
 
+      const residences = await getUserResidences(supabase, userId, 'resident');
+      const residenceData = residences.find((r) => r.id === residenceId) || null;
 
       // Get resident-specific stats
       const now = new Date();
@@ -179,7 +97,7 @@ export async function GET(request: NextRequest) {
         // Get fees (resident's payment obligations)
         supabase
           .from('fees')
-          .select('id, amount, status, due_date, created_at')
+          .select('id, amount, amount_paid, balance_due, status, due_date, created_at')
           .eq('user_id', userId)
           .eq('residence_id', residenceId),
       ]);
@@ -209,28 +127,28 @@ export async function GET(request: NextRequest) {
 
       // Fee stats
       const totalFees = allFees.length;
-      const pendingFees = allFees.filter((f: any) => f.status === 'pending' || f.status === 'unpaid').length;
+      const pendingFees = allFees.filter((f: any) => f.status === 'pending' || f.status === 'unpaid' || f.status === 'partially_paid').length;
       const overdueFees = allFees.filter((f: any) => {
         if (f.status === 'overdue') return true;
         if (f.due_date) {
           const dueDate = new Date(f.due_date);
-          return dueDate < now && (f.status === 'pending' || f.status === 'unpaid');
+          return dueDate < now && (f.status === 'pending' || f.status === 'unpaid' || f.status === 'partially_paid');
         }
         return false;
       }).length;
       const totalOwedAmount = allFees
-        .filter((f: any) => f.status === 'pending' || f.status === 'unpaid' || f.status === 'overdue')
-        .reduce((sum: number, f: any) => sum + (Number(f.amount) || 0), 0);
+        .filter((f: any) => f.status === 'pending' || f.status === 'unpaid' || f.status === 'partially_paid' || f.status === 'overdue')
+        .reduce((sum: number, f: any) => sum + (Number(f.balance_due ?? f.amount) || 0), 0);
       const overdueAmount = allFees
         .filter((f: any) => {
           if (f.status === 'overdue') return true;
           if (f.due_date) {
             const dueDate = new Date(f.due_date);
-            return dueDate < now && (f.status === 'pending' || f.status === 'unpaid');
+            return dueDate < now && (f.status === 'pending' || f.status === 'unpaid' || f.status === 'partially_paid');
           }
           return false;
         })
-        .reduce((sum: number, f: any) => sum + (Number(f.amount) || 0), 0);
+        .reduce((sum: number, f: any) => sum + (Number(f.balance_due ?? f.amount) || 0), 0);
 
       // Incident stats
       const totalIncidents = allIncidents.length;
@@ -244,7 +162,7 @@ export async function GET(request: NextRequest) {
       // Complaint stats
       const totalComplaints = allComplaints.length;
       const openComplaints = allComplaints.filter((c: any) => 
-        c.status === 'submitted' || c.status === 'reviewed'
+        c.status !== 'resolved'
       ).length;
 
       // Get recent activities
@@ -301,37 +219,32 @@ export async function GET(request: NextRequest) {
             overduePayments: overdueFees,
           },
           user: {
-            name: userProfile.full_name || 'Resident',
+            name: userProfile?.full_name || 'Resident',
             email: mobileUser.email || '',
             role: 'resident',
           },
           residence: residenceData || null,
+          residences,
           activities: activities || [],
         },
         { headers: getCorsHeaders() }
       );
     }
 
-    // If user is a syndic (or requesting syndic role), return syndic-specific stats
-    if (activeRole === 'syndic') {
+    // Syndics get the stats of the residence they manage
+    if (role === 'syndic') {
       console.log('[Mobile API] Dashboard: User is a syndic, fetching syndic dashboard data');
-      
-      // Get syndic's residence
-      const { data: syndicRes } = await supabase
-        .from('residences')
-        .select('id, name, address, city')
-        .eq('syndic_user_id', userId)
-        .maybeSingle();
+
+      const managedResidences = await getUserResidences(supabase, userId, 'syndic');
+      const syndicRes = managedResidences.find((r) => r.id === residenceId);
 
       if (!syndicRes) {
         return NextResponse.json(
-          { success: false, error: 'User is not a syndic or has no residence assigned' },
-          { status: 400, headers: getCorsHeaders() }
+          { success: false, error: 'You do not have access to this residence' },
+          { status: 403, headers: getCorsHeaders() }
         );
       }
 
-      const residenceId = syndicRes.id;
-
       // Get syndic dashboard stats
       const now = new Date();
       const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -373,14 +286,15 @@ export async function GET(request: NextRequest) {
         // All fees
         supabase
           .from('fees')
-          .select('id, amount, status, due_date, created_at')
+          .select('id, amount, amount_paid, balance_due, status, due_date, created_at')
           .eq('residence_id', residenceId),
         
-        // All expenses
+        // All expenses (drafts from bank statements aren't spent yet)
         supabase
           .from('expenses')
           .select('id, amount, expense_date, category')
-          .eq('residence_id', residenceId),
+          .eq('residence_id', residenceId)
+          .eq('status', 'recorded'),
       ]);
 
       const allResidents = residentsResult.data?.filter((r: any) => 
@@ -427,29 +341,29 @@ export async function GET(request: NextRequest) {
 
       // Fee stats
       const totalFees = allFees.length;
-      const pendingFees = allFees.filter((f: any) => f.status === 'pending' || f.status === 'unpaid').length;
+      const pendingFees = allFees.filter((f: any) => f.status === 'pending' || f.status === 'unpaid' || f.status === 'partially_paid').length;
       const overdueFees = allFees.filter((f: any) => {
         if (f.status === 'overdue') return true;
         if (f.due_date) {
           const dueDate = new Date(f.due_date);
-          return dueDate < now && (f.status === 'pending' || f.status === 'unpaid');
+          return dueDate < now && (f.status === 'pending' || f.status === 'unpaid' || f.status === 'partially_paid');
         }
         return false;
       }).length;
       const totalExpectedRevenue = allFees.reduce((sum: number, f: any) => sum + (Number(f.amount) || 0), 0);
       const pendingAmount = allFees
-        .filter((f: any) => f.status === 'pending' || f.status === 'unpaid')
-        .reduce((sum: number, f: any) => sum + (Number(f.amount) || 0), 0);
+        .filter((f: any) => f.status === 'pending' || f.status === 'unpaid' || f.status === 'partially_paid')
+        .reduce((sum: number, f: any) => sum + (Number(f.balance_due ?? f.amount) || 0), 0);
       const overdueAmount = allFees
         .filter((f: any) => {
           if (f.status === 'overdue') return true;
           if (f.due_date) {
             const dueDate = new Date(f.due_date);
-            return dueDate < now && (f.status === 'pending' || f.status === 'unpaid');
+            return dueDate < now && (f.status === 'pending' || f.status === 'unpaid' || f.status === 'partially_paid');
           }
           return false;
         })
-        .reduce((sum: number, f: any) => sum + (Number(f.amount) || 0), 0);
+        .reduce((sum: number, f: any) => sum + (Number(f.balance_due ?? f.amount) || 0), 0);
       
       // Collection rate
       const collectionRate = totalExpectedRevenue > 0 
@@ -484,7 +398,7 @@ export async function GET(request: NextRequest) {
       // Complaint stats
       const totalComplaints = allComplaints.length;
       const openComplaints = allComplaints.filter((c: any) => 
-        c.status === 'submitted' || c.status === 'reviewed'
+        c.status !== 'resolved'
       ).length;
       const resolvedComplaints = allComplaints.filter((c: any) => 
         c.status === 'resolved'
@@ -556,7 +470,7 @@ export async function GET(request: NextRequest) {
             resolvedComplaints,
           },
           user: {
-            name: userProfile.full_name || 'Syndic',
+            name: userProfile?.full_name || 'Syndic',
             email: mobileUser.email || '',
             role: 'syndic',
           },
@@ -566,6 +480,7 @@ export async function GET(request: NextRequest) {
             address: syndicRes.address,
             city: syndicRes.city,
           },
+          residences: managedResidences,
           activities: activities || [],
         },
         { headers: getCorsHeaders() }
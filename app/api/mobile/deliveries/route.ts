@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { listDeliveries, logDelivery } from '@/lib/delivery-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Deliveries
+ * GET /api/mobile/deliveries - Get parcels (residents: their own, guards/syndics: the residence)
+ * POST /api/mobile/deliveries - Log a parcel received at the gate (guards and syndics)
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const userId = mobileUser.id;
+
+    const access = await authorize(supabase, userId);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { residenceId } = access.actor;
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+
+    const deliveries = await listDeliveries(supabase, {
+      residenceId,
+      viewerId: userId,
+      role: access.actor.role,
+      recipientId: searchParams.get('recipient_id'),
+      status: status === 'pending' || status === 'picked_up' ? status : null,
+    });
+
+    return NextResponse.json(
+      { success: true, data: deliveries },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Deliveries GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const userId = mobileUser.id;
+
+    const access = await authorize(supabase, userId, 'deliveries.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { residenceId } = access.actor;
+
+    const body = await request.json();
+
+    const result = await logDelivery(supabase, {
+      residenceId,
+      loggedBy: userId,
+      recipientId: body.recipient_id,
+      description: body.description,
+      carrier: body.carrier,
+    });
+
+    if (!result.success) {
+      console.error('[Mobile API] Deliveries POST: Error logging delivery:', result.error);
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Deliveries POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUncollectedDeliveries } from '@/lib/delivery-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Uncollected deliveries report
+ * GET /api/mobile/deliveries/uncollected?days=7 - Parcels waiting for more than N days (syndics only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const userId = mobileUser.id;
+
+    const access = await authorize(supabase, userId, 'deliveries.report');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { residenceId } = access.actor;
+
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '7');
+    if (isNaN(days) || days < 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid days parameter' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const deliveries = await getUncollectedDeliveries(supabase, residenceId, days);
+
+    return NextResponse.json(
+      { success: true, data: deliveries },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Uncollected deliveries GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
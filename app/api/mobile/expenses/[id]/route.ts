@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { LEDGER_ACCOUNTS, reverseExpenseEntries, syncExpenseEntries } from '@/lib/ledger-utils';
+import { checkPeriodOpen } from '@/lib/reconciliation-utils';
+import { authorize, ownsRecord } from '@/lib/permissions';
 
 /**
  * CORS headers for mobile API
@@ -9,7 +12,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS, PATCH',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -42,6 +45,14 @@ export async function GET(
     }
 
     const supabase = createSupabaseAdminClient();
+    const access = await authorize(supabase, mobileUser.id, 'expenses.view');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
     const { id: idParam } = await params;
     const id = parseInt(idParam);
     if (isNaN(id)) {
@@ -64,7 +75,7 @@ export async function GET(
       );
     }
 
-    if (!expense) {
+    if (!expense || !ownsRecord(access.actor, expense)) {
       return NextResponse.json(
         { success: false, error: 'Expense not found' },
         { status: 404, headers: getCorsHeaders() }
@@ -100,25 +111,12 @@ export async function PATCH(
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile to verify syndic role
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
-      return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
     // Only syndics can update expenses
-    if (userProfile.role !== 'syndic') {
+    const access = await authorize(supabase, userId, 'expenses.manage');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Only syndics can update expenses' },
-        { status: 403, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
 
@@ -133,6 +131,37 @@ export async function PATCH(
 
     const body = await request.json();
 
+    if (body.funding_source != null && !LEDGER_ACCOUNTS.includes(body.funding_source)) {
+      return NextResponse.json(
+        { success: false, error: 'funding_source must be cash or bank' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const { data: existingExpense } = await supabase
+      .from('expenses')
+      .select('id, residence_id, expense_date')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!existingExpense || !ownsRecord(access.actor, existingExpense)) {
+      return NextResponse.json(
+        { success: false, error: 'Expense not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    const lockedError = await checkPeriodOpen(supabase, existingExpense.residence_id, [
+      existingExpense.expense_date,
+      body.expense_date,
+    ]);
+    if (lockedError) {
+      return NextResponse.json(
+        { success: false, error: lockedError },
+        { status: 409, headers: getCorsHeaders() }
+      );
+    }
+
     // Update expense directly in database
     const updateData: any = {};
     if (body.description != null) updateData.description = body.description;
@@ -140,6 +169,7 @@ export async function PATCH(
     if (body.category != null) updateData.category = body.category;
     if (body.expense_date != null) updateData.expense_date = body.expense_date;
     if (body.receipt_url != null) updateData.receipt_url = body.receipt_url;
+    if (body.funding_source != null) updateData.funding_source = body.funding_source;
 
     const { data: updatedExpense, error: updateError } = await supabase
       .from('expenses')
@@ -156,6 +186,13 @@ export async function PATCH(
       );
     }
 
+    if (updateData.amount !== undefined || updateData.funding_source !== undefined) {
+      const ledgerResult = await syncExpenseEntries(supabase, updatedExpense, userId);
+      if (!ledgerResult.success) {
+        console.error('[Mobile API] Expenses PATCH: Error posting expense change to ledger:', ledgerResult.error);
+      }
+    }
+
     return NextResponse.json(
       { success: true, data: updatedExpense },
       { headers: getCorsHeaders() }
@@ -185,25 +222,12 @@ export async function DELETE(
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile to verify syndic role
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
-      return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
     // Only syndics can delete expenses
-    if (userProfile.role !== 'syndic') {
+    const access = await authorize(supabase, userId, 'expenses.manage');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Only syndics can delete expenses' },
-        { status: 403, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
 
@@ -216,6 +240,27 @@ export async function DELETE(
       );
     }
 
+    const { data: existingExpense } = await supabase
+      .from('expenses')
+      .select('id, residence_id, description, expense_date')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!existingExpense || !ownsRecord(access.actor, existingExpense)) {
+      return NextResponse.json(
+        { success: false, error: 'Expense not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    const lockedError = await checkPeriodOpen(supabase, existingExpense.residence_id, [existingExpense.expense_date]);
+    if (lockedError) {
+      return NextResponse.json(
+        { success: false, error: lockedError },
+        { status: 409, headers: getCorsHeaders() }
+      );
+    }
+
     // Delete expense directly from database
     const { error: deleteError } = await supabase
       .from('expenses')
@@ -230,6 +275,11 @@ export async function DELETE(
       );
     }
 
+    const ledgerResult = await reverseExpenseEntries(supabase, existingExpense, userId);
+    if (!ledgerResult.success) {
+      console.error('[Mobile API] Expenses DELETE: Error reversing expense in ledger:', ledgerResult.error);
+    }
+
     return NextResponse.json(
       { success: true },
       { headers: getCorsHeaders() }
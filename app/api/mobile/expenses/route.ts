@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { LEDGER_ACCOUNTS, postExpenseEntry } from '@/lib/ledger-utils';
+import { checkPeriodOpen } from '@/lib/reconciliation-utils';
+import { authorize } from '@/lib/permissions';
 
 /**
  * CORS headers for mobile API
@@ -9,7 +12,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -40,39 +43,14 @@ export async function GET(request: NextRequest) {
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
-      return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
-    // Get residence ID
-    let residenceId = null;
-    if (userProfile.role === 'syndic') {
-      const { data: res } = await supabase.from('residences').select('id').eq('syndic_user_id', userId).maybeSingle();
-      residenceId = res?.id;
-    } else if (userProfile.role === 'guard') {
-      const { data: res } = await supabase.from('residences').select('id').eq('guard_user_id', userId).maybeSingle();
-      residenceId = res?.id;
-    } else {
-      const { data: pr } = await supabase.from('profile_residences').select('residence_id').eq('profile_id', userId).limit(1).maybeSingle();
-      residenceId = pr?.residence_id;
-    }
-
-    if (!residenceId) {
+    const access = await authorize(supabase, userId);
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'User has no residence assigned' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
 
     const searchParams = request.nextUrl.searchParams;
     const category = searchParams.get('category');
@@ -150,49 +128,40 @@ export async function POST(request: NextRequest) {
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile to verify syndic role
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
+    // Only syndics can create expenses
+    const access = await authorize(supabase, userId, 'expenses.manage');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
 
-    // Only syndics can create expenses
-    if (userProfile.role !== 'syndic') {
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.description || !body.amount || !body.category) {
       return NextResponse.json(
-        { success: false, error: 'Only syndics can create expenses' },
-        { status: 403, headers: getCorsHeaders() }
+        { success: false, error: 'Description, amount, and category are required' },
+        { status: 400, headers: getCorsHeaders() }
       );
     }
 
-    // Get residence ID
-    const { data: residence } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-
-    if (!residence) {
+    if (body.funding_source && !LEDGER_ACCOUNTS.includes(body.funding_source)) {
       return NextResponse.json(
-        { success: false, error: 'User has no residence assigned' },
+        { success: false, error: 'funding_source must be cash or bank' },
         { status: 400, headers: getCorsHeaders() }
       );
     }
 
-    const body = await request.json();
+    const expenseDate = body.expense_date || new Date().toISOString().split('T')[0];
 
-    // Validate required fields
-    if (!body.description || !body.amount || !body.category) {
+    const lockedError = await checkPeriodOpen(supabase, residenceId, [expenseDate]);
+    if (lockedError) {
       return NextResponse.json(
-        { success: false, error: 'Description, amount, and category are required' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: lockedError },
+        { status: 409, headers: getCorsHeaders() }
       );
     }
 
@@ -200,13 +169,14 @@ export async function POST(request: NextRequest) {
     const { data: newExpense, error: createError } = await supabase
       .from('expenses')
       .insert({
-        residence_id: residence.id,
+        residence_id: residenceId,
         created_by: userId,
         description: body.description,
         amount: body.amount,
         category: body.category,
-        expense_date: body.expense_date || new Date().toISOString().split('T')[0],
+        expense_date: expenseDate,
         receipt_url: body.receipt_url || null,
+        funding_source: body.funding_source || 'cash',
       })
       .select()
       .single();
@@ -219,6 +189,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const ledgerResult = await postExpenseEntry(supabase, newExpense, userId);
+    if (!ledgerResult.success) {
+      console.error('[Mobile API] Expenses POST: Error posting expense to ledger:', ledgerResult.error);
+    }
+
     return NextResponse.json(
       { success: true, data: newExpense },
       { status: 201, headers: getCorsHeaders() }
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize, can, ownsRecord } from '@/lib/permissions';
+import { getFeeStatus, resolveFeeStatusChange } from '@/lib/allocation-utils';
 
 /**
  * CORS headers for mobile API
@@ -9,7 +11,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS, PATCH',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -42,6 +44,14 @@ export async function GET(
     }
 
     const supabase = createSupabaseAdminClient();
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
     const { id: idParam } = await params;
     const id = parseInt(idParam);
     if (isNaN(id)) {
@@ -64,7 +74,11 @@ export async function GET(
       );
     }
 
-    if (!fee) {
+    // Residents only see their own fees
+    const canView = ownsRecord(access.actor, fee) &&
+      (can(access.actor.role, 'fees.view_all') || fee.user_id === mobileUser.id);
+
+    if (!fee || !canView) {
       return NextResponse.json(
         { success: false, error: 'Fee not found' },
         { status: 404, headers: getCorsHeaders() }
@@ -100,25 +114,12 @@ export async function PATCH(
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile to verify syndic role
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
+    // Only syndics can update fees, and only in their own residence
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
-    // Only syndics can update fees
-    if (userProfile.role !== 'syndic') {
-      return NextResponse.json(
-        { success: false, error: 'Only syndics can update fees' },
-        { status: 403, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
 
@@ -133,19 +134,62 @@ export async function PATCH(
 
     const body = await request.json();
 
+    const { data: existingFee } = await supabase
+      .from('fees')
+      .select('id, residence_id, amount, amount_paid, due_date')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!existingFee || !ownsRecord(access.actor, existingFee)) {
+      return NextResponse.json(
+        { success: false, error: 'Fee not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
     // Update fee directly in database
     const updateData: any = {};
     if (body.title != null) updateData.title = body.title;
     if (body.amount != null) updateData.amount = body.amount;
     if (body.due_date != null) updateData.due_date = body.due_date;
-    if (body.status != null) updateData.status = body.status;
+
+    // Keep the balance consistent with what the allocated payments cover
+    let amountPaid = Number(existingFee.amount_paid || 0);
+    if (body.status != null) {
+      const resolved = await resolveFeeStatusChange(supabase, { ...existingFee, ...updateData }, body.status);
+      if ('error' in resolved) {
+        return NextResponse.json(
+          { success: false, error: resolved.error },
+          { status: 400, headers: getCorsHeaders() }
+        );
+      }
+      amountPaid = resolved.amount_paid;
+      updateData.amount_paid = resolved.amount_paid;
+      updateData.status = resolved.status;
+    } else if (updateData.amount !== undefined) {
+      updateData.status = getFeeStatus({ ...existingFee, ...updateData }, amountPaid);
+    }
+    if (updateData.amount !== undefined && Number(updateData.amount) < amountPaid) {
+      return NextResponse.json(
+        { success: false, error: `Amount cannot be lower than the ${amountPaid.toFixed(2)} MAD already paid` },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
 
     const { data: updatedFee, error: updateError } = await supabase
       .from('fees')
       .update(updateData)
       .eq('id', id)
+      .eq('residence_id', access.actor.residenceId)
       .select()
-      .single();
+      .maybeSingle();
+
+    if (!updateError && !updatedFee) {
+      return NextResponse.json(
+        { success: false, error: 'Fee not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
 
     if (updateError) {
       console.error('[Mobile API] Fees PATCH: Error updating fee:', updateError);
@@ -184,25 +228,12 @@ export async function DELETE(
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile to verify syndic role
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
+    // Only syndics can delete fees, and only in their own residence
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
-    // Only syndics can delete fees
-    if (userProfile.role !== 'syndic') {
-      return NextResponse.json(
-        { success: false, error: 'Only syndics can delete fees' },
-        { status: 403, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
 
@@ -216,10 +247,19 @@ export async function DELETE(
     }
 
     // Delete fee directly from database
-    const { error: deleteError } = await supabase
+    const { data: deletedFees, error: deleteError } = await supabase
       .from('fees')
       .delete()
-      .eq('id', id);
+      .eq('id', id)
+      .eq('residence_id', access.actor.residenceId)
+      .select('id');
+
+    if (!deleteError && (deletedFees || []).length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Fee not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
 
     if (deleteError) {
       console.error('[Mobile API] Fees DELETE: Error deleting fee:', deleteError);
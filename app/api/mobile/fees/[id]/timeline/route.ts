@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getFeeTimeline } from '@/lib/dunning-utils';
+import { authorize, can, ownsRecord } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Fee Timeline
+ * GET /api/mobile/fees/[id]/timeline - Issue, overdue marking, reminders, late fees and
+ * payments of a fee. Residents only see their own fees.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid fee ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const { data: fee } = await supabase
+      .from('fees')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    const canView = !!fee && ownsRecord(access.actor, fee) &&
+      (can(access.actor.role, 'fees.view_all') || fee.user_id === mobileUser.id);
+
+    if (!canView) {
+      return NextResponse.json(
+        { success: false, error: 'Fee not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    const timeline = await getFeeTimeline(supabase, fee);
+
+    return NextResponse.json(
+      { success: true, data: { fee, timeline } },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Fee timeline GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import {
+  DEFAULT_DUNNING_STEPS,
+  DunningStepInput,
+  listDunningActivity,
+  listDunningSteps,
+  runDunning,
+  saveDunningSteps,
+  validateDunningSteps,
+} from '@/lib/dunning-utils';
+import { markOverdueFees } from '@/lib/fee-schedule-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Dunning Policy
+ * GET /api/mobile/fees/dunning - Policy steps, suggested steps and latest reminders (syndic only)
+ * PUT /api/mobile/fees/dunning - Replace the policy steps (syndic only)
+ * POST /api/mobile/fees/dunning - Apply the policy now instead of waiting for the daily run (syndic only)
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'fees.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    const [steps, activity] = await Promise.all([
+      listDunningSteps(supabase, residenceId),
+      listDunningActivity(supabase, residenceId),
+    ]);
+
+    return NextResponse.json(
+      { success: true, data: { steps, suggested: DEFAULT_DUNNING_STEPS, activity } },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Dunning GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'fees.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json();
+    if (!Array.isArray(body.steps)) {
+      return NextResponse.json(
+        { success: false, error: 'steps must be an array' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const steps: DunningStepInput[] = body.steps.map((step: any) => ({
+      id: step.id ? Number(step.id) : undefined,
+      kind: step.kind,
+      offsetDays: Number(step.offset_days),
+      lateFeeType: step.late_fee_type ?? null,
+      lateFeeAmount: step.late_fee_amount ?? null,
+      active: step.active ?? true,
+    }));
+
+    const validationError = validateDunningSteps(steps);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const saved = await saveDunningSteps(supabase, access.actor.residenceId, steps, mobileUser.id);
+
+    return NextResponse.json(
+      { success: true, data: saved },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Dunning PUT error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'fees.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    await markOverdueFees(supabase, residenceId);
+    const result = await runDunning(supabase, residenceId);
+
+    return NextResponse.json(
+      { success: true, data: result },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Dunning POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { notifyUsers } from '@/lib/notification-utils';
+import { generateScheduledFees, getUpcomingCharges } from '@/lib/fee-schedule-utils';
+import { applyResidentCredit, getResidentCredit } from '@/lib/allocation-utils';
+import { resolveFeeApartment } from '@/lib/statement-utils';
+import { authorize, can } from '@/lib/permissions';
 
 /**
  * CORS headers for mobile API
@@ -9,7 +14,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -23,7 +28,7 @@ export async function OPTIONS() {
 
 /**
  * Mobile API: Fees
- * GET /api/mobile/fees - Get all fees
+ * GET /api/mobile/fees - Get all fees (plus upcoming scheduled charges and resident credit)
  * POST /api/mobile/fees - Create fee
  */
 
@@ -40,44 +45,24 @@ export async function GET(request: NextRequest) {
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
-      return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
-    // Get residence ID
-    let residenceId = null;
-    if (userProfile.role === 'syndic') {
-      const { data: res } = await supabase.from('residences').select('id').eq('syndic_user_id', userId).maybeSingle();
-      residenceId = res?.id;
-    } else if (userProfile.role === 'guard') {
-      const { data: res } = await supabase.from('residences').select('id').eq('guard_user_id', userId).maybeSingle();
-      residenceId = res?.id;
-    } else {
-      const { data: pr } = await supabase.from('profile_residences').select('residence_id').eq('profile_id', userId).limit(1).maybeSingle();
-      residenceId = pr?.residence_id;
-    }
-
-    if (!residenceId) {
+    const access = await authorize(supabase, userId);
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'User has no residence assigned' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
+    // Residents only see their own fees
+    const ownFeesOnly = !can(access.actor.role, 'fees.view_all');
 
     const searchParams = request.nextUrl.searchParams;
     const user_id = searchParams.get('user_id'); // Filter by specific user
     const status = searchParams.get('status');
 
+    // Bill elapsed periods of recurring schedules before listing fees
+    await generateScheduledFees(supabase, residenceId);
+
     // Fetch fees
     let feesQuery = supabase
       .from('fees')
@@ -96,7 +81,7 @@ export async function GET(request: NextRequest) {
       .eq('residence_id', residenceId);
 
     // Role-based filtering: residents only see their own fees
-    if (userProfile.role === 'resident') {
+    if (ownFeesOnly) {
       feesQuery = feesQuery.eq('user_id', userId);
     } else if (user_id) {
       feesQuery = feesQuery.eq('user_id', user_id);
@@ -123,8 +108,18 @@ export async function GET(request: NextRequest) {
       residence_name: fee.residences?.name || 'Unknown',
     }));
 
+    // Next scheduled charges: residents see their own amounts, staff see residence totals
+    const upcoming = await getUpcomingCharges(supabase, residenceId, {
+      userId: ownFeesOnly ? userId : undefined,
+      periods: 3,
+    });
+
+    // Unallocated payments of the resident whose fees are listed
+    const creditUserId = ownFeesOnly ? userId : user_id;
+    const credit = creditUserId ? await getResidentCredit(supabase, residenceId, creditUserId) : null;
+
     return NextResponse.json(
-      { success: true, data: feesWithNames },
+      { success: true, data: feesWithNames, upcoming, credit },
       { headers: getCorsHeaders() }
     );
   } catch (error: any) {
@@ -149,41 +144,15 @@ export async function POST(request: NextRequest) {
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile to verify syndic role
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
-      return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
     // Only syndics can create fees
-    if (userProfile.role !== 'syndic') {
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Only syndics can create fees' },
-        { status: 403, headers: getCorsHeaders() }
-      );
-    }
-
-    // Get residence ID
-    const { data: residence } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-
-    if (!residence) {
-      return NextResponse.json(
-        { success: false, error: 'User has no residence assigned' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
 
     const body = await request.json();
 
@@ -204,15 +173,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Create fee directly in database
-    const { data: newFee, error: createError } = await supabase
+    const status = body.status || 'unpaid';
+    const apartmentNumber = await resolveFeeApartment(supabase, residenceId, body.user_id, body.apartment_number);
+    const { data: createdFee, error: createError } = await supabase
       .from('fees')
       .insert({
         user_id: body.user_id,
-        residence_id: residence.id,
+        residence_id: residenceId,
+        apartment_number: apartmentNumber,
         title: body.title,
         amount: body.amount,
+        amount_paid: status === 'paid' ? Number(body.amount) : 0,
         due_date: body.due_date,
-        status: body.status || 'unpaid',
+        status,
       })
       .select()
       .single();
@@ -225,6 +198,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Settle the new fee with the resident's credit from earlier overpayments
+    let newFee = createdFee;
+    const creditApplied = await applyResidentCredit(supabase, residenceId, newFee.user_id, userId);
+    if (creditApplied > 0) {
+      const { data: refreshedFee } = await supabase.from('fees').select('*').eq('id', newFee.id).single();
+      if (refreshedFee) newFee = refreshedFee;
+    }
+
+    await notifyUsers(supabase, {
+      userIds: [newFee.user_id],
+      category: 'fees',
+      title: 'New Fee',
+      message: `${newFee.title}: ${Number(newFee.amount).toFixed(2)} MAD due on ${new Date(newFee.due_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+      residenceId: newFee.residence_id,
+      actionData: {
+        fee_id: newFee.id,
+        type: 'fee',
+      },
+    });
+
     return NextResponse.json(
       { success: true, data: newFee },
       { status: 201, headers: getCorsHeaders() }
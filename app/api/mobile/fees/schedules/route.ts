@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import {
+  generateScheduledFees,
+  getBillableApartments,
+  getUpcomingCharges,
+  listFeeSchedules,
+  validateFeeSchedule,
+} from '@/lib/fee-schedule-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Fee Schedules
+ * GET /api/mobile/fees/schedules - List schedules, upcoming charges and apartment shares (syndic only)
+ * POST /api/mobile/fees/schedules - Create a recurring schedule (syndic only)
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'fees.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    await generateScheduledFees(supabase, residenceId);
+
+    const [schedules, upcoming, apartments] = await Promise.all([
+      listFeeSchedules(supabase, residenceId),
+      getUpcomingCharges(supabase, residenceId, { periods: 3 }),
+      getBillableApartments(supabase, residenceId),
+    ]);
+
+    return NextResponse.json(
+      { success: true, data: { schedules, upcoming, apartments } },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Fee schedules GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'fees.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    const body = await request.json();
+
+    const validationError = validateFeeSchedule({
+      title: body.title,
+      amount: body.amount,
+      amountType: body.amount_type || 'fixed',
+      frequency: body.frequency || 'monthly',
+      startDate: body.start_date,
+      endDate: body.end_date,
+      dueDays: body.due_days,
+    });
+
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const { data: schedule, error: createError } = await supabase
+      .from('fee_schedules')
+      .insert({
+        residence_id: residenceId,
+        title: String(body.title).trim(),
+        amount: Number(body.amount),
+        amount_type: body.amount_type || 'fixed',
+        frequency: body.frequency || 'monthly',
+        start_date: body.start_date,
+        end_date: body.end_date || null,
+        due_days: Number(body.due_days ?? 0),
+        created_by: mobileUser.id,
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error('[Mobile API] Fee schedules POST: Error creating schedule:', createError);
+      return NextResponse.json(
+        { success: false, error: createError.message || 'Failed to create fee schedule' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const generated = await generateScheduledFees(supabase, residenceId);
+
+    return NextResponse.json(
+      { success: true, data: { ...schedule, generated: generated.created } },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Fee schedules POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { postIncidentComment } from '@/lib/incident-activity-utils';
+import { authorize, can } from '@/lib/permissions';
+
+/**
+ * Mobile API: Incident comments
+ * POST /api/mobile/incidents/[id]/comments - Comment on an incident (reporter, assignee or syndic);
+ * the comment is added to the incident's activity timeline
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const incidentId = parseInt(idParam);
+    if (isNaN(incidentId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid incident ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await postIncidentComment(supabase, incidentId, {
+      residenceId: access.actor.residenceId,
+      userId: mobileUser.id,
+      role: access.actor.role,
+      canManage: can(access.actor.role, 'incidents.manage'),
+    }, {
+      body: typeof body.body === 'string' ? body.body : '',
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Incident not found' ? 404 : 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.activity },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Incident comments POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -1,32 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@/lib/auth';
-import { updateIncident, deleteIncident } from '@/app/app/incidents/actions';
+import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { listIncidentTimeline } from '@/lib/incident-activity-utils';
+import { attachSlaStates } from '@/lib/incident-sla-utils';
+import { deleteIncidentAs, updateIncidentAs } from '@/lib/incident-utils';
+import { authorize, can } from '@/lib/permissions';
 
 /**
  * Mobile API: Incident by ID
- * GET /api/mobile/incidents/[id] - Get incident details
+ * GET /api/mobile/incidents/[id] - Get incident details with its activity timeline, photos and SLA state
  * PATCH /api/mobile/incidents/[id] - Update incident
  * DELETE /api/mobile/incidents/[id] - Delete incident
  */
 
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
     }
 
     const id = parseInt((await params).id);
     if (isNaN(id)) {
-      return NextResponse.json({ success: false, error: 'Invalid incident ID' }, { status: 400 });
+      return NextResponse.json(
+        { success: false, error: 'Invalid incident ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
     }
 
     const supabase = createSupabaseAdminClient();
 
+    const access = await authorize(supabase, mobileUser.id, 'residence.view', null, request.nextUrl.searchParams.get('role'));
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
     // Fetch incident with joins
     const { data: incident, error } = await supabase
       .from('incidents')
@@ -47,26 +76,52 @@ export async function GET(
         )
       `)
       .eq('id', id)
+      .eq('residence_id', access.actor.residenceId)
       .maybeSingle();
 
     if (error || !incident) {
-      return NextResponse.json({ success: false, error: 'Incident not found' }, { status: 404 });
+      return NextResponse.json(
+        { success: false, error: 'Incident not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    // Also checks the user may see this incident
+    const timeline = await listIncidentTimeline(supabase, id, {
+      residenceId: access.actor.residenceId,
+      userId: mobileUser.id,
+      role: access.actor.role,
+      canManage: can(access.actor.role, 'incidents.manage'),
+    });
+    if (!timeline.success || !timeline.timeline) {
+      return NextResponse.json(
+        { success: false, error: timeline.error || 'Incident not found' },
+        { status: 404, headers: getCorsHeaders() }
+      );
     }
 
+    const [withSla] = await attachSlaStates(supabase, access.actor.residenceId, [incident]);
+
     // Transform incident
     const incidentWithNames = {
-      ...incident,
+      ...withSla,
       reporter_name: incident.reporter?.full_name || 'Unknown',
       assignee_name: incident.assignee?.full_name || null,
       residence_name: incident.residences?.name || 'Unknown',
+      activity: timeline.timeline.activity,
+      photos: timeline.timeline.photos,
+      can_contribute: timeline.timeline.can_contribute,
     };
 
-    return NextResponse.json({ success: true, data: incidentWithNames });
+    return NextResponse.json(
+      { success: true, data: incidentWithNames },
+      { headers: getCorsHeaders() }
+    );
   } catch (error: any) {
     console.error('[Mobile API] Incident GET error:', error);
     return NextResponse.json(
       { success: false, error: error.message || 'Internal server error' },
-      { status: 500 }
+      { status: 500, headers: getCorsHeaders() }
     );
   }
 }
@@ -76,32 +131,59 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
     }
 
     const id = parseInt((await params).id);
     if (isNaN(id)) {
-      return NextResponse.json({ success: false, error: 'Invalid incident ID' }, { status: 400 });
+      return NextResponse.json(
+        { success: false, error: 'Invalid incident ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
     }
 
-    const body = await request.json();
-    const result = await updateIncident({
-      id,
-      ...body,
-    });
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'residence.view', null, request.nextUrl.searchParams.get('role'));
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    // Syndics can update all incidents in their residence, residents only their own
+    const result = await updateIncidentAs(supabase, access.actor, { ...body, id });
 
     if (!result.success) {
-      return NextResponse.json(result, { status: 400 });
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Incident not found' ? 404 : 400, headers: getCorsHeaders() }
+      );
     }
 
-    return NextResponse.json(result);
+    return NextResponse.json(
+      { success: true, data: result.data },
+      { headers: getCorsHeaders() }
+    );
   } catch (error: any) {
     console.error('[Mobile API] Incident PATCH error:', error);
     return NextResponse.json(
       { success: false, error: error.message || 'Internal server error' },
-      { status: 500 }
+      { status: 500, headers: getCorsHeaders() }
     );
   }
 }
@@ -111,29 +193,51 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
     }
 
     const id = parseInt((await params).id);
     if (isNaN(id)) {
-      return NextResponse.json({ success: false, error: 'Invalid incident ID' }, { status: 400 });
+      return NextResponse.json(
+        { success: false, error: 'Invalid incident ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
     }
 
-    const result = await deleteIncident(id);
+    const supabase = createSupabaseAdminClient();
+
+    // Only syndics can delete incidents
+    const access = await authorize(supabase, mobileUser.id, 'incidents.manage', null, request.nextUrl.searchParams.get('role'));
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await deleteIncidentAs(supabase, access.actor, id);
 
     if (!result.success) {
-      return NextResponse.json(result, { status: 400 });
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Incident not found' ? 404 : 400, headers: getCorsHeaders() }
+      );
     }
 
-    return NextResponse.json(result);
+    return NextResponse.json(
+      { success: true },
+      { headers: getCorsHeaders() }
+    );
   } catch (error: any) {
     console.error('[Mobile API] Incident DELETE error:', error);
     return NextResponse.json(
       { success: false, error: error.message || 'Internal server error' },
-      { status: 500 }
+      { status: 500, headers: getCorsHeaders() }
     );
   }
 }
-
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { buildSlaReport, parseSlaMonth, slaReportToCSV } from '@/lib/incident-sla-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Incident SLA report (syndics only)
+ * GET /api/mobile/incidents/sla-report?month=YYYY-MM - Acknowledgement and resolution
+ * compliance of the incidents reported in the month (default: the current one).
+ * Add `format=csv` to download one line per incident.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const parsed = parseSlaMonth(searchParams.get('month'));
+    if (!parsed.success || !parsed.month) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'analytics.view');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await buildSlaReport(supabase, access.actor.residenceId, parsed.month);
+    if (!result.success || !result.report) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500, headers: getCorsHeaders() }
+      );
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(slaReportToCSV(result.report), {
+        headers: {
+          ...getCorsHeaders(),
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="incident-sla-${parsed.month}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.report },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] SLA report GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUnreadCount, listNotifications, markNotificationsRead } from '@/lib/notification-utils';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PATCH, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Notifications
+ * GET /api/mobile/notifications - Get the user's latest notifications and unread count
+ * PATCH /api/mobile/notifications - Mark notifications as read ({ "ids": [1, 2] } or { "all": true })
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const [notifications, unreadCount] = await Promise.all([
+      listNotifications(supabase, {
+        userId: mobileUser.id,
+        unreadOnly: searchParams.get('unread') === 'true',
+        limit: isNaN(limit) ? 20 : limit,
+      }),
+      getUnreadCount(supabase, mobileUser.id),
+    ]);
+
+    return NextResponse.json(
+      { success: true, data: { notifications, unread_count: unreadCount } },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Notifications GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body.all !== true && !Array.isArray(body.ids)) {
+      return NextResponse.json(
+        { success: false, error: 'Provide "ids" or "all": true' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const result = await markNotificationsRead(supabase, {
+      userId: mobileUser.id,
+      ids: body.all === true ? undefined : body.ids.map((id: any) => Number(id)),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const unreadCount = await getUnreadCount(supabase, mobileUser.id);
+
+    return NextResponse.json(
+      { success: true, data: { updated: result.updated, unread_count: unreadCount } },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Notifications PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
-import { getBalances } from '@/app/actions/payments';
+import { SETTLED_PAYMENT_STATUSES, getLedgerBalances } from '@/lib/ledger-utils';
+import { OUTSTANDING_FEE_STATUSES, getFeeBalance, getResidentCredit } from '@/lib/allocation-utils';
+import { parseResidenceId } from '@/lib/residence-utils';
+import { authorize, can } from '@/lib/permissions';
 
 /**
  * Mobile API: Get balances
  * GET /api/mobile/payments/balances
- * Returns resident-specific payment balances and status
+ * Returns the user's own fee balances and status, or the residence cash and bank balances
+ * for users who can view all accounts
  */
 
 function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
   };
 }
 
@@ -34,43 +38,23 @@ export async function GET(request: NextRequest) {
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
+    const searchParams = request.nextUrl.searchParams;
 
-    if (profileError || !userProfile) {
+    const access = await authorize(supabase, userId, 'residence.view', parseResidenceId(searchParams.get('residence_id')), searchParams.get('role'));
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
 
-    // If resident, return resident-specific balances
-    if (userProfile.role === 'resident') {
-      // Get residence ID
-      const { data: prLink } = await supabase
-        .from('profile_residences')
-        .select('residence_id')
-        .eq('profile_id', userId)
-        .limit(1)
-        .maybeSingle();
-
-      if (!prLink) {
-        return NextResponse.json(
-          { success: false, error: 'User has no residence assigned' },
-          { status: 400, headers: getCorsHeaders() }
-        );
-      }
-
-      const residenceId = prLink.residence_id;
-
+    // Without access to the residence accounts, return the user's own balances
+    if (!can(access.actor.role, 'accounts.view_all')) {
       // Get fees for this resident
       const { data: fees, error: feesError } = await supabase
         .from('fees')
-        .select('amount, status')
+        .select('amount, amount_paid, balance_due, status')
         .eq('user_id', userId)
         .eq('residence_id', residenceId);
 
@@ -83,22 +67,22 @@ export async function GET(request: NextRequest) {
 
       // Calculate balances
       const totalOwed = (fees || []).reduce((sum: number, fee: any) => {
-        if (fee.status === 'unpaid' || fee.status === 'overdue') {
-          return sum + Number(fee.amount);
+        if (OUTSTANDING_FEE_STATUSES.includes(fee.status)) {
+          return sum + getFeeBalance(fee);
         }
         return sum;
       }, 0);
 
       const pendingAmount = (fees || []).reduce((sum: number, fee: any) => {
-        if (fee.status === 'unpaid') {
-          return sum + Number(fee.amount);
+        if (fee.status === 'unpaid' || fee.status === 'partially_paid') {
+          return sum + getFeeBalance(fee);
         }
         return sum;
       }, 0);
 
       const overdueAmount = (fees || []).reduce((sum: number, fee: any) => {
         if (fee.status === 'overdue') {
-          return sum + Number(fee.amount);
+          return sum + getFeeBalance(fee);
         }
         return sum;
       }, 0);
@@ -109,10 +93,13 @@ export async function GET(request: NextRequest) {
         .select('amount')
         .eq('user_id', userId)
         .eq('residence_id', residenceId)
-        .eq('status', 'completed');
+        .in('status', SETTLED_PAYMENT_STATUSES);
 
       const totalPaid = (payments || []).reduce((sum: number, p: any) => sum + Number(p.amount), 0);
 
+      // Overpayments not yet used by a fee
+      const credit = await getResidentCredit(supabase, residenceId, userId);
+
       return NextResponse.json(
         {
           success: true,
@@ -121,8 +108,9 @@ export async function GET(request: NextRequest) {
             pendingAmount,
             overdueAmount,
             totalPaid,
+            credit,
             feesCount: fees?.length || 0,
-            pendingCount: fees?.filter((f: any) => f.status === 'unpaid').length || 0,
+            pendingCount: fees?.filter((f: any) => f.status === 'unpaid' || f.status === 'partially_paid').length || 0,
             overdueCount: fees?.filter((f: any) => f.status === 'overdue').length || 0,
           },
         },
@@ -130,25 +118,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // For non-residents, use existing balances function
-    const searchParams = request.nextUrl.searchParams;
-    const residence_id = searchParams.get('residence_id');
-
-    const result = await getBalances(residence_id ? BigInt(residence_id) : undefined);
-
-    if (result.error) {
-      return NextResponse.json(
-        { success: false, error: result.error },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
+    // Residence cash and bank balances from the ledger
+    const balances = await getLedgerBalances(supabase, residenceId);
 
     return NextResponse.json(
       {
         success: true,
         data: {
-          cashOnHand: result.cashOnHand,
-          bankBalance: result.bankBalance,
+          cashOnHand: balances.cash,
+          bankBalance: balances.bank,
         },
       },
       { headers: getCorsHeaders() }
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { listOutstandingFees, selectFeesToPay } from '@/lib/allocation-utils';
+import { createFeeCheckoutSession, MAX_FEES_PER_CHECKOUT } from '@/lib/stripe/services/fee-checkout.service';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Mobile API: Online fee payment
+ * POST /api/mobile/payments/checkout - Start a Stripe Checkout session paying the resident's
+ * outstanding fees (all of them, or `fee_ids`). The fees are settled by the Stripe webhook.
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+/**
+ * Use a client-supplied return URL only when it points back to the web app or into the
+ * mobile app (its deep-link scheme), so Checkout cannot redirect payers to another site
+ */
+function getReturnUrl(url: unknown, appOrigin: string, fallback: string): string {
+  if (typeof url !== 'string' || !url) return fallback;
+
+  try {
+    const parsed = new URL(url);
+    const scheme = `${process.env.MOBILE_APP_SCHEME || 'sakan'}:`;
+    if (parsed.protocol === scheme || parsed.origin === new URL(appOrigin).origin) {
+      return parsed.toString();
+    }
+  } catch {
+    // Not an absolute URL
+  }
+
+  return fallback;
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.fee_ids !== undefined && !Array.isArray(body.fee_ids)) {
+      return NextResponse.json(
+        { success: false, error: 'fee_ids must be an array' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    // The app passes its own deep links; browsers come back to the web app
+    const origin = process.env.NEXT_PUBLIC_APP_URL
+      || process.env.NGROK_URL
+      || 'http://localhost:3000';
+
+    const outstanding = await listOutstandingFees(supabase, access.actor.residenceId, mobileUser.id);
+    const { fees, error: selectionError } = selectFeesToPay(
+      outstanding,
+      body.fee_ids?.map((id: any) => Number(id)),
+      MAX_FEES_PER_CHECKOUT
+    );
+    if (selectionError) {
+      return NextResponse.json(
+        { success: false, error: selectionError },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const session = await createFeeCheckoutSession(supabase, {
+      residenceId: access.actor.residenceId,
+      userId: mobileUser.id,
+      fees,
+      successUrl: getReturnUrl(body.success_url, origin, `${origin}/success`),
+      cancelUrl: getReturnUrl(body.cancel_url, origin, `${origin}/app`),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: session.id,
+          url: session.url,
+          amount: (session.amount_total || 0) / 100,
+          expires_at: session.expires_at,
+        },
+      },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Payment checkout POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
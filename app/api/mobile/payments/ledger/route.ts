@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { LEDGER_ACCOUNTS, LedgerAccount, getLedgerBalances, listLedgerEntries } from '@/lib/ledger-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Mobile API: Ledger
+ * GET /api/mobile/payments/ledger - Cash/bank movements with running balances (syndic only)
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'ledger.view');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    const searchParams = request.nextUrl.searchParams;
+    const account = searchParams.get('account');
+    const limit = searchParams.get('limit');
+
+    if (account && !LEDGER_ACCOUNTS.includes(account as LedgerAccount)) {
+      return NextResponse.json(
+        { success: false, error: 'account must be cash or bank' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const [entries, balances] = await Promise.all([
+      listLedgerEntries(supabase, {
+        residenceId,
+        account: (account as LedgerAccount) || undefined,
+        from: searchParams.get('from') || undefined,
+        to: searchParams.get('to') || undefined,
+        limit: limit ? parseInt(limit) : undefined,
+      }),
+      getLedgerBalances(supabase, residenceId),
+    ]);
+
+    return NextResponse.json(
+      { success: true, data: { balances, entries } },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Ledger GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getResidentCredit, listOutstandingFees } from '@/lib/allocation-utils';
+import { authorize, can, forbiddenMessage } from '@/lib/permissions';
+
+/**
+ * Mobile API: Outstanding fees
+ * GET /api/mobile/payments/outstanding - A resident's unpaid fee balances (oldest first) and credit.
+ * Syndics pass `user_id`; residents get their own.
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const requestedUserId = request.nextUrl.searchParams.get('user_id');
+
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    // Other residents' accounts are for syndics only
+    let residentId = mobileUser.id;
+    if (requestedUserId && requestedUserId !== mobileUser.id) {
+      if (!can(access.actor.role, 'accounts.view_all')) {
+        return NextResponse.json(
+          { success: false, error: forbiddenMessage('accounts.view_all') },
+          { status: 403, headers: getCorsHeaders() }
+        );
+      }
+      residentId = requestedUserId;
+    }
+
+    const [fees, credit] = await Promise.all([
+      listOutstandingFees(supabase, residenceId, residentId),
+      getResidentCredit(supabase, residenceId, residentId),
+    ]);
+
+    return NextResponse.json(
+      { success: true, data: { fees, credit } },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Outstanding fees GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
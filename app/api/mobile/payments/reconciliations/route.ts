@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getLedgerBalances } from '@/lib/ledger-utils';
+import { createBalanceSnapshot, getLockedThrough, listBalanceSnapshots } from '@/lib/reconciliation-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Mobile API: Period close reconciliations (syndic only)
+ * GET /api/mobile/payments/reconciliations - History, current ledger balances and locked date
+ * POST /api/mobile/payments/reconciliations - Record counted cash and bank statement balance
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'reconciliations.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    const [snapshots, balances, lockedThrough] = await Promise.all([
+      listBalanceSnapshots(supabase, residenceId),
+      getLedgerBalances(supabase, residenceId),
+      getLockedThrough(supabase, residenceId),
+    ]);
+
+    return NextResponse.json(
+      { success: true, data: { snapshots, balances, locked_through: lockedThrough } },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Reconciliations GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'reconciliations.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    const body = await request.json();
+
+    if (body.counted_cash == null || body.bank_statement_balance == null) {
+      return NextResponse.json(
+        { success: false, error: 'counted_cash and bank_statement_balance are required' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await createBalanceSnapshot(supabase, {
+      residenceId,
+      snapshotDate: body.snapshot_date || new Date().toISOString().split('T')[0],
+      countedCash: body.counted_cash,
+      bankStatementBalance: body.bank_statement_balance,
+      notes: body.notes,
+      createdBy: mobileUser.id,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Reconciliations POST error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
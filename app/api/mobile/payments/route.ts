@@ -2,18 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createCashPayment } from '@/app/actions/payments';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { parseResidenceId } from '@/lib/residence-utils';
+import { declareBankTransfer, signTransferProofs } from '@/lib/bank-transfer-utils';
+import { authorize, can } from '@/lib/permissions';
 
 /**
  * Mobile API: Payments
  * GET /api/mobile/payments - Get all payments (resident-specific)
- * POST /api/mobile/payments - Create payment (syndic only)
+ * POST /api/mobile/payments - Create payment (syndic only), or declare a bank transfer with
+ * its proof as multipart/form-data (residents; pending until the syndic verifies it)
  */
 
 function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
   };
 }
 
@@ -37,151 +41,22 @@ export async function GET(request: NextRequest) {
 
     console.log('[Mobile API] Payments: Fetching payments for user:', userId);
 
-    // Get user profile
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError) {
-      console.error('[Mobile API] Payments: Profile error:', profileError);
-      return NextResponse.json(
-        { success: false, error: `Failed to fetch user profile: ${profileError.message}` },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
-    if (!userProfile) {
-      console.error('[Mobile API] Payments: Profile not found for user:', userId);
-      return NextResponse.json(
-        { success: false, error: 'User profile not found. Please contact your syndic.' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
     const searchParams = request.nextUrl.searchParams;
     const method = searchParams.get('method');
     const status = searchParams.get('status');
     const userIdFilter = searchParams.get('user_id'); // For syndics to filter by resident
-    const requestedRole = searchParams.get('role') as 'syndic' | 'resident' | null; // Current role from mobile app
-    const requestedResidenceId = searchParams.get('residence_id'); // Selected residence when in resident mode
-
-    console.log('[Mobile API] Payments: Role:', requestedRole, 'Residence ID:', requestedResidenceId);
-
-    // Validate user's actual roles
-    let hasSyndicRole = false;
-    let hasResidentRole = false;
-    
-    // Check if user is actually a syndic
-    const { data: syndicCheck } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-    hasSyndicRole = !!syndicCheck;
-    
-    // Check if user is actually a resident
-    const { data: residentCheck } = await supabase
-      .from('profile_residences')
-      .select('profile_id')
-      .eq('profile_id', userId)
-      .limit(1)
-      .maybeSingle();
-    hasResidentRole = !!residentCheck;
-    
-    // Determine the effective role: validate requested role against actual roles
-    let effectiveRole = requestedRole || userProfile.role;
-    
-    // CRITICAL: If user requested syndic but doesn't actually have it, force resident role
-    if (effectiveRole === 'syndic' && !hasSyndicRole) {
-      console.warn('[Mobile API] Payments: User requested syndic role but doesn\'t have it. Forcing resident role.');
-      effectiveRole = 'resident';
-    }
-    
-    // If user requested resident but doesn't have it, this is an error
-    if (effectiveRole === 'resident' && !hasResidentRole) {
-      return NextResponse.json(
-        { success: false, error: 'User is not registered as a resident' },
-        { status: 403, headers: getCorsHeaders() }
-      );
-    }
 
-    // Determine residence ID based on role
-    let residenceId: number | null = null;
-    let isResidentInResidence = false;
-
-    if (effectiveRole === 'resident') {
-      // User is viewing as resident - check profile_residences table
-      if (requestedResidenceId) {
-        // Verify user is actually a resident in the requested residence
-        const parsedResidenceId = parseInt(requestedResidenceId, 10);
-        if (!isNaN(parsedResidenceId)) {
-          const { data: profileResidence } = await supabase
-            .from('profile_residences')
-            .select('residence_id')
-            .eq('profile_id', userId)
-            .eq('residence_id', parsedResidenceId)
-            .maybeSingle();
-          
-          if (profileResidence) {
-            residenceId = parsedResidenceId;
-            isResidentInResidence = true;
-            console.log('[Mobile API] Payments: User is a resident in residence:', residenceId);
-          } else {
-            console.error('[Mobile API] Payments: User is not a resident in requested residence:', parsedResidenceId);
-            return NextResponse.json(
-              { success: false, error: 'You are not a resident in this residence.' },
-              { status: 403, headers: getCorsHeaders() }
-            );
-          }
-        }
-      } else {
-        // Get first residence from profile_residences
-        const { data: pr } = await supabase
-          .from('profile_residences')
-          .select('residence_id')
-          .eq('profile_id', userId)
-          .limit(1)
-          .maybeSingle();
-        
-        if (pr) {
-          residenceId = pr.residence_id;
-          isResidentInResidence = true;
-        }
-      }
-    } else if (effectiveRole === 'syndic') {
-      // User is viewing as syndic - get syndic's residence
-      const { data: res } = await supabase
-        .from('residences')
-        .select('id')
-        .eq('syndic_user_id', userId)
-        .maybeSingle();
-      
-      if (res) {
-        residenceId = res.id;
-        console.log('[Mobile API] Payments: User is a syndic of residence:', residenceId);
-      }
-    } else if (userProfile.role === 'guard') {
-      // User is a guard
-      const { data: res } = await supabase
-        .from('residences')
-        .select('id')
-        .eq('guard_user_id', userId)
-        .maybeSingle();
-      
-      if (res) {
-        residenceId = res.id;
-      }
-    }
-
-    if (!residenceId) {
-      console.error('[Mobile API] Payments: No residence found for user:', userId, 'Role:', effectiveRole);
+    // Residence from the residence_id parameter or the X-Residence-Id header, else the first one
+    const access = await authorize(supabase, userId, 'residence.view', parseResidenceId(searchParams.get('residence_id')), searchParams.get('role'));
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'User has no residence assigned. Please contact your syndic.' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
+    // Residents only see their own payments
+    const ownPaymentsOnly = !can(access.actor.role, 'payments.view_all');
 
     // Fetch payments
     let paymentsQuery = supabase
@@ -200,23 +75,22 @@ export async function GET(request: NextRequest) {
           id,
           title,
           amount
+        ),
+        allocations:payment_allocations (
+          fee_id,
+          amount,
+          fees:fee_id (
+            title
+          )
         )
       `)
       .eq('residence_id', residenceId);
 
-    // Role-based filtering
-    // If viewing as resident, only show payments for this user in this residence
-    if (effectiveRole === 'resident' && isResidentInResidence) {
+    // Role-based filtering: residents only see their own payments
+    if (ownPaymentsOnly) {
       paymentsQuery = paymentsQuery.eq('user_id', userId);
-      console.log('[Mobile API] Payments: Filtering payments for resident user:', userId, 'in residence:', residenceId);
-    } else if (effectiveRole === 'syndic') {
-      // Syndic can see all payments, or filter by specific user if requested
-      if (userIdFilter) {
-        paymentsQuery = paymentsQuery.eq('user_id', userIdFilter);
-        console.log('[Mobile API] Payments: Syndic filtering by user:', userIdFilter);
-      } else {
-        console.log('[Mobile API] Payments: Syndic viewing all payments for residence:', residenceId);
-      }
+    } else if (userIdFilter) {
+      paymentsQuery = paymentsQuery.eq('user_id', userIdFilter);
     }
 
     if (method) {
@@ -237,12 +111,18 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Transform payments
-    const paymentsWithNames = (payments || []).map((payment: any) => ({
+    // Transform payments, handing out transfer proofs as signed URLs
+    const signedPayments = await signTransferProofs(supabase, payments || []);
+    const paymentsWithNames = signedPayments.map((payment: any) => ({
       ...payment,
       user_name: payment.profiles?.full_name || 'Unknown',
       residence_name: payment.residences?.name || 'Unknown',
       fee_title: payment.fees?.title || null,
+      allocations: (payment.allocations || []).map((a: any) => ({
+        fee_id: a.fee_id,
+        fee_title: a.fees?.title || null,
+        amount: Number(a.amount),
+      })),
     }));
 
     console.log('[Mobile API] Payments: Returning', paymentsWithNames.length, 'payments');
@@ -270,23 +150,67 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const body = await request.json();
-    
-    // Convert number to bigint if needed (for feeId and residenceId)
+    // Residents declare bank transfers with the receipt attached
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      return declareTransfer(request, mobileUser.id);
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    // Only syndics record payments, for residents of their own residence
+    const access = await authorize(supabase, mobileUser.id, 'payments.record', null, request.nextUrl.searchParams.get('role'));
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    const body = await request.json().catch(() => null);
+    if (!body?.userId) {
+      return NextResponse.json(
+        { success: false, error: 'userId is required' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const { data: membership } = await supabase
+      .from('profile_residences')
+      .select('id')
+      .eq('profile_id', body.userId)
+      .eq('residence_id', residenceId)
+      .limit(1)
+      .maybeSingle();
+
+    if (!membership) {
+      return NextResponse.json(
+        { success: false, error: 'Resident not found in this residence' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    // Convert number to bigint if needed (for feeId)
     // Note: createCashPayment only supports cash payments currently
     const paymentData: any = {
       userId: body.userId,
+      apartmentNumber: body.apartmentNumber,
       amount: body.amount,
+      residenceId: BigInt(residenceId),
     };
+
+    // Manual allocation: [{ fee_id, amount }]; omitted = oldest fees first
+    if (Array.isArray(body.allocations)) {
+      paymentData.allocations = body.allocations.map((a: any) => ({
+        feeId: Number(a.fee_id),
+        amount: Number(a.amount),
+      }));
+    }
     
     if (body.feeId !== undefined) {
       paymentData.feeId = typeof body.feeId === 'number' ? BigInt(body.feeId) : body.feeId;
     }
     
-    if (body.residenceId !== undefined) {
-      paymentData.residenceId = typeof body.residenceId === 'number' ? BigInt(body.residenceId) : body.residenceId;
-    }
-    
     const result = await createCashPayment(paymentData);
 
     if (!result.success) {
@@ -303,3 +227,49 @@ export async function POST(request: NextRequest) {
   }
 }
 
+
+/**
+ * Declare a bank transfer. Form fields: proof (file), amount, fee_ids (comma-separated
+ * or JSON array), reference, transfer_date (YYYY-MM-DD)
+ */
+async function declareTransfer(request: NextRequest, userId: string) {
+  const supabase = createSupabaseAdminClient();
+
+  const access = await authorize(supabase, userId, 'payments.declare', null, request.nextUrl.searchParams.get('role'));
+  if (!access.ok) {
+    return NextResponse.json(
+      { success: false, error: access.error },
+      { status: access.status, headers: getCorsHeaders() }
+    );
+  }
+  const { residenceId } = access.actor;
+
+  const formData = await request.formData();
+
+  const rawFeeIds = String(formData.get('fee_ids') || '').trim();
+  const feeIds = (rawFeeIds.startsWith('[') ? JSON.parse(rawFeeIds) : rawFeeIds.split(','))
+    .map((id: any) => Number(id))
+    .filter((id: number) => Number.isInteger(id) && id > 0);
+
+  const result = await declareBankTransfer(supabase, {
+    residenceId,
+    userId,
+    amount: Number(formData.get('amount')),
+    feeIds,
+    proof: formData.get('proof') as File,
+    reference: (formData.get('reference') as string | null) || null,
+    transferDate: (formData.get('transfer_date') as string | null) || null,
+  });
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, error: result.error },
+      { status: 400, headers: getCorsHeaders() }
+    );
+  }
+
+  return NextResponse.json(
+    { success: true, data: result.payment },
+    { status: 201, headers: getCorsHeaders() }
+  );
+}
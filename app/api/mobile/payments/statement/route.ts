@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { buildAccountStatement, getResidentApartments } from '@/lib/statement-utils';
+import { generateStatementPDF } from '@/lib/pdf/generator';
+import { authorize, can, forbiddenMessage } from '@/lib/permissions';
+
+/**
+ * Mobile API: Statement of account
+ * GET /api/mobile/payments/statement - PDF statement for one apartment over a period.
+ * Residents get their own apartments; syndics pass `user_id` for any resident of their residence.
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const searchParams = request.nextUrl.searchParams;
+    const today = new Date().toISOString().split('T')[0];
+    const from = searchParams.get('from') || `${today.slice(0, 4)}-01-01`;
+    const to = searchParams.get('to') || today;
+    const requestedUserId = searchParams.get('user_id');
+    const format = searchParams.get('format');
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) || from > to) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be dates (YYYY-MM-DD) with from <= to' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    // Other residents' statements are for syndics only
+    let residentId = mobileUser.id;
+    if (requestedUserId && requestedUserId !== mobileUser.id) {
+      if (!can(access.actor.role, 'accounts.view_all')) {
+        return NextResponse.json(
+          { success: false, error: forbiddenMessage('accounts.view_all') },
+          { status: 403, headers: getCorsHeaders() }
+        );
+      }
+      residentId = requestedUserId;
+    }
+
+    const apartments = await getResidentApartments(supabase, residenceId, residentId);
+    const apartmentNumber = searchParams.get('apartment_number') || apartments[0];
+
+    if (!apartmentNumber || !apartments.includes(apartmentNumber)) {
+      return NextResponse.json(
+        { success: false, error: 'Apartment not found for this resident' },
+        { status: 404, headers: getCorsHeaders() }
+      );
+    }
+
+    const statement = await buildAccountStatement(supabase, {
+      residenceId,
+      userId: residentId,
+      apartmentNumber,
+      from,
+      to,
+    });
+
+    if (format === 'json') {
+      return NextResponse.json(
+        { success: true, data: statement },
+        { headers: getCorsHeaders() }
+      );
+    }
+
+    const pdfBytes = await generateStatementPDF(statement);
+
+    return new NextResponse(Buffer.from(pdfBytes), {
+      headers: {
+        ...getCorsHeaders(),
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="statement-apt-${apartmentNumber}-${from}-${to}.pdf"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('[Mobile API] Statement GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { approveBankTransfer, rejectBankTransfer } from '@/lib/bank-transfer-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Mobile API: Review a bank transfer (syndic only)
+ * PATCH /api/mobile/payments/transfers/[id] - Approve ({ decision: "approve" }) or reject
+ * ({ decision: "reject", reason }) a pending transfer. Approval settles the declared fees.
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'PATCH, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid payment ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'payments.verify');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId } = access.actor;
+
+    const body = await request.json();
+
+    if (body.decision !== 'approve' && body.decision !== 'reject') {
+      return NextResponse.json(
+        { success: false, error: 'decision must be "approve" or "reject"' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = body.decision === 'approve'
+      ? await approveBankTransfer(supabase, residenceId, id, mobileUser.id)
+      : await rejectBankTransfer(supabase, residenceId, id, mobileUser.id, body.reason || '');
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.payment },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Transfer PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
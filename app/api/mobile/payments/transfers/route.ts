@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { listPendingTransfers, listResidentTransfers } from '@/lib/bank-transfer-utils';
+import { authorize, can } from '@/lib/permissions';
+
+/**
+ * Mobile API: Bank transfers
+ * GET /api/mobile/payments/transfers - Syndics get the verification queue (pending transfers,
+ * oldest first); residents get their own declarations with their status and rejection reason.
+ * Residents declare transfers with POST /api/mobile/payments (multipart).
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id);
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+    const { residenceId, role } = access.actor;
+
+    const transfers = can(role, 'payments.verify')
+      ? await listPendingTransfers(supabase, residenceId)
+      : await listResidentTransfers(supabase, residenceId, mobileUser.id);
+
+    return NextResponse.json(
+      { success: true, data: transfers },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Transfers GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
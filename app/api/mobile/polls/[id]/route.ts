@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize, can, ownsRecord } from '@/lib/permissions';
+import { deletePollCascade, getPollResults, pollResultsToCSV } from '@/lib/poll-utils';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS, PATCH',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Resolve the caller and the poll, checking both belong to the same residence
+ */
+async function loadPollForUser(request: NextRequest, idParam: string) {
+  const mobileUser = await getMobileUser(request);
+  if (!mobileUser?.id) {
+    return { status: 401, error: 'Unauthorized' };
+  }
+
+  const id = parseInt(idParam);
+  if (isNaN(id)) {
+    return { status: 400, error: 'Invalid poll ID' };
+  }
+
+  const supabase = createSupabaseAdminClient();
+
+  const access = await authorize(supabase, mobileUser.id);
+  if (!access.ok) {
+    return { status: access.status, error: access.error };
+  }
+
+  const { actor } = access;
+
+  const { data: poll, error } = await supabase
+    .from('polls')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    return { status: 400, error: error.message };
+  }
+
+  if (!ownsRecord(actor, poll)) {
+    return { status: 404, error: 'Poll not found' };
+  }
+
+  return { supabase, actor, poll };
+}
+
+/**
+ * Mobile API: Poll by ID
+ * GET /api/mobile/polls/[id] - Get poll results (syndics get participation by apartment, ?format=csv exports it)
+ * PATCH /api/mobile/polls/[id] - Close the poll with { "closed": true } (syndics only)
+ * DELETE /api/mobile/polls/[id] - Delete the poll and its votes (syndics only)
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadPollForUser(request, id);
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { supabase, actor, poll } = result;
+    const isSyndic = can(actor.role, 'polls.manage');
+
+    const results = await getPollResults(supabase, poll);
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      if (!isSyndic) {
+        return NextResponse.json(
+          { success: false, error: 'Only syndics can export poll results' },
+          { status: 403, headers: getCorsHeaders() }
+        );
+      }
+
+      return new NextResponse(pollResultsToCSV(poll, results), {
+        headers: {
+          ...getCorsHeaders(),
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="poll-${poll.id}-results.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...poll,
+          results: isSyndic ? results : { ...results, participation: [] },
+        },
+      },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Poll GET error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadPollForUser(request, id);
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { supabase, actor, poll } = result;
+
+    if (!can(actor.role, 'polls.manage')) {
+      return NextResponse.json(
+        { success: false, error: 'Only syndics can close polls' },
+        { status: 403, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body.closed !== true) {
+      return NextResponse.json(
+        { success: false, error: 'Only closing a poll is supported' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const { data: updatedPoll, error: updateError } = await supabase
+      .from('polls')
+      .update({
+        is_active: false,
+        closed_at: new Date().toISOString(),
+      })
+      .eq('id', poll.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error('[Mobile API] Polls PATCH: Error closing poll:', updateError);
+      return NextResponse.json(
+        { success: false, error: updateError.message || 'Failed to close poll' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: updatedPoll },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Poll PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await loadPollForUser(request, id);
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { supabase, actor, poll } = result;
+
+    if (!can(actor.role, 'polls.manage')) {
+      return NextResponse.json(
+        { success: false, error: 'Only syndics can delete polls' },
+        { status: 403, headers: getCorsHeaders() }
+      );
+    }
+
+    const { error: deleteError } = await deletePollCascade(supabase, poll.id);
+
+    if (deleteError) {
+      console.error('[Mobile API] Polls DELETE: Error deleting poll:', deleteError);
+      return NextResponse.json(
+        { success: false, error: deleteError },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Poll DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
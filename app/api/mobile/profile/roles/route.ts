@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidences, type UserResidence } from '@/lib/residence-utils';
 
 /**
  * CORS headers for mobile API
@@ -9,7 +10,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -55,24 +56,15 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch user's available roles and residences
-    let syndicResidence = null;
+    let syndicResidence: UserResidence | null = null;
     let residentResidences: any[] = [];
     const availableRoles: string[] = [];
 
-    // Check if user is a syndic
-    const { data: syndicRes } = await supabase
-      .from('residences')
-      .select('id, name, address, city')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
+    // Check if user is a syndic (a professional syndic can manage several residences)
+    const syndicResidences = await getUserResidences(supabase, userId, 'syndic');
 
-    if (syndicRes) {
-      syndicResidence = {
-        id: syndicRes.id,
-        name: syndicRes.name,
-        address: syndicRes.address,
-        city: syndicRes.city,
-      };
+    if (syndicResidences.length > 0) {
+      syndicResidence = syndicResidences[0];
       availableRoles.push('syndic');
     }
 
@@ -119,6 +111,7 @@ export async function GET(request: NextRequest) {
         defaultRole: defaultRole,
         availableRoles: availableRoles,
         syndicResidence: syndicResidence,
+        syndicResidences: syndicResidences,
         residentResidences: residentResidences,
       },
     }, { headers: getCorsHeaders() });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize } from '@/lib/permissions';
 
 /**
  * CORS headers for mobile API
@@ -9,7 +10,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS, PATCH',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -42,6 +43,16 @@ export async function GET(
     }
 
     const supabase = createSupabaseAdminClient();
+
+    // Only syndics can view resident details, and only in their own residence
+    const access = await authorize(supabase, mobileUser.id, 'residents.manage', null, request.nextUrl.searchParams.get('role'));
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
     const id = (await params).id;
 
     // Get resident from profile_residences
@@ -59,6 +70,7 @@ export async function GET(
         )
       `)
       .eq('profile_id', id)
+      .eq('residence_id', access.actor.residenceId)
       .maybeSingle();
 
     if (linkError) {
@@ -124,37 +136,33 @@ export async function PATCH(
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile to verify syndic role
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
+    // Only syndics can update residents, and only in their own residence
+    const access = await authorize(supabase, userId, 'residents.manage', null, request.nextUrl.searchParams.get('role'));
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
 
-    const searchParams = request.nextUrl.searchParams;
-    const requestedRole = searchParams.get('role') as 'syndic' | 'resident' | null;
+    const id = (await params).id;
+    const body = await request.json();
 
-    // Determine the effective role: use requested role if provided, otherwise use profile role
-    const effectiveRole = requestedRole || userProfile.role;
+    const { data: residentLink } = await supabase
+      .from('profile_residences')
+      .select('id')
+      .eq('profile_id', id)
+      .eq('residence_id', residenceId)
+      .maybeSingle();
 
-    // Only syndics can update residents (must be in syndic mode)
-    if (effectiveRole !== 'syndic') {
+    if (!residentLink) {
       return NextResponse.json(
-        { success: false, error: 'Only syndics can update residents. Please switch to syndic mode.' },
-        { status: 403, headers: getCorsHeaders() }
+        { success: false, error: 'Resident not found' },
+        { status: 404, headers: getCorsHeaders() }
       );
     }
 
-    const id = (await params).id;
-    const body = await request.json();
-
     // Update profile if provided
     if (body.full_name != null || body.phone_number != null) {
       const profileUpdate: any = {};
@@ -180,7 +188,7 @@ export async function PATCH(
       const { error: linkUpdateError } = await supabase
         .from('profile_residences')
         .update({ apartment_number: body.apartment_number })
-        .eq('profile_id', id);
+        .eq('id', residentLink.id);
 
       if (linkUpdateError) {
         console.error('[Mobile API] Residents PATCH: Error updating profile_residences:', linkUpdateError);
@@ -220,59 +228,23 @@ export async function DELETE(
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile to verify syndic role
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
+    // Only syndics can remove residents, and only from their own residence
+    const access = await authorize(supabase, userId, 'residents.manage', null, request.nextUrl.searchParams.get('role'));
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
-    const searchParams = request.nextUrl.searchParams;
-    const requestedRole = searchParams.get('role') as 'syndic' | 'resident' | null;
-
-    // Determine the effective role: use requested role if provided, otherwise use profile role
-    const effectiveRole = requestedRole || userProfile.role;
-
-    console.log('[Mobile API] Residents DELETE: Role:', requestedRole, 'Profile role:', userProfile.role);
-
-    // Only syndics can delete residents (must be in syndic mode)
-    if (effectiveRole !== 'syndic') {
-      console.error('[Mobile API] Residents DELETE: User is not in syndic mode. Effective role:', effectiveRole);
-      return NextResponse.json(
-        { success: false, error: 'Only syndics can delete residents. Please switch to syndic mode.' },
-        { status: 403, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
 
     const id = (await params).id;
 
-    // Get residence ID to ensure we only delete from the syndic's residence
-    const { data: residence } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-
-    if (!residence) {
-      return NextResponse.json(
-        { success: false, error: 'User has no residence assigned' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
     // Delete from profile_residences (this removes the resident from the residence)
     const { error: deleteError } = await supabase
       .from('profile_residences')
       .delete()
       .eq('profile_id', id)
-      .eq('residence_id', residence.id);
+      .eq('residence_id', access.actor.residenceId);
 
     if (deleteError) {
       console.error('[Mobile API] Residents DELETE: Error deleting resident:', deleteError);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMobileUser } from '@/lib/auth/mobile';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize } from '@/lib/permissions';
 
 /**
  * CORS headers for mobile API
@@ -9,7 +10,7 @@ function getCorsHeaders() {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -40,58 +41,19 @@ export async function GET(request: NextRequest) {
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
+    // Only syndics can view all residents
+    const access = await authorize(supabase, userId, 'residents.manage', null, request.nextUrl.searchParams.get('role'));
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
 
     const searchParams = request.nextUrl.searchParams;
-    const requestedRole = searchParams.get('role') as 'syndic' | 'resident' | null; // Current role from mobile app
-
-    console.log('[Mobile API] Residents: Role:', requestedRole, 'Profile role:', userProfile.role);
-
-    // CRITICAL: Verify user is actually a syndic (check database, not just role parameter)
-    const { data: residence } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-
-    // Only syndics can view all residents - verify they are actually a syndic
-    if (!residence) {
-      console.error('[Mobile API] Residents: User is not a syndic. User ID:', userId);
-      return NextResponse.json(
-        { success: false, error: 'Only syndics can view all residents. You do not have syndic privileges.' },
-        { status: 403, headers: getCorsHeaders() }
-      );
-    }
-
-    // Determine the effective role: use requested role if provided, otherwise use profile role
-    // But since we've verified they're a syndic, we can safely use 'syndic'
-    // const effectiveRole = 'syndic'; // Force to syndic since we've verified they are one
-
-    if (!residence) {
-      console.error('[Mobile API] Residents: User is not a syndic of any residence:', userId);
-      return NextResponse.json(
-        { success: false, error: 'User is not a syndic of any residence' },
-        { status: 403, headers: getCorsHeaders() }
-      );
-    }
-
-    console.log('[Mobile API] Residents: Syndic viewing residents for residence:', residence.id);
-
     const search = searchParams.get('search');
-    // Use 'role_filter' for filtering residents by their role (resident, guard, etc.)
-    // 'role' is reserved for the current user's role context (syndic/resident)
+    // Filter residents by their role (resident, guard, etc.)
     const roleFilter = searchParams.get('role_filter');
 
     // Fetch residents
@@ -108,7 +70,7 @@ export async function GET(request: NextRequest) {
           role
         )
       `)
-      .eq('residence_id', residence.id);
+      .eq('residence_id', residenceId);
 
     if (linksError) {
       return NextResponse.json(
@@ -187,48 +149,15 @@ export async function POST(request: NextRequest) {
     const supabase = createSupabaseAdminClient();
     const userId = mobileUser.id;
 
-    // Get user profile to verify syndic role
-    const { data: userProfile, error: profileError } = await supabase
-      .from('profiles')
-      .select('role, id')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
+    // Only syndics can create residents
+    const access = await authorize(supabase, userId, 'residents.manage', null, request.nextUrl.searchParams.get('role'));
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Failed to fetch user profile' },
-        { status: 400, headers: getCorsHeaders() }
-      );
-    }
-
-    const searchParams = request.nextUrl.searchParams;
-    const requestedRole = searchParams.get('role') as 'syndic' | 'resident' | null;
-
-    // Determine the effective role: use requested role if provided, otherwise use profile role
-    const effectiveRole = requestedRole || userProfile.role;
-
-    // Only syndics can create residents (must be in syndic mode)
-    if (effectiveRole !== 'syndic') {
-      console.error('[Mobile API] Residents POST: User is not in syndic mode. Effective role:', effectiveRole);
-      return NextResponse.json(
-        { success: false, error: 'Only syndics can create residents. Please switch to syndic mode.' },
-        { status: 403, headers: getCorsHeaders() }
-      );
-    }
-
-    // Get residence ID
-    const { data: residence } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-
-    if (!residence) {
-      return NextResponse.json(
-        { success: false, error: 'User has no residence assigned' },
-        { status: 400, headers: getCorsHeaders() }
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
       );
     }
+    const { residenceId } = access.actor;
 
     const body = await request.json();
     
@@ -329,7 +258,7 @@ export async function POST(request: NextRequest) {
     const { data: existingApartment } = await supabase
       .from('profile_residences')
       .select('profile_id')
-      .eq('residence_id', residence.id)
+      .eq('residence_id', residenceId)
       .eq('apartment_number', body.apartment_number.trim())
       .maybeSingle();
 
@@ -345,7 +274,7 @@ export async function POST(request: NextRequest) {
       .from('profile_residences')
       .select('id')
       .eq('profile_id', finalUserId)
-      .eq('residence_id', residence.id)
+      .eq('residence_id', residenceId)
       .maybeSingle();
 
     if (existingLink) {
@@ -376,7 +305,7 @@ export async function POST(request: NextRequest) {
       .from('profile_residences')
       .insert({
         profile_id: finalUserId,
-        residence_id: residence.id,
+        residence_id: residenceId,
         apartment_number: body.apartment_number.trim(),
         verified: false,
       })
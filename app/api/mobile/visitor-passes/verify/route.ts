@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { verifyVisitorPass } from '@/lib/visitor-pass-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * CORS headers for mobile API
+ */
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+    'Access-Control-Max-Age': '86400',
+  };
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+/**
+ * Mobile API: Visitor pass verification
+ * POST /api/mobile/visitor-passes/verify - Check a scanned QR code and stamp the scan (guards and syndics)
+ * Body: { qr_code_data }
+ * A refused pass still answers 200 with data.valid = false and data.reason
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+    const userId = mobileUser.id;
+
+    const access = await authorize(supabase, userId, 'visitor_passes.verify');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const { residenceId } = access.actor;
+
+    const body = await request.json();
+
+    if (!body.qr_code_data || typeof body.qr_code_data !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'qr_code_data is required' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const verification = await verifyVisitorPass(supabase, {
+      qrCodeData: body.qr_code_data,
+      residenceId,
+      scannedBy: userId,
+    });
+
+    return NextResponse.json(
+      { success: true, data: verification },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Visitor pass verify error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
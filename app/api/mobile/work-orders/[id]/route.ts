@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMobileUser } from '@/lib/auth/mobile';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { applyWorkOrderAction } from '@/lib/work-order-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Mobile API: Work order by ID (syndic only)
+ * PATCH /api/mobile/work-orders/[id] - Apply an action: quote, approve, reject, schedule,
+ * complete (records the invoice as an expense linked to the incident) or cancel
+ */
+
+function getCorsHeaders() {
+  return {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'PATCH, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Residence-Id',
+  };
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: getCorsHeaders() });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const mobileUser = await getMobileUser(request);
+    if (!mobileUser?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const workOrderId = parseInt(idParam);
+    if (isNaN(workOrderId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid work order ID' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, mobileUser.id, 'incidents.manage');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status, headers: getCorsHeaders() }
+      );
+    }
+
+    const result = await applyWorkOrderAction(supabase, access.actor.residenceId, mobileUser.id, workOrderId, {
+      action: body.action,
+      quote_amount: body.quote_amount,
+      quote_url: body.quote_url,
+      rejection_reason: body.rejection_reason,
+      scheduled_at: body.scheduled_at,
+      invoice_amount: body.invoice_amount,
+      invoice_url: body.invoice_url,
+      expense_date: body.expense_date,
+      funding_source: body.funding_source,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Work order not found' ? 404 : 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.workOrder },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error: any) {
+    console.error('[Mobile API] Work order PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { stripe } from '@/lib/stripe/client';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import Stripe from 'stripe';
 import config from '@/config';
+import { FEE_PAYMENT_SESSION_TYPE, recordFeeCheckoutPayment } from '@/lib/stripe/services/fee-checkout.service';
 // This is where we receive Stripe webhook events
 // It used to update the user data, send emails, etc...
 // By default, it'll store the user in the database
@@ -160,6 +161,17 @@ export async function POST(request: NextRequest) {
 					// ✅ Grant access to the product
 					console.log('[Webhook] checkout.session.completed - Event received');
 					const session: Stripe.Checkout.Session = event.data.object;
+
+					// Residents paying fees by card - not a subscription
+					if (session.metadata?.type === FEE_PAYMENT_SESSION_TYPE) {
+						const result = await recordFeeCheckoutPayment(supabaseAdmin, session);
+						console.log('[Webhook] Fee payment session processed:', {
+							sessionId: session.id,
+							paymentId: result?.payment?.id,
+							duplicate: result?.duplicate,
+						});
+						break;
+					}
 					
 					// Extract and validate required data
 					const userId = session.metadata?.user_id;
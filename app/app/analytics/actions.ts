@@ -0,0 +1,164 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize } from '@/lib/permissions';
+import {
+  analyticsToCSV,
+  getResidenceAnalytics,
+  isAnalyticsSection,
+  parseAnalyticsRange,
+  type AnalyticsSection,
+} from '@/lib/analytics-utils';
+import { buildAssemblyPack, validateAssemblyPackInput, type AssemblyPackInput } from '@/lib/assembly-utils';
+
+/**
+ * Analytics Server Actions
+ * Handles residence trends, the CSV export of each chart and the general assembly
+ * bundle (syndics only)
+ */
+
+/**
+ * Resolve the syndic's residence and the requested range
+ */
+async function loadAnalytics(from?: string, to?: string) {
+  const session = await auth();
+  const userId = session?.user?.id;
+
+  if (!userId) {
+    return { error: 'User not authenticated' };
+  }
+
+  const range = parseAnalyticsRange(from, to);
+  if (!range.success || !range.data) {
+    return { error: range.error || 'Invalid date range' };
+  }
+
+  const adminSupabase = createSupabaseAdminClient();
+
+  const access = await authorize(adminSupabase, userId, 'analytics.view');
+  if (!access.ok) {
+    return { error: access.error };
+  }
+
+  const analytics = await getResidenceAnalytics(adminSupabase, access.actor.residenceId, range.data);
+  return { analytics };
+}
+
+/**
+ * Get the analytics of the current residence between two dates
+ */
+export async function getAnalytics(from?: string, to?: string) {
+  console.log('[Analytics Actions] Getting analytics:', from, to);
+
+  try {
+    const result = await loadAnalytics(from, to);
+    if (result.error || !result.analytics) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.analytics,
+    };
+  } catch (error: any) {
+    console.error('[Analytics Actions] Error getting analytics:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to load analytics',
+    };
+  }
+}
+
+/**
+ * Export the data behind one chart as CSV
+ */
+export async function exportAnalyticsCsv(section: AnalyticsSection, from?: string, to?: string) {
+  console.log('[Analytics Actions] Exporting analytics:', section, from, to);
+
+  try {
+    if (!isAnalyticsSection(section)) {
+      return {
+        success: false,
+        error: 'Invalid analytics section',
+      };
+    }
+
+    const result = await loadAnalytics(from, to);
+    if (result.error || !result.analytics) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    const { range } = result.analytics;
+
+    return {
+      success: true,
+      data: {
+        filename: `analytics-${section}-${range.from}-to-${range.to}.csv`,
+        csv: analyticsToCSV(result.analytics, section),
+      },
+    };
+  } catch (error: any) {
+    console.error('[Analytics Actions] Error exporting analytics:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to export analytics',
+    };
+  }
+}
+
+/**
+ * Get the data of the general assembly bundle; the PDF is drawn in the browser
+ */
+export async function getAssemblyPack(input: AssemblyPackInput) {
+  console.log('[Analytics Actions] Getting assembly pack:', input.fiscalYear, input.locale);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const validationError = validateAssemblyPackInput(input);
+    if (validationError) {
+      return {
+        success: false,
+        error: validationError,
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'analytics.view');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const pack = await buildAssemblyPack(adminSupabase, access.actor.residenceId, input);
+
+    return {
+      success: true,
+      data: pack,
+    };
+  } catch (error: any) {
+    console.error('[Analytics Actions] Error getting assembly pack:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to prepare the assembly pack',
+    };
+  }
+}
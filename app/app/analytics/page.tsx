@@ -0,0 +1,127 @@
+import { Suspense } from 'react';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidenceId } from '@/lib/residence-utils';
+import { getResidenceAnalytics, parseAnalyticsRange } from '@/lib/analytics-utils';
+import { can } from '@/lib/permissions';
+import AnalyticsContent from '@/components/app/analytics/AnalyticsContent';
+import { BarChart3 } from 'lucide-react';
+import { auth } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server component to fetch the analytics of the last twelve months
+ */
+async function AnalyticsData() {
+  console.log('[AnalyticsPage] Starting data fetch...');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    // Use admin client to bypass RLS policy recursion issues
+    const supabase = createSupabaseAdminClient();
+
+    const { data: userProfile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role, id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('[AnalyticsPage] Error fetching user profile:', profileError);
+      throw new Error(`Failed to fetch user profile: ${profileError.message}`);
+    }
+
+    if (!userProfile) {
+      throw new Error('User profile not found');
+    }
+
+    if (!can(userProfile.role, 'analytics.view')) {
+      return (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-6 rounded-lg">
+          <h2 className="font-semibold mb-2">Syndics Only</h2>
+          <p>Residence analytics are only available to the syndic.</p>
+        </div>
+      );
+    }
+
+    const residenceId = await getUserResidenceId(supabase, userId, userProfile.role);
+
+    if (!residenceId) {
+      return (
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-6 rounded-lg">
+            <h2 className="font-semibold mb-2">Residence Assignment Required</h2>
+            <p className="mb-4">
+              You need to be assigned to a residence before you can view analytics.
+              Please contact your administrator.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    console.log('[AnalyticsPage] Fetching analytics for residence_id:', residenceId);
+
+    const range = parseAnalyticsRange();
+    const analytics = await getResidenceAnalytics(supabase, residenceId, range.data!);
+
+    const { data: residence } = await supabase
+      .from('residences')
+      .select('id, name')
+      .eq('id', residenceId)
+      .single();
+
+    return (
+      <AnalyticsContent
+        initialAnalytics={analytics}
+        residenceName={residence?.name || 'Unknown'}
+      />
+    );
+  } catch (error: any) {
+    console.error('[AnalyticsPage] Fatal error:', error);
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="bg-destructive/10 text-destructive p-4 rounded-lg">
+          <h2 className="font-semibold mb-2">Error Loading Analytics</h2>
+          <p className="mb-2">{error.message || 'Failed to load analytics'}</p>
+        </div>
+      </div>
+    );
+  }
+}
+
+/**
+ * Main Analytics Page
+ * Collection rate, expenses, arrears, incident resolution and complaint trends
+ */
+export default function AnalyticsPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-center gap-3 mb-6">
+        <BarChart3 className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold">Analytics</h1>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="grid gap-4 md:grid-cols-2">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="bg-[var(--background)] rounded-lg p-4 shadow animate-pulse">
+                <div className="h-6 bg-muted rounded w-1/3 mb-4"></div>
+                <div className="h-40 bg-muted rounded"></div>
+              </div>
+            ))}
+          </div>
+        }
+      >
+        <AnalyticsData />
+      </Suspense>
+    </div>
+  );
+}
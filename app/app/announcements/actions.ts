@@ -0,0 +1,479 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize, ownsRecord } from '@/lib/permissions';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Announcements Server Actions
+ * Handles publishing, editing, pinning, scheduling and archiving of announcements
+ */
+
+interface CreateAnnouncementData {
+  title: string;
+  content: string;
+  residence_id: number;
+  attachment_url?: string | null;
+  is_pinned?: boolean;
+  publish_at?: string | null; // ISO date-time string, defaults to now
+}
+
+interface UpdateAnnouncementData {
+  id: number;
+  title?: string;
+  content?: string;
+  attachment_url?: string | null;
+  is_pinned?: boolean;
+  publish_at?: string | null;
+}
+
+/**
+ * Helper to load an announcement and check it belongs to the publisher's residence
+ */
+async function getOwnedAnnouncement(id: number, userId: string, supabase: any) {
+  const access = await authorize(supabase, userId, 'announcements.manage');
+  if (!access.ok) {
+    return { error: access.error };
+  }
+
+  const { data: announcement, error } = await supabase
+    .from('announcements')
+    .select('id, residence_id')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error || !announcement) {
+    return { error: 'Announcement not found' };
+  }
+
+  if (!ownsRecord(access.actor, announcement)) {
+    return { error: 'You do not have permission to manage this announcement' };
+  }
+
+  return { announcement };
+}
+
+/**
+ * Validate an optional publish date and return it as an ISO string
+ */
+function parsePublishAt(publishAt?: string | null): { value?: string; error?: string } {
+  if (!publishAt) {
+    return { value: new Date().toISOString() };
+  }
+
+  const date = new Date(publishAt);
+  if (isNaN(date.getTime())) {
+    return { error: 'Invalid publish date format' };
+  }
+
+  return { value: date.toISOString() };
+}
+
+/**
+ * Create a new announcement
+ * Announcements with a future publish_at are scheduled and hidden from residents until then
+ */
+export async function createAnnouncement(data: CreateAnnouncementData) {
+  console.log('[Announcements Actions] Creating announcement:', data.title);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    // Validation
+    if (!data.title?.trim() || !data.content?.trim() || !data.residence_id) {
+      return {
+        success: false,
+        error: 'Missing required fields: title, content, and residence_id are required',
+      };
+    }
+
+    const publishAt = parsePublishAt(data.publish_at);
+    if (publishAt.error) {
+      return {
+        success: false,
+        error: publishAt.error,
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    // Verify permissions: syndics can only publish to their own residence
+    const access = await authorize(adminSupabase, userId, 'announcements.manage');
+
+    if (!access.ok || access.actor.residenceId !== data.residence_id) {
+      return {
+        success: false,
+        error: 'You do not have permission to publish announcements for this residence',
+      };
+    }
+
+    const { data: announcement, error } = await adminSupabase
+      .from('announcements')
+      .insert({
+        residence_id: data.residence_id,
+        title: data.title.trim(),
+        content: data.content.trim(),
+        attachment_url: data.attachment_url || null,
+        is_pinned: data.is_pinned || false,
+        publish_at: publishAt.value,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Announcements Actions] Error creating announcement:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to create announcement',
+      };
+    }
+
+    console.log('[Announcements Actions] Announcement created successfully:', announcement?.id);
+    revalidatePath('/app/announcements');
+
+    return {
+      success: true,
+      data: announcement,
+    };
+  } catch (error: any) {
+    console.error('[Announcements Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update an existing announcement
+ */
+export async function updateAnnouncement(data: UpdateAnnouncementData) {
+  console.log('[Announcements Actions] Updating announcement:', data.id);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    if (!data.id) {
+      return {
+        success: false,
+        error: 'Announcement ID is required',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const { error: permissionError } = await getOwnedAnnouncement(data.id, userId, adminSupabase);
+    if (permissionError) {
+      return {
+        success: false,
+        error: permissionError,
+      };
+    }
+
+    // Build update object with only provided fields
+    const updateData: any = {};
+    if (data.title !== undefined) {
+      if (!data.title.trim()) {
+        return {
+          success: false,
+          error: 'Title cannot be empty',
+        };
+      }
+      updateData.title = data.title.trim();
+    }
+    if (data.content !== undefined) {
+      if (!data.content.trim()) {
+        return {
+          success: false,
+          error: 'Content cannot be empty',
+        };
+      }
+      updateData.content = data.content.trim();
+    }
+    if (data.attachment_url !== undefined) updateData.attachment_url = data.attachment_url || null;
+    if (data.is_pinned !== undefined) updateData.is_pinned = data.is_pinned;
+    if (data.publish_at !== undefined) {
+      const publishAt = parsePublishAt(data.publish_at);
+      if (publishAt.error) {
+        return {
+          success: false,
+          error: publishAt.error,
+        };
+      }
+      updateData.publish_at = publishAt.value;
+    }
+
+    const { data: announcement, error } = await adminSupabase
+      .from('announcements')
+      .update(updateData)
+      .eq('id', data.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Announcements Actions] Error updating announcement:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to update announcement',
+      };
+    }
+
+    console.log('[Announcements Actions] Announcement updated successfully:', announcement?.id);
+    revalidatePath('/app/announcements');
+
+    return {
+      success: true,
+      data: announcement,
+    };
+  } catch (error: any) {
+    console.error('[Announcements Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Pin or unpin an announcement
+ */
+export async function setAnnouncementPinned(id: number, isPinned: boolean) {
+  console.log('[Announcements Actions] Setting pinned:', id, isPinned);
+  return updateAnnouncement({ id, is_pinned: isPinned });
+}
+
+/**
+ * Archive or restore an announcement
+ * Archived announcements are hidden from residents but kept for the syndic
+ */
+export async function setAnnouncementArchived(id: number, archived: boolean) {
+  console.log('[Announcements Actions] Setting archived:', id, archived);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const { error: permissionError } = await getOwnedAnnouncement(id, userId, adminSupabase);
+    if (permissionError) {
+      return {
+        success: false,
+        error: permissionError,
+      };
+    }
+
+    const { data: announcement, error } = await adminSupabase
+      .from('announcements')
+      .update({
+        archived_at: archived ? new Date().toISOString() : null,
+        // An archived announcement should not stay pinned on top of the feed
+        ...(archived ? { is_pinned: false } : {}),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Announcements Actions] Error archiving announcement:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to archive announcement',
+      };
+    }
+
+    revalidatePath('/app/announcements');
+
+    return {
+      success: true,
+      data: announcement,
+    };
+  } catch (error: any) {
+    console.error('[Announcements Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Delete an announcement
+ */
+export async function deleteAnnouncement(id: number) {
+  console.log('[Announcements Actions] Deleting announcement:', id);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    if (!id) {
+      return {
+        success: false,
+        error: 'Announcement ID is required',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const { error: permissionError } = await getOwnedAnnouncement(id, userId, adminSupabase);
+    if (permissionError) {
+      return {
+        success: false,
+        error: permissionError,
+      };
+    }
+
+    const { error } = await adminSupabase
+      .from('announcements')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('[Announcements Actions] Error deleting announcement:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to delete announcement',
+      };
+    }
+
+    console.log('[Announcements Actions] Announcement deleted successfully:', id);
+    revalidatePath('/app/announcements');
+
+    return {
+      success: true,
+    };
+  } catch (error: any) {
+    console.error('[Announcements Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Upload announcement attachment to Supabase storage
+ */
+export async function uploadAnnouncementAttachment(formData: FormData): Promise<{ success: boolean; url?: string; error?: string }> {
+  console.log('[Announcements Actions] Uploading announcement attachment');
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: 'Not authenticated',
+      };
+    }
+
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return {
+        success: false,
+        error: 'No file provided',
+      };
+    }
+
+    // Validate file type (PDF, images)
+    const allowedTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/jpg', 'image/webp'];
+
+    if (!allowedTypes.includes(file.type)) {
+      return {
+        success: false,
+        error: 'Invalid file type. Please upload a PDF or image file.',
+      };
+    }
+
+    // Validate file size (max 10MB)
+    const maxSize = 10 * 1024 * 1024; // 10MB
+    if (file.size > maxSize) {
+      return {
+        success: false,
+        error: 'File size too large. Maximum size is 10MB.',
+      };
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const fileExt = file.name.split('.').pop();
+    const fileName = `${session.user.id}/announcement-${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+    const filePath = `announcements/${fileName}`;
+
+    const arrayBuffer = await file.arrayBuffer();
+    const { error: uploadError } = await supabase.storage
+      .from('SAKAN')
+      .upload(filePath, arrayBuffer, {
+        contentType: file.type,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      console.error('[Announcements Actions] Storage error:', uploadError);
+      return {
+        success: false,
+        error: 'Failed to upload file. Please try again.',
+      };
+    }
+
+    const urlData = supabase.storage
+      .from('SAKAN')
+      .getPublicUrl(filePath);
+
+    const publicUrl = urlData?.data?.publicUrl || (urlData as any)?.publicUrl;
+
+    if (!publicUrl) {
+      console.error('[Announcements Actions] Failed to get public URL for file:', filePath);
+      return {
+        success: false,
+        error: 'Failed to generate file URL',
+      };
+    }
+
+    console.log('[Announcements Actions] File uploaded successfully:', publicUrl);
+
+    return {
+      success: true,
+      url: publicUrl,
+    };
+  } catch (error: any) {
+    console.error('[Announcements Actions] Unexpected error uploading file:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to upload file',
+    };
+  }
+}
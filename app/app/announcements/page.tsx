@@ -0,0 +1,149 @@
+import { Suspense } from 'react';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidenceId } from '@/lib/residence-utils';
+import AnnouncementsContent from '@/components/app/announcements/AnnouncementsContent';
+import { Megaphone } from 'lucide-react';
+import { auth } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server component to fetch announcements data
+ * Syndics see every announcement of their residence (scheduled and archived included)
+ * Residents and guards only see published, non-archived announcements
+ */
+async function AnnouncementsData() {
+  console.log('[AnnouncementsPage] Starting data fetch...');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    // Use admin client to bypass RLS policy recursion issues
+    const supabase = createSupabaseAdminClient();
+
+    const { data: userProfile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role, id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('[AnnouncementsPage] Error fetching user profile:', profileError);
+      throw new Error(`Failed to fetch user profile: ${profileError.message}`);
+    }
+
+    if (!userProfile) {
+      throw new Error('User profile not found');
+    }
+
+    const residenceId = await getUserResidenceId(supabase, userId, userProfile.role);
+
+    if (!residenceId) {
+      return (
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-6 rounded-lg">
+            <h2 className="font-semibold mb-2">Residence Assignment Required</h2>
+            <p className="mb-4">
+              You need to be assigned to a residence before you can view announcements.
+              Please contact your administrator.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    console.log('[AnnouncementsPage] Fetching announcements for residence_id:', residenceId);
+
+    let announcementsQuery = supabase
+      .from('announcements')
+      .select(`
+        *,
+        author:created_by (
+          id,
+          full_name
+        )
+      `)
+      .eq('residence_id', residenceId);
+
+    // Role-based filtering
+    if (userProfile.role !== 'syndic') {
+      announcementsQuery = announcementsQuery
+        .is('archived_at', null)
+        .lte('publish_at', new Date().toISOString());
+    }
+
+    const { data: announcements, error: announcementsError } = await announcementsQuery
+      .order('is_pinned', { ascending: false })
+      .order('publish_at', { ascending: false });
+
+    if (announcementsError) {
+      console.error('[AnnouncementsPage] Error fetching announcements:', announcementsError);
+      throw new Error('Failed to fetch announcements');
+    }
+
+    const { data: residence } = await supabase
+      .from('residences')
+      .select('id, name')
+      .eq('id', residenceId)
+      .single();
+
+    const announcementsWithAuthor = (announcements || []).map((announcement: any) => ({
+      ...announcement,
+      author_name: announcement.author?.full_name || 'Syndic',
+    }));
+
+    return (
+      <AnnouncementsContent
+        initialAnnouncements={announcementsWithAuthor}
+        currentUserRole={userProfile.role}
+        currentUserResidenceId={residenceId}
+        residenceName={residence?.name || 'Unknown'}
+      />
+    );
+  } catch (error: any) {
+    console.error('[AnnouncementsPage] Fatal error:', error);
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="bg-destructive/10 text-destructive p-4 rounded-lg">
+          <h2 className="font-semibold mb-2">Error Loading Announcements</h2>
+          <p className="mb-2">{error.message || 'Failed to load announcements'}</p>
+        </div>
+      </div>
+    );
+  }
+}
+
+/**
+ * Main Announcements Page
+ * Syndics publish building notices, residents read them
+ */
+export default function AnnouncementsPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-center gap-3 mb-6">
+        <Megaphone className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold">Announcements</h1>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-[var(--background)] rounded-lg p-4 shadow animate-pulse">
+                <div className="h-6 bg-muted rounded w-1/4 mb-2"></div>
+                <div className="h-4 bg-muted rounded w-3/4"></div>
+              </div>
+            ))}
+          </div>
+        }
+      >
+        <AnnouncementsData />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize, ownsRecord } from '@/lib/permissions';
+import {
+  createCalendarEvent,
+  deleteCalendarEvent,
+  getCalendarFeedPath,
+  getCalendarFeedToken,
+  listCalendarItems,
+  parseCalendarRange,
+  updateCalendarEvent,
+  type CalendarEventInput,
+} from '@/lib/calendar-utils';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Calendar Server Actions
+ * Handles the residence calendar, its events and the user's iCalendar feed
+ */
+
+/**
+ * Helper to load an event and check the current user may manage it
+ */
+async function getResidenceEvent(eventId: number, userId: string, supabase: any) {
+  const access = await authorize(supabase, userId, 'calendar.manage');
+  if (!access.ok) {
+    return { error: access.error };
+  }
+
+  const { data: event, error } = await supabase
+    .from('calendar_events')
+    .select('*')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error || !event || !ownsRecord(access.actor, event)) {
+    return { error: 'Event not found' };
+  }
+
+  return { event };
+}
+
+/**
+ * Get the calendar items of the current residence between two dates
+ */
+export async function getCalendarItems(from?: string, to?: string) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const range = parseCalendarRange(from, to);
+    if (!range.success || !range.data) {
+      return {
+        success: false,
+        error: range.error,
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId);
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const items = await listCalendarItems(adminSupabase, { ...access.actor, range: range.data });
+
+    return {
+      success: true,
+      data: items,
+    };
+  } catch (error: any) {
+    console.error('[Calendar Actions] Error fetching calendar items:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to fetch calendar',
+    };
+  }
+}
+
+/**
+ * Create a calendar event (syndics only)
+ */
+export async function createCalendarEventAction(data: CalendarEventInput) {
+  console.log('[Calendar Actions] Creating event:', data.title);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'calendar.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await createCalendarEvent(adminSupabase, access.actor.residenceId, userId, data);
+
+    if (!result.success) {
+      console.error('[Calendar Actions] Error creating event:', result.error);
+      return result;
+    }
+
+    console.log('[Calendar Actions] Event created successfully:', result.data?.id);
+    revalidatePath('/app/calendar');
+
+    return result;
+  } catch (error: any) {
+    console.error('[Calendar Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update a calendar event (syndics only)
+ */
+export async function updateCalendarEventAction(eventId: number, data: CalendarEventInput) {
+  console.log('[Calendar Actions] Updating event:', eventId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const found = await getResidenceEvent(eventId, userId, adminSupabase);
+    if (found.error || !found.event) {
+      return {
+        success: false,
+        error: found.error,
+      };
+    }
+
+    const result = await updateCalendarEvent(adminSupabase, found.event, data);
+
+    if (!result.success) {
+      console.error('[Calendar Actions] Error updating event:', result.error);
+      return result;
+    }
+
+    revalidatePath('/app/calendar');
+
+    return result;
+  } catch (error: any) {
+    console.error('[Calendar Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Delete a calendar event (syndics only)
+ */
+export async function deleteCalendarEventAction(eventId: number) {
+  console.log('[Calendar Actions] Deleting event:', eventId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const found = await getResidenceEvent(eventId, userId, adminSupabase);
+    if (found.error || !found.event) {
+      return {
+        success: false,
+        error: found.error,
+      };
+    }
+
+    const { error } = await deleteCalendarEvent(adminSupabase, eventId);
+
+    if (error) {
+      console.error('[Calendar Actions] Error deleting event:', error);
+      return {
+        success: false,
+        error: error || 'Failed to delete event',
+      };
+    }
+
+    revalidatePath('/app/calendar');
+
+    return {
+      success: true,
+    };
+  } catch (error: any) {
+    console.error('[Calendar Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get the path of the user's iCalendar feed, optionally replacing its token
+ */
+export async function getCalendarFeed(regenerate = false) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+    const token = await getCalendarFeedToken(adminSupabase, userId, regenerate);
+
+    if (regenerate) {
+      console.log('[Calendar Actions] Calendar feed token regenerated for user:', userId);
+    }
+
+    return {
+      success: true,
+      data: { path: getCalendarFeedPath(token) },
+    };
+  } catch (error: any) {
+    console.error('[Calendar Actions] Error getting calendar feed:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to get calendar feed',
+    };
+  }
+}
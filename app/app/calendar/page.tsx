@@ -0,0 +1,130 @@
+import { Suspense } from 'react';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidenceId } from '@/lib/residence-utils';
+import { listCalendarItems } from '@/lib/calendar-utils';
+import { can } from '@/lib/permissions';
+import CalendarContent from '@/components/app/calendar/CalendarContent';
+import { CalendarDays } from 'lucide-react';
+import { auth } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server component to fetch the calendar items around the current month
+ */
+async function CalendarData() {
+  console.log('[CalendarPage] Starting data fetch...');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    // Use admin client to bypass RLS policy recursion issues
+    const supabase = createSupabaseAdminClient();
+
+    const { data: userProfile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role, id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('[CalendarPage] Error fetching user profile:', profileError);
+      throw new Error(`Failed to fetch user profile: ${profileError.message}`);
+    }
+
+    if (!userProfile) {
+      throw new Error('User profile not found');
+    }
+
+    const residenceId = await getUserResidenceId(supabase, userId, userProfile.role);
+
+    if (!residenceId) {
+      return (
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-6 rounded-lg">
+            <h2 className="font-semibold mb-2">Residence Assignment Required</h2>
+            <p className="mb-4">
+              You need to be assigned to a residence before you can view the calendar.
+              Please contact your administrator.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    console.log('[CalendarPage] Fetching calendar for residence_id:', residenceId);
+
+    // The month grid shows up to a week of the previous and next months; the
+    // extra day on each side covers the user's time zone offset
+    const now = new Date();
+    const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1 - 8));
+    const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1 + 15));
+
+    const items = await listCalendarItems(supabase, {
+      residenceId,
+      userId,
+      role: userProfile.role,
+      range: { from, to },
+    });
+
+    const { data: residence } = await supabase
+      .from('residences')
+      .select('id, name')
+      .eq('id', residenceId)
+      .single();
+
+    return (
+      <CalendarContent
+        initialItems={items}
+        canManage={can(userProfile.role, 'calendar.manage')}
+        residenceName={residence?.name || 'Unknown'}
+      />
+    );
+  } catch (error: any) {
+    console.error('[CalendarPage] Fatal error:', error);
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="bg-destructive/10 text-destructive p-4 rounded-lg">
+          <h2 className="font-semibold mb-2">Error Loading Calendar</h2>
+          <p className="mb-2">{error.message || 'Failed to load calendar'}</p>
+        </div>
+      </div>
+    );
+  }
+}
+
+/**
+ * Main Calendar Page
+ * Residence meetings and maintenance windows alongside fee due dates,
+ * incident interventions and poll closing dates
+ */
+export default function CalendarPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-center gap-3 mb-6">
+        <CalendarDays className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold">Calendar</h1>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="bg-[var(--background)] rounded-lg p-4 shadow animate-pulse">
+            <div className="h-6 bg-muted rounded w-1/4 mb-4"></div>
+            <div className="grid grid-cols-7 gap-2">
+              {Array.from({ length: 35 }).map((_, i) => (
+                <div key={i} className="h-20 bg-muted rounded"></div>
+              ))}
+            </div>
+          </div>
+        }
+      >
+        <CalendarData />
+      </Suspense>
+    </div>
+  );
+}
@@ -3,6 +3,18 @@
 import { auth } from '@/lib/auth';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { notifyUsers } from '@/lib/notification-utils';
+import { authorize, can, ownsRecord } from '@/lib/permissions';
+import { addComplaintEvidence, listComplaintEvidence } from '@/lib/complaint-evidence-utils';
+import {
+  buildComplaintHistory,
+  listComplaintMessages,
+  postComplaintMessage,
+  statusChangeFields,
+  COMPLAINT_STATUSES,
+  type ComplaintChannel,
+  type ComplaintStatus,
+} from '@/lib/complaint-mediation-utils';
 
 /**
  * Complaints Server Actions
@@ -10,7 +22,6 @@ import { revalidatePath } from 'next/cache';
  */
 
 type ComplaintReason = 'noise' | 'trash' | 'behavior' | 'parking' | 'pets' | 'property_damage' | 'other';
-type ComplaintStatus = 'submitted' | 'reviewed' | 'resolved';
 type ComplaintPrivacy = 'private' | 'anonymous';
 
 interface CreateComplaintData {
@@ -28,36 +39,6 @@ interface UpdateComplaintStatusData {
   resolution_notes?: string;
 }
 
-/**
- * Helper to get the current user's residence ID
- */
-async function getUserResidenceId(userId: string, userRole: string, supabase: any): Promise<number | null> {
-  if (userRole === 'syndic') {
-    const { data } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-    return data?.id || null;
-  } else if (userRole === 'guard') {
-    const { data } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('guard_user_id', userId)
-      .maybeSingle();
-    return data?.id || null;
-  } else if (userRole === 'resident') {
-    const { data } = await supabase
-      .from('profile_residences')
-      .select('residence_id')
-      .eq('profile_id', userId)
-      .limit(1)
-      .maybeSingle();
-    return data?.residence_id || null;
-  }
-  return null;
-}
-
 /**
  * Create a new complaint
  * Only residents can create complaints
@@ -86,32 +67,16 @@ export async function createComplaint(data: CreateComplaintData) {
 
     const adminSupabase = createSupabaseAdminClient();
 
-    // Get user profile to determine role
-    const { data: userProfile, error: profileError } = await adminSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
-      return {
-        success: false,
-        error: 'Failed to fetch user profile',
-      };
-    }
-
-    // Only residents can create complaints
-    if (userProfile.role !== 'resident') {
+    // Only residents can create complaints, in their own residence
+    const access = await authorize(adminSupabase, userId, 'complaints.create');
+    if (!access.ok) {
       return {
         success: false,
-        error: 'Only residents can create complaints',
+        error: access.error,
       };
     }
 
-    // Verify user has access to the residence
-    const userResidenceId = await getUserResidenceId(userId, userProfile.role, adminSupabase);
-    
-    if (!userResidenceId || userResidenceId !== data.residence_id) {
+    if (access.actor.residenceId !== data.residence_id) {
       return {
         success: false,
         error: 'You do not have permission to create complaints for this residence',
@@ -124,6 +89,7 @@ export async function createComplaint(data: CreateComplaintData) {
       .select('profile_id, residence_id')
       .eq('profile_id', data.complained_about_id)
       .eq('residence_id', data.residence_id)
+      .limit(1)
       .maybeSingle();
 
     if (complainedAboutError || !complainedAboutProfile) {
@@ -202,19 +168,18 @@ export async function createComplaint(data: CreateComplaintData) {
           .eq('id', data.complained_about_id)
           .maybeSingle();
 
-        await adminSupabase
-          .from('notifications')
-          .insert({
-            user_id: residence.syndic_user_id,
-            type: 'warning',
-            title: 'New Complaint Filed',
-            message: `${complainantProfile?.full_name || 'A resident'} filed a complaint about ${complainedAboutProfile?.full_name || 'a resident'}`,
-            residence_id: data.residence_id,
-            action_data: {
-              complaint_id: complaint.id,
-              type: 'complaint',
-            },
-          });
+        await notifyUsers(adminSupabase, {
+          userIds: [residence.syndic_user_id],
+          category: 'complaints',
+          type: 'warning',
+          title: 'New Complaint Filed',
+          message: `${complainantProfile?.full_name || 'A resident'} filed a complaint about ${complainedAboutProfile?.full_name || 'a resident'}`,
+          residenceId: data.residence_id,
+          actionData: {
+            complaint_id: complaint.id,
+            type: 'complaint',
+          },
+        });
       }
     } catch (notifError) {
       console.warn('[Complaints Actions] Failed to send notification to syndic:', notifError);
@@ -231,34 +196,32 @@ export async function createComplaint(data: CreateComplaintData) {
           .eq('id', userId)
           .maybeSingle();
 
-        await adminSupabase
-          .from('notifications')
-          .insert({
-            user_id: data.complained_about_id,
-            type: 'warning',
-            title: 'Complaint Filed Against You',
-            message: `${complainantProfile?.full_name || 'A resident'} filed a complaint about you: ${data.title}`,
-            residence_id: data.residence_id,
-            action_data: {
-              complaint_id: complaint.id,
-              type: 'complaint',
-            },
-          });
+        await notifyUsers(adminSupabase, {
+          userIds: [data.complained_about_id],
+          category: 'complaints',
+          type: 'warning',
+          title: 'Complaint Filed Against You',
+          message: `${complainantProfile?.full_name || 'A resident'} filed a complaint about you: ${data.title}`,
+          residenceId: data.residence_id,
+          actionData: {
+            complaint_id: complaint.id,
+            type: 'complaint',
+          },
+        });
       } else {
         // Anonymous complaint: don't show complainant name
-        await adminSupabase
-          .from('notifications')
-          .insert({
-            user_id: data.complained_about_id,
-            type: 'warning',
-            title: 'Anonymous Complaint Filed',
-            message: `An anonymous complaint has been filed about you: ${data.title}`,
-            residence_id: data.residence_id,
-            action_data: {
-              complaint_id: complaint.id,
-              type: 'complaint',
-            },
-          });
+        await notifyUsers(adminSupabase, {
+          userIds: [data.complained_about_id],
+          category: 'complaints',
+          type: 'warning',
+          title: 'Anonymous Complaint Filed',
+          message: `An anonymous complaint has been filed about you: ${data.title}`,
+          residenceId: data.residence_id,
+          actionData: {
+            complaint_id: complaint.id,
+            type: 'complaint',
+          },
+        });
       }
     } catch (notifError) {
       console.warn('[Complaints Actions] Failed to send notification to complained-about resident:', notifError);
@@ -305,33 +268,20 @@ export async function getComplaints(filters?: {
 
     const adminSupabase = createSupabaseAdminClient();
 
-    // Get user profile to determine role
-    const { data: userProfile, error: profileError } = await adminSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
+    const access = await authorize(adminSupabase, userId);
+    if (!access.ok) {
       return {
-        success: false,
-        error: 'Failed to fetch user profile',
+        success: true,
+        data: [],
       };
     }
 
-    const userRole = userProfile.role;
-    let residenceId = filters?.residence_id;
-
-    // If no residence_id provided, get from user's role
-    if (!residenceId) {
-      const fetchedResidenceId = await getUserResidenceId(userId, userRole, adminSupabase);
-      residenceId = fetchedResidenceId || undefined;
-    }
-
-    if (!residenceId) {
+    // Only the user's own residence can be listed
+    const residenceId = access.actor.residenceId;
+    if (filters?.residence_id && filters.residence_id !== residenceId) {
       return {
-        success: true,
-        data: [],
+        success: false,
+        error: 'You do not have permission to access this residence',
       };
     }
 
@@ -356,11 +306,11 @@ export async function getComplaints(filters?: {
       .eq('residence_id', residenceId);
 
     // Role-based filtering
-    if (userRole === 'resident') {
-      // Residents can see their own complaints or complaints against them
+    // Syndics can see all complaints in their residence; everyone else
+    // only sees their own complaints or complaints against them
+    if (!can(access.actor.role, 'complaints.review')) {
       query = query.or(`complainant_id.eq.${userId},complained_about_id.eq.${userId}`);
     }
-    // Syndics can see all complaints in their residence (no additional filter)
 
     // Status filter
     if (filters?.status) {
@@ -415,23 +365,14 @@ export async function getComplaintById(id: number) {
 
     const adminSupabase = createSupabaseAdminClient();
 
-    // Get user profile to determine role
-    const { data: userProfile } = await adminSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (!userProfile) {
+    const access = await authorize(adminSupabase, userId);
+    if (!access.ok) {
       return {
         success: false,
-        error: 'Failed to fetch user profile',
+        error: access.error,
       };
     }
 
-    const userRole = userProfile.role;
-    const userResidenceId = await getUserResidenceId(userId, userRole, adminSupabase);
-
     // Fetch complaint with joins
     const { data: complaint, error } = await adminSupabase
       .from('complaints')
@@ -470,7 +411,7 @@ export async function getComplaintById(id: number) {
 
     // Verify access
     // Syndics can view all complaints in their residence
-    if (userRole === 'syndic' && complaint.residence_id === userResidenceId) {
+    if (can(access.actor.role, 'complaints.review') && ownsRecord(access.actor, complaint)) {
       return {
         success: true,
         data: complaint,
@@ -478,8 +419,7 @@ export async function getComplaintById(id: number) {
     }
 
     // Residents can view if they are the complainant or complained-about
-    if (userRole === 'resident' && 
-        (complaint.complainant_id === userId || complaint.complained_about_id === userId)) {
+    if (complaint.complainant_id === userId || complaint.complained_about_id === userId) {
       return {
         success: true,
         data: complaint,
@@ -524,34 +464,28 @@ export async function updateComplaintStatus(data: UpdateComplaintStatusData) {
       };
     }
 
-    const adminSupabase = createSupabaseAdminClient();
-
-    // Get user profile to determine role
-    const { data: userProfile, error: profileError } = await adminSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
+    if (!COMPLAINT_STATUSES.includes(data.status)) {
       return {
         success: false,
-        error: 'Failed to fetch user profile',
+        error: `Invalid status. Must be one of: ${COMPLAINT_STATUSES.join(', ')}`,
       };
     }
 
+    const adminSupabase = createSupabaseAdminClient();
+
     // Only syndics can update complaint status
-    if (userProfile.role !== 'syndic') {
+    const access = await authorize(adminSupabase, userId, 'complaints.review');
+    if (!access.ok) {
       return {
         success: false,
-        error: 'Only syndics can update complaint status',
+        error: access.error,
       };
     }
 
     // Get existing complaint to verify residence
     const { data: existingComplaint, error: fetchError } = await adminSupabase
       .from('complaints')
-      .select('residence_id, complainant_id, complained_about_id, status')
+      .select('residence_id, complainant_id, complained_about_id, status, warning_issued_at, escalated_at')
       .eq('id', data.id)
       .single();
 
@@ -563,34 +497,20 @@ export async function updateComplaintStatus(data: UpdateComplaintStatusData) {
     }
 
     // Verify permissions
-    const userResidenceId = await getUserResidenceId(userId, userProfile.role, adminSupabase);
-    
-    if (!userResidenceId || userResidenceId !== existingComplaint.residence_id) {
+    if (!ownsRecord(access.actor, existingComplaint)) {
       return {
         success: false,
         error: 'You do not have permission to update this complaint',
       };
     }
 
-    // Build update object
+    // Build update object (review, resolution, warning and escalation dates)
     const updateData: any = {
       status: data.status,
       reviewed_by: userId,
+      ...statusChangeFields(existingComplaint, data.status),
     };
 
-    // Set reviewed_at when status changes from submitted
-    if (existingComplaint.status === 'submitted' && data.status !== 'submitted') {
-      updateData.reviewed_at = new Date().toISOString();
-    }
-
-    // Set resolved_at when status is resolved
-    if (data.status === 'resolved') {
-      updateData.resolved_at = new Date().toISOString();
-    } else if ((existingComplaint.status as string) === 'resolved' && (data.status as string) !== 'resolved') {
-      // Clear resolved_at if status changed from resolved
-      updateData.resolved_at = null;
-    }
-
     // Add resolution notes if provided
     if (data.resolution_notes !== undefined) {
       updateData.resolution_notes = data.resolution_notes || null;
@@ -619,38 +539,41 @@ export async function updateComplaintStatus(data: UpdateComplaintStatusData) {
       const statusMessages: Record<ComplaintStatus, string> = {
         submitted: 'has been submitted',
         reviewed: 'is being reviewed',
+        in_mediation: 'is in mediation with the syndic',
+        warning_issued: 'led to a warning',
+        escalated: 'has been escalated',
         resolved: 'has been resolved',
       };
 
       // Notify complainant
-      await adminSupabase
-        .from('notifications')
-        .insert({
-          user_id: existingComplaint.complainant_id,
-          type: data.status === 'resolved' ? 'success' : 'info',
-          title: 'Complaint Status Updated',
-          message: `Your complaint "${complaint.title}" ${statusMessages[data.status]}`,
-          residence_id: existingComplaint.residence_id,
-          action_data: {
-            complaint_id: complaint.id,
-            type: 'complaint',
-          },
-        });
+      await notifyUsers(adminSupabase, {
+        userIds: [existingComplaint.complainant_id],
+        category: 'complaints',
+        type: data.status === 'resolved' ? 'success' : 'info',
+        title: 'Complaint Status Updated',
+        message: `Your complaint "${complaint.title}" ${statusMessages[data.status]}`,
+        residenceId: existingComplaint.residence_id,
+        actionData: {
+          complaint_id: complaint.id,
+          type: 'complaint',
+        },
+      });
 
       // Notify complained-about resident
-      await adminSupabase
-        .from('notifications')
-        .insert({
-          user_id: existingComplaint.complained_about_id,
-          type: data.status === 'resolved' ? 'success' : 'info',
-          title: 'Complaint Status Updated',
-          message: `The complaint about you "${complaint.title}" ${statusMessages[data.status]}`,
-          residence_id: existingComplaint.residence_id,
-          action_data: {
-            complaint_id: complaint.id,
-            type: 'complaint',
-          },
-        });
+      await notifyUsers(adminSupabase, {
+        userIds: [existingComplaint.complained_about_id],
+        category: 'complaints',
+        type: data.status === 'resolved' ? 'success' : data.status === 'warning_issued' || data.status === 'escalated' ? 'warning' : 'info',
+        title: 'Complaint Status Updated',
+        message: data.status === 'warning_issued'
+          ? `You have received a warning from the syndic about the complaint "${complaint.title}"`
+          : `The complaint about you "${complaint.title}" ${statusMessages[data.status]}`,
+        residenceId: existingComplaint.residence_id,
+        actionData: {
+          complaint_id: complaint.id,
+          type: 'complaint',
+        },
+      });
     } catch (notifError) {
       console.warn('[Complaints Actions] Failed to send notifications:', notifError);
       // Don't fail the update if notification fails
@@ -691,24 +614,16 @@ export async function getResidentsForComplaint(residenceId: number) {
 
     const adminSupabase = createSupabaseAdminClient();
 
-    // Get user profile
-    const { data: userProfile } = await adminSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (!userProfile || userProfile.role !== 'resident') {
+    const access = await authorize(adminSupabase, userId, 'complaints.create');
+    if (!access.ok) {
       return {
         success: false,
-        error: 'Only residents can file complaints',
+        error: access.error,
       };
     }
 
     // Verify user is in the same residence
-    const userResidenceId = await getUserResidenceId(userId, userProfile.role, adminSupabase);
-    
-    if (!userResidenceId || userResidenceId !== residenceId) {
+    if (access.actor.residenceId !== residenceId) {
       return {
         success: false,
         error: 'You do not have permission to access this residence',
@@ -763,3 +678,289 @@ export async function getResidentsForComplaint(residenceId: number) {
   }
 }
 
+
+
+/**
+ * Upload an evidence file (photo, audio or video) for a complaint
+ * Only the complainant can add evidence, until the complaint is resolved
+ */
+export async function uploadComplaintEvidence(formData: FormData) {
+  const complaintId = Number(formData.get('complaint_id'));
+  console.log('[Complaints Actions] Uploading evidence for complaint:', complaintId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'complaints.create');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await addComplaintEvidence(adminSupabase, {
+      residenceId: access.actor.residenceId,
+      userId,
+      complaintId,
+      file: formData.get('file') as File | null,
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    console.log('[Complaints Actions] Evidence uploaded successfully:', result.evidence?.id);
+
+    return {
+      success: true,
+      data: result.evidence,
+    };
+
+  } catch (error: any) {
+    console.error('[Complaints Actions] Unexpected error uploading evidence:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to upload evidence',
+    };
+  }
+}
+
+/**
+ * Get the evidence of a complaint with signed URLs (syndics only)
+ * Evidence is never shown to residents, in particular not to the complained-about resident
+ */
+export async function getComplaintEvidence(complaintId: number) {
+  console.log('[Complaints Actions] Fetching evidence for complaint:', complaintId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'complaints.review');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await listComplaintEvidence(adminSupabase, {
+      residenceId: access.actor.residenceId,
+      userId,
+      complaintId,
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.evidence || [],
+    };
+
+  } catch (error: any) {
+    console.error('[Complaints Actions] Unexpected error fetching evidence:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to fetch evidence',
+    };
+  }
+}
+
+/**
+ * Get the mediation thread of a complaint
+ * Syndics see both channels; each party only sees their own conversation with the syndic
+ */
+export async function getComplaintMessages(complaintId: number) {
+  console.log('[Complaints Actions] Fetching messages for complaint:', complaintId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId);
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await listComplaintMessages(adminSupabase, complaintId, {
+      residenceId: access.actor.residenceId,
+      userId,
+      isSyndic: can(access.actor.role, 'complaints.review'),
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        channels: result.channels || [],
+        messages: result.messages || [],
+      },
+    };
+
+  } catch (error: any) {
+    console.error('[Complaints Actions] Unexpected error fetching messages:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to fetch messages',
+    };
+  }
+}
+
+/**
+ * Send a message in a complaint thread
+ * Residents write to the syndic in their own channel; syndics choose the channel
+ */
+export async function sendComplaintMessage(data: {
+  complaint_id: number;
+  body: string;
+  channel?: ComplaintChannel;
+}) {
+  console.log('[Complaints Actions] Sending message on complaint:', data.complaint_id);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId);
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await postComplaintMessage(adminSupabase, data.complaint_id, {
+      residenceId: access.actor.residenceId,
+      userId,
+      isSyndic: can(access.actor.role, 'complaints.review'),
+    }, {
+      body: data.body,
+      channel: data.channel,
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    revalidatePath('/app/complaints');
+
+    return {
+      success: true,
+      data: result.message,
+    };
+
+  } catch (error: any) {
+    console.error('[Complaints Actions] Unexpected error sending message:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to send message',
+    };
+  }
+}
+
+/**
+ * Get the complaint history of a resident, with repeat offences (syndics only)
+ */
+export async function getResidentComplaintHistory(residentId: string) {
+  console.log('[Complaints Actions] Fetching complaint history for resident:', residentId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'complaints.review');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await buildComplaintHistory(adminSupabase, access.actor.residenceId, residentId);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.history,
+    };
+
+  } catch (error: any) {
+    console.error('[Complaints Actions] Unexpected error fetching complaint history:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to fetch complaint history',
+    };
+  }
+}
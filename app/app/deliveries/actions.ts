@@ -0,0 +1,222 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize } from '@/lib/permissions';
+import {
+  confirmDeliveryPickup,
+  getUncollectedDeliveries,
+  listDeliveries,
+  logDelivery,
+} from '@/lib/delivery-utils';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Deliveries Server Actions
+ * Handles parcel logging, pickup confirmation and uncollected parcels reporting
+ */
+
+interface CreateDeliveryData {
+  recipient_id: string;
+  description: string;
+  carrier?: string | null;
+}
+
+/**
+ * Log a parcel received at the gate (guards and syndics)
+ */
+export async function createDelivery(data: CreateDeliveryData) {
+  console.log('[Deliveries Actions] Logging delivery for:', data.recipient_id);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'deliveries.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const context = access.actor;
+
+    const result = await logDelivery(adminSupabase, {
+      residenceId: context.residenceId,
+      loggedBy: userId,
+      recipientId: data.recipient_id,
+      description: data.description,
+      carrier: data.carrier,
+    });
+
+    if (!result.success) {
+      console.error('[Deliveries Actions] Error logging delivery:', result.error);
+      return result;
+    }
+
+    console.log('[Deliveries Actions] Delivery logged successfully:', result.data?.id);
+    revalidatePath('/app/deliveries');
+
+    return result;
+  } catch (error: any) {
+    console.error('[Deliveries Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Record a parcel pickup with the recipient's confirmation code (guards and syndics)
+ */
+export async function confirmPickup(deliveryId: number, code: string) {
+  console.log('[Deliveries Actions] Confirming pickup:', deliveryId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'deliveries.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const context = access.actor;
+
+    const result = await confirmDeliveryPickup(adminSupabase, {
+      deliveryId,
+      residenceId: context.residenceId,
+      code,
+      handedOverBy: userId,
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    revalidatePath('/app/deliveries');
+
+    return result;
+  } catch (error: any) {
+    console.error('[Deliveries Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get the delivery history of one resident (guards and syndics)
+ */
+export async function getResidentDeliveries(recipientId: string) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'deliveries.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const context = access.actor;
+
+    const deliveries = await listDeliveries(adminSupabase, {
+      residenceId: context.residenceId,
+      viewerId: userId,
+      role: context.role,
+      recipientId,
+    });
+
+    return {
+      success: true,
+      data: deliveries,
+    };
+  } catch (error: any) {
+    console.error('[Deliveries Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Report of parcels not collected after the given number of days (syndics only)
+ */
+export async function getUncollectedReport(olderThanDays: number) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    if (!Number.isInteger(olderThanDays) || olderThanDays < 0) {
+      return {
+        success: false,
+        error: 'Number of days must be a positive whole number',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'deliveries.report');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const context = access.actor;
+
+    const deliveries = await getUncollectedDeliveries(adminSupabase, context.residenceId, olderThanDays);
+
+    return {
+      success: true,
+      data: deliveries,
+    };
+  } catch (error: any) {
+    console.error('[Deliveries Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { Suspense } from 'react';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidenceId } from '@/lib/residence-utils';
+import { DELIVERY_STAFF_ROLES, listDeliveries } from '@/lib/delivery-utils';
+import DeliveriesContent from '@/components/app/deliveries/DeliveriesContent';
+import { Package } from 'lucide-react';
+import { auth } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server component to fetch deliveries data
+ * Guards and syndics see every parcel of the residence, residents only their own
+ */
+async function DeliveriesData() {
+  console.log('[DeliveriesPage] Starting data fetch...');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    // Use admin client to bypass RLS policy recursion issues
+    const supabase = createSupabaseAdminClient();
+
+    const { data: userProfile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role, id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('[DeliveriesPage] Error fetching user profile:', profileError);
+      throw new Error(`Failed to fetch user profile: ${profileError.message}`);
+    }
+
+    if (!userProfile) {
+      throw new Error('User profile not found');
+    }
+
+    const residenceId = await getUserResidenceId(supabase, userId, userProfile.role);
+
+    if (!residenceId) {
+      return (
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-6 rounded-lg">
+            <h2 className="font-semibold mb-2">Residence Assignment Required</h2>
+            <p className="mb-4">
+              You need to be assigned to a residence before you can view deliveries.
+              Please contact your administrator.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    console.log('[DeliveriesPage] Fetching deliveries for residence_id:', residenceId);
+
+    const deliveries = await listDeliveries(supabase, {
+      residenceId,
+      viewerId: userId,
+      role: userProfile.role,
+    });
+
+    // Staff need the residents list to log parcels
+    let residents: { id: string; full_name: string; apartment_number: string }[] = [];
+    if (DELIVERY_STAFF_ROLES.includes(userProfile.role)) {
+      const { data: residentRows } = await supabase
+        .from('profile_residences')
+        .select(`
+          profile_id,
+          apartment_number,
+          profiles:profile_id (
+            full_name
+          )
+        `)
+        .eq('residence_id', residenceId)
+        .eq('verified', true);
+
+      residents = (residentRows || [])
+        .map((row: any) => ({
+          id: row.profile_id,
+          full_name: row.profiles?.full_name || 'Unknown',
+          apartment_number: row.apartment_number,
+        }))
+        .sort((a: any, b: any) => a.apartment_number.localeCompare(b.apartment_number, undefined, { numeric: true }));
+    }
+
+    return (
+      <DeliveriesContent
+        initialDeliveries={deliveries}
+        residents={residents}
+        currentUserRole={userProfile.role}
+      />
+    );
+  } catch (error: any) {
+    console.error('[DeliveriesPage] Fatal error:', error);
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="bg-destructive/10 text-destructive p-4 rounded-lg">
+          <h2 className="font-semibold mb-2">Error Loading Deliveries</h2>
+          <p className="mb-2">{error.message || 'Failed to load deliveries'}</p>
+        </div>
+      </div>
+    );
+  }
+}
+
+/**
+ * Main Deliveries Page
+ * Guards log parcels and record pickups, residents track their parcels
+ */
+export default function DeliveriesPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-center gap-3 mb-6">
+        <Package className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold">Deliveries</h1>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-[var(--background)] rounded-lg p-4 shadow animate-pulse">
+                <div className="h-6 bg-muted rounded w-1/4 mb-2"></div>
+                <div className="h-4 bg-muted rounded w-3/4"></div>
+              </div>
+            ))}
+          </div>
+        }
+      >
+        <DeliveriesData />
+      </Suspense>
+    </div>
+  );
+}
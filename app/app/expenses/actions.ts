@@ -3,6 +3,10 @@
 import { auth } from '@/lib/auth';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { LedgerAccount, LEDGER_ACCOUNTS, postExpenseEntry, reverseExpenseEntries, syncExpenseEntries } from '@/lib/ledger-utils';
+import { checkPeriodOpen } from '@/lib/reconciliation-utils';
+import { authorize, ownsRecord } from '@/lib/permissions';
+import { recordDraftExpense } from '@/lib/bank-statement-utils';
 
 /**
  * Expenses Server Actions
@@ -16,6 +20,7 @@ interface CreateExpenseData {
   expense_date: string; // ISO date string
   residence_id: number;
   attachment_url?: string;
+  funding_source?: LedgerAccount; // Defaults to cash
 }
 
 interface UpdateExpenseData {
@@ -25,31 +30,7 @@ interface UpdateExpenseData {
   amount?: number;
   expense_date?: string;
   attachment_url?: string;
-}
-
-/**
- * Helper to get the current user's managed residence ID
- */
-async function getManagedResidenceId(userId: string, supabase: any) {
-  // Check if syndic
-  const { data: syndicResidence } = await supabase
-    .from('residences')
-    .select('id')
-    .eq('syndic_user_id', userId)
-    .maybeSingle();
-  
-  if (syndicResidence) return syndicResidence.id;
-
-  // Check if guard
-  const { data: guardResidence } = await supabase
-    .from('residences')
-    .select('id')
-    .eq('guard_user_id', userId)
-    .maybeSingle();
-
-  if (guardResidence) return guardResidence.id;
-
-  return null;
+  funding_source?: LedgerAccount;
 }
 
 /**
@@ -84,18 +65,39 @@ export async function createExpense(data: CreateExpenseData) {
       };
     }
 
+    if (data.funding_source && !LEDGER_ACCOUNTS.includes(data.funding_source)) {
+      return {
+        success: false,
+        error: 'Funding source must be cash or bank',
+      };
+    }
+
     const adminSupabase = createSupabaseAdminClient();
 
     // Verify permissions: Current user must be the manager (syndic) of the target residence
-    const managedResidenceId = await getManagedResidenceId(userId, adminSupabase);
-    
-    if (!managedResidenceId || managedResidenceId !== data.residence_id) {
+    const access = await authorize(adminSupabase, userId, 'expenses.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    if (access.actor.residenceId !== data.residence_id) {
       return {
         success: false,
         error: 'You do not have permission to create expenses for this residence',
       };
     }
 
+    const lockedError = await checkPeriodOpen(adminSupabase, data.residence_id, [data.expense_date]);
+    if (lockedError) {
+      return {
+        success: false,
+        error: lockedError,
+      };
+    }
+
     // Create expense
     const { data: expense, error } = await adminSupabase
       .from('expenses')
@@ -107,6 +109,7 @@ export async function createExpense(data: CreateExpenseData) {
         residence_id: data.residence_id,
         created_by: userId,
         attachment_url: data.attachment_url || null,
+        funding_source: data.funding_source || 'cash',
       })
       .select()
       .single();
@@ -120,6 +123,11 @@ export async function createExpense(data: CreateExpenseData) {
     }
 
     console.log('[Expenses Actions] Expense created successfully:', expense?.id);
+
+    const ledgerResult = await postExpenseEntry(adminSupabase, expense, userId);
+    if (!ledgerResult.success) {
+      console.error('[Expenses Actions] Error posting expense to ledger:', ledgerResult.error);
+    }
     revalidatePath('/app/expenses');
     
     return {
@@ -165,7 +173,7 @@ export async function updateExpense(data: UpdateExpenseData) {
     // Get existing expense to verify residence
     const { data: existingExpense, error: fetchError } = await adminSupabase
       .from('expenses')
-      .select('residence_id')
+      .select('residence_id, expense_date')
       .eq('id', data.id)
       .single();
 
@@ -177,15 +185,33 @@ export async function updateExpense(data: UpdateExpenseData) {
     }
 
     // Verify permissions
-    const managedResidenceId = await getManagedResidenceId(userId, adminSupabase);
-    
-    if (!managedResidenceId || managedResidenceId !== existingExpense.residence_id) {
+    const access = await authorize(adminSupabase, userId, 'expenses.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    if (!ownsRecord(access.actor, existingExpense)) {
       return {
         success: false,
         error: 'You do not have permission to update this expense',
       };
     }
 
+    // Neither the current date nor the new one may fall in a locked period
+    const lockedError = await checkPeriodOpen(adminSupabase, existingExpense.residence_id, [
+      existingExpense.expense_date,
+      data.expense_date,
+    ]);
+    if (lockedError) {
+      return {
+        success: false,
+        error: lockedError,
+      };
+    }
+
     // Build update object with only provided fields
     const updateData: any = {};
     if (data.description !== undefined) updateData.description = data.description;
@@ -201,6 +227,15 @@ export async function updateExpense(data: UpdateExpenseData) {
     }
     if (data.expense_date !== undefined) updateData.expense_date = data.expense_date;
     if (data.attachment_url !== undefined) updateData.attachment_url = data.attachment_url;
+    if (data.funding_source !== undefined) {
+      if (!LEDGER_ACCOUNTS.includes(data.funding_source)) {
+        return {
+          success: false,
+          error: 'Funding source must be cash or bank',
+        };
+      }
+      updateData.funding_source = data.funding_source;
+    }
 
     // Update expense
     const { data: expense, error } = await adminSupabase
@@ -219,6 +254,13 @@ export async function updateExpense(data: UpdateExpenseData) {
     }
 
     console.log('[Expenses Actions] Expense updated successfully:', expense?.id);
+
+    if (updateData.amount !== undefined || updateData.funding_source !== undefined) {
+      const ledgerResult = await syncExpenseEntries(adminSupabase, expense, userId);
+      if (!ledgerResult.success) {
+        console.error('[Expenses Actions] Error posting expense change to ledger:', ledgerResult.error);
+      }
+    }
     revalidatePath('/app/expenses');
     
     return {
@@ -264,7 +306,7 @@ export async function deleteExpense(expenseId: number) {
     // Get existing expense to verify residence
     const { data: existingExpense, error: fetchError } = await adminSupabase
       .from('expenses')
-      .select('residence_id')
+      .select('id, residence_id, description, expense_date')
       .eq('id', expenseId)
       .single();
 
@@ -276,15 +318,29 @@ export async function deleteExpense(expenseId: number) {
     }
 
     // Verify permissions
-    const managedResidenceId = await getManagedResidenceId(userId, adminSupabase);
-    
-    if (!managedResidenceId || managedResidenceId !== existingExpense.residence_id) {
+    const access = await authorize(adminSupabase, userId, 'expenses.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    if (!ownsRecord(access.actor, existingExpense)) {
       return {
         success: false,
         error: 'You do not have permission to delete this expense',
       };
     }
 
+    const lockedError = await checkPeriodOpen(adminSupabase, existingExpense.residence_id, [existingExpense.expense_date]);
+    if (lockedError) {
+      return {
+        success: false,
+        error: lockedError,
+      };
+    }
+
     // Delete expense
     const { error } = await adminSupabase
       .from('expenses')
@@ -300,6 +356,11 @@ export async function deleteExpense(expenseId: number) {
     }
 
     console.log('[Expenses Actions] Expense deleted successfully:', expenseId);
+
+    const ledgerResult = await reverseExpenseEntries(adminSupabase, existingExpense, userId);
+    if (!ledgerResult.success) {
+      console.error('[Expenses Actions] Error reversing expense in ledger:', ledgerResult.error);
+    }
     revalidatePath('/app/expenses');
     
     return {
@@ -315,6 +376,80 @@ export async function deleteExpense(expenseId: number) {
   }
 }
 
+/**
+ * Record a draft expense created from a bank statement debit: it is posted to the
+ * ledger and counts in totals from then on
+ */
+export async function confirmExpense(expenseId: number) {
+  console.log('[Expenses Actions] Confirming draft expense:', expenseId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const { data: existingExpense, error: fetchError } = await adminSupabase
+      .from('expenses')
+      .select('*')
+      .eq('id', expenseId)
+      .single();
+
+    if (fetchError || !existingExpense) {
+      return {
+        success: false,
+        error: 'Expense not found',
+      };
+    }
+
+    // Verify permissions
+    const access = await authorize(adminSupabase, userId, 'expenses.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    if (!ownsRecord(access.actor, existingExpense)) {
+      return {
+        success: false,
+        error: 'You do not have permission to confirm this expense',
+      };
+    }
+
+    const result = await recordDraftExpense(adminSupabase, existingExpense, userId);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    console.log('[Expenses Actions] Draft expense recorded:', expenseId);
+    revalidatePath('/app/expenses');
+
+    return {
+      success: true,
+      data: result.expense,
+    };
+
+  } catch (error: any) {
+    console.error('[Expenses Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
 /**
  * Upload expense attachment to Supabase storage
  */
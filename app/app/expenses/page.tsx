@@ -3,6 +3,7 @@ import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import ExpensesContent from '@/components/app/expenses/ExpensesContent';
 import { Receipt } from 'lucide-react';
 import { auth } from '@/lib/auth';
+import { getUserResidenceId } from '@/lib/residence-utils';
 
 export const dynamic = 'force-dynamic';
 
@@ -42,20 +43,8 @@ async function ExpensesData() {
     }
 
     const userRole = userProfile.role;
-    let residenceId = null;
-
-    // Resolve Residence ID based on role
-    if (userRole === 'syndic') {
-        const { data: res } = await supabase.from('residences').select('id').eq('syndic_user_id', userId).maybeSingle();
-        residenceId = res?.id;
-    } else if (userRole === 'guard') {
-        const { data: res } = await supabase.from('residences').select('id').eq('guard_user_id', userId).maybeSingle();
-        residenceId = res?.id;
-    } else {
-        // Resident - fetch from profile_residences
-        const { data: pr } = await supabase.from('profile_residences').select('residence_id').eq('profile_id', userId).limit(1).maybeSingle();
-        residenceId = pr?.residence_id;
-    }
+    // Residence selected in the residence switcher (or the user's only one)
+    const residenceId = await getUserResidenceId(supabase, userId, userRole);
 
     // All users must have a residence_id to view expenses
     if (!residenceId) {
@@ -3,58 +3,67 @@
 import { auth } from '@/lib/auth';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { authorize, can, type Actor } from '@/lib/permissions';
+import {
+  attachIncidentPhoto,
+  listIncidentTimeline,
+  postIncidentComment,
+  recordIncidentCreated,
+  type IncidentPhotoPhase,
+  type IncidentViewer,
+} from '@/lib/incident-activity-utils';
+import {
+  applyWorkOrderAction,
+  listContractors,
+  listWorkOrders,
+  openWorkOrder,
+  upsertContractor,
+  type ContractorInput,
+  type WorkOrderUpdate,
+} from '@/lib/work-order-utils';
+import {
+  DEFAULT_CATEGORY_PRIORITIES,
+  INCIDENT_CATEGORIES,
+  INCIDENT_PRIORITIES,
+  buildSlaReport,
+  isIncidentCategory,
+  isIncidentPriority,
+  listSlaTargets,
+  parseSlaMonth,
+  removeSlaTarget,
+  slaReportToCSV,
+  upsertSlaTarget,
+  type IncidentCategory,
+  type IncidentPriority,
+  type SlaTargetInput,
+} from '@/lib/incident-sla-utils';
+import { deleteIncidentAs, updateIncidentAs, type IncidentStatus, type IncidentUpdate } from '@/lib/incident-utils';
 
 /**
  * Incidents Server Actions
- * Handles CRUD operations for incidents
+ * Handles CRUD operations for incidents, their activity timeline, the
+ * contractors and work orders that repair them, and their SLA targets
  */
 
-type IncidentStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
-
 interface CreateIncidentData {
   title: string;
   description: string;
   residence_id: number;
   photo_url?: string;
-}
-
-interface UpdateIncidentData {
-  id: number;
-  title?: string;
-  description?: string;
-  status?: IncidentStatus;
-  assigned_to?: string | null;
-  photo_url?: string;
+  category?: IncidentCategory;
+  priority?: IncidentPriority; // syndics only; defaults from the category
 }
 
 /**
- * Helper to get the current user's residence ID
+ * Timeline viewer for the acting user
  */
-async function getUserResidenceId(userId: string, userRole: string, supabase: any): Promise<number | null> {
-  if (userRole === 'syndic') {
-    const { data } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('syndic_user_id', userId)
-      .maybeSingle();
-    return data?.id || null;
-  } else if (userRole === 'guard') {
-    const { data } = await supabase
-      .from('residences')
-      .select('id')
-      .eq('guard_user_id', userId)
-      .maybeSingle();
-    return data?.id || null;
-  } else if (userRole === 'resident') {
-    const { data } = await supabase
-      .from('profile_residences')
-      .select('residence_id')
-      .eq('profile_id', userId)
-      .limit(1)
-      .maybeSingle();
-    return data?.residence_id || null;
-  }
-  return null;
+function incidentViewer(actor: Actor): IncidentViewer {
+  return {
+    residenceId: actor.residenceId,
+    userId: actor.userId,
+    role: actor.role,
+    canManage: can(actor.role, 'incidents.manage'),
+  };
 }
 
 /**
@@ -82,32 +91,43 @@ export async function createIncident(data: CreateIncidentData) {
       };
     }
 
-    const adminSupabase = createSupabaseAdminClient();
+    if (data.category !== undefined && !isIncidentCategory(data.category)) {
+      return {
+        success: false,
+        error: `Category must be one of: ${INCIDENT_CATEGORIES.join(', ')}`,
+      };
+    }
+    if (data.priority !== undefined && !isIncidentPriority(data.priority)) {
+      return {
+        success: false,
+        error: `Priority must be one of: ${INCIDENT_PRIORITIES.join(', ')}`,
+      };
+    }
 
-    // Get user profile to determine role
-    const { data: userProfile, error: profileError } = await adminSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .maybeSingle();
+    const adminSupabase = createSupabaseAdminClient();
 
-    if (profileError || !userProfile) {
+    // Verify user has access to the residence
+    const access = await authorize(adminSupabase, userId, 'incidents.create');
+    if (!access.ok) {
       return {
         success: false,
-        error: 'Failed to fetch user profile',
+        error: access.error,
       };
     }
 
-    // Verify user has access to the residence
-    const userResidenceId = await getUserResidenceId(userId, userProfile.role, adminSupabase);
-    
-    if (!userResidenceId || userResidenceId !== data.residence_id) {
+    if (access.actor.residenceId !== data.residence_id) {
       return {
         success: false,
         error: 'You do not have permission to create incidents for this residence',
       };
     }
 
+    // Residents pick the category; the priority is the syndic's call
+    const category = data.category || 'other';
+    const priority = data.priority && can(access.actor.role, 'incidents.manage')
+      ? data.priority
+      : DEFAULT_CATEGORY_PRIORITIES[category];
+
     // Create incident
     const { data: incident, error } = await adminSupabase
       .from('incidents')
@@ -118,6 +138,8 @@ export async function createIncident(data: CreateIncidentData) {
         user_id: userId,
         photo_url: data.photo_url || null,
         status: 'open' as IncidentStatus,
+        category,
+        priority,
       })
       .select()
       .single();
@@ -131,6 +153,7 @@ export async function createIncident(data: CreateIncidentData) {
     }
 
     console.log('[Incidents Actions] Incident created successfully:', incident?.id);
+    await recordIncidentCreated(adminSupabase, incident);
     revalidatePath('/app/incidents');
     
     return {
@@ -150,7 +173,7 @@ export async function createIncident(data: CreateIncidentData) {
 /**
  * Update an existing incident
  */
-export async function updateIncident(data: UpdateIncidentData) {
+export async function updateIncident(data: IncidentUpdate) {
   console.log('[Incidents Actions] Updating incident:', data.id);
 
   try {
@@ -173,95 +196,30 @@ export async function updateIncident(data: UpdateIncidentData) {
 
     const adminSupabase = createSupabaseAdminClient();
 
-    // Get user profile to determine role
-    const { data: userProfile, error: profileError } = await adminSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
-      return {
-        success: false,
-        error: 'Failed to fetch user profile',
-      };
-    }
-
-    // Get existing incident to verify residence
-    const { data: existingIncident, error: fetchError } = await adminSupabase
-      .from('incidents')
-      .select('residence_id, user_id')
-      .eq('id', data.id)
-      .single();
-
-    if (fetchError || !existingIncident) {
-      return {
-        success: false,
-        error: 'Incident not found',
-      };
-    }
-
-    // Verify permissions
-    // Syndics can update all incidents in their residence
-    // Residents can only update their own incidents
-    const userResidenceId = await getUserResidenceId(userId, userProfile.role, adminSupabase);
-    
-    const canUpdate = 
-      userProfile.role === 'syndic' && userResidenceId === existingIncident.residence_id ||
-      (userProfile.role === 'resident' && existingIncident.user_id === userId);
-
-    if (!canUpdate) {
+    const access = await authorize(adminSupabase, userId);
+    if (!access.ok) {
       return {
         success: false,
-        error: 'You do not have permission to update this incident',
+        error: access.error,
       };
     }
 
-    // Build update object with only provided fields
-    const updateData: any = {
-      updated_at: new Date().toISOString(),
-    };
-    
-    if (data.title !== undefined) updateData.title = data.title;
-    if (data.description !== undefined) updateData.description = data.description;
-    if (data.status !== undefined) {
-      // Only syndics can change status
-      if (userProfile.role === 'syndic') {
-        updateData.status = data.status;
-      }
-    }
-    if (data.assigned_to !== undefined) {
-      // Only syndics can assign incidents
-      if (userProfile.role === 'syndic') {
-        updateData.assigned_to = data.assigned_to;
-      }
-    }
-    if (data.photo_url !== undefined) updateData.photo_url = data.photo_url;
-
-    // Update incident
-    const { data: incident, error } = await adminSupabase
-      .from('incidents')
-      .update(updateData)
-      .eq('id', data.id)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('[Incidents Actions] Error updating incident:', error);
+    // Syndics can update all incidents in their residence, residents only their own
+    const result = await updateIncidentAs(adminSupabase, access.actor, data);
+    if (!result.success) {
       return {
         success: false,
-        error: error.message || 'Failed to update incident',
+        error: result.error,
       };
     }
 
-    console.log('[Incidents Actions] Incident updated successfully:', incident?.id);
+    console.log('[Incidents Actions] Incident updated successfully:', result.data?.id);
     revalidatePath('/app/incidents');
-    
+
     return {
       success: true,
-      data: incident,
+      data: result.data,
     };
-
   } catch (error: any) {
     console.error('[Incidents Actions] Unexpected error:', error);
     return {
@@ -297,73 +255,29 @@ export async function deleteIncident(incidentId: number) {
 
     const adminSupabase = createSupabaseAdminClient();
 
-    // Get user profile to determine role
-    const { data: userProfile, error: profileError } = await adminSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .maybeSingle();
-
-    if (profileError || !userProfile) {
-      return {
-        success: false,
-        error: 'Failed to fetch user profile',
-      };
-    }
-
-    // Get existing incident to verify residence
-    const { data: existingIncident, error: fetchError } = await adminSupabase
-      .from('incidents')
-      .select('residence_id, user_id')
-      .eq('id', incidentId)
-      .single();
-
-    if (fetchError || !existingIncident) {
-      return {
-        success: false,
-        error: 'Incident not found',
-      };
-    }
-
-    // Verify permissions
     // Only syndics can delete incidents
-    if (userProfile.role !== 'syndic') {
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
       return {
         success: false,
-        error: 'Only syndics can delete incidents',
+        error: access.error,
       };
     }
 
-    const userResidenceId = await getUserResidenceId(userId, userProfile.role, adminSupabase);
-    
-    if (!userResidenceId || userResidenceId !== existingIncident.residence_id) {
-      return {
-        success: false,
-        error: 'You do not have permission to delete this incident',
-      };
-    }
-
-    // Delete incident
-    const { error } = await adminSupabase
-      .from('incidents')
-      .delete()
-      .eq('id', incidentId);
-
-    if (error) {
-      console.error('[Incidents Actions] Error deleting incident:', error);
+    const result = await deleteIncidentAs(adminSupabase, access.actor, incidentId);
+    if (!result.success) {
       return {
         success: false,
-        error: error.message || 'Failed to delete incident',
+        error: result.error,
       };
     }
 
     console.log('[Incidents Actions] Incident deleted successfully:', incidentId);
     revalidatePath('/app/incidents');
-    
+
     return {
       success: true,
     };
-
   } catch (error: any) {
     console.error('[Incidents Actions] Unexpected error:', error);
     return {
@@ -511,17 +425,18 @@ export async function getAssignableUsers(residenceId: number) {
 
     const adminSupabase = createSupabaseAdminClient();
 
-    // Get user profile to check if syndic
-    const { data: userProfile } = await adminSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .maybeSingle();
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
 
-    if (userProfile?.role !== 'syndic') {
+    if (access.actor.residenceId !== residenceId) {
       return {
         success: false,
-        error: 'Only syndics can view assignable users',
+        error: 'Residence not found',
       };
     }
 
@@ -581,3 +496,647 @@ export async function getAssignableUsers(residenceId: number) {
   }
 }
 
+
+/**
+ * Get the activity timeline and photos of an incident
+ */
+export async function getIncidentActivity(incidentId: number) {
+  console.log('[Incidents Actions] Fetching activity for incident:', incidentId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId);
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await listIncidentTimeline(adminSupabase, incidentId, incidentViewer(access.actor));
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.timeline,
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error fetching activity:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to fetch incident activity',
+    };
+  }
+}
+
+/**
+ * Comment on an incident (reporter, assignee or syndic)
+ */
+export async function commentOnIncident(data: { incident_id: number; body: string }) {
+  console.log('[Incidents Actions] Commenting on incident:', data.incident_id);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId);
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await postIncidentComment(adminSupabase, data.incident_id, incidentViewer(access.actor), { body: data.body });
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.activity,
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error commenting on incident:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to post comment',
+    };
+  }
+}
+
+/**
+ * Add a before or after photo, already uploaded with uploadIncidentPhoto, to an incident
+ */
+export async function addIncidentPhoto(data: { incident_id: number; url: string; phase?: IncidentPhotoPhase; caption?: string | null }) {
+  console.log('[Incidents Actions] Adding photo to incident:', data.incident_id);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId);
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await attachIncidentPhoto(adminSupabase, data.incident_id, incidentViewer(access.actor), data);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    revalidatePath('/app/incidents');
+
+    return {
+      success: true,
+      data: result.photo,
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error adding photo:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to add photo',
+    };
+  }
+}
+
+/**
+ * Get the contractors of the residence directory
+ */
+export async function getContractors(options: { includeInactive?: boolean } = {}) {
+  console.log('[Incidents Actions] Fetching contractors');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await listContractors(adminSupabase, access.actor.residenceId, options);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.contractors || [],
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error fetching contractors:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Add a contractor to the residence directory, or update one
+ */
+export async function saveContractor(data: ContractorInput) {
+  console.log('[Incidents Actions] Saving contractor:', data.id || 'new');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await upsertContractor(adminSupabase, access.actor.residenceId, userId, data);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    revalidatePath('/app/incidents');
+
+    return {
+      success: true,
+      data: result.contractor,
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error saving contractor:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get the work orders of an incident
+ */
+export async function getWorkOrders(incidentId: number) {
+  console.log('[Incidents Actions] Fetching work orders for incident:', incidentId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await listWorkOrders(adminSupabase, access.actor.residenceId, incidentId);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.workOrders || [],
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error fetching work orders:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Send an incident to a contractor
+ */
+export async function createWorkOrder(data: { incident_id: number; contractor_id: number; description: string }) {
+  console.log('[Incidents Actions] Creating work order for incident:', data.incident_id);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await openWorkOrder(adminSupabase, access.actor.residenceId, userId, data);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    console.log('[Incidents Actions] Work order created successfully:', result.workOrder?.id);
+    revalidatePath('/app/incidents');
+
+    return {
+      success: true,
+      data: result.workOrder,
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error creating work order:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Move a work order forward: quote, approve, reject, schedule, complete or cancel.
+ * Completing records the invoice as an expense linked to the incident.
+ */
+export async function updateWorkOrder(data: WorkOrderUpdate & { id: number }) {
+  console.log('[Incidents Actions] Updating work order:', data.id, data.action);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    if (!data.id) {
+      return {
+        success: false,
+        error: 'Work order ID is required',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const { id, ...update } = data;
+    const result = await applyWorkOrderAction(adminSupabase, access.actor.residenceId, userId, id, update);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    console.log('[Incidents Actions] Work order updated successfully:', id, result.workOrder?.status);
+    revalidatePath('/app/incidents');
+    if (data.action === 'complete') {
+      revalidatePath('/app/expenses');
+    }
+
+    return {
+      success: true,
+      data: result.workOrder,
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error updating work order:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get the SLA targets of the residence
+ */
+export async function getSlaTargets() {
+  console.log('[Incidents Actions] Fetching SLA targets');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await listSlaTargets(adminSupabase, access.actor.residenceId);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.targets || [],
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error fetching SLA targets:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Add an SLA target to the residence, or update one
+ */
+export async function saveSlaTarget(data: SlaTargetInput) {
+  console.log('[Incidents Actions] Saving SLA target:', data.id || 'new');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await upsertSlaTarget(adminSupabase, access.actor.residenceId, data);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    revalidatePath('/app/incidents');
+
+    return {
+      success: true,
+      data: result.target,
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error saving SLA target:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Remove an SLA target of the residence
+ */
+export async function deleteSlaTarget(targetId: number) {
+  console.log('[Incidents Actions] Deleting SLA target:', targetId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'incidents.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await removeSlaTarget(adminSupabase, access.actor.residenceId, targetId);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    revalidatePath('/app/incidents');
+
+    return {
+      success: true,
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error deleting SLA target:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get the SLA compliance report of the incidents reported in a month (YYYY-MM)
+ */
+export async function getSlaReport(month?: string) {
+  console.log('[Incidents Actions] Getting SLA report:', month);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const parsed = parseSlaMonth(month);
+    if (!parsed.success || !parsed.month) {
+      return {
+        success: false,
+        error: parsed.error,
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'analytics.view');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const result = await buildSlaReport(adminSupabase, access.actor.residenceId, parsed.month);
+    if (!result.success || !result.report) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.report,
+    };
+
+  } catch (error: any) {
+    console.error('[Incidents Actions] Unexpected error getting SLA report:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Export the SLA report of a month as CSV, one line per incident
+ */
+export async function exportSlaReportCsv(month?: string) {
+  console.log('[Incidents Actions] Exporting SLA report:', month);
+
+  const result = await getSlaReport(month);
+  if (!result.success || !result.data) {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      filename: `incident-sla-${result.data.month}.csv`,
+      csv: slaReportToCSV(result.data),
+    },
+  };
+}
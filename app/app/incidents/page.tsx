@@ -3,6 +3,8 @@ import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import IncidentsContent from '@/components/app/incidents/IncidentsContent';
 import { AlertCircle } from 'lucide-react';
 import { auth } from '@/lib/auth';
+import { getUserResidenceId } from '@/lib/residence-utils';
+import { attachSlaStates } from '@/lib/incident-sla-utils';
 
 export const dynamic = 'force-dynamic';
 
@@ -42,20 +44,8 @@ async function IncidentsData() {
     }
 
     const userRole = userProfile.role;
-    let residenceId = null;
-
-    // Resolve Residence ID based on role
-    if (userRole === 'syndic') {
-        const { data: res } = await supabase.from('residences').select('id').eq('syndic_user_id', userId).maybeSingle();
-        residenceId = res?.id;
-    } else if (userRole === 'guard') {
-        const { data: res } = await supabase.from('residences').select('id').eq('guard_user_id', userId).maybeSingle();
-        residenceId = res?.id;
-    } else {
-        // Resident - fetch from profile_residences
-        const { data: pr } = await supabase.from('profile_residences').select('residence_id').eq('profile_id', userId).limit(1).maybeSingle();
-        residenceId = pr?.residence_id;
-    }
+    // Residence selected in the residence switcher (or the user's only one)
+    const residenceId = await getUserResidenceId(supabase, userId, userRole);
 
     // All users must have a residence_id to view incidents
     if (!residenceId) {
@@ -117,13 +107,13 @@ async function IncidentsData() {
       .eq('id', residenceId)
       .single();
 
-    // Transform incidents to include reporter and assignee names
-    const incidentsWithNames = (incidents || []).map((incident: any) => ({
+    // Transform incidents to include reporter and assignee names, and SLA breach state
+    const incidentsWithNames = await attachSlaStates(supabase, residenceId, (incidents || []).map((incident: any) => ({
       ...incident,
       reporter_name: incident.reporter?.full_name || 'Unknown',
       assignee_name: incident.assignee?.full_name || null,
       residence_name: incident.residences?.name || residence?.name || 'Unknown',
-    }));
+    })));
 
     return (
       <IncidentsContent 
@@ -0,0 +1,155 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import {
+  getNotificationPreferences,
+  getUnreadCount,
+  listNotifications,
+  markNotificationsRead,
+  updateNotificationPreferences,
+} from '@/lib/notification-utils';
+
+/**
+ * Notifications Server Actions
+ * Handles the notification bell and per-category preferences
+ */
+
+/**
+ * Get the latest notifications and the unread count for the bell
+ */
+export async function getNotifications(limit: number = 20) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const [notifications, unreadCount] = await Promise.all([
+      listNotifications(adminSupabase, { userId, limit }),
+      getUnreadCount(adminSupabase, userId),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        notifications,
+        unread_count: unreadCount,
+      },
+    };
+  } catch (error: any) {
+    console.error('[Notifications Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Mark notifications as read (all unread ones when no IDs are given)
+ */
+export async function markNotificationsAsRead(ids?: number[]) {
+  console.log('[Notifications Actions] Marking notifications as read:', ids ?? 'all');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    return await markNotificationsRead(adminSupabase, { userId, ids });
+  } catch (error: any) {
+    console.error('[Notifications Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get the current user's notification preferences
+ */
+export async function getNotificationSettings() {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+    const preferences = await getNotificationPreferences(adminSupabase, userId);
+
+    return {
+      success: true,
+      data: preferences,
+    };
+  } catch (error: any) {
+    console.error('[Notifications Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Turn notification categories on or off for the current user
+ */
+export async function saveNotificationSettings(updates: Record<string, boolean>) {
+  console.log('[Notifications Actions] Saving notification preferences:', updates);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const result = await updateNotificationPreferences(adminSupabase, userId, updates);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error: any) {
+    console.error('[Notifications Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
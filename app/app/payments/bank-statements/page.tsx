@@ -0,0 +1,37 @@
+import { Suspense } from 'react';
+import BankStatementsContent from '@/components/app/payments/BankStatementsContent';
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { can, getUserRole } from '@/lib/permissions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Bank Statements Page
+ * The syndic imports statements of the residence account and reviews how their
+ * lines were matched to transfers, fees and expenses
+ */
+export default async function BankStatementsPage() {
+	console.log('[Bank Statements Page] Rendering bank statements page');
+
+	const session = await auth();
+	const role = session?.user?.id
+		? await getUserRole(createSupabaseAdminClient(), session.user.id)
+		: null;
+
+	return (
+		<div className="max-w-7xl mx-auto p-4 sm:px-6">
+			<h1 className="text-2xl font-bold mb-6">Bank Statements</h1>
+			{can(role, 'reconciliations.manage') ? (
+				<Suspense fallback={<div className="bg-card rounded-lg h-64 animate-pulse"></div>}>
+					<BankStatementsContent />
+				</Suspense>
+			) : (
+				<div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-6 rounded-lg">
+					<h2 className="font-semibold mb-2">Syndics Only</h2>
+					<p>Bank statements are only available to the syndic.</p>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -1,18 +1,37 @@
 import { Suspense } from 'react';
 import PaymentsContent from '@/components/app/payments/PaymentsContent';
+import ResidentPaymentsContent from '@/components/app/payments/ResidentPaymentsContent';
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { can, getUserRole } from '@/lib/permissions';
+
+export const dynamic = 'force-dynamic';
 
 /**
  * Payments Page
- * Displays payments list, balance tracking, and cash payment entry
+ * Syndics get payments, balance tracking, cash payment entry and the transfer
+ * verification queue; residents declare bank transfers for their fees
  */
-export default function PaymentsPage() {
+export default async function PaymentsPage() {
 	console.log('[Payments Page] Rendering payments page');
 
+	const session = await auth();
+	const role = session?.user?.id
+		? await getUserRole(createSupabaseAdminClient(), session.user.id)
+		: null;
+
 	return (
 		<div className="max-w-7xl mx-auto p-4 sm:px-6">
-			<h1 className="text-2xl font-bold mb-6">Payments & Balance</h1>
+			<h1 className="text-2xl font-bold mb-6">{role === 'resident' ? 'My Payments' : 'Payments & Balance'}</h1>
 			<Suspense fallback={<PaymentsPageSkeleton />}>
-				<PaymentsContent />
+				{role === 'resident' ? (
+					<ResidentPaymentsContent />
+				) : (
+					<PaymentsContent
+						canVerifyTransfers={can(role, 'payments.verify')}
+						canReconcile={can(role, 'reconciliations.manage')}
+					/>
+				)}
 			</Suspense>
 		</div>
 	);
@@ -0,0 +1,357 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize, can, ownsRecord } from '@/lib/permissions';
+import {
+  castPollVote,
+  createPollWithOptions,
+  deletePollCascade,
+  getPollResults,
+  pollResultsToCSV,
+  type CreatePollInput,
+} from '@/lib/poll-utils';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Polls Server Actions
+ * Handles poll creation, closing, voting and results export
+ */
+
+/**
+ * Helper to load a poll and check it belongs to the current user's residence
+ */
+async function getResidencePoll(pollId: number, userId: string, supabase: any) {
+  const access = await authorize(supabase, userId);
+  if (!access.ok) {
+    return { error: access.error };
+  }
+
+  const { data: poll, error } = await supabase
+    .from('polls')
+    .select('*')
+    .eq('id', pollId)
+    .maybeSingle();
+
+  if (error || !poll || !ownsRecord(access.actor, poll)) {
+    return { error: 'Poll not found' };
+  }
+
+  return { poll, role: access.actor.role };
+}
+
+/**
+ * Create a new poll (syndics only)
+ */
+export async function createPoll(data: CreatePollInput) {
+  console.log('[Polls Actions] Creating poll:', data.question);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'polls.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const { residenceId } = access.actor;
+
+    const result = await createPollWithOptions(adminSupabase, residenceId, userId, data);
+
+    if (!result.success) {
+      console.error('[Polls Actions] Error creating poll:', result.error);
+      return result;
+    }
+
+    console.log('[Polls Actions] Poll created successfully:', result.data?.id);
+    revalidatePath('/app/polls');
+
+    return result;
+  } catch (error: any) {
+    console.error('[Polls Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Close a poll before its closing date (syndics only)
+ */
+export async function closePoll(pollId: number) {
+  console.log('[Polls Actions] Closing poll:', pollId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const result = await getResidencePoll(pollId, userId, adminSupabase);
+    if ('error' in result) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    if (!can(result.role, 'polls.manage')) {
+      return {
+        success: false,
+        error: 'Only syndics can close polls',
+      };
+    }
+
+    const { data: poll, error } = await adminSupabase
+      .from('polls')
+      .update({
+        is_active: false,
+        closed_at: new Date().toISOString(),
+      })
+      .eq('id', pollId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Polls Actions] Error closing poll:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to close poll',
+      };
+    }
+
+    revalidatePath('/app/polls');
+
+    return {
+      success: true,
+      data: poll,
+    };
+  } catch (error: any) {
+    console.error('[Polls Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Delete a poll with its options and votes (syndics only)
+ */
+export async function deletePoll(pollId: number) {
+  console.log('[Polls Actions] Deleting poll:', pollId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const result = await getResidencePoll(pollId, userId, adminSupabase);
+    if ('error' in result) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    if (!can(result.role, 'polls.manage')) {
+      return {
+        success: false,
+        error: 'Only syndics can delete polls',
+      };
+    }
+
+    const { error } = await deletePollCascade(adminSupabase, pollId);
+
+    if (error) {
+      console.error('[Polls Actions] Error deleting poll:', error);
+      return {
+        success: false,
+        error,
+      };
+    }
+
+    console.log('[Polls Actions] Poll deleted successfully:', pollId);
+    revalidatePath('/app/polls');
+
+    return {
+      success: true,
+    };
+  } catch (error: any) {
+    console.error('[Polls Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Cast a vote on a poll
+ * profileResidenceId selects the apartment when the resident owns several
+ */
+export async function castVote(pollId: number, optionId: number, profileResidenceId?: number | null) {
+  console.log('[Polls Actions] Casting vote:', pollId, optionId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const result = await castPollVote(adminSupabase, {
+      pollId,
+      optionId,
+      userId,
+      profileResidenceId,
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    revalidatePath('/app/polls');
+
+    return result;
+  } catch (error: any) {
+    console.error('[Polls Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get results and participation by apartment for a poll (syndics only)
+ */
+export async function getPollResultsDetails(pollId: number) {
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const result = await getResidencePoll(pollId, userId, adminSupabase);
+    if ('error' in result) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    if (!can(result.role, 'polls.manage')) {
+      return {
+        success: false,
+        error: 'Only syndics can view participation details',
+      };
+    }
+
+    const results = await getPollResults(adminSupabase, result.poll);
+
+    return {
+      success: true,
+      data: results,
+    };
+  } catch (error: any) {
+    console.error('[Polls Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Export poll results as CSV (syndics only)
+ */
+export async function exportPollResultsCsv(pollId: number) {
+  console.log('[Polls Actions] Exporting poll results:', pollId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const result = await getResidencePoll(pollId, userId, adminSupabase);
+    if ('error' in result) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    if (!can(result.role, 'polls.manage')) {
+      return {
+        success: false,
+        error: 'Only syndics can export poll results',
+      };
+    }
+
+    const results = await getPollResults(adminSupabase, result.poll);
+
+    return {
+      success: true,
+      data: {
+        filename: `poll-${pollId}-results.csv`,
+        csv: pollResultsToCSV(result.poll, results),
+      },
+    };
+  } catch (error: any) {
+    console.error('[Polls Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { Suspense } from 'react';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { getUserResidenceId } from '@/lib/residence-utils';
+import { listPollsWithResults } from '@/lib/poll-utils';
+import PollsContent from '@/components/app/polls/PollsContent';
+import { Vote } from 'lucide-react';
+import { auth } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server component to fetch polls data with results and the user's voting status
+ */
+async function PollsData() {
+  console.log('[PollsPage] Starting data fetch...');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    // Use admin client to bypass RLS policy recursion issues
+    const supabase = createSupabaseAdminClient();
+
+    const { data: userProfile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role, id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('[PollsPage] Error fetching user profile:', profileError);
+      throw new Error(`Failed to fetch user profile: ${profileError.message}`);
+    }
+
+    if (!userProfile) {
+      throw new Error('User profile not found');
+    }
+
+    const residenceId = await getUserResidenceId(supabase, userId, userProfile.role);
+
+    if (!residenceId) {
+      return (
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-6 rounded-lg">
+            <h2 className="font-semibold mb-2">Residence Assignment Required</h2>
+            <p className="mb-4">
+              You need to be assigned to a residence before you can view polls.
+              Please contact your administrator.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    console.log('[PollsPage] Fetching polls for residence_id:', residenceId);
+
+    const polls = await listPollsWithResults(supabase, residenceId, userId, userProfile.role);
+
+    const { data: residence } = await supabase
+      .from('residences')
+      .select('id, name')
+      .eq('id', residenceId)
+      .single();
+
+    return (
+      <PollsContent
+        initialPolls={polls}
+        currentUserRole={userProfile.role}
+        residenceName={residence?.name || 'Unknown'}
+      />
+    );
+  } catch (error: any) {
+    console.error('[PollsPage] Fatal error:', error);
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="bg-destructive/10 text-destructive p-4 rounded-lg">
+          <h2 className="font-semibold mb-2">Error Loading Polls</h2>
+          <p className="mb-2">{error.message || 'Failed to load polls'}</p>
+        </div>
+      </div>
+    );
+  }
+}
+
+/**
+ * Main Polls Page
+ * Syndics open residence votes, residents vote and follow participation
+ */
+export default function PollsPage() {
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      <div className="flex items-center gap-3 mb-6">
+        <Vote className="h-8 w-8 text-primary" />
+        <h1 className="text-3xl font-bold">Polls</h1>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="bg-[var(--background)] rounded-lg p-4 shadow animate-pulse">
+                <div className="h-6 bg-muted rounded w-1/4 mb-2"></div>
+                <div className="h-4 bg-muted rounded w-3/4"></div>
+              </div>
+            ))}
+          </div>
+        }
+      >
+        <PollsData />
+      </Suspense>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { auth } from '@/lib/auth';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { authorize } from '@/lib/permissions';
 
 /**
  * Residents Server Actions
@@ -28,31 +29,6 @@ interface UpdateResidentData {
   role?: 'syndic' | 'resident' | 'guard';
 }
 
-/**
- * Helper to get the current user's managed residence ID
- */
-async function getManagedResidenceId(userId: string, supabase: any) {
-  // Check if syndic
-  const { data: syndicResidence } = await supabase
-    .from('residences')
-    .select('id')
-    .eq('syndic_user_id', userId)
-    .maybeSingle();
-  
-  if (syndicResidence) return syndicResidence.id;
-
-  // Check if guard
-  const { data: guardResidence } = await supabase
-    .from('residences')
-    .select('id')
-    .eq('guard_user_id', userId)
-    .maybeSingle();
-
-  if (guardResidence) return guardResidence.id;
-
-  return null;
-}
-
 /**
  * Create a new resident
  */
@@ -94,7 +70,8 @@ export async function createResident(data: CreateResidentData) {
     const adminSupabase = createSupabaseAdminClient();
 
     // Verify permissions: Current user must be the manager (syndic) of the target residence
-    const managedResidenceId = await getManagedResidenceId(userId, adminSupabase);
+    const access = await authorize(adminSupabase, userId, 'residents.manage');
+    const managedResidenceId = access.ok ? access.actor.residenceId : null;
     
     if (!managedResidenceId || managedResidenceId !== data.residence_id) {
         return {
@@ -587,7 +564,8 @@ export async function updateResident(data: UpdateResidentData) {
     const adminSupabase = createSupabaseAdminClient();
 
     // Verify permissions
-    const managedResidenceId = await getManagedResidenceId(userId, adminSupabase);
+    const access = await authorize(adminSupabase, userId, 'residents.manage');
+    const managedResidenceId = access.ok ? access.actor.residenceId : null;
     if (!managedResidenceId) {
         return { success: false, error: 'You do not manage any residence.' };
     }
@@ -754,7 +732,8 @@ export async function deleteResident(residentId: string) {
     if (!userId) throw new Error('User not authenticated');
 
     const adminSupabase = createSupabaseAdminClient();
-    const managedResidenceId = await getManagedResidenceId(userId, adminSupabase);
+    const access = await authorize(adminSupabase, userId, 'residents.manage');
+    const managedResidenceId = access.ok ? access.actor.residenceId : null;
 
     if (!managedResidenceId) {
         return { success: false, error: 'Unauthorized' };
@@ -825,6 +804,7 @@ export async function deleteResident(residentId: string) {
                 .from('residences')
                 .select('id')
                 .eq('syndic_user_id', residentId)
+                .limit(1)
                 .maybeSingle();
 
             if (otherManagedResidence) {
@@ -969,7 +949,8 @@ export async function bulkDeleteResidents(residentIds: string[]) {
     }
 
     const adminSupabase = createSupabaseAdminClient();
-    const managedResidenceId = await getManagedResidenceId(userId, adminSupabase);
+    const access = await authorize(adminSupabase, userId, 'residents.manage');
+    const managedResidenceId = access.ok ? access.actor.residenceId : null;
 
     if (!managedResidenceId) {
       return { success: false, error: 'Unauthorized' };
@@ -1182,7 +1163,8 @@ export async function bulkCreateResidents(residents: CreateResidentData[]) {
     }
 
     const adminSupabase = createSupabaseAdminClient();
-    const managedResidenceId = await getManagedResidenceId(userId, adminSupabase);
+    const access = await authorize(adminSupabase, userId, 'residents.manage');
+    const managedResidenceId = access.ok ? access.actor.residenceId : null;
 
     if (!managedResidenceId) {
       return {
@@ -1252,7 +1234,8 @@ export async function getResidences() {
     if (!userId) throw new Error('User not authenticated');
 
     const adminSupabase = createSupabaseAdminClient();
-    const managedResidenceId = await getManagedResidenceId(userId, adminSupabase);
+    const access = await authorize(adminSupabase, userId, 'residents.manage');
+    const managedResidenceId = access.ok ? access.actor.residenceId : null;
 
     if (!managedResidenceId) {
         return { success: true, residences: [] };
@@ -0,0 +1,216 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import {
+  DEFAULT_DUNNING_STEPS,
+  DunningStepInput,
+  getFeeTimeline as buildFeeTimeline,
+  listDunningActivity,
+  listDunningSteps,
+  runDunning,
+  saveDunningSteps,
+  validateDunningSteps,
+} from '@/lib/dunning-utils';
+import { markOverdueFees } from '@/lib/fee-schedule-utils';
+import { authorize, can, ownsRecord } from '@/lib/permissions';
+
+/**
+ * Dunning Server Actions
+ * Escalating reminders for unpaid fees of the syndic's residence, and fee timelines
+ */
+
+/**
+ * Get the dunning policy, the suggested default steps and the latest reminders sent
+ */
+export async function getDunningPolicy() {
+  console.log('[Dunning Actions] Getting dunning policy');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
+      throw new Error(access.error);
+    }
+    const { residenceId } = access.actor;
+
+    const [steps, activity] = await Promise.all([
+      listDunningSteps(supabase, residenceId),
+      listDunningActivity(supabase, residenceId),
+    ]);
+
+    return {
+      success: true,
+      steps,
+      suggested: DEFAULT_DUNNING_STEPS,
+      activity,
+    };
+  } catch (error: any) {
+    console.error('[Dunning Actions] Error getting dunning policy:', error);
+    return {
+      success: false,
+      steps: [],
+      suggested: DEFAULT_DUNNING_STEPS,
+      activity: [],
+      error: error.message || 'Failed to get dunning policy',
+    };
+  }
+}
+
+/**
+ * Replace the residence's dunning policy
+ */
+export async function saveDunningPolicy(steps: DunningStepInput[]) {
+  console.log('[Dunning Actions] Saving dunning policy:', steps.length, 'steps');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const validationError = validateDunningSteps(steps);
+    if (validationError) {
+      return {
+        success: false,
+        error: validationError,
+      };
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const saved = await saveDunningSteps(supabase, access.actor.residenceId, steps, userId);
+
+    revalidatePath('/app/residents');
+
+    return {
+      success: true,
+      steps: saved,
+    };
+  } catch (error: any) {
+    console.error('[Dunning Actions] Error saving dunning policy:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save dunning policy',
+    };
+  }
+}
+
+/**
+ * Apply the policy now instead of waiting for the daily run
+ */
+export async function runDunningNow() {
+  console.log('[Dunning Actions] Running dunning');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const { residenceId } = access.actor;
+
+    await markOverdueFees(supabase, residenceId);
+    const result = await runDunning(supabase, residenceId);
+
+    revalidatePath('/app/residents');
+
+    return {
+      success: true,
+      result,
+    };
+  } catch (error: any) {
+    console.error('[Dunning Actions] Error running dunning:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to run dunning',
+    };
+  }
+}
+
+/**
+ * Timeline of a fee: issue, overdue marking, reminders, late fees and payments
+ * Residents only see the timeline of their own fees
+ */
+export async function getFeeTimeline(feeId: number) {
+  console.log('[Dunning Actions] Getting fee timeline:', feeId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, userId);
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+
+    const { data: fee } = await supabase
+      .from('fees')
+      .select('*')
+      .eq('id', feeId)
+      .maybeSingle();
+
+    const canView = !!fee && ownsRecord(access.actor, fee) &&
+      (can(access.actor.role, 'fees.view_all') || fee.user_id === userId);
+
+    if (!canView) {
+      return {
+        success: false,
+        error: 'Fee not found',
+      };
+    }
+
+    const timeline = await buildFeeTimeline(supabase, fee);
+
+    return {
+      success: true,
+      fee,
+      timeline,
+    };
+  } catch (error: any) {
+    console.error('[Dunning Actions] Error getting fee timeline:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to get fee timeline',
+    };
+  }
+}
@@ -1,9 +1,12 @@
 'use server';
 
 import { auth } from '@/lib/auth';
-import { getSupabaseClient } from '@/lib/supabase/server';
+import { getSupabaseClient, createSupabaseAdminClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { getUserResidenceId } from '@/lib/residence-utils';
+import { authorize } from '@/lib/permissions';
+import { notifyUsers } from '@/lib/notification-utils';
+import { applyResidentCredit, getFeeStatus, resolveFeeStatusChange } from '@/lib/allocation-utils';
+import { resolveFeeApartment } from '@/lib/statement-utils';
 
 /**
  * Fee Server Actions
@@ -13,10 +16,11 @@ import { getUserResidenceId } from '@/lib/residence-utils';
 interface CreateFeeData {
   user_id: string;
   residence_id: number;
+  apartment_number?: string; // defaults to the resident's only apartment
   title: string;
   amount: number;
   due_date: string; // ISO date string
-  status?: 'unpaid' | 'paid' | 'overdue';
+  status?: 'unpaid' | 'partially_paid' | 'paid' | 'overdue';
 }
 
 interface UpdateFeeData {
@@ -24,7 +28,7 @@ interface UpdateFeeData {
   title?: string;
   amount?: number;
   due_date?: string;
-  status?: 'unpaid' | 'paid' | 'overdue';
+  status?: 'unpaid' | 'partially_paid' | 'paid' | 'overdue';
 }
 
 /**
@@ -68,15 +72,15 @@ export async function createFee(data: CreateFeeData) {
 
     const supabase = await getSupabaseClient();
 
-    // Get user's residence_id to verify ownership
-    const residenceId = await getUserResidenceId(supabase, userId);
-
-    if (!residenceId) {
+    // Only syndics manage fees, and only in their own residence
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
       return {
         success: false,
-        error: 'User has no residence assigned',
+        error: access.error,
       };
     }
+    const { residenceId } = access.actor;
 
     // Verify the residence_id matches user's residence
     if (data.residence_id !== residenceId) {
@@ -87,15 +91,19 @@ export async function createFee(data: CreateFeeData) {
     }
 
     // Create fee
-    const { data: fee, error: feeError } = await supabase
+    const status = data.status || 'unpaid';
+    const apartmentNumber = await resolveFeeApartment(supabase, residenceId, data.user_id, data.apartment_number);
+    const { data: createdFee, error: feeError } = await supabase
       .from('fees')
       .insert({
         user_id: data.user_id,
         residence_id: data.residence_id,
+        apartment_number: apartmentNumber,
         title: data.title.trim(),
         amount: Number(data.amount),
+        amount_paid: status === 'paid' ? Number(data.amount) : 0,
         due_date: data.due_date,
-        status: data.status || 'unpaid',
+        status,
       })
       .select()
       .single();
@@ -108,7 +116,29 @@ export async function createFee(data: CreateFeeData) {
       };
     }
 
-    console.log('[Fee Actions] Fee created successfully:', fee.id);
+    console.log('[Fee Actions] Fee created successfully:', createdFee.id);
+
+    // Settle the new fee with the resident's credit from earlier overpayments
+    const adminClient = createSupabaseAdminClient();
+    let fee = createdFee;
+    const creditApplied = await applyResidentCredit(adminClient, fee.residence_id, fee.user_id, userId);
+    if (creditApplied > 0) {
+      const { data: refreshedFee } = await adminClient.from('fees').select('*').eq('id', fee.id).single();
+      if (refreshedFee) fee = refreshedFee;
+    }
+
+    // Notify the resident (admin client: the notification belongs to another user)
+    await notifyUsers(adminClient, {
+      userIds: [fee.user_id],
+      category: 'fees',
+      title: 'New Fee',
+      message: `${fee.title}: ${Number(fee.amount).toFixed(2)} MAD due on ${new Date(fee.due_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+      residenceId: fee.residence_id,
+      actionData: {
+        fee_id: fee.id,
+        type: 'fee',
+      },
+    });
 
     // Revalidate residents page
     revalidatePath('/app/residents');
@@ -149,20 +179,20 @@ export async function updateFee(data: UpdateFeeData) {
 
     const supabase = await getSupabaseClient();
 
-    // Get user's residence_id to verify ownership
-    const residenceId = await getUserResidenceId(supabase, userId);
-
-    if (!residenceId) {
+    // Only syndics manage fees, and only in their own residence
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
       return {
         success: false,
-        error: 'User has no residence assigned',
+        error: access.error,
       };
     }
+    const { residenceId } = access.actor;
 
     // Verify fee belongs to user's residence
     const { data: existingFee, error: fetchError } = await supabase
       .from('fees')
-      .select('residence_id')
+      .select('id, residence_id, amount, amount_paid, due_date')
       .eq('id', data.id)
       .single();
 
@@ -202,7 +232,30 @@ export async function updateFee(data: UpdateFeeData) {
       }
       updateData.due_date = data.due_date;
     }
-    if (data.status) updateData.status = data.status;
+
+    // Keep the balance consistent with what was already paid
+    let amountPaid = Number(existingFee.amount_paid || 0);
+    if (data.status) {
+      // A status change re-reads what the allocated payments cover
+      const resolved = await resolveFeeStatusChange(supabase, { ...existingFee, ...updateData }, data.status);
+      if ('error' in resolved) {
+        return {
+          success: false,
+          error: resolved.error,
+        };
+      }
+      amountPaid = resolved.amount_paid;
+      updateData.amount_paid = resolved.amount_paid;
+      updateData.status = resolved.status;
+    } else if (updateData.amount !== undefined) {
+      updateData.status = getFeeStatus({ ...existingFee, ...updateData }, amountPaid);
+    }
+    if (updateData.amount !== undefined && updateData.amount < amountPaid) {
+      return {
+        success: false,
+        error: `Amount cannot be lower than the ${amountPaid.toFixed(2)} MAD already paid`,
+      };
+    }
 
     // Update fee
     const { data: fee, error: feeError } = await supabase
@@ -262,15 +315,15 @@ export async function deleteFee(feeId: number) {
 
     const supabase = await getSupabaseClient();
 
-    // Get user's residence_id to verify ownership
-    const residenceId = await getUserResidenceId(supabase, userId);
-
-    if (!residenceId) {
+    // Only syndics manage fees, and only in their own residence
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
       return {
         success: false,
-        error: 'User has no residence assigned',
+        error: access.error,
       };
     }
+    const { residenceId } = access.actor;
 
     // Verify fee belongs to user's residence
     const { data: existingFee, error: fetchError } = await supabase
@@ -0,0 +1,341 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import {
+  FeeAmountType,
+  FeeFrequency,
+  generateScheduledFees,
+  getBillableApartments,
+  getUpcomingCharges,
+  listFeeSchedules,
+  validateFeeSchedule,
+} from '@/lib/fee-schedule-utils';
+import { authorize } from '@/lib/permissions';
+
+/**
+ * Fee Schedule Server Actions
+ * Recurring charges billed to every apartment of the syndic's residence
+ */
+
+interface CreateFeeScheduleData {
+  title: string;
+  amount: number;
+  amount_type: FeeAmountType;
+  frequency: FeeFrequency;
+  start_date: string;
+  end_date?: string | null;
+  due_days?: number;
+}
+
+/**
+ * Get schedules, upcoming charges and apartment shares
+ * Also catches up on periods that elapsed since the last visit
+ */
+export async function getFeeSchedules() {
+  console.log('[Fee Schedule Actions] Getting fee schedules');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
+      throw new Error(access.error);
+    }
+    const { residenceId } = access.actor;
+
+    const generated = await generateScheduledFees(supabase, residenceId);
+
+    const [schedules, upcoming, apartments] = await Promise.all([
+      listFeeSchedules(supabase, residenceId),
+      getUpcomingCharges(supabase, residenceId, { periods: 3 }),
+      getBillableApartments(supabase, residenceId),
+    ]);
+
+    return {
+      success: true,
+      schedules,
+      upcoming,
+      apartments,
+      generated: generated.created,
+    };
+  } catch (error: any) {
+    console.error('[Fee Schedule Actions] Error getting fee schedules:', error);
+    return {
+      success: false,
+      schedules: [],
+      upcoming: [],
+      apartments: [],
+      generated: 0,
+      error: error.message || 'Failed to get fee schedules',
+    };
+  }
+}
+
+/**
+ * Create a fee schedule and bill the periods that already started
+ */
+export async function createFeeSchedule(data: CreateFeeScheduleData) {
+  console.log('[Fee Schedule Actions] Creating fee schedule:', data);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const validationError = validateFeeSchedule({
+      title: data.title,
+      amount: data.amount,
+      amountType: data.amount_type,
+      frequency: data.frequency,
+      startDate: data.start_date,
+      endDate: data.end_date,
+      dueDays: data.due_days,
+    });
+
+    if (validationError) {
+      return {
+        success: false,
+        error: validationError,
+      };
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const { residenceId } = access.actor;
+
+    const { data: schedule, error } = await supabase
+      .from('fee_schedules')
+      .insert({
+        residence_id: residenceId,
+        title: data.title.trim(),
+        amount: Number(data.amount),
+        amount_type: data.amount_type,
+        frequency: data.frequency,
+        start_date: data.start_date,
+        end_date: data.end_date || null,
+        due_days: Number(data.due_days ?? 0),
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Fee Schedule Actions] Error creating fee schedule:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to create fee schedule',
+      };
+    }
+
+    const generated = await generateScheduledFees(supabase, residenceId);
+
+    console.log('[Fee Schedule Actions] Fee schedule created:', schedule.id, 'fees generated:', generated.created);
+
+    revalidatePath('/app/residents');
+
+    return {
+      success: true,
+      schedule,
+      generated: generated.created,
+    };
+  } catch (error: any) {
+    console.error('[Fee Schedule Actions] Error creating fee schedule:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to create fee schedule',
+    };
+  }
+}
+
+/**
+ * Pause or resume a fee schedule
+ */
+export async function setFeeScheduleActive(scheduleId: number, active: boolean) {
+  console.log('[Fee Schedule Actions] Setting fee schedule active:', scheduleId, active);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const { residenceId } = access.actor;
+
+    const { data: schedule, error } = await supabase
+      .from('fee_schedules')
+      .update({ active, updated_at: new Date().toISOString() })
+      .eq('id', scheduleId)
+      .eq('residence_id', residenceId)
+      .select()
+      .maybeSingle();
+
+    if (error || !schedule) {
+      console.error('[Fee Schedule Actions] Error updating fee schedule:', error);
+      return {
+        success: false,
+        error: error?.message || 'Fee schedule not found',
+      };
+    }
+
+    if (active) {
+      await generateScheduledFees(supabase, residenceId);
+    }
+
+    revalidatePath('/app/residents');
+
+    return {
+      success: true,
+      schedule,
+    };
+  } catch (error: any) {
+    console.error('[Fee Schedule Actions] Error updating fee schedule:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to update fee schedule',
+    };
+  }
+}
+
+/**
+ * Delete a fee schedule; fees it already generated are kept
+ */
+export async function deleteFeeSchedule(scheduleId: number) {
+  console.log('[Fee Schedule Actions] Deleting fee schedule:', scheduleId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const { residenceId } = access.actor;
+
+    const { error } = await supabase
+      .from('fee_schedules')
+      .delete()
+      .eq('id', scheduleId)
+      .eq('residence_id', residenceId);
+
+    if (error) {
+      console.error('[Fee Schedule Actions] Error deleting fee schedule:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to delete fee schedule',
+      };
+    }
+
+    revalidatePath('/app/residents');
+
+    return {
+      success: true,
+    };
+  } catch (error: any) {
+    console.error('[Fee Schedule Actions] Error deleting fee schedule:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to delete fee schedule',
+    };
+  }
+}
+
+/**
+ * Set the share of each apartment (used by share-based schedules)
+ */
+export async function updateApartmentShares(shares: { apartment_number: string; share: number | null }[]) {
+  console.log('[Fee Schedule Actions] Updating apartment shares:', shares.length);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const invalid = shares.find((s) => s.share !== null && (!Number.isFinite(Number(s.share)) || Number(s.share) <= 0));
+    if (invalid) {
+      return {
+        success: false,
+        error: `Share of apartment ${invalid.apartment_number} must be greater than 0`,
+      };
+    }
+
+    const supabase = createSupabaseAdminClient();
+
+    const access = await authorize(supabase, userId, 'fees.manage');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const { residenceId } = access.actor;
+
+    for (const item of shares) {
+      const { error } = await supabase
+        .from('profile_residences')
+        .update({ share: item.share === null ? null : Number(item.share) })
+        .eq('residence_id', residenceId)
+        .eq('apartment_number', item.apartment_number);
+
+      if (error) {
+        console.error('[Fee Schedule Actions] Error updating share:', item.apartment_number, error);
+        return {
+          success: false,
+          error: error.message || 'Failed to update apartment shares',
+        };
+      }
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error: any) {
+    console.error('[Fee Schedule Actions] Error updating apartment shares:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to update apartment shares',
+    };
+  }
+}
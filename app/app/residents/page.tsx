@@ -3,6 +3,9 @@ import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import ResidentsContent from '@/components/app/residents/ResidentsContent';
 import { Users } from 'lucide-react';
 import { auth } from '@/lib/auth';
+import { getUserResidenceId } from '@/lib/residence-utils';
+import { generateScheduledFees } from '@/lib/fee-schedule-utils';
+import { OUTSTANDING_FEE_STATUSES, getFeeBalance } from '@/lib/allocation-utils';
 
 export const dynamic = 'force-dynamic';
 
@@ -42,20 +45,8 @@ async function ResidentsData() {
     }
 
     const userRole = userProfile.role;
-    let residenceId = null;
-
-    // Resolve Residence ID based on role
-    if (userRole === 'syndic') {
-        const { data: res } = await supabase.from('residences').select('id').eq('syndic_user_id', userId).maybeSingle();
-        residenceId = res?.id;
-    } else if (userRole === 'guard') {
-        const { data: res } = await supabase.from('residences').select('id').eq('guard_user_id', userId).maybeSingle();
-        residenceId = res?.id;
-    } else {
-        // Resident - fetch from profile_residences
-        const { data: pr } = await supabase.from('profile_residences').select('residence_id').eq('profile_id', userId).limit(1).maybeSingle();
-        residenceId = pr?.residence_id;
-    }
+    // Residence selected in the residence switcher (or the user's only one)
+    const residenceId = await getUserResidenceId(supabase, userId, userRole);
 
     // All users (including syndics) must have a residence_id to view residents
     if (!residenceId) {
@@ -150,6 +141,9 @@ async function ResidentsData() {
         .eq('id', residenceId)
         .single();
 
+    // Bill elapsed periods of recurring schedules before listing fees
+    await generateScheduledFees(supabase, residenceId);
+
     // Fetch fees
     const { data: fees, error: feesError } = await supabase
       .from('fees')
@@ -180,8 +174,8 @@ async function ResidentsData() {
       const userEmail = users?.find(u => u.id === profile.id)?.email || null;
       const residentFees = fees?.filter(f => f.user_id === profile.id) || [];
       const outstandingFees = residentFees
-        .filter(f => f.status === 'unpaid' || f.status === 'overdue')
-        .reduce((sum, f) => sum + Number(f.amount), 0);
+        .filter(f => OUTSTANDING_FEE_STATUSES.includes(f.status))
+        .reduce((sum, f) => sum + getFeeBalance(f), 0);
 
       return {
         id: profile.id,
@@ -196,7 +190,7 @@ async function ResidentsData() {
         fees: residentFees,
         outstandingFees,
         feeCount: residentFees.length,
-        unpaidFeeCount: residentFees.filter(f => f.status === 'unpaid' || f.status === 'overdue').length,
+        unpaidFeeCount: residentFees.filter(f => OUTSTANDING_FEE_STATUSES.includes(f.status)).length,
         residences: residence ? {
           id: residence.id,
           name: residence.name,
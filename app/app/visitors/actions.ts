@@ -0,0 +1,193 @@
+'use server';
+
+import { auth } from '@/lib/auth';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { authorize } from '@/lib/permissions';
+import {
+  createVisitorPass,
+  revokeVisitorPass,
+  verifyVisitorPass,
+} from '@/lib/visitor-pass-utils';
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Visitors Server Actions
+ * Handles visitor pass creation, revocation and gate verification
+ */
+
+interface CreatePassData {
+  visitor_name: string;
+  valid_from?: string | null;
+  valid_to: string;
+  is_single_use?: boolean;
+}
+
+/**
+ * Create a time-bound visitor pass (residents and syndics)
+ */
+export async function createPass(data: CreatePassData) {
+  console.log('[Visitors Actions] Creating pass for:', data.visitor_name);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'visitor_passes.create');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const context = access.actor;
+
+    const result = await createVisitorPass(adminSupabase, {
+      residenceId: context.residenceId,
+      generatedBy: userId,
+      visitorName: data.visitor_name,
+      validFrom: data.valid_from,
+      validTo: data.valid_to,
+      isSingleUse: data.is_single_use,
+    });
+
+    if (!result.success) {
+      console.error('[Visitors Actions] Error creating pass:', result.error);
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    console.log('[Visitors Actions] Pass created successfully:', result.data?.id);
+    revalidatePath('/app/visitors');
+
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error: any) {
+    console.error('[Visitors Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Revoke a visitor pass (its creator or the syndic)
+ */
+export async function revokePass(passId: number) {
+  console.log('[Visitors Actions] Revoking pass:', passId);
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'residence.view');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const context = access.actor;
+
+    const result = await revokeVisitorPass(adminSupabase, {
+      passId,
+      residenceId: context.residenceId,
+      userId,
+      role: context.role,
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    revalidatePath('/app/visitors');
+
+    return result;
+  } catch (error: any) {
+    console.error('[Visitors Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Verify a scanned QR code at the gate (guards and syndics)
+ */
+export async function verifyPass(qrCodeData: string) {
+  console.log('[Visitors Actions] Verifying pass');
+
+  try {
+    const session = await auth();
+    const userId = session?.user?.id;
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    if (!qrCodeData?.trim()) {
+      return {
+        success: false,
+        error: 'QR code data is required',
+      };
+    }
+
+    const adminSupabase = createSupabaseAdminClient();
+
+    const access = await authorize(adminSupabase, userId, 'visitor_passes.verify');
+    if (!access.ok) {
+      return {
+        success: false,
+        error: access.error,
+      };
+    }
+    const context = access.actor;
+
+    const verification = await verifyVisitorPass(adminSupabase, {
+      qrCodeData,
+      residenceId: context.residenceId,
+      scannedBy: userId,
+    });
+
+    if (verification.valid) {
+      revalidatePath('/app/visitors');
+    }
+
+    return {
+      success: true,
+      data: verification,
+    };
+  } catch (error: any) {
+    console.error('[Visitors Actions] Unexpected error:', error);
+    return {
+      success: false,
+      error: error.message || 'An unexpected error occurred',
+    };
+  }
+}
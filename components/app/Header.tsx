@@ -1,7 +1,7 @@
 "use client";
 
 // import { usePathname } from "next/navigation";
-import { Menu, X, Building2, Search, Bell, Settings, Plus, PanelLeftClose, PanelLeftOpen } from "lucide-react";
+import { Menu, X, Building2, Search, Settings, Plus, PanelLeftClose, PanelLeftOpen } from "lucide-react";
 import UserMenu from "@/components/user/UserMenu";
 import Link from "next/link";
 import { useState } from "react";
@@ -10,8 +10,10 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { motion, AnimatePresence } from "framer-motion";
 import { LanguageSwitcher } from "@/components/i18n/LanguageSwitcher";
+import { ResidenceSwitcher } from "./ResidenceSwitcher";
 import { useI18n } from "@/lib/i18n/client";
 import { useSidebar } from "./SidebarProvider";
+import { NotificationBell } from "./notifications/NotificationBell";
 
 export function Header() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -94,10 +96,7 @@ export function Header() {
 
             {/* Icons */}
             <div className="flex items-center gap-1">
-              <button className="p-2.5 rounded-xl hover:bg-gray-100 text-gray-500 hover:text-gray-700 transition-all relative group">
-                <Bell className="h-5 w-5 group-hover:scale-110 transition-transform" />
-                <span className="absolute top-2.5 right-2.5 w-2 h-2 bg-red-500 rounded-full ring-2 ring-white"></span>
-              </button>
+              <NotificationBell />
               <Link href="/app/profile">
                 <button className="p-2.5 rounded-xl hover:bg-gray-100 text-gray-500 hover:text-gray-700 transition-all group">
                   <Settings className="h-5 w-5 group-hover:rotate-90 transition-transform duration-500" />
@@ -105,6 +104,9 @@ export function Header() {
               </Link>
             </div>
 
+            {/* Residence Switcher (users with several residences) */}
+            <ResidenceSwitcher />
+
             {/* Language Switcher */}
             <LanguageSwitcher />
 
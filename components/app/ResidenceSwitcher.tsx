@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Building, Check, ChevronsUpDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useI18n } from '@/lib/i18n/client';
+import toast from 'react-hot-toast';
+
+/**
+ * Residence Switcher Component
+ * Lets users who belong to several residences pick the one the app works on.
+ * The choice is stored on the session; pages and actions then scope to it.
+ */
+export function ResidenceSwitcher() {
+  const { data: session, update } = useSession();
+  const router = useRouter();
+  const { t } = useI18n();
+  const [switching, setSwitching] = useState(false);
+
+  const residences = session?.user?.residences || [];
+  const activeResidenceId = session?.user?.residenceId ?? null;
+  const activeResidence = residences.find((r) => r.id === activeResidenceId) || residences[0];
+
+  if (residences.length < 2 || !activeResidence) {
+    return null;
+  }
+
+  const handleSwitch = async (residenceId: number) => {
+    if (residenceId === activeResidence.id) return;
+
+    setSwitching(true);
+    try {
+      const updated = await update({ residenceId });
+
+      if (updated?.user?.residenceId !== residenceId) {
+        toast.error('Failed to switch residence');
+        return;
+      }
+
+      toast.success(t('header.residenceSwitched'));
+      router.refresh();
+    } catch (error: any) {
+      console.error('[ResidenceSwitcher] Error switching residence:', error);
+      toast.error(error.message || 'Failed to switch residence');
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 max-w-[220px]" disabled={switching}>
+          {switching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Building className="h-4 w-4" />}
+          <span className="hidden sm:inline truncate">{activeResidence.name}</span>
+          <ChevronsUpDown className="h-3.5 w-3.5 text-gray-400" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>{t('header.switchResidence')}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {residences.map((residence) => (
+          <DropdownMenuItem
+            key={residence.id}
+            onClick={() => handleSwitch(residence.id)}
+            className={residence.id === activeResidence.id ? 'bg-accent' : ''}
+          >
+            <span className="flex-1 truncate">{residence.name}</span>
+            {residence.id === activeResidence.id && <Check className="ml-2 h-4 w-4" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -10,7 +10,13 @@ import {
   Settings,
   MessageSquare,
   ChevronRight,
-  Receipt
+  Receipt,
+  Megaphone,
+  Vote,
+  Package,
+  QrCode,
+  Calendar,
+  BarChart3
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { useState, useEffect } from "react";
@@ -54,17 +60,17 @@ export function Sidebar() {
         { href: "/app/expenses", label: t('sidebar.expenses'), icon: Receipt },
         { href: "/app/incidents", label: t('sidebar.incidents'), icon: AlertCircle },
         { href: "/app/complaints", label: t('sidebar.complaints'), icon: MessageSquare },
-        // TODO: Task 4 - Announcements page
-        // { href: "/app/announcements", label: "Announcements", icon: Megaphone },
-        // TODO: Calendar page - not yet implemented
-        // { href: "/app/calendar", label: "Calendar", icon: Calendar },
+        { href: "/app/announcements", label: t('sidebar.announcements'), icon: Megaphone },
+        { href: "/app/polls", label: t('sidebar.polls'), icon: Vote },
+        { href: "/app/deliveries", label: t('sidebar.deliveries'), icon: Package },
+        { href: "/app/visitors", label: t('sidebar.visitors'), icon: QrCode },
+        { href: "/app/calendar", label: t('sidebar.calendar'), icon: Calendar },
       ]
     },
     {
       category: t('sidebar.system'),
       items: [
-        // TODO: Analytics page - not yet implemented
-        // { href: "/app/analytics", label: "Analytics", icon: BarChart3 },
+        { href: "/app/analytics", label: t('sidebar.analytics'), icon: BarChart3 },
         // Settings redirects to profile for now
         { href: "/app/profile", label: t('sidebar.settings'), icon: Settings },
       ]
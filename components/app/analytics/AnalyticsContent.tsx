@@ -0,0 +1,361 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, FileText, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import toast from 'react-hot-toast';
+import { motion } from 'framer-motion';
+import type { AnalyticsSection, ResidenceAnalytics } from '@/lib/analytics-utils';
+import { exportAnalyticsCsv, getAnalytics } from '@/app/app/analytics/actions';
+import { downloadCSV } from '@/lib/csv';
+import AssemblyPackDialog from './AssemblyPackDialog';
+
+interface AnalyticsContentProps {
+  initialAnalytics: ResidenceAnalytics;
+  residenceName?: string;
+}
+
+interface BarRow {
+  label: string;
+  value: number;
+  display: string;
+  className?: string;
+}
+
+const COMPLAINT_REASON_LABELS: Record<string, string> = {
+  noise: 'Noise',
+  trash: 'Trash',
+  behavior: 'Behavior',
+  parking: 'Parking',
+  pets: 'Pets',
+  property_damage: 'Property Damage',
+  other: 'Other',
+};
+
+const ARREARS_COLORS = ['bg-yellow-400', 'bg-orange-400', 'bg-orange-600', 'bg-red-600'];
+
+const formatMAD = (amount: number) =>
+  `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} MAD`;
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—';
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} days`;
+};
+
+/**
+ * YYYY-MM-DD in the user's time zone
+ */
+function toDateInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+/**
+ * Horizontal bars, one per row, scaled to the largest value
+ */
+function HorizontalBars({ rows, empty }: { rows: BarRow[]; empty: string }) {
+  const max = Math.max(0, ...rows.map((r) => r.value));
+
+  if (rows.length === 0 || max === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">{empty}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row) => (
+        <div key={row.label} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium truncate">{row.label}</span>
+            <span className="text-muted-foreground shrink-0 ml-2">{row.display}</span>
+          </div>
+          <div className="h-2.5 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${row.className || 'bg-blue-500'}`}
+              style={{ width: `${(row.value / max) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Analytics Content Component
+ * Date range selector and one card per chart, each with its CSV export
+ */
+export default function AnalyticsContent({ initialAnalytics, residenceName }: AnalyticsContentProps) {
+  const [analytics, setAnalytics] = useState<ResidenceAnalytics>(initialAnalytics);
+  const [from, setFrom] = useState(initialAnalytics.range.from);
+  const [to, setTo] = useState(initialAnalytics.range.to);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState<AnalyticsSection | null>(null);
+  const [showAssemblyDialog, setShowAssemblyDialog] = useState(false);
+
+  const loadAnalytics = async (rangeFrom: string, rangeTo: string) => {
+    setLoading(true);
+    try {
+      const result = await getAnalytics(rangeFrom, rangeTo);
+      if (result.success && result.data) {
+        setAnalytics(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load analytics');
+      }
+    } catch (error: any) {
+      console.error('[AnalyticsContent] Error loading analytics:', error);
+      toast.error(error.message || 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyPreset = (months: number | 'year') => {
+    const today = new Date();
+    const start = months === 'year'
+      ? new Date(today.getFullYear(), 0, 1)
+      : new Date(today.getFullYear(), today.getMonth() - (months - 1), 1);
+    const rangeFrom = toDateInput(start);
+    const rangeTo = toDateInput(today);
+    setFrom(rangeFrom);
+    setTo(rangeTo);
+    loadAnalytics(rangeFrom, rangeTo);
+  };
+
+  const handleExport = async (section: AnalyticsSection) => {
+    setExporting(section);
+    try {
+      // Export the range the charts show, not unapplied edits to the date inputs
+      const result = await exportAnalyticsCsv(section, analytics.range.from, analytics.range.to);
+      if (result.success && result.data) {
+        downloadCSV(result.data.csv, result.data.filename);
+        toast.success('Data exported');
+      } else {
+        toast.error(result.error || 'Failed to export data');
+      }
+    } catch (error: any) {
+      console.error('[AnalyticsContent] Error exporting data:', error);
+      toast.error(error.message || 'Failed to export data');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const exportButton = (section: AnalyticsSection) => (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => handleExport(section)}
+      disabled={exporting === section}
+      className="gap-1 shrink-0"
+      aria-label={`Export ${section} as CSV`}
+    >
+      {exporting === section ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+      CSV
+    </Button>
+  );
+
+  const { collection, expenses, arrears, incidents, complaints } = analytics;
+  const maxMonthAmount = Math.max(0, ...collection.months.map((m) => Math.max(m.billed, m.received)));
+  const maxReported = Math.max(0, ...incidents.months.map((m) => m.reported));
+
+  return (
+    <div className="space-y-6 pb-20 px-1">
+      {/* Date Range */}
+      <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-end justify-between bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="grid gap-1">
+            <Label htmlFor="analytics-from" className="text-xs">From</Label>
+            <Input id="analytics-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="analytics-to" className="text-xs">To</Label>
+            <Input id="analytics-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-40" />
+          </div>
+          <Button onClick={() => loadAnalytics(from, to)} disabled={loading || !from || !to} className="gap-1">
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Apply
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => applyPreset(3)} disabled={loading}>Last 3 months</Button>
+          <Button variant="outline" size="sm" onClick={() => applyPreset(12)} disabled={loading}>Last 12 months</Button>
+          <Button variant="outline" size="sm" onClick={() => applyPreset('year')} disabled={loading}>This year</Button>
+          <Button size="sm" onClick={() => setShowAssemblyDialog(true)} className="gap-1">
+            <FileText className="h-4 w-4" />
+            AG Pack
+          </Button>
+        </div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className={`grid gap-6 lg:grid-cols-2 ${loading ? 'opacity-60' : ''}`}
+      >
+        {/* Collection Rate */}
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1">
+              <CardTitle>Collection Rate</CardTitle>
+              <CardDescription>
+                Fees falling due each month at {residenceName || 'your residence'} and how much of them has been paid.
+                {collection.rate !== null && ` ${collection.rate}% collected over the period.`}
+              </CardDescription>
+            </div>
+            {exportButton('collection')}
+          </CardHeader>
+          <CardContent>
+            {maxMonthAmount === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No fees or payments in this period</p>
+            ) : (
+              <>
+                <div className="flex items-end gap-2 h-48 overflow-x-auto">
+                  {collection.months.map((m) => (
+                    <div key={m.month} className="flex-1 min-w-[36px] flex flex-col items-center justify-end h-full gap-1">
+                      <span className="text-[10px] text-muted-foreground">{m.rate !== null ? `${Math.round(m.rate)}%` : ''}</span>
+                      <div
+                        className="w-full bg-gray-200 rounded-t relative flex items-end"
+                        style={{ height: `${(m.billed / maxMonthAmount) * 100}%` }}
+                        title={`${formatMonth(m.month)}: billed ${formatMAD(m.billed)}, collected ${formatMAD(m.collected)}, received ${formatMAD(m.received)}`}
+                      >
+                        <div
+                          className="w-full bg-green-500 rounded-t"
+                          style={{ height: m.billed > 0 ? `${(m.collected / m.billed) * 100}%` : 0 }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-1 overflow-x-auto">
+                  {collection.months.map((m) => (
+                    <div key={m.month} className="flex-1 min-w-[36px] text-center text-[10px] text-muted-foreground">
+                      {formatMonth(m.month)}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-4 mt-4 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded bg-gray-200" /> Billed ({formatMAD(collection.billed)})</span>
+                  <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded bg-green-500" /> Collected ({formatMAD(collection.collected)})</span>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Expense Breakdown */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1">
+              <CardTitle>Expenses by Category</CardTitle>
+              <CardDescription>{formatMAD(expenses.total)} spent over the period</CardDescription>
+            </div>
+            {exportButton('expenses')}
+          </CardHeader>
+          <CardContent>
+            <HorizontalBars
+              empty="No expenses in this period"
+              rows={expenses.categories.map((c) => ({
+                label: c.category,
+                value: c.amount,
+                display: `${formatMAD(c.amount)} · ${c.percent}%`,
+                className: 'bg-indigo-500',
+              }))}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Arrears Ageing */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1">
+              <CardTitle>Arrears Ageing</CardTitle>
+              <CardDescription>
+                {formatMAD(arrears.total)} overdue today, by days past the due date (not affected by the date range)
+              </CardDescription>
+            </div>
+            {exportButton('arrears')}
+          </CardHeader>
+          <CardContent>
+            <HorizontalBars
+              empty="No overdue fees"
+              rows={arrears.buckets.map((b, index) => ({
+                label: `${b.bucket} days`,
+                value: b.amount,
+                display: `${formatMAD(b.amount)} · ${b.count} ${b.count === 1 ? 'fee' : 'fees'}`,
+                className: ARREARS_COLORS[index],
+              }))}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Incident Resolution */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1">
+              <CardTitle>Incident Resolution</CardTitle>
+              <CardDescription>
+                {incidents.reported} reported, {incidents.resolved} resolved · average {formatHours(incidents.averageHours)}, median {formatHours(incidents.medianHours)}
+              </CardDescription>
+            </div>
+            {exportButton('incidents')}
+          </CardHeader>
+          <CardContent>
+            {maxReported === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No incidents reported in this period</p>
+            ) : (
+              <div className="flex items-end gap-2 h-40 overflow-x-auto">
+                {incidents.months.map((m) => (
+                  <div key={m.month} className="flex-1 min-w-[32px] flex flex-col items-center justify-end h-full gap-1">
+                    <span className="text-[10px] text-muted-foreground">{m.averageHours !== null ? formatHours(m.averageHours) : ''}</span>
+                    <div
+                      className="w-full bg-red-200 rounded-t flex items-end"
+                      style={{ height: `${(m.reported / maxReported) * 100}%` }}
+                      title={`${formatMonth(m.month)}: ${m.reported} reported, ${m.resolved} resolved`}
+                    >
+                      <div
+                        className="w-full bg-red-500 rounded-t"
+                        style={{ height: `${(m.resolved / m.reported) * 100 || 0}%` }}
+                      />
+                    </div>
+                    <span className="text-[10px] text-muted-foreground">{formatMonth(m.month)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Complaint Volume */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1">
+              <CardTitle>Complaints by Reason</CardTitle>
+              <CardDescription>{complaints.total} complaints filed over the period</CardDescription>
+            </div>
+            {exportButton('complaints')}
+          </CardHeader>
+          <CardContent>
+            <HorizontalBars
+              empty="No complaints in this period"
+              rows={complaints.reasons.map((r) => ({
+                label: COMPLAINT_REASON_LABELS[r.reason] || r.reason,
+                value: r.count,
+                display: `${r.count} · ${r.resolved} resolved`,
+                className: 'bg-purple-500',
+              }))}
+            />
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <AssemblyPackDialog open={showAssemblyDialog} onOpenChange={setShowAssemblyDialog} />
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { getAssemblyPack } from '@/app/app/analytics/actions';
+import { ASSEMBLY_FONT_FILES, generateAssemblyPackPDF, downloadPDF } from '@/lib/pdf/generator';
+import type { AssemblyLocale } from '@/lib/assembly-utils';
+import { useI18n } from '@/lib/i18n/client';
+import toast from 'react-hot-toast';
+
+interface AssemblyPackDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const LANGUAGES: { value: AssemblyLocale; label: string }[] = [
+  { value: 'fr', label: 'Français' },
+  { value: 'ar', label: 'العربية' },
+  { value: 'en', label: 'English' },
+];
+
+/**
+ * Fetch the Unicode fonts the Arabic bundle is drawn with
+ */
+async function fetchAssemblyFonts() {
+  const [regular, bold] = await Promise.all(
+    [ASSEMBLY_FONT_FILES.regular, ASSEMBLY_FONT_FILES.bold].map(async (file) => {
+      const response = await fetch(`/fonts/${file}`);
+      if (!response.ok) throw new Error('Failed to load the PDF fonts');
+      return new Uint8Array(await response.arrayBuffer());
+    })
+  );
+  return { regular, bold };
+}
+
+/**
+ * Assembly Pack Dialog Component
+ * Prepares the general assembly bundle (convocation, accounts of the fiscal year,
+ * arrears per apartment and proposed budget) and downloads it as one PDF
+ */
+export default function AssemblyPackDialog({ open, onOpenChange }: AssemblyPackDialogProps) {
+  const { locale: uiLocale } = useI18n();
+  const [generating, setGenerating] = useState(false);
+  const [locale, setLocale] = useState<AssemblyLocale>('fr');
+  const [fiscalYear, setFiscalYear] = useState('');
+  const [meetingDate, setMeetingDate] = useState('');
+  const [meetingTime, setMeetingTime] = useState('18:00');
+  const [location, setLocation] = useState('');
+  const [agenda, setAgenda] = useState('');
+  const [budgetIncrease, setBudgetIncrease] = useState('0');
+
+  // Default to last year's accounts, in the interface language
+  useEffect(() => {
+    if (open) {
+      setLocale(uiLocale);
+      setFiscalYear(String(new Date().getFullYear() - 1));
+    }
+  }, [open, uiLocale]);
+
+  const handleDownload = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!meetingDate || !location.trim()) {
+      toast.error('Please enter the meeting date and place');
+      return;
+    }
+
+    setGenerating(true);
+
+    try {
+      const result = await getAssemblyPack({
+        locale,
+        fiscalYear: Number(fiscalYear),
+        meetingDate,
+        meetingTime,
+        location: location.trim(),
+        agenda: agenda.split('\n').map((item) => item.trim()).filter(Boolean),
+        budgetIncreasePercent: Number(budgetIncrease) || 0,
+      });
+
+      if (!result.success || !result.data) {
+        toast.error(result.error || 'Failed to prepare the assembly pack');
+        return;
+      }
+
+      const fonts = result.data.direction === 'rtl' ? await fetchAssemblyFonts() : undefined;
+      const pdfBytes = await generateAssemblyPackPDF(result.data, fonts);
+      downloadPDF(pdfBytes, `ag-${fiscalYear}-${locale}.pdf`);
+
+      toast.success('Assembly pack downloaded successfully!');
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('[AssemblyPackDialog] Error generating assembly pack:', error);
+      toast.error(error.message || 'Failed to generate the assembly pack');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[540px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>General Assembly Pack</DialogTitle>
+          <DialogDescription>
+            One PDF with the convocation, the income and expense statement of the fiscal year, the arrears per
+            apartment and the proposed budget for the next year.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleDownload}>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="assembly-locale">Language</Label>
+                <Select value={locale} onValueChange={(value) => setLocale(value as AssemblyLocale)}>
+                  <SelectTrigger id="assembly-locale">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LANGUAGES.map((language) => (
+                      <SelectItem key={language.value} value={language.value}>
+                        {language.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="assembly-year">Fiscal year *</Label>
+                <Input
+                  id="assembly-year"
+                  type="number"
+                  min="2000"
+                  max={new Date().getFullYear()}
+                  value={fiscalYear}
+                  onChange={(e) => setFiscalYear(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="assembly-date">Meeting date *</Label>
+                <Input
+                  id="assembly-date"
+                  type="date"
+                  value={meetingDate}
+                  onChange={(e) => setMeetingDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="assembly-time">Time *</Label>
+                <Input
+                  id="assembly-time"
+                  type="time"
+                  value={meetingTime}
+                  onChange={(e) => setMeetingTime(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="assembly-location">Place *</Label>
+              <Input
+                id="assembly-location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="e.g. Residence common room"
+                maxLength={200}
+                required
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="assembly-agenda">Agenda (one item per line)</Label>
+              <Textarea
+                id="assembly-agenda"
+                value={agenda}
+                onChange={(e) => setAgenda(e.target.value)}
+                placeholder="Leave empty for the standard agenda: accounts, discharge of the syndic, arrears, budget, other business"
+                rows={4}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="assembly-budget">Budget change (%)</Label>
+              <Input
+                id="assembly-budget"
+                type="number"
+                step="0.1"
+                min="-99"
+                max="100"
+                value={budgetIncrease}
+                onChange={(e) => setBudgetIncrease(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                The proposed budget repeats each expense category of the fiscal year with this change.
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={generating} className="gap-2">
+              {generating ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+              {generating ? 'Generating...' : 'Download PDF'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Megaphone, Loader2, X, Paperclip } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Announcement } from './AnnouncementsContent';
+import {
+  createAnnouncement,
+  updateAnnouncement,
+  uploadAnnouncementAttachment,
+} from '@/app/app/announcements/actions';
+import toast from 'react-hot-toast';
+
+interface AnnouncementFormDialogProps {
+  open: boolean;
+  announcement?: Announcement | null;
+  onClose: () => void;
+  onSuccess: (announcement: Announcement) => void;
+  currentUserResidenceId?: number | null;
+  residenceName?: string;
+}
+
+/**
+ * Convert an ISO date to the value expected by a datetime-local input
+ */
+function toDateTimeLocal(iso?: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Announcement Form Dialog Component
+ * Creates a new announcement, or edits the one passed in
+ */
+export default function AnnouncementFormDialog({
+  open,
+  announcement,
+  onClose,
+  onSuccess,
+  currentUserResidenceId,
+  residenceName,
+}: AnnouncementFormDialogProps) {
+  const isEdit = !!announcement;
+
+  const [submitting, setSubmitting] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  // Form state
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [isPinned, setIsPinned] = useState(false);
+  const [publishAt, setPublishAt] = useState('');
+  const [attachmentUrl, setAttachmentUrl] = useState<string | null>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+
+  const [errors, setErrors] = useState<{ title?: string; content?: string }>({});
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setTitle(announcement?.title || '');
+      setContent(announcement?.content || '');
+      setIsPinned(announcement?.is_pinned || false);
+      setPublishAt(toDateTimeLocal(announcement?.publish_at));
+      setAttachmentUrl(announcement?.attachment_url || null);
+      setSelectedFile(null);
+      setErrors({});
+    }
+  }, [open, announcement]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const allowedTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/jpg', 'image/webp'];
+    if (!allowedTypes.includes(file.type)) {
+      toast.error('Invalid file type. Please upload a PDF or image file.');
+      return;
+    }
+
+    const maxSize = 10 * 1024 * 1024; // 10MB
+    if (file.size > maxSize) {
+      toast.error('File size too large. Maximum size is 10MB.');
+      return;
+    }
+
+    setSelectedFile(file);
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: typeof errors = {};
+    if (!title.trim()) newErrors.title = 'Title is required';
+    if (!content.trim()) newErrors.content = 'Content is required';
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    if (!currentUserResidenceId) {
+      toast.error('Residence ID is required');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      // Upload attachment first if a new file was selected
+      let finalAttachmentUrl = attachmentUrl;
+      if (selectedFile) {
+        setUploading(true);
+        const formData = new FormData();
+        formData.append('file', selectedFile);
+        const upload = await uploadAnnouncementAttachment(formData);
+        setUploading(false);
+
+        if (!upload.success || !upload.url) {
+          toast.error(upload.error || 'Failed to upload attachment');
+          return;
+        }
+        finalAttachmentUrl = upload.url;
+      }
+
+      const publishAtIso = publishAt ? new Date(publishAt).toISOString() : null;
+
+      const result = isEdit
+        ? await updateAnnouncement({
+            id: announcement!.id,
+            title: title.trim(),
+            content: content.trim(),
+            is_pinned: isPinned,
+            publish_at: publishAtIso,
+            attachment_url: finalAttachmentUrl,
+          })
+        : await createAnnouncement({
+            title: title.trim(),
+            content: content.trim(),
+            residence_id: currentUserResidenceId,
+            is_pinned: isPinned,
+            publish_at: publishAtIso,
+            attachment_url: finalAttachmentUrl,
+          });
+
+      if (result.success && result.data) {
+        onSuccess({
+          ...(announcement || {}),
+          ...(result.data as any),
+        } as Announcement);
+        onClose();
+      } else {
+        toast.error(result.error || 'Failed to save announcement');
+      }
+    } catch (error: any) {
+      console.error('[AnnouncementFormDialog] Error saving announcement:', error);
+      toast.error(error.message || 'Failed to save announcement');
+    } finally {
+      setUploading(false);
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="h-5 w-5" />
+            {isEdit ? 'Edit Announcement' : 'New Announcement'}
+          </DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? 'Update this announcement. Residents will see the changes immediately.'
+              : `Publish a notice to all residents of ${residenceName || 'your residence'}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Title */}
+          <div className="grid gap-2">
+            <Label htmlFor="announcement-title">
+              Title <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="announcement-title"
+              value={title}
+              onChange={(e) => {
+                setTitle(e.target.value);
+                if (errors.title) setErrors({ ...errors, title: undefined });
+              }}
+              placeholder="e.g. Water shut-off on Saturday morning"
+              aria-invalid={!!errors.title}
+              className={errors.title ? 'border-destructive' : ''}
+            />
+            {errors.title && (
+              <p className="text-sm text-destructive" role="alert">{errors.title}</p>
+            )}
+          </div>
+
+          {/* Content */}
+          <div className="grid gap-2">
+            <Label htmlFor="announcement-content">
+              Content <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="announcement-content"
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                if (errors.content) setErrors({ ...errors, content: undefined });
+              }}
+              placeholder="Write the announcement..."
+              rows={6}
+              aria-invalid={!!errors.content}
+              className={errors.content ? 'border-destructive' : ''}
+            />
+            {errors.content && (
+              <p className="text-sm text-destructive" role="alert">{errors.content}</p>
+            )}
+          </div>
+
+          {/* Publish At */}
+          <div className="grid gap-2">
+            <Label htmlFor="announcement-publish-at">Publish at (Optional)</Label>
+            <Input
+              id="announcement-publish-at"
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty to publish now. A future date schedules the announcement.
+            </p>
+          </div>
+
+          {/* Pinned */}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="announcement-pinned"
+              checked={isPinned}
+              onCheckedChange={(checked) => setIsPinned(checked === true)}
+            />
+            <Label htmlFor="announcement-pinned" className="cursor-pointer">
+              Pin to the top of the feed
+            </Label>
+          </div>
+
+          {/* Attachment */}
+          <div className="grid gap-2">
+            <Label htmlFor="announcement-attachment">Attachment (Optional)</Label>
+            {attachmentUrl && !selectedFile ? (
+              <div className="flex items-center gap-2 text-sm">
+                <Paperclip className="h-4 w-4 text-muted-foreground" />
+                <a href={attachmentUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                  Current attachment
+                </a>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setAttachmentUrl(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-4">
+                <Input
+                  id="announcement-attachment"
+                  type="file"
+                  accept="application/pdf,image/*"
+                  onChange={handleFileChange}
+                  className="cursor-pointer"
+                />
+                {selectedFile && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setSelectedFile(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">PDF or image (max 10MB)</p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-gray-900 hover:bg-gray-800 text-white"
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {uploading ? 'Uploading...' : submitting ? 'Saving...' : isEdit ? 'Save Changes' : 'Publish'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,414 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Plus,
+  Megaphone,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  Edit,
+  Trash2,
+  Paperclip,
+  Clock,
+  MoreVertical,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import AnnouncementFormDialog from './AnnouncementFormDialog';
+import DeleteAnnouncementDialog from './DeleteAnnouncementDialog';
+import toast from 'react-hot-toast';
+import { motion } from 'framer-motion';
+import {
+  deleteAnnouncement,
+  setAnnouncementArchived,
+  setAnnouncementPinned,
+} from '@/app/app/announcements/actions';
+
+/**
+ * Announcement data structure
+ */
+export interface Announcement {
+  id: number;
+  residence_id: number;
+  title: string;
+  content: string;
+  attachment_url: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+  is_pinned: boolean;
+  publish_at: string;
+  archived_at: string | null;
+  author_name?: string;
+}
+
+export type AnnouncementState = 'published' | 'scheduled' | 'archived';
+
+interface AnnouncementsContentProps {
+  initialAnnouncements: Announcement[];
+  currentUserRole?: string;
+  currentUserResidenceId?: number | null;
+  residenceName?: string;
+}
+
+/**
+ * Derive the publication state of an announcement
+ */
+export function getAnnouncementState(announcement: Announcement): AnnouncementState {
+  if (announcement.archived_at) return 'archived';
+  if (new Date(announcement.publish_at).getTime() > Date.now()) return 'scheduled';
+  return 'published';
+}
+
+/**
+ * Announcements Content Component
+ * Lists announcements and lets syndics publish, edit, pin, schedule and archive them
+ */
+export default function AnnouncementsContent({
+  initialAnnouncements,
+  currentUserRole,
+  currentUserResidenceId,
+  residenceName,
+}: AnnouncementsContentProps) {
+  console.log('[AnnouncementsContent] Component mounted with', initialAnnouncements.length, 'announcements');
+
+  const router = useRouter();
+
+  const [announcements, setAnnouncements] = useState<Announcement[]>(initialAnnouncements);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [stateFilter, setStateFilter] = useState<AnnouncementState>('published');
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [selectedForEdit, setSelectedForEdit] = useState<Announcement | null>(null);
+  const [selectedForDelete, setSelectedForDelete] = useState<Announcement | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  // Sync local state with server data when it refreshes
+  useEffect(() => {
+    setAnnouncements(initialAnnouncements);
+  }, [initialAnnouncements]);
+
+  const canManage = currentUserRole === 'syndic';
+
+  const counts = useMemo(() => {
+    const result: Record<AnnouncementState, number> = { published: 0, scheduled: 0, archived: 0 };
+    announcements.forEach((a) => {
+      result[getAnnouncementState(a)] += 1;
+    });
+    return result;
+  }, [announcements]);
+
+  // Filter announcements based on search and publication state
+  const filteredAnnouncements = useMemo(() => {
+    let filtered = [...announcements];
+
+    if (canManage) {
+      filtered = filtered.filter((a) => getAnnouncementState(a) === stateFilter);
+    }
+
+    if (searchQuery.trim()) {
+      const query = searchQuery.toLowerCase();
+      filtered = filtered.filter(
+        (a) =>
+          a.title.toLowerCase().includes(query) ||
+          a.content.toLowerCase().includes(query)
+      );
+    }
+
+    // Pinned first, then most recent publication
+    return filtered.sort((a, b) => {
+      if (a.is_pinned !== b.is_pinned) return a.is_pinned ? -1 : 1;
+      return new Date(b.publish_at).getTime() - new Date(a.publish_at).getTime();
+    });
+  }, [announcements, searchQuery, stateFilter, canManage]);
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const replaceAnnouncement = (updated: Announcement) => {
+    setAnnouncements((prev) =>
+      prev.map((a) => (a.id === updated.id ? { ...a, ...updated } : a))
+    );
+  };
+
+  const handleSaved = (announcement: Announcement, isNew: boolean) => {
+    if (isNew) {
+      setAnnouncements((prev) => [announcement, ...prev]);
+      toast.success(
+        getAnnouncementState(announcement) === 'scheduled'
+          ? 'Announcement scheduled successfully'
+          : 'Announcement published successfully'
+      );
+    } else {
+      replaceAnnouncement(announcement);
+      toast.success('Announcement updated successfully');
+    }
+    router.refresh();
+  };
+
+  const handleTogglePin = async (announcement: Announcement) => {
+    setBusyId(announcement.id);
+    try {
+      const result = await setAnnouncementPinned(announcement.id, !announcement.is_pinned);
+      if (result.success && result.data) {
+        replaceAnnouncement(result.data as Announcement);
+        toast.success(announcement.is_pinned ? 'Announcement unpinned' : 'Announcement pinned');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to update announcement');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleArchive = async (announcement: Announcement) => {
+    setBusyId(announcement.id);
+    try {
+      const archive = !announcement.archived_at;
+      const result = await setAnnouncementArchived(announcement.id, archive);
+      if (result.success && result.data) {
+        replaceAnnouncement(result.data as Announcement);
+        toast.success(archive ? 'Announcement archived' : 'Announcement restored');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to update announcement');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (announcementId: number) => {
+    setBusyId(announcementId);
+    try {
+      const result = await deleteAnnouncement(announcementId);
+      if (result.success) {
+        setAnnouncements((prev) => prev.filter((a) => a.id !== announcementId));
+        toast.success('Announcement deleted successfully');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to delete announcement');
+      }
+    } catch (error: any) {
+      console.error('[AnnouncementsContent] Error deleting announcement:', error);
+      toast.error(error.message || 'Failed to delete announcement');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8 relative pb-20 px-1">
+      {/* Header Section with Search, State Tabs and Add Button */}
+      <div className="flex flex-col lg:flex-row gap-6 items-start lg:items-center justify-between bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex flex-col sm:flex-row gap-4 items-center w-full lg:w-auto flex-1">
+          <div className="relative flex-1 w-full sm:max-w-md group">
+            <Megaphone className="absolute left-3.5 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 group-focus-within:text-gray-600 transition-colors" />
+            <Input
+              placeholder="Search announcements..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 bg-gray-50 border-gray-200 focus:bg-white focus:border-gray-300 rounded-xl transition-all duration-200 h-11"
+              aria-label="Search announcements"
+            />
+          </div>
+
+          {canManage && (
+            <Tabs value={stateFilter} onValueChange={(value) => setStateFilter(value as AnnouncementState)}>
+              <TabsList>
+                <TabsTrigger value="published">Published ({counts.published})</TabsTrigger>
+                <TabsTrigger value="scheduled">Scheduled ({counts.scheduled})</TabsTrigger>
+                <TabsTrigger value="archived">Archived ({counts.archived})</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+        </div>
+
+        {canManage && (
+          <Button
+            onClick={() => setShowAddDialog(true)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md transition-all hover:scale-105 h-11 rounded-xl px-6"
+            aria-label="New announcement"
+          >
+            <Plus className="h-4 w-4" />
+            New Announcement
+          </Button>
+        )}
+      </div>
+
+      {/* Announcements List */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="space-y-4"
+      >
+        {filteredAnnouncements.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <Megaphone className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              <p className="font-medium">No announcements</p>
+              <p className="text-sm">
+                {canManage
+                  ? 'Announcements you publish will appear here.'
+                  : 'Your syndic has not published any announcements yet.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          filteredAnnouncements.map((announcement) => {
+            const state = getAnnouncementState(announcement);
+            return (
+              <Card
+                key={announcement.id}
+                className={announcement.is_pinned ? 'border-blue-200 bg-blue-50/40' : ''}
+              >
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                  <div className="space-y-1">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {announcement.is_pinned && <Pin className="h-4 w-4 text-blue-600" />}
+                      {announcement.title}
+                    </CardTitle>
+                    <p className="text-xs text-muted-foreground flex items-center gap-2">
+                      <span>{announcement.author_name || 'Syndic'}</span>
+                      <span>•</span>
+                      <span>{formatDateTime(announcement.publish_at)}</span>
+                      {state === 'scheduled' && (
+                        <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-300">
+                          <Clock className="h-3 w-3 mr-1" />
+                          Scheduled
+                        </Badge>
+                      )}
+                      {state === 'archived' && (
+                        <Badge variant="outline" className="bg-gray-100 text-gray-700 border-gray-300">
+                          Archived
+                        </Badge>
+                      )}
+                    </p>
+                  </div>
+
+                  {canManage && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busyId === announcement.id}
+                          aria-label="Announcement actions"
+                        >
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => setSelectedForEdit(announcement)}>
+                          <Edit className="h-4 w-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                        {state !== 'archived' && (
+                          <DropdownMenuItem onClick={() => handleTogglePin(announcement)}>
+                            {announcement.is_pinned ? (
+                              <PinOff className="h-4 w-4 mr-2" />
+                            ) : (
+                              <Pin className="h-4 w-4 mr-2" />
+                            )}
+                            {announcement.is_pinned ? 'Unpin' : 'Pin'}
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem onClick={() => handleToggleArchive(announcement)}>
+                          {announcement.archived_at ? (
+                            <ArchiveRestore className="h-4 w-4 mr-2" />
+                          ) : (
+                            <Archive className="h-4 w-4 mr-2" />
+                          )}
+                          {announcement.archived_at ? 'Restore' : 'Archive'}
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => setSelectedForDelete(announcement)}
+                          className="text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{announcement.content}</p>
+                  {announcement.attachment_url && (
+                    <a
+                      href={announcement.attachment_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1.5 text-sm text-blue-600 hover:underline"
+                    >
+                      <Paperclip className="h-4 w-4" />
+                      View attachment
+                    </a>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </motion.div>
+
+      {/* Create Dialog */}
+      {canManage && (
+        <AnnouncementFormDialog
+          open={showAddDialog}
+          onClose={() => setShowAddDialog(false)}
+          onSuccess={(announcement) => handleSaved(announcement, true)}
+          currentUserResidenceId={currentUserResidenceId}
+          residenceName={residenceName}
+        />
+      )}
+
+      {/* Edit Dialog */}
+      {canManage && selectedForEdit && (
+        <AnnouncementFormDialog
+          open={!!selectedForEdit}
+          announcement={selectedForEdit}
+          onClose={() => setSelectedForEdit(null)}
+          onSuccess={(announcement) => handleSaved(announcement, false)}
+          currentUserResidenceId={currentUserResidenceId}
+          residenceName={residenceName}
+        />
+      )}
+
+      {/* Delete Dialog */}
+      {canManage && selectedForDelete && (
+        <DeleteAnnouncementDialog
+          open={!!selectedForDelete}
+          announcement={selectedForDelete}
+          onClose={() => setSelectedForDelete(null)}
+          onConfirm={() => {
+            handleDelete(selectedForDelete.id);
+            setSelectedForDelete(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { Trash2, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Announcement } from './AnnouncementsContent';
+
+interface DeleteAnnouncementDialogProps {
+  open: boolean;
+  announcement: Announcement | null;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+/**
+ * Delete Announcement Dialog Component
+ * Confirmation dialog for deleting announcements
+ */
+export default function DeleteAnnouncementDialog({
+  open,
+  announcement,
+  onClose,
+  onConfirm,
+}: DeleteAnnouncementDialogProps) {
+  if (!announcement) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-destructive">
+            <Trash2 className="h-5 w-5" />
+            Delete Announcement
+          </DialogTitle>
+          <DialogDescription>
+            This action cannot be undone. Archive the announcement instead if you want to keep a record of it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4">
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Are you sure you want to delete this announcement?
+              <p className="mt-2 font-semibold">{announcement.title}</p>
+            </AlertDescription>
+          </Alert>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" variant="destructive" onClick={onConfirm}>
+            Delete Announcement
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,488 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Plus,
+  ChevronLeft,
+  ChevronRight,
+  CalendarDays,
+  List,
+  Rss,
+  Pencil,
+  MapPin,
+  Loader2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import EventDialog from './EventDialog';
+import DeleteEventDialog from './DeleteEventDialog';
+import CalendarFeedDialog from './CalendarFeedDialog';
+import toast from 'react-hot-toast';
+import { motion } from 'framer-motion';
+import type { CalendarItem } from '@/lib/calendar-utils';
+import { getCalendarItems, deleteCalendarEventAction } from '@/app/app/calendar/actions';
+
+interface CalendarContentProps {
+  initialItems: CalendarItem[];
+  canManage?: boolean;
+  residenceName?: string;
+}
+
+type CalendarView = 'month' | 'agenda';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Chip colours by event type, then by item kind
+const ITEM_STYLES: Record<string, string> = {
+  meeting: 'bg-blue-50 text-blue-700 border-blue-200',
+  maintenance: 'bg-orange-50 text-orange-700 border-orange-200',
+  other: 'bg-gray-100 text-gray-700 border-gray-200',
+  fee: 'bg-green-50 text-green-700 border-green-200',
+  intervention: 'bg-red-50 text-red-700 border-red-200',
+  poll: 'bg-purple-50 text-purple-700 border-purple-200',
+};
+
+const ITEM_LABELS: Record<string, string> = {
+  meeting: 'Meeting',
+  maintenance: 'Maintenance',
+  other: 'Event',
+  fee: 'Fee due',
+  intervention: 'Intervention',
+  poll: 'Poll closing',
+};
+
+const MAX_ITEMS_PER_DAY = 3;
+
+function itemStyleKey(item: CalendarItem): string {
+  return item.eventType || item.kind;
+}
+
+/**
+ * YYYY-MM-DD of a date in the user's time zone
+ */
+function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * First and last day shown in the month grid (weeks start on Monday)
+ */
+function getGridRange(month: Date): { start: Date; end: Date } {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const start = addDays(first, -((first.getDay() + 6) % 7));
+  const end = addDays(last, 6 - ((last.getDay() + 6) % 7));
+  return { start, end };
+}
+
+/**
+ * Days an item covers, as local day keys
+ */
+function getItemDays(item: CalendarItem): string[] {
+  if (!item.allDay) {
+    const start = new Date(item.start);
+    const end = item.end ? new Date(item.end) : start;
+    const days: string[] = [];
+    for (let day = new Date(start.getFullYear(), start.getMonth(), start.getDate()); day <= end; day = addDays(day, 1)) {
+      days.push(toDayKey(day));
+    }
+    return days.length > 0 ? days : [toDayKey(start)];
+  }
+
+  // All-day items are plain dates, independent of the time zone
+  const [year, month, date] = item.start.split('-').map(Number);
+  const start = new Date(year, month - 1, date);
+  const lastKey = item.end || item.start;
+  const days: string[] = [];
+  for (let day = start; toDayKey(day) <= lastKey; day = addDays(day, 1)) {
+    days.push(toDayKey(day));
+  }
+  return days;
+}
+
+/**
+ * Calendar Content Component
+ * Month grid and agenda of the residence calendar; syndics manage events from here
+ */
+export default function CalendarContent({
+  initialItems,
+  canManage,
+  residenceName,
+}: CalendarContentProps) {
+  console.log('[CalendarContent] Component mounted with', initialItems.length, 'items');
+
+  const router = useRouter();
+
+  const [items, setItems] = useState<CalendarItem[]>(initialItems);
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [view, setView] = useState<CalendarView>('month');
+  const [loading, setLoading] = useState(false);
+  const [showEventDialog, setShowEventDialog] = useState(false);
+  const [selectedEvent, setSelectedEvent] = useState<CalendarItem | null>(null);
+  const [defaultDate, setDefaultDate] = useState<string | null>(null);
+  const [selectedForDelete, setSelectedForDelete] = useState<CalendarItem | null>(null);
+  const [showFeedDialog, setShowFeedDialog] = useState(false);
+
+  const skipInitialLoad = useRef(true);
+
+  const { start: gridStart, end: gridEnd } = useMemo(() => getGridRange(month), [month]);
+
+  const loadItems = useCallback(async () => {
+    setLoading(true);
+    try {
+      // One extra day on each side covers the gap between UTC and local dates
+      const result = await getCalendarItems(toDayKey(addDays(gridStart, -1)), toDayKey(addDays(gridEnd, 1)));
+      if (result.success && result.data) {
+        setItems(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load calendar');
+      }
+    } catch (error: any) {
+      console.error('[CalendarContent] Error loading calendar:', error);
+      toast.error(error.message || 'Failed to load calendar');
+    } finally {
+      setLoading(false);
+    }
+  }, [gridStart, gridEnd]);
+
+  // The server already loaded the current month; reload when the month changes
+  // or the page is refreshed (e.g. after switching residence)
+  useEffect(() => {
+    if (skipInitialLoad.current) {
+      skipInitialLoad.current = false;
+      return;
+    }
+    loadItems();
+  }, [loadItems, initialItems]);
+
+  const itemsByDay = useMemo(() => {
+    const byDay = new Map<string, CalendarItem[]>();
+    items.forEach((item) => {
+      getItemDays(item).forEach((day) => {
+        byDay.set(day, [...(byDay.get(day) || []), item]);
+      });
+    });
+    return byDay;
+  }, [items]);
+
+  const gridDays = useMemo(() => {
+    const days: Date[] = [];
+    for (let day = gridStart; day <= gridEnd; day = addDays(day, 1)) {
+      days.push(day);
+    }
+    return days;
+  }, [gridStart, gridEnd]);
+
+  // Agenda: days of the displayed month that have something on
+  const agendaDays = useMemo(() => {
+    const monthPrefix = toDayKey(month).slice(0, 7);
+    return Array.from(itemsByDay.keys())
+      .filter((day) => day.startsWith(monthPrefix))
+      .sort();
+  }, [itemsByDay, month]);
+
+  const todayKey = toDayKey(new Date());
+
+  const formatTime = (item: CalendarItem) => {
+    if (item.allDay) return 'All day';
+    const time = (value: string) =>
+      new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+    return item.end ? `${time(item.start)} – ${time(item.end)}` : time(item.start);
+  };
+
+  const formatDayHeading = (dayKey: string) => {
+    const [year, monthIndex, date] = dayKey.split('-').map(Number);
+    return new Date(year, monthIndex - 1, date).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const openCreate = (dayKey?: string) => {
+    setSelectedEvent(null);
+    setDefaultDate(dayKey || null);
+    setShowEventDialog(true);
+  };
+
+  const openItem = (item: CalendarItem) => {
+    if (item.kind === 'event') {
+      if (canManage) {
+        setSelectedEvent(item);
+        setDefaultDate(null);
+        setShowEventDialog(true);
+      }
+      return;
+    }
+    if (item.link) router.push(item.link);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedForDelete?.sourceId) return;
+
+    try {
+      const result = await deleteCalendarEventAction(selectedForDelete.sourceId);
+      if (result.success) {
+        setItems((prev) => prev.filter((i) => i.id !== selectedForDelete.id));
+        toast.success('Event deleted successfully');
+      } else {
+        toast.error(result.error || 'Failed to delete event');
+      }
+    } catch (error: any) {
+      console.error('[CalendarContent] Error deleting event:', error);
+      toast.error(error.message || 'Failed to delete event');
+    } finally {
+      setSelectedForDelete(null);
+    }
+  };
+
+  const goToMonth = (offset: number) => {
+    setMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  const goToToday = () => {
+    const today = new Date();
+    setMonth(new Date(today.getFullYear(), today.getMonth(), 1));
+  };
+
+  const renderChip = (item: CalendarItem) => (
+    <button
+      key={item.id}
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        openItem(item);
+      }}
+      className={`w-full truncate text-left text-xs px-1.5 py-0.5 rounded border ${ITEM_STYLES[itemStyleKey(item)]}`}
+      title={item.title}
+    >
+      {!item.allDay && (
+        <span className="font-medium mr-1">
+          {new Date(item.start).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+        </span>
+      )}
+      {item.title}
+    </button>
+  );
+
+  return (
+    <div className="space-y-6 relative pb-20 px-1">
+      {/* Header Section */}
+      <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center justify-between bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => goToMonth(-1)} aria-label="Previous month">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={goToToday}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => goToMonth(1)} aria-label="Next month">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="text-xl font-semibold ml-2">
+            {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </h2>
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-lg border p-0.5">
+            <Button
+              variant={view === 'month' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setView('month')}
+              className="gap-1"
+            >
+              <CalendarDays className="h-4 w-4" />
+              Month
+            </Button>
+            <Button
+              variant={view === 'agenda' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setView('agenda')}
+              className="gap-1"
+            >
+              <List className="h-4 w-4" />
+              Agenda
+            </Button>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowFeedDialog(true)} className="gap-1">
+            <Rss className="h-4 w-4" />
+            Subscribe
+          </Button>
+          {canManage && (
+            <Button
+              onClick={() => openCreate()}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md transition-all hover:scale-105 h-10 rounded-xl px-5"
+              aria-label="New event"
+            >
+              <Plus className="h-4 w-4" />
+              New Event
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-2 text-xs">
+        {Object.keys(ITEM_LABELS).map((key) => (
+          <span key={key} className={`px-2 py-0.5 rounded border ${ITEM_STYLES[key]}`}>
+            {ITEM_LABELS[key]}
+          </span>
+        ))}
+      </div>
+
+      <motion.div
+        key={view}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        {view === 'month' ? (
+          <Card>
+            <CardContent className="p-2 sm:p-4">
+              <div className="grid grid-cols-7 text-xs font-medium text-muted-foreground mb-2">
+                {WEEKDAYS.map((day) => (
+                  <div key={day} className="px-2">{day}</div>
+                ))}
+              </div>
+              <div className="grid grid-cols-7 gap-px bg-gray-100 border border-gray-100 rounded-lg overflow-hidden">
+                {gridDays.map((day) => {
+                  const dayKey = toDayKey(day);
+                  const dayItems = itemsByDay.get(dayKey) || [];
+                  const inMonth = day.getMonth() === month.getMonth();
+
+                  return (
+                    <div
+                      key={dayKey}
+                      onClick={canManage ? () => openCreate(dayKey) : undefined}
+                      className={`min-h-[96px] p-1.5 space-y-1 bg-white ${inMonth ? '' : 'bg-gray-50 text-muted-foreground'} ${canManage ? 'cursor-pointer hover:bg-blue-50/40' : ''}`}
+                    >
+                      <div
+                        className={`text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full ${
+                          dayKey === todayKey ? 'bg-blue-600 text-white' : ''
+                        }`}
+                      >
+                        {day.getDate()}
+                      </div>
+                      {dayItems.slice(0, MAX_ITEMS_PER_DAY).map(renderChip)}
+                      {dayItems.length > MAX_ITEMS_PER_DAY && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setView('agenda');
+                          }}
+                          className="text-xs text-muted-foreground hover:underline px-1"
+                        >
+                          +{dayItems.length - MAX_ITEMS_PER_DAY} more
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        ) : agendaDays.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <CalendarDays className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              <p className="font-medium">Nothing scheduled this month</p>
+              <p className="text-sm">
+                {canManage
+                  ? `Events you add for ${residenceName || 'your residence'} will appear here.`
+                  : 'Meetings, maintenance, fee due dates and poll deadlines will appear here.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {agendaDays.map((dayKey) => (
+              <Card key={dayKey}>
+                <CardContent className="p-4 space-y-3">
+                  <h3 className={`text-sm font-semibold ${dayKey === todayKey ? 'text-blue-600' : ''}`}>
+                    {formatDayHeading(dayKey)}
+                  </h3>
+                  {(itemsByDay.get(dayKey) || []).map((item) => (
+                    <div key={item.id} className="flex items-start gap-3 border-t pt-3 first:border-t-0 first:pt-0">
+                      <div className="w-28 shrink-0 text-xs text-muted-foreground pt-0.5">{formatTime(item)}</div>
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant="outline" className={ITEM_STYLES[itemStyleKey(item)]}>
+                            {ITEM_LABELS[itemStyleKey(item)]}
+                          </Badge>
+                          {item.link && item.kind !== 'event' ? (
+                            <button
+                              type="button"
+                              onClick={() => openItem(item)}
+                              className="font-medium text-left hover:underline"
+                            >
+                              {item.title}
+                            </button>
+                          ) : (
+                            <span className="font-medium">{item.title}</span>
+                          )}
+                        </div>
+                        {item.description && (
+                          <p className="text-sm text-gray-600 whitespace-pre-wrap">{item.description}</p>
+                        )}
+                        {item.location && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {item.location}
+                          </p>
+                        )}
+                      </div>
+                      {canManage && item.kind === 'event' && (
+                        <Button variant="ghost" size="sm" onClick={() => openItem(item)} aria-label="Edit event">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </motion.div>
+
+      {/* Dialogs */}
+      {canManage && (
+        <>
+          <EventDialog
+            open={showEventDialog}
+            event={selectedEvent}
+            defaultDate={defaultDate}
+            onClose={() => setShowEventDialog(false)}
+            onSuccess={loadItems}
+            onDelete={(event) => {
+              setShowEventDialog(false);
+              setSelectedForDelete(event);
+            }}
+            residenceName={residenceName}
+          />
+          <DeleteEventDialog
+            open={!!selectedForDelete}
+            event={selectedForDelete}
+            onClose={() => setSelectedForDelete(null)}
+            onConfirm={handleDelete}
+          />
+        </>
+      )}
+      <CalendarFeedDialog open={showFeedDialog} onClose={() => setShowFeedDialog(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Rss, Copy, RefreshCw, Loader2, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getCalendarFeed } from '@/app/app/calendar/actions';
+import toast from 'react-hot-toast';
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Calendar Feed Dialog Component
+ * Shows the user's private iCalendar URL to subscribe from a phone or desktop calendar
+ */
+export default function CalendarFeedDialog({ open, onClose }: CalendarFeedDialogProps) {
+  const [feedUrl, setFeedUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadFeed = useCallback(async (regenerate = false) => {
+    setLoading(true);
+    try {
+      const result = await getCalendarFeed(regenerate);
+      if (result.success && result.data) {
+        setFeedUrl(`${window.location.origin}${result.data.path}`);
+        if (regenerate) toast.success('A new calendar link was created');
+      } else {
+        toast.error(result.error || 'Failed to get calendar link');
+      }
+    } catch (error: any) {
+      console.error('[CalendarFeedDialog] Error getting feed:', error);
+      toast.error(error.message || 'Failed to get calendar link');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // The link is created the first time the dialog is opened
+  useEffect(() => {
+    if (open && !feedUrl) {
+      loadFeed();
+    }
+  }, [open, feedUrl, loadFeed]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Rss className="h-5 w-5" />
+            Subscribe to the Calendar
+          </DialogTitle>
+          <DialogDescription>
+            Add this link to Google Calendar, Apple Calendar or Outlook to see residence events,
+            fee due dates, interventions and poll deadlines on your phone. Calendar apps refresh it on their own schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="calendar-feed-url">Your calendar link</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="calendar-feed-url"
+                value={loading && !feedUrl ? 'Loading...' : feedUrl}
+                readOnly
+                onFocus={(e) => e.target.select()}
+              />
+              <Button type="button" variant="outline" size="sm" onClick={handleCopy} disabled={!feedUrl} aria-label="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Keep this link private: anyone who has it can see your calendar. Creating a new link stops the old one from working.
+            </p>
+          </div>
+
+          {feedUrl && (
+            <a
+              href={feedUrl.replace(/^https?:\/\//, 'webcal://')}
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+            >
+              <ExternalLink className="h-4 w-4" />
+              Open in my calendar app
+            </a>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => loadFeed(true)}
+            disabled={loading}
+            className="sm:mr-auto"
+          >
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            New link
+          </Button>
+          <Button type="button" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { Trash2, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { CalendarItem } from '@/lib/calendar-utils';
+
+interface DeleteEventDialogProps {
+  open: boolean;
+  event: CalendarItem | null;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+/**
+ * Delete Event Dialog Component
+ * Confirmation dialog for deleting calendar events
+ */
+export default function DeleteEventDialog({
+  open,
+  event,
+  onClose,
+  onConfirm,
+}: DeleteEventDialogProps) {
+  if (!event) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-destructive">
+            <Trash2 className="h-5 w-5" />
+            Delete Event
+          </DialogTitle>
+          <DialogDescription>
+            This action cannot be undone. The event will also disappear from subscribed calendar apps at their next refresh.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4">
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Are you sure you want to delete this event?
+              <p className="mt-2 font-semibold">{event.title}</p>
+            </AlertDescription>
+          </Alert>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" variant="destructive" onClick={onConfirm}>
+            Delete Event
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
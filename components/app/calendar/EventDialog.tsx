@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CalendarDays, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { CalendarEventType, CalendarItem } from '@/lib/calendar-utils';
+import { createCalendarEventAction, updateCalendarEventAction } from '@/app/app/calendar/actions';
+import toast from 'react-hot-toast';
+
+interface EventDialogProps {
+  open: boolean;
+  // Event being edited, null to create one
+  event: CalendarItem | null;
+  // YYYY-MM-DD picked in the month grid
+  defaultDate?: string | null;
+  onClose: () => void;
+  onSuccess: () => void;
+  onDelete: (event: CalendarItem) => void;
+  residenceName?: string;
+}
+
+/**
+ * Convert an ISO date to the value expected by a datetime-local input
+ */
+function toDateTimeLocal(iso?: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Event Dialog Component
+ * Lets the syndic add or edit a meeting, maintenance window or other residence event
+ */
+export default function EventDialog({
+  open,
+  event,
+  defaultDate,
+  onClose,
+  onSuccess,
+  onDelete,
+  residenceName,
+}: EventDialogProps) {
+  const [submitting, setSubmitting] = useState(false);
+
+  // Form state
+  const [title, setTitle] = useState('');
+  const [eventType, setEventType] = useState<CalendarEventType>('meeting');
+  const [allDay, setAllDay] = useState(false);
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [location, setLocation] = useState('');
+  const [description, setDescription] = useState('');
+
+  const [errors, setErrors] = useState<{ title?: string; startsAt?: string; endsAt?: string }>({});
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    if (event) {
+      setTitle(event.title);
+      setEventType(event.eventType || 'other');
+      setAllDay(event.allDay);
+      setStartsAt(event.allDay ? event.start : toDateTimeLocal(event.start));
+      setEndsAt(event.allDay ? event.end || '' : toDateTimeLocal(event.end));
+      setLocation(event.location || '');
+      setDescription(event.description || '');
+    } else {
+      setTitle('');
+      setEventType('meeting');
+      setAllDay(false);
+      setStartsAt(defaultDate ? `${defaultDate}T18:00` : '');
+      setEndsAt('');
+      setLocation('');
+      setDescription('');
+    }
+    setErrors({});
+  }, [open, event, defaultDate]);
+
+  // Keep the entered day when switching between a date and a date-time input
+  const handleAllDayChange = (checked: boolean) => {
+    setAllDay(checked);
+    setStartsAt((prev) => (prev ? (checked ? prev.slice(0, 10) : `${prev.slice(0, 10)}T18:00`) : prev));
+    setEndsAt((prev) => (prev ? (checked ? prev.slice(0, 10) : `${prev.slice(0, 10)}T20:00`) : prev));
+  };
+
+  const toValue = (value: string) => (allDay ? value : new Date(value).toISOString());
+
+  const validateForm = (): boolean => {
+    const newErrors: typeof errors = {};
+    if (!title.trim()) newErrors.title = 'Title is required';
+    if (!startsAt) newErrors.startsAt = 'Start is required';
+    if (startsAt && endsAt && toValue(endsAt) < toValue(startsAt)) {
+      newErrors.endsAt = 'The event cannot end before it starts';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setSubmitting(true);
+
+    try {
+      const data = {
+        title: title.trim(),
+        event_type: eventType,
+        all_day: allDay,
+        starts_at: toValue(startsAt),
+        ends_at: endsAt ? toValue(endsAt) : null,
+        location: location.trim() || null,
+        description: description.trim() || null,
+      };
+
+      const result = event?.sourceId
+        ? await updateCalendarEventAction(event.sourceId, data)
+        : await createCalendarEventAction(data);
+
+      if (result.success) {
+        toast.success(event ? 'Event updated successfully' : 'Event created successfully');
+        onSuccess();
+        onClose();
+      } else {
+        toast.error(result.error || 'Failed to save event');
+      }
+    } catch (error: any) {
+      console.error('[EventDialog] Error saving event:', error);
+      toast.error(error.message || 'Failed to save event');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            {event ? 'Edit Event' : 'New Event'}
+          </DialogTitle>
+          <DialogDescription>
+            {`Shown on the calendar of ${residenceName || 'your residence'} and in subscribed calendar apps`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Title */}
+          <div className="grid gap-2">
+            <Label htmlFor="event-title">
+              Title <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="event-title"
+              value={title}
+              onChange={(e) => {
+                setTitle(e.target.value);
+                if (errors.title) setErrors({ ...errors, title: undefined });
+              }}
+              placeholder="e.g. Annual general assembly"
+              aria-invalid={!!errors.title}
+              className={errors.title ? 'border-destructive' : ''}
+            />
+            {errors.title && (
+              <p className="text-sm text-destructive" role="alert">{errors.title}</p>
+            )}
+          </div>
+
+          {/* Type */}
+          <div className="grid gap-2">
+            <Label htmlFor="event-type">Type</Label>
+            <Select value={eventType} onValueChange={(value) => setEventType(value as CalendarEventType)}>
+              <SelectTrigger id="event-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="meeting">Meeting</SelectItem>
+                <SelectItem value="maintenance">Maintenance window</SelectItem>
+                <SelectItem value="other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* All Day */}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="event-all-day"
+              checked={allDay}
+              onCheckedChange={(checked) => handleAllDayChange(checked === true)}
+            />
+            <Label htmlFor="event-all-day" className="cursor-pointer">
+              All day
+            </Label>
+          </div>
+
+          {/* Dates */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="event-starts-at">
+                Starts <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="event-starts-at"
+                type={allDay ? 'date' : 'datetime-local'}
+                value={startsAt}
+                onChange={(e) => {
+                  setStartsAt(e.target.value);
+                  if (errors.startsAt) setErrors({ ...errors, startsAt: undefined });
+                }}
+                aria-invalid={!!errors.startsAt}
+                className={errors.startsAt ? 'border-destructive' : ''}
+              />
+              {errors.startsAt && (
+                <p className="text-sm text-destructive" role="alert">{errors.startsAt}</p>
+              )}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="event-ends-at">Ends (Optional)</Label>
+              <Input
+                id="event-ends-at"
+                type={allDay ? 'date' : 'datetime-local'}
+                value={endsAt}
+                onChange={(e) => {
+                  setEndsAt(e.target.value);
+                  if (errors.endsAt) setErrors({ ...errors, endsAt: undefined });
+                }}
+                aria-invalid={!!errors.endsAt}
+                className={errors.endsAt ? 'border-destructive' : ''}
+              />
+              {errors.endsAt && (
+                <p className="text-sm text-destructive" role="alert">{errors.endsAt}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Location */}
+          <div className="grid gap-2">
+            <Label htmlFor="event-location">Location (Optional)</Label>
+            <Input
+              id="event-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="e.g. Ground floor meeting room"
+            />
+          </div>
+
+          {/* Description */}
+          <div className="grid gap-2">
+            <Label htmlFor="event-description">Description (Optional)</Label>
+            <Textarea
+              id="event-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Agenda, affected floors, what residents should do..."
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter className="gap-2">
+            {event && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onDelete(event)}
+                disabled={submitting}
+                className="sm:mr-auto text-destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-gray-900 hover:bg-gray-800 text-white"
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitting ? 'Saving...' : event ? 'Save Changes' : 'Create Event'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { ExternalLink, FileAudio, FileVideo, Loader2, Paperclip } from 'lucide-react';
+import { getComplaintEvidence } from '@/app/app/complaints/actions';
+import type { ComplaintEvidence } from '@/lib/complaint-evidence-utils';
+
+interface ComplaintEvidenceGalleryProps {
+  complaintId: number;
+}
+
+/**
+ * Format file size
+ */
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Complaint Evidence Gallery Component
+ * Photos, audio and video recordings attached by the complainant, shown to the syndic
+ * through signed links that expire after an hour
+ */
+export default function ComplaintEvidenceGallery({ complaintId }: ComplaintEvidenceGalleryProps) {
+  const [evidence, setEvidence] = useState<ComplaintEvidence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchEvidence() {
+      console.log('[ComplaintEvidenceGallery] Fetching evidence for complaint:', complaintId);
+      setLoading(true);
+      setError(null);
+
+      try {
+        const result = await getComplaintEvidence(complaintId);
+        if (result.success) {
+          setEvidence(result.data || []);
+        } else {
+          setError(result.error || 'Failed to load evidence');
+        }
+      } catch (err: any) {
+        console.error('[ComplaintEvidenceGallery] Error fetching evidence:', err);
+        setError(err.message || 'Failed to load evidence');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchEvidence();
+  }, [complaintId]);
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+        <Paperclip className="h-4 w-4" />
+        Evidence{!loading && !error ? ` (${evidence.length})` : ''}
+      </p>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading evidence...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : evidence.length === 0 ? (
+        <p className="text-sm text-muted-foreground">The complainant did not attach any evidence.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {evidence.map((item) => (
+              <div key={item.id} className="rounded-lg border bg-gray-50 p-2 space-y-2">
+                {!item.url ? (
+                  <p className="text-sm text-muted-foreground p-2">File unavailable</p>
+                ) : item.file_type === 'image' ? (
+                  <a href={item.url} target="_blank" rel="noopener noreferrer" className="block relative w-full h-40">
+                    <Image
+                      src={item.url}
+                      alt={item.file_name}
+                      fill
+                      unoptimized
+                      className="rounded object-cover"
+                    />
+                  </a>
+                ) : item.file_type === 'audio' ? (
+                  <audio controls preload="none" src={item.url} className="w-full" />
+                ) : (
+                  <video controls preload="metadata" src={item.url} className="w-full max-h-40 rounded bg-black" />
+                )}
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1 truncate" title={item.file_name}>
+                    {item.file_type === 'audio' && <FileAudio className="h-3 w-3 shrink-0" />}
+                    {item.file_type === 'video' && <FileVideo className="h-3 w-3 shrink-0" />}
+                    <span className="truncate">{item.file_name}</span>
+                  </span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    {formatFileSize(item.file_size)}
+                    {item.url && (
+                      <a href={item.url} target="_blank" rel="noopener noreferrer" aria-label={`Open ${item.file_name}`}>
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Evidence is only visible to the syndic. Links expire after one hour; reopen the complaint to refresh them.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
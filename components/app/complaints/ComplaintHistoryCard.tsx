@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { getResidentComplaintHistory } from '@/app/app/complaints/actions';
+import type { ResidentComplaintHistory } from '@/lib/complaint-mediation-utils';
+
+interface ComplaintHistoryCardProps {
+  residentId: string;
+  residentName?: string;
+  currentComplaintId: number;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  submitted: 'Submitted',
+  reviewed: 'Reviewed',
+  in_mediation: 'In mediation',
+  warning_issued: 'Warning issued',
+  escalated: 'Escalated',
+  resolved: 'Resolved',
+};
+
+/**
+ * Complaint History Card Component
+ * Earlier complaints against the complained-about resident, with warnings,
+ * escalations and whether they are a repeat offender (syndics only)
+ */
+export default function ComplaintHistoryCard({ residentId, residentName, currentComplaintId }: ComplaintHistoryCardProps) {
+  const [history, setHistory] = useState<ResidentComplaintHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchHistory() {
+      console.log('[ComplaintHistoryCard] Fetching history for resident:', residentId);
+      setLoading(true);
+
+      try {
+        const result = await getResidentComplaintHistory(residentId);
+        if (result.success && result.data) {
+          setHistory(result.data);
+        } else {
+          console.error('[ComplaintHistoryCard] Error:', result.error);
+        }
+      } catch (error: any) {
+        console.error('[ComplaintHistoryCard] Error fetching history:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchHistory();
+  }, [residentId]);
+
+  // Format date
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const others = history?.complaints.filter((complaint) => complaint.id !== currentComplaintId) || [];
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Complaint history of {residentName || 'the complained-about resident'}
+      </p>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : !history ? (
+        <p className="text-sm text-muted-foreground">History unavailable.</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="outline">{history.total} complaint{history.total === 1 ? '' : 's'}</Badge>
+            <Badge variant="outline">{history.warnings} warning{history.warnings === 1 ? '' : 's'}</Badge>
+            <Badge variant="outline">{history.escalations} escalation{history.escalations === 1 ? '' : 's'}</Badge>
+            {history.is_repeat_offender && (
+              <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                Repeat offender ({history.recent_offences} in 12 months)
+              </Badge>
+            )}
+          </div>
+          {others.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No other complaint against this resident.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {others.slice(0, 5).map((complaint) => (
+                <li key={complaint.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate" title={complaint.title}>
+                    #{complaint.id} · {complaint.title}
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {STATUS_LABELS[complaint.status] || complaint.status} · {formatDate(complaint.created_at)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
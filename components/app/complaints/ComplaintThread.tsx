@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { getComplaintMessages, sendComplaintMessage } from '@/app/app/complaints/actions';
+import { MAX_MESSAGE_LENGTH, type ComplaintChannel, type ComplaintMessage } from '@/lib/complaint-mediation-utils';
+import toast from 'react-hot-toast';
+
+interface ComplaintThreadProps {
+  complaintId: number;
+  currentUserId?: string;
+  closed?: boolean; // resolved complaints are read-only
+}
+
+const CHANNEL_LABELS: Record<ComplaintChannel, string> = {
+  complainant: 'Complainant',
+  respondent: 'Complained-about resident',
+};
+
+/**
+ * Complaint Thread Component
+ * Mediation messages of a complaint. The syndic gets one tab per party; each
+ * resident only sees their own conversation with the syndic.
+ */
+export default function ComplaintThread({ complaintId, currentUserId, closed }: ComplaintThreadProps) {
+  const [channels, setChannels] = useState<ComplaintChannel[]>([]);
+  const [messages, setMessages] = useState<ComplaintMessage[]>([]);
+  const [activeChannel, setActiveChannel] = useState<ComplaintChannel>('complainant');
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    async function fetchMessages() {
+      console.log('[ComplaintThread] Fetching messages for complaint:', complaintId);
+      setLoading(true);
+
+      try {
+        const result = await getComplaintMessages(complaintId);
+        if (result.success && result.data) {
+          setChannels(result.data.channels);
+          setMessages(result.data.messages);
+          if (result.data.channels.length > 0) {
+            setActiveChannel(result.data.channels[0]);
+          }
+        } else {
+          toast.error(result.error || 'Failed to load messages');
+        }
+      } catch (error: any) {
+        console.error('[ComplaintThread] Error fetching messages:', error);
+        toast.error(error.message || 'Failed to load messages');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchMessages();
+  }, [complaintId]);
+
+  async function handleSend(channel: ComplaintChannel) {
+    const body = (drafts[channel] || '').trim();
+    if (!body) return;
+
+    setSending(true);
+
+    try {
+      const result = await sendComplaintMessage({ complaint_id: complaintId, body, channel });
+      if (result.success && result.data) {
+        setMessages((prev) => [...prev, result.data!]);
+        setDrafts((prev) => ({ ...prev, [channel]: '' }));
+      } else {
+        toast.error(result.error || 'Failed to send message');
+      }
+    } catch (error: any) {
+      console.error('[ComplaintThread] Error sending message:', error);
+      toast.error(error.message || 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  }
+
+  // Format date
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  // Who wrote a message, as seen by the viewer
+  const getSenderLabel = (message: ComplaintMessage) => {
+    if (message.sender_id === currentUserId) return 'You';
+    if (message.sender_role === 'syndic') return 'Syndic';
+    return message.sender_name || CHANNEL_LABELS[message.sender_role];
+  };
+
+  const renderChannel = (channel: ComplaintChannel) => {
+    const channelMessages = messages.filter((message) => message.channel === channel);
+
+    return (
+      <div className="space-y-3">
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {channelMessages.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">No messages yet.</p>
+          ) : (
+            channelMessages.map((message) => {
+              const mine = message.sender_id === currentUserId;
+              return (
+                <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] rounded-lg p-3 ${mine ? 'bg-gray-900 text-white' : 'bg-gray-100'}`}>
+                    <p className={`text-xs mb-1 ${mine ? 'text-gray-300' : 'text-muted-foreground'}`}>
+                      {getSenderLabel(message)} · {formatDate(message.created_at)}
+                    </p>
+                    <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {closed ? (
+          <p className="text-xs text-muted-foreground">This complaint is resolved; the conversation is closed.</p>
+        ) : (
+          <div className="flex gap-2 items-end">
+            <Textarea
+              value={drafts[channel] || ''}
+              onChange={(e) => setDrafts((prev) => ({ ...prev, [channel]: e.target.value }))}
+              placeholder={channels.length > 1 ? `Message to the ${CHANNEL_LABELS[channel].toLowerCase()}...` : 'Message to the syndic...'}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={2}
+              aria-label="Message"
+            />
+            <Button
+              type="button"
+              onClick={() => handleSend(channel)}
+              disabled={sending || !(drafts[channel] || '').trim()}
+              aria-label="Send message"
+            >
+              {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+        <MessageSquare className="h-4 w-4" />
+        Mediation
+      </p>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading messages...
+        </div>
+      ) : channels.length > 1 ? (
+        <>
+          <Tabs value={activeChannel} onValueChange={(value) => setActiveChannel(value as ComplaintChannel)}>
+            <TabsList>
+              {channels.map((channel) => (
+                <TabsTrigger key={channel} value={channel}>
+                  {CHANNEL_LABELS[channel]} ({messages.filter((message) => message.channel === channel).length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {channels.map((channel) => (
+              <TabsContent key={channel} value={channel}>
+                {renderChannel(channel)}
+              </TabsContent>
+            ))}
+          </Tabs>
+          <p className="text-xs text-muted-foreground">
+            Each party only sees their own conversation with you.
+          </p>
+        </>
+      ) : channels.length === 1 ? (
+        renderChannel(channels[0])
+      ) : null}
+    </div>
+  );
+}
@@ -24,9 +24,11 @@ export interface Complaint {
   privacy: 'private' | 'anonymous';
   title: string;
   description: string;
-  status: 'submitted' | 'reviewed' | 'resolved';
+  status: 'submitted' | 'reviewed' | 'in_mediation' | 'warning_issued' | 'escalated' | 'resolved';
   reviewed_at: string | null;
   resolved_at: string | null;
+  warning_issued_at?: string | null;
+  escalated_at?: string | null;
   reviewed_by: string | null;
   resolution_notes: string | null;
   created_at: string;
@@ -181,6 +183,9 @@ export default function ComplaintsContent({
                 <SelectItem value="all">All Statuses</SelectItem>
                 <SelectItem value="submitted">Submitted</SelectItem>
                 <SelectItem value="reviewed">Reviewed</SelectItem>
+                <SelectItem value="in_mediation">In mediation</SelectItem>
+                <SelectItem value="warning_issued">Warning issued</SelectItem>
+                <SelectItem value="escalated">Escalated</SelectItem>
                 <SelectItem value="resolved">Resolved</SelectItem>
               </SelectContent>
             </Select>
@@ -283,6 +288,7 @@ export default function ComplaintsContent({
             setSelectedComplaintForReview(null);
           }}
           onSuccess={handleComplaintUpdated}
+          currentUserId={currentUserId}
         />
       )}
     </div>
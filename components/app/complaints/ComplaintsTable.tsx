@@ -19,6 +19,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Complaint } from './ComplaintsContent';
+import ComplaintThread from './ComplaintThread';
 import {
   Dialog,
   DialogContent,
@@ -41,11 +42,29 @@ const getStatusBadgeColor = (status: string) => {
   const colors: Record<string, string> = {
     submitted: 'bg-yellow-100 text-yellow-800 border-yellow-300',
     reviewed: 'bg-blue-100 text-blue-800 border-blue-300',
+    in_mediation: 'bg-indigo-100 text-indigo-800 border-indigo-300',
+    warning_issued: 'bg-orange-100 text-orange-800 border-orange-300',
+    escalated: 'bg-red-100 text-red-800 border-red-300',
     resolved: 'bg-green-100 text-green-800 border-green-300',
   };
   return colors[status] || colors.submitted;
 };
 
+/**
+ * Get status display text
+ */
+const getStatusText = (status: string) => {
+  const statusMap: Record<string, string> = {
+    submitted: 'Submitted',
+    reviewed: 'Reviewed',
+    in_mediation: 'In mediation',
+    warning_issued: 'Warning issued',
+    escalated: 'Escalated',
+    resolved: 'Resolved',
+  };
+  return statusMap[status] || status;
+};
+
 /**
  * Get reason display text
  */
@@ -211,7 +230,7 @@ export default function ComplaintsTable({
                       variant="outline"
                       className={getStatusBadgeColor(complaint.status)}
                     >
-                      {complaint.status}
+                      {getStatusText(complaint.status)}
                     </Badge>
                   </TableCell>
                   <TableCell>
@@ -278,7 +297,7 @@ export default function ComplaintsTable({
                     variant="outline"
                     className={getStatusBadgeColor(selectedComplaint.status)}
                   >
-                    {selectedComplaint.status}
+                    {getStatusText(selectedComplaint.status)}
                   </Badge>
                 </div>
                 <div>
@@ -311,6 +330,18 @@ export default function ComplaintsTable({
                     <p className="text-base">{formatDate(selectedComplaint.reviewed_at)}</p>
                   </div>
                 )}
+                {selectedComplaint.warning_issued_at && (
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Warning Issued</p>
+                    <p className="text-base">{formatDate(selectedComplaint.warning_issued_at)}</p>
+                  </div>
+                )}
+                {selectedComplaint.escalated_at && (
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Escalated</p>
+                    <p className="text-base">{formatDate(selectedComplaint.escalated_at)}</p>
+                  </div>
+                )}
                 {selectedComplaint.resolved_at && (
                   <div>
                     <p className="text-sm font-medium text-muted-foreground">Resolved</p>
@@ -340,6 +371,15 @@ export default function ComplaintsTable({
                   </p>
                 </div>
               )}
+
+              {/* Mediation with the syndic (parties only; the syndic uses the review dialog) */}
+              {!canReview && (
+                <ComplaintThread
+                  complaintId={selectedComplaint.id}
+                  currentUserId={currentUserId}
+                  closed={selectedComplaint.status === 'resolved'}
+                />
+              )}
             </div>
           </DialogContent>
         </Dialog>
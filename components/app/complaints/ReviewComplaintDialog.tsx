@@ -22,6 +22,9 @@ import {
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Complaint } from './ComplaintsContent';
+import ComplaintEvidenceGallery from './ComplaintEvidenceGallery';
+import ComplaintHistoryCard from './ComplaintHistoryCard';
+import ComplaintThread from './ComplaintThread';
 import { updateComplaintStatus } from '@/app/app/complaints/actions';
 import toast from 'react-hot-toast';
 
@@ -30,6 +33,7 @@ interface ReviewComplaintDialogProps {
   complaint: Complaint;
   onClose: () => void;
   onSuccess: (complaint: Complaint) => void;
+  currentUserId?: string;
 }
 
 /**
@@ -57,6 +61,7 @@ export default function ReviewComplaintDialog({
   complaint,
   onClose,
   onSuccess,
+  currentUserId,
 }: ReviewComplaintDialogProps) {
   console.log('[ReviewComplaintDialog] Dialog render - open:', open);
 
@@ -126,7 +131,7 @@ export default function ReviewComplaintDialog({
         <DialogHeader>
           <DialogTitle>Review Complaint</DialogTitle>
           <DialogDescription>
-            Review and update the status of this complaint. Add resolution notes if applicable.
+            Review the complaint, talk to each party and update its status. Add resolution notes if applicable.
           </DialogDescription>
         </DialogHeader>
 
@@ -180,6 +185,23 @@ export default function ReviewComplaintDialog({
             </div>
           </div>
 
+          {/* Evidence */}
+          <ComplaintEvidenceGallery complaintId={complaint.id} />
+
+          {/* Repeat offences */}
+          <ComplaintHistoryCard
+            residentId={complaint.complained_about_id}
+            residentName={complaint.complained_about_name}
+            currentComplaintId={complaint.id}
+          />
+
+          {/* Mediation */}
+          <ComplaintThread
+            complaintId={complaint.id}
+            currentUserId={currentUserId}
+            closed={complaint.status === 'resolved'}
+          />
+
           {/* Status Update */}
           <div className="space-y-2 border-t pt-4">
             <Label htmlFor="status">
@@ -195,6 +217,9 @@ export default function ReviewComplaintDialog({
               <SelectContent>
                 <SelectItem value="submitted">Submitted</SelectItem>
                 <SelectItem value="reviewed">Reviewed</SelectItem>
+                <SelectItem value="in_mediation">In mediation</SelectItem>
+                <SelectItem value="warning_issued">Warning issued</SelectItem>
+                <SelectItem value="escalated">Escalated</SelectItem>
                 <SelectItem value="resolved">Resolved</SelectItem>
               </SelectContent>
             </Select>
@@ -238,6 +263,16 @@ export default function ReviewComplaintDialog({
                     {complaint.reviewer_name && ` by ${complaint.reviewer_name}`}
                   </p>
                 )}
+                {complaint.warning_issued_at && (
+                  <p className="text-muted-foreground">
+                    Warning issued: {formatDate(complaint.warning_issued_at)}
+                  </p>
+                )}
+                {complaint.escalated_at && (
+                  <p className="text-muted-foreground">
+                    Escalated: {formatDate(complaint.escalated_at)}
+                  </p>
+                )}
                 {complaint.resolved_at && (
                   <p className="text-muted-foreground">
                     Resolved: {formatDate(complaint.resolved_at)}
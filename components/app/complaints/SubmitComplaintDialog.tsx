@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { Loader2 } from 'lucide-react';
+import { Loader2, Paperclip, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -23,7 +23,8 @@ import {
 } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Complaint } from './ComplaintsContent';
-import { createComplaint, getResidentsForComplaint } from '@/app/app/complaints/actions';
+import { createComplaint, getResidentsForComplaint, uploadComplaintEvidence } from '@/app/app/complaints/actions';
+import { EVIDENCE_MIME_TYPES, MAX_EVIDENCE_PER_COMPLAINT, validateEvidenceFile } from '@/lib/complaint-evidence-utils';
 import toast from 'react-hot-toast';
 
 interface SubmitComplaintDialogProps {
@@ -56,6 +57,7 @@ export default function SubmitComplaintDialog({
   const [privacy, setPrivacy] = useState<'private' | 'anonymous'>('private');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
 
   // Residents list
   const [residents, setResidents] = useState<Array<{ id: string; full_name: string; apartment_number: string | null }>>([]);
@@ -107,9 +109,31 @@ export default function SubmitComplaintDialog({
     setPrivacy('private');
     setTitle('');
     setDescription('');
+    setEvidenceFiles([]);
     setErrors({});
   };
 
+  const handleEvidenceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const accepted: File[] = [];
+    for (const file of selected) {
+      const { error } = validateEvidenceFile(file);
+      if (error) {
+        toast.error(`${file.name}: ${error}`);
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    const files = [...evidenceFiles, ...accepted];
+    if (files.length > MAX_EVIDENCE_PER_COMPLAINT) {
+      toast.error(`You can attach at most ${MAX_EVIDENCE_PER_COMPLAINT} files`);
+    }
+    setEvidenceFiles(files.slice(0, MAX_EVIDENCE_PER_COMPLAINT));
+  };
+
   // Validate form
   const validateForm = (): boolean => {
     const newErrors: typeof errors = {};
@@ -178,7 +202,25 @@ export default function SubmitComplaintDialog({
           residence_name: residenceName || 'Unknown',
         };
 
-        toast.success('Complaint submitted successfully');
+        // Attach the evidence now that the complaint exists
+        let failedUploads = 0;
+        for (const file of evidenceFiles) {
+          const formData = new FormData();
+          formData.append('complaint_id', String(result.data.id));
+          formData.append('file', file);
+
+          const uploadResult = await uploadComplaintEvidence(formData);
+          if (!uploadResult.success) {
+            console.error('[SubmitComplaintDialog] Evidence upload failed:', uploadResult.error);
+            failedUploads++;
+          }
+        }
+
+        if (failedUploads > 0) {
+          toast.error(`Complaint submitted, but ${failedUploads} evidence file(s) could not be uploaded`);
+        } else {
+          toast.success('Complaint submitted successfully');
+        }
         resetForm();
         onSuccess(newComplaint);
         onClose();
@@ -349,6 +391,44 @@ export default function SubmitComplaintDialog({
                 Minimum 10 characters required
               </p>
             </div>
+
+            {/* Evidence */}
+            <div className="space-y-2">
+              <Label htmlFor="evidence">Evidence (optional)</Label>
+              <Input
+                id="evidence"
+                type="file"
+                multiple
+                accept={Object.keys(EVIDENCE_MIME_TYPES).join(',')}
+                onChange={handleEvidenceChange}
+                disabled={submitting || evidenceFiles.length >= MAX_EVIDENCE_PER_COMPLAINT}
+              />
+              {evidenceFiles.length > 0 && (
+                <ul className="space-y-1">
+                  {evidenceFiles.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="flex items-center gap-2 truncate">
+                        <Paperclip className="h-3 w-3 shrink-0" />
+                        <span className="truncate">{file.name}</span>
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEvidenceFiles((prev) => prev.filter((_, i) => i !== index))}
+                        disabled={submitting}
+                        aria-label={`Remove ${file.name}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Photos (max 10MB), audio recordings (max 25MB) or videos (max 50MB), up to {MAX_EVIDENCE_PER_COMPLAINT} files. Only the syndic can see them, never the person you are complaining about.
+              </p>
+            </div>
           </div>
 
           <DialogFooter>
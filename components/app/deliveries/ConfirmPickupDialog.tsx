@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PackageCheck, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Delivery } from './DeliveriesContent';
+import { confirmPickup } from '@/app/app/deliveries/actions';
+import toast from 'react-hot-toast';
+
+interface ConfirmPickupDialogProps {
+  open: boolean;
+  delivery: Delivery | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+/**
+ * Confirm Pickup Dialog Component
+ * The guard enters the code shown by the resident to hand the parcel over
+ */
+export default function ConfirmPickupDialog({
+  open,
+  delivery,
+  onClose,
+  onSuccess,
+}: ConfirmPickupDialogProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setCode('');
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!delivery) return;
+
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError('Enter the 6-digit code shown by the resident');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const result = await confirmPickup(delivery.id, code.trim());
+
+      if (result.success) {
+        toast.success('Pickup recorded');
+        onSuccess();
+        onClose();
+      } else {
+        setError(result.error || 'Failed to record pickup');
+      }
+    } catch (error: any) {
+      console.error('[ConfirmPickupDialog] Error confirming pickup:', error);
+      toast.error(error.message || 'Failed to record pickup');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!delivery) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackageCheck className="h-5 w-5" />
+            Confirm Pickup
+          </DialogTitle>
+          <DialogDescription>
+            {delivery.description} for {delivery.recipient_name}
+            {delivery.apartment_number ? ` (${delivery.apartment_number})` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-2">
+            <Label htmlFor="pickup-code">
+              Pickup code <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="pickup-code"
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value);
+                if (error) setError(null);
+              }}
+              inputMode="numeric"
+              maxLength={6}
+              placeholder="000000"
+              className={`tracking-widest text-center text-lg ${error ? 'border-destructive' : ''}`}
+              aria-invalid={!!error}
+              autoFocus
+            />
+            {error && (
+              <p className="text-sm text-destructive" role="alert">{error}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-gray-900 hover:bg-gray-800 text-white"
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm Pickup
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
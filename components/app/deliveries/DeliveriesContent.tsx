@@ -0,0 +1,304 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Plus, Package, PackageCheck, PackageX, Search, KeyRound, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import LogDeliveryDialog from './LogDeliveryDialog';
+import ConfirmPickupDialog from './ConfirmPickupDialog';
+import DeliveryHistoryDialog from './DeliveryHistoryDialog';
+import UncollectedDeliveriesDialog from './UncollectedDeliveriesDialog';
+import { motion } from 'framer-motion';
+
+/**
+ * Delivery data structure
+ * pickup_code is only sent to the recipient
+ */
+export interface Delivery {
+  id: number;
+  residence_id: number;
+  recipient_id: string;
+  recipient_name: string;
+  apartment_number: string | null;
+  logged_by: string;
+  logged_by_name: string;
+  description: string;
+  carrier: string | null;
+  pickup_code: string | null;
+  picked_up_at: string | null;
+  handed_over_by: string | null;
+  handed_over_by_name: string | null;
+  created_at: string;
+}
+
+export interface DeliveryResident {
+  id: string;
+  full_name: string;
+  apartment_number: string;
+}
+
+type DeliveryFilter = 'waiting' | 'picked_up';
+
+interface DeliveriesContentProps {
+  initialDeliveries: Delivery[];
+  residents: DeliveryResident[];
+  currentUserRole?: string;
+}
+
+/**
+ * Deliveries Content Component
+ * Guards log parcels and confirm pickups, residents see their parcels and pickup codes
+ */
+export default function DeliveriesContent({
+  initialDeliveries,
+  residents,
+  currentUserRole,
+}: DeliveriesContentProps) {
+  console.log('[DeliveriesContent] Component mounted with', initialDeliveries.length, 'deliveries');
+
+  const router = useRouter();
+
+  const [deliveries, setDeliveries] = useState<Delivery[]>(initialDeliveries);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filter, setFilter] = useState<DeliveryFilter>('waiting');
+  const [showLogDialog, setShowLogDialog] = useState(false);
+  const [showUncollectedDialog, setShowUncollectedDialog] = useState(false);
+  const [selectedForPickup, setSelectedForPickup] = useState<Delivery | null>(null);
+  const [selectedResident, setSelectedResident] = useState<DeliveryResident | null>(null);
+
+  // Sync local state with server data when it refreshes
+  useEffect(() => {
+    setDeliveries(initialDeliveries);
+  }, [initialDeliveries]);
+
+  const isStaff = currentUserRole === 'guard' || currentUserRole === 'syndic';
+
+  const counts = useMemo(() => ({
+    waiting: deliveries.filter((d) => !d.picked_up_at).length,
+    picked_up: deliveries.filter((d) => !!d.picked_up_at).length,
+  }), [deliveries]);
+
+  // Filter deliveries based on search and pickup status
+  const filteredDeliveries = useMemo(() => {
+    let filtered = deliveries.filter((d) => (filter === 'waiting' ? !d.picked_up_at : !!d.picked_up_at));
+
+    if (searchQuery.trim()) {
+      const query = searchQuery.toLowerCase();
+      filtered = filtered.filter(
+        (d) =>
+          d.description.toLowerCase().includes(query) ||
+          d.recipient_name.toLowerCase().includes(query) ||
+          (d.apartment_number || '').toLowerCase().includes(query) ||
+          (d.carrier || '').toLowerCase().includes(query)
+      );
+    }
+
+    return filtered;
+  }, [deliveries, searchQuery, filter]);
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const openHistory = (delivery: Delivery) => {
+    setSelectedResident({
+      id: delivery.recipient_id,
+      full_name: delivery.recipient_name,
+      apartment_number: delivery.apartment_number || '',
+    });
+  };
+
+  return (
+    <div className="space-y-8 relative pb-20 px-1">
+      {/* Header Section with Search, Status Tabs and Actions */}
+      <div className="flex flex-col lg:flex-row gap-6 items-start lg:items-center justify-between bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <div className="flex flex-col sm:flex-row gap-4 items-center w-full lg:w-auto flex-1">
+          <div className="relative flex-1 w-full sm:max-w-md group">
+            <Search className="absolute left-3.5 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400 group-focus-within:text-gray-600 transition-colors" />
+            <Input
+              placeholder={isStaff ? 'Search by resident, apartment or parcel...' : 'Search parcels...'}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 bg-gray-50 border-gray-200 focus:bg-white focus:border-gray-300 rounded-xl transition-all duration-200 h-11"
+              aria-label="Search deliveries"
+            />
+          </div>
+
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as DeliveryFilter)}>
+            <TabsList>
+              <TabsTrigger value="waiting">Waiting ({counts.waiting})</TabsTrigger>
+              <TabsTrigger value="picked_up">Picked up ({counts.picked_up})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="flex gap-2">
+          {currentUserRole === 'syndic' && (
+            <Button
+              variant="outline"
+              onClick={() => setShowUncollectedDialog(true)}
+              className="flex items-center gap-2 h-11 rounded-xl"
+            >
+              <PackageX className="h-4 w-4" />
+              Uncollected Report
+            </Button>
+          )}
+          {isStaff && (
+            <Button
+              onClick={() => setShowLogDialog(true)}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md transition-all hover:scale-105 h-11 rounded-xl px-6"
+              aria-label="Log delivery"
+            >
+              <Plus className="h-4 w-4" />
+              Log Delivery
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Deliveries List */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="space-y-3"
+      >
+        {filteredDeliveries.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <Package className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              <p className="font-medium">No deliveries</p>
+              <p className="text-sm">
+                {filter === 'waiting'
+                  ? isStaff
+                    ? 'No parcel is waiting at the gate.'
+                    : 'You have no parcel waiting at the gate.'
+                  : 'Collected parcels will appear here.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          filteredDeliveries.map((delivery) => (
+            <Card key={delivery.id}>
+              <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium flex items-center gap-2">
+                    <Package className="h-4 w-4 text-muted-foreground" />
+                    {delivery.description}
+                    {delivery.carrier && (
+                      <span className="text-xs text-muted-foreground font-normal">· {delivery.carrier}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground flex flex-wrap items-center gap-2">
+                    {isStaff && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => openHistory(delivery)}
+                          className="hover:underline flex items-center gap-1"
+                          aria-label={`Delivery history of ${delivery.recipient_name}`}
+                        >
+                          <History className="h-3 w-3" />
+                          {delivery.recipient_name}
+                          {delivery.apartment_number ? ` (${delivery.apartment_number})` : ''}
+                        </button>
+                        <span>•</span>
+                      </>
+                    )}
+                    <span>Received {formatDateTime(delivery.created_at)}</span>
+                    {delivery.picked_up_at && (
+                      <>
+                        <span>•</span>
+                        <span>
+                          Picked up {formatDateTime(delivery.picked_up_at)}
+                          {delivery.handed_over_by_name ? ` (${delivery.handed_over_by_name})` : ''}
+                        </span>
+                      </>
+                    )}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {delivery.picked_up_at ? (
+                    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300">
+                      <PackageCheck className="h-3 w-3 mr-1" />
+                      Picked up
+                    </Badge>
+                  ) : isStaff ? (
+                    <Button
+                      size="sm"
+                      onClick={() => setSelectedForPickup(delivery)}
+                      className="bg-gray-900 hover:bg-gray-800 text-white"
+                    >
+                      <PackageCheck className="h-4 w-4 mr-1" />
+                      Confirm Pickup
+                    </Button>
+                  ) : delivery.pickup_code ? (
+                    <div className="flex items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 px-3 py-1.5">
+                      <KeyRound className="h-4 w-4 text-blue-600" />
+                      <span className="text-xs text-blue-800">Pickup code</span>
+                      <span className="font-mono font-semibold tracking-widest text-blue-900">
+                        {delivery.pickup_code}
+                      </span>
+                    </div>
+                  ) : (
+                    <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-300">
+                      Waiting
+                    </Badge>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </motion.div>
+
+      {/* Log Dialog */}
+      {isStaff && (
+        <LogDeliveryDialog
+          open={showLogDialog}
+          residents={residents}
+          onClose={() => setShowLogDialog(false)}
+          onSuccess={() => router.refresh()}
+        />
+      )}
+
+      {/* Pickup Dialog */}
+      {isStaff && (
+        <ConfirmPickupDialog
+          open={!!selectedForPickup}
+          delivery={selectedForPickup}
+          onClose={() => setSelectedForPickup(null)}
+          onSuccess={() => router.refresh()}
+        />
+      )}
+
+      {/* History Dialog */}
+      {isStaff && (
+        <DeliveryHistoryDialog
+          open={!!selectedResident}
+          resident={selectedResident}
+          onClose={() => setSelectedResident(null)}
+        />
+      )}
+
+      {/* Uncollected Report Dialog */}
+      {currentUserRole === 'syndic' && (
+        <UncollectedDeliveriesDialog
+          open={showUncollectedDialog}
+          onClose={() => setShowUncollectedDialog(false)}
+        />
+      )}
+    </div>
+  );
+}
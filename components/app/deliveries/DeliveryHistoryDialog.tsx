@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Delivery, DeliveryResident } from './DeliveriesContent';
+import { getResidentDeliveries } from '@/app/app/deliveries/actions';
+import toast from 'react-hot-toast';
+
+interface DeliveryHistoryDialogProps {
+  open: boolean;
+  resident: DeliveryResident | null;
+  onClose: () => void;
+}
+
+/**
+ * Delivery History Dialog Component
+ * Shows every parcel received for one resident
+ */
+export default function DeliveryHistoryDialog({ open, resident, onClose }: DeliveryHistoryDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+
+  useEffect(() => {
+    if (!open || !resident) return;
+
+    let cancelled = false;
+    setLoading(true);
+    getResidentDeliveries(resident.id)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success && result.data) {
+          setDeliveries(result.data as Delivery[]);
+        } else {
+          toast.error(result.error || 'Failed to load delivery history');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, resident]);
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (!resident) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Delivery History
+          </DialogTitle>
+          <DialogDescription>
+            {resident.full_name}
+            {resident.apartment_number ? ` — Apartment ${resident.apartment_number}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="py-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Handed over by</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No deliveries for this resident
+                  </TableCell>
+                </TableRow>
+              ) : (
+                deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell>{formatDateTime(delivery.created_at)}</TableCell>
+                    <TableCell>
+                      {delivery.description}
+                      {delivery.carrier && (
+                        <span className="text-xs text-muted-foreground"> · {delivery.carrier}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {delivery.picked_up_at ? (
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300">
+                          Picked up {formatDateTime(delivery.picked_up_at)}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-300">
+                          Waiting
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{delivery.handed_over_by_name || '—'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Package, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DeliveryResident } from './DeliveriesContent';
+import { createDelivery } from '@/app/app/deliveries/actions';
+import toast from 'react-hot-toast';
+
+interface LogDeliveryDialogProps {
+  open: boolean;
+  residents: DeliveryResident[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+/**
+ * Log Delivery Dialog Component
+ * Records a parcel received at the gate; the recipient is notified with a pickup code
+ */
+export default function LogDeliveryDialog({
+  open,
+  residents,
+  onClose,
+  onSuccess,
+}: LogDeliveryDialogProps) {
+  const [submitting, setSubmitting] = useState(false);
+
+  // Form state
+  const [recipientId, setRecipientId] = useState('');
+  const [description, setDescription] = useState('');
+  const [carrier, setCarrier] = useState('');
+
+  const [errors, setErrors] = useState<{ recipient?: string; description?: string }>({});
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setRecipientId('');
+      setDescription('');
+      setCarrier('');
+      setErrors({});
+    }
+  }, [open]);
+
+  const validateForm = (): boolean => {
+    const newErrors: typeof errors = {};
+    if (!recipientId) newErrors.recipient = 'Recipient is required';
+    if (!description.trim()) newErrors.description = 'Description is required';
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setSubmitting(true);
+
+    try {
+      const result = await createDelivery({
+        recipient_id: recipientId,
+        description: description.trim(),
+        carrier: carrier.trim() || null,
+      });
+
+      if (result.success) {
+        toast.success('Delivery logged, the resident has been notified');
+        onSuccess();
+        onClose();
+      } else {
+        toast.error(result.error || 'Failed to log delivery');
+      }
+    } catch (error: any) {
+      console.error('[LogDeliveryDialog] Error logging delivery:', error);
+      toast.error(error.message || 'Failed to log delivery');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            Log Delivery
+          </DialogTitle>
+          <DialogDescription>
+            The recipient receives a notification with the code to show at pickup.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Recipient */}
+          <div className="grid gap-2">
+            <Label>
+              Recipient <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              value={recipientId}
+              onValueChange={(value) => {
+                setRecipientId(value);
+                if (errors.recipient) setErrors({ ...errors, recipient: undefined });
+              }}
+            >
+              <SelectTrigger className={errors.recipient ? 'border-destructive' : ''}>
+                <SelectValue placeholder="Select a resident..." />
+              </SelectTrigger>
+              <SelectContent>
+                {residents.map((resident) => (
+                  <SelectItem key={`${resident.id}-${resident.apartment_number}`} value={resident.id}>
+                    {resident.apartment_number} — {resident.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.recipient && (
+              <p className="text-sm text-destructive" role="alert">{errors.recipient}</p>
+            )}
+          </div>
+
+          {/* Description */}
+          <div className="grid gap-2">
+            <Label htmlFor="delivery-description">
+              Description <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="delivery-description"
+              value={description}
+              onChange={(e) => {
+                setDescription(e.target.value);
+                if (errors.description) setErrors({ ...errors, description: undefined });
+              }}
+              placeholder="e.g. Medium box, fragile"
+              aria-invalid={!!errors.description}
+              className={errors.description ? 'border-destructive' : ''}
+            />
+            {errors.description && (
+              <p className="text-sm text-destructive" role="alert">{errors.description}</p>
+            )}
+          </div>
+
+          {/* Carrier */}
+          <div className="grid gap-2">
+            <Label htmlFor="delivery-carrier">Carrier (Optional)</Label>
+            <Input
+              id="delivery-carrier"
+              value={carrier}
+              onChange={(e) => setCarrier(e.target.value)}
+              placeholder="e.g. Amana, DHL, Jumia"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-gray-900 hover:bg-gray-800 text-white"
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitting ? 'Saving...' : 'Log Delivery'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
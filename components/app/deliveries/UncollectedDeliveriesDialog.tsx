@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { PackageX, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Delivery } from './DeliveriesContent';
+import { getUncollectedReport } from '@/app/app/deliveries/actions';
+import toast from 'react-hot-toast';
+
+interface UncollectedDeliveriesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const DEFAULT_DAYS = 7;
+
+/**
+ * Uncollected Deliveries Dialog Component
+ * Syndic report of parcels still waiting at the gate after N days
+ */
+export default function UncollectedDeliveriesDialog({ open, onClose }: UncollectedDeliveriesDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [days, setDays] = useState(String(DEFAULT_DAYS));
+  const [deliveries, setDeliveries] = useState<(Delivery & { days_waiting: number })[]>([]);
+
+  const loadReport = useCallback(async (olderThanDays: number) => {
+    setLoading(true);
+    try {
+      const result = await getUncollectedReport(olderThanDays);
+      if (result.success && result.data) {
+        setDeliveries(result.data as (Delivery & { days_waiting: number })[]);
+      } else {
+        toast.error(result.error || 'Failed to load report');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setDays(String(DEFAULT_DAYS));
+      loadReport(DEFAULT_DAYS);
+    }
+  }, [open, loadReport]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(days);
+    if (isNaN(value) || value < 0) {
+      toast.error('Enter a valid number of days');
+      return;
+    }
+    loadReport(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackageX className="h-5 w-5" />
+            Uncollected Parcels
+          </DialogTitle>
+          <DialogDescription>
+            Parcels still waiting at the gate, oldest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex items-end gap-2">
+          <div className="grid gap-2">
+            <Label htmlFor="uncollected-days">Waiting for at least (days)</Label>
+            <Input
+              id="uncollected-days"
+              type="number"
+              min="0"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Refresh
+          </Button>
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Apartment</TableHead>
+              <TableHead>Recipient</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Days waiting</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  {loading ? 'Loading...' : 'No uncollected parcels'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-medium">{delivery.apartment_number || '—'}</TableCell>
+                  <TableCell>{delivery.recipient_name}</TableCell>
+                  <TableCell>{delivery.description}</TableCell>
+                  <TableCell className="text-right">{delivery.days_waiting}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
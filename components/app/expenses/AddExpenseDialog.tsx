@@ -74,6 +74,7 @@ export default function AddExpenseDialog({
   const [category, setCategory] = useState('');
   const [amount, setAmount] = useState('');
   const [expenseDate, setExpenseDate] = useState('');
+  const [fundingSource, setFundingSource] = useState<'cash' | 'bank'>('cash');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
   const [attachmentUrl, setAttachmentUrl] = useState<string | null>(null);
@@ -102,6 +103,7 @@ export default function AddExpenseDialog({
     setAmount('');
     const today = new Date().toISOString().split('T')[0];
     setExpenseDate(today);
+    setFundingSource('cash');
     setSelectedFile(null);
     setFilePreview(null);
     setAttachmentUrl(null);
@@ -232,6 +234,7 @@ export default function AddExpenseDialog({
         category,
         amount: Number(amount),
         expense_date: expenseDate,
+        funding_source: fundingSource,
         residence_id: currentUserResidenceId,
         attachment_url: finalAttachmentUrl || undefined,
       });
@@ -361,30 +364,45 @@ export default function AddExpenseDialog({
             </div>
           </div>
 
-          {/* Expense Date */}
-          <div className="grid gap-2">
-            <Label htmlFor="expense-date">
-              Expense Date <span className="text-destructive">*</span>
-            </Label>
-            <Input
-              id="expense-date"
-              type="date"
-              value={expenseDate}
-              onChange={(e) => {
-                setExpenseDate(e.target.value);
-                if (errors.expenseDate) {
-                  setErrors({ ...errors, expenseDate: undefined });
-                }
-              }}
-              aria-invalid={!!errors.expenseDate}
-              aria-describedby={errors.expenseDate ? 'expense-date-error' : undefined}
-              className={errors.expenseDate ? 'border-destructive' : ''}
-            />
-            {errors.expenseDate && (
-              <p id="expense-date-error" className="text-sm text-destructive" role="alert">
-                {errors.expenseDate}
-              </p>
-            )}
+          {/* Expense Date and Funding Source */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="expense-date">
+                Expense Date <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="expense-date"
+                type="date"
+                value={expenseDate}
+                onChange={(e) => {
+                  setExpenseDate(e.target.value);
+                  if (errors.expenseDate) {
+                    setErrors({ ...errors, expenseDate: undefined });
+                  }
+                }}
+                aria-invalid={!!errors.expenseDate}
+                aria-describedby={errors.expenseDate ? 'expense-date-error' : undefined}
+                className={errors.expenseDate ? 'border-destructive' : ''}
+              />
+              {errors.expenseDate && (
+                <p id="expense-date-error" className="text-sm text-destructive" role="alert">
+                  {errors.expenseDate}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="expense-funding-source">Paid From</Label>
+              <Select value={fundingSource} onValueChange={(value) => setFundingSource(value as 'cash' | 'bank')}>
+                <SelectTrigger id="expense-funding-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="bank">Bank</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {/* File Upload */}
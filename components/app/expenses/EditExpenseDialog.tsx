@@ -72,6 +72,7 @@ export default function EditExpenseDialog({
   const [category, setCategory] = useState('');
   const [amount, setAmount] = useState('');
   const [expenseDate, setExpenseDate] = useState('');
+  const [fundingSource, setFundingSource] = useState<'cash' | 'bank'>('cash');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
   const [attachmentUrl, setAttachmentUrl] = useState<string | null>(null);
@@ -92,6 +93,7 @@ export default function EditExpenseDialog({
       setCategory(expense.category || '');
       setAmount(expense.amount?.toString() || '');
       setExpenseDate(expense.expense_date ? expense.expense_date.split('T')[0] : '');
+      setFundingSource(expense.funding_source === 'bank' ? 'bank' : 'cash');
       setExistingAttachmentUrl(expense.attachment_url || null);
       setAttachmentUrl(expense.attachment_url || null);
       setSelectedFile(null);
@@ -226,6 +228,7 @@ export default function EditExpenseDialog({
         category,
         amount: Number(amount),
         expense_date: expenseDate,
+        funding_source: fundingSource,
         attachment_url: finalAttachmentUrl || undefined,
       });
 
@@ -355,30 +358,45 @@ export default function EditExpenseDialog({
             </div>
           </div>
 
-          {/* Expense Date */}
-          <div className="grid gap-2">
-            <Label htmlFor="edit-expense-date">
-              Expense Date <span className="text-destructive">*</span>
-            </Label>
-            <Input
-              id="edit-expense-date"
-              type="date"
-              value={expenseDate}
-              onChange={(e) => {
-                setExpenseDate(e.target.value);
-                if (errors.expenseDate) {
-                  setErrors({ ...errors, expenseDate: undefined });
-                }
-              }}
-              aria-invalid={!!errors.expenseDate}
-              aria-describedby={errors.expenseDate ? 'edit-expense-date-error' : undefined}
-              className={errors.expenseDate ? 'border-destructive' : ''}
-            />
-            {errors.expenseDate && (
-              <p id="edit-expense-date-error" className="text-sm text-destructive" role="alert">
-                {errors.expenseDate}
-              </p>
-            )}
+          {/* Expense Date and Funding Source */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="edit-expense-date">
+                Expense Date <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="edit-expense-date"
+                type="date"
+                value={expenseDate}
+                onChange={(e) => {
+                  setExpenseDate(e.target.value);
+                  if (errors.expenseDate) {
+                    setErrors({ ...errors, expenseDate: undefined });
+                  }
+                }}
+                aria-invalid={!!errors.expenseDate}
+                aria-describedby={errors.expenseDate ? 'edit-expense-date-error' : undefined}
+                className={errors.expenseDate ? 'border-destructive' : ''}
+              />
+              {errors.expenseDate && (
+                <p id="edit-expense-date-error" className="text-sm text-destructive" role="alert">
+                  {errors.expenseDate}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="edit-expense-funding-source">Paid From</Label>
+              <Select value={fundingSource} onValueChange={(value) => setFundingSource(value as 'cash' | 'bank')}>
+                <SelectTrigger id="edit-expense-funding-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="bank">Bank</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {/* File Upload */}
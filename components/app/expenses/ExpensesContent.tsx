@@ -13,7 +13,7 @@ import EditExpenseDialog from './EditExpenseDialog';
 import DeleteExpenseDialog from './DeleteExpenseDialog';
 import toast from 'react-hot-toast';
 import { motion } from 'framer-motion';
-import { deleteExpense } from '@/app/app/expenses/actions';
+import { confirmExpense, deleteExpense } from '@/app/app/expenses/actions';
 
 /**
  * Expense data structure
@@ -26,6 +26,9 @@ export interface Expense {
   amount: number;
   attachment_url: string | null;
   expense_date: string; // ISO date string
+  funding_source?: 'cash' | 'bank';
+  status?: 'draft' | 'recorded'; // Drafts come from bank statement debits
+  incident_id?: number | null; // Set for contractor invoices of an incident
   created_by: string | null;
   created_at: string;
   creator_name?: string;
@@ -193,6 +196,32 @@ export default function ExpensesContent({
     }
   };
 
+  /**
+   * Handle draft expense confirmed
+   */
+  const handleExpenseConfirmed = async (expenseId: number) => {
+    console.log('[ExpensesContent] Confirming draft expense:', expenseId);
+    setLoading(true);
+
+    try {
+      const result = await confirmExpense(expenseId);
+      if (result.success) {
+        setExpenses((prev) =>
+          prev.map((e) => (e.id === expenseId ? { ...e, status: 'recorded' } : e))
+        );
+        router.refresh(); // Refresh server data
+        toast.success('Expense recorded');
+      } else {
+        toast.error(result.error || 'Failed to record expense');
+      }
+    } catch (error: any) {
+      console.error('[ExpensesContent] Error confirming expense:', error);
+      toast.error(error.message || 'Failed to record expense');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Check if user can manage expenses (syndic only)
   const canManageExpenses = currentUserRole === 'syndic';
 
@@ -316,6 +345,7 @@ export default function ExpensesContent({
             console.log('[ExpensesContent] Delete expense clicked:', expense);
             setSelectedExpenseForDelete(expense);
           }}
+          onConfirm={(expense) => handleExpenseConfirmed(expense.id)}
           loading={loading}
           canManage={canManageExpenses}
         />
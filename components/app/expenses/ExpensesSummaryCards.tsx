@@ -16,14 +16,15 @@ interface ExpensesSummaryCardsProps {
 export default function ExpensesSummaryCards({ expenses }: ExpensesSummaryCardsProps) {
   console.log('[ExpensesSummaryCards] Rendering with', expenses.length, 'expenses');
 
-  // Calculate summary statistics
+  // Calculate summary statistics (drafts aren't spent until confirmed)
   const summary = useMemo(() => {
-    const total = expenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
-    const count = expenses.length;
+    const recorded = expenses.filter((expense) => expense.status !== 'draft');
+    const total = recorded.reduce((sum, expense) => sum + Number(expense.amount), 0);
+    const count = recorded.length;
     const average = count > 0 ? total / count : 0;
 
     // Calculate expenses by category
-    const byCategory = expenses.reduce((acc, expense) => {
+    const byCategory = recorded.reduce((acc, expense) => {
       const category = expense.category || 'Other';
       if (!acc[category]) {
         acc[category] = 0;
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { MoreVertical, Edit, Trash2, Eye, Paperclip, ArrowUpDown, ArrowUp, ArrowDown, Download, Receipt } from 'lucide-react';
+import { MoreVertical, Edit, Trash2, Eye, Paperclip, ArrowUpDown, ArrowUp, ArrowDown, Download, Receipt, CheckCircle2 } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -33,6 +33,7 @@ interface ExpensesTableProps {
   expenses: Expense[];
   onEdit: (expense: Expense) => void;
   onDelete: (expense: Expense) => void;
+  onConfirm?: (expense: Expense) => void;
   loading?: boolean;
   canManage?: boolean;
 }
@@ -70,6 +71,7 @@ export default function ExpensesTable({
   expenses,
   onEdit,
   onDelete,
+  onConfirm,
   loading,
   canManage,
 }: ExpensesTableProps) {
@@ -229,8 +231,20 @@ export default function ExpensesTable({
                     {formatDate(expense.expense_date)}
                   </TableCell>
                   <TableCell>
-                    <div className="max-w-[300px] truncate" title={expense.description}>
-                      {expense.description}
+                    <div className="flex items-center gap-2 max-w-[300px]">
+                      <span className="truncate" title={expense.description}>
+                        {expense.description}
+                      </span>
+                      {expense.status === 'draft' && (
+                        <Badge variant="secondary" className="shrink-0" title="Imported from a bank statement, not in the books yet">
+                          Draft
+                        </Badge>
+                      )}
+                      {expense.incident_id && (
+                        <Badge variant="outline" className="shrink-0" title="Repair paid for this incident">
+                          Incident #{expense.incident_id}
+                        </Badge>
+                      )}
                     </div>
                   </TableCell>
                   <TableCell>
@@ -243,6 +257,9 @@ export default function ExpensesTable({
                   </TableCell>
                   <TableCell className="text-right font-semibold">
                     {formatCurrency(Number(expense.amount))}
+                    <span className="block text-xs font-normal text-muted-foreground">
+                      {expense.funding_source === 'bank' ? 'Bank' : 'Cash'}
+                    </span>
                   </TableCell>
                   <TableCell className="text-center">
                     {expense.attachment_url ? (
@@ -284,6 +301,14 @@ export default function ExpensesTable({
                             View Details
                           </DropdownMenuItem>
                           <DropdownMenuSeparator />
+                          {expense.status === 'draft' && onConfirm && (
+                            <DropdownMenuItem
+                              onClick={() => onConfirm(expense)}
+                            >
+                              <CheckCircle2 className="mr-2 h-4 w-4" />
+                              Confirm
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem
                             onClick={() => onEdit(expense)}
                           >
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Mail, Pencil, Phone, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getContractors, saveContractor } from '@/app/app/incidents/actions';
+import { CONTRACTOR_TRADES, type Contractor, type ContractorTrade } from '@/lib/work-order-utils';
+import toast from 'react-hot-toast';
+
+interface ContractorsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export const TRADE_LABELS: Record<ContractorTrade, string> = {
+  plumbing: 'Plumbing',
+  electrical: 'Electrical',
+  locksmith: 'Locksmith',
+  cleaning: 'Cleaning',
+  elevator: 'Elevator',
+  painting: 'Painting',
+  general: 'General works',
+  other: 'Other',
+};
+
+const EMPTY_FORM = {
+  name: '',
+  trade: 'general' as ContractorTrade,
+  phone: '',
+  email: '',
+  notes: '',
+};
+
+/**
+ * Contractors Dialog Component
+ * Directory of the outside contractors the syndic sends incidents to
+ */
+export default function ContractorsDialog({ open, onClose }: ContractorsDialogProps) {
+  const [contractors, setContractors] = useState<Contractor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function fetchContractors() {
+      console.log('[ContractorsDialog] Fetching contractors');
+      setLoading(true);
+
+      try {
+        const result = await getContractors({ includeInactive: true });
+        if (result.success && result.data) {
+          setContractors(result.data);
+        } else {
+          toast.error(result.error || 'Failed to load contractors');
+        }
+      } catch (error: any) {
+        console.error('[ContractorsDialog] Error fetching contractors:', error);
+        toast.error(error.message || 'Failed to load contractors');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchContractors();
+  }, [open]);
+
+  const startEdit = (contractor: Contractor | null) => {
+    setEditingId(contractor?.id || null);
+    setForm(contractor ? {
+      name: contractor.name,
+      trade: contractor.trade,
+      phone: contractor.phone || '',
+      email: contractor.email || '',
+      notes: contractor.notes || '',
+    } : EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const replaceContractor = (contractor: Contractor) => {
+    setContractors((prev) => {
+      const exists = prev.some((c) => c.id === contractor.id);
+      const next = exists ? prev.map((c) => (c.id === contractor.id ? contractor : c)) : [...prev, contractor];
+      return next.sort((a, b) => Number(b.active) - Number(a.active) || a.name.localeCompare(b.name));
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.name.trim()) {
+      toast.error('Contractor name is required');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const result = await saveContractor({ id: editingId, ...form });
+      if (result.success && result.data) {
+        replaceContractor(result.data);
+        setShowForm(false);
+        setEditingId(null);
+        toast.success(editingId ? 'Contractor updated' : 'Contractor added');
+      } else {
+        toast.error(result.error || 'Failed to save contractor');
+      }
+    } catch (error: any) {
+      console.error('[ContractorsDialog] Error saving contractor:', error);
+      toast.error(error.message || 'Failed to save contractor');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (contractor: Contractor) => {
+    try {
+      const result = await saveContractor({ id: contractor.id, active: !contractor.active });
+      if (result.success && result.data) {
+        replaceContractor(result.data);
+      } else {
+        toast.error(result.error || 'Failed to update contractor');
+      }
+    } catch (error: any) {
+      console.error('[ContractorsDialog] Error updating contractor:', error);
+      toast.error(error.message || 'Failed to update contractor');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Contractors</DialogTitle>
+          <DialogDescription>
+            Plumbers, electricians and other companies you send incidents to
+          </DialogDescription>
+        </DialogHeader>
+
+        {showForm ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="contractor-name">Name *</Label>
+                <Input
+                  id="contractor-name"
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Atlas Plomberie"
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contractor-trade">Trade</Label>
+                <Select
+                  value={form.trade}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, trade: value as ContractorTrade }))}
+                  disabled={saving}
+                >
+                  <SelectTrigger id="contractor-trade">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONTRACTOR_TRADES.map((trade) => (
+                      <SelectItem key={trade} value={trade}>{TRADE_LABELS[trade]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contractor-phone">Phone</Label>
+                <Input
+                  id="contractor-phone"
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm((prev) => ({ ...prev, phone: e.target.value }))}
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contractor-email">Email</Label>
+                <Input
+                  id="contractor-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contractor-notes">Notes</Label>
+              <Textarea
+                id="contractor-notes"
+                value={form.notes}
+                onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+                placeholder="Opening hours, rates, contact person..."
+                rows={2}
+                disabled={saving}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingId ? 'Save Changes' : 'Add Contractor'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button type="button" onClick={() => startEdit(null)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Contractor
+              </Button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading contractors...
+              </div>
+            ) : contractors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No contractors yet. Add the companies you work with to send them incidents.</p>
+            ) : (
+              <ul className="divide-y rounded-lg border">
+                {contractors.map((contractor) => (
+                  <li key={contractor.id} className={`flex items-start justify-between gap-4 p-3 ${contractor.active ? '' : 'opacity-60'}`}>
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{contractor.name}</span>
+                        <Badge variant="outline">{TRADE_LABELS[contractor.trade]}</Badge>
+                        {!contractor.active && <Badge variant="outline">Inactive</Badge>}
+                      </div>
+                      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                        {contractor.phone && (
+                          <a href={`tel:${contractor.phone}`} className="flex items-center gap-1 hover:underline">
+                            <Phone className="h-3 w-3" />
+                            {contractor.phone}
+                          </a>
+                        )}
+                        {contractor.email && (
+                          <a href={`mailto:${contractor.email}`} className="flex items-center gap-1 hover:underline">
+                            <Mail className="h-3 w-3" />
+                            {contractor.email}
+                          </a>
+                        )}
+                      </div>
+                      {contractor.notes && (
+                        <p className="text-xs text-muted-foreground whitespace-pre-wrap">{contractor.notes}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => startEdit(contractor)} aria-label={`Edit ${contractor.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleToggleActive(contractor)}>
+                        {contractor.active ? 'Deactivate' : 'Reactivate'}
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
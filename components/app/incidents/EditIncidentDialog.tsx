@@ -1,8 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import Image from 'next/image';
-import { AlertCircle, Loader2, X } from 'lucide-react';
+import { AlertCircle, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -23,7 +22,16 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Incident } from './IncidentsContent';
-import { updateIncident, uploadIncidentPhoto, getAssignableUsers } from '@/app/app/incidents/actions';
+import IncidentTimeline from './IncidentTimeline';
+import { updateIncident, getAssignableUsers } from '@/app/app/incidents/actions';
+import {
+  INCIDENT_CATEGORIES,
+  INCIDENT_CATEGORY_LABELS,
+  INCIDENT_PRIORITIES,
+  INCIDENT_PRIORITY_LABELS,
+  type IncidentCategory,
+  type IncidentPriority,
+} from '@/lib/incident-sla-utils';
 import toast from 'react-hot-toast';
 
 interface EditIncidentDialogProps {
@@ -33,11 +41,23 @@ interface EditIncidentDialogProps {
   onSuccess: (incident: Incident) => void;
   canManage?: boolean;
   currentUserResidenceId?: number | null;
+  currentUserId?: string;
+}
+
+/**
+ * Convert an ISO date to the value expected by a datetime-local input
+ */
+function toDateTimeLocal(iso?: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
 }
 
 /**
  * Edit Incident Dialog Component
- * Form for editing existing incidents with status/assignment management
+ * Form for editing existing incidents with status/assignment management, followed
+ * by the incident's photos and activity timeline
  */
 export default function EditIncidentDialog({
   open,
@@ -46,11 +66,11 @@ export default function EditIncidentDialog({
   onSuccess,
   canManage,
   currentUserResidenceId,
+  currentUserId,
 }: EditIncidentDialogProps) {
   console.log('[EditIncidentDialog] Dialog render - open:', open, 'incident:', incident?.id);
 
   const [submitting, setSubmitting] = useState(false);
-  const [uploading, setUploading] = useState(false);
   const [loadingAssignableUsers, setLoadingAssignableUsers] = useState(false);
   const [assignableUsers, setAssignableUsers] = useState<{ id: string; full_name: string; role: string }[]>([]);
 
@@ -59,10 +79,9 @@ export default function EditIncidentDialog({
   const [description, setDescription] = useState('');
   const [status, setStatus] = useState<'open' | 'in_progress' | 'resolved' | 'closed'>('open');
   const [assignedTo, setAssignedTo] = useState<string>('');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [filePreview, setFilePreview] = useState<string | null>(null);
-  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
-  const [existingPhotoUrl, setExistingPhotoUrl] = useState<string | null>(null);
+  const [interventionAt, setInterventionAt] = useState('');
+  const [category, setCategory] = useState<IncidentCategory>('other');
+  const [priority, setPriority] = useState<IncidentPriority>('normal');
 
   // Helper to get display value for Select (convert null/empty to "unassigned")
   const getAssignedToValue = (value: string | null | undefined) => {
@@ -108,74 +127,13 @@ export default function EditIncidentDialog({
       setDescription(incident.description || '');
       setStatus(incident.status || 'open');
       setAssignedTo(incident.assigned_to || 'unassigned');
-      setExistingPhotoUrl(incident.photo_url || null);
-      setPhotoUrl(incident.photo_url || null);
-      setSelectedFile(null);
-      setFilePreview(null);
+      setInterventionAt(toDateTimeLocal(incident.intervention_at));
+      setCategory(incident.category || 'other');
+      setPriority(incident.priority || 'normal');
       setErrors({});
     }
   }, [incident, open]);
 
-  // Handle file selection
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    console.log('[EditIncidentDialog] File selected:', file.name);
-
-    // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/jpg', 'image/webp'];
-    if (!allowedTypes.includes(file.type)) {
-      toast.error('Invalid file type. Please upload an image file.');
-      return;
-    }
-
-    // Validate file size
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
-      toast.error('File size too large. Maximum size is 10MB.');
-      return;
-    }
-
-    setSelectedFile(file);
-
-    // Create preview
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setFilePreview(reader.result as string);
-    };
-    reader.readAsDataURL(file);
-  };
-
-  // Upload file before submitting
-  const handleUploadFile = async (): Promise<string | null> => {
-    if (!selectedFile) return null;
-
-    setUploading(true);
-    console.log('[EditIncidentDialog] Uploading file:', selectedFile.name);
-
-    try {
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-
-      const result = await uploadIncidentPhoto(formData);
-
-      if (result.success && result.url) {
-        console.log('[EditIncidentDialog] File uploaded successfully:', result.url);
-        return result.url;
-      } else {
-        toast.error(result.error || 'Failed to upload photo');
-        return null;
-      }
-    } catch (error: any) {
-      console.error('[EditIncidentDialog] Error uploading file:', error);
-      toast.error(error.message || 'Failed to upload photo');
-      return null;
-    } finally {
-      setUploading(false);
-    }
-  };
-
   // Validate form
   const validateForm = (): boolean => {
     const newErrors: typeof errors = {};
@@ -210,31 +168,20 @@ export default function EditIncidentDialog({
     setSubmitting(true);
 
     try {
-      // Upload new photo first if selected
-      let finalPhotoUrl = photoUrl;
-      if (selectedFile) {
-        const uploadedUrl = await handleUploadFile();
-        if (uploadedUrl) {
-          finalPhotoUrl = uploadedUrl;
-        } else {
-          // Keep existing photo if upload fails
-          console.warn('[EditIncidentDialog] Photo upload failed, keeping existing photo');
-          finalPhotoUrl = existingPhotoUrl;
-        }
-      }
-
       // Update incident
       const updateData: any = {
         id: incident.id,
         title: title.trim(),
         description: description.trim(),
-        photo_url: finalPhotoUrl || undefined,
+        category,
       };
 
       // Only syndics can update status and assignment
       if (canManage) {
         updateData.status = status;
+        updateData.priority = priority;
         updateData.assigned_to = assignedTo === 'unassigned' ? null : assignedTo || null;
+        updateData.intervention_at = interventionAt ? new Date(interventionAt).toISOString() : null;
       }
 
       const result = await updateIncident(updateData);
@@ -325,7 +272,22 @@ export default function EditIncidentDialog({
             )}
           </div>
 
-          {/* Status and Assignment (Syndic only) */}
+          {/* Category */}
+          <div className="grid gap-2">
+            <Label htmlFor="edit-incident-category">Category</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as IncidentCategory)}>
+              <SelectTrigger id="edit-incident-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INCIDENT_CATEGORIES.map((c) => (
+                  <SelectItem key={c} value={c}>{INCIDENT_CATEGORY_LABELS[c]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Status, Priority and Assignment (Syndic only) */}
           {canManage && (
             <div className="grid grid-cols-2 gap-4">
               <div className="grid gap-2">
@@ -344,6 +306,20 @@ export default function EditIncidentDialog({
               </div>
 
               <div className="grid gap-2">
+                <Label htmlFor="edit-incident-priority">Priority</Label>
+                <Select value={priority} onValueChange={(value) => setPriority(value as IncidentPriority)}>
+                  <SelectTrigger id="edit-incident-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INCIDENT_PRIORITIES.map((p) => (
+                      <SelectItem key={p} value={p}>{INCIDENT_PRIORITY_LABELS[p]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-2 col-span-2">
                 <Label htmlFor="edit-incident-assigned">Assign To</Label>
                 <Select value={getAssignedToValue(assignedTo)} onValueChange={(value) => setAssignedTo(value === 'unassigned' ? '' : value)}>
                   <SelectTrigger id="edit-incident-assigned">
@@ -363,81 +339,43 @@ export default function EditIncidentDialog({
                   </SelectContent>
                 </Select>
               </div>
-            </div>
-          )}
 
-          {/* Photo Upload */}
-          <div className="grid gap-2">
-            <Label htmlFor="edit-incident-photo">Photo</Label>
-            {existingPhotoUrl && !selectedFile && (
-              <div className="mb-2 p-2 bg-gray-50 rounded border">
-                <p className="text-sm text-muted-foreground mb-2">Current photo:</p>
-                <div className="relative w-full max-w-xs h-48">
-                  <Image
-                    src={existingPhotoUrl}
-                    alt="Current incident photo"
-                    fill
-                    className="rounded border object-contain"
-                  />
-                </div>
-              </div>
-            )}
-            <div className="flex items-center gap-4">
-              <Input
-                id="edit-incident-photo"
-                type="file"
-                accept="image/*"
-                onChange={handleFileChange}
-                className="cursor-pointer"
-              />
-              {selectedFile && (
-                <div className="flex items-center gap-2">
-                  <span className="text-sm text-muted-foreground">{selectedFile.name}</span>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {
-                      setSelectedFile(null);
-                      setFilePreview(null);
-                      setPhotoUrl(existingPhotoUrl);
-                    }}
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                </div>
-              )}
-            </div>
-            {filePreview && (
-              <div className="mt-2 relative w-full max-w-xs h-48">
-                <Image
-                  src={filePreview}
-                  alt="Preview"
-                  fill
-                  unoptimized
-                  className="rounded border object-contain"
+              <div className="grid gap-2 col-span-2">
+                <Label htmlFor="edit-incident-intervention">Intervention (Optional)</Label>
+                <Input
+                  id="edit-incident-intervention"
+                  type="datetime-local"
+                  value={interventionAt}
+                  onChange={(e) => setInterventionAt(e.target.value)}
                 />
+                <p className="text-xs text-muted-foreground">
+                  When the technician is expected. Shown on the residence calendar.
+                </p>
               </div>
-            )}
-            <p className="text-xs text-muted-foreground">
-              Upload a new photo to replace the current one (max 10MB)
-            </p>
-          </div>
+            </div>
+          )}
 
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={onClose} disabled={submitting || uploading}>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
               Cancel
             </Button>
             <Button 
               type="submit" 
-              disabled={submitting || uploading}
+              disabled={submitting}
               className="bg-gray-900 hover:bg-gray-800 text-white"
             >
-              {(submitting || uploading) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              {uploading ? 'Uploading...' : submitting ? 'Saving...' : 'Save Changes'}
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitting ? 'Saving...' : 'Save Changes'}
             </Button>
           </DialogFooter>
         </form>
+
+        {/* Photos and activity are saved as they are added, outside the form */}
+        <IncidentTimeline
+          incidentId={incident.id}
+          currentUserId={currentUserId}
+          closed={incident.status === 'closed'}
+        />
       </DialogContent>
     </Dialog>
   );
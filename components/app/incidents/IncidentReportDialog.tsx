@@ -15,8 +15,16 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Incident } from './IncidentsContent';
 import { createIncident, uploadIncidentPhoto } from '@/app/app/incidents/actions';
+import { INCIDENT_CATEGORIES, INCIDENT_CATEGORY_LABELS, type IncidentCategory } from '@/lib/incident-sla-utils';
 import toast from 'react-hot-toast';
 
 interface IncidentReportDialogProps {
@@ -46,6 +54,7 @@ export default function IncidentReportDialog({
   // Form state
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<IncidentCategory>('other');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
   const [photoUrl, setPhotoUrl] = useState<string | null>(null);
@@ -66,6 +75,7 @@ export default function IncidentReportDialog({
   const resetForm = () => {
     setTitle('');
     setDescription('');
+    setCategory('other');
     setSelectedFile(null);
     setFilePreview(null);
     setPhotoUrl(null);
@@ -185,6 +195,7 @@ export default function IncidentReportDialog({
         description: description.trim(),
         residence_id: currentUserResidenceId,
         photo_url: finalPhotoUrl || undefined,
+        category,
       });
 
       if (result.success && result.data) {
@@ -249,6 +260,21 @@ export default function IncidentReportDialog({
             )}
           </div>
 
+          {/* Category */}
+          <div className="grid gap-2">
+            <Label htmlFor="incident-category">Category</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as IncidentCategory)}>
+              <SelectTrigger id="incident-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INCIDENT_CATEGORIES.map((c) => (
+                  <SelectItem key={c} value={c}>{INCIDENT_CATEGORY_LABELS[c]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Description */}
           <div className="grid gap-2">
             <Label htmlFor="incident-description">
@@ -0,0 +1,515 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Download, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  deleteSlaTarget,
+  exportSlaReportCsv,
+  getSlaReport,
+  getSlaTargets,
+  saveSlaTarget,
+} from '@/app/app/incidents/actions';
+import {
+  DEFAULT_SLA_TARGETS,
+  INCIDENT_CATEGORIES,
+  INCIDENT_CATEGORY_LABELS,
+  INCIDENT_PRIORITIES,
+  INCIDENT_PRIORITY_LABELS,
+  type IncidentCategory,
+  type IncidentPriority,
+  type SlaReport,
+  type SlaReportRow,
+  type SlaTarget,
+} from '@/lib/incident-sla-utils';
+import { downloadCSV } from '@/lib/csv';
+import toast from 'react-hot-toast';
+
+interface IncidentSlaDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Select value standing for "any category" or "any priority"
+const ANY = 'any';
+
+const EMPTY_FORM = {
+  category: ANY,
+  priority: ANY,
+  acknowledge_hours: '',
+  resolve_hours: '',
+};
+
+/**
+ * Describe which incidents a target applies to
+ */
+const describeScope = (target: Pick<SlaTarget, 'category' | 'priority'>) => {
+  if (!target.category && !target.priority) return 'All incidents';
+  const category = target.category ? INCIDENT_CATEGORY_LABELS[target.category] : 'Any category';
+  const priority = target.priority ? `${INCIDENT_PRIORITY_LABELS[target.priority]} priority` : 'any priority';
+  return `${category} · ${priority}`;
+};
+
+/**
+ * Incident SLA Dialog Component
+ * Response targets of the residence per category and/or priority, and the monthly
+ * compliance report of the incidents against them
+ */
+export default function IncidentSlaDialog({ open, onClose }: IncidentSlaDialogProps) {
+  const [targets, setTargets] = useState<SlaTarget[]>([]);
+  const [loadingTargets, setLoadingTargets] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [report, setReport] = useState<SlaReport | null>(null);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function fetchTargets() {
+      console.log('[IncidentSlaDialog] Fetching SLA targets');
+      setLoadingTargets(true);
+
+      try {
+        const result = await getSlaTargets();
+        if (result.success && result.data) {
+          setTargets(result.data);
+        } else {
+          toast.error(result.error || 'Failed to load SLA targets');
+        }
+      } catch (error: any) {
+        console.error('[IncidentSlaDialog] Error fetching SLA targets:', error);
+        toast.error(error.message || 'Failed to load SLA targets');
+      } finally {
+        setLoadingTargets(false);
+      }
+    }
+
+    fetchTargets();
+  }, [open]);
+
+  const loadReport = useCallback(async () => {
+    console.log('[IncidentSlaDialog] Fetching SLA report for:', month);
+    setLoadingReport(true);
+
+    try {
+      const result = await getSlaReport(month);
+      if (result.success && result.data) {
+        setReport(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load SLA report');
+      }
+    } catch (error: any) {
+      console.error('[IncidentSlaDialog] Error fetching SLA report:', error);
+      toast.error(error.message || 'Failed to load SLA report');
+    } finally {
+      setLoadingReport(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    if (open && month) {
+      loadReport();
+    }
+  }, [open, month, loadReport]);
+
+  const startEdit = (target: SlaTarget | null) => {
+    setEditingId(target?.id || null);
+    setForm(target ? {
+      category: target.category || ANY,
+      priority: target.priority || ANY,
+      acknowledge_hours: String(target.acknowledge_hours),
+      resolve_hours: String(target.resolve_hours),
+    } : EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const acknowledgeHours = Number(form.acknowledge_hours);
+    const resolveHours = Number(form.resolve_hours);
+    if (!acknowledgeHours || !resolveHours) {
+      toast.error('Both targets are required');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const result = await saveSlaTarget({
+        id: editingId,
+        category: form.category === ANY ? null : form.category as IncidentCategory,
+        priority: form.priority === ANY ? null : form.priority as IncidentPriority,
+        acknowledge_hours: acknowledgeHours,
+        resolve_hours: resolveHours,
+      });
+      if (result.success && result.data) {
+        const saved = result.data;
+        setTargets((prev) => editingId ? prev.map((t) => (t.id === saved.id ? saved : t)) : [...prev, saved]);
+        setShowForm(false);
+        setEditingId(null);
+        toast.success(editingId ? 'Target updated' : 'Target added');
+        loadReport();
+      } else {
+        toast.error(result.error || 'Failed to save target');
+      }
+    } catch (error: any) {
+      console.error('[IncidentSlaDialog] Error saving SLA target:', error);
+      toast.error(error.message || 'Failed to save target');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (target: SlaTarget) => {
+    try {
+      const result = await deleteSlaTarget(target.id);
+      if (result.success) {
+        setTargets((prev) => prev.filter((t) => t.id !== target.id));
+        toast.success('Target removed');
+        loadReport();
+      } else {
+        toast.error(result.error || 'Failed to remove target');
+      }
+    } catch (error: any) {
+      console.error('[IncidentSlaDialog] Error deleting SLA target:', error);
+      toast.error(error.message || 'Failed to remove target');
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+
+    try {
+      const result = await exportSlaReportCsv(month);
+      if (result.success && result.data) {
+        downloadCSV(result.data.csv, result.data.filename);
+        toast.success('Report exported');
+      } else {
+        toast.error(result.error || 'Failed to export report');
+      }
+    } catch (error: any) {
+      console.error('[IncidentSlaDialog] Error exporting SLA report:', error);
+      toast.error(error.message || 'Failed to export report');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderRows = (rows: SlaReportRow[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead></TableHead>
+          <TableHead className="text-right">Incidents</TableHead>
+          <TableHead className="text-right">Ack. late</TableHead>
+          <TableHead className="text-right">Resolved late</TableHead>
+          <TableHead className="text-right">In progress</TableHead>
+          <TableHead className="text-right">Compliance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            <TableCell className="text-right">{row.incidents}</TableCell>
+            <TableCell className="text-right">{row.acknowledge_breached}</TableCell>
+            <TableCell className="text-right">{row.resolve_breached}</TableCell>
+            <TableCell className="text-right">{row.pending}</TableCell>
+            <TableCell className="text-right">{row.compliance !== null ? `${row.compliance}%` : '—'}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  const breaches = report?.incidents.filter((i) => i.sla.breached) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Incident SLA</DialogTitle>
+          <DialogDescription>
+            How fast incidents must be acknowledged and resolved, and how well the residence keeps up
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="report">
+          <TabsList>
+            <TabsTrigger value="report">Monthly Report</TabsTrigger>
+            <TabsTrigger value="targets">Targets</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="report" className="space-y-4">
+            <div className="flex items-end justify-between gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sla-month">Incidents reported in</Label>
+                <Input
+                  id="sla-month"
+                  type="month"
+                  value={month}
+                  onChange={(e) => setMonth(e.target.value)}
+                  className="w-44"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleExport}
+                disabled={exporting || !report || report.incidents.length === 0}
+                className="gap-2"
+              >
+                {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                Export CSV
+              </Button>
+            </div>
+
+            {loadingReport || !report ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading report...
+              </div>
+            ) : report.totals.incidents === 0 ? (
+              <p className="text-sm text-muted-foreground">No incidents were reported this month.</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  <div className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">Compliance</p>
+                    <p className="text-2xl font-semibold">
+                      {report.totals.compliance !== null ? `${report.totals.compliance}%` : '—'}
+                    </p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">Incidents</p>
+                    <p className="text-2xl font-semibold">{report.totals.incidents}</p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">Targets missed</p>
+                    <p className="text-2xl font-semibold text-red-700">{report.totals.breached}</p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">Within target, open</p>
+                    <p className="text-2xl font-semibold">{report.totals.pending}</p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">By category</p>
+                  {renderRows(report.by_category)}
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">By priority</p>
+                  {renderRows(report.by_priority)}
+                </div>
+
+                {breaches.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Missed targets</p>
+                    <ul className="divide-y rounded-lg border">
+                      {breaches.map((incident) => (
+                        <li key={incident.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">#{incident.id} {incident.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {INCIDENT_CATEGORY_LABELS[incident.category]} · {INCIDENT_PRIORITY_LABELS[incident.priority]}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-1 shrink-0">
+                            {incident.sla.acknowledge === 'breached' && (
+                              <Badge variant="outline" className="bg-red-50 text-red-800 border-red-200">
+                                Ack. &gt; {incident.sla.acknowledge_hours}h
+                              </Badge>
+                            )}
+                            {incident.sla.resolve === 'breached' && (
+                              <Badge variant="outline" className="bg-red-50 text-red-800 border-red-200">
+                                Resolution &gt; {incident.sla.resolve_hours}h
+                              </Badge>
+                            )}
+                            {incident.sla.overdue && <Badge variant="outline">Still open</Badge>}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="targets" className="space-y-4">
+            {showForm ? (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="sla-category">Category</Label>
+                    <Select
+                      value={form.category}
+                      onValueChange={(value) => setForm((prev) => ({ ...prev, category: value }))}
+                      disabled={saving}
+                    >
+                      <SelectTrigger id="sla-category">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any category</SelectItem>
+                        {INCIDENT_CATEGORIES.map((c) => (
+                          <SelectItem key={c} value={c}>{INCIDENT_CATEGORY_LABELS[c]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sla-priority">Priority</Label>
+                    <Select
+                      value={form.priority}
+                      onValueChange={(value) => setForm((prev) => ({ ...prev, priority: value }))}
+                      disabled={saving}
+                    >
+                      <SelectTrigger id="sla-priority">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any priority</SelectItem>
+                        {INCIDENT_PRIORITIES.map((p) => (
+                          <SelectItem key={p} value={p}>{INCIDENT_PRIORITY_LABELS[p]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sla-acknowledge">Acknowledge within (hours)</Label>
+                    <Input
+                      id="sla-acknowledge"
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={form.acknowledge_hours}
+                      onChange={(e) => setForm((prev) => ({ ...prev, acknowledge_hours: e.target.value }))}
+                      placeholder="e.g., 2"
+                      disabled={saving}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sla-resolve">Resolve within (hours)</Label>
+                    <Input
+                      id="sla-resolve"
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={form.resolve_hours}
+                      onChange={(e) => setForm((prev) => ({ ...prev, resolve_hours: e.target.value }))}
+                      placeholder="e.g., 48"
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Both clocks start when the incident is reported. The most specific target applies.
+                </p>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setShowForm(false)} disabled={saving}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saving}>
+                    {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {editingId ? 'Save Changes' : 'Add Target'}
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex justify-end">
+                  <Button type="button" onClick={() => startEdit(null)} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Add Target
+                  </Button>
+                </div>
+
+                {loadingTargets ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading targets...
+                  </div>
+                ) : targets.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No targets of your own yet: the defaults below apply. Add one, for example water leaks acknowledged in 2 hours and resolved in 48.
+                  </p>
+                ) : (
+                  <ul className="divide-y rounded-lg border">
+                    {targets.map((target) => (
+                      <li key={target.id} className="flex items-center justify-between gap-4 p-3">
+                        <div className="space-y-1 min-w-0">
+                          <p className="font-medium truncate">{describeScope(target)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Acknowledge in {target.acknowledge_hours}h · resolve in {target.resolve_hours}h
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Button type="button" variant="ghost" size="sm" onClick={() => startEdit(target)} aria-label={`Edit ${describeScope(target)}`}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" variant="ghost" size="sm" onClick={() => handleDelete(target)} aria-label={`Remove ${describeScope(target)}`}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-muted-foreground">Defaults by priority</p>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {INCIDENT_PRIORITIES.map((p) => (
+                      <div key={p} className="rounded-lg border p-2 text-xs">
+                        <p className="font-medium">{INCIDENT_PRIORITY_LABELS[p]}</p>
+                        <p className="text-muted-foreground">
+                          {DEFAULT_SLA_TARGETS[p].acknowledge_hours}h / {DEFAULT_SLA_TARGETS[p].resolve_hours}h
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import {
+  Activity,
+  ArrowRight,
+  CalendarClock,
+  Camera,
+  CirclePlus,
+  Loader2,
+  MessageSquare,
+  Send,
+  UserCheck,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { addIncidentPhoto, commentOnIncident, getIncidentActivity, uploadIncidentPhoto } from '@/app/app/incidents/actions';
+import {
+  MAX_COMMENT_LENGTH,
+  type IncidentActivity,
+  type IncidentActivityType,
+  type IncidentPhotoPhase,
+  type IncidentTimeline as Timeline,
+} from '@/lib/incident-activity-utils';
+import toast from 'react-hot-toast';
+
+interface IncidentTimelineProps {
+  incidentId: number;
+  currentUserId?: string;
+  closed?: boolean; // closed incidents are read-only
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+const ACTIVITY_ICONS: Record<IncidentActivityType, typeof Activity> = {
+  created: CirclePlus,
+  status_changed: ArrowRight,
+  assigned: UserCheck,
+  intervention_scheduled: CalendarClock,
+  comment: MessageSquare,
+  photo_added: Camera,
+};
+
+const PHASE_LABELS: Record<IncidentPhotoPhase, string> = {
+  before: 'Before',
+  after: 'After',
+};
+
+/**
+ * Format date and time
+ */
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Incident Timeline Component
+ * Before/after photos and the append-only activity log of an incident: status
+ * changes, reassignments, interventions, comments and photos, with who and when
+ */
+export default function IncidentTimeline({ incidentId, currentUserId, closed }: IncidentTimelineProps) {
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comment, setComment] = useState('');
+  const [sending, setSending] = useState(false);
+  const [phase, setPhase] = useState<IncidentPhotoPhase>('before');
+  const [uploading, setUploading] = useState(false);
+
+  const loadTimeline = useCallback(async () => {
+    console.log('[IncidentTimeline] Fetching activity for incident:', incidentId);
+
+    try {
+      const result = await getIncidentActivity(incidentId);
+      if (result.success && result.data) {
+        setTimeline(result.data);
+      } else {
+        console.error('[IncidentTimeline] Error:', result.error);
+      }
+    } catch (error: any) {
+      console.error('[IncidentTimeline] Error fetching activity:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [incidentId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadTimeline();
+  }, [loadTimeline]);
+
+  const appendActivity = (entry: IncidentActivity) => {
+    setTimeline((prev) => (prev ? { ...prev, activity: [...prev.activity, entry] } : prev));
+  };
+
+  async function handleComment() {
+    const body = comment.trim();
+    if (!body) return;
+
+    setSending(true);
+
+    try {
+      const result = await commentOnIncident({ incident_id: incidentId, body });
+      if (result.success && result.data) {
+        appendActivity(result.data);
+        setComment('');
+      } else {
+        toast.error(result.error || 'Failed to post comment');
+      }
+    } catch (error: any) {
+      console.error('[IncidentTimeline] Error posting comment:', error);
+      toast.error(error.message || 'Failed to post comment');
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function handlePhoto(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const upload = await uploadIncidentPhoto(formData);
+      if (!upload.success || !upload.url) {
+        toast.error(upload.error || 'Failed to upload photo');
+        return;
+      }
+
+      const result = await addIncidentPhoto({ incident_id: incidentId, url: upload.url, phase });
+      if (result.success) {
+        await loadTimeline();
+        toast.success('Photo added');
+      } else {
+        toast.error(result.error || 'Failed to add photo');
+      }
+    } catch (error: any) {
+      console.error('[IncidentTimeline] Error adding photo:', error);
+      toast.error(error.message || 'Failed to add photo');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  // One line describing an activity entry
+  const describe = (entry: IncidentActivity) => {
+    const actor = entry.actor_id && entry.actor_id === currentUserId ? 'You' : entry.actor_name || 'System';
+
+    switch (entry.type) {
+      case 'created':
+        return `${actor} reported the incident`;
+      case 'status_changed':
+        return `${actor} changed the status from ${STATUS_LABELS[entry.from_value || ''] || entry.from_value} to ${STATUS_LABELS[entry.to_value || ''] || entry.to_value}`;
+      case 'assigned':
+        return entry.to_label
+          ? `${actor} assigned the incident to ${entry.to_label}${entry.from_label ? ` (was ${entry.from_label})` : ''}`
+          : `${actor} unassigned ${entry.from_label || 'the incident'}`;
+      case 'intervention_scheduled':
+        return entry.to_value
+          ? `${actor} scheduled the intervention for ${formatDateTime(entry.to_value)}`
+          : `${actor} cancelled the scheduled intervention`;
+      case 'comment':
+        return `${actor} commented`;
+      case 'photo_added':
+        return `${actor} added ${entry.to_value === 'after' ? 'an after-repair' : 'a'} photo`;
+      default:
+        return actor;
+    }
+  };
+
+  const renderPhotos = (photoPhase: IncidentPhotoPhase) => {
+    const photos = timeline?.photos.filter((photo) => photo.phase === photoPhase) || [];
+    if (photos.length === 0) return null;
+
+    return (
+      <div className="space-y-1">
+        <p className="text-xs font-medium text-muted-foreground">{PHASE_LABELS[photoPhase]} ({photos.length})</p>
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {photos.map((photo) => (
+            <a
+              key={photo.id}
+              href={photo.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block relative h-24"
+              title={photo.caption || `${PHASE_LABELS[photo.phase]} · ${formatDateTime(photo.created_at)}`}
+            >
+              <Image
+                src={photo.url}
+                alt={photo.caption || `${PHASE_LABELS[photo.phase]} photo`}
+                fill
+                className="rounded border object-cover"
+              />
+            </a>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground border-t pt-4">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading activity...
+      </div>
+    );
+  }
+
+  if (!timeline) {
+    return null;
+  }
+
+  const canContribute = timeline.can_contribute && !closed;
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      {/* Photo sets */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <Camera className="h-4 w-4" />
+          Photos
+        </p>
+        {timeline.photos.length === 0 && (
+          <p className="text-sm text-muted-foreground">No photos yet.</p>
+        )}
+        {renderPhotos('before')}
+        {renderPhotos('after')}
+        {canContribute && (
+          <div className="flex items-center gap-2">
+            <Select value={phase} onValueChange={(value) => setPhase(value as IncidentPhotoPhase)} disabled={uploading}>
+              <SelectTrigger className="w-28" aria-label="Photo type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="before">Before</SelectItem>
+                <SelectItem value="after">After</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              onChange={handlePhoto}
+              className="cursor-pointer"
+              aria-label="Add photo"
+              disabled={uploading}
+            />
+            {uploading && <Loader2 className="h-4 w-4 animate-spin shrink-0" />}
+          </div>
+        )}
+      </div>
+
+      {/* Activity log */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <Activity className="h-4 w-4" />
+          Activity
+        </p>
+        <ol className="space-y-3 max-h-80 overflow-y-auto">
+          {timeline.activity.map((entry) => {
+            const Icon = ACTIVITY_ICONS[entry.type] || Activity;
+            return (
+              <li key={entry.id} className="flex gap-3">
+                <div className="mt-0.5 h-6 w-6 shrink-0 rounded-full bg-gray-100 flex items-center justify-center">
+                  <Icon className="h-3 w-3 text-gray-600" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm">{describe(entry)}</p>
+                  {entry.body && (
+                    <p className={`text-sm whitespace-pre-wrap ${entry.type === 'comment' ? 'mt-1 rounded-lg bg-gray-50 p-2' : 'text-muted-foreground'}`}>
+                      {entry.body}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">{formatDateTime(entry.created_at)}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+
+        {canContribute && (
+          <div className="flex gap-2 items-end">
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Add a comment..."
+              maxLength={MAX_COMMENT_LENGTH}
+              rows={2}
+              aria-label="Comment"
+            />
+            <Button
+              type="button"
+              onClick={handleComment}
+              disabled={sending || !comment.trim()}
+              aria-label="Post comment"
+            >
+              {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
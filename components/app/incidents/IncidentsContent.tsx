@@ -2,7 +2,7 @@
 
 import { useState, useMemo, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Plus, AlertCircle, LayoutGrid, Table as TableIcon } from 'lucide-react';
+import { Plus, AlertCircle, LayoutGrid, Table as TableIcon, HardHat, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -10,9 +10,13 @@ import IncidentsTable from './IncidentsTable';
 import IncidentReportDialog from './IncidentReportDialog';
 import EditIncidentDialog from './EditIncidentDialog';
 import DeleteIncidentDialog from './DeleteIncidentDialog';
+import ContractorsDialog from './ContractorsDialog';
+import WorkOrdersDialog from './WorkOrdersDialog';
+import IncidentSlaDialog from './IncidentSlaDialog';
 import toast from 'react-hot-toast';
 import { motion } from 'framer-motion';
 import { deleteIncident } from '@/app/app/incidents/actions';
+import type { IncidentCategory, IncidentPriority, SlaState } from '@/lib/incident-sla-utils';
 
 /**
  * Incident data structure
@@ -26,8 +30,14 @@ export interface Incident {
   photo_url: string | null;
   status: 'open' | 'in_progress' | 'resolved' | 'closed';
   assigned_to: string | null;
+  intervention_at?: string | null;
+  category?: IncidentCategory;
+  priority?: IncidentPriority;
+  acknowledged_at?: string | null;
+  resolved_at?: string | null;
   created_at: string;
   updated_at: string;
+  sla?: SlaState; // computed on the server against the residence targets
   reporter_name?: string;
   assignee_name?: string | null;
   residence_name?: string;
@@ -63,6 +73,9 @@ export default function IncidentsContent({
   const [showReportDialog, setShowReportDialog] = useState(false);
   const [selectedIncidentForEdit, setSelectedIncidentForEdit] = useState<Incident | null>(null);
   const [selectedIncidentForDelete, setSelectedIncidentForDelete] = useState<Incident | null>(null);
+  const [selectedIncidentForWorkOrders, setSelectedIncidentForWorkOrders] = useState<Incident | null>(null);
+  const [showContractorsDialog, setShowContractorsDialog] = useState(false);
+  const [showSlaDialog, setShowSlaDialog] = useState(false);
   const [loading, setLoading] = useState(false);
   const [viewMode, setViewMode] = useState<'list' | 'kanban'>('list');
 
@@ -103,8 +116,11 @@ export default function IncidentsContent({
       console.log('[IncidentsContent] After search filter:', filtered.length, 'incidents');
     }
 
-    // Status filter
-    if (statusFilter !== 'all') {
+    // Status filter ('overdue': past an SLA target and still waiting on it)
+    if (statusFilter === 'overdue') {
+      filtered = filtered.filter((incident) => incident.sla?.overdue);
+      console.log('[IncidentsContent] After overdue filter:', filtered.length, 'incidents');
+    } else if (statusFilter !== 'all') {
       filtered = filtered.filter((incident) => incident.status === statusFilter);
       console.log('[IncidentsContent] After status filter:', filtered.length, 'incidents');
     }
@@ -208,6 +224,7 @@ export default function IncidentsContent({
                 <SelectItem value="in_progress">In Progress</SelectItem>
                 <SelectItem value="resolved">Resolved</SelectItem>
                 <SelectItem value="closed">Closed</SelectItem>
+                <SelectItem value="overdue">Overdue (SLA)</SelectItem>
               </SelectContent>
             </Select>
 
@@ -245,20 +262,54 @@ export default function IncidentsContent({
           </div>
         </div>
 
-        {/* Report Incident Button - Desktop */}
-        {canReportIncident && (
-          <Button
-            onClick={() => {
-              console.log('[IncidentsContent] Report incident button clicked');
-              setShowReportDialog(true);
-            }}
-            className="hidden lg:flex items-center gap-2 bg-gray-900 hover:bg-gray-800 text-white shadow-lg shadow-gray-900/20 transition-all hover:scale-105 h-11 rounded-xl px-6"
-            aria-label="Report new incident"
-          >
-            <Plus className="h-4 w-4" />
-            Report Incident
-          </Button>
-        )}
+        <div className="flex items-center gap-3">
+          {/* SLA Button - Syndic */}
+          {canManageIncidents && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                console.log('[IncidentsContent] SLA button clicked');
+                setShowSlaDialog(true);
+              }}
+              className="flex items-center gap-2 h-11 rounded-xl px-5"
+              aria-label="SLA targets and report"
+            >
+              <Timer className="h-4 w-4" />
+              SLA
+            </Button>
+          )}
+
+          {/* Contractors Button - Syndic */}
+          {canManageIncidents && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                console.log('[IncidentsContent] Contractors button clicked');
+                setShowContractorsDialog(true);
+              }}
+              className="flex items-center gap-2 h-11 rounded-xl px-5"
+              aria-label="Manage contractors"
+            >
+              <HardHat className="h-4 w-4" />
+              Contractors
+            </Button>
+          )}
+
+          {/* Report Incident Button - Desktop */}
+          {canReportIncident && (
+            <Button
+              onClick={() => {
+                console.log('[IncidentsContent] Report incident button clicked');
+                setShowReportDialog(true);
+              }}
+              className="hidden lg:flex items-center gap-2 bg-gray-900 hover:bg-gray-800 text-white shadow-lg shadow-gray-900/20 transition-all hover:scale-105 h-11 rounded-xl px-6"
+              aria-label="Report new incident"
+            >
+              <Plus className="h-4 w-4" />
+              Report Incident
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Incidents View (Table or Kanban) */}
@@ -279,6 +330,10 @@ export default function IncidentsContent({
             console.log('[IncidentsContent] Delete incident clicked:', incident);
             setSelectedIncidentForDelete(incident);
           }}
+          onWorkOrders={(incident) => {
+            console.log('[IncidentsContent] Work orders clicked:', incident);
+            setSelectedIncidentForWorkOrders(incident);
+          }}
           loading={loading}
           canManage={canManageIncidents}
           currentUserId={currentUserId}
@@ -327,6 +382,43 @@ export default function IncidentsContent({
           onSuccess={handleIncidentUpdated}
           canManage={canManageIncidents}
           currentUserResidenceId={currentUserResidenceId}
+          currentUserId={currentUserId}
+        />
+      )}
+
+      {/* Contractors Dialog */}
+      {canManageIncidents && (
+        <ContractorsDialog
+          open={showContractorsDialog}
+          onClose={() => {
+            console.log('[IncidentsContent] Contractors dialog closed');
+            setShowContractorsDialog(false);
+          }}
+        />
+      )}
+
+      {/* SLA Dialog */}
+      {canManageIncidents && (
+        <IncidentSlaDialog
+          open={showSlaDialog}
+          onClose={() => {
+            console.log('[IncidentsContent] SLA dialog closed');
+            setShowSlaDialog(false);
+            router.refresh(); // New targets change the breach badges
+          }}
+        />
+      )}
+
+      {/* Work Orders Dialog */}
+      {canManageIncidents && selectedIncidentForWorkOrders && (
+        <WorkOrdersDialog
+          open={!!selectedIncidentForWorkOrders}
+          incident={selectedIncidentForWorkOrders}
+          onClose={() => {
+            console.log('[IncidentsContent] Work orders dialog closed');
+            setSelectedIncidentForWorkOrders(null);
+            router.refresh(); // Scheduling may have changed the incident
+          }}
         />
       )}
 
@@ -1,8 +1,7 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import Image from 'next/image';
-import { MoreVertical, Edit, Trash2, Eye, ArrowUpDown, ArrowUp, ArrowDown, Image as ImageIcon, AlertCircle } from 'lucide-react';
+import { MoreVertical, Edit, Trash2, Eye, Wrench, ArrowUpDown, ArrowUp, ArrowDown, Image as ImageIcon, AlertCircle } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -23,6 +22,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Incident } from './IncidentsContent';
+import IncidentTimeline from './IncidentTimeline';
 import {
   Dialog,
   DialogContent,
@@ -32,6 +32,7 @@ import {
 } from '@/components/ui/dialog';
 import { Card } from '@/components/ui/card';
 import { updateIncident } from '@/app/app/incidents/actions';
+import { INCIDENT_CATEGORY_LABELS, INCIDENT_PRIORITY_LABELS } from '@/lib/incident-sla-utils';
 import toast from 'react-hot-toast';
 
 interface IncidentsTableProps {
@@ -39,6 +40,7 @@ interface IncidentsTableProps {
   viewMode: 'list' | 'kanban';
   onEdit: (incident: Incident) => void;
   onDelete: (incident: Incident) => void;
+  onWorkOrders?: (incident: Incident) => void;
   loading?: boolean;
   canManage?: boolean;
   currentUserId?: string;
@@ -60,6 +62,49 @@ const getStatusBadgeColor = (status: string) => {
   return colors[status] || colors.open;
 };
 
+/**
+ * Get priority badge color
+ */
+const getPriorityBadgeColor = (priority?: string) => {
+  const colors: Record<string, string> = {
+    urgent: 'bg-red-100 text-red-800 border-red-300',
+    high: 'bg-orange-100 text-orange-800 border-orange-300',
+    normal: 'bg-gray-100 text-gray-800 border-gray-300',
+    low: 'bg-slate-50 text-slate-600 border-slate-200',
+  };
+  return colors[priority || 'normal'] || colors.normal;
+};
+
+/**
+ * SLA breach badge: red while a missed target is still waited on, grey once the
+ * incident was dealt with late
+ */
+const SlaBadge = ({ incident }: { incident: Incident }) => {
+  const sla = incident.sla;
+  if (!sla || !sla.breached) return null;
+
+  if (sla.overdue) {
+    const notAcknowledged = sla.acknowledge === 'breached' && !sla.acknowledged_at;
+    return (
+      <Badge
+        variant="outline"
+        className="bg-red-100 text-red-800 border-red-300 text-xs whitespace-nowrap"
+        title={notAcknowledged
+          ? `Should have been acknowledged within ${sla.acknowledge_hours}h`
+          : `Should have been resolved within ${sla.resolve_hours}h`}
+      >
+        {notAcknowledged ? 'Not acknowledged' : 'Overdue'}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="text-xs text-muted-foreground whitespace-nowrap" title="A response target was missed">
+      SLA missed
+    </Badge>
+  );
+};
+
 /**
  * Incidents Table Component
  * Displays incidents in list or kanban view
@@ -69,6 +114,7 @@ export default function IncidentsTable({
   viewMode,
   onEdit,
   onDelete,
+  onWorkOrders,
   loading,
   canManage,
   currentUserId,
@@ -147,6 +193,16 @@ export default function IncidentsTable({
     });
   };
 
+  // Format date and time
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
   // Format relative time
   const formatRelativeTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -257,6 +313,14 @@ export default function IncidentsTable({
                       <p className="text-xs text-muted-foreground line-clamp-2">
                         {incident.description}
                       </p>
+                      <div className="flex flex-wrap items-center gap-1">
+                        {incident.priority && (
+                          <Badge variant="outline" className={`${getPriorityBadgeColor(incident.priority)} text-xs`}>
+                            {INCIDENT_PRIORITY_LABELS[incident.priority]}
+                          </Badge>
+                        )}
+                        <SlaBadge incident={incident} />
+                      </div>
                       <div className="flex items-center justify-between text-xs text-muted-foreground">
                         <span>#{incident.id}</span>
                         <span>{formatRelativeTime(incident.created_at)}</span>
@@ -283,7 +347,7 @@ export default function IncidentsTable({
         {/* View Details Dialog */}
         {selectedIncident && (
           <Dialog open={viewDialogOpen} onOpenChange={setViewDialogOpen}>
-            <DialogContent className="max-w-2xl">
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Incident Details</DialogTitle>
                 <DialogDescription>
@@ -321,6 +385,36 @@ export default function IncidentsTable({
                     <p className="text-sm font-medium text-muted-foreground">Last Updated</p>
                     <p className="text-base">{formatRelativeTime(selectedIncident.updated_at)}</p>
                   </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Category</p>
+                    <p className="text-base">{INCIDENT_CATEGORY_LABELS[selectedIncident.category || 'other']}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Priority</p>
+                    <Badge
+                      variant="outline"
+                      className={getPriorityBadgeColor(selectedIncident.priority)}
+                    >
+                      {INCIDENT_PRIORITY_LABELS[selectedIncident.priority || 'normal']}
+                    </Badge>
+                  </div>
+                  {selectedIncident.sla && (
+                    <>
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Acknowledge By</p>
+                        <p className={`text-base ${selectedIncident.sla.acknowledge === 'breached' ? 'text-red-700' : ''}`}>
+                          {formatDateTime(selectedIncident.sla.acknowledge_due_at)} ({selectedIncident.sla.acknowledge_hours}h)
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground">Resolve By</p>
+                        <p className={`text-base ${selectedIncident.sla.resolve === 'breached' ? 'text-red-700' : ''}`}>
+                          {formatDateTime(selectedIncident.sla.resolve_due_at)} ({selectedIncident.sla.resolve_hours}h)
+                        </p>
+                        <SlaBadge incident={selectedIncident} />
+                      </div>
+                    </>
+                  )}
                 </div>
                 <div>
                   <p className="text-sm font-medium text-muted-foreground mb-2">Title</p>
@@ -330,19 +424,11 @@ export default function IncidentsTable({
                   <p className="text-sm font-medium text-muted-foreground mb-2">Description</p>
                   <p className="text-base">{selectedIncident.description}</p>
                 </div>
-                {selectedIncident.photo_url && (
-                  <div>
-                    <p className="text-sm font-medium text-muted-foreground mb-2">Photo</p>
-                    <div className="relative w-full h-64">
-                      <Image
-                        src={selectedIncident.photo_url}
-                        alt="Incident photo"
-                        fill
-                        className="rounded border object-contain"
-                      />
-                    </div>
-                  </div>
-                )}
+                <IncidentTimeline
+                  incidentId={selectedIncident.id}
+                  currentUserId={currentUserId}
+                  closed={selectedIncident.status === 'closed'}
+                />
               </div>
             </DialogContent>
           </Dialog>
@@ -388,6 +474,8 @@ export default function IncidentsTable({
                     {getSortIcon('status')}
                   </button>
                 </TableHead>
+                <TableHead className="w-[110px]">Priority</TableHead>
+                <TableHead className="w-[130px]">SLA</TableHead>
                 <TableHead className="w-[140px]">Reporter</TableHead>
                 <TableHead className="w-[140px]">Assigned To</TableHead>
                 <TableHead className="w-[100px] text-center">Photo</TableHead>
@@ -443,6 +531,32 @@ export default function IncidentsTable({
                       </Badge>
                     )}
                   </TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <Badge
+                        variant="outline"
+                        className={getPriorityBadgeColor(incident.priority)}
+                      >
+                        {INCIDENT_PRIORITY_LABELS[incident.priority || 'normal']}
+                      </Badge>
+                      <p className="text-xs text-muted-foreground">
+                        {INCIDENT_CATEGORY_LABELS[incident.category || 'other']}
+                      </p>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {incident.sla?.breached ? (
+                      <SlaBadge incident={incident} />
+                    ) : incident.sla && incident.sla.resolve === 'pending' ? (
+                      <span className="text-xs text-muted-foreground" title={`Resolve within ${incident.sla.resolve_hours}h`}>
+                        Due {formatDateTime(incident.sla.resolve_due_at)}
+                      </span>
+                    ) : incident.sla ? (
+                      <span className="text-xs text-green-700">On time</span>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <span className="text-sm text-muted-foreground">
                       {incident.reporter_name || 'Unknown'}
@@ -500,6 +614,14 @@ export default function IncidentsTable({
                             <Edit className="mr-2 h-4 w-4" />
                             Edit
                           </DropdownMenuItem>
+                          {canManage && onWorkOrders && (
+                            <DropdownMenuItem
+                              onClick={() => onWorkOrders(incident)}
+                            >
+                              <Wrench className="mr-2 h-4 w-4" />
+                              Work Orders
+                            </DropdownMenuItem>
+                          )}
                           {canManage && (
                             <DropdownMenuItem
                               onClick={() => onDelete(incident)}
@@ -523,7 +645,7 @@ export default function IncidentsTable({
       {/* View Details Dialog */}
       {selectedIncident && (
         <Dialog open={viewDialogOpen} onOpenChange={setViewDialogOpen}>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Incident Details</DialogTitle>
               <DialogDescription>
@@ -561,6 +683,36 @@ export default function IncidentsTable({
                   <p className="text-sm font-medium text-muted-foreground">Last Updated</p>
                   <p className="text-base">{formatRelativeTime(selectedIncident.updated_at)}</p>
                 </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Category</p>
+                  <p className="text-base">{INCIDENT_CATEGORY_LABELS[selectedIncident.category || 'other']}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Priority</p>
+                  <Badge
+                    variant="outline"
+                    className={getPriorityBadgeColor(selectedIncident.priority)}
+                  >
+                    {INCIDENT_PRIORITY_LABELS[selectedIncident.priority || 'normal']}
+                  </Badge>
+                </div>
+                {selectedIncident.sla && (
+                  <>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Acknowledge By</p>
+                      <p className={`text-base ${selectedIncident.sla.acknowledge === 'breached' ? 'text-red-700' : ''}`}>
+                        {formatDateTime(selectedIncident.sla.acknowledge_due_at)} ({selectedIncident.sla.acknowledge_hours}h)
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Resolve By</p>
+                      <p className={`text-base ${selectedIncident.sla.resolve === 'breached' ? 'text-red-700' : ''}`}>
+                        {formatDateTime(selectedIncident.sla.resolve_due_at)} ({selectedIncident.sla.resolve_hours}h)
+                      </p>
+                      <SlaBadge incident={selectedIncident} />
+                    </div>
+                  </>
+                )}
               </div>
               <div>
                 <p className="text-sm font-medium text-muted-foreground mb-2">Title</p>
@@ -570,19 +722,11 @@ export default function IncidentsTable({
                 <p className="text-sm font-medium text-muted-foreground mb-2">Description</p>
                 <p className="text-base whitespace-pre-wrap">{selectedIncident.description}</p>
               </div>
-              {selectedIncident.photo_url && (
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground mb-2">Photo</p>
-                  <div className="relative w-full h-64">
-                    <Image
-                      src={selectedIncident.photo_url}
-                      alt="Incident photo"
-                      fill
-                      className="rounded border object-contain"
-                    />
-                  </div>
-                </div>
-              )}
+              <IncidentTimeline
+                incidentId={selectedIncident.id}
+                currentUserId={currentUserId}
+                closed={selectedIncident.status === 'closed'}
+              />
             </div>
           </DialogContent>
         </Dialog>
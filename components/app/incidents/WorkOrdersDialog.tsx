@@ -0,0 +1,516 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CalendarClock, ExternalLink, FileText, Loader2, Phone, Plus, Wrench } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Incident } from './IncidentsContent';
+import { TRADE_LABELS } from './ContractorsDialog';
+import { createWorkOrder, getContractors, getWorkOrders, updateWorkOrder } from '@/app/app/incidents/actions';
+import { uploadExpenseAttachment } from '@/app/app/expenses/actions';
+import type { Contractor, WorkOrder, WorkOrderAction, WorkOrderStatus } from '@/lib/work-order-utils';
+import toast from 'react-hot-toast';
+
+interface WorkOrdersDialogProps {
+  open: boolean;
+  incident: Incident | null;
+  onClose: () => void;
+}
+
+interface WorkOrderForm {
+  quoteAmount: string;
+  quoteUrl: string | null;
+  rejectionReason: string;
+  scheduledAt: string;
+  invoiceAmount: string;
+  invoiceUrl: string | null;
+  expenseDate: string;
+  fundingSource: 'cash' | 'bank';
+}
+
+const STATUS_LABELS: Record<WorkOrderStatus, string> = {
+  requested: 'Quote requested',
+  quoted: 'Quote received',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  scheduled: 'Scheduled',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<WorkOrderStatus, string> = {
+  requested: 'bg-gray-50 text-gray-700 border-gray-200',
+  quoted: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  approved: 'bg-blue-50 text-blue-700 border-blue-200',
+  rejected: 'bg-red-50 text-red-700 border-red-200',
+  scheduled: 'bg-purple-50 text-purple-700 border-purple-200',
+  completed: 'bg-green-50 text-green-700 border-green-200',
+  cancelled: 'bg-gray-50 text-gray-500 border-gray-200',
+};
+
+const emptyForm = (): WorkOrderForm => ({
+  quoteAmount: '',
+  quoteUrl: null,
+  rejectionReason: '',
+  scheduledAt: '',
+  invoiceAmount: '',
+  invoiceUrl: null,
+  expenseDate: new Date().toISOString().split('T')[0],
+  fundingSource: 'cash',
+});
+
+/**
+ * Format currency
+ */
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-MA', {
+    style: 'currency',
+    currency: 'MAD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
+
+/**
+ * Format date and time
+ */
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Work Orders Dialog Component
+ * Sends an incident to outside contractors and follows each work order from the
+ * quote to the final invoice, which is recorded as an expense of the incident
+ */
+export default function WorkOrdersDialog({ open, incident, onClose }: WorkOrdersDialogProps) {
+  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [contractors, setContractors] = useState<Contractor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [forms, setForms] = useState<Record<number, WorkOrderForm>>({});
+  const [contractorId, setContractorId] = useState('');
+  const [description, setDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!open || !incident) return;
+
+    async function fetchData() {
+      console.log('[WorkOrdersDialog] Fetching work orders for incident:', incident!.id);
+      setLoading(true);
+
+      try {
+        const [ordersResult, contractorsResult] = await Promise.all([
+          getWorkOrders(incident!.id),
+          getContractors(),
+        ]);
+
+        if (ordersResult.success && ordersResult.data) {
+          setWorkOrders(ordersResult.data);
+        } else {
+          toast.error(ordersResult.error || 'Failed to load work orders');
+        }
+
+        if (contractorsResult.success && contractorsResult.data) {
+          setContractors(contractorsResult.data);
+        }
+      } catch (error: any) {
+        console.error('[WorkOrdersDialog] Error fetching work orders:', error);
+        toast.error(error.message || 'Failed to load work orders');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    setDescription(incident.title);
+    fetchData();
+  }, [open, incident]);
+
+  const getForm = (id: number) => forms[id] || emptyForm();
+
+  const setFormField = (id: number, field: keyof WorkOrderForm, value: string | null) => {
+    setForms((prev) => ({ ...prev, [id]: { ...(prev[id] || emptyForm()), [field]: value } }));
+  };
+
+  const handleUpload = async (id: number, field: 'quoteUrl' | 'invoiceUrl', file: File | undefined) => {
+    if (!file) return;
+
+    setUploading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const result = await uploadExpenseAttachment(formData);
+      if (result.success && result.url) {
+        setFormField(id, field, result.url);
+        toast.success('File uploaded');
+      } else {
+        toast.error(result.error || 'Failed to upload file');
+      }
+    } catch (error: any) {
+      console.error('[WorkOrdersDialog] Error uploading file:', error);
+      toast.error(error.message || 'Failed to upload file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!incident || !contractorId || !description.trim()) {
+      toast.error('Choose a contractor and describe the work');
+      return;
+    }
+
+    setCreating(true);
+
+    try {
+      const result = await createWorkOrder({
+        incident_id: incident.id,
+        contractor_id: Number(contractorId),
+        description,
+      });
+      if (result.success && result.data) {
+        setWorkOrders((prev) => [...prev, result.data!]);
+        setContractorId('');
+        toast.success('Work order created');
+      } else {
+        toast.error(result.error || 'Failed to create work order');
+      }
+    } catch (error: any) {
+      console.error('[WorkOrdersDialog] Error creating work order:', error);
+      toast.error(error.message || 'Failed to create work order');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleAction = async (order: WorkOrder, action: WorkOrderAction) => {
+    const form = getForm(order.id);
+
+    if (action === 'cancel' && !confirm('Cancel this work order?')) {
+      return;
+    }
+
+    setBusyId(order.id);
+
+    try {
+      const result = await updateWorkOrder({
+        id: order.id,
+        action,
+        quote_amount: form.quoteAmount ? Number(form.quoteAmount) : null,
+        quote_url: form.quoteUrl,
+        rejection_reason: form.rejectionReason || null,
+        scheduled_at: form.scheduledAt ? new Date(form.scheduledAt).toISOString() : null,
+        invoice_amount: form.invoiceAmount ? Number(form.invoiceAmount) : null,
+        invoice_url: form.invoiceUrl,
+        expense_date: form.expenseDate || null,
+        funding_source: form.fundingSource,
+      });
+      if (result.success && result.data) {
+        setWorkOrders((prev) => prev.map((o) => (o.id === order.id ? result.data! : o)));
+        setForms((prev) => ({ ...prev, [order.id]: emptyForm() }));
+        toast.success(action === 'complete' ? 'Invoice recorded as an expense' : `Work order ${STATUS_LABELS[result.data.status].toLowerCase()}`);
+      } else {
+        toast.error(result.error || 'Failed to update work order');
+      }
+    } catch (error: any) {
+      console.error('[WorkOrdersDialog] Error updating work order:', error);
+      toast.error(error.message || 'Failed to update work order');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderActions = (order: WorkOrder) => {
+    const form = getForm(order.id);
+    const busy = busyId === order.id || uploading;
+
+    return (
+      <div className="space-y-3 border-t pt-3">
+        {(order.status === 'requested' || order.status === 'quoted') && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`quote-${order.id}`} className="text-xs">Quote (MAD)</Label>
+              <Input
+                id={`quote-${order.id}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.quoteAmount}
+                onChange={(e) => setFormField(order.id, 'quoteAmount', e.target.value)}
+                className="w-32"
+                disabled={busy}
+              />
+            </div>
+            <Input
+              type="file"
+              accept="application/pdf,image/jpeg,image/png"
+              onChange={(e) => handleUpload(order.id, 'quoteUrl', e.target.files?.[0])}
+              className="w-56"
+              aria-label="Quote document"
+              disabled={busy}
+            />
+            <Button type="button" size="sm" onClick={() => handleAction(order, 'quote')} disabled={busy || !form.quoteAmount}>
+              {order.status === 'quoted' ? 'Revise Quote' : 'Record Quote'}
+            </Button>
+          </div>
+        )}
+
+        {order.status === 'quoted' && (
+          <div className="flex flex-wrap items-end gap-2">
+            <Button type="button" size="sm" onClick={() => handleAction(order, 'approve')} disabled={busy}>
+              Approve Quote
+            </Button>
+            <Input
+              value={form.rejectionReason}
+              onChange={(e) => setFormField(order.id, 'rejectionReason', e.target.value)}
+              placeholder="Reason for rejecting (optional)"
+              className="flex-1 min-w-[180px]"
+              disabled={busy}
+            />
+            <Button type="button" size="sm" variant="outline" onClick={() => handleAction(order, 'reject')} disabled={busy}>
+              Reject
+            </Button>
+          </div>
+        )}
+
+        {(order.status === 'approved' || order.status === 'scheduled') && (
+          <>
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor={`schedule-${order.id}`} className="text-xs">Intervention date</Label>
+                <Input
+                  id={`schedule-${order.id}`}
+                  type="datetime-local"
+                  value={form.scheduledAt}
+                  onChange={(e) => setFormField(order.id, 'scheduledAt', e.target.value)}
+                  className="w-56"
+                  disabled={busy}
+                />
+              </div>
+              <Button type="button" size="sm" onClick={() => handleAction(order, 'schedule')} disabled={busy || !form.scheduledAt}>
+                {order.status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor={`invoice-${order.id}`} className="text-xs">Final invoice (MAD)</Label>
+                <Input
+                  id={`invoice-${order.id}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.invoiceAmount}
+                  onChange={(e) => setFormField(order.id, 'invoiceAmount', e.target.value)}
+                  className="w-32"
+                  disabled={busy}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`expense-date-${order.id}`} className="text-xs">Paid on</Label>
+                <Input
+                  id={`expense-date-${order.id}`}
+                  type="date"
+                  value={form.expenseDate}
+                  onChange={(e) => setFormField(order.id, 'expenseDate', e.target.value)}
+                  className="w-40"
+                  disabled={busy}
+                />
+              </div>
+              <Select
+                value={form.fundingSource}
+                onValueChange={(value) => setFormField(order.id, 'fundingSource', value)}
+                disabled={busy}
+              >
+                <SelectTrigger className="w-28" aria-label="Paid from">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="bank">Bank</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="file"
+                accept="application/pdf,image/jpeg,image/png"
+                onChange={(e) => handleUpload(order.id, 'invoiceUrl', e.target.files?.[0])}
+                className="w-56"
+                aria-label="Invoice document"
+                disabled={busy}
+              />
+              <Button type="button" size="sm" onClick={() => handleAction(order, 'complete')} disabled={busy || !form.invoiceAmount}>
+                Record Invoice
+              </Button>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="text-destructive"
+            onClick={() => handleAction(order, 'cancel')}
+            disabled={busy}
+          >
+            Cancel Work Order
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Work Orders</DialogTitle>
+          <DialogDescription>
+            {incident ? `#${incident.id} · ${incident.title}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading work orders...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {workOrders.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No work order yet for this incident.</p>
+            ) : (
+              workOrders.map((order) => (
+                <div key={order.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1 min-w-0">
+                      <p className="font-medium flex items-center gap-2">
+                        <Wrench className="h-4 w-4 shrink-0" />
+                        <span className="truncate">{order.contractor_name || 'Unknown contractor'}</span>
+                        {order.contractor_trade && (
+                          <span className="text-xs text-muted-foreground">{TRADE_LABELS[order.contractor_trade]}</span>
+                        )}
+                      </p>
+                      {order.contractor_phone && (
+                        <a href={`tel:${order.contractor_phone}`} className="flex items-center gap-1 text-xs text-muted-foreground hover:underline">
+                          <Phone className="h-3 w-3" />
+                          {order.contractor_phone}
+                        </a>
+                      )}
+                      <p className="text-sm whitespace-pre-wrap">{order.description}</p>
+                    </div>
+                    <Badge variant="outline" className={STATUS_COLORS[order.status]}>
+                      {STATUS_LABELS[order.status]}
+                    </Badge>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    {order.quote_amount !== null && (
+                      <p>
+                        <span className="text-muted-foreground">Quote: </span>
+                        {formatCurrency(order.quote_amount)}
+                        {order.quote_url && (
+                          <a href={order.quote_url} target="_blank" rel="noopener noreferrer" className="inline-flex ml-1 align-middle" aria-label="Open quote">
+                            <FileText className="h-3 w-3" />
+                          </a>
+                        )}
+                      </p>
+                    )}
+                    {order.scheduled_at && (
+                      <p className="flex items-center gap-1">
+                        <CalendarClock className="h-3 w-3 text-muted-foreground" />
+                        {formatDateTime(order.scheduled_at)}
+                      </p>
+                    )}
+                    {order.invoice_amount !== null && (
+                      <p>
+                        <span className="text-muted-foreground">Invoice: </span>
+                        {formatCurrency(order.invoice_amount)}
+                        {order.invoice_url && (
+                          <a href={order.invoice_url} target="_blank" rel="noopener noreferrer" className="inline-flex ml-1 align-middle" aria-label="Open invoice">
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </p>
+                    )}
+                    {order.expense_id && (
+                      <p className="text-muted-foreground">Recorded as expense #{order.expense_id}</p>
+                    )}
+                    {order.status === 'rejected' && order.rejection_reason && (
+                      <p className="col-span-2 text-muted-foreground">Rejected: {order.rejection_reason}</p>
+                    )}
+                  </div>
+
+                  {order.status !== 'completed' && order.status !== 'cancelled' && renderActions(order)}
+                </div>
+              ))
+            )}
+
+            {incident?.status !== 'closed' && (
+              <div className="space-y-3 border-t pt-4">
+                <p className="text-sm font-medium">Send to a contractor</p>
+                {contractors.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Add contractors to the directory first.</p>
+                ) : (
+                  <>
+                    <Select value={contractorId} onValueChange={setContractorId} disabled={creating}>
+                      <SelectTrigger aria-label="Contractor">
+                        <SelectValue placeholder="Choose a contractor" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {contractors.map((contractor) => (
+                          <SelectItem key={contractor.id} value={String(contractor.id)}>
+                            {contractor.name} · {TRADE_LABELS[contractor.trade]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Textarea
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="Work to be done"
+                      rows={2}
+                      disabled={creating}
+                    />
+                    <div className="flex justify-end">
+                      <Button type="button" onClick={handleCreate} disabled={creating || !contractorId || !description.trim()} className="gap-2">
+                        {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                        Request Quote
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
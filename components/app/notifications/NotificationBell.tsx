@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useI18n } from '@/lib/i18n/client';
+import { getNotifications, markNotificationsAsRead } from '@/app/app/notifications/actions';
+
+/**
+ * Notification data structure (a notifications row)
+ */
+export interface AppNotification {
+  id: number;
+  type: 'info' | 'success' | 'warning' | 'error';
+  category: string;
+  status: 'unread' | 'read' | 'archived';
+  title: string;
+  message: string;
+  action_data: Record<string, any> | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+// Page opened when a notification is clicked, keyed by action_data.type
+const ACTION_LINKS: Record<string, string> = {
+  fee: '/app/payments',
+  complaint: '/app/complaints',
+  incident: '/app/incidents',
+  announcement: '/app/announcements',
+  poll: '/app/polls',
+  delivery: '/app/deliveries',
+  visitor_pass: '/app/visitors',
+};
+
+const TYPE_DOTS: Record<AppNotification['type'], string> = {
+  info: 'bg-blue-500',
+  success: 'bg-green-500',
+  warning: 'bg-amber-500',
+  error: 'bg-red-500',
+};
+
+const POLL_INTERVAL_MS = 60000;
+
+/**
+ * Notification Bell Component
+ * Header bell with the unread count and the latest notifications
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const { t } = useI18n();
+
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    const result = await getNotifications();
+    if (result.success && result.data) {
+      setNotifications(result.data.notifications as AppNotification[]);
+      setUnreadCount(result.data.unread_count);
+    }
+  }, []);
+
+  // Load on mount and poll so the badge stays current
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setLoading(true);
+      try {
+        await refresh();
+      } finally {
+        setLoading(false);
+      }
+    }
+  };
+
+  const markLocallyRead = (ids?: number[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((n) =>
+        n.status === 'unread' && (!ids || ids.includes(n.id)) ? { ...n, status: 'read', read_at: readAt } : n
+      )
+    );
+    setUnreadCount((prev) => (ids ? Math.max(prev - ids.length, 0) : 0));
+  };
+
+  const handleClick = async (notification: AppNotification) => {
+    if (notification.status === 'unread') {
+      markLocallyRead([notification.id]);
+      await markNotificationsAsRead([notification.id]);
+    }
+
+    const href = ACTION_LINKS[notification.action_data?.type];
+    if (href) {
+      setOpen(false);
+      router.push(href);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    markLocallyRead();
+    await markNotificationsAsRead();
+  };
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          className="p-2.5 rounded-xl hover:bg-gray-100 text-gray-500 hover:text-gray-700 transition-all relative group"
+          aria-label={t('header.notifications')}
+        >
+          <Bell className="h-5 w-5 group-hover:scale-110 transition-transform" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1.5 right-1.5 min-w-[18px] h-[18px] px-1 flex items-center justify-center bg-red-500 text-white text-[10px] font-semibold rounded-full ring-2 ring-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 rounded-xl">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+          <p className="font-semibold text-gray-900">{t('header.notifications')}</p>
+          {unreadCount > 0 && (
+            <button
+              onClick={handleMarkAllRead}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900"
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              {t('header.markAllRead')}
+            </button>
+          )}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {loading && notifications.length === 0 ? (
+            <div className="py-8 flex justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">{t('header.noNotifications')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleClick(notification)}
+                    className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-gray-50 transition-colors ${
+                      notification.status === 'unread' ? 'bg-blue-50/40' : ''
+                    }`}
+                  >
+                    <span
+                      className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                        notification.status === 'unread' ? TYPE_DOTS[notification.type] || 'bg-blue-500' : 'bg-transparent'
+                      }`}
+                    />
+                    <span className="space-y-0.5">
+                      <span className="block text-sm font-medium text-gray-900">{notification.title}</span>
+                      <span className="block text-xs text-gray-600">{notification.message}</span>
+                      <span className="block text-[11px] text-gray-400">{formatTime(notification.created_at)}</span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="border-t border-gray-100 px-4 py-2 text-right">
+          <Link
+            href="/app/profile#notification-preferences"
+            onClick={() => setOpen(false)}
+            className="text-xs text-gray-500 hover:text-gray-900"
+          >
+            {t('header.notificationPreferences')}
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
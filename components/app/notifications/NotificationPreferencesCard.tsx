@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Bell, Loader2 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { getNotificationSettings, saveNotificationSettings } from '@/app/app/notifications/actions';
+import toast from 'react-hot-toast';
+
+const CATEGORY_LABELS: { category: string; label: string; description: string }[] = [
+  { category: 'fees', label: 'Fees', description: 'New fees and payment reminders' },
+  { category: 'complaints', label: 'Complaints', description: 'Complaints you filed or that concern you' },
+  { category: 'incidents', label: 'Incidents', description: 'Assignments and status changes' },
+  { category: 'announcements', label: 'Announcements', description: 'News from your syndic' },
+  { category: 'polls', label: 'Polls', description: 'New polls and results' },
+  { category: 'deliveries', label: 'Deliveries', description: 'Parcels waiting at the gate' },
+  { category: 'visitors', label: 'Visitors', description: 'Your visitors arriving at the gate' },
+  { category: 'general', label: 'General', description: 'Account and residence updates' },
+];
+
+/**
+ * Notification Preferences Card Component
+ * Lets users turn each notification category on or off
+ */
+export default function NotificationPreferencesCard() {
+  const [preferences, setPreferences] = useState<Record<string, boolean> | null>(null);
+  const [savingCategory, setSavingCategory] = useState<string | null>(null);
+
+  useEffect(() => {
+    getNotificationSettings().then((result) => {
+      if (result.success && result.data) {
+        setPreferences(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load notification preferences');
+      }
+    });
+  }, []);
+
+  const handleToggle = async (category: string, enabled: boolean) => {
+    if (!preferences) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, [category]: enabled });
+    setSavingCategory(category);
+
+    try {
+      const result = await saveNotificationSettings({ [category]: enabled });
+      if (result.success && result.data) {
+        setPreferences(result.data);
+      } else {
+        setPreferences(previous);
+        toast.error(result.error || 'Failed to save notification preferences');
+      }
+    } finally {
+      setSavingCategory(null);
+    }
+  };
+
+  return (
+    <div id="notification-preferences" className="scroll-mt-24">
+      <div className="flex items-center mb-6">
+        <div className="bg-gradient-to-r from-gray-900 to-gray-800 p-2.5 rounded-xl mr-4 shadow-lg">
+          <Bell className="h-6 w-6 text-white" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Notifications</h2>
+          <p className="text-sm text-gray-600 mt-1">Choose which events show up in your notification bell</p>
+        </div>
+      </div>
+
+      {!preferences ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {CATEGORY_LABELS.slice(0, 4).map(({ category }) => (
+            <div key={category} className="bg-gray-50 p-4 rounded-xl animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-24 mb-2"></div>
+              <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {CATEGORY_LABELS.map(({ category, label, description }) => (
+            <div
+              key={category}
+              className="flex items-start gap-3 bg-gray-50 p-4 rounded-xl border border-gray-100"
+            >
+              <Checkbox
+                id={`notif-pref-${category}`}
+                checked={preferences[category] !== false}
+                disabled={savingCategory === category}
+                onCheckedChange={(checked) => handleToggle(category, checked === true)}
+                className="mt-0.5"
+              />
+              <div className="flex-1">
+                <Label htmlFor={`notif-pref-${category}`} className="cursor-pointer font-semibold text-gray-900">
+                  {label}
+                </Label>
+                <p className="text-sm text-gray-500">{description}</p>
+              </div>
+              {savingCategory === category && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,7 +19,7 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from '@/components/ui/select';
-import { getResidents, createCashPayment } from '@/app/actions/payments';
+import { getResidents, createCashPayment, getOutstandingFees } from '@/app/actions/payments';
 import toast from 'react-hot-toast';
 
 interface AddPaymentDialogProps {
@@ -28,9 +28,24 @@ interface AddPaymentDialogProps {
 	onSuccess: () => void;
 }
 
+/**
+ * Split an amount over fees, oldest first (mirrors the server allocation)
+ */
+function previewAllocations(fees: any[], amount: number) {
+	let remaining = amount;
+	const preview: { fee: any; amount: number }[] = [];
+	for (const fee of fees) {
+		if (remaining <= 0) break;
+		const share = Math.round(Math.min(Number(fee.balance_due), remaining) * 100) / 100;
+		if (share > 0) preview.push({ fee, amount: share });
+		remaining = Math.round((remaining - share) * 100) / 100;
+	}
+	return { preview, remaining: Math.max(0, remaining) };
+}
+
 /**
  * Add Payment Dialog Component
- * Form for recording cash payments
+ * Form for recording cash payments and choosing the fees they settle
  */
 export default function AddPaymentDialog({ open, onOpenChange, onSuccess }: AddPaymentDialogProps) {
 	const [residents, setResidents] = useState<any[]>([]);
@@ -42,6 +57,13 @@ export default function AddPaymentDialog({ open, onOpenChange, onSuccess }: AddP
 	const [amount, setAmount] = useState('');
 	const [method, setMethod] = useState('cash');
 
+	// Allocation state
+	const [outstandingFees, setOutstandingFees] = useState<any[]>([]);
+	const [credit, setCredit] = useState(0);
+	const [loadingFees, setLoadingFees] = useState(false);
+	const [allocationMode, setAllocationMode] = useState<'auto' | 'manual'>('auto');
+	const [manualAmounts, setManualAmounts] = useState<Record<number, string>>({});
+
 	// Fetch residents when dialog opens
 	useEffect(() => {
 		if (open) {
@@ -50,6 +72,44 @@ export default function AddPaymentDialog({ open, onOpenChange, onSuccess }: AddP
 		}
 	}, [open]);
 
+	// Fetch the selected resident's outstanding fees
+	useEffect(() => {
+		const [userId] = selectedResident.split('|');
+		setOutstandingFees([]);
+		setCredit(0);
+		setManualAmounts({});
+		if (!open || !userId) return;
+
+		let cancelled = false;
+		setLoadingFees(true);
+		getOutstandingFees(userId)
+			.then((result) => {
+				if (cancelled) return;
+				if (result.success) {
+					setOutstandingFees(result.fees);
+					setCredit(result.credit);
+				} else {
+					toast.error(result.error || 'Failed to load outstanding fees');
+				}
+			})
+			.finally(() => {
+				if (!cancelled) setLoadingFees(false);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [selectedResident, open]);
+
+	const paymentAmount = Number(amount) || 0;
+	const autoAllocation = previewAllocations(outstandingFees, paymentAmount);
+	const manualTotal = Object.values(manualAmounts).reduce((sum, value) => sum + (Number(value) || 0), 0);
+	const leftover = allocationMode === 'auto'
+		? autoAllocation.remaining
+		: Math.max(0, Math.round((paymentAmount - manualTotal) * 100) / 100);
+
+	const formatCurrency = (value: number) => `${value.toFixed(2)} MAD`;
+
 	async function fetchResidents() {
 		setLoading(true);
 		try {
@@ -84,6 +144,17 @@ export default function AddPaymentDialog({ open, onOpenChange, onSuccess }: AddP
 			return;
 		}
 
+		const allocations = allocationMode === 'manual'
+			? Object.entries(manualAmounts)
+				.filter(([, value]) => Number(value) > 0)
+				.map(([feeId, value]) => ({ feeId: Number(feeId), amount: Number(value) }))
+			: undefined;
+
+		if (allocations && manualTotal > paymentAmount + 0.005) {
+			toast.error('Allocations exceed the payment amount');
+			return;
+		}
+
 		setSubmitting(true);
 
 		try {
@@ -101,16 +172,22 @@ export default function AddPaymentDialog({ open, onOpenChange, onSuccess }: AddP
 				apartmentNumber: apartmentNumber,
 				profileResidenceId: profileResidenceId ? Number(profileResidenceId) : undefined,
 				amount: Number(amount),
+				allocations,
 			});
 
 			if (result.success) {
 				console.log('[AddPaymentDialog] Payment created:', result.payment);
-				toast.success('Cash payment recorded successfully!');
+				toast.success(
+					result.credit && result.credit > 0
+						? `Cash payment recorded. Resident credit: ${formatCurrency(result.credit)}`
+						: 'Cash payment recorded successfully!'
+				);
 
 				// Reset form
 				setSelectedResident('');
 				setAmount('');
 				setMethod('cash');
+				setAllocationMode('auto');
 
 				// Close dialog and refresh parent
 				onSuccess();
@@ -188,6 +265,72 @@ export default function AddPaymentDialog({ open, onOpenChange, onSuccess }: AddP
 							/>
 						</div>
 
+						{/* Fee Allocation */}
+						{selectedResident && (
+							<div className="grid gap-2">
+								<div className="flex items-center justify-between">
+									<Label htmlFor="allocation-mode">Apply To</Label>
+									{credit > 0 && (
+										<span className="text-xs text-muted-foreground">Existing credit: {formatCurrency(credit)}</span>
+									)}
+								</div>
+								<Select value={allocationMode} onValueChange={(value) => setAllocationMode(value as 'auto' | 'manual')}>
+									<SelectTrigger id="allocation-mode">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="auto">Oldest fees first</SelectItem>
+										<SelectItem value="manual">Choose fees</SelectItem>
+									</SelectContent>
+								</Select>
+
+								<div className="rounded-md border divide-y max-h-48 overflow-y-auto">
+									{loadingFees ? (
+										<p className="p-3 text-sm text-muted-foreground">Loading fees...</p>
+									) : outstandingFees.length === 0 ? (
+										<p className="p-3 text-sm text-muted-foreground">No outstanding fees. The payment becomes credit.</p>
+									) : (
+										outstandingFees.map((fee) => {
+											const planned = autoAllocation.preview.find((item) => item.fee.id === fee.id);
+											return (
+												<div key={fee.id} className="flex items-center justify-between gap-3 p-2">
+													<div className="min-w-0">
+														<p className="text-sm font-medium truncate">{fee.title}</p>
+														<p className="text-xs text-muted-foreground">
+															Due {new Date(fee.due_date).toLocaleDateString()} · {formatCurrency(Number(fee.balance_due))} left
+														</p>
+													</div>
+													{allocationMode === 'manual' ? (
+														<Input
+															type="number"
+															step="0.01"
+															min="0"
+															max={fee.balance_due}
+															className="w-28"
+															placeholder="0.00"
+															value={manualAmounts[fee.id] ?? ''}
+															onChange={(e) => setManualAmounts({ ...manualAmounts, [fee.id]: e.target.value })}
+															aria-label={`Amount for ${fee.title}`}
+														/>
+													) : (
+														<span className="text-sm whitespace-nowrap">
+															{planned ? formatCurrency(planned.amount) : '—'}
+														</span>
+													)}
+												</div>
+											);
+										})
+									)}
+								</div>
+
+								{paymentAmount > 0 && leftover > 0 && (
+									<p className="text-xs text-muted-foreground">
+										{formatCurrency(leftover)} will be kept as credit for the resident's next fees.
+									</p>
+								)}
+							</div>
+						)}
+
 						{/* Payment Method */}
 						<div className="grid gap-2">
 							<Label htmlFor="method">Payment Method</Label>
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { recordBalanceAdjustment } from '@/app/actions/payments';
+import toast from 'react-hot-toast';
+
+interface AdjustBalanceDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onSuccess: () => void;
+}
+
+/**
+ * Adjust Balance Dialog Component
+ * Posts a manual ledger adjustment (counting difference, bank fees, opening balance...)
+ */
+export default function AdjustBalanceDialog({ open, onOpenChange, onSuccess }: AdjustBalanceDialogProps) {
+	const [submitting, setSubmitting] = useState(false);
+
+	// Form state
+	const [account, setAccount] = useState<'cash' | 'bank'>('cash');
+	const [direction, setDirection] = useState<'in' | 'out'>('in');
+	const [amount, setAmount] = useState('');
+	const [description, setDescription] = useState('');
+
+	// Reset form when dialog opens
+	useEffect(() => {
+		if (open) {
+			setAccount('cash');
+			setDirection('in');
+			setAmount('');
+			setDescription('');
+		}
+	}, [open]);
+
+	async function handleSubmit(e: React.FormEvent) {
+		e.preventDefault();
+
+		if (!amount || Number(amount) <= 0) {
+			toast.error('Please enter a valid amount');
+			return;
+		}
+
+		if (!description.trim()) {
+			toast.error('Please explain the adjustment');
+			return;
+		}
+
+		setSubmitting(true);
+
+		try {
+			const result = await recordBalanceAdjustment({
+				account,
+				amount: direction === 'in' ? Number(amount) : -Number(amount),
+				description: description.trim(),
+			});
+
+			if (result.success) {
+				toast.success('Adjustment recorded');
+				onSuccess();
+			} else {
+				toast.error(result.error || 'Failed to record adjustment');
+			}
+		} catch (error: any) {
+			console.error('[AdjustBalanceDialog] Error recording adjustment:', error);
+			toast.error(error.message || 'Failed to record adjustment');
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[500px]">
+				<DialogHeader>
+					<DialogTitle>Adjust Balance</DialogTitle>
+					<DialogDescription>
+						Record a correction in the ledger. Adjustments are kept in the history and cannot be edited.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-4 py-4">
+						<div className="grid grid-cols-2 gap-4">
+							<div className="grid gap-2">
+								<Label htmlFor="adjust-account">Account</Label>
+								<Select value={account} onValueChange={(value) => setAccount(value as 'cash' | 'bank')}>
+									<SelectTrigger id="adjust-account">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="cash">Cash</SelectItem>
+										<SelectItem value="bank">Bank</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="grid gap-2">
+								<Label htmlFor="adjust-direction">Direction</Label>
+								<Select value={direction} onValueChange={(value) => setDirection(value as 'in' | 'out')}>
+									<SelectTrigger id="adjust-direction">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="in">Money in (+)</SelectItem>
+										<SelectItem value="out">Money out (−)</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+						</div>
+
+						<div className="grid gap-2">
+							<Label htmlFor="adjust-amount">Amount (MAD) *</Label>
+							<Input
+								id="adjust-amount"
+								type="number"
+								step="0.01"
+								min="0"
+								placeholder="0.00"
+								value={amount}
+								onChange={(e) => setAmount(e.target.value)}
+								required
+							/>
+						</div>
+
+						<div className="grid gap-2">
+							<Label htmlFor="adjust-description">Reason *</Label>
+							<Input
+								id="adjust-description"
+								placeholder="e.g. Bank fees for March"
+								value={description}
+								onChange={(e) => setDescription(e.target.value)}
+								required
+							/>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button
+							type="submit"
+							disabled={submitting}
+							className="bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+						>
+							{submitting ? 'Recording...' : 'Record Adjustment'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Check, EyeOff, FileSpreadsheet, Loader2, Pencil, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { getBankStatements, getStatementLines, reviewStatementLine } from '@/app/actions/payments';
+import ImportStatementDialog from './ImportStatementDialog';
+import MatchLineDialog from './MatchLineDialog';
+import toast from 'react-hot-toast';
+
+const STATUS_BADGES: Record<string, { variant: any; label: string }> = {
+	unmatched: { variant: 'outline', label: 'Unmatched' },
+	suggested: { variant: 'secondary', label: 'Suggested' },
+	confirmed: { variant: 'default', label: 'Confirmed' },
+	ignored: { variant: 'outline', label: 'Ignored' },
+};
+
+const FORMAT_LABELS: Record<string, string> = {
+	csv: 'CSV',
+	camt053: 'CAMT.053',
+	ofx: 'OFX',
+};
+
+/**
+ * Bank Statements Content Component
+ * Imported statements of the residence account and the review of their lines:
+ * the syndic confirms, corrects or ignores each automatic match
+ */
+export default function BankStatementsContent() {
+	const [statements, setStatements] = useState<any[]>([]);
+	const [lines, setLines] = useState<any[]>([]);
+	const [selectedStatement, setSelectedStatement] = useState('review'); // "review" = every line still to review
+	const [loading, setLoading] = useState(true);
+	const [busyLineId, setBusyLineId] = useState<number | null>(null);
+	const [showImportDialog, setShowImportDialog] = useState(false);
+	const [correctingLine, setCorrectingLine] = useState<any>(null);
+	const [refreshTrigger, setRefreshTrigger] = useState(0);
+
+	useEffect(() => {
+		async function fetchData() {
+			console.log('[BankStatementsContent] Fetching statements and lines');
+			setLoading(true);
+
+			try {
+				const [statementsResult, linesResult] = await Promise.all([
+					getBankStatements(),
+					getStatementLines(selectedStatement === 'review' ? {} : { statementId: Number(selectedStatement) }),
+				]);
+
+				if (statementsResult.success) {
+					setStatements(statementsResult.statements);
+				} else {
+					toast.error(statementsResult.error || 'Failed to load bank statements');
+				}
+
+				if (linesResult.success) {
+					setLines(linesResult.lines);
+				} else {
+					toast.error(linesResult.error || 'Failed to load statement lines');
+				}
+			} catch (error: any) {
+				console.error('[BankStatementsContent] Error fetching data:', error);
+				toast.error(error.message || 'Failed to load bank statements');
+			} finally {
+				setLoading(false);
+			}
+		}
+
+		fetchData();
+	}, [selectedStatement, refreshTrigger]);
+
+	async function handleReview(line: any, decision: 'confirm' | 'ignore') {
+		setBusyLineId(line.id);
+
+		try {
+			const result = await reviewStatementLine({ lineId: line.id, decision });
+			if (result.success) {
+				toast.success(decision === 'confirm' ? 'Match confirmed' : 'Line ignored');
+				setRefreshTrigger((prev) => prev + 1);
+			} else {
+				toast.error(result.error || 'Failed to review statement line');
+			}
+		} catch (error: any) {
+			console.error('[BankStatementsContent] Error reviewing line:', error);
+			toast.error(error.message || 'Failed to review statement line');
+		} finally {
+			setBusyLineId(null);
+		}
+	}
+
+	// Format currency
+	const formatCurrency = (amount: number) => {
+		return new Intl.NumberFormat('en-MA', {
+			style: 'currency',
+			currency: 'MAD',
+		}).format(amount);
+	};
+
+	// Format date
+	const formatDate = (dateString: string) => {
+		return new Date(dateString).toLocaleDateString('en-MA', {
+			year: 'numeric',
+			month: 'short',
+			day: 'numeric',
+		});
+	};
+
+	// What a line is (or would be) matched to
+	const describeMatch = (line: any) => {
+		if (line.match_type === 'transfer') {
+			return `Declared transfer of ${line.resident_name || 'a resident'}${line.payment?.apartment_number ? ` (Apt. ${line.payment.apartment_number})` : ''}`;
+		}
+		if (line.match_type === 'fees') {
+			const titles = line.fees.map((fee: any) => fee.title).join(', ');
+			return `${line.resident_name || 'Resident'}${line.fees[0]?.apartment_number ? ` (Apt. ${line.fees[0].apartment_number})` : ''}${titles ? `: ${titles}` : ''}`;
+		}
+		if (line.match_type === 'expense' && line.expense) {
+			return `${line.expense.status === 'draft' ? 'Draft expense' : 'Expense'}: ${line.expense.description} (${line.expense.category})`;
+		}
+		if (line.direction === 'debit') {
+			return 'New expense';
+		}
+		return null;
+	};
+
+	const toReview = statements.reduce((sum, statement) => sum + statement.to_review, 0);
+
+	return (
+		<div className="space-y-6">
+			<div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+				<Button variant="ghost" asChild className="gap-2 w-fit">
+					<Link href="/app/payments">
+						<ArrowLeft className="h-4 w-4" />
+						Payments
+					</Link>
+				</Button>
+				<Button
+					onClick={() => setShowImportDialog(true)}
+					className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+				>
+					<Upload className="h-4 w-4" />
+					Import Statement
+				</Button>
+			</div>
+
+			<Card>
+				<CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 space-y-0">
+					<CardTitle className="flex items-center gap-2 text-lg">
+						<FileSpreadsheet className="h-5 w-5" />
+						Statement Lines
+						{!loading && selectedStatement === 'review' && <Badge variant="secondary">{lines.length}</Badge>}
+					</CardTitle>
+					<Select value={selectedStatement} onValueChange={setSelectedStatement}>
+						<SelectTrigger className="w-full sm:w-[320px]" aria-label="Statement">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="review">To review ({toReview})</SelectItem>
+							{statements.map((statement) => (
+								<SelectItem key={statement.id} value={String(statement.id)}>
+									{statement.filename} · {FORMAT_LABELS[statement.format] || statement.format}
+									{statement.period_start ? ` · ${statement.period_start} to ${statement.period_end}` : ''}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</CardHeader>
+				<CardContent>
+					{loading ? (
+						<div className="space-y-3">
+							<div className="h-14 bg-muted rounded animate-pulse"></div>
+							<div className="h-14 bg-muted rounded animate-pulse"></div>
+							<div className="h-14 bg-muted rounded animate-pulse"></div>
+						</div>
+					) : lines.length === 0 ? (
+						<p className="text-sm text-muted-foreground text-center py-8">
+							{selectedStatement === 'review'
+								? 'Nothing to review. Import a statement to reconcile the bank account.'
+								: 'This statement has no new transaction.'}
+						</p>
+					) : (
+						<div className="divide-y">
+							{lines.map((line) => {
+								const badge = STATUS_BADGES[line.match_status] || { variant: 'outline', label: line.match_status };
+								const match = describeMatch(line);
+								const isOpen = line.match_status === 'unmatched' || line.match_status === 'suggested';
+								const canConfirm = line.direction === 'debit' || line.match_type === 'transfer' || line.match_type === 'fees';
+								const busy = busyLineId === line.id;
+
+								return (
+									<div key={line.id} className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 py-3">
+										<div className="min-w-0 space-y-1">
+											<div className="flex items-center gap-2">
+												<span className={`font-semibold ${line.direction === 'credit' ? 'text-emerald-700' : 'text-red-700'}`}>
+													{line.direction === 'credit' ? '+' : '-'}
+													{formatCurrency(line.amount)}
+												</span>
+												<span className="text-sm text-muted-foreground">{formatDate(line.booking_date)}</span>
+												<Badge variant={badge.variant}>{badge.label}</Badge>
+												{line.match_status === 'suggested' && line.match_score !== null && (
+													<span className="text-xs text-muted-foreground">{line.match_score}% match</span>
+												)}
+											</div>
+											<p className="text-sm truncate" title={line.description || ''}>
+												{line.description || line.counterparty || 'No description'}
+												{line.reference ? <span className="text-muted-foreground"> · Ref. {line.reference}</span> : null}
+											</p>
+											{match && (
+												<p className="text-xs text-muted-foreground truncate">→ {match}</p>
+											)}
+										</div>
+										{isOpen && (
+											<div className="flex gap-2 shrink-0">
+												<Button
+													size="sm"
+													variant="ghost"
+													onClick={() => handleReview(line, 'ignore')}
+													disabled={busy}
+													className="gap-2"
+												>
+													<EyeOff className="h-3 w-3" />
+													Ignore
+												</Button>
+												{!(line.direction === 'debit' && line.expense?.status === 'recorded') && (
+													<Button
+														size="sm"
+														variant="outline"
+														onClick={() => setCorrectingLine(line)}
+														disabled={busy}
+														className="gap-2"
+													>
+														<Pencil className="h-3 w-3" />
+														{line.match_type ? 'Correct' : 'Match'}
+													</Button>
+												)}
+												{canConfirm && (
+													<Button
+														size="sm"
+														onClick={() => handleReview(line, 'confirm')}
+														disabled={busy}
+														className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+													>
+														{busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+														Confirm
+													</Button>
+												)}
+											</div>
+										)}
+									</div>
+								);
+							})}
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			<ImportStatementDialog
+				open={showImportDialog}
+				onOpenChange={setShowImportDialog}
+				onSuccess={(statement) => {
+					setShowImportDialog(false);
+					if (statement?.id) {
+						setSelectedStatement(String(statement.id));
+					}
+					setRefreshTrigger((prev) => prev + 1);
+				}}
+			/>
+
+			<MatchLineDialog
+				line={correctingLine}
+				onOpenChange={(open) => !open && setCorrectingLine(null)}
+				onSuccess={() => {
+					setCorrectingLine(null);
+					setRefreshTrigger((prev) => prev + 1);
+				}}
+			/>
+		</div>
+	);
+}
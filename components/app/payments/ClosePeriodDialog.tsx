@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { closePeriod } from '@/app/actions/payments';
+import toast from 'react-hot-toast';
+
+interface ClosePeriodDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onSuccess: () => void;
+	balances: { cash: number; bank: number };
+	lockedThrough: string | null;
+}
+
+/**
+ * Close Period Dialog Component
+ * Records counted cash and the bank statement balance for a period end
+ */
+export default function ClosePeriodDialog({
+	open,
+	onOpenChange,
+	onSuccess,
+	balances,
+	lockedThrough,
+}: ClosePeriodDialogProps) {
+	const [submitting, setSubmitting] = useState(false);
+
+	// Form state
+	const [snapshotDate, setSnapshotDate] = useState('');
+	const [countedCash, setCountedCash] = useState('');
+	const [bankStatementBalance, setBankStatementBalance] = useState('');
+	const [notes, setNotes] = useState('');
+
+	// Reset form when dialog opens
+	useEffect(() => {
+		if (open) {
+			setSnapshotDate(new Date().toISOString().split('T')[0]);
+			setCountedCash('');
+			setBankStatementBalance('');
+			setNotes('');
+		}
+	}, [open]);
+
+	// Format currency
+	const formatCurrency = (amount: number) => {
+		return new Intl.NumberFormat('en-MA', {
+			style: 'currency',
+			currency: 'MAD',
+		}).format(amount);
+	};
+
+	// Preview against today's balances; the server uses the balances at the period end
+	const cashDiscrepancy = countedCash === '' ? null : Number(countedCash) - balances.cash;
+	const bankDiscrepancy = bankStatementBalance === '' ? null : Number(bankStatementBalance) - balances.bank;
+
+	async function handleSubmit(e: React.FormEvent) {
+		e.preventDefault();
+
+		if (!snapshotDate) {
+			toast.error('Please choose the last day of the period');
+			return;
+		}
+
+		if (countedCash === '' || bankStatementBalance === '') {
+			toast.error('Please enter the counted cash and the bank statement balance');
+			return;
+		}
+
+		setSubmitting(true);
+
+		try {
+			const result = await closePeriod({
+				snapshotDate,
+				countedCash: Number(countedCash),
+				bankStatementBalance: Number(bankStatementBalance),
+				notes: notes.trim() || undefined,
+			});
+
+			if (result.success) {
+				toast.success('Reconciliation saved');
+				onSuccess();
+			} else {
+				toast.error(result.error || 'Failed to save reconciliation');
+			}
+		} catch (error: any) {
+			console.error('[ClosePeriodDialog] Error closing period:', error);
+			toast.error(error.message || 'Failed to save reconciliation');
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	const renderDiscrepancy = (value: number | null) => {
+		if (value === null) return null;
+		if (Math.abs(value) < 0.005) {
+			return <p className="text-xs text-emerald-700">Matches the ledger</p>;
+		}
+		return (
+			<p className="text-xs text-red-700">
+				{value > 0 ? '+' : ''}
+				{formatCurrency(value)} against the ledger
+			</p>
+		);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[500px]">
+				<DialogHeader>
+					<DialogTitle>Close Period</DialogTitle>
+					<DialogDescription>
+						Count the cash box and read the bank statement at the end of the period.
+						{lockedThrough ? ` The books are closed through ${lockedThrough}.` : ''}
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-4 py-4">
+						<div className="grid gap-2">
+							<Label htmlFor="close-date">Period End *</Label>
+							<Input
+								id="close-date"
+								type="date"
+								value={snapshotDate}
+								min={lockedThrough || undefined}
+								max={new Date().toISOString().split('T')[0]}
+								onChange={(e) => setSnapshotDate(e.target.value)}
+								required
+							/>
+						</div>
+
+						<div className="grid grid-cols-2 gap-4">
+							<div className="grid gap-2">
+								<Label htmlFor="close-cash">Counted Cash (MAD) *</Label>
+								<Input
+									id="close-cash"
+									type="number"
+									step="0.01"
+									placeholder={balances.cash.toFixed(2)}
+									value={countedCash}
+									onChange={(e) => setCountedCash(e.target.value)}
+									required
+								/>
+								<p className="text-xs text-muted-foreground">Ledger: {formatCurrency(balances.cash)}</p>
+								{renderDiscrepancy(cashDiscrepancy)}
+							</div>
+							<div className="grid gap-2">
+								<Label htmlFor="close-bank">Bank Statement (MAD) *</Label>
+								<Input
+									id="close-bank"
+									type="number"
+									step="0.01"
+									placeholder={balances.bank.toFixed(2)}
+									value={bankStatementBalance}
+									onChange={(e) => setBankStatementBalance(e.target.value)}
+									required
+								/>
+								<p className="text-xs text-muted-foreground">Ledger: {formatCurrency(balances.bank)}</p>
+								{renderDiscrepancy(bankDiscrepancy)}
+							</div>
+						</div>
+
+						<div className="grid gap-2">
+							<Label htmlFor="close-notes">Notes</Label>
+							<Textarea
+								id="close-notes"
+								placeholder="Explain any difference (missing receipt, bank fees...)"
+								value={notes}
+								onChange={(e) => setNotes(e.target.value)}
+								rows={3}
+							/>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button
+							type="submit"
+							disabled={submitting}
+							className="bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+						>
+							{submitting ? 'Saving...' : 'Save Reconciliation'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
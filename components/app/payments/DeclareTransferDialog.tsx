@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { submitBankTransfer } from '@/app/actions/payments';
+import toast from 'react-hot-toast';
+
+interface DeclareTransferDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onSuccess: () => void;
+	fees: any[];
+}
+
+/**
+ * Declare Transfer Dialog Component
+ * A resident declares a bank transfer with its receipt against one or more fees
+ */
+export default function DeclareTransferDialog({ open, onOpenChange, onSuccess, fees }: DeclareTransferDialogProps) {
+	const [submitting, setSubmitting] = useState(false);
+	const [selectedFeeIds, setSelectedFeeIds] = useState<number[]>([]);
+	const [amount, setAmount] = useState('');
+	const [reference, setReference] = useState('');
+	const [transferDate, setTransferDate] = useState('');
+	const [file, setFile] = useState<File | null>(null);
+
+	// Start from a clean form each time
+	useEffect(() => {
+		if (open) {
+			setSelectedFeeIds([]);
+			setAmount('');
+			setReference('');
+			setTransferDate(new Date().toISOString().split('T')[0]);
+			setFile(null);
+		}
+	}, [open]);
+
+	// Suggest the balance of the selected fees as the amount
+	function toggleFee(fee: any, checked: boolean) {
+		const next = checked
+			? [...selectedFeeIds, fee.id]
+			: selectedFeeIds.filter((id) => id !== fee.id);
+		setSelectedFeeIds(next);
+
+		const total = fees
+			.filter((f) => next.includes(f.id))
+			.reduce((sum, f) => sum + Number(f.balance_due), 0);
+		setAmount(total > 0 ? total.toFixed(2) : '');
+	}
+
+	async function handleSubmit(e: React.FormEvent) {
+		e.preventDefault();
+
+		if (selectedFeeIds.length === 0) {
+			toast.error('Please select the fees this transfer pays');
+			return;
+		}
+
+		if (!amount || Number(amount) <= 0) {
+			toast.error('Please enter a valid amount');
+			return;
+		}
+
+		if (!file) {
+			toast.error('Please attach the transfer receipt');
+			return;
+		}
+
+		setSubmitting(true);
+
+		try {
+			const formData = new FormData();
+			formData.append('file', file);
+			formData.append('amount', amount);
+			formData.append('feeIds', JSON.stringify(selectedFeeIds));
+			formData.append('reference', reference.trim());
+			formData.append('transferDate', transferDate);
+
+			const result = await submitBankTransfer(formData);
+
+			if (result.success) {
+				toast.success('Transfer sent to your syndic for verification');
+				onSuccess();
+			} else {
+				toast.error(result.error || 'Failed to declare transfer');
+			}
+		} catch (error: any) {
+			console.error('[DeclareTransferDialog] Error declaring transfer:', error);
+			toast.error(error.message || 'Failed to declare transfer');
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	// Format currency
+	const formatCurrency = (value: number) => {
+		return new Intl.NumberFormat('en-MA', {
+			style: 'currency',
+			currency: 'MAD',
+		}).format(value);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Declare a Bank Transfer</DialogTitle>
+					<DialogDescription>
+						Your syndic checks the receipt against the bank statement, then marks the fees as paid.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-4 py-4">
+						<div className="grid gap-2">
+							<Label>Fees paid *</Label>
+							<div className="rounded-md border divide-y max-h-48 overflow-y-auto">
+								{fees.map((fee) => (
+									<label
+										key={fee.id}
+										htmlFor={`transfer-fee-${fee.id}`}
+										className="flex items-center justify-between gap-3 px-3 py-2 cursor-pointer"
+									>
+										<div className="flex items-center gap-2 min-w-0">
+											<Checkbox
+												id={`transfer-fee-${fee.id}`}
+												checked={selectedFeeIds.includes(fee.id)}
+												onCheckedChange={(checked) => toggleFee(fee, checked as boolean)}
+											/>
+											<span className="text-sm truncate">{fee.title}</span>
+										</div>
+										<span className="text-sm font-medium whitespace-nowrap">
+											{formatCurrency(Number(fee.balance_due))}
+										</span>
+									</label>
+								))}
+							</div>
+						</div>
+
+						<div className="grid grid-cols-2 gap-4">
+							<div className="grid gap-2">
+								<Label htmlFor="transfer-amount">Amount (MAD) *</Label>
+								<Input
+									id="transfer-amount"
+									type="number"
+									step="0.01"
+									min="0"
+									value={amount}
+									onChange={(e) => setAmount(e.target.value)}
+									required
+								/>
+							</div>
+
+							<div className="grid gap-2">
+								<Label htmlFor="transfer-date">Transfer date *</Label>
+								<Input
+									id="transfer-date"
+									type="date"
+									max={new Date().toISOString().split('T')[0]}
+									value={transferDate}
+									onChange={(e) => setTransferDate(e.target.value)}
+									required
+								/>
+							</div>
+						</div>
+
+						<div className="grid gap-2">
+							<Label htmlFor="transfer-reference">Bank reference</Label>
+							<Input
+								id="transfer-reference"
+								placeholder="e.g. VIR 2025-000123"
+								value={reference}
+								onChange={(e) => setReference(e.target.value)}
+							/>
+						</div>
+
+						<div className="grid gap-2">
+							<Label htmlFor="transfer-proof">Transfer receipt * (PDF or image, max 10MB)</Label>
+							<Input
+								id="transfer-proof"
+								type="file"
+								accept=".pdf,.jpg,.jpeg,.png"
+								onChange={(e) => setFile(e.target.files?.[0] || null)}
+								className="cursor-pointer"
+								required
+							/>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button
+							type="submit"
+							disabled={submitting}
+							className="bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+						>
+							{submitting ? 'Sending...' : 'Send for Verification'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { importStatement } from '@/app/actions/payments';
+import toast from 'react-hot-toast';
+
+interface ImportStatementDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onSuccess: (statement: any) => void;
+}
+
+/**
+ * Import Statement Dialog Component
+ * Uploads a bank statement export; its lines are matched on import
+ */
+export default function ImportStatementDialog({ open, onOpenChange, onSuccess }: ImportStatementDialogProps) {
+	const [submitting, setSubmitting] = useState(false);
+	const [file, setFile] = useState<File | null>(null);
+	const [format, setFormat] = useState('auto');
+
+	// Start from a clean form each time
+	useEffect(() => {
+		if (open) {
+			setFile(null);
+			setFormat('auto');
+		}
+	}, [open]);
+
+	async function handleSubmit(e: React.FormEvent) {
+		e.preventDefault();
+
+		if (!file) {
+			toast.error('Please choose a statement file');
+			return;
+		}
+
+		setSubmitting(true);
+
+		try {
+			const formData = new FormData();
+			formData.append('file', file);
+			formData.append('format', format);
+
+			const result = await importStatement(formData);
+
+			if (result.success) {
+				toast.success(
+					result.imported === 0
+						? 'Every transaction of this statement was already imported'
+						: `${result.imported} transactions imported, ${result.suggested} matched${result.skipped ? ` (${result.skipped} already imported)` : ''}`
+				);
+				onSuccess(result.statement);
+			} else {
+				toast.error(result.error || 'Failed to import statement');
+			}
+		} catch (error: any) {
+			console.error('[ImportStatementDialog] Error importing statement:', error);
+			toast.error(error.message || 'Failed to import statement');
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[500px]">
+				<DialogHeader>
+					<DialogTitle>Import a Bank Statement</DialogTitle>
+					<DialogDescription>
+						Credits are matched to declared transfers and open fees, debits to bank expenses. Nothing is
+						booked until you confirm it.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-4 py-4">
+						<div className="grid gap-2">
+							<Label htmlFor="statement-file">Statement file * (CSV, CAMT.053 XML or OFX, max 5MB)</Label>
+							<Input
+								id="statement-file"
+								type="file"
+								accept=".csv,.txt,.xml,.ofx,.qfx"
+								onChange={(e) => setFile(e.target.files?.[0] || null)}
+								className="cursor-pointer"
+								required
+							/>
+						</div>
+
+						<div className="grid gap-2">
+							<Label htmlFor="statement-format">Format</Label>
+							<Select value={format} onValueChange={setFormat}>
+								<SelectTrigger id="statement-format">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="auto">Detect automatically</SelectItem>
+									<SelectItem value="csv">CSV</SelectItem>
+									<SelectItem value="camt053">CAMT.053 (ISO 20022 XML)</SelectItem>
+									<SelectItem value="ofx">OFX</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={submitting} className="bg-blue-600 hover:bg-blue-700 text-white">
+							{submitting ? 'Importing...' : 'Import'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BookOpen } from 'lucide-react';
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { getLedgerEntries } from '@/app/actions/payments';
+import toast from 'react-hot-toast';
+
+type AccountFilter = 'all' | 'cash' | 'bank';
+
+interface LedgerTableProps {
+	refreshTrigger: number;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+	payment: 'Payment',
+	expense: 'Expense',
+	refund: 'Refund',
+	adjustment: 'Adjustment',
+	reversal: 'Reversal',
+};
+
+/**
+ * Ledger Table Component
+ * Every cash and bank movement with the running balance of its account
+ */
+export default function LedgerTable({ refreshTrigger }: LedgerTableProps) {
+	const [entries, setEntries] = useState<any[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [account, setAccount] = useState<AccountFilter>('all');
+
+	useEffect(() => {
+		async function fetchEntries() {
+			console.log('[LedgerTable] Fetching ledger entries');
+			setLoading(true);
+
+			try {
+				const result = await getLedgerEntries(account === 'all' ? {} : { account });
+				if (result.success) {
+					setEntries(result.entries);
+				} else {
+					toast.error(result.error || 'Failed to load ledger');
+				}
+			} catch (error: any) {
+				console.error('[LedgerTable] Error fetching ledger:', error);
+				toast.error(error.message || 'Failed to load ledger');
+			} finally {
+				setLoading(false);
+			}
+		}
+
+		fetchEntries();
+	}, [refreshTrigger, account]);
+
+	// Format currency
+	const formatCurrency = (amount: number) => {
+		return new Intl.NumberFormat('en-MA', {
+			style: 'currency',
+			currency: 'MAD',
+		}).format(amount);
+	};
+
+	// Format date
+	const formatDate = (dateString: string) => {
+		return new Date(dateString).toLocaleDateString('en-MA', {
+			year: 'numeric',
+			month: 'short',
+			day: 'numeric',
+		});
+	};
+
+	return (
+		<Card>
+			<div className="flex items-center justify-between p-4 border-b">
+				<div className="flex items-center gap-2">
+					<BookOpen className="h-4 w-4 text-muted-foreground" />
+					<span className="font-semibold">Ledger</span>
+				</div>
+				<Tabs value={account} onValueChange={(value) => setAccount(value as AccountFilter)}>
+					<TabsList>
+						<TabsTrigger value="all">All</TabsTrigger>
+						<TabsTrigger value="cash">Cash</TabsTrigger>
+						<TabsTrigger value="bank">Bank</TabsTrigger>
+					</TabsList>
+				</Tabs>
+			</div>
+
+			{loading ? (
+				<div className="p-6 space-y-3">
+					<div className="h-10 bg-muted rounded animate-pulse"></div>
+					<div className="h-10 bg-muted rounded animate-pulse"></div>
+					<div className="h-10 bg-muted rounded animate-pulse"></div>
+				</div>
+			) : entries.length === 0 ? (
+				<p className="p-8 text-center text-sm text-muted-foreground">No ledger entries yet.</p>
+			) : (
+				<div className="overflow-x-auto">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Date</TableHead>
+								<TableHead>Type</TableHead>
+								<TableHead>Description</TableHead>
+								<TableHead>Account</TableHead>
+								<TableHead className="text-right">Amount</TableHead>
+								<TableHead className="text-right">Balance</TableHead>
+								<TableHead>By</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{entries.map((entry) => (
+								<TableRow key={entry.id}>
+									<TableCell className="font-medium whitespace-nowrap">{formatDate(entry.created_at)}</TableCell>
+									<TableCell>
+										<Badge variant="outline">{TYPE_LABELS[entry.transaction_type] || entry.transaction_type}</Badge>
+									</TableCell>
+									<TableCell className="max-w-xs truncate" title={entry.description || ''}>
+										{entry.description || '—'}
+									</TableCell>
+									<TableCell className="capitalize">{entry.account}</TableCell>
+									<TableCell
+										className={`text-right font-semibold whitespace-nowrap ${
+											entry.amount >= 0 ? 'text-emerald-700' : 'text-red-700'
+										}`}
+									>
+										{entry.amount >= 0 ? '+' : ''}
+										{formatCurrency(entry.amount)}
+									</TableCell>
+									<TableCell className="text-right whitespace-nowrap">{formatCurrency(entry.balance_after)}</TableCell>
+									<TableCell className="text-muted-foreground">{entry.created_by_name || '—'}</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</div>
+			)}
+		</Card>
+	);
+}
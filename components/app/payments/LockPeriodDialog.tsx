@@ -0,0 +1,158 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { lockPeriod } from '@/app/actions/payments';
+import toast from 'react-hot-toast';
+
+interface LockPeriodDialogProps {
+	snapshot: any | null;
+	onOpenChange: (open: boolean) => void;
+	onSuccess: () => void;
+}
+
+/**
+ * Lock Period Dialog Component
+ * Locks a reconciled period; discrepancies must be explained and can be posted as adjustments
+ */
+export default function LockPeriodDialog({ snapshot, onOpenChange, onSuccess }: LockPeriodDialogProps) {
+	const [submitting, setSubmitting] = useState(false);
+	const [notes, setNotes] = useState('');
+	const [postAdjustments, setPostAdjustments] = useState(true);
+
+	useEffect(() => {
+		if (snapshot) {
+			setNotes(snapshot.notes || '');
+			setPostAdjustments(true);
+		}
+	}, [snapshot]);
+
+	// Format currency
+	const formatCurrency = (amount: number) => {
+		return new Intl.NumberFormat('en-MA', {
+			style: 'currency',
+			currency: 'MAD',
+		}).format(amount);
+	};
+
+	const hasDiscrepancy =
+		!!snapshot && (Math.abs(snapshot.cash_discrepancy) >= 0.005 || Math.abs(snapshot.bank_discrepancy) >= 0.005);
+
+	async function handleLock() {
+		if (!snapshot) return;
+
+		if (hasDiscrepancy && !notes.trim()) {
+			toast.error('Please explain the discrepancy before locking');
+			return;
+		}
+
+		setSubmitting(true);
+
+		try {
+			const result = await lockPeriod({
+				snapshotId: snapshot.id,
+				postAdjustments: hasDiscrepancy && postAdjustments,
+				notes: notes.trim() || undefined,
+			});
+
+			if (result.success) {
+				toast.success(`Books closed through ${snapshot.snapshot_date}`);
+				onSuccess();
+			} else {
+				toast.error(result.error || 'Failed to lock period');
+			}
+		} catch (error: any) {
+			console.error('[LockPeriodDialog] Error locking period:', error);
+			toast.error(error.message || 'Failed to lock period');
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	return (
+		<Dialog open={!!snapshot} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[500px]">
+				<DialogHeader>
+					<DialogTitle>Lock Period</DialogTitle>
+					<DialogDescription>
+						Once locked, expenses dated on or before {snapshot?.snapshot_date} can no longer be added, edited or deleted.
+					</DialogDescription>
+				</DialogHeader>
+
+				{snapshot && (
+					<div className="grid gap-4 py-4">
+						<div className="grid grid-cols-2 gap-4 text-sm">
+							<div className="rounded-lg border p-3">
+								<p className="font-medium">Cash</p>
+								<p className="text-muted-foreground">Counted {formatCurrency(snapshot.cash_balance)}</p>
+								<p className="text-muted-foreground">Ledger {formatCurrency(snapshot.computed_cash_balance)}</p>
+								<p className={Math.abs(snapshot.cash_discrepancy) >= 0.005 ? 'text-red-700' : 'text-emerald-700'}>
+									Difference {formatCurrency(snapshot.cash_discrepancy)}
+								</p>
+							</div>
+							<div className="rounded-lg border p-3">
+								<p className="font-medium">Bank</p>
+								<p className="text-muted-foreground">Statement {formatCurrency(snapshot.bank_balance)}</p>
+								<p className="text-muted-foreground">Ledger {formatCurrency(snapshot.computed_bank_balance)}</p>
+								<p className={Math.abs(snapshot.bank_discrepancy) >= 0.005 ? 'text-red-700' : 'text-emerald-700'}>
+									Difference {formatCurrency(snapshot.bank_discrepancy)}
+								</p>
+							</div>
+						</div>
+
+						{hasDiscrepancy && (
+							<>
+								<div className="grid gap-2">
+									<Label htmlFor="lock-notes">Explanation *</Label>
+									<Textarea
+										id="lock-notes"
+										placeholder="Why do the counted amounts differ from the ledger?"
+										value={notes}
+										onChange={(e) => setNotes(e.target.value)}
+										rows={3}
+									/>
+								</div>
+								<div className="flex items-center gap-2">
+									<Checkbox
+										id="lock-post-adjustments"
+										checked={postAdjustments}
+										onCheckedChange={(checked) => setPostAdjustments(checked === true)}
+									/>
+									<Label htmlFor="lock-post-adjustments" className="font-normal">
+										Post the differences to the ledger as adjustments
+									</Label>
+								</div>
+							</>
+						)}
+					</div>
+				)}
+
+				<DialogFooter>
+					<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button
+						onClick={handleLock}
+						disabled={submitting}
+						className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+					>
+						<Lock className="h-4 w-4" />
+						{submitting ? 'Locking...' : 'Lock Period'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
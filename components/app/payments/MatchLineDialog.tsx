@@ -0,0 +1,342 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { getOutstandingFees, getPendingTransfers, getResidents, reviewStatementLine } from '@/app/actions/payments';
+import toast from 'react-hot-toast';
+
+interface MatchLineDialogProps {
+	line: any | null;
+	onOpenChange: (open: boolean) => void;
+	onSuccess: () => void;
+}
+
+/**
+ * Expense categories
+ */
+const EXPENSE_CATEGORIES = [
+	'Electricity',
+	'Cleaning',
+	'Maintenance',
+	'Security',
+	'Insurance',
+	'Water',
+	'Internet',
+	'Trash Collection',
+	'Gardening',
+	'Plumbing',
+	'Electrical',
+	'Elevator',
+	'Other',
+];
+
+/**
+ * Match Line Dialog Component
+ * Confirms a statement line with another match than the suggested one: a credit
+ * pays a declared transfer or a resident's fees, a debit is recorded as an expense
+ */
+export default function MatchLineDialog({ line, onOpenChange, onSuccess }: MatchLineDialogProps) {
+	const [submitting, setSubmitting] = useState(false);
+	const [mode, setMode] = useState<'transfer' | 'fees'>('fees');
+	const [transfers, setTransfers] = useState<any[]>([]);
+	const [residents, setResidents] = useState<any[]>([]);
+	const [selectedTransfer, setSelectedTransfer] = useState('');
+	const [selectedResident, setSelectedResident] = useState(''); // Format: "userId|apartmentNumber"
+	const [fees, setFees] = useState<any[]>([]);
+	const [selectedFeeIds, setSelectedFeeIds] = useState<number[]>([]);
+	const [category, setCategory] = useState('Other');
+	const [description, setDescription] = useState('');
+
+	const isCredit = line?.direction === 'credit';
+
+	// Start from the current match each time
+	useEffect(() => {
+		if (!line) return;
+
+		setMode(line.match_type === 'transfer' ? 'transfer' : 'fees');
+		setSelectedTransfer(line.match_type === 'transfer' && line.matched_payment_id ? String(line.matched_payment_id) : '');
+		setSelectedResident('');
+		setSelectedFeeIds([]);
+		setCategory(line.expense?.category || 'Other');
+		setDescription(line.expense?.description || line.description || '');
+
+		if (line.direction !== 'credit') return;
+
+		Promise.all([getPendingTransfers(), getResidents()])
+			.then(([transfersResult, residentsResult]) => {
+				setTransfers(transfersResult.success ? transfersResult.transfers : []);
+				const list = residentsResult.success ? residentsResult.residents : [];
+				setResidents(list);
+
+				const matched = list.find((resident: any) => resident.id === line.matched_user_id);
+				if (line.match_type === 'fees' && matched) {
+					setSelectedResident(`${matched.id}|${matched.apartment_number || ''}`);
+					setSelectedFeeIds((line.matched_fee_ids || []).map(Number));
+				}
+			})
+			.catch((error) => {
+				console.error('[MatchLineDialog] Error loading candidates:', error);
+				toast.error('Failed to load transfers and residents');
+			});
+	}, [line]);
+
+	// Fetch the selected resident's outstanding fees (for the chosen apartment)
+	useEffect(() => {
+		const [userId, apartmentNumber] = selectedResident.split('|');
+		setFees([]);
+		if (!userId) return;
+
+		let cancelled = false;
+		getOutstandingFees(userId).then((result) => {
+			if (cancelled) return;
+			if (result.success) {
+				setFees(result.fees.filter((fee: any) => !apartmentNumber || (fee.apartment_number || '') === apartmentNumber));
+			} else {
+				toast.error(result.error || 'Failed to load outstanding fees');
+			}
+		});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [selectedResident]);
+
+	function toggleFee(feeId: number, checked: boolean) {
+		setSelectedFeeIds((prev) => (checked ? [...prev, feeId] : prev.filter((id) => id !== feeId)));
+	}
+
+	async function handleSubmit(e: React.FormEvent) {
+		e.preventDefault();
+
+		if (!line) return;
+
+		let correction: any;
+		if (!isCredit) {
+			correction = { category, description: description.trim() };
+		} else if (mode === 'transfer') {
+			if (!selectedTransfer) {
+				toast.error('Please select the transfer this credit pays');
+				return;
+			}
+			correction = { paymentId: Number(selectedTransfer) };
+		} else {
+			const [userId] = selectedResident.split('|');
+			if (!userId || selectedFeeIds.length === 0) {
+				toast.error('Please select the resident and the fees this credit pays');
+				return;
+			}
+			correction = { userId, feeIds: selectedFeeIds };
+		}
+
+		setSubmitting(true);
+
+		try {
+			const result = await reviewStatementLine({ lineId: line.id, decision: 'confirm', correction });
+
+			if (result.success) {
+				toast.success(isCredit ? 'Payment recorded and fees updated' : 'Expense recorded');
+				onSuccess();
+			} else {
+				toast.error(result.error || 'Failed to confirm statement line');
+			}
+		} catch (error: any) {
+			console.error('[MatchLineDialog] Error confirming line:', error);
+			toast.error(error.message || 'Failed to confirm statement line');
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	// Format currency
+	const formatCurrency = (value: number) => {
+		return new Intl.NumberFormat('en-MA', {
+			style: 'currency',
+			currency: 'MAD',
+		}).format(value);
+	};
+
+	const selectedTotal = fees
+		.filter((fee) => selectedFeeIds.includes(Number(fee.id)))
+		.reduce((sum, fee) => sum + Number(fee.balance_due), 0);
+
+	return (
+		<Dialog open={!!line} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[540px] max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>{isCredit ? 'Match Credit' : 'Record Debit'}</DialogTitle>
+					<DialogDescription>
+						{line
+							? `${formatCurrency(line.amount)} on ${line.booking_date}${line.description ? ` · ${line.description}` : ''}`
+							: ''}
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					{isCredit ? (
+						<div className="grid gap-4 py-4">
+							<div className="grid gap-2">
+								<Label htmlFor="match-mode">This credit pays</Label>
+								<Select value={mode} onValueChange={(value) => setMode(value as 'transfer' | 'fees')}>
+									<SelectTrigger id="match-mode">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="fees">Fees of a resident</SelectItem>
+										<SelectItem value="transfer">A transfer declared by a resident</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+
+							{mode === 'transfer' ? (
+								<div className="grid gap-2">
+									<Label htmlFor="match-transfer">Declared transfer *</Label>
+									<Select value={selectedTransfer} onValueChange={setSelectedTransfer}>
+										<SelectTrigger id="match-transfer">
+											<SelectValue placeholder="Select a transfer" />
+										</SelectTrigger>
+										<SelectContent>
+											{transfers.length === 0 ? (
+												<SelectItem value="empty" disabled>
+													No transfer waiting for verification
+												</SelectItem>
+											) : (
+												transfers.map((transfer) => (
+													<SelectItem key={transfer.id} value={String(transfer.id)}>
+														{formatCurrency(transfer.amount)} · {transfer.resident_name}
+														{transfer.apartment_number ? ` (Apt. ${transfer.apartment_number})` : ''}
+													</SelectItem>
+												))
+											)}
+										</SelectContent>
+									</Select>
+								</div>
+							) : (
+								<>
+									<div className="grid gap-2">
+										<Label htmlFor="match-resident">Resident *</Label>
+										<Select
+											value={selectedResident}
+											onValueChange={(value) => {
+												setSelectedResident(value);
+												setSelectedFeeIds([]);
+											}}
+										>
+											<SelectTrigger id="match-resident">
+												<SelectValue placeholder="Select a resident" />
+											</SelectTrigger>
+											<SelectContent>
+												{residents.map((resident) => (
+													<SelectItem
+														key={`${resident.id}-${resident.apartment_number || 'no-apt'}`}
+														value={`${resident.id}|${resident.apartment_number || ''}`}
+													>
+														{resident.full_name}
+														{resident.apartment_number ? ` - Apt. ${resident.apartment_number}` : ''}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+
+									{selectedResident && (
+										<div className="grid gap-2">
+											<Label>Fees paid *</Label>
+											{fees.length === 0 ? (
+												<p className="text-sm text-muted-foreground">No outstanding fee for this apartment.</p>
+											) : (
+												<div className="rounded-md border divide-y max-h-48 overflow-y-auto">
+													{fees.map((fee) => (
+														<label
+															key={fee.id}
+															htmlFor={`match-fee-${fee.id}`}
+															className="flex items-center justify-between gap-3 px-3 py-2 cursor-pointer"
+														>
+															<div className="flex items-center gap-2 min-w-0">
+																<Checkbox
+																	id={`match-fee-${fee.id}`}
+																	checked={selectedFeeIds.includes(Number(fee.id))}
+																	onCheckedChange={(checked) => toggleFee(Number(fee.id), checked as boolean)}
+																/>
+																<span className="text-sm truncate">{fee.title}</span>
+															</div>
+															<span className="text-sm font-medium whitespace-nowrap">
+																{formatCurrency(Number(fee.balance_due))}
+															</span>
+														</label>
+													))}
+												</div>
+											)}
+											{selectedFeeIds.length > 0 && Math.abs(selectedTotal - line.amount) > 0.005 && (
+												<p className="text-xs text-muted-foreground">
+													{selectedTotal < line.amount
+														? `${formatCurrency(line.amount - selectedTotal)} will be kept as credit for the resident.`
+														: `The selected fees will be paid partially (${formatCurrency(selectedTotal - line.amount)} left due).`}
+												</p>
+											)}
+										</div>
+									)}
+								</>
+							)}
+						</div>
+					) : (
+						<div className="grid gap-4 py-4">
+							<div className="grid gap-2">
+								<Label htmlFor="match-category">Category *</Label>
+								<Select value={category} onValueChange={setCategory}>
+									<SelectTrigger id="match-category">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{EXPENSE_CATEGORIES.map((cat) => (
+											<SelectItem key={cat} value={cat}>
+												{cat}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+
+							<div className="grid gap-2">
+								<Label htmlFor="match-description">Description *</Label>
+								<Input
+									id="match-description"
+									value={description}
+									onChange={(e) => setDescription(e.target.value)}
+									required
+								/>
+							</div>
+							<p className="text-xs text-muted-foreground">The expense is recorded as paid from the bank account.</p>
+						</div>
+					)}
+
+					<DialogFooter>
+						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={submitting} className="bg-blue-600 hover:bg-blue-700 text-white">
+							{submitting ? 'Confirming...' : 'Confirm'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
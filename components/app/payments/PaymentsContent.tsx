@@ -1,22 +1,34 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Plus, Wallet, Building2 } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Wallet, Building2, SlidersHorizontal, FileSpreadsheet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import AddPaymentDialog from './AddPaymentDialog';
 import PaymentsTable from './PaymentsTable';
+import LedgerTable from './LedgerTable';
+import AdjustBalanceDialog from './AdjustBalanceDialog';
+import ReconciliationCard from './ReconciliationCard';
+import TransferVerificationQueue from './TransferVerificationQueue';
 import { getBalances } from '@/app/actions/payments';
 import toast from 'react-hot-toast';
 import { useI18n } from '@/lib/i18n/client';
 
+interface PaymentsContentProps {
+	canVerifyTransfers?: boolean;
+	canReconcile?: boolean;
+}
+
 /**
  * Payments Content Component
- * Displays balance cards and payments table with add payment functionality
+ * Displays balance cards, the bank transfer verification queue and payments table
+ * with add payment functionality
  */
-export default function PaymentsContent() {
+export default function PaymentsContent({ canVerifyTransfers = false, canReconcile = false }: PaymentsContentProps) {
 	const { t } = useI18n();
 	const [showAddDialog, setShowAddDialog] = useState(false);
+	const [showAdjustDialog, setShowAdjustDialog] = useState(false);
 	const [balances, setBalances] = useState({ cashOnHand: 0, bankBalance: 0 });
 	const [loading, setLoading] = useState(true);
 	const [refreshTrigger, setRefreshTrigger] = useState(0);
@@ -57,6 +69,13 @@ export default function PaymentsContent() {
 		setShowAddDialog(false);
 	};
 
+	// Refresh balances and ledger after a refund or adjustment
+	const handleLedgerChange = () => {
+		console.log('[PaymentsContent] Ledger changed, refreshing data');
+		setRefreshTrigger((prev) => prev + 1);
+		setShowAdjustDialog(false);
+	};
+
 	// Format currency
 	const formatCurrency = (amount: number) => {
 		return new Intl.NumberFormat('en-MA', {
@@ -67,8 +86,6 @@ export default function PaymentsContent() {
 
 	return (
 		<div className="space-y-6">
-			{/* Debug log */}
-
 			{/* Balance Cards */}
 			<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
 				{/* Cash on Hand Card */}
@@ -120,17 +137,46 @@ export default function PaymentsContent() {
 						{t('payments.paymentRecordsDesc')}
 					</p>
 				</div>
-				<Button 
-					onClick={() => setShowAddDialog(true)} 
-					className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
-				>
-					<Plus className="h-4 w-4" />
-					{t('payments.addPayment')}
-				</Button>
+				<div className="flex gap-2">
+					{canReconcile && (
+						<Button variant="outline" asChild className="gap-2">
+							<Link href="/app/payments/bank-statements">
+								<FileSpreadsheet className="h-4 w-4" />
+								Bank Statements
+							</Link>
+						</Button>
+					)}
+					<Button
+						variant="outline"
+						onClick={() => setShowAdjustDialog(true)}
+						className="gap-2"
+					>
+						<SlidersHorizontal className="h-4 w-4" />
+						{t('payments.adjustBalance')}
+					</Button>
+					<Button 
+						onClick={() => setShowAddDialog(true)} 
+						className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+					>
+						<Plus className="h-4 w-4" />
+						{t('payments.addPayment')}
+					</Button>
+				</div>
 			</div>
 
+			{/* Bank transfers declared by residents */}
+			{canVerifyTransfers && (
+				<TransferVerificationQueue refreshTrigger={refreshTrigger} onReviewed={handleLedgerChange} />
+			)}
+
 			{/* Payments Table */}
-			<PaymentsTable refreshTrigger={refreshTrigger} />
+			<PaymentsTable refreshTrigger={refreshTrigger} onLedgerChange={handleLedgerChange} />
+
+			{/* Ledger */}
+			<LedgerTable refreshTrigger={refreshTrigger} />
+
+			{/* Period Close */}
+			<ReconciliationCard refreshTrigger={refreshTrigger} onLedgerChange={handleLedgerChange} />
 
 			{/* Add Payment Dialog */}
 			<AddPaymentDialog
@@ -138,6 +184,13 @@ export default function PaymentsContent() {
 				onOpenChange={setShowAddDialog}
 				onSuccess={handlePaymentAdded}
 			/>
+
+			{/* Adjust Balance Dialog */}
+			<AdjustBalanceDialog
+				open={showAdjustDialog}
+				onOpenChange={setShowAdjustDialog}
+				onSuccess={handleLedgerChange}
+			/>
 		</div>
 	);
 }
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { FileText, Download } from 'lucide-react';
+import { FileText, Download, Undo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
 	Table,
@@ -13,21 +13,24 @@ import {
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
-import { generateCashReceiptPDF, downloadPDF } from '@/lib/pdf/generator';
+import { generateReceiptPDF, downloadPDF } from '@/lib/pdf/generator';
+import RefundPaymentDialog from './RefundPaymentDialog';
 import toast from 'react-hot-toast';
 
 interface PaymentsTableProps {
 	refreshTrigger: number;
+	onLedgerChange?: () => void;
 }
 
 /**
  * Payments Table Component
  * Displays payment records with receipt download functionality
  */
-export default function PaymentsTable({ refreshTrigger }: PaymentsTableProps) {
+export default function PaymentsTable({ refreshTrigger, onLedgerChange }: PaymentsTableProps) {
 	const [payments, setPayments] = useState<any[]>([]);
 	const [loading, setLoading] = useState(true);
 	const [generatingReceipt, setGeneratingReceipt] = useState<number | null>(null);
+	const [refundingPayment, setRefundingPayment] = useState<any | null>(null);
 
 	// Fetch payments
 	useEffect(() => {
@@ -70,7 +73,7 @@ export default function PaymentsTable({ refreshTrigger }: PaymentsTableProps) {
 
 		try {
 			// Generate PDF
-			const pdfBytes = await generateCashReceiptPDF({
+			const pdfBytes = await generateReceiptPDF({
 				paymentId: payment.id,
 				residentName: payment.profiles?.full_name || 'Unknown',
 				apartmentNumber: payment.apartment_number || 'N/A',
@@ -80,6 +83,8 @@ export default function PaymentsTable({ refreshTrigger }: PaymentsTableProps) {
 				residenceName: payment.residences?.name || 'Residence',
 				residenceAddress: payment.residences?.address || '',
 				syndicName: payment.verified_by_profile?.full_name || 'Syndic',
+				method: payment.method,
+				reference: payment.stripe_payment_intent_id,
 			});
 
 			// Download PDF
@@ -132,6 +137,7 @@ export default function PaymentsTable({ refreshTrigger }: PaymentsTableProps) {
 	const getStatusBadge = (status: string) => {
 		const variants: Record<string, { variant: any; label: string }> = {
 			verified: { variant: 'default', label: 'Verified' },
+			completed: { variant: 'default', label: 'Completed' },
 			pending: { variant: 'secondary', label: 'Pending' },
 			rejected: { variant: 'destructive', label: 'Rejected' },
 		};
@@ -193,23 +199,46 @@ export default function PaymentsTable({ refreshTrigger }: PaymentsTableProps) {
 								<TableCell>{getMethodBadge(payment.method)}</TableCell>
 								<TableCell>{getStatusBadge(payment.status)}</TableCell>
 								<TableCell className="text-right">
-									{payment.method === 'cash' && payment.status === 'verified' && (
-										<Button
-											size="sm"
-											onClick={() => handleDownloadReceipt(payment)}
-											disabled={generatingReceipt === payment.id}
-											className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
-										>
-											<Download className="h-3 w-3" />
-											{generatingReceipt === payment.id ? 'Generating...' : 'Receipt'}
-										</Button>
-									)}
+									<div className="flex justify-end gap-2">
+										{((payment.method === 'cash' && payment.status === 'verified') ||
+											(payment.method === 'online_card' && payment.status === 'completed')) && (
+											<Button
+												size="sm"
+												onClick={() => handleDownloadReceipt(payment)}
+												disabled={generatingReceipt === payment.id}
+												className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+											>
+												<Download className="h-3 w-3" />
+												{generatingReceipt === payment.id ? 'Generating...' : 'Receipt'}
+											</Button>
+										)}
+										{(payment.status === 'verified' || payment.status === 'completed') && (
+											<Button
+												size="sm"
+												variant="outline"
+												onClick={() => setRefundingPayment(payment)}
+												className="gap-2"
+											>
+												<Undo2 className="h-3 w-3" />
+												Refund
+											</Button>
+										)}
+									</div>
 								</TableCell>
 							</TableRow>
 						))}
 					</TableBody>
 				</Table>
 			</div>
+
+			<RefundPaymentDialog
+				payment={refundingPayment}
+				onOpenChange={(open) => !open && setRefundingPayment(null)}
+				onSuccess={() => {
+					setRefundingPayment(null);
+					onLedgerChange?.();
+				}}
+			/>
 		</Card>
 	);
 }
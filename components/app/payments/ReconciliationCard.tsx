@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ClipboardCheck, Lock, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { getReconciliations, deleteReconciliation } from '@/app/actions/payments';
+import ClosePeriodDialog from './ClosePeriodDialog';
+import LockPeriodDialog from './LockPeriodDialog';
+import toast from 'react-hot-toast';
+
+interface ReconciliationCardProps {
+	refreshTrigger: number;
+	onLedgerChange: () => void;
+}
+
+/**
+ * Reconciliation Card Component
+ * Period-close history: counted cash and bank statement against the ledger
+ */
+export default function ReconciliationCard({ refreshTrigger, onLedgerChange }: ReconciliationCardProps) {
+	const [snapshots, setSnapshots] = useState<any[]>([]);
+	const [balances, setBalances] = useState({ cash: 0, bank: 0 });
+	const [lockedThrough, setLockedThrough] = useState<string | null>(null);
+	const [loading, setLoading] = useState(true);
+	const [showCloseDialog, setShowCloseDialog] = useState(false);
+	const [lockingSnapshot, setLockingSnapshot] = useState<any | null>(null);
+	const [deletingId, setDeletingId] = useState<number | null>(null);
+	const [reloadKey, setReloadKey] = useState(0);
+
+	useEffect(() => {
+		async function fetchReconciliations() {
+			console.log('[ReconciliationCard] Fetching reconciliations');
+			setLoading(true);
+
+			try {
+				const result = await getReconciliations();
+				if (result.success) {
+					setSnapshots(result.snapshots);
+					setBalances(result.balances);
+					setLockedThrough(result.lockedThrough);
+				} else {
+					toast.error(result.error || 'Failed to load reconciliations');
+				}
+			} catch (error: any) {
+				console.error('[ReconciliationCard] Error fetching reconciliations:', error);
+				toast.error(error.message || 'Failed to load reconciliations');
+			} finally {
+				setLoading(false);
+			}
+		}
+
+		fetchReconciliations();
+	}, [refreshTrigger, reloadKey]);
+
+	async function handleDelete(snapshotId: number) {
+		setDeletingId(snapshotId);
+
+		try {
+			const result = await deleteReconciliation(snapshotId);
+			if (result.success) {
+				toast.success('Reconciliation deleted');
+				setReloadKey((prev) => prev + 1);
+			} else {
+				toast.error(result.error || 'Failed to delete reconciliation');
+			}
+		} catch (error: any) {
+			console.error('[ReconciliationCard] Error deleting reconciliation:', error);
+			toast.error(error.message || 'Failed to delete reconciliation');
+		} finally {
+			setDeletingId(null);
+		}
+	}
+
+	// Format currency
+	const formatCurrency = (amount: number) => {
+		return new Intl.NumberFormat('en-MA', {
+			style: 'currency',
+			currency: 'MAD',
+		}).format(amount);
+	};
+
+	const renderDiscrepancy = (value: number) => (
+		<span className={Math.abs(value) >= 0.005 ? 'text-red-700 font-semibold' : 'text-emerald-700'}>
+			{value > 0 ? '+' : ''}
+			{formatCurrency(value)}
+		</span>
+	);
+
+	return (
+		<Card>
+			<div className="flex items-center justify-between p-4 border-b">
+				<div>
+					<div className="flex items-center gap-2">
+						<ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+						<span className="font-semibold">Period Close</span>
+					</div>
+					<p className="text-xs text-muted-foreground mt-1">
+						{lockedThrough ? `Books closed through ${lockedThrough}` : 'No period has been locked yet'}
+					</p>
+				</div>
+				<Button variant="outline" onClick={() => setShowCloseDialog(true)} className="gap-2">
+					<ClipboardCheck className="h-4 w-4" />
+					Close Period
+				</Button>
+			</div>
+
+			{loading ? (
+				<div className="p-6 space-y-3">
+					<div className="h-10 bg-muted rounded animate-pulse"></div>
+					<div className="h-10 bg-muted rounded animate-pulse"></div>
+				</div>
+			) : snapshots.length === 0 ? (
+				<p className="p-8 text-center text-sm text-muted-foreground">No reconciliations yet.</p>
+			) : (
+				<div className="overflow-x-auto">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Period End</TableHead>
+								<TableHead className="text-right">Counted Cash</TableHead>
+								<TableHead className="text-right">Cash Difference</TableHead>
+								<TableHead className="text-right">Bank Statement</TableHead>
+								<TableHead className="text-right">Bank Difference</TableHead>
+								<TableHead>Status</TableHead>
+								<TableHead className="text-right">Actions</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{snapshots.map((snapshot) => (
+								<TableRow key={snapshot.id}>
+									<TableCell className="font-medium whitespace-nowrap" title={snapshot.notes || ''}>
+										{snapshot.snapshot_date}
+									</TableCell>
+									<TableCell className="text-right whitespace-nowrap">{formatCurrency(snapshot.cash_balance)}</TableCell>
+									<TableCell className="text-right whitespace-nowrap">{renderDiscrepancy(snapshot.cash_discrepancy)}</TableCell>
+									<TableCell className="text-right whitespace-nowrap">{formatCurrency(snapshot.bank_balance)}</TableCell>
+									<TableCell className="text-right whitespace-nowrap">{renderDiscrepancy(snapshot.bank_discrepancy)}</TableCell>
+									<TableCell>
+										{snapshot.status === 'locked' ? (
+											<Badge variant="default" className="gap-1">
+												<Lock className="h-3 w-3" />
+												Locked
+											</Badge>
+										) : (
+											<Badge variant="secondary">Open</Badge>
+										)}
+									</TableCell>
+									<TableCell className="text-right">
+										{snapshot.status === 'open' && (
+											<div className="flex justify-end gap-2">
+												<Button size="sm" variant="outline" onClick={() => setLockingSnapshot(snapshot)} className="gap-2">
+													<Lock className="h-3 w-3" />
+													Lock
+												</Button>
+												<Button
+													size="sm"
+													variant="ghost"
+													onClick={() => handleDelete(snapshot.id)}
+													disabled={deletingId === snapshot.id}
+													aria-label="Delete reconciliation"
+												>
+													<Trash2 className="h-4 w-4" />
+												</Button>
+											</div>
+										)}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</div>
+			)}
+
+			<ClosePeriodDialog
+				open={showCloseDialog}
+				onOpenChange={setShowCloseDialog}
+				onSuccess={() => {
+					setShowCloseDialog(false);
+					setReloadKey((prev) => prev + 1);
+				}}
+				balances={balances}
+				lockedThrough={lockedThrough}
+			/>
+
+			<LockPeriodDialog
+				snapshot={lockingSnapshot}
+				onOpenChange={(open) => !open && setLockingSnapshot(null)}
+				onSuccess={() => {
+					setLockingSnapshot(null);
+					onLedgerChange();
+				}}
+			/>
+		</Card>
+	);
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { refundPayment } from '@/app/actions/payments';
+import toast from 'react-hot-toast';
+
+interface RefundPaymentDialogProps {
+	payment: any | null;
+	onOpenChange: (open: boolean) => void;
+	onSuccess: () => void;
+}
+
+/**
+ * Refund Payment Dialog Component
+ * Refunds all or part of a verified payment through the ledger
+ */
+export default function RefundPaymentDialog({ payment, onOpenChange, onSuccess }: RefundPaymentDialogProps) {
+	const [submitting, setSubmitting] = useState(false);
+	const [amount, setAmount] = useState('');
+	const [reason, setReason] = useState('');
+
+	// Default to a full refund
+	useEffect(() => {
+		if (payment) {
+			setAmount(String(payment.amount));
+			setReason('');
+		}
+	}, [payment]);
+
+	async function handleSubmit(e: React.FormEvent) {
+		e.preventDefault();
+
+		if (!payment) return;
+
+		if (!amount || Number(amount) <= 0) {
+			toast.error('Please enter a valid amount');
+			return;
+		}
+
+		if (!reason.trim()) {
+			toast.error('Please give a reason for the refund');
+			return;
+		}
+
+		setSubmitting(true);
+
+		try {
+			const result = await refundPayment({
+				paymentId: payment.id,
+				amount: Number(amount),
+				reason: reason.trim(),
+			});
+
+			if (result.success) {
+				toast.success('Refund recorded');
+				onSuccess();
+			} else {
+				toast.error(result.error || 'Failed to refund payment');
+			}
+		} catch (error: any) {
+			console.error('[RefundPaymentDialog] Error refunding payment:', error);
+			toast.error(error.message || 'Failed to refund payment');
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	return (
+		<Dialog open={!!payment} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[500px]">
+				<DialogHeader>
+					<DialogTitle>Refund Payment</DialogTitle>
+					<DialogDescription>
+						{payment
+							? `Payment #${payment.id} from ${payment.profiles?.full_name || 'Unknown'} (Apt. ${payment.apartment_number || 'N/A'})`
+							: ''}
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-4 py-4">
+						<div className="grid gap-2">
+							<Label htmlFor="refund-amount">Amount (MAD) *</Label>
+							<Input
+								id="refund-amount"
+								type="number"
+								step="0.01"
+								min="0"
+								max={payment?.amount}
+								value={amount}
+								onChange={(e) => setAmount(e.target.value)}
+								required
+							/>
+						</div>
+
+						<div className="grid gap-2">
+							<Label htmlFor="refund-reason">Reason *</Label>
+							<Input
+								id="refund-reason"
+								placeholder="e.g. Paid twice for March"
+								value={reason}
+								onChange={(e) => setReason(e.target.value)}
+								required
+							/>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={submitting} variant="destructive">
+							{submitting ? 'Refunding...' : 'Refund'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
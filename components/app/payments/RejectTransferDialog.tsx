@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { reviewTransfer } from '@/app/actions/payments';
+import toast from 'react-hot-toast';
+
+interface RejectTransferDialogProps {
+	transfer: any | null;
+	onOpenChange: (open: boolean) => void;
+	onSuccess: () => void;
+}
+
+/**
+ * Reject Transfer Dialog Component
+ * Rejects a declared bank transfer with a reason shown to the resident
+ */
+export default function RejectTransferDialog({ transfer, onOpenChange, onSuccess }: RejectTransferDialogProps) {
+	const [submitting, setSubmitting] = useState(false);
+	const [reason, setReason] = useState('');
+
+	useEffect(() => {
+		if (transfer) {
+			setReason('');
+		}
+	}, [transfer]);
+
+	async function handleSubmit(e: React.FormEvent) {
+		e.preventDefault();
+
+		if (!transfer) return;
+
+		if (!reason.trim()) {
+			toast.error('Please give a reason for the rejection');
+			return;
+		}
+
+		setSubmitting(true);
+
+		try {
+			const result = await reviewTransfer({
+				paymentId: transfer.id,
+				decision: 'reject',
+				reason: reason.trim(),
+			});
+
+			if (result.success) {
+				toast.success('Transfer rejected');
+				onSuccess();
+			} else {
+				toast.error(result.error || 'Failed to reject transfer');
+			}
+		} catch (error: any) {
+			console.error('[RejectTransferDialog] Error rejecting transfer:', error);
+			toast.error(error.message || 'Failed to reject transfer');
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	return (
+		<Dialog open={!!transfer} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[500px]">
+				<DialogHeader>
+					<DialogTitle>Reject Transfer</DialogTitle>
+					<DialogDescription>
+						{transfer
+							? `${Number(transfer.amount).toFixed(2)} MAD from ${transfer.resident_name} (Apt. ${transfer.apartment_number || 'N/A'})`
+							: ''}
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit}>
+					<div className="grid gap-2 py-4">
+						<Label htmlFor="reject-reason">Reason *</Label>
+						<Textarea
+							id="reject-reason"
+							placeholder="e.g. No matching credit on the bank statement"
+							value={reason}
+							onChange={(e) => setReason(e.target.value)}
+							rows={3}
+							required
+						/>
+						<p className="text-xs text-muted-foreground">The resident is notified with this reason.</p>
+					</div>
+
+					<DialogFooter>
+						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={submitting} variant="destructive">
+							{submitting ? 'Rejecting...' : 'Reject'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Landmark, Receipt, FileText, CreditCard } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getMyPaymentsOverview, startFeeCheckout } from '@/app/actions/payments';
+import DeclareTransferDialog from './DeclareTransferDialog';
+import toast from 'react-hot-toast';
+
+const STATUS_BADGES: Record<string, { variant: any; label: string }> = {
+	pending: { variant: 'secondary', label: 'Awaiting verification' },
+	verified: { variant: 'default', label: 'Verified' },
+	rejected: { variant: 'destructive', label: 'Rejected' },
+};
+
+/**
+ * Resident Payments Content Component
+ * A resident's outstanding fees, paid by card or by declaring a bank transfer,
+ * and the bank transfers they declared for them
+ */
+export default function ResidentPaymentsContent() {
+	const [fees, setFees] = useState<any[]>([]);
+	const [credit, setCredit] = useState(0);
+	const [transfers, setTransfers] = useState<any[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [showDeclareDialog, setShowDeclareDialog] = useState(false);
+	const [refreshTrigger, setRefreshTrigger] = useState(0);
+	const [checkoutLoading, setCheckoutLoading] = useState(false);
+
+	useEffect(() => {
+		async function fetchOverview() {
+			console.log('[ResidentPaymentsContent] Fetching payments overview');
+			setLoading(true);
+
+			try {
+				const result = await getMyPaymentsOverview();
+				if (result.success) {
+					setFees(result.fees);
+					setCredit(result.credit);
+					setTransfers(result.transfers);
+				} else {
+					toast.error(result.error || 'Failed to load your payments');
+				}
+			} catch (error: any) {
+				console.error('[ResidentPaymentsContent] Error fetching overview:', error);
+				toast.error(error.message || 'Failed to load your payments');
+			} finally {
+				setLoading(false);
+			}
+		}
+
+		fetchOverview();
+	}, [refreshTrigger]);
+
+	// Fees with a transfer waiting for verification can't be declared again
+	const pendingFeeIds = new Set(
+		transfers
+			.filter((transfer) => transfer.status === 'pending')
+			.flatMap((transfer) => (transfer.requested_fee_ids || []).map(Number))
+	);
+	const declarableFees = fees.filter((fee) => !pendingFeeIds.has(Number(fee.id)));
+
+	// Send the resident to Stripe Checkout; the webhook settles the fees once paid
+	const handlePayByCard = async (feeIds: number[]) => {
+		setCheckoutLoading(true);
+		try {
+			const result = await startFeeCheckout(feeIds);
+			if (result.success && result.url) {
+				window.location.href = result.url;
+				return;
+			}
+			toast.error(result.error || 'Failed to start card payment');
+		} catch (error: any) {
+			console.error('[ResidentPaymentsContent] Error starting checkout:', error);
+			toast.error(error.message || 'Failed to start card payment');
+		}
+		setCheckoutLoading(false);
+	};
+
+	// Format currency
+	const formatCurrency = (amount: number) => {
+		return new Intl.NumberFormat('en-MA', {
+			style: 'currency',
+			currency: 'MAD',
+		}).format(amount);
+	};
+
+	// Format date
+	const formatDate = (dateString: string) => {
+		return new Date(dateString).toLocaleDateString('en-MA', {
+			year: 'numeric',
+			month: 'short',
+			day: 'numeric',
+		});
+	};
+
+	return (
+		<div className="space-y-6">
+			<Card>
+				<CardHeader className="flex flex-row items-center justify-between space-y-0">
+					<CardTitle className="flex items-center gap-2 text-lg">
+						<Receipt className="h-5 w-5" />
+						Fees to Pay
+					</CardTitle>
+					<div className="flex items-center gap-2">
+						<Button
+							variant="outline"
+							onClick={() => handlePayByCard(declarableFees.map((fee) => Number(fee.id)))}
+							disabled={loading || checkoutLoading || declarableFees.length === 0}
+							className="gap-2"
+						>
+							<CreditCard className="h-4 w-4" />
+							{checkoutLoading ? 'Redirecting...' : 'Pay by Card'}
+						</Button>
+						<Button
+							onClick={() => setShowDeclareDialog(true)}
+							disabled={loading || declarableFees.length === 0}
+							className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+						>
+							<Landmark className="h-4 w-4" />
+							Declare a Bank Transfer
+						</Button>
+					</div>
+				</CardHeader>
+				<CardContent>
+					{loading ? (
+						<div className="space-y-3">
+							<div className="h-10 bg-muted rounded animate-pulse"></div>
+							<div className="h-10 bg-muted rounded animate-pulse"></div>
+						</div>
+					) : fees.length === 0 ? (
+						<p className="text-sm text-muted-foreground text-center py-6">You have no fees to pay.</p>
+					) : (
+						<div className="divide-y">
+							{fees.map((fee) => (
+								<div key={fee.id} className="flex items-center justify-between gap-4 py-2.5">
+									<div className="min-w-0">
+										<div className="flex items-center gap-2">
+											<span className="font-medium truncate">{fee.title}</span>
+											{fee.status === 'overdue' && <Badge variant="destructive">Overdue</Badge>}
+											{pendingFeeIds.has(Number(fee.id)) && <Badge variant="secondary">Transfer pending</Badge>}
+										</div>
+										<p className="text-xs text-muted-foreground mt-0.5">Due {formatDate(fee.due_date)}</p>
+									</div>
+									<div className="flex items-center gap-2 shrink-0">
+										<span className="font-semibold whitespace-nowrap">{formatCurrency(fee.balance_due)}</span>
+										{!pendingFeeIds.has(Number(fee.id)) && (
+											<Button
+												size="sm"
+												variant="ghost"
+												onClick={() => handlePayByCard([Number(fee.id)])}
+												disabled={checkoutLoading}
+												className="gap-2"
+											>
+												<CreditCard className="h-3 w-3" />
+												Pay
+											</Button>
+										)}
+									</div>
+								</div>
+							))}
+						</div>
+					)}
+					{!loading && credit > 0 && (
+						<p className="text-sm text-muted-foreground mt-4">
+							Credit available: <span className="font-medium text-foreground">{formatCurrency(credit)}</span>
+						</p>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle className="flex items-center gap-2 text-lg">
+						<Landmark className="h-5 w-5" />
+						My Bank Transfers
+					</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{loading ? (
+						<div className="h-24 bg-muted rounded animate-pulse"></div>
+					) : transfers.length === 0 ? (
+						<p className="text-sm text-muted-foreground text-center py-6">No transfer declared yet.</p>
+					) : (
+						<div className="divide-y">
+							{transfers.map((transfer) => {
+								const badge = STATUS_BADGES[transfer.status] || { variant: 'outline', label: transfer.status };
+								return (
+									<div key={transfer.id} className="flex items-start justify-between gap-4 py-3">
+										<div className="min-w-0">
+											<div className="flex items-center gap-2">
+												<span className="font-semibold">{formatCurrency(transfer.amount)}</span>
+												<Badge variant={badge.variant}>{badge.label}</Badge>
+											</div>
+											<p className="text-xs text-muted-foreground mt-0.5">
+												Sent {formatDate(transfer.paid_at)}
+												{transfer.transfer_reference ? ` · Ref. ${transfer.transfer_reference}` : ''}
+											</p>
+											{transfer.status === 'rejected' && transfer.rejection_reason && (
+												<p className="text-sm text-red-600 mt-1">{transfer.rejection_reason}</p>
+											)}
+										</div>
+										{transfer.proof_url && (
+											<Button size="sm" variant="ghost" asChild className="gap-2 shrink-0">
+												<a href={transfer.proof_url} target="_blank" rel="noopener noreferrer">
+													<FileText className="h-3 w-3" />
+													Receipt
+												</a>
+											</Button>
+										)}
+									</div>
+								);
+							})}
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			<DeclareTransferDialog
+				open={showDeclareDialog}
+				onOpenChange={setShowDeclareDialog}
+				onSuccess={() => {
+					setShowDeclareDialog(false);
+					setRefreshTrigger((prev) => prev + 1);
+				}}
+				fees={declarableFees}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Check, X, FileText, Landmark, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getPendingTransfers, reviewTransfer } from '@/app/actions/payments';
+import RejectTransferDialog from './RejectTransferDialog';
+import toast from 'react-hot-toast';
+
+interface TransferVerificationQueueProps {
+	refreshTrigger?: number;
+	onReviewed: () => void;
+}
+
+/**
+ * Transfer Verification Queue Component
+ * Bank transfers declared by residents, waiting for the syndic to approve or reject them
+ */
+export default function TransferVerificationQueue({ refreshTrigger, onReviewed }: TransferVerificationQueueProps) {
+	const [transfers, setTransfers] = useState<any[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [approvingId, setApprovingId] = useState<number | null>(null);
+	const [rejectingTransfer, setRejectingTransfer] = useState<any>(null);
+
+	useEffect(() => {
+		async function fetchTransfers() {
+			console.log('[TransferVerificationQueue] Fetching pending transfers');
+			setLoading(true);
+
+			try {
+				const result = await getPendingTransfers();
+				if (result.success) {
+					setTransfers(result.transfers);
+				} else {
+					toast.error(result.error || 'Failed to load pending transfers');
+				}
+			} catch (error: any) {
+				console.error('[TransferVerificationQueue] Error fetching transfers:', error);
+				toast.error(error.message || 'Failed to load pending transfers');
+			} finally {
+				setLoading(false);
+			}
+		}
+
+		fetchTransfers();
+	}, [refreshTrigger]);
+
+	async function handleApprove(transfer: any) {
+		setApprovingId(transfer.id);
+
+		try {
+			const result = await reviewTransfer({ paymentId: transfer.id, decision: 'approve' });
+			if (result.success) {
+				toast.success('Transfer approved and fees updated');
+				onReviewed();
+			} else {
+				toast.error(result.error || 'Failed to approve transfer');
+			}
+		} catch (error: any) {
+			console.error('[TransferVerificationQueue] Error approving transfer:', error);
+			toast.error(error.message || 'Failed to approve transfer');
+		} finally {
+			setApprovingId(null);
+		}
+	}
+
+	// Format currency
+	const formatCurrency = (amount: number) => {
+		return new Intl.NumberFormat('en-MA', {
+			style: 'currency',
+			currency: 'MAD',
+		}).format(amount);
+	};
+
+	// Format date
+	const formatDate = (dateString: string) => {
+		return new Date(dateString).toLocaleDateString('en-MA', {
+			year: 'numeric',
+			month: 'short',
+			day: 'numeric',
+		});
+	};
+
+	// Nothing to show once the queue is empty
+	if (!loading && transfers.length === 0) {
+		return null;
+	}
+
+	return (
+		<Card className="border-amber-200">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2 text-lg">
+					<Landmark className="h-5 w-5" />
+					Transfers to Verify
+					{!loading && <Badge variant="secondary">{transfers.length}</Badge>}
+				</CardTitle>
+			</CardHeader>
+			<CardContent>
+				{loading ? (
+					<div className="space-y-3">
+						<div className="h-16 bg-muted rounded animate-pulse"></div>
+						<div className="h-16 bg-muted rounded animate-pulse"></div>
+					</div>
+				) : (
+					<div className="divide-y">
+						{transfers.map((transfer) => (
+							<div key={transfer.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3">
+								<div className="min-w-0 space-y-1">
+									<div className="flex items-center gap-2">
+										<span className="font-semibold">{formatCurrency(transfer.amount)}</span>
+										<span className="text-sm text-muted-foreground truncate">
+											{transfer.resident_name}
+											{transfer.apartment_number ? ` - Apt. ${transfer.apartment_number}` : ''}
+										</span>
+									</div>
+									<p className="text-xs text-muted-foreground">
+										Sent {formatDate(transfer.paid_at)}
+										{transfer.transfer_reference ? ` · Ref. ${transfer.transfer_reference}` : ''}
+										{' · '}Declared {formatDate(transfer.submitted_at)}
+									</p>
+									<p className="text-xs text-muted-foreground truncate">
+										For {transfer.fees.map((fee: any) => fee.title).join(', ') || 'fees already settled'}
+										{Math.abs(transfer.balance_due - transfer.amount) > 0.005 &&
+											` (${formatCurrency(transfer.balance_due)} due)`}
+									</p>
+								</div>
+								<div className="flex gap-2 shrink-0">
+									{transfer.proof_url && (
+										<Button size="sm" variant="outline" asChild className="gap-2">
+											<a href={transfer.proof_url} target="_blank" rel="noopener noreferrer">
+												<FileText className="h-3 w-3" />
+												Proof
+											</a>
+										</Button>
+									)}
+									<Button
+										size="sm"
+										variant="outline"
+										onClick={() => setRejectingTransfer(transfer)}
+										disabled={approvingId === transfer.id}
+										className="gap-2"
+									>
+										<X className="h-3 w-3" />
+										Reject
+									</Button>
+									<Button
+										size="sm"
+										onClick={() => handleApprove(transfer)}
+										disabled={approvingId === transfer.id}
+										className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+									>
+										{approvingId === transfer.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+										Approve
+									</Button>
+								</div>
+							</div>
+						))}
+					</div>
+				)}
+			</CardContent>
+
+			<RejectTransferDialog
+				transfer={rejectingTransfer}
+				onOpenChange={(open) => !open && setRejectingTransfer(null)}
+				onSuccess={() => {
+					setRejectingTransfer(null);
+					onReviewed();
+				}}
+			/>
+		</Card>
+	);
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Vote, Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { createPoll } from '@/app/app/polls/actions';
+import toast from 'react-hot-toast';
+
+interface CreatePollDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  residenceName?: string;
+}
+
+/**
+ * Create Poll Dialog Component
+ * Lets the syndic open a vote with its options, closing date and voting rules
+ */
+export default function CreatePollDialog({
+  open,
+  onClose,
+  onSuccess,
+  residenceName,
+}: CreatePollDialogProps) {
+  const [submitting, setSubmitting] = useState(false);
+
+  // Form state
+  const [question, setQuestion] = useState('');
+  const [description, setDescription] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [closesAt, setClosesAt] = useState('');
+  const [voteScope, setVoteScope] = useState<'apartment' | 'profile'>('apartment');
+  const [quorumPercent, setQuorumPercent] = useState('');
+  const [isAnonymous, setIsAnonymous] = useState(false);
+
+  const [errors, setErrors] = useState<{ question?: string; options?: string; quorum?: string }>({});
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setQuestion('');
+      setDescription('');
+      setOptions(['', '']);
+      setClosesAt('');
+      setVoteScope('apartment');
+      setQuorumPercent('');
+      setIsAnonymous(false);
+      setErrors({});
+    }
+  }, [open]);
+
+  const updateOption = (index: number, value: string) => {
+    setOptions((prev) => prev.map((o, i) => (i === index ? value : o)));
+    if (errors.options) setErrors({ ...errors, options: undefined });
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: typeof errors = {};
+    if (!question.trim()) newErrors.question = 'Question is required';
+    if (options.filter((o) => o.trim()).length < 2) newErrors.options = 'At least two options are required';
+    if (quorumPercent) {
+      const quorum = Number(quorumPercent);
+      if (isNaN(quorum) || quorum <= 0 || quorum > 100) {
+        newErrors.quorum = 'Quorum must be between 1 and 100';
+      }
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setSubmitting(true);
+
+    try {
+      const result = await createPoll({
+        question: question.trim(),
+        description: description.trim() || null,
+        options: options.map((o) => o.trim()).filter(Boolean),
+        closes_at: closesAt ? new Date(closesAt).toISOString() : null,
+        vote_scope: voteScope,
+        quorum_percent: quorumPercent ? Number(quorumPercent) : null,
+        is_anonymous: isAnonymous,
+      });
+
+      if (result.success) {
+        toast.success('Poll created successfully');
+        onSuccess();
+        onClose();
+      } else {
+        toast.error(result.error || 'Failed to create poll');
+      }
+    } catch (error: any) {
+      console.error('[CreatePollDialog] Error creating poll:', error);
+      toast.error(error.message || 'Failed to create poll');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Vote className="h-5 w-5" />
+            New Poll
+          </DialogTitle>
+          <DialogDescription>
+            {`Ask the residents of ${residenceName || 'your residence'} to vote`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Question */}
+          <div className="grid gap-2">
+            <Label htmlFor="poll-question">
+              Question <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="poll-question"
+              value={question}
+              onChange={(e) => {
+                setQuestion(e.target.value);
+                if (errors.question) setErrors({ ...errors, question: undefined });
+              }}
+              placeholder="e.g. Should we repaint the main entrance?"
+              aria-invalid={!!errors.question}
+              className={errors.question ? 'border-destructive' : ''}
+            />
+            {errors.question && (
+              <p className="text-sm text-destructive" role="alert">{errors.question}</p>
+            )}
+          </div>
+
+          {/* Description */}
+          <div className="grid gap-2">
+            <Label htmlFor="poll-description">Description (Optional)</Label>
+            <Textarea
+              id="poll-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Give residents the context they need to vote..."
+              rows={3}
+            />
+          </div>
+
+          {/* Options */}
+          <div className="grid gap-2">
+            <Label>
+              Options <span className="text-destructive">*</span>
+            </Label>
+            {options.map((option, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={option}
+                  onChange={(e) => updateOption(index, e.target.value)}
+                  placeholder={`Option ${index + 1}`}
+                  aria-label={`Option ${index + 1}`}
+                />
+                {options.length > 2 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setOptions((prev) => prev.filter((_, i) => i !== index))}
+                    aria-label={`Remove option ${index + 1}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="w-fit"
+              onClick={() => setOptions((prev) => [...prev, ''])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add option
+            </Button>
+            {errors.options && (
+              <p className="text-sm text-destructive" role="alert">{errors.options}</p>
+            )}
+          </div>
+
+          {/* Closes At */}
+          <div className="grid gap-2">
+            <Label htmlFor="poll-closes-at">Closes at (Optional)</Label>
+            <Input
+              id="poll-closes-at"
+              type="datetime-local"
+              value={closesAt}
+              onChange={(e) => setClosesAt(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Votes are refused after this date. Leave empty to close the poll manually.
+            </p>
+          </div>
+
+          {/* Vote Scope */}
+          <div className="grid gap-2">
+            <Label>Who votes</Label>
+            <RadioGroup
+              value={voteScope}
+              onValueChange={(value) => setVoteScope(value as 'apartment' | 'profile')}
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="apartment" id="poll-scope-apartment" />
+                <Label htmlFor="poll-scope-apartment" className="cursor-pointer font-normal">
+                  One vote per apartment
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="profile" id="poll-scope-profile" />
+                <Label htmlFor="poll-scope-profile" className="cursor-pointer font-normal">
+                  One vote per resident
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {/* Quorum */}
+          <div className="grid gap-2">
+            <Label htmlFor="poll-quorum">Quorum % (Optional)</Label>
+            <Input
+              id="poll-quorum"
+              type="number"
+              min="1"
+              max="100"
+              value={quorumPercent}
+              onChange={(e) => {
+                setQuorumPercent(e.target.value);
+                if (errors.quorum) setErrors({ ...errors, quorum: undefined });
+              }}
+              placeholder="e.g. 50"
+              aria-invalid={!!errors.quorum}
+              className={errors.quorum ? 'border-destructive' : ''}
+            />
+            {errors.quorum ? (
+              <p className="text-sm text-destructive" role="alert">{errors.quorum}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Minimum participation for the result to be valid
+              </p>
+            )}
+          </div>
+
+          {/* Anonymous */}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="poll-anonymous"
+              checked={isAnonymous}
+              onCheckedChange={(checked) => setIsAnonymous(checked === true)}
+            />
+            <Label htmlFor="poll-anonymous" className="cursor-pointer">
+              Anonymous vote (only participation is shown, not individual choices)
+            </Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-gray-900 hover:bg-gray-800 text-white"
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitting ? 'Creating...' : 'Create Poll'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { Trash2, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Poll } from './PollsContent';
+
+interface DeletePollDialogProps {
+  open: boolean;
+  poll: Poll | null;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+/**
+ * Delete Poll Dialog Component
+ * Confirmation dialog for deleting polls
+ */
+export default function DeletePollDialog({
+  open,
+  poll,
+  onClose,
+  onConfirm,
+}: DeletePollDialogProps) {
+  if (!poll) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-destructive">
+            <Trash2 className="h-5 w-5" />
+            Delete Poll
+          </DialogTitle>
+          <DialogDescription>
+            This action cannot be undone. All votes cast on this poll will be deleted. Export the results first if you need to keep a record.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4">
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Are you sure you want to delete this poll?
+              <p className="mt-2 font-semibold">{poll.question}</p>
+            </AlertDescription>
+          </Alert>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" variant="destructive" onClick={onConfirm}>
+            Delete Poll
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BarChart3, Download, Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Poll } from './PollsContent';
+import type { PollResults } from '@/lib/poll-utils';
+import { exportPollResultsCsv, getPollResultsDetails } from '@/app/app/polls/actions';
+import { downloadCSV } from '@/lib/csv';
+import toast from 'react-hot-toast';
+
+interface PollResultsDialogProps {
+  open: boolean;
+  poll: Poll | null;
+  onClose: () => void;
+}
+
+/**
+ * Poll Results Dialog Component
+ * Shows option totals, quorum status and participation by apartment, with CSV export
+ */
+export default function PollResultsDialog({ open, poll, onClose }: PollResultsDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [results, setResults] = useState<PollResults | null>(null);
+
+  useEffect(() => {
+    if (!open || !poll) return;
+
+    let cancelled = false;
+    setLoading(true);
+    getPollResultsDetails(poll.id)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success && result.data) {
+          setResults(result.data as PollResults);
+        } else {
+          toast.error(result.error || 'Failed to load results');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, poll]);
+
+  const handleExport = async () => {
+    if (!poll) return;
+    setExporting(true);
+    try {
+      const result = await exportPollResultsCsv(poll.id);
+      if (result.success && result.data) {
+        downloadCSV(result.data.csv, result.data.filename);
+        toast.success('Results exported');
+      } else {
+        toast.error(result.error || 'Failed to export results');
+      }
+    } catch (error: any) {
+      console.error('[PollResultsDialog] Error exporting results:', error);
+      toast.error(error.message || 'Failed to export results');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!poll) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Poll Results
+          </DialogTitle>
+          <DialogDescription>{poll.question}</DialogDescription>
+        </DialogHeader>
+
+        {loading || !results ? (
+          <div className="py-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="rounded-lg border p-3">
+                <p className="text-2xl font-bold">{results.totalVotes}</p>
+                <p className="text-xs text-muted-foreground">
+                  of {results.eligibleVoters} {poll.vote_scope === 'apartment' ? 'apartments' : 'residents'}
+                </p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-2xl font-bold">{results.participationPercent}%</p>
+                <p className="text-xs text-muted-foreground">Participation</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                {results.quorumPercent == null ? (
+                  <p className="text-2xl font-bold">—</p>
+                ) : results.quorumReached ? (
+                  <CheckCircle2 className="h-7 w-7 mx-auto text-green-600" />
+                ) : (
+                  <XCircle className="h-7 w-7 mx-auto text-red-600" />
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {results.quorumPercent == null ? 'No quorum' : `Quorum ${results.quorumPercent}%`}
+                </p>
+              </div>
+            </div>
+
+            {/* Options */}
+            <div className="space-y-3">
+              {results.options.map((option) => (
+                <div key={option.id} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">{option.option_text}</span>
+                    <span className="text-muted-foreground">
+                      {option.votes} vote{option.votes === 1 ? '' : 's'} · {option.percent}%
+                    </span>
+                  </div>
+                  <Progress value={option.percent} className="h-2" />
+                </div>
+              ))}
+            </div>
+
+            {/* Participation by apartment */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold flex items-center gap-2">
+                Participation by apartment
+                {poll.is_anonymous && (
+                  <Badge variant="outline" className="font-normal">Anonymous</Badge>
+                )}
+              </h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Apartment</TableHead>
+                    <TableHead>Residents</TableHead>
+                    <TableHead>Voted</TableHead>
+                    {!poll.is_anonymous && <TableHead>Choice</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.participation.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={poll.is_anonymous ? 3 : 4} className="text-center text-muted-foreground">
+                        No verified residents
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    results.participation.map((row) => (
+                      <TableRow key={row.apartment_number}>
+                        <TableCell className="font-medium">{row.apartment_number}</TableCell>
+                        <TableCell>{row.residents.join(', ') || '—'}</TableCell>
+                        <TableCell>
+                          {row.voted ? (
+                            <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300">Yes</Badge>
+                          ) : (
+                            <Badge variant="outline" className="bg-gray-100 text-gray-600 border-gray-300">No</Badge>
+                          )}
+                        </TableCell>
+                        {!poll.is_anonymous && <TableCell>{row.choice || '—'}</TableCell>}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting || loading}
+            className="bg-gray-900 hover:bg-gray-800 text-white"
+          >
+            {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,402 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Plus,
+  Vote,
+  Lock,
+  Trash2,
+  Clock,
+  BarChart3,
+  MoreVertical,
+  CheckCircle2,
+  Loader2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import CreatePollDialog from './CreatePollDialog';
+import PollResultsDialog from './PollResultsDialog';
+import DeletePollDialog from './DeletePollDialog';
+import toast from 'react-hot-toast';
+import { motion } from 'framer-motion';
+import type { PollRecord, PollResults } from '@/lib/poll-utils';
+import { castVote, closePoll, deletePoll } from '@/app/app/polls/actions';
+
+/**
+ * Poll data structure as returned by listPollsWithResults
+ */
+export interface Poll extends PollRecord {
+  results: PollResults;
+  can_vote: boolean;
+  has_voted: boolean;
+  my_option_id: number | null;
+  apartments: { id: number; apartment_number: string }[];
+}
+
+interface PollsContentProps {
+  initialPolls: Poll[];
+  currentUserRole?: string;
+  residenceName?: string;
+}
+
+/**
+ * Polls Content Component
+ * Lists residence polls, lets residents vote and syndics manage polls and results
+ */
+export default function PollsContent({
+  initialPolls,
+  currentUserRole,
+  residenceName,
+}: PollsContentProps) {
+  console.log('[PollsContent] Component mounted with', initialPolls.length, 'polls');
+
+  const router = useRouter();
+
+  const [polls, setPolls] = useState<Poll[]>(initialPolls);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [selectedForResults, setSelectedForResults] = useState<Poll | null>(null);
+  const [selectedForDelete, setSelectedForDelete] = useState<Poll | null>(null);
+  const [selectedOptions, setSelectedOptions] = useState<Record<number, string>>({});
+  const [selectedApartments, setSelectedApartments] = useState<Record<number, string>>({});
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  // Sync local state with server data when it refreshes
+  useEffect(() => {
+    setPolls(initialPolls);
+  }, [initialPolls]);
+
+  const canManage = currentUserRole === 'syndic';
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const handleVote = async (poll: Poll) => {
+    const optionId = selectedOptions[poll.id];
+    if (!optionId) {
+      toast.error('Please choose an option');
+      return;
+    }
+
+    const needsApartment = poll.vote_scope === 'apartment' && poll.apartments.length > 1;
+    const apartmentId = needsApartment ? selectedApartments[poll.id] : undefined;
+    if (needsApartment && !apartmentId) {
+      toast.error('Please choose the apartment you are voting for');
+      return;
+    }
+
+    setBusyId(poll.id);
+    try {
+      const result = await castVote(poll.id, Number(optionId), apartmentId ? Number(apartmentId) : null);
+      if (result.success) {
+        toast.success('Your vote has been recorded');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to record vote');
+      }
+    } catch (error: any) {
+      console.error('[PollsContent] Error casting vote:', error);
+      toast.error(error.message || 'Failed to record vote');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleClose = async (poll: Poll) => {
+    setBusyId(poll.id);
+    try {
+      const result = await closePoll(poll.id);
+      if (result.success) {
+        toast.success('Poll closed');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to close poll');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (pollId: number) => {
+    setBusyId(pollId);
+    try {
+      const result = await deletePoll(pollId);
+      if (result.success) {
+        setPolls((prev) => prev.filter((p) => p.id !== pollId));
+        toast.success('Poll deleted successfully');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to delete poll');
+      }
+    } catch (error: any) {
+      console.error('[PollsContent] Error deleting poll:', error);
+      toast.error(error.message || 'Failed to delete poll');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8 relative pb-20 px-1">
+      {/* Header Section */}
+      {canManage && (
+        <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <p className="text-sm text-muted-foreground">
+            Ask residents of {residenceName || 'your residence'} to vote on decisions.
+          </p>
+          <Button
+            onClick={() => setShowCreateDialog(true)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md transition-all hover:scale-105 h-11 rounded-xl px-6"
+            aria-label="New poll"
+          >
+            <Plus className="h-4 w-4" />
+            New Poll
+          </Button>
+        </div>
+      )}
+
+      {/* Polls List */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="space-y-4"
+      >
+        {polls.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <Vote className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              <p className="font-medium">No polls</p>
+              <p className="text-sm">
+                {canManage
+                  ? 'Polls you create will appear here.'
+                  : 'Your syndic has not opened any polls yet.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          polls.map((poll) => {
+            const { results } = poll;
+            const showResults = canManage || poll.has_voted || !results.isOpen;
+
+            return (
+              <Card key={poll.id}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                  <div className="space-y-1">
+                    <CardTitle className="text-lg">{poll.question}</CardTitle>
+                    <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-2">
+                      {results.isOpen ? (
+                        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300">
+                          Open
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-gray-100 text-gray-700 border-gray-300">
+                          <Lock className="h-3 w-3 mr-1" />
+                          Closed
+                        </Badge>
+                      )}
+                      {poll.closes_at && results.isOpen && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          Closes {formatDateTime(poll.closes_at)}
+                        </span>
+                      )}
+                      <span>•</span>
+                      <span>{poll.vote_scope === 'apartment' ? 'One vote per apartment' : 'One vote per resident'}</span>
+                      {poll.is_anonymous && (
+                        <>
+                          <span>•</span>
+                          <span>Anonymous</span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {canManage && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busyId === poll.id}
+                          aria-label="Poll actions"
+                        >
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => setSelectedForResults(poll)}>
+                          <BarChart3 className="h-4 w-4 mr-2" />
+                          Results & participation
+                        </DropdownMenuItem>
+                        {results.isOpen && (
+                          <DropdownMenuItem onClick={() => handleClose(poll)}>
+                            <Lock className="h-4 w-4 mr-2" />
+                            Close poll
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => setSelectedForDelete(poll)}
+                          className="text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {poll.description && (
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{poll.description}</p>
+                  )}
+
+                  {poll.can_vote ? (
+                    <div className="space-y-3">
+                      <RadioGroup
+                        value={selectedOptions[poll.id] || ''}
+                        onValueChange={(value) => setSelectedOptions((prev) => ({ ...prev, [poll.id]: value }))}
+                      >
+                        {results.options.map((option) => (
+                          <div key={option.id} className="flex items-center gap-2">
+                            <RadioGroupItem value={String(option.id)} id={`poll-${poll.id}-option-${option.id}`} />
+                            <Label htmlFor={`poll-${poll.id}-option-${option.id}`} className="cursor-pointer font-normal">
+                              {option.option_text}
+                            </Label>
+                          </div>
+                        ))}
+                      </RadioGroup>
+
+                      {poll.vote_scope === 'apartment' && poll.apartments.length > 1 && (
+                        <Select
+                          value={selectedApartments[poll.id] || ''}
+                          onValueChange={(value) => setSelectedApartments((prev) => ({ ...prev, [poll.id]: value }))}
+                        >
+                          <SelectTrigger className="w-[220px]">
+                            <SelectValue placeholder="Vote for apartment..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {poll.apartments.map((apartment) => (
+                              <SelectItem key={apartment.id} value={String(apartment.id)}>
+                                Apartment {apartment.apartment_number}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+
+                      <Button
+                        onClick={() => handleVote(poll)}
+                        disabled={busyId === poll.id}
+                        className="bg-gray-900 hover:bg-gray-800 text-white"
+                      >
+                        {busyId === poll.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Vote
+                      </Button>
+                    </div>
+                  ) : showResults ? (
+                    <div className="space-y-3">
+                      {results.options.map((option) => (
+                        <div key={option.id} className="space-y-1">
+                          <div className="flex justify-between text-sm">
+                            <span className="font-medium flex items-center gap-1.5">
+                              {option.option_text}
+                              {poll.my_option_id === option.id && (
+                                <CheckCircle2 className="h-4 w-4 text-green-600" aria-label="Your vote" />
+                              )}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {option.votes} · {option.percent}%
+                            </span>
+                          </div>
+                          <Progress value={option.percent} className="h-2" />
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Only verified residents of the residence can vote on this poll.
+                    </p>
+                  )}
+
+                  <p className="text-xs text-muted-foreground">
+                    {results.totalVotes} of {results.eligibleVoters} voted ({results.participationPercent}%)
+                    {results.quorumPercent != null && (
+                      <>
+                        {' · '}
+                        {results.quorumReached
+                          ? `Quorum of ${results.quorumPercent}% reached`
+                          : `Quorum of ${results.quorumPercent}% not reached`}
+                      </>
+                    )}
+                    {poll.has_voted && !poll.my_option_id && poll.vote_scope === 'apartment' && (
+                      <> · A vote has been cast for your apartment</>
+                    )}
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </motion.div>
+
+      {/* Create Dialog */}
+      {canManage && (
+        <CreatePollDialog
+          open={showCreateDialog}
+          onClose={() => setShowCreateDialog(false)}
+          onSuccess={() => router.refresh()}
+          residenceName={residenceName}
+        />
+      )}
+
+      {/* Results Dialog */}
+      {canManage && (
+        <PollResultsDialog
+          open={!!selectedForResults}
+          poll={selectedForResults}
+          onClose={() => setSelectedForResults(null)}
+        />
+      )}
+
+      {/* Delete Dialog */}
+      <DeletePollDialog
+        open={!!selectedForDelete}
+        poll={selectedForDelete}
+        onClose={() => setSelectedForDelete(null)}
+        onConfirm={() => {
+          if (selectedForDelete) {
+            handleDelete(selectedForDelete.id);
+            setSelectedForDelete(null);
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import PortalButton from '@/components/stripe/PortalButton';
 import CheckoutButton from "@/components/CheckoutButton";
 import { PlanChangeButton } from '@/components/stripe/PlanChangeButton';
 import DeleteAccountButton from '@/components/app/profile/DeleteAccountButton';
+import NotificationPreferencesCard from '@/components/app/notifications/NotificationPreferencesCard';
 import { motion } from 'framer-motion';
 import { CanceledSubscriptionAlert } from '@/components/stripe/CanceledSubscriptionAlert';
 import { RefreshCw } from 'lucide-react';
@@ -260,6 +261,14 @@ export default function ProfileAndBillingContent() {
 				)}
 			</motion.div>
 
+			{/* Notification Preferences */}
+			<motion.div 
+				className="bg-white shadow-lg rounded-2xl p-8 border border-gray-100 hover:shadow-xl transition-shadow duration-300"
+				variants={fadeIn}
+			>
+				<NotificationPreferencesCard />
+			</motion.div>
+
 			{/* Subscription Information - Always show, with loading state */}
 			<motion.div 
 				className="bg-white shadow-lg rounded-2xl p-8 border border-gray-100 hover:shadow-xl transition-shadow duration-300"
@@ -176,6 +176,8 @@ export default function AddFeeDialog({
           user_id: result.fee.user_id,
           title: result.fee.title,
           amount: Number(result.fee.amount),
+          amount_paid: Number(result.fee.amount_paid || 0),
+          balance_due: Number(result.fee.balance_due ?? result.fee.amount),
           due_date: result.fee.due_date,
           status: result.fee.status,
           created_at: result.fee.created_at,
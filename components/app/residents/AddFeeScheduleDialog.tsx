@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { createFeeSchedule } from '@/app/app/residents/fee-schedule-actions';
+import toast from 'react-hot-toast';
+
+interface AddFeeScheduleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  apartmentCount: number;
+}
+
+/**
+ * Add Fee Schedule Dialog Component
+ * Form for a recurring charge billed to every apartment
+ */
+export default function AddFeeScheduleDialog({ open, onClose, onSuccess, apartmentCount }: AddFeeScheduleDialogProps) {
+  const [submitting, setSubmitting] = useState(false);
+
+  // Form state
+  const [title, setTitle] = useState('');
+  const [amount, setAmount] = useState('');
+  const [amountType, setAmountType] = useState<'fixed' | 'share'>('fixed');
+  const [frequency, setFrequency] = useState<'monthly' | 'quarterly' | 'yearly'>('monthly');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [dueDays, setDueDays] = useState('10');
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      const now = new Date();
+      const firstOfMonth = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)).toISOString().split('T')[0];
+      setTitle('');
+      setAmount('');
+      setAmountType('fixed');
+      setFrequency('monthly');
+      setStartDate(firstOfMonth);
+      setEndDate('');
+      setDueDays('10');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) {
+      toast.error('Title is required');
+      return;
+    }
+
+    if (!amount || Number(amount) <= 0) {
+      toast.error('Amount must be greater than 0');
+      return;
+    }
+
+    if (!startDate) {
+      toast.error('Start date is required');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const result = await createFeeSchedule({
+        title: title.trim(),
+        amount: Number(amount),
+        amount_type: amountType,
+        frequency,
+        start_date: startDate,
+        end_date: endDate || null,
+        due_days: Number(dueDays || 0),
+      });
+
+      if (result.success) {
+        toast.success(
+          result.generated
+            ? `Schedule created, ${result.generated} fee${result.generated > 1 ? 's' : ''} generated`
+            : 'Schedule created'
+        );
+        onSuccess();
+        onClose();
+      } else {
+        toast.error(result.error || 'Failed to create schedule');
+      }
+    } catch (error: any) {
+      console.error('[AddFeeScheduleDialog] Error creating schedule:', error);
+      toast.error(error.message || 'Failed to create schedule');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            New Fee Schedule
+          </DialogTitle>
+          <DialogDescription>
+            Bills {apartmentCount} apartment{apartmentCount === 1 ? '' : 's'} every period. Periods that already started are billed right away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-2">
+            <Label htmlFor="schedule-title">
+              Title <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="schedule-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Monthly syndic fee"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="schedule-amount-type">Amount Based On</Label>
+              <Select value={amountType} onValueChange={(value) => setAmountType(value as 'fixed' | 'share')}>
+                <SelectTrigger id="schedule-amount-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed">Same amount per apartment</SelectItem>
+                  <SelectItem value="share">Apartment share of a total</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="schedule-amount">
+                {amountType === 'share' ? 'Total per Period (MAD)' : 'Amount (MAD)'} <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="schedule-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="schedule-frequency">Frequency</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as 'monthly' | 'quarterly' | 'yearly')}>
+                <SelectTrigger id="schedule-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="quarterly">Quarterly</SelectItem>
+                  <SelectItem value="yearly">Yearly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="schedule-due-days">Due (days after period start)</Label>
+              <Input
+                id="schedule-due-days"
+                type="number"
+                min="0"
+                max="90"
+                value={dueDays}
+                onChange={(e) => setDueDays(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="schedule-start">
+                Start Date <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="schedule-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="schedule-end">End Date (Optional)</Label>
+              <Input
+                id="schedule-end"
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {amountType === 'share' && (
+            <p className="text-xs text-muted-foreground">
+              The total is split by apartment share. Apartments without a share are not billed.
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitting ? 'Creating...' : 'Create Schedule'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
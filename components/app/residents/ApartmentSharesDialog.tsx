@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { updateApartmentShares } from '@/app/app/residents/fee-schedule-actions';
+import toast from 'react-hot-toast';
+
+interface ApartmentSharesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  apartments: { apartment_number: string; share: number | null }[];
+}
+
+/**
+ * Apartment Shares Dialog Component
+ * Edits the share (quote-part) of each apartment used by share-based schedules
+ */
+export default function ApartmentSharesDialog({ open, onClose, onSuccess, apartments }: ApartmentSharesDialogProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [shares, setShares] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open) {
+      const initial: Record<string, string> = {};
+      apartments.forEach((apt) => {
+        initial[apt.apartment_number] = apt.share != null ? String(apt.share) : '';
+      });
+      setShares(initial);
+    }
+  }, [open, apartments]);
+
+  const totalShares = Object.values(shares).reduce((sum, value) => sum + (Number(value) || 0), 0);
+
+  const handleSave = async () => {
+    setSubmitting(true);
+
+    try {
+      const result = await updateApartmentShares(
+        apartments.map((apt) => ({
+          apartment_number: apt.apartment_number,
+          share: shares[apt.apartment_number] ? Number(shares[apt.apartment_number]) : null,
+        }))
+      );
+
+      if (result.success) {
+        toast.success('Apartment shares saved');
+        onSuccess();
+        onClose();
+      } else {
+        toast.error(result.error || 'Failed to save shares');
+      }
+    } catch (error: any) {
+      console.error('[ApartmentSharesDialog] Error saving shares:', error);
+      toast.error(error.message || 'Failed to save shares');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Apartment Shares</DialogTitle>
+          <DialogDescription>
+            Share-based schedules split their total in proportion to these values (e.g. thousandths).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-2 py-2">
+          {apartments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No apartments with residents yet.</p>
+          ) : (
+            apartments.map((apt) => (
+              <div key={apt.apartment_number} className="flex items-center justify-between gap-4">
+                <span className="text-sm font-medium">Apt. {apt.apartment_number}</span>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-28"
+                    value={shares[apt.apartment_number] ?? ''}
+                    onChange={(e) => setShares({ ...shares, [apt.apartment_number]: e.target.value })}
+                    aria-label={`Share of apartment ${apt.apartment_number}`}
+                  />
+                  <span className="w-14 text-right text-xs text-muted-foreground">
+                    {totalShares > 0 && Number(shares[apt.apartment_number])
+                      ? `${((Number(shares[apt.apartment_number]) * 100) / totalShares).toFixed(1)}%`
+                      : '—'}
+                  </span>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={submitting || apartments.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+          >
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Shares
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,304 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, BellRing, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { saveDunningPolicy } from '@/app/app/residents/dunning-actions';
+import toast from 'react-hot-toast';
+
+type StepKind = 'reminder' | 'notice' | 'formal_letter' | 'late_fee';
+type Timing = 'before' | 'on' | 'after';
+
+interface StepRow {
+  key: string;
+  id?: number;
+  kind: StepKind;
+  timing: Timing;
+  days: string;
+  lateFeeType: 'fixed' | 'percent';
+  lateFeeAmount: string;
+  active: boolean;
+}
+
+interface DunningPolicyDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  steps: any[];
+  suggested: any[];
+}
+
+const KIND_LABELS: Record<StepKind, string> = {
+  reminder: 'Friendly reminder',
+  notice: 'Due date notice',
+  formal_letter: 'Formal letter',
+  late_fee: 'Late-fee surcharge',
+};
+
+// Timing each kind allows, relative to the due date
+const KIND_TIMINGS: Record<StepKind, Timing[]> = {
+  reminder: ['before'],
+  notice: ['before', 'on', 'after'],
+  formal_letter: ['after'],
+  late_fee: ['after'],
+};
+
+/**
+ * Turn a saved step (snake_case) or a suggested one (camelCase) into a form row
+ */
+function toRow(step: any, index: number): StepRow {
+  const offset = Number(step.offset_days ?? step.offsetDays ?? 0);
+  return {
+    key: step.id ? `step-${step.id}` : `new-${index}-${Date.now()}`,
+    id: step.id,
+    kind: step.kind,
+    timing: offset < 0 ? 'before' : offset === 0 ? 'on' : 'after',
+    days: String(Math.abs(offset)),
+    lateFeeType: step.late_fee_type ?? step.lateFeeType ?? 'percent',
+    lateFeeAmount: String(step.late_fee_amount ?? step.lateFeeAmount ?? ''),
+    active: step.active ?? true,
+  };
+}
+
+function toOffset(row: StepRow): number {
+  const days = Math.abs(Math.round(Number(row.days || 0)));
+  if (row.timing === 'on') return 0;
+  return row.timing === 'before' ? -days : days;
+}
+
+/**
+ * Dunning Policy Dialog Component
+ * Edits the escalating steps applied to unpaid fees of the residence
+ */
+export default function DunningPolicyDialog({ open, onClose, onSuccess, steps, suggested }: DunningPolicyDialogProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [rows, setRows] = useState<StepRow[]>([]);
+
+  // Start from the saved policy, or the suggested one when there is none yet
+  useEffect(() => {
+    if (open) {
+      setRows((steps.length > 0 ? steps : suggested).map(toRow));
+    }
+  }, [open, steps, suggested]);
+
+  const updateRow = (key: string, changes: Partial<StepRow>) => {
+    setRows((prev) =>
+      prev.map((row) => {
+        if (row.key !== key) return row;
+        const next = { ...row, ...changes };
+        // Keep the timing valid for the chosen kind
+        if (!KIND_TIMINGS[next.kind].includes(next.timing)) {
+          next.timing = KIND_TIMINGS[next.kind][0];
+          if (next.days === '0') next.days = '1';
+        }
+        return next;
+      })
+    );
+  };
+
+  const addRow = () => {
+    setRows((prev) => [
+      ...prev,
+      toRow({ kind: 'formal_letter', offsetDays: 15, active: true }, prev.length),
+    ]);
+  };
+
+  const removeRow = (key: string) => {
+    setRows((prev) => prev.filter((row) => row.key !== key));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSubmitting(true);
+
+    try {
+      const result = await saveDunningPolicy(
+        rows.map((row) => ({
+          id: row.id,
+          kind: row.kind,
+          offsetDays: toOffset(row),
+          lateFeeType: row.kind === 'late_fee' ? row.lateFeeType : null,
+          lateFeeAmount: row.kind === 'late_fee' ? Number(row.lateFeeAmount) : null,
+          active: row.active,
+        }))
+      );
+
+      if (result.success) {
+        toast.success('Dunning policy saved');
+        onSuccess();
+        onClose();
+      } else {
+        toast.error(result.error || 'Failed to save dunning policy');
+      }
+    } catch (error: any) {
+      console.error('[DunningPolicyDialog] Error saving policy:', error);
+      toast.error(error.message || 'Failed to save dunning policy');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Dunning Policy
+          </DialogTitle>
+          <DialogDescription>
+            Steps applied to unpaid fees, by email and in-app notification. Each step is applied to a fee once
+            and recorded on its timeline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No steps. Unpaid fees are marked overdue but nobody is reminded.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {rows.map((row) => (
+                <div key={row.key} className="rounded-lg border p-3 space-y-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-[1.4fr_1fr_0.7fr_auto] gap-3 items-end">
+                    <div className="grid gap-2">
+                      <Label>Step</Label>
+                      <Select value={row.kind} onValueChange={(value) => updateRow(row.key, { kind: value as StepKind })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(KIND_LABELS) as StepKind[]).map((kind) => (
+                            <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="grid gap-2">
+                      <Label>When</Label>
+                      <Select value={row.timing} onValueChange={(value) => updateRow(row.key, { timing: value as Timing })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {KIND_TIMINGS[row.kind].map((timing) => (
+                            <SelectItem key={timing} value={timing}>
+                              {timing === 'on' ? 'On the due date' : timing === 'before' ? 'Days before due' : 'Days after due'}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="grid gap-2">
+                      <Label>Days</Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        max={row.timing === 'before' ? 30 : 365}
+                        value={row.timing === 'on' ? '0' : row.days}
+                        disabled={row.timing === 'on'}
+                        onChange={(e) => updateRow(row.key, { days: e.target.value })}
+                      />
+                    </div>
+
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeRow(row.key)}
+                      aria-label="Remove step"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {row.kind === 'late_fee' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="grid gap-2">
+                        <Label>Surcharge</Label>
+                        <Select
+                          value={row.lateFeeType}
+                          onValueChange={(value) => updateRow(row.key, { lateFeeType: value as 'fixed' | 'percent' })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="percent">% of the unpaid balance</SelectItem>
+                            <SelectItem value="fixed">Fixed amount (MAD)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid gap-2">
+                        <Label>{row.lateFeeType === 'percent' ? 'Percentage' : 'Amount (MAD)'}</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={row.lateFeeAmount}
+                          onChange={(e) => updateRow(row.key, { lateFeeAmount: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`${row.key}-active`}
+                      checked={row.active}
+                      onCheckedChange={(checked) => updateRow(row.key, { active: checked === true })}
+                    />
+                    <Label htmlFor={`${row.key}-active`} className="text-sm font-normal">
+                      Active
+                    </Label>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button type="button" variant="outline" size="sm" onClick={addRow} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Step
+          </Button>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitting ? 'Saving...' : 'Save Policy'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BellRing, Settings2, PlayCircle, History, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getDunningPolicy, runDunningNow } from '@/app/app/residents/dunning-actions';
+import DunningPolicyDialog from './DunningPolicyDialog';
+import FeeTimelineDialog from './FeeTimelineDialog';
+import toast from 'react-hot-toast';
+
+interface DunningSectionProps {
+  onFeesChanged: () => void;
+}
+
+const STEP_LABELS: Record<string, string> = {
+  reminder: 'Friendly reminder',
+  notice: 'Due date notice',
+  formal_letter: 'Formal letter',
+  late_fee: 'Late-fee surcharge',
+};
+
+/**
+ * Describe when a step runs, e.g. "3 days before the due date"
+ */
+function describeOffset(offsetDays: number): string {
+  if (offsetDays === 0) return 'On the due date';
+  const days = Math.abs(offsetDays);
+  return `${days} day${days === 1 ? '' : 's'} ${offsetDays < 0 ? 'before' : 'after'} the due date`;
+}
+
+/**
+ * Dunning Section Component
+ * Escalating reminders for unpaid fees and the latest steps applied
+ */
+export default function DunningSection({ onFeesChanged }: DunningSectionProps) {
+  const [steps, setSteps] = useState<any[]>([]);
+  const [suggested, setSuggested] = useState<any[]>([]);
+  const [activity, setActivity] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [showPolicyDialog, setShowPolicyDialog] = useState(false);
+  const [timelineFeeId, setTimelineFeeId] = useState<number | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchPolicy() {
+      console.log('[DunningSection] Fetching dunning policy');
+      setLoading(true);
+
+      try {
+        const result = await getDunningPolicy();
+        if (result.success) {
+          setSteps(result.steps);
+          setSuggested(result.suggested);
+          setActivity(result.activity);
+        } else {
+          toast.error(result.error || 'Failed to load dunning policy');
+        }
+      } catch (error: any) {
+        console.error('[DunningSection] Error fetching policy:', error);
+        toast.error(error.message || 'Failed to load dunning policy');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPolicy();
+  }, [reloadKey]);
+
+  const reload = () => setReloadKey((prev) => prev + 1);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const result = await runDunningNow();
+      if (result.success && result.result) {
+        const { applied, lateFees } = result.result;
+        toast.success(
+          applied === 0
+            ? 'No fee needed a reminder today'
+            : `${applied} step${applied > 1 ? 's' : ''} applied${lateFees ? `, ${lateFees} late fee${lateFees > 1 ? 's' : ''} charged` : ''}`
+        );
+        reload();
+        if (lateFees > 0) onFeesChanged();
+      } else {
+        toast.error(result.error || 'Failed to run dunning');
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // Format date
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-MA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <BellRing className="h-5 w-5" />
+            Dunning Policy
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRun}
+              disabled={running || loading || steps.length === 0}
+              className="gap-2"
+            >
+              {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlayCircle className="h-4 w-4" />}
+              Run Now
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setShowPolicyDialog(true)}
+              disabled={loading}
+              className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+            >
+              <Settings2 className="h-4 w-4" />
+              {steps.length === 0 ? 'Set Up' : 'Edit'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              <div className="h-10 bg-muted rounded animate-pulse"></div>
+              <div className="h-10 bg-muted rounded animate-pulse"></div>
+            </div>
+          ) : steps.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No dunning policy yet. Set one up to remind residents of unpaid fees automatically.
+            </p>
+          ) : (
+            <div className="divide-y">
+              {steps.map((step) => (
+                <div key={step.id} className="flex items-center justify-between gap-4 py-2.5">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{STEP_LABELS[step.kind] || step.kind}</span>
+                      {!step.active && <Badge variant="secondary">Off</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {describeOffset(step.offset_days)}
+                      {step.kind === 'late_fee' &&
+                        ` · ${step.late_fee_type === 'percent' ? `${step.late_fee_amount}% of the unpaid balance` : `${Number(step.late_fee_amount).toFixed(2)} MAD`}`}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <History className="h-5 w-5" />
+            Recent Reminders
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-24 bg-muted rounded animate-pulse"></div>
+          ) : activity.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing sent yet.</p>
+          ) : (
+            <div className="space-y-1 max-h-72 overflow-y-auto">
+              {activity.map((event) => (
+                <button
+                  key={event.id}
+                  type="button"
+                  onClick={() => setTimelineFeeId(event.fee_id)}
+                  className="w-full flex items-start justify-between gap-2 rounded-md px-2 py-1.5 text-left hover:bg-muted"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {event.title} · {event.fee_title || 'Deleted fee'}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {event.resident_name || 'Resident'}
+                      {event.apartment_number ? ` - Apt. ${event.apartment_number}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <span className="text-xs text-muted-foreground">{formatDate(event.created_at)}</span>
+                    {event.email_status === 'failed' && <Badge variant="destructive">Email failed</Badge>}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <DunningPolicyDialog
+        open={showPolicyDialog}
+        onClose={() => setShowPolicyDialog(false)}
+        onSuccess={reload}
+        steps={steps}
+        suggested={suggested}
+      />
+
+      <FeeTimelineDialog feeId={timelineFeeId} onClose={() => setTimelineFeeId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Repeat, Plus, Pause, Play, Trash2, PieChart, CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  getFeeSchedules,
+  setFeeScheduleActive,
+  deleteFeeSchedule,
+} from '@/app/app/residents/fee-schedule-actions';
+import AddFeeScheduleDialog from './AddFeeScheduleDialog';
+import ApartmentSharesDialog from './ApartmentSharesDialog';
+import toast from 'react-hot-toast';
+
+interface FeeSchedulesSectionProps {
+  onFeesGenerated: () => void;
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+/**
+ * Fee Schedules Section Component
+ * Recurring charges of the residence and the charges coming up next
+ */
+export default function FeeSchedulesSection({ onFeesGenerated }: FeeSchedulesSectionProps) {
+  const [schedules, setSchedules] = useState<any[]>([]);
+  const [upcoming, setUpcoming] = useState<any[]>([]);
+  const [apartments, setApartments] = useState<{ apartment_number: string; share: number | null }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [showSharesDialog, setShowSharesDialog] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchSchedules() {
+      console.log('[FeeSchedulesSection] Fetching fee schedules');
+      setLoading(true);
+
+      try {
+        const result = await getFeeSchedules();
+        if (result.success) {
+          setSchedules(result.schedules);
+          setUpcoming(result.upcoming);
+          setApartments(result.apartments);
+        } else {
+          toast.error(result.error || 'Failed to load fee schedules');
+        }
+      } catch (error: any) {
+        console.error('[FeeSchedulesSection] Error fetching schedules:', error);
+        toast.error(error.message || 'Failed to load fee schedules');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSchedules();
+  }, [reloadKey]);
+
+  const reload = () => setReloadKey((prev) => prev + 1);
+
+  const handleToggle = async (schedule: any) => {
+    setBusyId(schedule.id);
+    try {
+      const result = await setFeeScheduleActive(schedule.id, !schedule.active);
+      if (result.success) {
+        toast.success(schedule.active ? 'Schedule paused' : 'Schedule resumed');
+        reload();
+        if (!schedule.active) onFeesGenerated();
+      } else {
+        toast.error(result.error || 'Failed to update schedule');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: any) => {
+    if (!confirm(`Delete "${schedule.title}"? Fees already generated are kept.`)) return;
+
+    setBusyId(schedule.id);
+    try {
+      const result = await deleteFeeSchedule(schedule.id);
+      if (result.success) {
+        toast.success('Schedule deleted');
+        reload();
+      } else {
+        toast.error(result.error || 'Failed to delete schedule');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Format currency
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-MA', {
+      style: 'currency',
+      currency: 'MAD',
+    }).format(amount);
+  };
+
+  // Format date
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-MA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Repeat className="h-5 w-5" />
+            Fee Schedules
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowSharesDialog(true)} className="gap-2">
+              <PieChart className="h-4 w-4" />
+              Shares
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setShowAddDialog(true)}
+              className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+            >
+              <Plus className="h-4 w-4" />
+              New Schedule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              <div className="h-12 bg-muted rounded animate-pulse"></div>
+              <div className="h-12 bg-muted rounded animate-pulse"></div>
+            </div>
+          ) : schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No recurring charges yet. Create a schedule to bill every apartment automatically.
+            </p>
+          ) : (
+            <div className="divide-y">
+              {schedules.map((schedule) => (
+                <div key={schedule.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{schedule.title}</span>
+                      <Badge variant="outline">{FREQUENCY_LABELS[schedule.frequency] || schedule.frequency}</Badge>
+                      {!schedule.active && <Badge variant="secondary">Paused</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {schedule.amount_type === 'share'
+                        ? `${formatCurrency(schedule.amount)} split by share`
+                        : `${formatCurrency(schedule.amount)} per apartment`}
+                      {' · '}from {formatDate(schedule.start_date)}
+                      {schedule.end_date ? ` to ${formatDate(schedule.end_date)}` : ''}
+                      {' · '}due {schedule.due_days} day{schedule.due_days === 1 ? '' : 's'} after period start
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleToggle(schedule)}
+                      disabled={busyId === schedule.id}
+                      aria-label={schedule.active ? 'Pause schedule' : 'Resume schedule'}
+                    >
+                      {schedule.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(schedule)}
+                      disabled={busyId === schedule.id}
+                      aria-label="Delete schedule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <CalendarClock className="h-5 w-5" />
+            Upcoming Charges
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-24 bg-muted rounded animate-pulse"></div>
+          ) : upcoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing scheduled.</p>
+          ) : (
+            <div className="space-y-3">
+              {upcoming.map((charge) => (
+                <div key={`${charge.schedule_id}-${charge.period_start}`} className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{charge.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Due {formatDate(charge.due_date)} · {charge.apartments} apt.
+                    </p>
+                  </div>
+                  <span className="text-sm font-semibold whitespace-nowrap">{formatCurrency(charge.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AddFeeScheduleDialog
+        open={showAddDialog}
+        onClose={() => setShowAddDialog(false)}
+        onSuccess={() => {
+          reload();
+          onFeesGenerated();
+        }}
+        apartmentCount={apartments.length}
+      />
+
+      <ApartmentSharesDialog
+        open={showSharesDialog}
+        onClose={() => setShowSharesDialog(false)}
+        onSuccess={reload}
+        apartments={apartments}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { History, Loader2, Mail, MailX } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getFeeTimeline } from '@/app/app/residents/dunning-actions';
+import toast from 'react-hot-toast';
+
+interface FeeTimelineDialogProps {
+  feeId: number | null;
+  onClose: () => void;
+}
+
+const DOT_COLORS: Record<string, string> = {
+  created: 'bg-blue-500',
+  payment: 'bg-green-500',
+  reminder: 'bg-sky-400',
+  notice: 'bg-amber-400',
+  overdue: 'bg-orange-500',
+  formal_letter: 'bg-red-500',
+  late_fee: 'bg-red-700',
+};
+
+/**
+ * Fee Timeline Dialog Component
+ * Issue, overdue marking, reminders, late fees and payments of one fee
+ */
+export default function FeeTimelineDialog({ feeId, onClose }: FeeTimelineDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [fee, setFee] = useState<any>(null);
+  const [timeline, setTimeline] = useState<any[]>([]);
+
+  useEffect(() => {
+    if (!feeId) return;
+
+    async function fetchTimeline(id: number) {
+      setLoading(true);
+      try {
+        const result = await getFeeTimeline(id);
+        if (result.success) {
+          setFee(result.fee);
+          setTimeline(result.timeline || []);
+        } else {
+          toast.error(result.error || 'Failed to load fee timeline');
+        }
+      } catch (error: any) {
+        console.error('[FeeTimelineDialog] Error fetching timeline:', error);
+        toast.error(error.message || 'Failed to load fee timeline');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchTimeline(feeId);
+  }, [feeId]);
+
+  // Format currency
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-MA', {
+      style: 'currency',
+      currency: 'MAD',
+    }).format(amount);
+  };
+
+  // Format date and time
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-MA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <Dialog open={!!feeId} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Fee Timeline
+          </DialogTitle>
+          <DialogDescription>
+            {fee
+              ? `${fee.title}${fee.apartment_number ? ` - Apt. ${fee.apartment_number}` : ''} · ${formatCurrency(Number(fee.amount))}`
+              : 'Loading fee...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-5 py-2">
+            {timeline.map((entry) => (
+              <li key={entry.id} className="ml-5">
+                <span
+                  className={`absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full ${DOT_COLORS[entry.type] || 'bg-muted-foreground'}`}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">{entry.title}</p>
+                  {entry.amount !== null && entry.type !== 'created' && (
+                    <span className="text-sm font-semibold whitespace-nowrap">{formatCurrency(entry.amount)}</span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">{formatDateTime(entry.at)}</p>
+                {entry.detail && <p className="text-sm text-muted-foreground mt-1">{entry.detail}</p>}
+                {entry.emailStatus && (
+                  <Badge variant={entry.emailStatus === 'failed' ? 'destructive' : 'outline'} className="mt-1 gap-1">
+                    {entry.emailStatus === 'sent' ? <Mail className="h-3 w-3" /> : <MailX className="h-3 w-3" />}
+                    {entry.emailStatus === 'sent'
+                      ? 'Email sent'
+                      : entry.emailStatus === 'failed'
+                        ? 'Email failed'
+                        : entry.emailStatus === 'pending'
+                          ? 'Email pending'
+                          : 'No email address'}
+                  </Badge>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
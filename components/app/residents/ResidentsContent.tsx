@@ -12,6 +12,8 @@ import ResidentsGrid from './ResidentsGrid';
 import AddResidentDialog from './AddResidentDialog';
 import BulkDeleteDialog from './BulkDeleteDialog';
 import ExcelImportDialog from './ExcelImportDialog';
+import FeeSchedulesSection from './FeeSchedulesSection';
+import DunningSection from './DunningSection';
 import toast from 'react-hot-toast';
 import { motion } from 'framer-motion';
 
@@ -47,6 +49,8 @@ export interface Fee {
   user_id: string;
   title: string;
   amount: number;
+  amount_paid?: number;
+  balance_due?: number;
   due_date: string;
   status: string;
   created_at: string;
@@ -269,15 +273,15 @@ export default function ResidentsContent({
         if (resident.id === newFee.user_id) {
           const updatedFees = [...resident.fees, newFee];
           const outstandingFees = updatedFees
-            .filter((f) => f.status === 'unpaid')
-            .reduce((sum, f) => sum + Number(f.amount), 0);
+            .filter((f) => f.status !== 'paid')
+            .reduce((sum, f) => sum + Number(f.balance_due ?? f.amount), 0);
 
           return {
             ...resident,
             fees: updatedFees,
             outstandingFees,
             feeCount: updatedFees.length,
-            unpaidFeeCount: updatedFees.filter((f) => f.status === 'unpaid').length,
+            unpaidFeeCount: updatedFees.filter((f) => f.status !== 'paid').length,
           };
         }
         return resident;
@@ -304,14 +308,14 @@ export default function ResidentsContent({
             f.id === updatedFee.id ? updatedFee : f
           );
           const outstandingFees = updatedFees
-            .filter((f) => f.status === 'unpaid')
-            .reduce((sum, f) => sum + Number(f.amount), 0);
+            .filter((f) => f.status !== 'paid')
+            .reduce((sum, f) => sum + Number(f.balance_due ?? f.amount), 0);
 
           return {
             ...resident,
             fees: updatedFees,
             outstandingFees,
-            unpaidFeeCount: updatedFees.filter((f) => f.status === 'unpaid').length,
+            unpaidFeeCount: updatedFees.filter((f) => f.status !== 'paid').length,
           };
         }
         return resident;
@@ -504,6 +508,16 @@ export default function ResidentsContent({
         )}
       </motion.div>
 
+      {/* Recurring Fee Schedules - Syndic only */}
+      {currentUserRole === 'syndic' && (
+        <FeeSchedulesSection onFeesGenerated={() => router.refresh()} />
+      )}
+
+      {/* Dunning Policy - Syndic only */}
+      {currentUserRole === 'syndic' && (
+        <DunningSection onFeesChanged={() => router.refresh()} />
+      )}
+
       {/* Floating Action Buttons for Add Resident and Import - Mobile */}
       <div className="lg:hidden fixed bottom-6 right-6 flex flex-col gap-3 z-[100]">
         {currentUserRole === 'syndic' && (
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { MoreVertical, Edit, Trash2, DollarSign, ArrowUpDown, ArrowUp, ArrowDown, Users } from 'lucide-react';
+import { MoreVertical, Edit, Trash2, DollarSign, ArrowUpDown, ArrowUp, ArrowDown, Users, FileText } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -26,6 +26,7 @@ import { ResidentWithFees, Fee } from './ResidentsContent';
 import AddFeeDialog from './AddFeeDialog';
 import EditResidentDialog from './EditResidentDialog';
 import DeleteResidentDialog from './DeleteResidentDialog';
+import StatementDialog from './StatementDialog';
 
 interface ResidentsTableProps {
   residents: ResidentWithFees[];
@@ -55,6 +56,7 @@ export default function ResidentsTable({
   onAddFee,
   loading,
   currentUserId,
+  currentUserRole,
   selectedResidentIds = new Set(),
   onSelectionChange,
   onSelectAll,
@@ -66,6 +68,7 @@ export default function ResidentsTable({
   const [selectedResidentForFee, setSelectedResidentForFee] = useState<string | null>(null);
   const [selectedResidentForEdit, setSelectedResidentForEdit] = useState<ResidentWithFees | null>(null);
   const [selectedResidentForDelete, setSelectedResidentForDelete] = useState<ResidentWithFees | null>(null);
+  const [selectedResidentForStatement, setSelectedResidentForStatement] = useState<ResidentWithFees | null>(null);
 
   // Handle sorting
   const handleSort = (field: SortField) => {
@@ -424,6 +427,15 @@ export default function ResidentsTable({
                             <Edit className="h-4 w-4 mr-2" />
                             Edit Resident
                           </DropdownMenuItem>
+                          {currentUserRole === 'syndic' && resident.apartment_number && (
+                            <DropdownMenuItem
+                              onClick={() => setSelectedResidentForStatement(resident)}
+                              className="cursor-pointer"
+                            >
+                              <FileText className="h-4 w-4 mr-2" />
+                              Statement (PDF)
+                            </DropdownMenuItem>
+                          )}
                           {/* Show remove/delete option for all residents
                               For syndics removing themselves: only removes from resident list, not account */}
                           <DropdownMenuItem
@@ -477,6 +489,15 @@ export default function ResidentsTable({
         />
       )}
 
+      {/* Statement Dialog */}
+      {selectedResidentForStatement && (
+        <StatementDialog
+          open={!!selectedResidentForStatement}
+          resident={selectedResidentForStatement}
+          onClose={() => setSelectedResidentForStatement(null)}
+        />
+      )}
+
       {/* Delete Resident Dialog */}
       {selectedResidentForDelete && (
         <DeleteResidentDialog
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getResidentStatement } from '@/app/actions/payments';
+import { generateStatementPDF, downloadPDF } from '@/lib/pdf/generator';
+import toast from 'react-hot-toast';
+
+interface StatementDialogProps {
+  open: boolean;
+  resident: { id: string; full_name: string; apartment_number: string | null };
+  onClose: () => void;
+}
+
+/**
+ * Statement Dialog Component
+ * Picks a period and downloads the resident's statement of account as PDF
+ */
+export default function StatementDialog({ open, resident, onClose }: StatementDialogProps) {
+  const [generating, setGenerating] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  // Default to the current year up to today
+  useEffect(() => {
+    if (open) {
+      const today = new Date().toISOString().split('T')[0];
+      setFrom(`${today.slice(0, 4)}-01-01`);
+      setTo(today);
+    }
+  }, [open]);
+
+  const handleDownload = async () => {
+    if (!resident.apartment_number) {
+      toast.error('This resident has no apartment number');
+      return;
+    }
+
+    if (!from || !to || from > to) {
+      toast.error('Please choose a valid period');
+      return;
+    }
+
+    setGenerating(true);
+
+    try {
+      const result = await getResidentStatement({
+        residentId: resident.id,
+        apartmentNumber: resident.apartment_number,
+        from,
+        to,
+      });
+
+      if (!result.success || !result.statement) {
+        toast.error(result.error || 'Failed to generate statement');
+        return;
+      }
+
+      const pdfBytes = await generateStatementPDF(result.statement);
+      downloadPDF(pdfBytes, `statement-apt-${resident.apartment_number}-${from}-${to}.pdf`);
+
+      toast.success('Statement downloaded successfully!');
+      onClose();
+    } catch (error: any) {
+      console.error('[StatementDialog] Error generating statement:', error);
+      toast.error(error.message || 'Failed to generate statement');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Statement of Account
+          </DialogTitle>
+          <DialogDescription>
+            {resident.full_name} - Apt. {resident.apartment_number || 'N/A'}. Lists fees, payments and how they were
+            allocated, with opening and closing balances.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="statement-from">From</Label>
+            <Input id="statement-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="statement-to">To</Label>
+            <Input id="statement-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={generating}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={generating}
+            className="bg-blue-600 hover:bg-blue-700 text-white shadow-md"
+          >
+            {generating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
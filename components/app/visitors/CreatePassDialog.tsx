@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { QrCode, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { VisitorPass } from './VisitorsContent';
+import { createPass } from '@/app/app/visitors/actions';
+import toast from 'react-hot-toast';
+
+interface CreatePassDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess: (pass: VisitorPass) => void;
+}
+
+/**
+ * Convert a date to the value expected by a datetime-local input
+ */
+function toDateTimeLocal(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Create Pass Dialog Component
+ * Issues a time-bound QR pass for a visitor
+ */
+export default function CreatePassDialog({ open, onClose, onSuccess }: CreatePassDialogProps) {
+  const [submitting, setSubmitting] = useState(false);
+
+  // Form state
+  const [visitorName, setVisitorName] = useState('');
+  const [validFrom, setValidFrom] = useState('');
+  const [validTo, setValidTo] = useState('');
+  const [isSingleUse, setIsSingleUse] = useState(true);
+
+  const [errors, setErrors] = useState<{ visitorName?: string; validTo?: string }>({});
+
+  // Reset form when dialog opens: valid from now for the next 4 hours
+  useEffect(() => {
+    if (open) {
+      const now = new Date();
+      setVisitorName('');
+      setValidFrom(toDateTimeLocal(now));
+      setValidTo(toDateTimeLocal(new Date(now.getTime() + 4 * 60 * 60 * 1000)));
+      setIsSingleUse(true);
+      setErrors({});
+    }
+  }, [open]);
+
+  const validateForm = (): boolean => {
+    const newErrors: typeof errors = {};
+    if (!visitorName.trim()) newErrors.visitorName = 'Visitor name is required';
+    if (!validTo) {
+      newErrors.validTo = 'End date is required';
+    } else if (validFrom && new Date(validTo).getTime() <= new Date(validFrom).getTime()) {
+      newErrors.validTo = 'The pass must end after it starts';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setSubmitting(true);
+
+    try {
+      const result = await createPass({
+        visitor_name: visitorName.trim(),
+        valid_from: validFrom ? new Date(validFrom).toISOString() : null,
+        valid_to: new Date(validTo).toISOString(),
+        is_single_use: isSingleUse,
+      });
+
+      if (result.success && result.data) {
+        toast.success('Visitor pass created');
+        onSuccess(result.data as VisitorPass);
+        onClose();
+      } else {
+        toast.error(result.error || 'Failed to create visitor pass');
+      }
+    } catch (error: any) {
+      console.error('[CreatePassDialog] Error creating pass:', error);
+      toast.error(error.message || 'Failed to create visitor pass');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" />
+            New Visitor Pass
+          </DialogTitle>
+          <DialogDescription>
+            Share the QR code with your visitor. The guard scans it at the gate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Visitor Name */}
+          <div className="grid gap-2">
+            <Label htmlFor="pass-visitor-name">
+              Visitor name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="pass-visitor-name"
+              value={visitorName}
+              onChange={(e) => {
+                setVisitorName(e.target.value);
+                if (errors.visitorName) setErrors({ ...errors, visitorName: undefined });
+              }}
+              placeholder="e.g. Youssef El Amrani"
+              aria-invalid={!!errors.visitorName}
+              className={errors.visitorName ? 'border-destructive' : ''}
+            />
+            {errors.visitorName && (
+              <p className="text-sm text-destructive" role="alert">{errors.visitorName}</p>
+            )}
+          </div>
+
+          {/* Validity Window */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="pass-valid-from">Valid from</Label>
+              <Input
+                id="pass-valid-from"
+                type="datetime-local"
+                value={validFrom}
+                onChange={(e) => setValidFrom(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="pass-valid-to">
+                Valid until <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="pass-valid-to"
+                type="datetime-local"
+                value={validTo}
+                onChange={(e) => {
+                  setValidTo(e.target.value);
+                  if (errors.validTo) setErrors({ ...errors, validTo: undefined });
+                }}
+                aria-invalid={!!errors.validTo}
+                className={errors.validTo ? 'border-destructive' : ''}
+              />
+            </div>
+          </div>
+          {errors.validTo && (
+            <p className="text-sm text-destructive" role="alert">{errors.validTo}</p>
+          )}
+
+          {/* Single Use */}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="pass-single-use"
+              checked={isSingleUse}
+              onCheckedChange={(checked) => setIsSingleUse(checked === true)}
+            />
+            <Label htmlFor="pass-single-use" className="cursor-pointer">
+              Single entry (uncheck for a recurring visitor within the window)
+            </Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting}
+              className="bg-gray-900 hover:bg-gray-800 text-white"
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitting ? 'Creating...' : 'Create Pass'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
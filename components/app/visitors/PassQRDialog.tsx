@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import { QrCode, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { VisitorPass } from './VisitorsContent';
+import toast from 'react-hot-toast';
+
+interface PassQRDialogProps {
+  open: boolean;
+  pass: VisitorPass | null;
+  onClose: () => void;
+}
+
+/**
+ * Pass QR Dialog Component
+ * Renders the signed pass as a QR code the resident can download and share
+ */
+export default function PassQRDialog({ open, pass, onClose }: PassQRDialogProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !pass?.qr_code_data) {
+      setImageUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    QRCode.toDataURL(pass.qr_code_data, { width: 320, margin: 2, errorCorrectionLevel: 'M' })
+      .then((url) => {
+        if (!cancelled) setImageUrl(url);
+      })
+      .catch((error) => {
+        console.error('[PassQRDialog] Error rendering QR code:', error);
+        toast.error('Failed to render QR code');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, pass]);
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const handleDownload = () => {
+    if (!imageUrl || !pass) return;
+    const a = document.createElement('a');
+    a.href = imageUrl;
+    a.download = `visitor-pass-${pass.visitor_name.replace(/\s+/g, '-').toLowerCase()}.png`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  if (!pass) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" />
+            {pass.visitor_name}
+          </DialogTitle>
+          <DialogDescription>
+            Valid from {formatDateTime(pass.valid_from)} until {formatDateTime(pass.valid_to)}
+            {pass.is_single_use ? ' · single entry' : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center py-2">
+          {imageUrl ? (
+            <Image
+              src={imageUrl}
+              alt={`Visitor pass for ${pass.visitor_name}`}
+              width={256}
+              height={256}
+              unoptimized
+            />
+          ) : (
+            <div className="w-64 h-64 flex items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            type="button"
+            onClick={handleDownload}
+            disabled={!imageUrl}
+            className="bg-gray-900 hover:bg-gray-800 text-white"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
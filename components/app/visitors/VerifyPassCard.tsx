@@ -0,0 +1,118 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { ScanLine, Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { verifyPass } from '@/app/app/visitors/actions';
+import toast from 'react-hot-toast';
+
+interface VerificationOutcome {
+  valid: boolean;
+  message: string;
+  pass?: {
+    visitor_name: string;
+    host_name: string;
+    host_apartment: string | null;
+    valid_to: string;
+  };
+}
+
+interface VerifyPassCardProps {
+  onVerified: () => void;
+}
+
+/**
+ * Verify Pass Card Component
+ * Gate scanner input: handheld scanners type the QR content and press Enter
+ */
+export default function VerifyPassCard({ onVerified }: VerifyPassCardProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [qrCodeData, setQrCodeData] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [outcome, setOutcome] = useState<VerificationOutcome | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!qrCodeData.trim()) return;
+
+    setVerifying(true);
+
+    try {
+      const result = await verifyPass(qrCodeData.trim());
+
+      if (result.success && result.data) {
+        setOutcome(result.data as VerificationOutcome);
+        if (result.data.valid) onVerified();
+      } else {
+        toast.error(result.error || 'Failed to verify pass');
+      }
+    } catch (error: any) {
+      console.error('[VerifyPassCard] Error verifying pass:', error);
+      toast.error(error.message || 'Failed to verify pass');
+    } finally {
+      setQrCodeData('');
+      setVerifying(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ScanLine className="h-5 w-5" />
+          Verify Visitor Pass
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            ref={inputRef}
+            value={qrCodeData}
+            onChange={(e) => setQrCodeData(e.target.value)}
+            placeholder="Scan the QR code or paste its content..."
+            aria-label="QR code content"
+            autoFocus
+          />
+          <Button
+            type="submit"
+            disabled={verifying || !qrCodeData.trim()}
+            className="bg-gray-900 hover:bg-gray-800 text-white"
+          >
+            {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify
+          </Button>
+        </form>
+
+        {outcome && (
+          <div
+            role="status"
+            className={`rounded-lg border p-4 flex items-start gap-3 ${
+              outcome.valid
+                ? 'bg-green-50 border-green-300 text-green-800'
+                : 'bg-red-50 border-red-300 text-red-800'
+            }`}
+          >
+            {outcome.valid ? (
+              <CheckCircle2 className="h-6 w-6 shrink-0" />
+            ) : (
+              <XCircle className="h-6 w-6 shrink-0" />
+            )}
+            <div className="space-y-1">
+              <p className="font-semibold">{outcome.message}</p>
+              {outcome.pass && (
+                <p className="text-sm">
+                  {outcome.pass.visitor_name} · Host: {outcome.pass.host_name}
+                  {outcome.pass.host_apartment ? ` (${outcome.pass.host_apartment})` : ''}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
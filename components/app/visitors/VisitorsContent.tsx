@@ -0,0 +1,275 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Plus, QrCode, Ban, Clock, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import CreatePassDialog from './CreatePassDialog';
+import PassQRDialog from './PassQRDialog';
+import VerifyPassCard from './VerifyPassCard';
+import toast from 'react-hot-toast';
+import { motion } from 'framer-motion';
+import { revokePass } from '@/app/app/visitors/actions';
+
+/**
+ * Visitor pass data structure (an access_logs row)
+ * qr_code_data is only returned to the pass creator
+ */
+export interface VisitorPass {
+  id: number;
+  residence_id: number;
+  generated_by: string;
+  host_name: string;
+  host_apartment?: string | null;
+  visitor_name: string;
+  qr_code_data: string | null;
+  valid_from: string;
+  valid_to: string;
+  is_single_use: boolean;
+  scan_count: number;
+  scanned_at: string | null;
+  scanned_by: string | null;
+  scanned_by_name: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export type PassState = 'active' | 'upcoming' | 'used' | 'expired' | 'revoked';
+
+type PassFilter = 'current' | 'past';
+
+interface VisitorsContentProps {
+  initialPasses: VisitorPass[];
+  currentUserId: string;
+  currentUserRole?: string;
+}
+
+/**
+ * Derive the state of a visitor pass
+ */
+export function getPassState(pass: VisitorPass): PassState {
+  if (pass.revoked_at) return 'revoked';
+  if (pass.is_single_use && pass.scanned_at) return 'used';
+  const now = Date.now();
+  if (new Date(pass.valid_to).getTime() < now) return 'expired';
+  if (new Date(pass.valid_from).getTime() > now) return 'upcoming';
+  return 'active';
+}
+
+const STATE_BADGES: Record<PassState, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-50 text-green-700 border-green-300' },
+  upcoming: { label: 'Upcoming', className: 'bg-blue-50 text-blue-700 border-blue-300' },
+  used: { label: 'Used', className: 'bg-gray-100 text-gray-700 border-gray-300' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-500 border-gray-300' },
+  revoked: { label: 'Revoked', className: 'bg-red-50 text-red-700 border-red-300' },
+};
+
+/**
+ * Visitors Content Component
+ * Residents create and share visitor passes, guards verify them at the gate
+ */
+export default function VisitorsContent({
+  initialPasses,
+  currentUserId,
+  currentUserRole,
+}: VisitorsContentProps) {
+  console.log('[VisitorsContent] Component mounted with', initialPasses.length, 'passes');
+
+  const router = useRouter();
+
+  const [passes, setPasses] = useState<VisitorPass[]>(initialPasses);
+  const [filter, setFilter] = useState<PassFilter>('current');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [selectedForQR, setSelectedForQR] = useState<VisitorPass | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  // Sync local state with server data when it refreshes
+  useEffect(() => {
+    setPasses(initialPasses);
+  }, [initialPasses]);
+
+  const isScanner = currentUserRole === 'guard' || currentUserRole === 'syndic';
+  const canCreate = currentUserRole !== 'guard';
+
+  const filteredPasses = useMemo(() => {
+    return passes.filter((p) => {
+      const state = getPassState(p);
+      const isCurrent = state === 'active' || state === 'upcoming';
+      return filter === 'current' ? isCurrent : !isCurrent;
+    });
+  }, [passes, filter]);
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const handleCreated = (pass: VisitorPass) => {
+    setPasses((prev) => [pass, ...prev]);
+    // Show the QR straight away so the resident can share it
+    setSelectedForQR(pass);
+    router.refresh();
+  };
+
+  const handleRevoke = async (pass: VisitorPass) => {
+    setBusyId(pass.id);
+    try {
+      const result = await revokePass(pass.id);
+      if (result.success) {
+        setPasses((prev) =>
+          prev.map((p) => (p.id === pass.id ? { ...p, revoked_at: new Date().toISOString() } : p))
+        );
+        toast.success('Visitor pass revoked');
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to revoke visitor pass');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8 relative pb-20 px-1">
+      {isScanner && <VerifyPassCard onVerified={() => router.refresh()} />}
+
+      {/* Header Section with Tabs and Create Button */}
+      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as PassFilter)}>
+          <TabsList>
+            <TabsTrigger value="current">Current & upcoming</TabsTrigger>
+            <TabsTrigger value="past">Past</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {canCreate && (
+          <Button
+            onClick={() => setShowCreateDialog(true)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md transition-all hover:scale-105 h-11 rounded-xl px-6"
+            aria-label="New visitor pass"
+          >
+            <Plus className="h-4 w-4" />
+            New Visitor Pass
+          </Button>
+        )}
+      </div>
+
+      {/* Passes List */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="space-y-3"
+      >
+        {filteredPasses.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <QrCode className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              <p className="font-medium">No visitor passes</p>
+              <p className="text-sm">
+                {filter === 'current'
+                  ? isScanner
+                    ? 'No visitor is expected at the moment.'
+                    : 'Create a pass so the guard can let your visitor in.'
+                  : 'Used, expired and revoked passes will appear here.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          filteredPasses.map((pass) => {
+            const state = getPassState(pass);
+            const badge = STATE_BADGES[state];
+            const isOwner = pass.generated_by === currentUserId;
+
+            return (
+              <Card key={pass.id}>
+                <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="font-medium flex items-center gap-2">
+                      {pass.visitor_name}
+                      <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+                      {!pass.is_single_use && (
+                        <Badge variant="outline">Multiple entries</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground flex flex-wrap items-center gap-2">
+                      {isScanner && (
+                        <>
+                          <span>
+                            Host: {pass.host_name}
+                            {pass.host_apartment ? ` (${pass.host_apartment})` : ''}
+                          </span>
+                          <span>•</span>
+                        </>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {formatDateTime(pass.valid_from)} → {formatDateTime(pass.valid_to)}
+                      </span>
+                      {pass.scanned_at && (
+                        <>
+                          <span>•</span>
+                          <span className="flex items-center gap-1">
+                            <CheckCircle2 className="h-3 w-3" />
+                            Scanned {formatDateTime(pass.scanned_at)}
+                            {pass.scanned_by_name ? ` by ${pass.scanned_by_name}` : ''}
+                            {pass.scan_count > 1 ? ` (${pass.scan_count} entries)` : ''}
+                          </span>
+                        </>
+                      )}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {isOwner && pass.qr_code_data && (state === 'active' || state === 'upcoming') && (
+                      <Button size="sm" variant="outline" onClick={() => setSelectedForQR(pass)}>
+                        <QrCode className="h-4 w-4 mr-1" />
+                        Show QR
+                      </Button>
+                    )}
+                    {(isOwner || currentUserRole === 'syndic') && (state === 'active' || state === 'upcoming') && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive"
+                        disabled={busyId === pass.id}
+                        onClick={() => handleRevoke(pass)}
+                      >
+                        <Ban className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </motion.div>
+
+      {/* Create Dialog */}
+      {canCreate && (
+        <CreatePassDialog
+          open={showCreateDialog}
+          onClose={() => setShowCreateDialog(false)}
+          onSuccess={handleCreated}
+        />
+      )}
+
+      {/* QR Dialog */}
+      <PassQRDialog
+        open={!!selectedForQR}
+        pass={selectedForQR}
+        onClose={() => setSelectedForQR(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+import { SETTLED_PAYMENT_STATUSES } from '@/lib/ledger-utils';
+
+/**
+ * Payment Allocation Utilities
+ * Spreads settled payments over a resident's fees (oldest first or chosen manually),
+ * keeps fee balances and statuses in step, and treats the unallocated part of a
+ * payment as credit that later fees use automatically.
+ */
+
+export const OUTSTANDING_FEE_STATUSES = ['unpaid', 'partially_paid', 'overdue'];
+
+export interface AllocationInput {
+    feeId: number;
+    amount: number;
+}
+
+export interface PlannedAllocation {
+    fee: any;
+    amount: number;
+}
+
+// Amounts below half a centime are rounding noise
+const EPSILON = 0.005;
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Remaining balance of a fee
+ */
+export function getFeeBalance(fee: any): number {
+    if (fee.balance_due !== undefined && fee.balance_due !== null) {
+        return Number(fee.balance_due);
+    }
+    return Number(fee.amount) - Number(fee.amount_paid || 0);
+}
+
+/**
+ * Status of a fee after `amountPaid` has been applied to it
+ */
+export function getFeeStatus(fee: any, amountPaid: number): string {
+    if (amountPaid >= Number(fee.amount) - EPSILON) return 'paid';
+    if (fee.due_date < new Date().toISOString().split('T')[0]) return 'overdue';
+    return amountPaid > EPSILON ? 'partially_paid' : 'unpaid';
+}
+
+/**
+ * Balance fields of a fee after a manual status change. What was paid is recomputed
+ * from its allocations, so a fee only becomes paid through payments; the requested
+ * status can still flag a fee that is not fully paid as overdue. Fees without any
+ * allocation (created as paid, or settled by hand before allocations existed) keep
+ * their recorded `amount_paid`.
+ */
+export async function resolveFeeStatusChange(
+    supabase: any,
+    fee: any,
+    requestedStatus: string
+): Promise<{ amount_paid: number; status: string } | { error: string }> {
+    const { data: allocations, error } = await supabase
+        .from('payment_allocations')
+        .select('amount')
+        .eq('fee_id', fee.id);
+
+    if (error) {
+        return { error: error.message || 'Failed to read fee payments' };
+    }
+
+    const amountPaid = allocations && allocations.length > 0
+        ? round(allocations.reduce((sum: number, a: any) => sum + Number(a.amount), 0))
+        : Number(fee.amount_paid || 0);
+    const status = getFeeStatus(fee, amountPaid);
+
+    if (requestedStatus === 'paid' && status !== 'paid') {
+        return { error: 'Record a payment to mark this fee as paid' };
+    }
+
+    return {
+        amount_paid: amountPaid,
+        status: requestedStatus === 'overdue' && status !== 'paid' ? 'overdue' : status,
+    };
+}
+
+/**
+ * Fees the resident still owes money on, oldest due date first
+ */
+export async function listOutstandingFees(supabase: any, residenceId: number, userId: string) {
+    const { data, error } = await supabase
+        .from('fees')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .eq('user_id', userId)
+        .in('status', OUTSTANDING_FEE_STATUSES)
+        .order('due_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch outstanding fees');
+    }
+
+    return (data || [])
+        .map((fee: any) => ({
+            ...fee,
+            amount: Number(fee.amount),
+            amount_paid: Number(fee.amount_paid || 0),
+            balance_due: getFeeBalance(fee),
+        }))
+        .filter((fee: any) => fee.balance_due > EPSILON);
+}
+
+/**
+ * Amount of each payment already allocated or refunded
+ */
+async function getPaymentUsage(supabase: any, paymentIds: number[]): Promise<Map<number, number>> {
+    const usage = new Map<number, number>();
+    if (paymentIds.length === 0) return usage;
+
+    const [{ data: allocations }, { data: refunds }] = await Promise.all([
+        supabase
+            .from('payment_allocations')
+            .select('payment_id, amount')
+            .in('payment_id', paymentIds),
+        supabase
+            .from('transaction_history')
+            .select('reference_id, amount')
+            .eq('reference_table', 'payments')
+            .eq('transaction_type', 'refund')
+            .in('reference_id', paymentIds),
+    ]);
+
+    (allocations || []).forEach((a: any) => {
+        usage.set(Number(a.payment_id), (usage.get(Number(a.payment_id)) || 0) + Number(a.amount));
+    });
+
+    // Refund entries are negative
+    (refunds || []).forEach((r: any) => {
+        usage.set(Number(r.reference_id), (usage.get(Number(r.reference_id)) || 0) - Number(r.amount));
+    });
+
+    return usage;
+}
+
+/**
+ * Settled payments of a resident with an unallocated remainder, oldest first
+ */
+export async function listUnallocatedPayments(supabase: any, residenceId: number, userId: string) {
+    const { data: payments, error } = await supabase
+        .from('payments')
+        .select('id, residence_id, user_id, amount, method, status, paid_at')
+        .eq('residence_id', residenceId)
+        .eq('user_id', userId)
+        .in('status', SETTLED_PAYMENT_STATUSES)
+        .order('paid_at', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch payments');
+    }
+
+    const usage = await getPaymentUsage(supabase, (payments || []).map((p: any) => p.id));
+
+    return (payments || [])
+        .map((payment: any) => ({
+            ...payment,
+            amount: Number(payment.amount),
+            available: round(Number(payment.amount) - (usage.get(payment.id) || 0)),
+        }))
+        .filter((payment: any) => payment.available > EPSILON);
+}
+
+/**
+ * Resident credit: the unallocated part of their settled payments
+ */
+export async function getResidentCredit(supabase: any, residenceId: number, userId: string): Promise<number> {
+    const payments = await listUnallocatedPayments(supabase, residenceId, userId);
+    return round(payments.reduce((sum: number, p: any) => sum + p.available, 0));
+}
+
+/**
+ * Pick the outstanding fees a resident is paying for: the ones listed in `feeIds`,
+ * or all of them. Returns an error message when the selection can't be paid at once.
+ */
+export function selectFeesToPay(
+    outstandingFees: any[],
+    feeIds?: number[] | null,
+    maxFees?: number
+): { fees: any[]; error?: string } {
+    let fees = outstandingFees;
+
+    if (feeIds && feeIds.length > 0) {
+        const missing = feeIds.find((id) => !outstandingFees.some((fee: any) => Number(fee.id) === Number(id)));
+        if (missing !== undefined) {
+            return { fees: [], error: `Fee #${missing} is not outstanding for this resident` };
+        }
+        fees = outstandingFees.filter((fee: any) => feeIds.some((id) => Number(id) === Number(fee.id)));
+    }
+
+    if (fees.length === 0) {
+        return { fees: [], error: 'There are no outstanding fees to pay' };
+    }
+    if (maxFees && fees.length > maxFees) {
+        return { fees: [], error: `Select at most ${maxFees} fees per payment` };
+    }
+
+    // A payment belongs to one apartment
+    if (new Set(fees.map((fee: any) => fee.apartment_number || null)).size > 1) {
+        return { fees: [], error: 'Pay the fees of one apartment at a time' };
+    }
+
+    return { fees };
+}
+
+/**
+ * Decide how `amount` is spread over outstanding fees.
+ * Without `manual`, the oldest fees are paid first; with it, each listed fee gets the
+ * given amount. Returns an error message when a manual allocation is invalid.
+ */
+export function planAllocations(
+    outstandingFees: any[],
+    amount: number,
+    manual?: AllocationInput[] | null
+): { plan: PlannedAllocation[]; remaining: number; error?: string } {
+    const plan: PlannedAllocation[] = [];
+    let remaining = round(amount);
+
+    if (manual && manual.length > 0) {
+        for (const item of manual) {
+            const fee = outstandingFees.find((f: any) => Number(f.id) === Number(item.feeId));
+            const share = round(Number(item.amount));
+
+            if (!fee) {
+                return { plan: [], remaining: amount, error: `Fee #${item.feeId} is not outstanding for this resident` };
+            }
+            if (!Number.isFinite(share) || share <= 0) {
+                return { plan: [], remaining: amount, error: `Allocation to "${fee.title}" must be greater than 0` };
+            }
+            if (share > getFeeBalance(fee) + EPSILON) {
+                return { plan: [], remaining: amount, error: `Only ${getFeeBalance(fee).toFixed(2)} MAD is left to pay on "${fee.title}"` };
+            }
+            if (share > remaining + EPSILON) {
+                return { plan: [], remaining: amount, error: 'Allocations exceed the payment amount' };
+            }
+
+            plan.push({ fee, amount: share });
+            remaining = round(remaining - share);
+        }
+
+        return { plan, remaining };
+    }
+
+    for (const fee of outstandingFees) {
+        if (remaining <= EPSILON) break;
+        const share = round(Math.min(getFeeBalance(fee), remaining));
+        if (share <= EPSILON) continue;
+        plan.push({ fee, amount: share });
+        remaining = round(remaining - share);
+    }
+
+    return { plan, remaining };
+}
+
+/**
+ * Add `delta` to what was paid on a fee and recompute its status
+ */
+async function applyToFee(supabase: any, fee: any, delta: number) {
+    const amountPaid = Math.max(0, round(Number(fee.amount_paid || 0) + delta));
+
+    const { error } = await supabase
+        .from('fees')
+        .update({ amount_paid: amountPaid, status: getFeeStatus(fee, amountPaid) })
+        .eq('id', fee.id);
+
+    if (error) {
+        console.error('[Allocation Utils] Error updating fee balance:', fee.id, error);
+    }
+}
+
+/**
+ * Record planned allocations for a payment and update the fees they cover
+ */
+export async function applyAllocations(
+    supabase: any,
+    payment: any,
+    plan: PlannedAllocation[],
+    createdBy?: string | null
+): Promise<{ success: boolean; allocations: any[]; error?: string }> {
+    if (plan.length === 0) {
+        return { success: true, allocations: [] };
+    }
+
+    const { data: allocations, error } = await supabase
+        .from('payment_allocations')
+        .insert(plan.map((item) => ({
+            residence_id: payment.residence_id,
+            payment_id: payment.id,
+            fee_id: item.fee.id,
+            amount: item.amount,
+            created_by: createdBy ?? null,
+        })))
+        .select();
+
+    if (error) {
+        console.error('[Allocation Utils] Error recording allocations:', error);
+        return { success: false, allocations: [], error: error.message || 'Failed to allocate payment' };
+    }
+
+    for (const item of plan) {
+        await applyToFee(supabase, item.fee, item.amount);
+    }
+
+    return { success: true, allocations: allocations || [] };
+}
+
+/**
+ * Spend a resident's credit on their outstanding fees, oldest payment on oldest fee.
+ * Called whenever new fees are created so overpayments settle them automatically.
+ */
+export async function applyResidentCredit(
+    supabase: any,
+    residenceId: number,
+    userId: string,
+    createdBy?: string | null
+): Promise<number> {
+    const payments = await listUnallocatedPayments(supabase, residenceId, userId);
+    if (payments.length === 0) return 0;
+
+    const outstanding = await listOutstandingFees(supabase, residenceId, userId);
+    if (outstanding.length === 0) return 0;
+
+    let applied = 0;
+
+    for (const payment of payments) {
+        const open = outstanding.filter((fee: any) => fee.balance_due > EPSILON);
+        if (open.length === 0) break;
+
+        const { plan } = planAllocations(open, payment.available);
+        const result = await applyAllocations(supabase, payment, plan, createdBy);
+        if (!result.success) break;
+
+        // Keep the in-memory balances in step for the next payment
+        plan.forEach((item) => {
+            item.fee.amount_paid = round(item.fee.amount_paid + item.amount);
+            item.fee.balance_due = round(item.fee.balance_due - item.amount);
+            applied += item.amount;
+        });
+    }
+
+    if (applied > 0) {
+        console.log('[Allocation Utils] Credit applied for user', userId, ':', round(applied));
+    }
+
+    return round(applied);
+}
+
+/**
+ * Apply a settled payment to the fees it was made for, oldest first among those still
+ * outstanding; whatever they no longer need goes to the resident's other fees as credit.
+ */
+export async function settlePaymentForFees(
+    supabase: any,
+    payment: any,
+    feeIds: number[],
+    createdBy?: string | null
+): Promise<{ success: boolean; plan: PlannedAllocation[]; error?: string }> {
+    const outstanding = await listOutstandingFees(supabase, payment.residence_id, payment.user_id);
+    const selected = outstanding.filter((fee: any) => feeIds.includes(Number(fee.id)));
+    const { plan, remaining } = planAllocations(selected, Number(payment.amount));
+
+    const result = await applyAllocations(supabase, payment, plan, createdBy);
+    if (!result.success) {
+        return { success: false, plan: [], error: result.error };
+    }
+
+    if (remaining > EPSILON) {
+        await applyResidentCredit(supabase, payment.residence_id, payment.user_id, createdBy);
+    }
+
+    return { success: true, plan };
+}
+
+/**
+ * Free up `amount` of a payment before it is refunded: unallocated credit goes
+ * first, then the latest allocations are reduced and their fees reopened.
+ */
+export async function releasePaymentAllocations(supabase: any, payment: any, amount: number) {
+    const usage = await getPaymentUsage(supabase, [payment.id]);
+    const unallocated = Number(payment.amount) - (usage.get(payment.id) || 0);
+    let toRelease = round(amount - Math.max(0, unallocated));
+
+    if (toRelease <= EPSILON) return;
+
+    const { data: allocations } = await supabase
+        .from('payment_allocations')
+        .select('id, fee_id, amount, fees:fee_id (*)')
+        .eq('payment_id', payment.id)
+        .order('created_at', { ascending: false });
+
+    for (const allocation of allocations || []) {
+        if (toRelease <= EPSILON) break;
+
+        const released = round(Math.min(Number(allocation.amount), toRelease));
+        const left = round(Number(allocation.amount) - released);
+
+        const { error } = left > EPSILON
+            ? await supabase.from('payment_allocations').update({ amount: left }).eq('id', allocation.id)
+            : await supabase.from('payment_allocations').delete().eq('id', allocation.id);
+
+        if (error) {
+            console.error('[Allocation Utils] Error releasing allocation:', allocation.id, error);
+            continue;
+        }
+
+        if (allocation.fees) {
+            await applyToFee(supabase, allocation.fees, -released);
+        }
+        toRelease = round(toRelease - released);
+    }
+}
@@ -0,0 +1,403 @@
+import { toCSV } from '@/lib/csv';
+import { OUTSTANDING_FEE_STATUSES, getFeeBalance } from '@/lib/allocation-utils';
+import { SETTLED_PAYMENT_STATUSES } from '@/lib/ledger-utils';
+
+/**
+ * Analytics Utilities
+ * Financial and operational trends of a residence over a date range, shared by the
+ * analytics page, its CSV exports and the mobile analytics route
+ */
+
+export const ANALYTICS_SECTIONS = ['collection', 'expenses', 'arrears', 'incidents', 'complaints'] as const;
+
+export type AnalyticsSection = typeof ANALYTICS_SECTIONS[number];
+
+export const ARREARS_BUCKETS = ['0-30', '31-60', '61-90', '90+'] as const;
+
+export type ArrearsBucket = typeof ARREARS_BUCKETS[number];
+
+export interface AnalyticsRange {
+    // YYYY-MM-DD, both inclusive
+    from: string;
+    to: string;
+}
+
+export interface CollectionMonth {
+    // YYYY-MM
+    month: string;
+    // Fees falling due in the month and what has been paid on them so far
+    billed: number;
+    collected: number;
+    outstanding: number;
+    // Percentage of billed collected, null when nothing was billed
+    rate: number | null;
+    // Settled payments received during the month, whatever fees they paid
+    received: number;
+}
+
+export interface ExpenseCategoryRow {
+    category: string;
+    amount: number;
+    count: number;
+    percent: number;
+}
+
+export interface ArrearsBucketRow {
+    bucket: ArrearsBucket;
+    amount: number;
+    count: number;
+}
+
+export interface IncidentMonth {
+    month: string;
+    reported: number;
+    resolved: number;
+    averageHours: number | null;
+}
+
+export interface ComplaintReasonRow {
+    reason: string;
+    count: number;
+    resolved: number;
+    percent: number;
+}
+
+export interface ResidenceAnalytics {
+    range: AnalyticsRange;
+    collection: {
+        months: CollectionMonth[];
+        billed: number;
+        collected: number;
+        rate: number | null;
+    };
+    expenses: {
+        categories: ExpenseCategoryRow[];
+        total: number;
+    };
+    arrears: {
+        // Ageing is always computed on today's balances
+        asOf: string;
+        buckets: ArrearsBucketRow[];
+        total: number;
+    };
+    incidents: {
+        months: IncidentMonth[];
+        reported: number;
+        resolved: number;
+        averageHours: number | null;
+        medianHours: number | null;
+    };
+    complaints: {
+        reasons: ComplaintReasonRow[];
+        total: number;
+    };
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest range the page and the exports accept
+const MAX_RANGE_MONTHS = 36;
+
+function toDateString(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function percentOf(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Range from `from`/`to` (YYYY-MM-DD), defaulting to the last twelve months
+ */
+export function parseAnalyticsRange(
+    from?: string | null,
+    to?: string | null
+): { success: boolean; data?: AnalyticsRange; error?: string } {
+    const today = new Date();
+    const end = to || toDateString(today);
+    const start = from || toDateString(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 11, 1)));
+
+    if (!DATE_ONLY.test(start) || isNaN(Date.parse(start))) {
+        return { success: false, error: 'Invalid from date' };
+    }
+    if (!DATE_ONLY.test(end) || isNaN(Date.parse(end))) {
+        return { success: false, error: 'Invalid to date' };
+    }
+    if (end < start) {
+        return { success: false, error: 'The end of the range must be after its start' };
+    }
+    if (listMonths({ from: start, to: end }).length > MAX_RANGE_MONTHS) {
+        return { success: false, error: `The range cannot exceed ${MAX_RANGE_MONTHS} months` };
+    }
+
+    return { success: true, data: { from: start, to: end } };
+}
+
+/**
+ * Months (YYYY-MM) touched by a range
+ */
+function listMonths(range: AnalyticsRange): string[] {
+    const months: string[] = [];
+    let year = Number(range.from.slice(0, 4));
+    let month = Number(range.from.slice(5, 7));
+    const last = range.to.slice(0, 7);
+
+    for (let key = range.from.slice(0, 7); key <= last; key = `${year}-${String(month).padStart(2, '0')}`) {
+        months.push(key);
+        month += 1;
+        if (month > 12) {
+            month = 1;
+            year += 1;
+        }
+    }
+    return months;
+}
+
+function getArrearsBucket(daysOverdue: number): ArrearsBucket {
+    if (daysOverdue <= 30) return '0-30';
+    if (daysOverdue <= 60) return '31-60';
+    if (daysOverdue <= 90) return '61-90';
+    return '90+';
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function average(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+/**
+ * Trends of a residence over a range
+ */
+export async function getResidenceAnalytics(
+    supabase: any,
+    residenceId: number,
+    range: AnalyticsRange
+): Promise<ResidenceAnalytics> {
+    const fromIso = `${range.from}T00:00:00.000Z`;
+    // Exclusive end, so the whole `to` day is included
+    const toIso = new Date(Date.parse(`${range.to}T00:00:00.000Z`) + DAY_MS).toISOString();
+    const today = toDateString(new Date());
+
+    const [feesResult, paymentsResult, arrearsResult, expensesResult, incidentsResult, complaintsResult] = await Promise.all([
+        supabase
+            .from('fees')
+            .select('amount, amount_paid, balance_due, status, due_date')
+            .eq('residence_id', residenceId)
+            .gte('due_date', range.from)
+            .lte('due_date', range.to),
+        supabase
+            .from('payments')
+            .select('amount, paid_at')
+            .eq('residence_id', residenceId)
+            .in('status', SETTLED_PAYMENT_STATUSES)
+            .gte('paid_at', fromIso)
+            .lt('paid_at', toIso),
+        supabase
+            .from('fees')
+            .select('amount, amount_paid, balance_due, due_date')
+            .eq('residence_id', residenceId)
+            .in('status', OUTSTANDING_FEE_STATUSES)
+            .lt('due_date', today),
+        supabase
+            .from('expenses')
+            .select('category, amount')
+            .eq('residence_id', residenceId)
+            .eq('status', 'recorded')
+            .gte('expense_date', range.from)
+            .lte('expense_date', range.to),
+        supabase
+            .from('incidents')
+            .select('created_at, resolved_at')
+            .eq('residence_id', residenceId)
+            .gte('created_at', fromIso)
+            .lt('created_at', toIso),
+        supabase
+            .from('complaints')
+            .select('reason, status')
+            .eq('residence_id', residenceId)
+            .gte('created_at', fromIso)
+            .lt('created_at', toIso),
+    ]);
+
+    for (const result of [feesResult, paymentsResult, arrearsResult, expensesResult, incidentsResult, complaintsResult]) {
+        if (result.error) throw result.error;
+    }
+
+    const months = listMonths(range);
+
+    // Collection rate
+    const collectionByMonth = new Map<string, CollectionMonth>(
+        months.map((month) => [month, { month, billed: 0, collected: 0, outstanding: 0, rate: null, received: 0 }])
+    );
+    (feesResult.data || []).forEach((fee: any) => {
+        const row = collectionByMonth.get(String(fee.due_date).slice(0, 7));
+        if (!row) return;
+        const amount = Number(fee.amount) || 0;
+        const balance = fee.status === 'paid' ? 0 : Math.max(0, Math.min(amount, getFeeBalance(fee)));
+        row.billed += amount;
+        row.collected += amount - balance;
+        row.outstanding += balance;
+    });
+    (paymentsResult.data || []).forEach((payment: any) => {
+        const row = collectionByMonth.get(new Date(payment.paid_at).toISOString().slice(0, 7));
+        if (row) row.received += Number(payment.amount) || 0;
+    });
+
+    const collectionMonths = Array.from(collectionByMonth.values()).map((row) => ({
+        ...row,
+        billed: round2(row.billed),
+        collected: round2(row.collected),
+        outstanding: round2(row.outstanding),
+        received: round2(row.received),
+        rate: row.billed > 0 ? percentOf(row.collected, row.billed) : null,
+    }));
+    const billed = round2(collectionMonths.reduce((sum, m) => sum + m.billed, 0));
+    const collected = round2(collectionMonths.reduce((sum, m) => sum + m.collected, 0));
+
+    // Expense breakdown
+    const byCategory = new Map<string, { amount: number; count: number }>();
+    (expensesResult.data || []).forEach((expense: any) => {
+        const category = expense.category || 'other';
+        const row = byCategory.get(category) || { amount: 0, count: 0 };
+        row.amount += Number(expense.amount) || 0;
+        row.count += 1;
+        byCategory.set(category, row);
+    });
+    const expensesTotal = round2(Array.from(byCategory.values()).reduce((sum, row) => sum + row.amount, 0));
+    const categories = Array.from(byCategory.entries())
+        .map(([category, row]) => ({
+            category,
+            amount: round2(row.amount),
+            count: row.count,
+            percent: percentOf(row.amount, expensesTotal),
+        }))
+        .sort((a, b) => b.amount - a.amount);
+
+    // Arrears ageing
+    const buckets = new Map<ArrearsBucket, ArrearsBucketRow>(
+        ARREARS_BUCKETS.map((bucket) => [bucket, { bucket, amount: 0, count: 0 }])
+    );
+    const todayTime = Date.parse(`${today}T00:00:00.000Z`);
+    (arrearsResult.data || []).forEach((fee: any) => {
+        const balance = getFeeBalance(fee);
+        if (balance <= 0) return;
+        const daysOverdue = Math.floor((todayTime - Date.parse(`${fee.due_date}T00:00:00.000Z`)) / DAY_MS);
+        const row = buckets.get(getArrearsBucket(daysOverdue))!;
+        row.amount += balance;
+        row.count += 1;
+    });
+    const arrearsBuckets = Array.from(buckets.values()).map((row) => ({ ...row, amount: round2(row.amount) }));
+
+    // Incident resolution time
+    const incidentsByMonth = new Map<string, { reported: number; hours: number[] }>(
+        months.map((month) => [month, { reported: 0, hours: [] }])
+    );
+    const allHours: number[] = [];
+    (incidentsResult.data || []).forEach((incident: any) => {
+        const row = incidentsByMonth.get(new Date(incident.created_at).toISOString().slice(0, 7));
+        if (!row) return;
+        row.reported += 1;
+        if (incident.resolved_at) {
+            const hours = (Date.parse(incident.resolved_at) - Date.parse(incident.created_at)) / 3600000;
+            row.hours.push(Math.max(0, hours));
+            allHours.push(Math.max(0, hours));
+        }
+    });
+    const incidentMonths = Array.from(incidentsByMonth.entries()).map(([month, row]) => {
+        const avg = average(row.hours);
+        return {
+            month,
+            reported: row.reported,
+            resolved: row.hours.length,
+            averageHours: avg === null ? null : round2(avg),
+        };
+    });
+    const averageHours = average(allHours);
+    const medianHours = median(allHours);
+
+    // Complaint volume
+    const byReason = new Map<string, { count: number; resolved: number }>();
+    (complaintsResult.data || []).forEach((complaint: any) => {
+        const row = byReason.get(complaint.reason) || { count: 0, resolved: 0 };
+        row.count += 1;
+        if (complaint.status === 'resolved') row.resolved += 1;
+        byReason.set(complaint.reason, row);
+    });
+    const complaintsTotal = (complaintsResult.data || []).length;
+    const reasons = Array.from(byReason.entries())
+        .map(([reason, row]) => ({ reason, ...row, percent: percentOf(row.count, complaintsTotal) }))
+        .sort((a, b) => b.count - a.count);
+
+    return {
+        range,
+        collection: {
+            months: collectionMonths,
+            billed,
+            collected,
+            rate: billed > 0 ? percentOf(collected, billed) : null,
+        },
+        expenses: { categories, total: expensesTotal },
+        arrears: {
+            asOf: today,
+            buckets: arrearsBuckets,
+            total: round2(arrearsBuckets.reduce((sum, row) => sum + row.amount, 0)),
+        },
+        incidents: {
+            months: incidentMonths,
+            reported: incidentMonths.reduce((sum, m) => sum + m.reported, 0),
+            resolved: allHours.length,
+            averageHours: averageHours === null ? null : round2(averageHours),
+            medianHours: medianHours === null ? null : round2(medianHours),
+        },
+        complaints: { reasons, total: complaintsTotal },
+    };
+}
+
+/**
+ * CSV of the data behind one analytics chart
+ */
+export function analyticsToCSV(analytics: ResidenceAnalytics, section: AnalyticsSection): string {
+    switch (section) {
+        case 'collection':
+            return toCSV(
+                ['Month', 'Billed (MAD)', 'Collected (MAD)', 'Outstanding (MAD)', 'Collection rate (%)', 'Payments received (MAD)'],
+                analytics.collection.months.map((m) => [m.month, m.billed, m.collected, m.outstanding, m.rate, m.received])
+            );
+        case 'expenses':
+            return toCSV(
+                ['Category', 'Amount (MAD)', 'Expenses', 'Share (%)'],
+                analytics.expenses.categories.map((c) => [c.category, c.amount, c.count, c.percent])
+            );
+        case 'arrears':
+            return toCSV(
+                ['Days overdue', 'Amount (MAD)', 'Fees', 'As of'],
+                analytics.arrears.buckets.map((b) => [b.bucket, b.amount, b.count, analytics.arrears.asOf])
+            );
+        case 'incidents':
+            return toCSV(
+                ['Month', 'Reported', 'Resolved', 'Average resolution (hours)'],
+                analytics.incidents.months.map((m) => [m.month, m.reported, m.resolved, m.averageHours])
+            );
+        case 'complaints':
+            return toCSV(
+                ['Reason', 'Complaints', 'Resolved', 'Share (%)'],
+                analytics.complaints.reasons.map((r) => [r.reason, r.count, r.resolved, r.percent])
+            );
+    }
+}
+
+export function isAnalyticsSection(value: unknown): value is AnalyticsSection {
+    return ANALYTICS_SECTIONS.includes(value as AnalyticsSection);
+}
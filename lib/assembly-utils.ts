@@ -0,0 +1,360 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import {
+    ASSEMBLY_FONT_FILES,
+    type AssemblyAmountRow,
+    type AssemblyPackData,
+    type AssemblyPackFonts,
+    type AssemblyPackLabels,
+} from '@/lib/pdf/generator';
+import { OUTSTANDING_FEE_STATUSES, getFeeBalance } from '@/lib/allocation-utils';
+import { SETTLED_PAYMENT_STATUSES, getLedgerBalances } from '@/lib/ledger-utils';
+import frMessages from '@/messages/fr.json';
+import arMessages from '@/messages/ar.json';
+import enMessages from '@/messages/en.json';
+
+/**
+ * Assembly Utilities
+ * Gathers what the yearly general assembly (AG) of a residence approves: the
+ * convocation, the income and expense statement of the fiscal year, the arrears of
+ * each apartment and the proposed budget of the next year. The PDF bundle itself is
+ * drawn by generateAssemblyPackPDF, in the locale chosen among the messages/ files.
+ */
+
+export const ASSEMBLY_LOCALES = ['fr', 'ar', 'en'] as const;
+
+export type AssemblyLocale = typeof ASSEMBLY_LOCALES[number];
+
+export interface AssemblyPackInput {
+    locale: AssemblyLocale;
+    // Accounts of January 1st to December 31st of this year, budget of the next one
+    fiscalYear: number;
+    meetingDate: string; // YYYY-MM-DD
+    meetingTime: string; // HH:MM
+    location: string;
+    // Default agenda of the locale when empty
+    agenda?: string[];
+    // Proposed budget: last year's expenses per category, changed by this percentage...
+    budgetIncreasePercent?: number;
+    // ...unless a category is given an amount (categories not spent last year can be added)
+    budgetOverrides?: Record<string, number>;
+}
+
+const MESSAGES: Record<AssemblyLocale, any> = {
+    fr: frMessages,
+    ar: arMessages,
+    en: enMessages,
+};
+
+const PAYMENT_METHOD_KEYS: Record<string, string> = {
+    cash: 'cash',
+    bank_transfer: 'bankTransfer',
+    online_card: 'onlineCard',
+};
+
+const MAX_AGENDA_ITEMS = 15;
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Replace {placeholders} in a message
+ */
+function fillMessage(template: string, values: Record<string, string | number>): string {
+    return template.replace(/\{(\w+)\}/g, (match, key) => (values[key] !== undefined ? String(values[key]) : match));
+}
+
+/**
+ * Message key of an expense category, e.g. "Trash Collection" -> "trashCollection"
+ */
+function categoryKey(category: string): string {
+    return category
+        .trim()
+        .split(/\s+/)
+        .map((word, index) => (index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()))
+        .join('');
+}
+
+/**
+ * Whether the bundle of a locale is drawn with the Unicode fonts (Arabic script)
+ */
+export function needsUnicodeFonts(locale: AssemblyLocale): boolean {
+    return locale === 'ar';
+}
+
+/**
+ * Read the Unicode fonts from public/fonts, for bundles generated on the server.
+ * The routes calling this list the fonts in `outputFileTracingIncludes` (next.config.ts)
+ * so they ship with standalone and serverless builds.
+ */
+export async function loadAssemblyFonts(): Promise<AssemblyPackFonts> {
+    const directory = path.join(process.cwd(), 'public', 'fonts');
+    const [regular, bold] = await Promise.all([
+        readFile(path.join(directory, ASSEMBLY_FONT_FILES.regular)),
+        readFile(path.join(directory, ASSEMBLY_FONT_FILES.bold)),
+    ]);
+    return { regular: new Uint8Array(regular), bold: new Uint8Array(bold) };
+}
+
+export function isAssemblyLocale(value: unknown): value is AssemblyLocale {
+    return typeof value === 'string' && (ASSEMBLY_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Check the pack options; returns an error message or null
+ */
+export function validateAssemblyPackInput(input: AssemblyPackInput): string | null {
+    if (!isAssemblyLocale(input.locale)) {
+        return `Language must be one of: ${ASSEMBLY_LOCALES.join(', ')}`;
+    }
+
+    const currentYear = new Date().getUTCFullYear();
+    if (!Number.isInteger(input.fiscalYear) || input.fiscalYear < 2000 || input.fiscalYear > currentYear) {
+        return `Fiscal year must be between 2000 and ${currentYear}`;
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.meetingDate || '') || Number.isNaN(Date.parse(`${input.meetingDate}T00:00:00Z`))) {
+        return 'Meeting date must be a date (YYYY-MM-DD)';
+    }
+
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(input.meetingTime || '')) {
+        return 'Meeting time must be a time (HH:MM)';
+    }
+
+    if (!input.location?.trim()) {
+        return 'Meeting location is required';
+    }
+    if (input.location.trim().length > 200) {
+        return 'Meeting location must be 200 characters or less';
+    }
+
+    if (input.agenda !== undefined) {
+        if (!Array.isArray(input.agenda) || input.agenda.length > MAX_AGENDA_ITEMS) {
+            return `The agenda can have up to ${MAX_AGENDA_ITEMS} items`;
+        }
+        if (input.agenda.some((item) => typeof item !== 'string' || item.trim().length > 300)) {
+            return 'Agenda items must be text of 300 characters or less';
+        }
+    }
+
+    const percent = input.budgetIncreasePercent ?? 0;
+    if (typeof percent !== 'number' || !Number.isFinite(percent) || percent <= -100 || percent > 100) {
+        return 'Budget change must be a percentage between -100 and 100';
+    }
+
+    for (const [category, amount] of Object.entries(input.budgetOverrides || {})) {
+        if (!category.trim() || typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+            return 'Budget amounts must be positive numbers';
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Everything the AG bundle shows for a residence
+ */
+export async function buildAssemblyPack(
+    supabase: any,
+    residenceId: number,
+    input: AssemblyPackInput
+): Promise<AssemblyPackData> {
+    const messages = MESSAGES[input.locale];
+    const labels: AssemblyPackLabels = messages.assembly;
+    const year = input.fiscalYear;
+    const from = `${year}-01-01`;
+    const to = `${year}-12-31`;
+    const today = new Date().toISOString().split('T')[0];
+
+    const [residenceResult, paymentsResult, refundsResult, expensesResult, arrearsResult, apartmentsResult] = await Promise.all([
+        supabase
+            .from('residences')
+            .select('name, address, city, syndic_user_id')
+            .eq('id', residenceId)
+            .single(),
+        supabase
+            .from('payments')
+            .select('amount, method')
+            .eq('residence_id', residenceId)
+            .in('status', SETTLED_PAYMENT_STATUSES)
+            .gte('paid_at', `${from}T00:00:00.000Z`)
+            .lte('paid_at', `${to}T23:59:59.999Z`),
+        supabase
+            .from('transaction_history')
+            .select('amount')
+            .eq('residence_id', residenceId)
+            .eq('transaction_type', 'refund')
+            .gte('created_at', `${from}T00:00:00.000Z`)
+            .lte('created_at', `${to}T23:59:59.999Z`),
+        supabase
+            .from('expenses')
+            .select('category, amount')
+            .eq('residence_id', residenceId)
+            .eq('status', 'recorded')
+            .gte('expense_date', from)
+            .lte('expense_date', to),
+        supabase
+            .from('fees')
+            .select(`
+                apartment_number,
+                user_id,
+                amount,
+                amount_paid,
+                balance_due,
+                due_date,
+                profiles:user_id (
+                    full_name
+                )
+            `)
+            .eq('residence_id', residenceId)
+            .in('status', OUTSTANDING_FEE_STATUSES)
+            .lt('due_date', today),
+        supabase
+            .from('profile_residences')
+            .select('apartment_number')
+            .eq('residence_id', residenceId)
+            .not('apartment_number', 'is', null),
+    ]);
+
+    if (residenceResult.error || !residenceResult.data) {
+        throw new Error('Residence not found');
+    }
+
+    for (const result of [paymentsResult, refundsResult, expensesResult, arrearsResult, apartmentsResult]) {
+        if (result.error) {
+            throw new Error(result.error.message || 'Failed to load assembly data');
+        }
+    }
+
+    const residence = residenceResult.data;
+    const { data: syndic } = residence.syndic_user_id
+        ? await supabase.from('profiles').select('full_name').eq('id', residence.syndic_user_id).maybeSingle()
+        : { data: null };
+
+    const [openingBalances, closingBalances] = await Promise.all([
+        getLedgerBalances(supabase, residenceId, `${year - 1}-12-31T23:59:59.999Z`),
+        getLedgerBalances(supabase, residenceId, `${to}T23:59:59.999Z`),
+    ]);
+
+    // Income: settled payments per method, less refunds
+    const byMethod = new Map<string, AssemblyAmountRow>();
+    (paymentsResult.data || []).forEach((payment: any) => {
+        const method = payment.method || 'cash';
+        const row = byMethod.get(method) || {
+            label: messages.payments[PAYMENT_METHOD_KEYS[method]] || method,
+            count: 0,
+            amount: 0,
+        };
+        row.count += 1;
+        row.amount += Number(payment.amount) || 0;
+        byMethod.set(method, row);
+    });
+    const income = Array.from(byMethod.values()).map((row) => ({ ...row, amount: round2(row.amount) }));
+    const refunds = refundsResult.data || [];
+    if (refunds.length > 0) {
+        income.push({
+            label: labels.refunds,
+            count: refunds.length,
+            amount: round2(refunds.reduce((sum: number, entry: any) => sum + (Number(entry.amount) || 0), 0)),
+        });
+    }
+
+    // Expenses per category
+    const actualByCategory = new Map<string, { count: number; amount: number }>();
+    (expensesResult.data || []).forEach((expense: any) => {
+        const category = expense.category || 'Other';
+        const row = actualByCategory.get(category) || { count: 0, amount: 0 };
+        row.count += 1;
+        row.amount += Number(expense.amount) || 0;
+        actualByCategory.set(category, row);
+    });
+    const categoryLabel = (category: string) => messages.expenses[categoryKey(category)] || category;
+    const expenses = Array.from(actualByCategory.entries())
+        .map(([category, row]) => ({ label: categoryLabel(category), count: row.count, amount: round2(row.amount) }))
+        .sort((a, b) => b.amount - a.amount);
+
+    const totalIncome = round2(income.reduce((sum, row) => sum + row.amount, 0));
+    const totalExpenses = round2(expenses.reduce((sum, row) => sum + row.amount, 0));
+
+    // Arrears per apartment (fees with no apartment are listed under their resident)
+    const byApartment = new Map<string, AssemblyPackData['arrears']['rows'][number]>();
+    (arrearsResult.data || []).forEach((fee: any) => {
+        const balance = getFeeBalance(fee);
+        if (balance <= 0) return;
+        const key = fee.apartment_number ? `apt:${fee.apartment_number}` : `user:${fee.user_id}`;
+        const row = byApartment.get(key) || {
+            apartmentNumber: fee.apartment_number || '-',
+            residentName: fee.profiles?.full_name || '-',
+            feeCount: 0,
+            oldestDueDate: fee.due_date,
+            amount: 0,
+        };
+        row.feeCount += 1;
+        row.amount += balance;
+        if (fee.due_date < row.oldestDueDate) row.oldestDueDate = fee.due_date;
+        byApartment.set(key, row);
+    });
+    const arrearsRows = Array.from(byApartment.values())
+        .map((row) => ({ ...row, amount: round2(row.amount) }))
+        .sort((a, b) => a.apartmentNumber.localeCompare(b.apartmentNumber, undefined, { numeric: true }));
+
+    // Proposed budget
+    const increasePercent = input.budgetIncreasePercent ?? 0;
+    const overrides = input.budgetOverrides || {};
+    const budgetCategories = new Set([...actualByCategory.keys(), ...Object.keys(overrides).map((category) => category.trim())]);
+    const budgetRows = Array.from(budgetCategories)
+        .map((category) => {
+            const actual = round2(actualByCategory.get(category)?.amount || 0);
+            const override = overrides[category];
+            return {
+                label: categoryLabel(category),
+                actual,
+                proposed: round2(override !== undefined ? override : actual * (1 + increasePercent / 100)),
+            };
+        })
+        .sort((a, b) => b.proposed - a.proposed);
+    const budgetTotal = round2(budgetRows.reduce((sum, row) => sum + row.proposed, 0));
+    const apartmentCount = new Set(
+        (apartmentsResult.data || []).map((row: any) => String(row.apartment_number).trim()).filter(Boolean)
+    ).size;
+
+    const agenda = (input.agenda || []).map((item) => item.trim()).filter(Boolean);
+    const defaultAgenda = ['agendaAccounts', 'agendaDischarge', 'agendaArrears', 'agendaBudget', 'agendaOther'].map((key) =>
+        fillMessage(labels[key], { year, nextYear: year + 1 })
+    );
+
+    return {
+        locale: input.locale,
+        direction: needsUnicodeFonts(input.locale) ? 'rtl' : 'ltr',
+        labels,
+        residenceName: residence.name,
+        residenceAddress: [residence.address, residence.city].filter(Boolean).join(', '),
+        syndicName: syndic?.full_name || 'Syndic',
+        fiscalYear: year,
+        meeting: {
+            date: input.meetingDate,
+            time: input.meetingTime,
+            location: input.location.trim(),
+            agenda: agenda.length > 0 ? agenda : defaultAgenda,
+        },
+        income,
+        totalIncome,
+        expenses,
+        totalExpenses,
+        result: round2(totalIncome - totalExpenses),
+        treasury: { opening: openingBalances, closing: closingBalances },
+        arrears: {
+            asOf: today,
+            rows: arrearsRows,
+            total: round2(arrearsRows.reduce((sum, row) => sum + row.amount, 0)),
+        },
+        budget: {
+            rows: budgetRows,
+            total: budgetTotal,
+            increasePercent,
+            apartmentCount,
+            perApartment: apartmentCount > 0 ? round2(budgetTotal / apartmentCount) : null,
+        },
+    };
+}
@@ -24,7 +24,7 @@ const authConfig = {
 		async signIn({ }: { user: any; account: any; profile?: any }): Promise<boolean> {
 			return true;
 		},
-		async session({ session, user }: { session: any; user: any }) {
+		async session({ session, user, trigger, newSession }: { session: any; user: any; trigger?: string; newSession?: any }) {
 			// Add user.id to the session
 			if (session?.user) {
 				session.user.id = user.id
@@ -43,34 +43,30 @@ const authConfig = {
             
             if (profile) {
                 session.user.role = profile.role;
-                
-                let residenceId = null;
-                
-                if (profile.role === 'syndic') {
-                    const { data: residence } = await supabase
-                        .from('residences')
-                        .select('id')
-                        .eq('syndic_user_id', user.id)
-                        .maybeSingle();
-                    residenceId = residence?.id;
-                } else if (profile.role === 'guard') {
-                    const { data: residence } = await supabase
-                        .from('residences')
-                        .select('id')
-                        .eq('guard_user_id', user.id)
-                        .maybeSingle();
-                    residenceId = residence?.id;
-                } else if (profile.role === 'resident') {
-                    const { data: pr } = await supabase
-                        .from('profile_residences')
-                        .select('residence_id')
-                        .eq('profile_id', user.id)
-                        .limit(1)
-                        .maybeSingle();
-                    residenceId = pr?.residence_id;
+
+                // Residences the user belongs to, for the residence switcher
+                const { getUserResidences } = await import('@/lib/residence-utils');
+                const residences = await getUserResidences(supabase, user.id, profile.role);
+                session.user.residences = residences.map((r) => ({ id: r.id, name: r.name }));
+
+                // Switching residence: useSession().update({ residenceId })
+                let activeResidenceId = Number(session.activeResidenceId) || null;
+                const requestedResidenceId = Number(newSession?.residenceId) || null;
+
+                if (trigger === 'update' && requestedResidenceId && residences.some((r) => r.id === requestedResidenceId)) {
+                    const { error } = await supabase
+                        .from('sessions')
+                        .update({ activeResidenceId: requestedResidenceId })
+                        .eq('sessionToken', session.sessionToken);
+
+                    if (error) {
+                        console.error('[NextAuth] Error switching residence:', error);
+                    } else {
+                        activeResidenceId = requestedResidenceId;
+                    }
                 }
-                
-                session.user.residenceId = residenceId;
+
+                session.user.residenceId = residences.find((r) => r.id === activeResidenceId)?.id ?? residences[0]?.id ?? null;
             }
 
 			const signingSecret = process.env.SUPABASE_JWT_SECRET
@@ -9,7 +9,8 @@ declare module 'next-auth' {
 		user: {
 			id: string
 			role?: string
-			residenceId?: string | null
+			residenceId?: number | null
+			residences?: { id: number; name: string }[]
 		} & DefaultSession["user"]
 	}
 }
@@ -0,0 +1,354 @@
+import { NextRequest } from 'next/server';
+import { SignJWT, jwtVerify, decodeJwt } from 'jose';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Mobile Sessions
+ * Signed, short-lived access tokens and rotating refresh tokens for the mobile app.
+ * Every access token carries the id of a row in mobile_sessions, so logging out
+ * or revoking a device cuts off its tokens straight away.
+ */
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const ACCESS_TOKEN_ISSUER = 'sakan:mobile';
+
+// Tolerance for clock drift between the app and the server
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+export interface MobileSessionUser {
+  id: string;
+  email: string | null;
+  sessionId?: string;
+}
+
+export interface MobileSessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  sessionId: string;
+}
+
+export interface MobileDeviceInfo {
+  deviceId?: string | null;
+  deviceName?: string | null;
+  platform?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Secret used to sign access tokens
+ */
+function getSessionSecret() {
+  const secret = process.env.MOBILE_SESSION_SECRET || process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('MOBILE_SESSION_SECRET is not configured');
+  }
+  return new TextEncoder().encode(secret);
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function secretMatches(secret: string, storedHash: string): boolean {
+  const given = Buffer.from(hashSecret(secret), 'hex');
+  const stored = Buffer.from(storedHash, 'hex');
+  return given.length === stored.length && timingSafeEqual(given, stored);
+}
+
+function trimOrNull(value: unknown, maxLength = 200): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  return value.trim().slice(0, maxLength);
+}
+
+/**
+ * Device details from the request body (deviceId, deviceName, platform) and headers
+ */
+export function getDeviceInfo(request: NextRequest, body: any): MobileDeviceInfo {
+  return {
+    deviceId: trimOrNull(body?.deviceId),
+    deviceName: trimOrNull(body?.deviceName),
+    platform: trimOrNull(body?.platform, 20),
+    ipAddress: trimOrNull(request.headers.get('x-forwarded-for')?.split(',')[0]),
+    userAgent: trimOrNull(request.headers.get('user-agent'), 500),
+  };
+}
+
+/**
+ * Whether a bearer token was issued by this server (as opposed to a Supabase JWT)
+ */
+export function isMobileAccessToken(token: string): boolean {
+  try {
+    return decodeJwt(token).iss === ACCESS_TOKEN_ISSUER;
+  } catch {
+    return false;
+  }
+}
+
+async function signAccessToken(user: { id: string; email: string | null }, sessionId: string) {
+  return new SignJWT({ email: user.email, sid: sessionId })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuer(ACCESS_TOKEN_ISSUER)
+    .setSubject(user.id)
+    .setIssuedAt()
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
+    .sign(getSessionSecret());
+}
+
+/**
+ * Refresh tokens are `<sessionId>.<secret>`; only the hash of the secret is stored
+ */
+function newRefreshSecret() {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Start a session for a user who just signed in.
+ * Signing in again on the same device replaces that device's previous session.
+ */
+export async function createMobileSession(
+  supabase: any,
+  user: { id: string; email: string | null },
+  device: MobileDeviceInfo = {}
+): Promise<MobileSessionTokens> {
+  if (device.deviceId) {
+    await supabase
+      .from('mobile_sessions')
+      .update({ revoked_at: new Date().toISOString(), revoked_reason: 'replaced' })
+      .eq('user_id', user.id)
+      .eq('device_id', device.deviceId)
+      .is('revoked_at', null);
+  }
+
+  const secret = newRefreshSecret();
+
+  const { data: session, error } = await supabase
+    .from('mobile_sessions')
+    .insert({
+      user_id: user.id,
+      refresh_token_hash: hashSecret(secret),
+      device_id: device.deviceId ?? null,
+      device_name: device.deviceName ?? null,
+      platform: device.platform ?? null,
+      ip_address: device.ipAddress ?? null,
+      user_agent: device.userAgent ?? null,
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error || !session) {
+    console.error('[Mobile Sessions] Error creating session:', error);
+    throw new Error('Failed to create session');
+  }
+
+  console.log('[Mobile Sessions] Session created:', session.id, 'for user:', user.id);
+
+  return {
+    accessToken: await signAccessToken(user, session.id),
+    refreshToken: `${session.id}.${secret}`,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access token and a new refresh token.
+ * Presenting a refresh token that was already rotated revokes the whole session,
+ * since it means the token was copied.
+ */
+export async function refreshMobileSession(
+  supabase: any,
+  refreshToken: string,
+  device: MobileDeviceInfo = {}
+): Promise<{ success: boolean; tokens?: MobileSessionTokens; error?: string }> {
+  const [sessionId, secret] = String(refreshToken || '').split('.');
+
+  if (!sessionId || !secret || !/^[0-9a-f-]{36}$/i.test(sessionId)) {
+    return { success: false, error: 'Invalid refresh token' };
+  }
+
+  const { data: session, error } = await supabase
+    .from('mobile_sessions')
+    .select('id, user_id, refresh_token_hash, expires_at, revoked_at, users:user_id (id, email)')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Mobile Sessions] Error fetching session:', error);
+    return { success: false, error: 'Failed to refresh session' };
+  }
+
+  if (!session || session.revoked_at || !session.users) {
+    return { success: false, error: 'Session has been revoked' };
+  }
+
+  if (new Date(session.expires_at) < new Date()) {
+    return { success: false, error: 'Session has expired' };
+  }
+
+  if (!secretMatches(secret, session.refresh_token_hash)) {
+    console.error('[Mobile Sessions] Refresh token reuse detected, revoking session:', session.id);
+    await revokeMobileSession(supabase, session.user_id, session.id, 'token_reuse');
+    return { success: false, error: 'Session has been revoked' };
+  }
+
+  const newSecret = newRefreshSecret();
+
+  // Only rotate if the hash is still the one we checked, so two concurrent refreshes cannot both win
+  const { data: rotated, error: updateError } = await supabase
+    .from('mobile_sessions')
+    .update({
+      refresh_token_hash: hashSecret(newSecret),
+      last_used_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString(),
+      ...(device.ipAddress ? { ip_address: device.ipAddress } : {}),
+    })
+    .eq('id', session.id)
+    .eq('refresh_token_hash', session.refresh_token_hash)
+    .is('revoked_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (updateError || !rotated) {
+    console.error('[Mobile Sessions] Error rotating refresh token:', updateError);
+    return { success: false, error: 'Failed to refresh session' };
+  }
+
+  const user = { id: session.users.id, email: session.users.email };
+
+  return {
+    success: true,
+    tokens: {
+      accessToken: await signAccessToken(user, session.id),
+      refreshToken: `${session.id}.${newSecret}`,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      sessionId: session.id,
+    },
+  };
+}
+
+/**
+ * Check an access token's signature and expiry, and that its session is still active
+ */
+export async function verifyMobileAccessToken(supabase: any, token: string): Promise<MobileSessionUser | null> {
+  let payload: any;
+
+  try {
+    const verified = await jwtVerify(token, getSessionSecret(), {
+      issuer: ACCESS_TOKEN_ISSUER,
+      algorithms: ['HS256'],
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    });
+    payload = verified.payload;
+  } catch (error: any) {
+    console.error('[Mobile Sessions] Invalid access token:', error.code || error.message);
+    return null;
+  }
+
+  if (!payload.sub || !payload.sid) {
+    return null;
+  }
+
+  const { data: session, error } = await supabase
+    .from('mobile_sessions')
+    .select('id, user_id, expires_at, revoked_at')
+    .eq('id', payload.sid)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Mobile Sessions] Error fetching session:', error);
+    return null;
+  }
+
+  if (!session || session.revoked_at || session.user_id !== payload.sub || new Date(session.expires_at) < new Date()) {
+    console.error('[Mobile Sessions] Session is no longer active:', payload.sid);
+    return null;
+  }
+
+  return {
+    id: payload.sub,
+    email: payload.email ?? null,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * Revoke one of a user's sessions; returns false when it does not exist or is already revoked
+ */
+export async function revokeMobileSession(
+  supabase: any,
+  userId: string,
+  sessionId: string,
+  reason: 'logout' | 'revoked' | 'token_reuse' = 'revoked'
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('mobile_sessions')
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('[Mobile Sessions] Error revoking session:', error);
+    throw new Error('Failed to revoke session');
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one (the caller's)
+ */
+export async function revokeAllMobileSessions(
+  supabase: any,
+  userId: string,
+  exceptSessionId?: string | null
+): Promise<number> {
+  let query = supabase
+    .from('mobile_sessions')
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: 'revoked' })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (exceptSessionId) {
+    query = query.neq('id', exceptSessionId);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    console.error('[Mobile Sessions] Error revoking sessions:', error);
+    throw new Error('Failed to revoke sessions');
+  }
+
+  return (data || []).length;
+}
+
+/**
+ * Active sessions of a user, most recently used first, flagging the caller's own
+ */
+export async function listMobileSessions(supabase: any, userId: string, currentSessionId?: string | null) {
+  const { data, error } = await supabase
+    .from('mobile_sessions')
+    .select('id, device_id, device_name, platform, ip_address, user_agent, created_at, last_used_at, expires_at')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('last_used_at', { ascending: false });
+
+  if (error) {
+    console.error('[Mobile Sessions] Error listing sessions:', error);
+    throw new Error('Failed to fetch sessions');
+  }
+
+  return (data || []).map((session: any) => ({
+    ...session,
+    current: session.id === currentSessionId,
+  }));
+}
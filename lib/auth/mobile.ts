@@ -1,11 +1,13 @@
 import { NextRequest } from 'next/server';
 import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { isMobileAccessToken, verifyMobileAccessToken, type MobileSessionUser } from '@/lib/auth/mobile-sessions';
 
 /**
  * Get authenticated user from mobile app request
- * Validates Supabase access token from Authorization header
+ * Validates the signed session token issued at sign-in, or a Supabase access token,
+ * from the Authorization header
  */
-export async function getMobileUser(request: NextRequest) {
+export async function getMobileUser(request: NextRequest): Promise<MobileSessionUser | null> {
   try {
     // Get authorization header
     const authHeader = request.headers.get('authorization');
@@ -17,41 +19,20 @@ export async function getMobileUser(request: NextRequest) {
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
     console.log('[Mobile Auth] Token received:', token.substring(0, 20) + '...');
 
-    // If it's a custom OTP token, extract user ID
-    if (token.startsWith('otp_verified_')) {
-      const userId = token.replace('otp_verified_', '');
-      console.log('[Mobile Auth] Custom OTP token detected, user ID:', userId);
-      
-      const supabase = createSupabaseAdminClient();
-      
-      // Get user from database
-      const { data: user, error } = await supabase
-        .from('users')
-        .select('id, email')
-        .eq('id', userId)
-        .maybeSingle();
-
-      if (error) {
-        console.error('[Mobile Auth] Error fetching user:', error);
-        return null;
-      }
+    const supabase = createSupabaseAdminClient();
 
+    // Access tokens issued at sign-in (see lib/auth/mobile-sessions.ts)
+    if (isMobileAccessToken(token)) {
+      const user = await verifyMobileAccessToken(supabase, token);
       if (!user) {
-        console.error('[Mobile Auth] User not found for ID:', userId);
         return null;
       }
 
       console.log('[Mobile Auth] User authenticated:', user.id);
-      return {
-        id: user.id,
-        email: user.email,
-      };
+      return user;
     }
 
-    // Validate Supabase JWT token
-    const supabase = createSupabaseAdminClient();
-    
-    // Use Supabase to verify the token
+    // Otherwise validate a Supabase JWT token
     const { data: { user }, error } = await supabase.auth.getUser(token);
 
     if (error) {
@@ -67,7 +48,7 @@ export async function getMobileUser(request: NextRequest) {
     console.log('[Mobile Auth] Supabase user authenticated:', user.id);
     return {
       id: user.id,
-      email: user.email,
+      email: user.email ?? null,
     };
   } catch (error) {
     console.error('[Mobile Auth] Error validating token:', error);
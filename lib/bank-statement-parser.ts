@@ -0,0 +1,391 @@
+/**
+ * Bank Statement Parser
+ * Reads the transactions of a bank statement export: CSV (column names in French or
+ * English, `;`, `,` or tab separated), ISO 20022 CAMT.053 XML and OFX (SGML or XML).
+ * Amounts are returned positive with a credit/debit direction.
+ */
+
+export type StatementFormat = 'csv' | 'camt053' | 'ofx';
+
+export const STATEMENT_FORMATS: StatementFormat[] = ['csv', 'camt053', 'ofx'];
+
+export const MAX_STATEMENT_SIZE = 5 * 1024 * 1024; // 5MB
+
+export interface StatementTransaction {
+    bookingDate: string; // YYYY-MM-DD
+    amount: number;
+    direction: 'credit' | 'debit';
+    description: string | null;
+    reference: string | null;
+    counterparty: string | null;
+}
+
+export interface ParsedStatement {
+    format: StatementFormat;
+    accountNumber: string | null;
+    transactions: StatementTransaction[];
+}
+
+/**
+ * Lowercase, accent-free, single-spaced text, for comparing labels and memos
+ */
+export function normalizeText(value: string | null | undefined): string {
+    return (value || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Parse an amount written the French way (1 234,56), the English way (1,234.56)
+ * or plainly (-500.00). Returns null when it isn't a number.
+ */
+export function parseAmount(value: string | null | undefined): number | null {
+    let text = (value || '').replace(/[\s\u00a0\u202f]/g, '').replace(/(MAD|DHS?|EUR|€)/gi, '');
+    if (!text) return null;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    if (text.startsWith('-')) {
+        negative = !negative;
+        text = text.slice(1);
+    } else if (text.startsWith('+')) {
+        text = text.slice(1);
+    } else if (text.endsWith('-')) {
+        negative = !negative;
+        text = text.slice(0, -1);
+    }
+
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+    if (lastComma !== -1 && lastDot !== -1) {
+        // Whichever comes last is the decimal separator
+        text = lastComma > lastDot
+            ? text.replace(/\./g, '').replace(',', '.')
+            : text.replace(/,/g, '');
+    } else if (lastComma !== -1) {
+        text = /,\d{1,2}$/.test(text) && text.indexOf(',') === lastComma
+            ? text.replace(',', '.')
+            : text.replace(/,/g, '');
+    }
+
+    if (!/^\d+(\.\d+)?$/.test(text)) return null;
+
+    const amount = Math.round(Number(text) * 100) / 100;
+    return negative ? -amount : amount;
+}
+
+/**
+ * Parse a statement date (YYYY-MM-DD, YYYYMMDD or DD/MM/YYYY) into YYYY-MM-DD
+ */
+export function parseStatementDate(value: string | null | undefined): string | null {
+    const text = (value || '').trim();
+    let year: number;
+    let month: number;
+    let day: number;
+
+    let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/) || text.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (match) {
+        [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else {
+        // Day first, as on Moroccan and French statements
+        match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+        if (!match) return null;
+        [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        if (year < 100) year += 2000;
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+    return date.toISOString().split('T')[0];
+}
+
+/**
+ * Guess the format of an uploaded statement from its name and content
+ */
+export function detectStatementFormat(filename: string, content: string): StatementFormat {
+    const head = content.slice(0, 2000);
+    if (/BkToCstmrStmt|camt\.053/i.test(head) || /BkToCstmrStmt/.test(content)) return 'camt053';
+    if (/OFXHEADER|<OFX>/i.test(head) || /\.(ofx|qfx)$/i.test(filename)) return 'ofx';
+    if (/\.xml$/i.test(filename)) return 'camt053';
+    return 'csv';
+}
+
+function toTransaction(
+    bookingDate: string | null,
+    signedAmount: number | null,
+    fields: { description?: string | null; reference?: string | null; counterparty?: string | null }
+): StatementTransaction | null {
+    if (!bookingDate || signedAmount === null || Math.abs(signedAmount) < 0.005) return null;
+
+    return {
+        bookingDate,
+        amount: Math.abs(signedAmount),
+        direction: signedAmount > 0 ? 'credit' : 'debit',
+        description: fields.description?.trim() || null,
+        reference: fields.reference?.trim() || null,
+        counterparty: fields.counterparty?.trim() || null,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+const CSV_COLUMNS = {
+    date: ['date operation', 'date d\'operation', 'date comptable', 'booking date', 'transaction date', 'posting date', 'date'],
+    description: ['libelle', 'description', 'memo', 'label', 'narrative', 'details', 'motif', 'operation', 'communication'],
+    reference: ['reference', 'ref', 'numero'],
+    counterparty: ['beneficiaire', 'donneur d\'ordre', 'emetteur', 'counterparty', 'payee', 'payer', 'tiers', 'nom'],
+    amount: ['montant', 'amount', 'somme'],
+    debit: ['debit', 'withdrawal', 'sortie'],
+    credit: ['credit', 'deposit', 'entree'],
+};
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+}
+
+/**
+ * Index of the first header matching one of the names (exact match first, then prefix)
+ */
+function findColumn(headers: string[], names: string[], taken: number[]): number {
+    for (const name of names) {
+        const exact = headers.findIndex((header, i) => !taken.includes(i) && header === name);
+        if (exact !== -1) return exact;
+    }
+    for (const name of names) {
+        const partial = headers.findIndex((header, i) =>
+            !taken.includes(i) && header.startsWith(name) && !/valeur|value/.test(header)
+        );
+        if (partial !== -1) return partial;
+    }
+    return -1;
+}
+
+function parseCsv(content: string): { statement?: ParsedStatement; error?: string } {
+    const lines = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (lines.length === 0) {
+        return { error: 'The file is empty' };
+    }
+
+    // Banks often put a few lines (account, period) before the header row
+    let headerIndex = -1;
+    let delimiter = ';';
+    let headers: string[] = [];
+    for (let i = 0; i < Math.min(lines.length, 15); i++) {
+        const candidate = [';', ',', '\t'].sort(
+            (a, b) => lines[i].split(b).length - lines[i].split(a).length
+        )[0];
+        const cells = splitCsvLine(lines[i], candidate).map(normalizeText);
+        const hasDate = findColumn(cells, CSV_COLUMNS.date, []) !== -1;
+        const hasAmount = [CSV_COLUMNS.amount, CSV_COLUMNS.debit, CSV_COLUMNS.credit]
+            .some((names) => findColumn(cells, names, []) !== -1);
+        if (hasDate && hasAmount) {
+            headerIndex = i;
+            delimiter = candidate;
+            headers = cells;
+            break;
+        }
+    }
+
+    if (headerIndex === -1) {
+        return { error: 'Could not find the header row: the CSV needs a date column and an amount (or debit/credit) column' };
+    }
+
+    const taken: number[] = [];
+    const pick = (names: string[]) => {
+        const index = findColumn(headers, names, taken);
+        if (index !== -1) taken.push(index);
+        return index;
+    };
+    const columns = {
+        date: pick(CSV_COLUMNS.date),
+        amount: pick(CSV_COLUMNS.amount),
+        debit: pick(CSV_COLUMNS.debit),
+        credit: pick(CSV_COLUMNS.credit),
+        reference: pick(CSV_COLUMNS.reference),
+        counterparty: pick(CSV_COLUMNS.counterparty),
+        description: pick(CSV_COLUMNS.description),
+    };
+
+    const transactions: StatementTransaction[] = [];
+    for (const line of lines.slice(headerIndex + 1)) {
+        const cells = splitCsvLine(line, delimiter);
+        const cell = (index: number) => (index === -1 ? null : cells[index] ?? null);
+
+        let signedAmount: number | null = null;
+        if (columns.amount !== -1) {
+            signedAmount = parseAmount(cell(columns.amount));
+        } else {
+            const credit = parseAmount(cell(columns.credit)) || 0;
+            const debit = Math.abs(parseAmount(cell(columns.debit)) || 0);
+            signedAmount = credit - debit;
+        }
+
+        // Opening/closing balance rows and totals have no valid date
+        const transaction = toTransaction(parseStatementDate(cell(columns.date)), signedAmount, {
+            description: cell(columns.description),
+            reference: cell(columns.reference),
+            counterparty: cell(columns.counterparty),
+        });
+        if (transaction) transactions.push(transaction);
+    }
+
+    return { statement: { format: 'csv', accountNumber: null, transactions } };
+}
+
+// ---------------------------------------------------------------------------
+// CAMT.053
+// ---------------------------------------------------------------------------
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&amp;/g, '&');
+}
+
+function xmlBlock(xml: string | null | undefined, tag: string): string | null {
+    if (!xml) return null;
+    const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+    return match ? match[1] : null;
+}
+
+function xmlValue(xml: string | null | undefined, tag: string): string | null {
+    const block = xmlBlock(xml, tag);
+    return block === null ? null : decodeXml(block).trim() || null;
+}
+
+function parseCamt053(content: string): { statement?: ParsedStatement; error?: string } {
+    // Drop namespace prefixes (<ns2:Ntry> -> <Ntry>)
+    const xml = content.replace(/<(\/?)[\w.-]+:/g, '<$1');
+
+    const statementXml = xmlBlock(xml, 'Stmt') || xmlBlock(xml, 'Rpt');
+    if (!statementXml) {
+        return { error: 'Not a CAMT.053 statement: no <Stmt> element found' };
+    }
+
+    const account = xmlBlock(statementXml, 'Acct');
+    const accountNumber = xmlValue(account, 'IBAN') || xmlValue(xmlBlock(account, 'Othr'), 'Id');
+
+    const transactions: StatementTransaction[] = [];
+    for (const entry of statementXml.match(/<Ntry>[\s\S]*?<\/Ntry>/g) || []) {
+        const amount = parseAmount(entry.match(/<Amt[^>]*>([^<]+)<\/Amt>/)?.[1]);
+        const isDebit = xmlValue(entry, 'CdtDbtInd') === 'DBIT';
+        const bookingDate = xmlBlock(entry, 'BookgDt') || xmlBlock(entry, 'ValDt');
+        const date = xmlValue(bookingDate, 'Dt') || xmlValue(bookingDate, 'DtTm');
+
+        const details = xmlBlock(entry, 'TxDtls') || entry;
+        const endToEndId = xmlValue(details, 'EndToEndId');
+        const unstructured = (details.match(/<Ustrd>[\s\S]*?<\/Ustrd>/g) || [])
+            .map((block) => decodeXml(block.replace(/<\/?Ustrd>/g, '')).trim())
+            .filter(Boolean)
+            .join(' ');
+        const party = xmlBlock(details, isDebit ? 'Cdtr' : 'Dbtr');
+
+        const transaction = toTransaction(parseStatementDate(date), amount === null ? null : (isDebit ? -amount : amount), {
+            description: unstructured || xmlValue(details, 'AddtlTxInf') || xmlValue(entry, 'AddtlNtryInf'),
+            reference: (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null)
+                || xmlValue(entry, 'AcctSvcrRef')
+                || xmlValue(entry, 'NtryRef'),
+            counterparty: xmlValue(party, 'Nm'),
+        });
+        if (transaction) transactions.push(transaction);
+    }
+
+    return { statement: { format: 'camt053', accountNumber, transactions } };
+}
+
+// ---------------------------------------------------------------------------
+// OFX
+// ---------------------------------------------------------------------------
+
+// SGML OFX leaves elements unclosed, so a value runs until the next tag or line break
+function ofxValue(block: string, tag: string): string | null {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? decodeXml(match[1]).trim() || null : null;
+}
+
+function parseOfx(content: string): { statement?: ParsedStatement; error?: string } {
+    if (!/<OFX>/i.test(content)) {
+        return { error: 'Not an OFX statement: no <OFX> element found' };
+    }
+
+    const transactions: StatementTransaction[] = [];
+    for (const block of content.split(/<STMTTRN>/i).slice(1)) {
+        const entry = block.split(/<\/STMTTRN>/i)[0];
+        const name = ofxValue(entry, 'NAME');
+        const memo = ofxValue(entry, 'MEMO');
+
+        const transaction = toTransaction(parseStatementDate(ofxValue(entry, 'DTPOSTED')), parseAmount(ofxValue(entry, 'TRNAMT')), {
+            description: memo || name,
+            reference: ofxValue(entry, 'REFNUM') || ofxValue(entry, 'CHECKNUM') || ofxValue(entry, 'FITID'),
+            counterparty: memo ? name : null,
+        });
+        if (transaction) transactions.push(transaction);
+    }
+
+    return { statement: { format: 'ofx', accountNumber: ofxValue(content, 'ACCTID'), transactions } };
+}
+
+/**
+ * Parse a statement file. `format` overrides detection. Returns an error message when
+ * the file can't be read or holds no transaction.
+ */
+export function parseStatement(
+    filename: string,
+    content: string,
+    format?: StatementFormat | null
+): { statement?: ParsedStatement; error?: string } {
+    const text = content.replace(/^\uFEFF/, '');
+    const resolved = format || detectStatementFormat(filename, text);
+
+    const result = resolved === 'camt053'
+        ? parseCamt053(text)
+        : resolved === 'ofx'
+            ? parseOfx(text)
+            : parseCsv(text);
+
+    if (result.statement && result.statement.transactions.length === 0) {
+        return { error: 'No transaction found in the statement' };
+    }
+    return result;
+}
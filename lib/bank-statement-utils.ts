@@ -0,0 +1,817 @@
+import { listOutstandingFees, OUTSTANDING_FEE_STATUSES, selectFeesToPay, settlePaymentForFees } from '@/lib/allocation-utils';
+import { approveBankTransfer, listPendingTransfers } from '@/lib/bank-transfer-utils';
+import { postExpenseEntry, postPaymentEntry } from '@/lib/ledger-utils';
+import { notifyUsers } from '@/lib/notification-utils';
+import { checkPeriodOpen } from '@/lib/reconciliation-utils';
+import {
+    MAX_STATEMENT_SIZE,
+    normalizeText,
+    parseStatement,
+    StatementFormat,
+    StatementTransaction,
+} from '@/lib/bank-statement-parser';
+
+/**
+ * Bank Statement Utilities
+ * Imports statements of the residence bank account and matches each line: credits to a
+ * pending bank transfer or to a resident's open fees (amount, date, reference and the
+ * apartment number in the memo), debits to a recorded bank expense or to a new draft
+ * expense. Matches stay `suggested` until the syndic confirms, corrects or ignores them.
+ */
+
+export type StatementLineStatus = 'unmatched' | 'suggested' | 'confirmed' | 'ignored';
+
+export type StatementMatchType = 'transfer' | 'fees' | 'expense';
+
+export interface StatementLineMatch {
+    type: StatementMatchType;
+    score: number;
+    paymentId?: number;
+    userId?: string;
+    feeIds?: number[];
+    expenseId?: number;
+}
+
+/**
+ * What the syndic picked instead of the suggested match
+ */
+export interface StatementLineCorrection {
+    paymentId?: number | null; // pending transfer paid by a credit
+    userId?: string | null; // resident paying fees with a credit
+    feeIds?: number[] | null;
+    category?: string | null; // expense recorded for a debit
+    description?: string | null;
+}
+
+// Below this score a line is left unmatched rather than suggested
+export const MATCH_THRESHOLD = 60;
+
+// Days between the transfer date given by the resident and the booking date
+const DATE_WINDOW_DAYS = 10;
+
+// Amounts below half a centime are rounding noise
+const EPSILON = 0.005;
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+function daysBetween(a: string, b: string): number {
+    return Math.abs(new Date(a.split('T')[0]).getTime() - new Date(b.split('T')[0]).getTime()) / 86400000;
+}
+
+function shiftDate(date: string, days: number): string {
+    const shifted = new Date(date);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().split('T')[0];
+}
+
+function lineText(line: { description?: string | null; reference?: string | null; counterparty?: string | null }): string {
+    return normalizeText([line.description, line.reference, line.counterparty].filter(Boolean).join(' '));
+}
+
+/**
+ * Whether a memo mentions an apartment. Bare numbers ("12") need a prefix such as
+ * "apt" or "appartement" so amounts and dates in the memo don't match.
+ */
+export function mentionsApartment(text: string, apartmentNumber: string | null | undefined): boolean {
+    const apartment = normalizeText(apartmentNumber);
+    if (!apartment) return false;
+
+    const escaped = apartment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[\s-]+/g, '[\\s-]?');
+    const prefix = '(?:apt|app|appt|appart|appartement|apartment|logement|lot|n|no|num)\\s*[.°#:-]?\\s*';
+    const pattern = /^\d+$/.test(apartment)
+        ? `(?:^|[^a-z0-9])${prefix}${escaped}(?:$|[^a-z0-9])`
+        : `(?:^|[^a-z0-9])(?:${prefix})?${escaped}(?:$|[^a-z0-9])`;
+
+    return new RegExp(pattern).test(text);
+}
+
+function mentionsName(text: string, fullName: string | null | undefined): boolean {
+    const parts = normalizeText(fullName).split(' ').filter((part) => part.length >= 3);
+    return parts.length > 0 && parts.every((part) => text.includes(part));
+}
+
+/**
+ * Score a credit against the pending transfers and the residents owing fees, and
+ * return the best match above MATCH_THRESHOLD (or null)
+ */
+export function matchCredit(
+    line: StatementTransaction,
+    transfers: any[],
+    debtors: Array<{ userId: string; apartmentNumber: string | null; residentName: string | null; fees: any[] }>
+): StatementLineMatch | null {
+    const text = lineText(line);
+    const candidates: StatementLineMatch[] = [];
+
+    for (const transfer of transfers) {
+        if (Math.abs(Number(transfer.amount) - line.amount) > EPSILON) continue;
+
+        let score = 50;
+        const days = daysBetween(line.bookingDate, transfer.paid_at);
+        if (days <= 3) score += 25;
+        else if (days <= DATE_WINDOW_DAYS) score += 15;
+
+        const reference = normalizeText(transfer.transfer_reference);
+        if (reference.length >= 4 && text.includes(reference)) score += 25;
+        if (mentionsApartment(text, transfer.apartment_number) || mentionsName(text, transfer.resident_name)) score += 10;
+
+        candidates.push({
+            type: 'transfer',
+            score: Math.min(score, 100),
+            paymentId: transfer.id,
+            userId: transfer.user_id,
+            feeIds: (transfer.requested_fee_ids || []).map(Number),
+        });
+    }
+
+    for (const debtor of debtors) {
+        // Amount alone can't tell two apartments billed the same fee apart
+        const byApartment = mentionsApartment(text, debtor.apartmentNumber);
+        const byName = mentionsName(text, debtor.residentName);
+        if (!byApartment && !byName) continue;
+
+        let score = (byApartment ? 40 : 0) + (byName ? 20 : 0);
+
+        // The fees the amount pays exactly: oldest first, or a single fee
+        const feeIds: number[] = [];
+        let covered = 0;
+        for (const fee of debtor.fees) {
+            if (covered >= line.amount - EPSILON) break;
+            feeIds.push(Number(fee.id));
+            covered += Number(fee.balance_due);
+        }
+        const exactFee = debtor.fees.find((fee) => Math.abs(Number(fee.balance_due) - line.amount) <= EPSILON);
+
+        if (Math.abs(covered - line.amount) <= EPSILON) {
+            score += 40;
+        } else if (exactFee) {
+            score += 30;
+            feeIds.splice(0, feeIds.length, Number(exactFee.id));
+        }
+
+        candidates.push({
+            type: 'fees',
+            score: Math.min(score, 100),
+            userId: debtor.userId,
+            feeIds,
+        });
+    }
+
+    const best = candidates.sort((a, b) => b.score - a.score)[0];
+    return best && best.score >= MATCH_THRESHOLD ? best : null;
+}
+
+/**
+ * Find a recorded bank expense a debit pays for (same amount, close date)
+ */
+export function matchDebit(line: StatementTransaction, expenses: any[]): StatementLineMatch | null {
+    const candidates = expenses
+        .filter((expense) => Math.abs(Number(expense.amount) - line.amount) <= EPSILON)
+        .map((expense) => {
+            const days = daysBetween(line.bookingDate, expense.expense_date);
+            const score = 60 + (days <= 3 ? 30 : days <= DATE_WINDOW_DAYS ? 15 : 0);
+            return { type: 'expense' as const, score, expenseId: Number(expense.id) };
+        })
+        .sort((a, b) => b.score - a.score);
+
+    return candidates[0] || null;
+}
+
+/**
+ * Key identifying a transaction across overlapping statements. `occurrence` tells
+ * apart identical transactions booked the same day.
+ */
+function getFingerprint(line: StatementTransaction, occurrence: number): string {
+    return [
+        line.bookingDate,
+        line.direction,
+        line.amount.toFixed(2),
+        normalizeText(line.reference || line.description),
+        occurrence,
+    ].join('|');
+}
+
+/**
+ * Residents with open fees, grouped by apartment, with their balances
+ */
+async function listDebtors(supabase: any, residenceId: number) {
+    const { data: fees, error } = await supabase
+        .from('fees')
+        .select('id, user_id, apartment_number, title, amount, amount_paid, balance_due, due_date')
+        .eq('residence_id', residenceId)
+        .in('status', OUTSTANDING_FEE_STATUSES)
+        .order('due_date', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch open fees');
+    }
+
+    const userIds = Array.from(new Set((fees || []).map((fee: any) => fee.user_id).filter(Boolean)));
+    const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name').in('id', userIds)
+        : { data: [] };
+
+    const debtors = new Map<string, { userId: string; apartmentNumber: string | null; residentName: string | null; fees: any[] }>();
+    (fees || []).forEach((fee: any) => {
+        if (!fee.user_id) return;
+        const key = `${fee.user_id}|${fee.apartment_number || ''}`;
+        if (!debtors.has(key)) {
+            debtors.set(key, {
+                userId: fee.user_id,
+                apartmentNumber: fee.apartment_number || null,
+                residentName: (profiles || []).find((p: any) => p.id === fee.user_id)?.full_name || null,
+                fees: [],
+            });
+        }
+        const balance = fee.balance_due ?? Number(fee.amount) - Number(fee.amount_paid || 0);
+        if (Number(balance) > EPSILON) {
+            debtors.get(key)!.fees.push({ ...fee, balance_due: round(Number(balance)) });
+        }
+    });
+
+    return Array.from(debtors.values()).filter((debtor) => debtor.fees.length > 0);
+}
+
+/**
+ * Parse an uploaded statement, store its new lines and match them. Debits that match
+ * no recorded expense become draft expenses. Lines already imported from an earlier,
+ * overlapping statement are skipped.
+ */
+export async function importBankStatement(
+    supabase: any,
+    params: { residenceId: number; userId: string; file: File; format?: StatementFormat | null }
+): Promise<{ success: boolean; statement?: any; imported?: number; skipped?: number; suggested?: number; error?: string }> {
+    const { residenceId, userId, file } = params;
+
+    if (!file || file.size === 0) {
+        return { success: false, error: 'Please choose a statement file' };
+    }
+    if (file.size > MAX_STATEMENT_SIZE) {
+        return { success: false, error: 'File size too large. Maximum size is 5MB.' };
+    }
+
+    const { statement: parsed, error: parseError } = parseStatement(file.name, await file.text(), params.format);
+    if (!parsed) {
+        return { success: false, error: parseError || 'Could not read the statement' };
+    }
+
+    // Fingerprints, numbered when the same transaction appears twice
+    const seen = new Map<string, number>();
+    const transactions = parsed.transactions.map((transaction) => {
+        const base = getFingerprint(transaction, 0);
+        const occurrence = seen.get(base) || 0;
+        seen.set(base, occurrence + 1);
+        return { transaction, fingerprint: getFingerprint(transaction, occurrence) };
+    });
+
+    const { data: existing, error: existingError } = await supabase
+        .from('bank_statement_lines')
+        .select('fingerprint')
+        .eq('residence_id', residenceId)
+        .in('fingerprint', transactions.map((t) => t.fingerprint));
+
+    if (existingError) {
+        console.error('[Bank Statement Utils] Error reading imported lines:', existingError);
+        return { success: false, error: existingError.message || 'Failed to import statement' };
+    }
+
+    const imported = new Set((existing || []).map((line: any) => line.fingerprint));
+    const fresh = transactions.filter((t) => !imported.has(t.fingerprint));
+    const dates = parsed.transactions.map((t) => t.bookingDate).sort();
+
+    const { data: statement, error: statementError } = await supabase
+        .from('bank_statements')
+        .insert({
+            residence_id: residenceId,
+            filename: file.name,
+            format: parsed.format,
+            account_number: parsed.accountNumber,
+            period_start: dates[0],
+            period_end: dates[dates.length - 1],
+            line_count: fresh.length,
+            uploaded_by: userId,
+        })
+        .select()
+        .single();
+
+    if (statementError) {
+        console.error('[Bank Statement Utils] Error recording statement:', statementError);
+        return { success: false, error: statementError.message || 'Failed to import statement' };
+    }
+
+    if (fresh.length === 0) {
+        return { success: true, statement, imported: 0, skipped: transactions.length, suggested: 0 };
+    }
+
+    // Candidates: pending transfers and debtors for credits, unlinked bank expenses for debits
+    const [transfers, debtors, { data: claimedLines }, { data: expenses }] = await Promise.all([
+        listPendingTransfers(supabase, residenceId),
+        listDebtors(supabase, residenceId),
+        supabase
+            .from('bank_statement_lines')
+            .select('matched_payment_id, expense_id')
+            .eq('residence_id', residenceId)
+            .in('match_status', ['suggested', 'confirmed']),
+        supabase
+            .from('expenses')
+            .select('id, amount, expense_date, description')
+            .eq('residence_id', residenceId)
+            .eq('funding_source', 'bank')
+            .eq('status', 'recorded')
+            .gte('expense_date', shiftDate(dates[0], -DATE_WINDOW_DAYS))
+            .lte('expense_date', shiftDate(dates[dates.length - 1], DATE_WINDOW_DAYS)),
+    ]);
+
+    // A transfer or an expense is matched by one line at most
+    const claimedPayments = new Set((claimedLines || []).map((line: any) => line.matched_payment_id).filter(Boolean).map(Number));
+    const claimedExpenses = new Set((claimedLines || []).map((line: any) => line.expense_id).filter(Boolean).map(Number));
+
+    let suggested = 0;
+    const rows: any[] = [];
+    for (const { transaction, fingerprint } of fresh) {
+        let match: StatementLineMatch | null;
+        if (transaction.direction === 'credit') {
+            match = matchCredit(
+                transaction,
+                transfers.filter((transfer: any) => !claimedPayments.has(Number(transfer.id))),
+                debtors
+            );
+            if (match?.paymentId) claimedPayments.add(match.paymentId);
+        } else {
+            match = matchDebit(transaction, (expenses || []).filter((expense: any) => !claimedExpenses.has(Number(expense.id))));
+            if (match?.expenseId) claimedExpenses.add(match.expenseId);
+        }
+
+        let expenseId = match?.expenseId ?? null;
+        if (transaction.direction === 'debit' && !match) {
+            const draft = await createDraftExpense(supabase, residenceId, userId, transaction);
+            expenseId = draft?.id ?? null;
+        }
+
+        if (match) suggested++;
+        rows.push({
+            statement_id: statement.id,
+            residence_id: residenceId,
+            booking_date: transaction.bookingDate,
+            amount: transaction.amount,
+            direction: transaction.direction,
+            description: transaction.description,
+            reference: transaction.reference,
+            counterparty: transaction.counterparty,
+            fingerprint,
+            match_status: match || expenseId ? 'suggested' : 'unmatched',
+            match_type: match?.type ?? (expenseId ? 'expense' : null),
+            match_score: match?.score ?? null,
+            matched_payment_id: match?.paymentId ?? null,
+            matched_user_id: match?.userId ?? null,
+            matched_fee_ids: match?.feeIds ?? null,
+            expense_id: expenseId,
+        });
+    }
+
+    const { error: linesError } = await supabase.from('bank_statement_lines').insert(rows);
+    if (linesError) {
+        console.error('[Bank Statement Utils] Error recording statement lines:', linesError);
+        await supabase.from('bank_statements').delete().eq('id', statement.id);
+        return { success: false, error: linesError.message || 'Failed to import statement' };
+    }
+
+    console.log('[Bank Statement Utils] Statement imported:', statement.id, 'lines:', rows.length, 'suggested:', suggested);
+
+    return {
+        success: true,
+        statement,
+        imported: rows.length,
+        skipped: transactions.length - rows.length,
+        suggested,
+    };
+}
+
+/**
+ * Draft expense for a debit nothing matched; it stays out of the ledger until confirmed
+ */
+async function createDraftExpense(supabase: any, residenceId: number, userId: string, line: StatementTransaction) {
+    const { data, error } = await supabase
+        .from('expenses')
+        .insert({
+            residence_id: residenceId,
+            description: line.description || line.counterparty || 'Bank debit',
+            category: 'Other',
+            amount: line.amount,
+            expense_date: line.bookingDate,
+            funding_source: 'bank',
+            status: 'draft',
+            created_by: userId,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('[Bank Statement Utils] Error creating draft expense:', error);
+        return null;
+    }
+    return data;
+}
+
+/**
+ * Statements of a residence, latest first, with how many lines still need review
+ */
+export async function listBankStatements(supabase: any, residenceId: number, limit = 24) {
+    const { data, error } = await supabase
+        .from('bank_statements')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch bank statements');
+    }
+
+    const statements = data || [];
+    const { data: open } = statements.length > 0
+        ? await supabase
+            .from('bank_statement_lines')
+            .select('statement_id')
+            .in('statement_id', statements.map((s: any) => s.id))
+            .in('match_status', ['unmatched', 'suggested'])
+        : { data: [] };
+
+    return statements.map((statement: any) => ({
+        ...statement,
+        to_review: (open || []).filter((line: any) => line.statement_id === statement.id).length,
+    }));
+}
+
+/**
+ * Lines of a statement (or every line still to review when no statement is given),
+ * with what they are matched to
+ */
+export async function listStatementLines(
+    supabase: any,
+    residenceId: number,
+    filters: { statementId?: number | null; status?: StatementLineStatus | null } = {}
+) {
+    let query = supabase
+        .from('bank_statement_lines')
+        .select(`
+            *,
+            payments:matched_payment_id (
+                id,
+                amount,
+                status,
+                paid_at,
+                transfer_reference,
+                apartment_number
+            ),
+            profiles:matched_user_id (
+                id,
+                full_name
+            ),
+            expenses:expense_id (
+                id,
+                description,
+                category,
+                amount,
+                status
+            )
+        `)
+        .eq('residence_id', residenceId)
+        .order('booking_date', { ascending: true })
+        .order('id', { ascending: true });
+
+    if (filters.statementId) {
+        query = query.eq('statement_id', filters.statementId);
+    }
+    if (filters.status) {
+        query = query.eq('match_status', filters.status);
+    } else if (!filters.statementId) {
+        query = query.in('match_status', ['unmatched', 'suggested']);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch statement lines');
+    }
+
+    const lines = data || [];
+    const feeIds = Array.from(new Set(lines.flatMap((line: any) => (line.matched_fee_ids || []).map(Number))));
+    const { data: fees } = feeIds.length > 0
+        ? await supabase.from('fees').select('id, title, apartment_number, balance_due').in('id', feeIds)
+        : { data: [] };
+
+    return lines.map((line: any) => ({
+        ...line,
+        amount: Number(line.amount),
+        resident_name: line.profiles?.full_name || null,
+        payment: line.payments || null,
+        expense: line.expenses || null,
+        fees: (fees || []).filter((fee: any) => (line.matched_fee_ids || []).map(Number).includes(Number(fee.id))),
+    }));
+}
+
+/**
+ * Claim an open line for review, so it can't be confirmed twice
+ */
+async function claimLine(supabase: any, residenceId: number, lineId: number, reviewerId: string, status: StatementLineStatus) {
+    const { data, error } = await supabase
+        .from('bank_statement_lines')
+        .update({ match_status: status, reviewed_by: reviewerId, reviewed_at: new Date().toISOString() })
+        .eq('id', lineId)
+        .eq('residence_id', residenceId)
+        .in('match_status', ['unmatched', 'suggested'])
+        .select()
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Bank Statement Utils] Error updating line:', error);
+        return { line: null, error: error.message || 'Failed to update statement line' };
+    }
+    if (!data) {
+        return { line: null, error: 'Statement line not found or already reviewed' };
+    }
+    return { line: data, error: null };
+}
+
+/**
+ * Put a claimed line back in review after its confirmation failed
+ */
+async function releaseLine(supabase: any, line: any) {
+    await supabase
+        .from('bank_statement_lines')
+        .update({ match_status: line.matched_payment_id || line.matched_user_id || line.expense_id ? 'suggested' : 'unmatched', reviewed_by: null, reviewed_at: null })
+        .eq('id', line.id);
+}
+
+/**
+ * Record a draft expense: it becomes a regular expense and is posted to the ledger.
+ * `changes` lets the syndic fix the category or description on the way.
+ */
+export async function recordDraftExpense(
+    supabase: any,
+    expense: any,
+    userId: string,
+    changes: { category?: string | null; description?: string | null } = {}
+): Promise<{ success: boolean; expense?: any; error?: string }> {
+    const lockedError = await checkPeriodOpen(supabase, expense.residence_id, [expense.expense_date]);
+    if (lockedError) {
+        return { success: false, error: lockedError };
+    }
+
+    const { data: recorded, error } = await supabase
+        .from('expenses')
+        .update({
+            status: 'recorded',
+            ...(changes.category?.trim() ? { category: changes.category.trim() } : {}),
+            ...(changes.description?.trim() ? { description: changes.description.trim() } : {}),
+        })
+        .eq('id', expense.id)
+        .eq('status', 'draft')
+        .select()
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Bank Statement Utils] Error recording draft expense:', error);
+        return { success: false, error: error.message || 'Failed to record expense' };
+    }
+    if (!recorded) {
+        return { success: false, error: 'Expense not found or already recorded' };
+    }
+
+    const ledgerResult = await postExpenseEntry(supabase, recorded, userId);
+    if (!ledgerResult.success) {
+        console.error('[Bank Statement Utils] Error posting expense to ledger:', ledgerResult.error);
+    }
+
+    // The statement line that created the draft is reviewed with it
+    await supabase
+        .from('bank_statement_lines')
+        .update({ match_status: 'confirmed', reviewed_by: userId, reviewed_at: new Date().toISOString() })
+        .eq('expense_id', recorded.id)
+        .in('match_status', ['unmatched', 'suggested']);
+
+    return { success: true, expense: recorded };
+}
+
+/**
+ * Record a credit as a verified bank transfer paying `feeIds` of a resident
+ */
+async function recordCreditForFees(supabase: any, line: any, userId: string, feeIds: number[], reviewerId: string) {
+    const outstanding = await listOutstandingFees(supabase, line.residence_id, userId);
+    const { fees, error: selectionError } = selectFeesToPay(outstanding, feeIds);
+    if (selectionError) {
+        return { payment: null, error: selectionError };
+    }
+
+    const apartmentNumber = fees[0].apartment_number || null;
+    let profileResidenceQuery = supabase
+        .from('profile_residences')
+        .select('id, apartment_number')
+        .eq('profile_id', userId)
+        .eq('residence_id', line.residence_id);
+    if (apartmentNumber) {
+        profileResidenceQuery = profileResidenceQuery.eq('apartment_number', apartmentNumber);
+    }
+    const { data: profileResidences } = await profileResidenceQuery.limit(1);
+
+    const now = new Date().toISOString();
+    const { data: payment, error } = await supabase
+        .from('payments')
+        .insert({
+            residence_id: line.residence_id,
+            user_id: userId,
+            apartment_number: apartmentNumber || profileResidences?.[0]?.apartment_number || null,
+            profile_residence_id: profileResidences?.[0]?.id || null,
+            fee_id: fees.length === 1 ? fees[0].id : null,
+            requested_fee_ids: fees.map((fee: any) => fee.id),
+            amount: Number(line.amount),
+            method: 'bank_transfer',
+            status: 'verified',
+            verified_by: reviewerId,
+            transfer_reference: line.reference,
+            paid_at: new Date(line.booking_date).toISOString(),
+            submitted_at: now,
+            reviewed_at: now,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('[Bank Statement Utils] Error recording payment:', error);
+        return { payment: null, error: error.message || 'Failed to record payment' };
+    }
+
+    const ledgerResult = await postPaymentEntry(supabase, payment, reviewerId);
+    if (!ledgerResult.success) {
+        console.error('[Bank Statement Utils] Error posting payment to ledger:', ledgerResult.error);
+    }
+
+    const settlement = await settlePaymentForFees(supabase, payment, fees.map((fee: any) => Number(fee.id)), reviewerId);
+    if (!settlement.success) {
+        console.error('[Bank Statement Utils] Error allocating payment:', settlement.error);
+    }
+
+    await notifyUsers(supabase, {
+        userIds: [userId],
+        category: 'fees',
+        type: 'success',
+        title: 'Bank transfer received',
+        message: `Your transfer of ${Number(payment.amount).toFixed(2)} MAD was received on the residence account.`,
+        residenceId: line.residence_id,
+        actionData: {
+            payment_id: payment.id,
+            type: 'payment',
+        },
+    });
+
+    return { payment, error: null };
+}
+
+/**
+ * Confirm a line, with its suggested match or the syndic's correction:
+ * - a credit approves the matched pending transfer, or records a verified bank
+ *   transfer settling the chosen fees;
+ * - a debit records its draft expense (or confirms the link to a recorded one).
+ */
+export async function confirmStatementLine(
+    supabase: any,
+    residenceId: number,
+    lineId: number,
+    reviewerId: string,
+    correction: StatementLineCorrection = {}
+): Promise<{ success: boolean; line?: any; error?: string }> {
+    const { data: current } = await supabase
+        .from('bank_statement_lines')
+        .select('*')
+        .eq('id', lineId)
+        .eq('residence_id', residenceId)
+        .maybeSingle();
+
+    if (!current) {
+        return { success: false, error: 'Statement line not found' };
+    }
+
+    // Work out the match before claiming the line
+    const changes: Record<string, any> = {};
+    if (current.direction === 'credit') {
+        if (correction.paymentId) {
+            Object.assign(changes, { match_type: 'transfer', matched_payment_id: correction.paymentId, matched_user_id: null, matched_fee_ids: null });
+        } else if (correction.userId) {
+            if (!correction.feeIds || correction.feeIds.length === 0) {
+                return { success: false, error: 'Select the fees this credit pays' };
+            }
+            Object.assign(changes, { match_type: 'fees', matched_payment_id: null, matched_user_id: correction.userId, matched_fee_ids: correction.feeIds });
+        }
+        const matchType = changes.match_type ?? current.match_type;
+        if (matchType !== 'transfer' && matchType !== 'fees') {
+            return { success: false, error: 'Choose the transfer or the fees this credit pays' };
+        }
+    }
+
+    const { line, error: claimError } = await claimLine(supabase, residenceId, lineId, reviewerId, 'confirmed');
+    if (!line) {
+        return { success: false, error: claimError || 'Failed to confirm statement line' };
+    }
+    const match = { ...line, ...changes };
+
+    let error: string | null = null;
+    if (match.direction === 'credit' && match.match_type === 'transfer') {
+        const { data: transfer } = await supabase
+            .from('payments')
+            .select('id, amount')
+            .eq('id', match.matched_payment_id)
+            .eq('residence_id', residenceId)
+            .maybeSingle();
+
+        if (!transfer) {
+            error = 'Transfer not found';
+        } else if (Math.abs(Number(transfer.amount) - Number(match.amount)) > EPSILON) {
+            error = `The transfer amount (${Number(transfer.amount).toFixed(2)} MAD) does not match the statement line (${Number(match.amount).toFixed(2)} MAD)`;
+        } else {
+            const result = await approveBankTransfer(supabase, residenceId, transfer.id, reviewerId);
+            if (!result.success) error = result.error || 'Failed to approve transfer';
+        }
+    } else if (match.direction === 'credit') {
+        const result = await recordCreditForFees(supabase, match, match.matched_user_id, (match.matched_fee_ids || []).map(Number), reviewerId);
+        if (result.payment) {
+            changes.matched_payment_id = result.payment.id;
+        } else {
+            error = result.error;
+        }
+    } else {
+        const { data: expense } = match.expense_id
+            ? await supabase.from('expenses').select('*').eq('id', match.expense_id).maybeSingle()
+            : { data: null };
+
+        if (!expense) {
+            // The draft was deleted from the expenses page: record the debit afresh
+            const draft = await createDraftExpense(supabase, residenceId, reviewerId, {
+                bookingDate: match.booking_date,
+                amount: Number(match.amount),
+                direction: 'debit',
+                description: match.description,
+                reference: match.reference,
+                counterparty: match.counterparty,
+            });
+            if (draft) {
+                changes.match_type = 'expense';
+                changes.expense_id = draft.id;
+                const result = await recordDraftExpense(supabase, draft, reviewerId, correction);
+                if (!result.success) error = result.error || 'Failed to record expense';
+            } else {
+                error = 'Failed to record expense';
+            }
+        } else if (expense.status === 'draft') {
+            const result = await recordDraftExpense(supabase, expense, reviewerId, correction);
+            if (!result.success) error = result.error || 'Failed to record expense';
+        }
+    }
+
+    if (error) {
+        await releaseLine(supabase, line);
+        if (changes.expense_id && changes.expense_id !== line.expense_id) {
+            await supabase.from('expenses').delete().eq('id', changes.expense_id).eq('status', 'draft');
+        }
+        return { success: false, error };
+    }
+
+    const { data: confirmed } = Object.keys(changes).length > 0
+        ? await supabase.from('bank_statement_lines').update(changes).eq('id', line.id).select().single()
+        : { data: line };
+
+    console.log('[Bank Statement Utils] Statement line confirmed:', line.id);
+    return { success: true, line: confirmed };
+}
+
+/**
+ * Ignore a line (internal transfer, bank correction...). The draft expense created for
+ * a debit is deleted with it.
+ */
+export async function ignoreStatementLine(
+    supabase: any,
+    residenceId: number,
+    lineId: number,
+    reviewerId: string
+): Promise<{ success: boolean; line?: any; error?: string }> {
+    const { line, error } = await claimLine(supabase, residenceId, lineId, reviewerId, 'ignored');
+    if (!line) {
+        return { success: false, error: error || 'Failed to ignore statement line' };
+    }
+
+    if (line.expense_id) {
+        const { data: deleted } = await supabase
+            .from('expenses')
+            .delete()
+            .eq('id', line.expense_id)
+            .eq('status', 'draft')
+            .select('id');
+
+        if (deleted && deleted.length > 0) {
+            await supabase.from('bank_statement_lines').update({ expense_id: null }).eq('id', line.id);
+        }
+    }
+
+    console.log('[Bank Statement Utils] Statement line ignored:', line.id);
+    return { success: true, line };
+}
@@ -0,0 +1,404 @@
+import { listOutstandingFees, selectFeesToPay, settlePaymentForFees } from '@/lib/allocation-utils';
+import { postPaymentEntry } from '@/lib/ledger-utils';
+import { notifyUsers } from '@/lib/notification-utils';
+
+/**
+ * Bank Transfer Utilities
+ * Residents declare bank transfers with a proof against one or more fees; the syndic
+ * approves them from a verification queue (fees are settled then) or rejects them
+ * with a reason. Declarations are `pending` payments until reviewed. Proofs live in
+ * the private `payment-proofs` bucket (`payments.proof_url` holds the object path) and
+ * are only handed out as short-lived signed URLs.
+ */
+
+export const PROOF_FILE_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/jpg'];
+
+export const MAX_PROOF_SIZE = 10 * 1024 * 1024; // 10MB
+
+export const PROOF_BUCKET = 'payment-proofs';
+
+// Signed proof URLs are only valid for an hour
+const SIGNED_URL_TTL = 60 * 60;
+
+export interface TransferDeclarationInput {
+    residenceId: number;
+    userId: string;
+    amount: number;
+    feeIds: number[];
+    proof: File; // transfer receipt, PDF or image
+    reference?: string | null;
+    transferDate?: string | null; // YYYY-MM-DD, defaults to today
+}
+
+// Amounts below half a centime are rounding noise
+const EPSILON = 0.005;
+
+/**
+ * Check a transfer proof before it is uploaded. Returns an error message or null.
+ */
+export function validateProofFile(file: File | null | undefined): string | null {
+    if (!file || file.size === 0) {
+        return 'A proof of transfer is required';
+    }
+    if (!PROOF_FILE_TYPES.includes(file.type)) {
+        return 'Invalid file type. Please upload a PDF or image file.';
+    }
+    if (file.size > MAX_PROOF_SIZE) {
+        return 'File size too large. Maximum size is 10MB.';
+    }
+    return null;
+}
+
+/**
+ * Store a transfer proof in the private bucket and return its object path
+ */
+async function uploadTransferProof(
+    supabase: any,
+    residenceId: number,
+    userId: string,
+    file: File
+): Promise<{ path?: string; error?: string }> {
+    const fileExt = file.name.split('.').pop();
+    const filePath = `${residenceId}/${userId}/transfer-${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+    const { error } = await supabase.storage
+        .from(PROOF_BUCKET)
+        .upload(filePath, await file.arrayBuffer(), {
+            contentType: file.type,
+            upsert: false,
+        });
+
+    if (error) {
+        console.error('[Bank Transfer Utils] Storage error:', error);
+        return { error: 'Failed to upload file. Please try again.' };
+    }
+
+    return { path: filePath };
+}
+
+/**
+ * Replace the proof paths of transfers with signed URLs. Declarations made before
+ * proofs moved to the private bucket still hold a full URL and are left as they are.
+ */
+export async function signTransferProofs<T extends { proof_url?: string | null }>(supabase: any, payments: T[]): Promise<T[]> {
+    const isPath = (value?: string | null): value is string => !!value && !/^https?:\/\//.test(value);
+    const paths = Array.from(new Set(payments.map((payment) => payment.proof_url).filter(isPath)));
+    if (paths.length === 0) return payments;
+
+    const { data: signed, error } = await supabase.storage
+        .from(PROOF_BUCKET)
+        .createSignedUrls(paths, SIGNED_URL_TTL);
+
+    if (error) {
+        console.error('[Bank Transfer Utils] Error signing proof URLs:', error);
+    }
+
+    const urls = new Map<string, string>();
+    for (const entry of signed || []) {
+        if (entry.path && entry.signedUrl) {
+            urls.set(entry.path, entry.signedUrl);
+        }
+    }
+
+    return payments.map((payment) =>
+        isPath(payment.proof_url) ? { ...payment, proof_url: urls.get(payment.proof_url) || null } : payment
+    );
+}
+
+/**
+ * Record a resident's bank transfer as a pending payment, with its proof, and tell the
+ * syndic. Fees are only settled once the syndic approves it.
+ */
+export async function declareBankTransfer(
+    supabase: any,
+    input: TransferDeclarationInput
+): Promise<{ success: boolean; payment?: any; error?: string }> {
+    const amount = Math.round(Number(input.amount) * 100) / 100;
+    if (!Number.isFinite(amount) || amount <= 0) {
+        return { success: false, error: 'Amount must be greater than 0' };
+    }
+    if (!input.feeIds || input.feeIds.length === 0) {
+        return { success: false, error: 'Select the fees this transfer pays' };
+    }
+    if (input.transferDate && input.transferDate > new Date().toISOString().split('T')[0]) {
+        return { success: false, error: 'The transfer date cannot be in the future' };
+    }
+
+    const outstanding = await listOutstandingFees(supabase, input.residenceId, input.userId);
+    const { fees, error: selectionError } = selectFeesToPay(outstanding, input.feeIds);
+    if (selectionError) {
+        return { success: false, error: selectionError };
+    }
+
+    // Fees with a transfer already waiting for review can't be declared twice
+    const { data: pending } = await supabase
+        .from('payments')
+        .select('id, requested_fee_ids')
+        .eq('residence_id', input.residenceId)
+        .eq('user_id', input.userId)
+        .eq('status', 'pending');
+
+    const alreadyDeclared = fees.find((fee: any) =>
+        (pending || []).some((p: any) => (p.requested_fee_ids || []).map(Number).includes(Number(fee.id)))
+    );
+    if (alreadyDeclared) {
+        return { success: false, error: `A transfer for "${alreadyDeclared.title}" is already waiting for verification` };
+    }
+
+    const fileError = validateProofFile(input.proof);
+    if (fileError) {
+        return { success: false, error: fileError };
+    }
+
+    const upload = await uploadTransferProof(supabase, input.residenceId, input.userId, input.proof);
+    if (!upload.path) {
+        return { success: false, error: upload.error };
+    }
+
+    const apartmentNumber = fees[0].apartment_number || null;
+    let profileResidenceQuery = supabase
+        .from('profile_residences')
+        .select('id, apartment_number')
+        .eq('profile_id', input.userId)
+        .eq('residence_id', input.residenceId);
+    if (apartmentNumber) {
+        profileResidenceQuery = profileResidenceQuery.eq('apartment_number', apartmentNumber);
+    }
+    const { data: profileResidences } = await profileResidenceQuery.limit(1);
+
+    const { data: payment, error } = await supabase
+        .from('payments')
+        .insert({
+            residence_id: input.residenceId,
+            user_id: input.userId,
+            apartment_number: apartmentNumber || profileResidences?.[0]?.apartment_number || null,
+            profile_residence_id: profileResidences?.[0]?.id || null,
+            fee_id: fees.length === 1 ? fees[0].id : null,
+            requested_fee_ids: fees.map((fee: any) => fee.id),
+            amount,
+            method: 'bank_transfer',
+            status: 'pending',
+            proof_url: upload.path,
+            transfer_reference: input.reference?.trim() || null,
+            paid_at: input.transferDate ? new Date(input.transferDate).toISOString() : new Date().toISOString(),
+            submitted_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('[Bank Transfer Utils] Error recording transfer:', error);
+        await supabase.storage.from(PROOF_BUCKET).remove([upload.path]);
+        return { success: false, error: error.message || 'Failed to declare transfer' };
+    }
+
+    console.log('[Bank Transfer Utils] Transfer declared:', payment.id);
+
+    const [{ data: residence }, { data: profile }] = await Promise.all([
+        supabase.from('residences').select('syndic_user_id').eq('id', input.residenceId).maybeSingle(),
+        supabase.from('profiles').select('full_name').eq('id', input.userId).maybeSingle(),
+    ]);
+
+    await notifyUsers(supabase, {
+        userIds: [residence?.syndic_user_id],
+        category: 'fees',
+        type: 'info',
+        title: 'Bank transfer to verify',
+        message: `${profile?.full_name || 'A resident'}${payment.apartment_number ? ` (Apt. ${payment.apartment_number})` : ''} declared a transfer of ${amount.toFixed(2)} MAD.`,
+        residenceId: input.residenceId,
+        actionData: {
+            payment_id: payment.id,
+            type: 'payment',
+        },
+    });
+
+    const [signedPayment] = await signTransferProofs(supabase, [payment]);
+    return { success: true, payment: signedPayment };
+}
+
+/**
+ * Pending declarations of a residence, oldest first, with the resident and the fees they cover
+ */
+export async function listPendingTransfers(supabase: any, residenceId: number) {
+    const { data, error } = await supabase
+        .from('payments')
+        .select(`
+            *,
+            profiles:user_id (
+                id,
+                full_name
+            )
+        `)
+        .eq('residence_id', residenceId)
+        .eq('method', 'bank_transfer')
+        .eq('status', 'pending')
+        .order('submitted_at', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch pending transfers');
+    }
+
+    const payments = data || [];
+    const feeIds = Array.from(new Set(payments.flatMap((p: any) => (p.requested_fee_ids || []).map(Number))));
+
+    const { data: fees } = feeIds.length > 0
+        ? await supabase.from('fees').select('id, title, amount, amount_paid, status, due_date').in('id', feeIds)
+        : { data: [] };
+
+    const signed = await signTransferProofs(supabase, payments);
+
+    return signed.map((payment: any) => {
+        const requested = (fees || []).filter((fee: any) =>
+            (payment.requested_fee_ids || []).map(Number).includes(Number(fee.id))
+        );
+        const balanceDue = requested.reduce(
+            (sum: number, fee: any) => sum + Math.max(0, Number(fee.amount) - Number(fee.amount_paid || 0)),
+            0
+        );
+
+        return {
+            ...payment,
+            amount: Number(payment.amount),
+            resident_name: payment.profiles?.full_name || 'Unknown',
+            fees: requested,
+            balance_due: Math.round(balanceDue * 100) / 100,
+        };
+    });
+}
+
+/**
+ * A resident's own bank transfer declarations, latest first
+ */
+export async function listResidentTransfers(supabase: any, residenceId: number, userId: string, limit = 20) {
+    const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .eq('user_id', userId)
+        .eq('method', 'bank_transfer')
+        .order('submitted_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch transfers');
+    }
+
+    const signed = await signTransferProofs(supabase, data || []);
+    return signed.map((payment: any) => ({ ...payment, amount: Number(payment.amount) }));
+}
+
+/**
+ * Claim a pending declaration for review, so two syndics can't review it at once
+ */
+async function markReviewed(supabase: any, residenceId: number, paymentId: number, changes: Record<string, any>) {
+    const { data, error } = await supabase
+        .from('payments')
+        .update({ ...changes, reviewed_at: new Date().toISOString() })
+        .eq('id', paymentId)
+        .eq('residence_id', residenceId)
+        .eq('method', 'bank_transfer')
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Bank Transfer Utils] Error updating transfer:', error);
+        return { payment: null, error: error.message || 'Failed to update transfer' };
+    }
+    if (!data) {
+        return { payment: null, error: 'Transfer not found or already reviewed' };
+    }
+
+    return { payment: data, error: null };
+}
+
+/**
+ * Approve a declared transfer: it becomes a verified payment, is posted to the bank
+ * account and settles the fees it was declared for (any surplus becomes credit)
+ */
+export async function approveBankTransfer(
+    supabase: any,
+    residenceId: number,
+    paymentId: number,
+    reviewerId: string
+): Promise<{ success: boolean; payment?: any; error?: string }> {
+    const { payment, error } = await markReviewed(supabase, residenceId, paymentId, {
+        status: 'verified',
+        verified_by: reviewerId,
+        rejection_reason: null,
+    });
+    if (!payment) {
+        return { success: false, error: error || 'Failed to approve transfer' };
+    }
+
+    const ledgerResult = await postPaymentEntry(supabase, payment, reviewerId);
+    if (!ledgerResult.success) {
+        console.error('[Bank Transfer Utils] Error posting payment to ledger:', ledgerResult.error);
+    }
+
+    const settlement = await settlePaymentForFees(supabase, payment, (payment.requested_fee_ids || []).map(Number), reviewerId);
+    if (!settlement.success) {
+        console.error('[Bank Transfer Utils] Error allocating payment:', settlement.error);
+    }
+
+    const settled = settlement.plan.reduce((sum, item) => sum + item.amount, 0);
+    console.log('[Bank Transfer Utils] Transfer approved:', payment.id, 'settled:', settled);
+
+    await notifyUsers(supabase, {
+        userIds: [payment.user_id],
+        category: 'fees',
+        type: 'success',
+        title: 'Bank transfer confirmed',
+        message: `Your transfer of ${Number(payment.amount).toFixed(2)} MAD was verified by your syndic${
+            Number(payment.amount) - settled > EPSILON ? ` (${(Number(payment.amount) - settled).toFixed(2)} MAD kept as credit)` : ''
+        }.`,
+        residenceId,
+        actionData: {
+            payment_id: payment.id,
+            type: 'payment',
+        },
+    });
+
+    return { success: true, payment };
+}
+
+/**
+ * Reject a declared transfer; the resident sees the reason and their fees stay unpaid
+ */
+export async function rejectBankTransfer(
+    supabase: any,
+    residenceId: number,
+    paymentId: number,
+    reviewerId: string,
+    reason: string
+): Promise<{ success: boolean; payment?: any; error?: string }> {
+    if (!reason?.trim()) {
+        return { success: false, error: 'A reason is required to reject a transfer' };
+    }
+
+    const { payment, error } = await markReviewed(supabase, residenceId, paymentId, {
+        status: 'rejected',
+        verified_by: reviewerId,
+        rejection_reason: reason.trim(),
+    });
+    if (!payment) {
+        return { success: false, error: error || 'Failed to reject transfer' };
+    }
+
+    console.log('[Bank Transfer Utils] Transfer rejected:', payment.id);
+
+    await notifyUsers(supabase, {
+        userIds: [payment.user_id],
+        category: 'fees',
+        type: 'warning',
+        title: 'Bank transfer rejected',
+        message: `Your transfer of ${Number(payment.amount).toFixed(2)} MAD was rejected: ${reason.trim()}`,
+        residenceId,
+        actionData: {
+            payment_id: payment.id,
+            type: 'payment',
+        },
+    });
+
+    return { success: true, payment };
+}
@@ -0,0 +1,523 @@
+import { randomBytes } from 'crypto';
+import { can } from '@/lib/permissions';
+import { OUTSTANDING_FEE_STATUSES } from '@/lib/allocation-utils';
+
+/**
+ * Calendar Utilities
+ * The residence calendar merges events created by the syndic with dates that live
+ * elsewhere: fee due dates, incident interventions and poll closing dates.
+ * Used by the calendar page, the mobile calendar routes and the iCalendar feed.
+ */
+
+export const CALENDAR_EVENT_TYPES = ['meeting', 'maintenance', 'other'] as const;
+
+export type CalendarEventType = typeof CALENDAR_EVENT_TYPES[number];
+
+export type CalendarItemKind = 'event' | 'fee' | 'intervention' | 'poll';
+
+export interface CalendarItem {
+    // Unique across kinds, e.g. "event-12" or "fees-3-2025-01-31"
+    id: string;
+    kind: CalendarItemKind;
+    title: string;
+    description: string | null;
+    // YYYY-MM-DD for all-day items, ISO date-time otherwise
+    start: string;
+    // Last day (inclusive) for all-day items, null when the item has no duration
+    end: string | null;
+    allDay: boolean;
+    location: string | null;
+    eventType: CalendarEventType | null;
+    // Id of the event, fee, incident or poll (null for aggregated fee due dates)
+    sourceId: number | null;
+    residenceId: number;
+    link: string | null;
+}
+
+export interface CalendarRange {
+    from: Date;
+    // Exclusive
+    to: Date;
+}
+
+export interface CalendarEventInput {
+    title?: string;
+    description?: string | null;
+    event_type?: CalendarEventType;
+    location?: string | null;
+    starts_at?: string;
+    ends_at?: string | null;
+    all_day?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keeps a single request (and the .ics feed) to a reasonable size
+const MAX_RANGE_DAYS = 370;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * YYYY-MM-DD of a date in UTC
+ */
+function toDateString(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Range from `from`/`to` query values (dates or date-times, `to` inclusive when a date).
+ * Defaults to the current month.
+ */
+export function parseCalendarRange(
+    from?: string | null,
+    to?: string | null
+): { success: boolean; data?: CalendarRange; error?: string } {
+    const now = new Date();
+    const start = from ? parseDate(from) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    if (!start) {
+        return { success: false, error: 'Invalid from date' };
+    }
+
+    let end: Date | null;
+    if (to) {
+        end = parseDate(to);
+        // A date-only `to` includes the whole day
+        if (end && DATE_ONLY.test(to)) end = new Date(end.getTime() + DAY_MS);
+    } else {
+        end = from
+            ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, start.getUTCDate()))
+            : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    }
+
+    if (!end) {
+        return { success: false, error: 'Invalid to date' };
+    }
+
+    if (end <= start) {
+        return { success: false, error: 'The end of the range must be after its start' };
+    }
+
+    if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+        return { success: false, error: `The range cannot exceed ${MAX_RANGE_DAYS} days` };
+    }
+
+    return { success: true, data: { from: start, to: end } };
+}
+
+/**
+ * Validate event input, merged over the existing event when updating
+ */
+function buildEventRow(
+    input: CalendarEventInput,
+    existing?: any
+): { success: boolean; data?: Record<string, any>; error?: string } {
+    const title = (input.title ?? existing?.title ?? '').trim();
+    if (!title) {
+        return { success: false, error: 'Title is required' };
+    }
+    if (title.length > 200) {
+        return { success: false, error: 'Title cannot exceed 200 characters' };
+    }
+
+    const eventType = input.event_type ?? existing?.event_type ?? 'other';
+    if (!CALENDAR_EVENT_TYPES.includes(eventType)) {
+        return { success: false, error: 'Invalid event type' };
+    }
+
+    const allDay = input.all_day ?? existing?.all_day ?? false;
+
+    let startsAt = parseDate(input.starts_at ?? existing?.starts_at);
+    if (!startsAt) {
+        return { success: false, error: 'A valid start date is required' };
+    }
+
+    const endsAtValue = input.ends_at !== undefined ? input.ends_at : existing?.ends_at;
+    let endsAt = endsAtValue ? parseDate(endsAtValue) : null;
+    if (endsAtValue && !endsAt) {
+        return { success: false, error: 'Invalid end date' };
+    }
+
+    // All-day events are stored at midnight UTC of their first and last day
+    if (allDay) {
+        startsAt = parseDate(toDateString(startsAt));
+        endsAt = endsAt ? parseDate(toDateString(endsAt)) : null;
+    }
+
+    if (startsAt && endsAt && endsAt < startsAt) {
+        return { success: false, error: 'The event cannot end before it starts' };
+    }
+
+    return {
+        success: true,
+        data: {
+            title,
+            description: (input.description !== undefined ? input.description : existing?.description)?.trim() || null,
+            event_type: eventType,
+            location: (input.location !== undefined ? input.location : existing?.location)?.trim() || null,
+            starts_at: startsAt!.toISOString(),
+            ends_at: endsAt ? endsAt.toISOString() : null,
+            all_day: allDay === true,
+        },
+    };
+}
+
+/**
+ * Create an event on a residence calendar
+ */
+export async function createCalendarEvent(
+    supabase: any,
+    residenceId: number,
+    userId: string,
+    input: CalendarEventInput
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    const row = buildEventRow(input);
+    if (!row.success) {
+        return row;
+    }
+
+    const { data, error } = await supabase
+        .from('calendar_events')
+        .insert({ ...row.data, residence_id: residenceId, created_by: userId })
+        .select()
+        .single();
+
+    if (error || !data) {
+        return { success: false, error: error?.message || 'Failed to create event' };
+    }
+
+    return { success: true, data };
+}
+
+/**
+ * Update an event; fields left out of `input` keep their value
+ */
+export async function updateCalendarEvent(
+    supabase: any,
+    event: any,
+    input: CalendarEventInput
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    const row = buildEventRow(input, event);
+    if (!row.success) {
+        return row;
+    }
+
+    const { data, error } = await supabase
+        .from('calendar_events')
+        .update({ ...row.data, updated_at: new Date().toISOString() })
+        .eq('id', event.id)
+        .select()
+        .single();
+
+    if (error || !data) {
+        return { success: false, error: error?.message || 'Failed to update event' };
+    }
+
+    return { success: true, data };
+}
+
+export async function deleteCalendarEvent(supabase: any, eventId: number): Promise<{ error?: string }> {
+    const { error } = await supabase.from('calendar_events').delete().eq('id', eventId);
+    return error ? { error: error.message } : {};
+}
+
+function eventToItem(event: any): CalendarItem {
+    const allDay = event.all_day === true;
+    return {
+        id: `event-${event.id}`,
+        kind: 'event',
+        title: event.title,
+        description: event.description || null,
+        start: allDay ? toDateString(new Date(event.starts_at)) : new Date(event.starts_at).toISOString(),
+        end: event.ends_at
+            ? (allDay ? toDateString(new Date(event.ends_at)) : new Date(event.ends_at).toISOString())
+            : null,
+        allDay,
+        location: event.location || null,
+        eventType: event.event_type,
+        sourceId: Number(event.id),
+        residenceId: Number(event.residence_id),
+        link: '/app/calendar',
+    };
+}
+
+/**
+ * Items of a residence calendar within a range, sorted by start.
+ * Residents see their own fees and the interventions on incidents they reported;
+ * roles that see every fee get one item per due date with the totals instead.
+ */
+export async function listCalendarItems(
+    supabase: any,
+    params: { residenceId: number; userId: string; role: string; range: CalendarRange }
+): Promise<CalendarItem[]> {
+    const { residenceId, userId, role, range } = params;
+    const fromIso = range.from.toISOString();
+    const toIso = range.to.toISOString();
+    const fromDate = toDateString(range.from);
+    // Last day touched by the (exclusive) end of the range
+    const toDate = toDateString(new Date(range.to.getTime() - 1));
+
+    const viewAllFees = can(role, 'fees.view_all');
+    // Same rule as the incidents page: residents only see the incidents they reported
+    const viewAllIncidents = role !== 'resident';
+
+    let feesQuery = supabase
+        .from('fees')
+        .select('id, title, amount, amount_paid, due_date, status, apartment_number')
+        .eq('residence_id', residenceId)
+        .gte('due_date', fromDate)
+        .lte('due_date', toDate)
+        .order('due_date', { ascending: true });
+    if (!viewAllFees) feesQuery = feesQuery.eq('user_id', userId);
+
+    let incidentsQuery = supabase
+        .from('incidents')
+        .select('id, title, status, intervention_at')
+        .eq('residence_id', residenceId)
+        .gte('intervention_at', fromIso)
+        .lt('intervention_at', toIso);
+    if (!viewAllIncidents) incidentsQuery = incidentsQuery.eq('user_id', userId);
+
+    const [eventsResult, feesResult, incidentsResult, pollsResult] = await Promise.all([
+        supabase
+            .from('calendar_events')
+            .select('*')
+            .eq('residence_id', residenceId)
+            .lt('starts_at', toIso)
+            .or(`starts_at.gte.${fromIso},ends_at.gte.${fromIso}`),
+        feesQuery,
+        incidentsQuery,
+        supabase
+            .from('polls')
+            .select('id, question, closes_at, is_active')
+            .eq('residence_id', residenceId)
+            .is('closed_at', null)
+            .gte('closes_at', fromIso)
+            .lt('closes_at', toIso),
+    ]);
+
+    for (const result of [eventsResult, feesResult, incidentsResult, pollsResult]) {
+        if (result.error) throw result.error;
+    }
+
+    const items: CalendarItem[] = (eventsResult.data || []).map(eventToItem);
+
+    if (viewAllFees) {
+        const byDueDate = new Map<string, { count: number; total: number; unpaid: number }>();
+        (feesResult.data || []).forEach((fee: any) => {
+            const day = byDueDate.get(fee.due_date) || { count: 0, total: 0, unpaid: 0 };
+            day.count += 1;
+            day.total += Number(fee.amount) || 0;
+            if (OUTSTANDING_FEE_STATUSES.includes(fee.status)) day.unpaid += 1;
+            byDueDate.set(fee.due_date, day);
+        });
+
+        byDueDate.forEach((day, dueDate) => {
+            items.push({
+                id: `fees-${residenceId}-${dueDate}`,
+                kind: 'fee',
+                title: day.count === 1 ? '1 fee due' : `${day.count} fees due`,
+                description: `${day.total.toFixed(2)} MAD in total, ${day.unpaid} still unpaid`,
+                start: dueDate,
+                end: null,
+                allDay: true,
+                location: null,
+                eventType: null,
+                sourceId: null,
+                residenceId,
+                link: '/app/payments',
+            });
+        });
+    } else {
+        (feesResult.data || []).forEach((fee: any) => {
+            const outstanding = OUTSTANDING_FEE_STATUSES.includes(fee.status);
+            const left = Number(fee.amount) - (Number(fee.amount_paid) || 0);
+            items.push({
+                id: `fee-${fee.id}`,
+                kind: 'fee',
+                title: `${fee.title} due`,
+                description: outstanding
+                    ? `${left.toFixed(2)} MAD left to pay${fee.apartment_number ? ` (apartment ${fee.apartment_number})` : ''}`
+                    : `Paid (${Number(fee.amount).toFixed(2)} MAD)`,
+                start: fee.due_date,
+                end: null,
+                allDay: true,
+                location: null,
+                eventType: null,
+                sourceId: Number(fee.id),
+                residenceId,
+                link: '/app/payments',
+            });
+        });
+    }
+
+    (incidentsResult.data || []).forEach((incident: any) => {
+        items.push({
+            id: `intervention-${incident.id}`,
+            kind: 'intervention',
+            title: `Intervention: ${incident.title}`,
+            description: `Incident #${incident.id} (${String(incident.status).replace('_', ' ')})`,
+            start: new Date(incident.intervention_at).toISOString(),
+            end: null,
+            allDay: false,
+            location: null,
+            eventType: null,
+            sourceId: Number(incident.id),
+            residenceId,
+            link: '/app/incidents',
+        });
+    });
+
+    (pollsResult.data || [])
+        .filter((poll: any) => poll.is_active !== false)
+        .forEach((poll: any) => {
+            items.push({
+                id: `poll-${poll.id}`,
+                kind: 'poll',
+                title: `Poll closes: ${poll.question}`,
+                description: 'Last moment to vote',
+                start: new Date(poll.closes_at).toISOString(),
+                end: null,
+                allDay: false,
+                location: null,
+                eventType: null,
+                sourceId: Number(poll.id),
+                residenceId,
+                link: '/app/polls',
+            });
+        });
+
+    return items.sort((a, b) => itemTime(a.start) - itemTime(b.start) || a.id.localeCompare(b.id));
+}
+
+function itemTime(value: string): number {
+    return parseDate(value)?.getTime() ?? 0;
+}
+
+/**
+ * Token in the URL of a user's iCalendar feed, created on first use.
+ * Regenerating it cuts off every calendar app subscribed with the old URL.
+ */
+export async function getCalendarFeedToken(supabase: any, userId: string, regenerate = false): Promise<string> {
+    if (!regenerate) {
+        const { data: profile } = await supabase
+            .from('profiles')
+            .select('calendar_feed_token')
+            .eq('id', userId)
+            .maybeSingle();
+
+        if (profile?.calendar_feed_token) return profile.calendar_feed_token;
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    const { error } = await supabase
+        .from('profiles')
+        .update({ calendar_feed_token: token })
+        .eq('id', userId);
+
+    if (error) {
+        throw new Error(error.message || 'Failed to create calendar feed');
+    }
+
+    return token;
+}
+
+/**
+ * Path of the iCalendar feed for a token
+ */
+export function getCalendarFeedPath(token: string): string {
+    return `/api/calendar/feed/${token}.ics`;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters
+ */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of line) {
+        const bytes = Buffer.byteLength(char);
+        // Continuation lines start with a space, which counts towards their 75 octets
+        const limit = parts.length === 0 ? 75 : 74;
+        if (currentBytes + bytes > limit) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+function formatDateTime(value: string | Date): string {
+    return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(value: string): string {
+    return value.replace(/-/g, '');
+}
+
+/**
+ * iCalendar (.ics) document for calendar apps
+ */
+export function buildICalendar(items: CalendarItem[], calendarName: string, baseUrl?: string): string {
+    const stamp = formatDateTime(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Sakan//Residence Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+        'X-PUBLISHED-TTL:PT1H',
+    ];
+
+    items.forEach((item) => {
+        lines.push('BEGIN:VEVENT', `UID:${item.id}@sakan`, `DTSTAMP:${stamp}`);
+
+        if (item.allDay) {
+            // DTEND is exclusive for dates
+            const lastDay = parseDate(item.end || item.start)!;
+            lines.push(
+                `DTSTART;VALUE=DATE:${formatDate(item.start)}`,
+                `DTEND;VALUE=DATE:${formatDate(toDateString(new Date(lastDay.getTime() + DAY_MS)))}`
+            );
+        } else {
+            lines.push(`DTSTART:${formatDateTime(item.start)}`);
+            if (item.end) lines.push(`DTEND:${formatDateTime(item.end)}`);
+        }
+
+        lines.push(`SUMMARY:${escapeText(item.title)}`);
+        if (item.description) lines.push(`DESCRIPTION:${escapeText(item.description)}`);
+        if (item.location) lines.push(`LOCATION:${escapeText(item.location)}`);
+        lines.push(`CATEGORIES:${(item.eventType || item.kind).toUpperCase()}`);
+        if (baseUrl && item.link) lines.push(`URL:${baseUrl}${item.link}`);
+        lines.push('END:VEVENT');
+    });
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
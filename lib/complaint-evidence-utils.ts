@@ -0,0 +1,248 @@
+/**
+ * Complaint Evidence Utilities
+ * Photos, audio and video recordings attached by the complainant. Files live in the
+ * private `complaint-evidence` bucket and are only handed out to the syndic as
+ * short-lived signed URLs; `complaint_evidence.file_url` holds the object path.
+ */
+
+export type EvidenceFileType = 'image' | 'audio' | 'video';
+
+export const EVIDENCE_BUCKET = 'complaint-evidence';
+
+export const EVIDENCE_MIME_TYPES: Record<string, EvidenceFileType> = {
+    'image/jpeg': 'image',
+    'image/png': 'image',
+    'image/webp': 'image',
+    'image/heic': 'image',
+    'audio/mpeg': 'audio',
+    'audio/mp4': 'audio',
+    'audio/aac': 'audio',
+    'audio/wav': 'audio',
+    'audio/webm': 'audio',
+    'audio/ogg': 'audio',
+    'video/mp4': 'video',
+    'video/quicktime': 'video',
+    'video/webm': 'video',
+};
+
+export const MAX_EVIDENCE_SIZE: Record<EvidenceFileType, number> = {
+    image: 10 * 1024 * 1024, // 10MB
+    audio: 25 * 1024 * 1024, // 25MB
+    video: 50 * 1024 * 1024, // 50MB
+};
+
+// Files a complainant can attach to one complaint
+export const MAX_EVIDENCE_PER_COMPLAINT = 10;
+
+// Signed URLs are only valid for an hour
+const SIGNED_URL_TTL = 60 * 60;
+
+export interface ComplaintEvidence {
+    id: number;
+    complaint_id: number;
+    file_name: string;
+    file_type: EvidenceFileType;
+    mime_type: string;
+    file_size: number;
+    uploaded_by: string;
+    created_at: string;
+    url: string | null;
+}
+
+/**
+ * Check an evidence file before it is uploaded. Returns its type, or an error message.
+ */
+export function validateEvidenceFile(file: File | null | undefined): { fileType?: EvidenceFileType; error?: string } {
+    if (!file || file.size === 0) {
+        return { error: 'No file provided' };
+    }
+
+    const fileType = EVIDENCE_MIME_TYPES[file.type];
+    if (!fileType) {
+        return { error: 'Invalid file type. Please upload a photo (JPEG, PNG, WebP, HEIC), an audio recording (MP3, M4A, AAC, WAV, WebM, OGG) or a video (MP4, MOV, WebM).' };
+    }
+
+    const maxSize = MAX_EVIDENCE_SIZE[fileType];
+    if (file.size > maxSize) {
+        return { error: `File size too large. Maximum size for ${fileType} files is ${maxSize / (1024 * 1024)}MB.` };
+    }
+
+    return { fileType };
+}
+
+export interface AddEvidenceInput {
+    residenceId: number;
+    userId: string;
+    complaintId: number;
+    file: File | null | undefined;
+}
+
+/**
+ * Store an evidence file for a complaint and record it
+ */
+async function storeEvidenceFile(
+    supabase: any,
+    complaint: { id: number; residence_id: number },
+    userId: string,
+    file: File,
+    fileType: EvidenceFileType
+): Promise<{ evidence?: Omit<ComplaintEvidence, 'url'>; error?: string }> {
+    const fileExt = file.name.includes('.') ? file.name.split('.').pop() : file.type.split('/')[1];
+    const filePath = `${complaint.residence_id}/${complaint.id}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+        .from(EVIDENCE_BUCKET)
+        .upload(filePath, await file.arrayBuffer(), {
+            contentType: file.type,
+            upsert: false,
+        });
+
+    if (uploadError) {
+        console.error('[Complaint Evidence Utils] Storage error:', uploadError);
+        return { error: 'Failed to upload file. Please try again.' };
+    }
+
+    const { data: evidence, error } = await supabase
+        .from('complaint_evidence')
+        .insert({
+            complaint_id: complaint.id,
+            file_url: filePath,
+            file_name: file.name,
+            file_type: fileType,
+            file_size: file.size,
+            mime_type: file.type,
+            uploaded_by: userId,
+        })
+        .select('id, complaint_id, file_name, file_type, mime_type, file_size, uploaded_by, created_at')
+        .single();
+
+    if (error) {
+        console.error('[Complaint Evidence Utils] Error recording evidence:', error);
+        // Don't leave an orphaned file behind
+        await supabase.storage.from(EVIDENCE_BUCKET).remove([filePath]);
+        return { error: error.message || 'Failed to save evidence' };
+    }
+
+    return { evidence };
+}
+
+/**
+ * Attach an evidence file to a complaint. Only the complainant can add evidence to
+ * their own complaint, until it is resolved.
+ */
+export async function addComplaintEvidence(
+    supabase: any,
+    input: AddEvidenceInput
+): Promise<{ success: boolean; evidence?: Omit<ComplaintEvidence, 'url'>; error?: string }> {
+    if (!input.complaintId) {
+        return { success: false, error: 'Complaint ID is required' };
+    }
+
+    const { fileType, error: fileError } = validateEvidenceFile(input.file);
+    if (!fileType || !input.file) {
+        return { success: false, error: fileError };
+    }
+
+    const { data: complaint, error: fetchError } = await supabase
+        .from('complaints')
+        .select('id, residence_id, complainant_id, status')
+        .eq('id', input.complaintId)
+        .maybeSingle();
+
+    if (fetchError || !complaint) {
+        return { success: false, error: 'Complaint not found' };
+    }
+
+    if (Number(complaint.residence_id) !== input.residenceId || complaint.complainant_id !== input.userId) {
+        return { success: false, error: 'You can only add evidence to your own complaints' };
+    }
+
+    if (complaint.status === 'resolved') {
+        return { success: false, error: 'Evidence cannot be added to a resolved complaint' };
+    }
+
+    const { count } = await supabase
+        .from('complaint_evidence')
+        .select('id', { count: 'exact', head: true })
+        .eq('complaint_id', complaint.id);
+
+    if ((count || 0) >= MAX_EVIDENCE_PER_COMPLAINT) {
+        return { success: false, error: `A complaint can have at most ${MAX_EVIDENCE_PER_COMPLAINT} evidence files` };
+    }
+
+    const result = await storeEvidenceFile(supabase, complaint, input.userId, input.file, fileType);
+    if (result.error || !result.evidence) {
+        return { success: false, error: result.error || 'Failed to upload evidence' };
+    }
+
+    return { success: true, evidence: result.evidence };
+}
+
+/**
+ * List the evidence of a complaint with signed URLs, for the syndic of its residence.
+ * Callers must have checked the `complaints.review` capability; the complained-about
+ * resident is refused even then.
+ */
+export async function listComplaintEvidence(
+    supabase: any,
+    params: { residenceId: number; userId: string; complaintId: number }
+): Promise<{ success: boolean; evidence?: ComplaintEvidence[]; error?: string }> {
+    const { data: complaint, error: fetchError } = await supabase
+        .from('complaints')
+        .select('id, residence_id, complained_about_id')
+        .eq('id', params.complaintId)
+        .maybeSingle();
+
+    if (fetchError || !complaint) {
+        return { success: false, error: 'Complaint not found' };
+    }
+
+    if (Number(complaint.residence_id) !== params.residenceId || complaint.complained_about_id === params.userId) {
+        return { success: false, error: 'You do not have permission to view this evidence' };
+    }
+
+    const { data: rows, error } = await supabase
+        .from('complaint_evidence')
+        .select('*')
+        .eq('complaint_id', complaint.id)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('[Complaint Evidence Utils] Error fetching evidence:', error);
+        return { success: false, error: error.message || 'Failed to fetch evidence' };
+    }
+
+    if (!rows || rows.length === 0) {
+        return { success: true, evidence: [] };
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+        .from(EVIDENCE_BUCKET)
+        .createSignedUrls(rows.map((row: any) => row.file_url), SIGNED_URL_TTL);
+
+    if (signError) {
+        console.error('[Complaint Evidence Utils] Error signing evidence URLs:', signError);
+    }
+
+    const urls = new Map<string, string>();
+    for (const entry of signed || []) {
+        if (entry.path && entry.signedUrl) {
+            urls.set(entry.path, entry.signedUrl);
+        }
+    }
+
+    return {
+        success: true,
+        evidence: rows.map((row: any) => ({
+            id: row.id,
+            complaint_id: row.complaint_id,
+            file_name: row.file_name,
+            file_type: row.file_type,
+            mime_type: row.mime_type,
+            file_size: Number(row.file_size),
+            uploaded_by: row.uploaded_by,
+            created_at: row.created_at,
+            url: urls.get(row.file_url) || null,
+        })),
+    };
+}
@@ -0,0 +1,370 @@
+import { notifyUsers } from '@/lib/notification-utils';
+
+/**
+ * Complaint Mediation Utilities
+ * Each complaint has two private conversations: the syndic with the complainant
+ * (`complainant` channel) and the syndic with the complained-about resident
+ * (`respondent` channel). A party only ever reads their own channel, so an
+ * anonymous complainant is never revealed to the other side. Warnings and
+ * escalations are dated on the complaint and counted as offences per resident.
+ */
+
+export type ComplaintStatus = 'submitted' | 'reviewed' | 'in_mediation' | 'warning_issued' | 'escalated' | 'resolved';
+
+export const COMPLAINT_STATUSES: ComplaintStatus[] = [
+    'submitted',
+    'reviewed',
+    'in_mediation',
+    'warning_issued',
+    'escalated',
+    'resolved',
+];
+
+export type ComplaintChannel = 'complainant' | 'respondent';
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+// Offences within this window count towards the repeat-offence flag
+const RECENT_MONTHS = 12;
+
+// Upheld complaints (warned or escalated) from which a resident is a repeat offender
+export const REPEAT_OFFENCE_THRESHOLD = 2;
+
+export interface ComplaintMessage {
+    id: number;
+    complaint_id: number;
+    channel: ComplaintChannel;
+    sender_id: string;
+    sender_role: 'syndic' | ComplaintChannel;
+    sender_name: string | null;
+    body: string;
+    created_at: string;
+}
+
+export interface ThreadViewer {
+    residenceId: number;
+    userId: string;
+    isSyndic: boolean; // has the `complaints.review` capability
+}
+
+export interface ResidentComplaintHistory {
+    resident_id: string;
+    total: number;
+    open: number;
+    warnings: number;
+    escalations: number;
+    offences: number; // complaints that led to a warning or an escalation
+    recent_offences: number; // offences in the last 12 months
+    is_repeat_offender: boolean;
+    complaints: {
+        id: number;
+        title: string;
+        reason: string;
+        status: ComplaintStatus;
+        created_at: string;
+        warning_issued_at: string | null;
+        escalated_at: string | null;
+    }[];
+}
+
+/**
+ * Channels a user may read and write on a complaint
+ */
+export function channelsFor(
+    complaint: { complainant_id: string; complained_about_id: string },
+    viewer: Pick<ThreadViewer, 'userId' | 'isSyndic'>
+): ComplaintChannel[] {
+    if (viewer.isSyndic) {
+        return ['complainant', 'respondent'];
+    }
+    if (complaint.complainant_id === viewer.userId) {
+        return ['complainant'];
+    }
+    if (complaint.complained_about_id === viewer.userId) {
+        return ['respondent'];
+    }
+    return [];
+}
+
+/**
+ * Columns to update when a complaint moves to a new status. Warning and escalation
+ * dates are only set once, so the offence stays on record after resolution.
+ */
+export function statusChangeFields(
+    existing: { status: ComplaintStatus; warning_issued_at?: string | null; escalated_at?: string | null },
+    status: ComplaintStatus
+): Record<string, string | null> {
+    const now = new Date().toISOString();
+    const fields: Record<string, string | null> = {};
+
+    // Set reviewed_at when status changes from submitted
+    if (existing.status === 'submitted' && status !== 'submitted') {
+        fields.reviewed_at = now;
+    }
+
+    // Set resolved_at when status is resolved, clear it when reopened
+    if (status === 'resolved') {
+        fields.resolved_at = now;
+    } else if (existing.status === 'resolved') {
+        fields.resolved_at = null;
+    }
+
+    if (status === 'warning_issued' && !existing.warning_issued_at) {
+        fields.warning_issued_at = now;
+    }
+    if (status === 'escalated' && !existing.escalated_at) {
+        fields.escalated_at = now;
+    }
+
+    return fields;
+}
+
+/**
+ * Fetch a complaint and check the viewer takes part in it
+ */
+async function loadParticipation(
+    supabase: any,
+    complaintId: number,
+    viewer: ThreadViewer
+): Promise<{ complaint?: any; channels?: ComplaintChannel[]; error?: string }> {
+    const { data: complaint, error } = await supabase
+        .from('complaints')
+        .select('id, residence_id, complainant_id, complained_about_id, privacy, title, status, reviewed_at, reviewed_by')
+        .eq('id', complaintId)
+        .maybeSingle();
+
+    if (error || !complaint) {
+        return { error: 'Complaint not found' };
+    }
+
+    const channels = Number(complaint.residence_id) === viewer.residenceId ? channelsFor(complaint, viewer) : [];
+    if (channels.length === 0) {
+        return { error: 'You do not have permission to view this complaint' };
+    }
+
+    return { complaint, channels };
+}
+
+/**
+ * Messages of a complaint the viewer may read: both channels for the syndic, only
+ * their own channel for each party.
+ */
+export async function listComplaintMessages(
+    supabase: any,
+    complaintId: number,
+    viewer: ThreadViewer
+): Promise<{ success: boolean; channels?: ComplaintChannel[]; messages?: ComplaintMessage[]; error?: string }> {
+    const { complaint, channels, error } = await loadParticipation(supabase, complaintId, viewer);
+    if (error || !complaint || !channels) {
+        return { success: false, error };
+    }
+
+    const { data: rows, error: messagesError } = await supabase
+        .from('complaint_messages')
+        .select(`
+            id,
+            complaint_id,
+            channel,
+            sender_id,
+            body,
+            created_at,
+            sender:sender_id (
+                full_name
+            )
+        `)
+        .eq('complaint_id', complaintId)
+        .in('channel', channels)
+        .order('created_at', { ascending: true });
+
+    if (messagesError) {
+        console.error('[Complaint Mediation Utils] Error fetching messages:', messagesError);
+        return { success: false, error: messagesError.message || 'Failed to fetch messages' };
+    }
+
+    const messages: ComplaintMessage[] = (rows || []).map((row: any) => {
+        const senderRole: ComplaintMessage['sender_role'] =
+            row.sender_id === complaint.complainant_id ? 'complainant'
+                : row.sender_id === complaint.complained_about_id ? 'respondent'
+                    : 'syndic';
+
+        return {
+            id: row.id,
+            complaint_id: row.complaint_id,
+            channel: row.channel,
+            sender_id: row.sender_id,
+            sender_role: senderRole,
+            sender_name: row.sender?.full_name || null,
+            body: row.body,
+            created_at: row.created_at,
+        };
+    });
+
+    return { success: true, channels, messages };
+}
+
+/**
+ * Post a message in a complaint thread. Parties write in their own channel; the
+ * syndic picks the channel. The syndic's first message moves a new complaint to
+ * `in_mediation`. The other side of the channel is notified.
+ */
+export async function postComplaintMessage(
+    supabase: any,
+    complaintId: number,
+    viewer: ThreadViewer,
+    input: { body: string; channel?: ComplaintChannel | null }
+): Promise<{ success: boolean; message?: ComplaintMessage; error?: string }> {
+    const body = (input.body || '').trim();
+    if (!body) {
+        return { success: false, error: 'Message cannot be empty' };
+    }
+    if (body.length > MAX_MESSAGE_LENGTH) {
+        return { success: false, error: `Message cannot be longer than ${MAX_MESSAGE_LENGTH} characters` };
+    }
+
+    const { complaint, channels, error } = await loadParticipation(supabase, complaintId, viewer);
+    if (error || !complaint || !channels) {
+        return { success: false, error };
+    }
+
+    const channel = viewer.isSyndic ? input.channel : channels[0];
+    if (!channel || !channels.includes(channel)) {
+        return { success: false, error: 'Please choose who the message is for: complainant or respondent' };
+    }
+
+    if (complaint.status === 'resolved') {
+        return { success: false, error: 'This complaint is resolved; its thread is closed' };
+    }
+
+    const { data: row, error: insertError } = await supabase
+        .from('complaint_messages')
+        .insert({
+            complaint_id: complaintId,
+            channel,
+            sender_id: viewer.userId,
+            body,
+        })
+        .select('id, complaint_id, channel, sender_id, body, created_at')
+        .single();
+
+    if (insertError) {
+        console.error('[Complaint Mediation Utils] Error posting message:', insertError);
+        return { success: false, error: insertError.message || 'Failed to send message' };
+    }
+
+    const { data: sender } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('id', viewer.userId)
+        .maybeSingle();
+
+    if (viewer.isSyndic && (complaint.status === 'submitted' || complaint.status === 'reviewed')) {
+        const { error: statusError } = await supabase
+            .from('complaints')
+            .update({
+                status: 'in_mediation',
+                reviewed_by: complaint.reviewed_by || viewer.userId,
+                reviewed_at: complaint.reviewed_at || new Date().toISOString(),
+            })
+            .eq('id', complaintId);
+
+        if (statusError) {
+            console.warn('[Complaint Mediation Utils] Failed to move complaint to mediation:', statusError);
+        }
+    }
+
+    try {
+        if (viewer.isSyndic) {
+            await notifyUsers(supabase, {
+                userIds: [channel === 'complainant' ? complaint.complainant_id : complaint.complained_about_id],
+                category: 'complaints',
+                type: 'info',
+                title: 'New Message from the Syndic',
+                message: channel === 'complainant'
+                    ? `The syndic replied about your complaint "${complaint.title}"`
+                    : `The syndic sent you a message about the complaint "${complaint.title}"`,
+                residenceId: viewer.residenceId,
+                actionData: {
+                    complaint_id: complaintId,
+                    type: 'complaint',
+                },
+            });
+        } else {
+            const { data: residence } = await supabase
+                .from('residences')
+                .select('syndic_user_id')
+                .eq('id', viewer.residenceId)
+                .maybeSingle();
+
+            if (residence?.syndic_user_id) {
+                await notifyUsers(supabase, {
+                    userIds: [residence.syndic_user_id],
+                    category: 'complaints',
+                    type: 'info',
+                    title: 'New Complaint Message',
+                    message: `${sender?.full_name || 'A resident'} wrote about complaint #${complaintId} "${complaint.title}"`,
+                    residenceId: viewer.residenceId,
+                    actionData: {
+                        complaint_id: complaintId,
+                        type: 'complaint',
+                    },
+                });
+            }
+        }
+    } catch (notifError) {
+        console.warn('[Complaint Mediation Utils] Failed to send message notification:', notifError);
+        // Don't fail the message if notification fails
+    }
+
+    return {
+        success: true,
+        message: {
+            ...row,
+            sender_role: viewer.isSyndic ? 'syndic' : channel,
+            sender_name: sender?.full_name || null,
+        },
+    };
+}
+
+/**
+ * Complaints filed against a resident of the residence, with the number of
+ * offences (complaints that led to a warning or an escalation). For the syndic.
+ */
+export async function buildComplaintHistory(
+    supabase: any,
+    residenceId: number,
+    residentId: string
+): Promise<{ success: boolean; history?: ResidentComplaintHistory; error?: string }> {
+    const { data: rows, error } = await supabase
+        .from('complaints')
+        .select('id, title, reason, status, created_at, warning_issued_at, escalated_at')
+        .eq('residence_id', residenceId)
+        .eq('complained_about_id', residentId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('[Complaint Mediation Utils] Error fetching complaint history:', error);
+        return { success: false, error: error.message || 'Failed to fetch complaint history' };
+    }
+
+    const complaints = rows || [];
+    const since = new Date();
+    since.setMonth(since.getMonth() - RECENT_MONTHS);
+
+    const offences = complaints.filter((c: any) => c.warning_issued_at || c.escalated_at);
+    const recentOffences = offences.filter((c: any) => Date.parse(c.warning_issued_at || c.escalated_at) >= since.getTime());
+
+    return {
+        success: true,
+        history: {
+            resident_id: residentId,
+            total: complaints.length,
+            open: complaints.filter((c: any) => c.status !== 'resolved').length,
+            warnings: complaints.filter((c: any) => c.warning_issued_at).length,
+            escalations: complaints.filter((c: any) => c.escalated_at).length,
+            offences: offences.length,
+            recent_offences: recentOffences.length,
+            is_repeat_offender: recentOffences.length >= REPEAT_OFFENCE_THRESHOLD,
+            complaints,
+        },
+    };
+}
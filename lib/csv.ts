@@ -0,0 +1,49 @@
+/**
+ * CSV Utility
+ * Builds CSV documents for exports and triggers browser downloads
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Escape a single CSV cell (RFC 4180)
+ */
+function escapeCsvValue(value: CsvValue): string {
+	if (value === null || value === undefined) return '';
+	const text = String(value);
+	if (/[",\r\n;]/.test(text)) {
+		return `"${text.replace(/"/g, '""')}"`;
+	}
+	return text;
+}
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export function toCSV(headers: string[], rows: CsvValue[][]): string {
+	const lines = [headers, ...rows].map((row) => row.map(escapeCsvValue).join(','));
+	return lines.join('\r\n');
+}
+
+/**
+ * Trigger a browser download of a CSV document
+ * Prepends a UTF-8 BOM so Excel opens accented and Arabic text correctly
+ */
+export function downloadCSV(csv: string, filename: string) {
+	try {
+		console.log('[CSV] Triggering download:', filename);
+
+		const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+		const url = URL.createObjectURL(blob);
+		const a = document.createElement('a');
+		a.href = url;
+		a.download = filename;
+		document.body.appendChild(a);
+		a.click();
+		document.body.removeChild(a);
+		URL.revokeObjectURL(url);
+	} catch (error: any) {
+		console.error('[CSV] Error downloading CSV:', error);
+		throw new Error(`Failed to download CSV: ${error.message}`);
+	}
+}
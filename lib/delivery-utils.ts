@@ -0,0 +1,239 @@
+import { randomInt } from 'crypto';
+import { notifyUsers } from '@/lib/notification-utils';
+import { rolesWith } from '@/lib/permissions';
+
+/**
+ * Delivery Utilities
+ * Shared parcel logging and pickup rules used by server actions and mobile routes
+ */
+
+export const DELIVERY_STAFF_ROLES: string[] = rolesWith('deliveries.manage');
+
+const DELIVERY_SELECT = `
+    *,
+    recipient:recipient_id (
+        id,
+        full_name
+    ),
+    logger:logged_by (
+        id,
+        full_name
+    ),
+    handler:handed_over_by (
+        id,
+        full_name
+    )
+`;
+
+/**
+ * Generate a 6-digit pickup confirmation code
+ */
+export function generatePickupCode(): string {
+    return randomInt(0, 1000000).toString().padStart(6, '0');
+}
+
+/**
+ * Flatten joined names and hide the pickup code from everyone but the recipient
+ * The guard must get the code from the resident, never from the app
+ */
+export function formatDelivery(delivery: any, viewerId: string, apartments?: Map<string, string>) {
+    const { recipient, logger, handler, pickup_code, ...rest } = delivery;
+    return {
+        ...rest,
+        recipient_name: recipient?.full_name || 'Unknown',
+        apartment_number: apartments?.get(delivery.recipient_id) || null,
+        logged_by_name: logger?.full_name || 'Unknown',
+        handed_over_by_name: handler?.full_name || null,
+        pickup_code: delivery.recipient_id === viewerId ? pickup_code : null,
+    };
+}
+
+/**
+ * Map of recipient profile ID to apartment number for a residence
+ */
+export async function getApartmentsByProfile(supabase: any, residenceId: number) {
+    const { data } = await supabase
+        .from('profile_residences')
+        .select('profile_id, apartment_number')
+        .eq('residence_id', residenceId);
+
+    const apartments = new Map<string, string>();
+    (data || []).forEach((row: any) => {
+        if (!apartments.has(row.profile_id)) apartments.set(row.profile_id, row.apartment_number);
+    });
+    return apartments;
+}
+
+/**
+ * List deliveries of a residence
+ * Residents only see their own parcels, staff can filter by recipient and status
+ */
+export async function listDeliveries(
+    supabase: any,
+    params: {
+        residenceId: number;
+        viewerId: string;
+        role: string;
+        recipientId?: string | null;
+        status?: 'pending' | 'picked_up' | null;
+    }
+) {
+    let query = supabase
+        .from('deliveries')
+        .select(DELIVERY_SELECT)
+        .eq('residence_id', params.residenceId);
+
+    if (!DELIVERY_STAFF_ROLES.includes(params.role)) {
+        query = query.eq('recipient_id', params.viewerId);
+    } else if (params.recipientId) {
+        query = query.eq('recipient_id', params.recipientId);
+    }
+
+    if (params.status === 'pending') {
+        query = query.is('picked_up_at', null);
+    } else if (params.status === 'picked_up') {
+        query = query.not('picked_up_at', 'is', null);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw error;
+
+    const apartments = await getApartmentsByProfile(supabase, params.residenceId);
+    return (data || []).map((d: any) => formatDelivery(d, params.viewerId, apartments));
+}
+
+/**
+ * Log a parcel received at the gate and notify the recipient with their pickup code
+ */
+export async function logDelivery(
+    supabase: any,
+    params: {
+        residenceId: number;
+        loggedBy: string;
+        recipientId: string;
+        description: string;
+        carrier?: string | null;
+    }
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    if (!params.recipientId || !params.description?.trim()) {
+        return { success: false, error: 'Recipient and description are required' };
+    }
+
+    const { data: membership } = await supabase
+        .from('profile_residences')
+        .select('id')
+        .eq('profile_id', params.recipientId)
+        .eq('residence_id', params.residenceId)
+        .limit(1)
+        .maybeSingle();
+
+    if (!membership) {
+        return { success: false, error: 'Recipient is not a resident of this residence' };
+    }
+
+    const pickupCode = generatePickupCode();
+
+    const { data: delivery, error } = await supabase
+        .from('deliveries')
+        .insert({
+            residence_id: params.residenceId,
+            recipient_id: params.recipientId,
+            logged_by: params.loggedBy,
+            description: params.description.trim(),
+            carrier: params.carrier?.trim() || null,
+            pickup_code: pickupCode,
+        })
+        .select(DELIVERY_SELECT)
+        .single();
+
+    if (error || !delivery) {
+        return { success: false, error: error?.message || 'Failed to log delivery' };
+    }
+
+    await notifyUsers(supabase, {
+        userIds: [params.recipientId],
+        category: 'deliveries',
+        title: 'Parcel Waiting at the Gate',
+        message: `A parcel (${delivery.description}) is waiting for you. Show pickup code ${pickupCode} to the guard.`,
+        residenceId: params.residenceId,
+        actionData: {
+            delivery_id: delivery.id,
+            type: 'delivery',
+        },
+    });
+
+    return { success: true, data: formatDelivery(delivery, params.loggedBy) };
+}
+
+/**
+ * Record a pickup after checking the recipient's confirmation code
+ */
+export async function confirmDeliveryPickup(
+    supabase: any,
+    params: { deliveryId: number; residenceId: number; code: string; handedOverBy: string }
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    const { data: delivery, error } = await supabase
+        .from('deliveries')
+        .select('id, residence_id, recipient_id, pickup_code, picked_up_at')
+        .eq('id', params.deliveryId)
+        .maybeSingle();
+
+    if (error || !delivery || delivery.residence_id !== params.residenceId) {
+        return { success: false, error: 'Delivery not found' };
+    }
+
+    if (delivery.picked_up_at) {
+        return { success: false, error: 'This parcel has already been picked up' };
+    }
+
+    if (!params.code || String(params.code).trim() !== delivery.pickup_code) {
+        return { success: false, error: 'Invalid pickup code' };
+    }
+
+    const { data: updated, error: updateError } = await supabase
+        .from('deliveries')
+        .update({
+            picked_up_at: new Date().toISOString(),
+            handed_over_by: params.handedOverBy,
+        })
+        .eq('id', params.deliveryId)
+        // Guard against two concurrent confirmations
+        .is('picked_up_at', null)
+        .select(DELIVERY_SELECT)
+        .maybeSingle();
+
+    if (updateError) {
+        return { success: false, error: updateError.message || 'Failed to record pickup' };
+    }
+
+    if (!updated) {
+        return { success: false, error: 'This parcel has already been picked up' };
+    }
+
+    return { success: true, data: formatDelivery(updated, params.handedOverBy) };
+}
+
+/**
+ * Parcels still waiting at the gate for more than the given number of days
+ */
+export async function getUncollectedDeliveries(supabase: any, residenceId: number, olderThanDays: number) {
+    const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+        .from('deliveries')
+        .select(DELIVERY_SELECT)
+        .eq('residence_id', residenceId)
+        .is('picked_up_at', null)
+        .lte('created_at', cutoff)
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    const apartments = await getApartmentsByProfile(supabase, residenceId);
+    const now = Date.now();
+
+    return (data || []).map((d: any) => ({
+        ...formatDelivery(d, '', apartments),
+        days_waiting: Math.floor((now - new Date(d.created_at).getTime()) / (24 * 60 * 60 * 1000)),
+    }));
+}
@@ -0,0 +1,588 @@
+import { notifyUsers } from '@/lib/notification-utils';
+import { applyResidentCredit, getFeeBalance, OUTSTANDING_FEE_STATUSES } from '@/lib/allocation-utils';
+import { today } from '@/lib/fee-schedule-utils';
+import { sendDunningEmail } from '@/lib/email/dunning';
+
+/**
+ * Dunning Utilities
+ * Per-residence dunning policy (escalating reminders and late-fee surcharges), the daily
+ * run that applies it to unpaid fees, and the timeline of each fee.
+ */
+
+export const DUNNING_STEP_KINDS = ['reminder', 'notice', 'formal_letter', 'late_fee'] as const;
+
+export type DunningStepKind = typeof DUNNING_STEP_KINDS[number];
+
+export const LATE_FEE_TYPES = ['fixed', 'percent'] as const;
+
+export type LateFeeType = typeof LATE_FEE_TYPES[number];
+
+export const DUNNING_STEP_LABELS: Record<DunningStepKind, string> = {
+    reminder: 'Friendly reminder',
+    notice: 'Due date notice',
+    formal_letter: 'Formal letter',
+    late_fee: 'Late-fee surcharge',
+};
+
+export interface DunningStepInput {
+    id?: number;
+    kind: DunningStepKind;
+    offsetDays: number;
+    lateFeeType?: LateFeeType | null;
+    lateFeeAmount?: number | null;
+    active?: boolean;
+}
+
+/**
+ * Suggested policy for residences that have none yet; the surcharge starts disabled
+ */
+export const DEFAULT_DUNNING_STEPS: DunningStepInput[] = [
+    { kind: 'reminder', offsetDays: -3, active: true },
+    { kind: 'notice', offsetDays: 0, active: true },
+    { kind: 'formal_letter', offsetDays: 30, active: true },
+    { kind: 'late_fee', offsetDays: 60, lateFeeType: 'percent', lateFeeAmount: 5, active: false },
+];
+
+export type FeeTimelineType = 'created' | 'overdue' | 'payment' | DunningStepKind;
+
+export interface FeeTimelineEntry {
+    id: string;
+    type: FeeTimelineType;
+    at: string;
+    title: string;
+    detail: string | null;
+    amount: number | null;
+    emailStatus: string | null;
+}
+
+export interface DunningRunResult {
+    applied: number;
+    emailsSent: number;
+    emailsFailed: number;
+    lateFees: number;
+}
+
+interface DunningRecipient {
+    name: string | null;
+    email: string | null;
+}
+
+// A step missed by the daily run (e.g. cron outage) is still applied within this many days
+const DUNNING_CATCH_UP_DAYS = 7;
+
+const MAX_DUNNING_STEPS = 10;
+
+const NOTIFICATION_TITLES: Record<DunningStepKind, string> = {
+    reminder: 'Payment Reminder',
+    notice: 'Payment Due Today',
+    formal_letter: 'Overdue Payment',
+    late_fee: 'Late Fee Added',
+};
+
+const TIMELINE_TITLES: Record<'overdue' | DunningStepKind, string> = {
+    overdue: 'Marked overdue',
+    reminder: 'Reminder sent',
+    notice: 'Due date notice sent',
+    formal_letter: 'Formal letter sent',
+    late_fee: 'Late fee charged',
+};
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+function daysBetween(from: string, to: string): number {
+    const [fy, fm, fd] = from.split('-').map(Number);
+    const [ty, tm, td] = to.split('-').map(Number);
+    return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000);
+}
+
+function addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+function formatDate(date: string): string {
+    return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Human-readable timing of a step, e.g. "3 days before the due date"
+ */
+export function describeDunningOffset(offsetDays: number): string {
+    if (offsetDays === 0) return 'On the due date';
+    const days = Math.abs(offsetDays);
+    return `${days} day${days === 1 ? '' : 's'} ${offsetDays < 0 ? 'before' : 'after'} the due date`;
+}
+
+/**
+ * Surcharge of a late_fee step on an outstanding balance
+ */
+export function computeLateFee(step: any, balance: number): number {
+    const amount = Number(step.late_fee_amount ?? step.lateFeeAmount ?? 0);
+    const type = step.late_fee_type ?? step.lateFeeType;
+    return round(type === 'percent' ? (balance * amount) / 100 : amount);
+}
+
+export function validateDunningSteps(steps: DunningStepInput[]): string | null {
+    if (!Array.isArray(steps)) return 'Steps are required';
+    if (steps.length > MAX_DUNNING_STEPS) return `A dunning policy has at most ${MAX_DUNNING_STEPS} steps`;
+
+    const seen = new Set<string>();
+
+    for (const step of steps) {
+        if (!DUNNING_STEP_KINDS.includes(step.kind)) {
+            return `Step kind must be one of: ${DUNNING_STEP_KINDS.join(', ')}`;
+        }
+
+        const offset = Number(step.offsetDays);
+        if (!Number.isInteger(offset) || offset < -30 || offset > 365) {
+            return 'Step days must be a whole number between -30 and 365';
+        }
+
+        if (step.kind === 'reminder' && offset >= 0) {
+            return 'Friendly reminder must come before the due date';
+        }
+
+        if ((step.kind === 'formal_letter' || step.kind === 'late_fee') && offset <= 0) {
+            return `${DUNNING_STEP_LABELS[step.kind]} must come after the due date`;
+        }
+
+        if (step.kind === 'late_fee') {
+            if (!step.lateFeeType || !LATE_FEE_TYPES.includes(step.lateFeeType)) {
+                return 'Late fee type must be fixed or percent';
+            }
+            const amount = Number(step.lateFeeAmount);
+            if (!Number.isFinite(amount) || amount <= 0) return 'Late fee amount must be greater than 0';
+            if (step.lateFeeType === 'percent' && amount > 100) return 'Late fee percentage cannot exceed 100';
+        }
+
+        const key = `${step.kind}:${offset}`;
+        if (seen.has(key)) return `${DUNNING_STEP_LABELS[step.kind]} is listed twice on the same day`;
+        seen.add(key);
+    }
+
+    return null;
+}
+
+/**
+ * Steps of a residence's dunning policy, earliest first
+ */
+export async function listDunningSteps(supabase: any, residenceId: number) {
+    const { data, error } = await supabase
+        .from('dunning_steps')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .order('offset_days', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch dunning policy');
+    }
+
+    return (data || []).map((step: any) => ({
+        ...step,
+        late_fee_amount: step.late_fee_amount === null ? null : Number(step.late_fee_amount),
+    }));
+}
+
+/**
+ * Replace the residence's policy with `steps`. Steps keep their id when edited so a
+ * fee never receives the same step twice; removed steps stay on past timelines.
+ */
+export async function saveDunningSteps(
+    supabase: any,
+    residenceId: number,
+    steps: DunningStepInput[],
+    userId: string
+) {
+    const existing = await listDunningSteps(supabase, residenceId);
+    const existingIds = new Set<number>(existing.map((step: any) => step.id));
+    const keptIds = new Set(steps.filter((step) => step.id).map((step) => Number(step.id)));
+
+    const removedIds = existing.filter((step: any) => !keptIds.has(step.id)).map((step: any) => step.id);
+    if (removedIds.length > 0) {
+        const { error } = await supabase
+            .from('dunning_steps')
+            .delete()
+            .in('id', removedIds)
+            .eq('residence_id', residenceId);
+
+        if (error) throw new Error(error.message || 'Failed to save dunning policy');
+    }
+
+    for (const step of steps) {
+        const row = {
+            kind: step.kind,
+            offset_days: Number(step.offsetDays),
+            late_fee_type: step.kind === 'late_fee' ? step.lateFeeType : null,
+            late_fee_amount: step.kind === 'late_fee' ? Number(step.lateFeeAmount) : null,
+            active: step.active ?? true,
+            updated_at: new Date().toISOString(),
+        };
+
+        const { error } = step.id && existingIds.has(Number(step.id))
+            ? await supabase
+                .from('dunning_steps')
+                .update(row)
+                .eq('id', Number(step.id))
+                .eq('residence_id', residenceId)
+            : await supabase
+                .from('dunning_steps')
+                .insert({ ...row, residence_id: residenceId, created_by: userId });
+
+        if (error) throw new Error(error.message || 'Failed to save dunning policy');
+    }
+
+    return listDunningSteps(supabase, residenceId);
+}
+
+/**
+ * Days past due during which a step may still be applied. Communication steps stop
+ * when the next one starts, and a reminder is never sent once the fee is due.
+ */
+function getStepWindow(step: any, steps: any[]): { start: number; end: number } {
+    let end = step.offset_days + DUNNING_CATCH_UP_DAYS;
+
+    if (step.kind !== 'late_fee') {
+        steps
+            .filter((other) => other.kind !== 'late_fee' && other.offset_days > step.offset_days)
+            .forEach((other) => { end = Math.min(end, other.offset_days); });
+    }
+
+    if (step.kind === 'reminder') end = Math.min(end, 0);
+
+    return { start: step.offset_days, end };
+}
+
+/**
+ * Names and email addresses of the residents being reminded
+ */
+async function getRecipients(supabase: any, userIds: string[]): Promise<Map<string, DunningRecipient>> {
+    const recipients = new Map<string, DunningRecipient>();
+    if (userIds.length === 0) return recipients;
+
+    const [{ data: profiles }, { data: users }] = await Promise.all([
+        supabase.from('profiles').select('id, full_name').in('id', userIds),
+        supabase.from('users').select('id, email').in('id', userIds),
+    ]);
+
+    userIds.forEach((id) => {
+        recipients.set(id, {
+            name: profiles?.find((p: any) => p.id === id)?.full_name || null,
+            email: users?.find((u: any) => u.id === id)?.email || null,
+        });
+    });
+
+    return recipients;
+}
+
+/**
+ * In-app message of a dunning step
+ */
+function buildDunningMessage(kind: DunningStepKind, fee: any, balance: number, asOf: string, lateFee?: any): string {
+    const amount = `${balance.toFixed(2)} MAD`;
+
+    switch (kind) {
+        case 'reminder':
+            return `${fee.title}: ${amount} due on ${formatDate(fee.due_date)}`;
+        case 'notice':
+            return `${fee.title}: ${amount} is due today`;
+        case 'formal_letter':
+            return `${fee.title}: ${amount} is ${daysBetween(fee.due_date, asOf)} days overdue. Please settle it without delay.`;
+        case 'late_fee':
+            return `A late fee of ${Number(lateFee?.amount || 0).toFixed(2)} MAD was added for ${fee.title} (${amount} unpaid since ${formatDate(fee.due_date)})`;
+    }
+}
+
+/**
+ * Apply one step to one fee: record it on the timeline, charge the surcharge of a
+ * late_fee step, then email and notify the resident.
+ * Returns null when another run already applied the step.
+ */
+async function applyDunningStep(
+    supabase: any,
+    step: any,
+    fee: any,
+    context: { recipient?: DunningRecipient; residenceName?: string; asOf: string }
+): Promise<{ emailStatus: string; lateFee: any } | null> {
+    const balance = getFeeBalance(fee);
+    const email = context.recipient?.email || null;
+
+    // Claim the step first: the unique (fee, step) index keeps concurrent runs from sending it twice
+    const { data: event, error: eventError } = await supabase
+        .from('fee_events')
+        .insert({
+            residence_id: fee.residence_id,
+            fee_id: fee.id,
+            event_type: step.kind,
+            step_id: step.id,
+            email_status: email ? 'pending' : 'skipped',
+            recipient_email: email,
+        })
+        .select()
+        .single();
+
+    if (eventError || !event) {
+        if (eventError?.code !== '23505') {
+            console.error('[Dunning Utils] Error recording step', step.id, 'for fee', fee.id, eventError);
+        }
+        return null;
+    }
+
+    let lateFee: any = null;
+
+    if (step.kind === 'late_fee') {
+        const { data: surcharge, error: surchargeError } = await supabase
+            .from('fees')
+            .insert({
+                residence_id: fee.residence_id,
+                user_id: fee.user_id,
+                apartment_number: fee.apartment_number,
+                title: `Late fee - ${fee.title}`,
+                amount: computeLateFee(step, balance),
+                amount_paid: 0,
+                due_date: context.asOf,
+                status: 'unpaid',
+                late_fee_of: fee.id,
+            })
+            .select()
+            .single();
+
+        if (surchargeError || !surcharge) {
+            console.error('[Dunning Utils] Error charging late fee for fee', fee.id, surchargeError);
+            // Release the claim so the next run tries again
+            await supabase.from('fee_events').delete().eq('id', event.id);
+            return null;
+        }
+
+        lateFee = surcharge;
+        await applyResidentCredit(supabase, fee.residence_id, fee.user_id);
+    }
+
+    const message = buildDunningMessage(step.kind, fee, balance, context.asOf, lateFee);
+
+    let emailStatus = 'skipped';
+    if (email) {
+        try {
+            await sendDunningEmail({
+                kind: step.kind,
+                email,
+                residentName: context.recipient?.name || undefined,
+                residenceName: context.residenceName,
+                apartmentNumber: fee.apartment_number,
+                feeTitle: fee.title,
+                amountDue: balance,
+                dueDate: fee.due_date,
+                lateFeeAmount: lateFee ? Number(lateFee.amount) : undefined,
+            });
+            emailStatus = 'sent';
+        } catch {
+            emailStatus = 'failed';
+        }
+    }
+
+    await supabase
+        .from('fee_events')
+        .update({ email_status: emailStatus, late_fee_id: lateFee?.id ?? null, message })
+        .eq('id', event.id);
+
+    await notifyUsers(supabase, {
+        userIds: [fee.user_id],
+        category: 'fees',
+        type: step.kind === 'reminder' || step.kind === 'notice' ? 'info' : 'warning',
+        title: NOTIFICATION_TITLES[step.kind as DunningStepKind],
+        message,
+        residenceId: fee.residence_id,
+        actionData: {
+            fee_id: fee.id,
+            type: 'fee',
+        },
+    });
+
+    return { emailStatus, lateFee };
+}
+
+/**
+ * Apply the residence's active dunning steps to its unpaid fees as of `asOf`.
+ * Safe to run any number of times: each step is applied to a fee once.
+ */
+export async function runDunning(supabase: any, residenceId: number, asOf: string = today()): Promise<DunningRunResult> {
+    const result: DunningRunResult = { applied: 0, emailsSent: 0, emailsFailed: 0, lateFees: 0 };
+
+    const steps = (await listDunningSteps(supabase, residenceId)).filter((step: any) => step.active);
+    if (steps.length === 0) return result;
+
+    const windows = new Map<number, { start: number; end: number }>(
+        steps.map((step: any) => [step.id, getStepWindow(step, steps)])
+    );
+    const earliest = Math.min(...steps.map((step: any) => step.offset_days));
+    const latest = Math.max(...Array.from(windows.values()).map((window) => window.end));
+
+    const { data: fees, error } = await supabase
+        .from('fees')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .in('status', OUTSTANDING_FEE_STATUSES)
+        .gt('due_date', addDays(asOf, -latest))
+        .lte('due_date', addDays(asOf, -earliest));
+
+    if (error) {
+        console.error('[Dunning Utils] Error fetching unpaid fees:', error);
+        return result;
+    }
+
+    const openFees = (fees || []).filter((fee: any) => getFeeBalance(fee) > 0.005);
+    if (openFees.length === 0) return result;
+
+    const { data: applied } = await supabase
+        .from('fee_events')
+        .select('fee_id, step_id')
+        .in('fee_id', openFees.map((fee: any) => fee.id))
+        .in('step_id', steps.map((step: any) => step.id));
+
+    const appliedKeys = new Set((applied || []).map((event: any) => `${event.fee_id}:${event.step_id}`));
+
+    const [recipients, { data: residence }] = await Promise.all([
+        getRecipients(supabase, Array.from(new Set<string>(openFees.map((fee: any) => fee.user_id)))),
+        supabase.from('residences').select('name').eq('id', residenceId).maybeSingle(),
+    ]);
+
+    for (const fee of openFees) {
+        const daysPastDue = daysBetween(fee.due_date, asOf);
+
+        for (const step of steps) {
+            const window = windows.get(step.id)!;
+            if (daysPastDue < window.start || daysPastDue >= window.end) continue;
+            if (appliedKeys.has(`${fee.id}:${step.id}`)) continue;
+            // Surcharges are reminded but never surcharged again
+            if (step.kind === 'late_fee' && fee.late_fee_of) continue;
+
+            const outcome = await applyDunningStep(supabase, step, fee, {
+                recipient: recipients.get(fee.user_id),
+                residenceName: residence?.name,
+                asOf,
+            });
+            if (!outcome) continue;
+
+            result.applied += 1;
+            if (outcome.emailStatus === 'sent') result.emailsSent += 1;
+            if (outcome.emailStatus === 'failed') result.emailsFailed += 1;
+            if (outcome.lateFee) result.lateFees += 1;
+        }
+    }
+
+    if (result.applied > 0) {
+        console.log('[Dunning Utils] Residence', residenceId, '- steps applied:', result.applied, 'late fees:', result.lateFees);
+    }
+
+    return result;
+}
+
+/**
+ * Everything that happened to a fee, oldest first: issue, overdue marking,
+ * dunning steps and the payments allocated to it
+ */
+export async function getFeeTimeline(supabase: any, fee: any): Promise<FeeTimelineEntry[]> {
+    const [{ data: events, error: eventsError }, { data: allocations, error: allocationsError }] = await Promise.all([
+        supabase
+            .from('fee_events')
+            .select('*')
+            .eq('fee_id', fee.id)
+            .order('created_at', { ascending: true }),
+        supabase
+            .from('payment_allocations')
+            .select('id, amount, created_at')
+            .eq('fee_id', fee.id)
+            .order('created_at', { ascending: true }),
+    ]);
+
+    if (eventsError || allocationsError) {
+        throw new Error((eventsError || allocationsError).message || 'Failed to fetch fee timeline');
+    }
+
+    const lateFeeIds = (events || []).map((event: any) => event.late_fee_id).filter(Boolean);
+    const { data: lateFees } = lateFeeIds.length > 0
+        ? await supabase.from('fees').select('id, amount').in('id', lateFeeIds)
+        : { data: [] };
+
+    const entries: FeeTimelineEntry[] = [
+        {
+            id: `fee-${fee.id}`,
+            type: 'created',
+            at: fee.created_at,
+            title: 'Fee issued',
+            detail: `${Number(fee.amount).toFixed(2)} MAD due on ${formatDate(fee.due_date)}`,
+            amount: Number(fee.amount),
+            emailStatus: null,
+        },
+        ...(events || []).map((event: any): FeeTimelineEntry => ({
+            id: `event-${event.id}`,
+            type: event.event_type,
+            at: event.created_at,
+            title: TIMELINE_TITLES[event.event_type as 'overdue' | DunningStepKind] || event.event_type,
+            detail: event.message,
+            amount: event.late_fee_id
+                ? Number(lateFees?.find((lateFee: any) => lateFee.id === event.late_fee_id)?.amount ?? 0)
+                : null,
+            emailStatus: event.email_status,
+        })),
+        ...(allocations || []).map((allocation: any): FeeTimelineEntry => ({
+            id: `allocation-${allocation.id}`,
+            type: 'payment',
+            at: allocation.created_at,
+            title: 'Payment received',
+            detail: null,
+            amount: Number(allocation.amount),
+            emailStatus: null,
+        })),
+    ];
+
+    return entries.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+/**
+ * Latest timeline events of the residence with the fee and resident they concern
+ */
+export async function listDunningActivity(supabase: any, residenceId: number, limit: number = 20) {
+    const { data: events, error } = await supabase
+        .from('fee_events')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch dunning activity');
+    }
+
+    if (!events || events.length === 0) return [];
+
+    const { data: fees } = await supabase
+        .from('fees')
+        .select('id, title, apartment_number, user_id, due_date')
+        .in('id', Array.from(new Set(events.map((event: any) => event.fee_id))));
+
+    const userIds = Array.from(new Set<string>((fees || []).map((fee: any) => fee.user_id)));
+    const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name').in('id', userIds)
+        : { data: [] };
+
+    return events.map((event: any) => {
+        const fee = fees?.find((f: any) => f.id === event.fee_id);
+        return {
+            id: event.id,
+            fee_id: event.fee_id,
+            event_type: event.event_type,
+            title: TIMELINE_TITLES[event.event_type as 'overdue' | DunningStepKind] || event.event_type,
+            email_status: event.email_status,
+            message: event.message,
+            created_at: event.created_at,
+            fee_title: fee?.title || null,
+            apartment_number: fee?.apartment_number || null,
+            resident_name: profiles?.find((p: any) => p.id === fee?.user_id)?.full_name || null,
+        };
+    });
+}
@@ -0,0 +1,109 @@
+import { Resend } from 'resend';
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+export type DunningEmailKind = 'reminder' | 'notice' | 'formal_letter' | 'late_fee';
+
+export interface DunningEmailParams {
+	kind: DunningEmailKind;
+	email: string;
+	residentName?: string;
+	residenceName?: string;
+	apartmentNumber?: string | null;
+	feeTitle: string;
+	amountDue: number;
+	dueDate: string;
+	lateFeeAmount?: number;
+}
+
+const SUBJECTS: Record<DunningEmailKind, string> = {
+	reminder: 'Rappel : échéance à venir - SAKAN',
+	notice: 'Avis d\'échéance - SAKAN',
+	formal_letter: 'Relance formelle : charges impayées - SAKAN',
+	late_fee: 'Pénalité de retard appliquée - SAKAN',
+};
+
+const HEADINGS: Record<DunningEmailKind, string> = {
+	reminder: 'Rappel d\'échéance',
+	notice: 'Avis d\'échéance',
+	formal_letter: 'Relance formelle',
+	late_fee: 'Pénalité de retard',
+};
+
+function formatAmount(amount: number): string {
+	return `${amount.toFixed(2)} MAD`;
+}
+
+function formatDate(date: string): string {
+	return new Date(date).toLocaleDateString('fr-FR', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+/**
+ * Body paragraph of each dunning step, from friendly to formal
+ */
+function buildMessage(params: DunningEmailParams): string {
+	const fee = `<strong>${params.feeTitle}</strong>${params.apartmentNumber ? ` (Appartement ${params.apartmentNumber})` : ''}`;
+	const amount = `<strong>${formatAmount(params.amountDue)}</strong>`;
+	const dueDate = formatDate(params.dueDate);
+
+	switch (params.kind) {
+		case 'reminder':
+			return `<p>Nous vous rappelons que le paiement de ${fee}, d'un montant de ${amount}, arrive à échéance le ${dueDate}.</p>
+				<p>Si vous avez déjà réglé ce montant, merci de ne pas tenir compte de ce message.</p>`;
+		case 'notice':
+			return `<p>Le paiement de ${fee}, d'un montant de ${amount}, est dû aujourd'hui (${dueDate}).</p>
+				<p>Merci de procéder au règlement auprès de votre syndic dans les meilleurs délais.</p>`;
+		case 'formal_letter':
+			return `<p>Malgré nos précédents rappels, le paiement de ${fee}, échu depuis le ${dueDate}, reste impayé. Le montant restant dû s'élève à ${amount}.</p>
+				<p>Nous vous demandons de régulariser votre situation sans délai. À défaut, le syndic se réserve le droit d'appliquer les pénalités prévues par le règlement de copropriété.</p>`;
+		case 'late_fee':
+			return `<p>Le paiement de ${fee}, échu depuis le ${dueDate}, reste impayé (${amount} restant dû).</p>
+				<p>Conformément au règlement de la résidence, une pénalité de retard de <strong>${formatAmount(params.lateFeeAmount || 0)}</strong> a été ajoutée à votre compte.</p>`;
+	}
+}
+
+/**
+ * Send one step of the dunning policy to a resident
+ */
+export async function sendDunningEmail(params: DunningEmailParams): Promise<void> {
+	const fromEmail = process.env.EMAIL_FROM || 'onboarding@resend.dev';
+	const accent = params.kind === 'reminder' || params.kind === 'notice' ? '#2563eb' : '#d32f2f';
+
+	try {
+		const { error } = await resend.emails.send({
+			from: fromEmail,
+			to: params.email,
+			subject: SUBJECTS[params.kind],
+			html: `
+				<!DOCTYPE html>
+				<html>
+				<head>
+					<meta charset="utf-8">
+					<meta name="viewport" content="width=device-width, initial-scale=1.0">
+					<title>${HEADINGS[params.kind]}</title>
+				</head>
+				<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+					<div style="background-color: #f8f9fa; border-radius: 8px; padding: 30px; border: 1px solid #e9ecef;">
+						<h1 style="color: ${accent}; margin-top: 0;">${HEADINGS[params.kind]}</h1>
+						<p>Bonjour ${params.residentName || 'Résident'},</p>
+						${buildMessage(params)}
+						<p style="color: #666; font-size: 14px;">Vous pouvez consulter le détail de vos charges et effectuer un paiement depuis l'application SAKAN.</p>
+						<hr style="border: none; border-top: 1px solid #e9ecef; margin: 30px 0;">
+						<p style="color: #666; font-size: 12px; margin: 0;">
+							${params.residenceName ? `Le syndic de ${params.residenceName}` : 'Votre syndic'}
+						</p>
+					</div>
+				</body>
+				</html>
+			`,
+		});
+
+		// Resend reports delivery errors in the response instead of throwing
+		if (error) throw error;
+
+		console.log(`[Email] Dunning ${params.kind} sent to ${params.email} for ${params.feeTitle}`);
+	} catch (error) {
+		console.error('[Email] Error sending dunning email:', error);
+		throw new Error('Failed to send dunning email');
+	}
+}
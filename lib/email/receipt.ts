@@ -0,0 +1,75 @@
+import { Resend } from 'resend';
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+export interface PaymentReceiptEmailParams {
+	email: string;
+	residentName?: string;
+	residenceName?: string;
+	apartmentNumber?: string | null;
+	receiptNumber: string;
+	amount: number;
+	paidAt: Date;
+	fees: { title: string; amount: number }[];
+	pdf: Uint8Array;
+}
+
+function formatAmount(amount: number): string {
+	return `${amount.toFixed(2)} MAD`;
+}
+
+/**
+ * Send a resident the receipt of an online payment, with the PDF attached
+ */
+export async function sendPaymentReceiptEmail(params: PaymentReceiptEmailParams): Promise<void> {
+	const fromEmail = process.env.EMAIL_FROM || 'onboarding@resend.dev';
+	const paidAt = params.paidAt.toLocaleDateString('fr-FR', { day: 'numeric', month: 'long', year: 'numeric' });
+	const feeRows = params.fees
+		.map((fee) => `<tr><td style="padding: 4px 0;">${fee.title}</td><td style="padding: 4px 0; text-align: right;">${formatAmount(fee.amount)}</td></tr>`)
+		.join('');
+
+	try {
+		const { error } = await resend.emails.send({
+			from: fromEmail,
+			to: params.email,
+			subject: `Reçu de paiement ${params.receiptNumber} - SAKAN`,
+			html: `
+				<!DOCTYPE html>
+				<html>
+				<head>
+					<meta charset="utf-8">
+					<meta name="viewport" content="width=device-width, initial-scale=1.0">
+					<title>Reçu de paiement</title>
+				</head>
+				<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+					<div style="background-color: #f8f9fa; border-radius: 8px; padding: 30px; border: 1px solid #e9ecef;">
+						<h1 style="color: #16a34a; margin-top: 0;">Paiement reçu</h1>
+						<p>Bonjour ${params.residentName || 'Résident'},</p>
+						<p>Nous avons bien reçu votre paiement par carte de <strong>${formatAmount(params.amount)}</strong> le ${paidAt}${params.apartmentNumber ? ` pour l'appartement ${params.apartmentNumber}` : ''}.</p>
+						${feeRows ? `<table style="width: 100%; border-collapse: collapse; font-size: 14px;">${feeRows}</table>` : ''}
+						<p style="color: #666; font-size: 14px;">Votre reçu ${params.receiptNumber} est joint à cet e-mail.</p>
+						<hr style="border: none; border-top: 1px solid #e9ecef; margin: 30px 0;">
+						<p style="color: #666; font-size: 12px; margin: 0;">
+							${params.residenceName ? `Le syndic de ${params.residenceName}` : 'Votre syndic'}
+						</p>
+					</div>
+				</body>
+				</html>
+			`,
+			attachments: [
+				{
+					filename: `${params.receiptNumber}.pdf`,
+					content: Buffer.from(params.pdf),
+				},
+			],
+		});
+
+		// Resend reports delivery errors in the response instead of throwing
+		if (error) throw error;
+
+		console.log(`[Email] Payment receipt ${params.receiptNumber} sent to ${params.email}`);
+	} catch (error) {
+		console.error('[Email] Error sending payment receipt:', error);
+		throw new Error('Failed to send payment receipt');
+	}
+}
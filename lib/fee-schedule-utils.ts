@@ -0,0 +1,386 @@
+import { notifyUsers } from '@/lib/notification-utils';
+import { applyResidentCredit } from '@/lib/allocation-utils';
+
+/**
+ * Fee Schedule Utilities
+ * Recurring charges: period arithmetic, per-apartment amounts, idempotent fee
+ * generation and overdue marking, shared by server actions, mobile routes and the cron route.
+ */
+
+export const FEE_FREQUENCIES = ['monthly', 'quarterly', 'yearly'] as const;
+
+export type FeeFrequency = typeof FEE_FREQUENCIES[number];
+
+export const FEE_AMOUNT_TYPES = ['fixed', 'share'] as const;
+
+export type FeeAmountType = typeof FEE_AMOUNT_TYPES[number];
+
+const FREQUENCY_MONTHS: Record<FeeFrequency, number> = {
+    monthly: 1,
+    quarterly: 3,
+    yearly: 12,
+};
+
+// Oldest periods a schedule catches up on when it was created with a past start date
+const MAX_CATCH_UP_PERIODS = 12;
+
+export interface FeeScheduleInput {
+    title: string;
+    amount: number;
+    amountType: FeeAmountType;
+    frequency: FeeFrequency;
+    startDate: string;
+    endDate?: string | null;
+    dueDays?: number;
+}
+
+export interface BillableApartment {
+    user_id: string;
+    apartment_number: string;
+    share: number | null;
+}
+
+/**
+ * Today as YYYY-MM-DD
+ */
+export function today(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Add months to a YYYY-MM-DD date, clamping to the end of shorter months
+ */
+function addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().split('T')[0];
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+}
+
+/**
+ * Start of the nth period of a schedule (0 = start_date)
+ */
+function periodStart(schedule: any, index: number): string {
+    return addMonths(schedule.start_date, index * FREQUENCY_MONTHS[schedule.frequency as FeeFrequency]);
+}
+
+/**
+ * Due date of a period
+ */
+export function getDueDate(schedule: any, start: string): string {
+    return addDays(start, Number(schedule.due_days || 0));
+}
+
+/**
+ * Period starts from `from` (inclusive) to `through` (inclusive), within the schedule dates
+ */
+export function listPeriodStarts(schedule: any, through: string, from?: string): string[] {
+    const starts: string[] = [];
+
+    for (let index = 0; index < 1200; index++) {
+        const start = periodStart(schedule, index);
+        if (start > through) break;
+        if (schedule.end_date && start > schedule.end_date) break;
+        if (!from || start >= from) starts.push(start);
+    }
+
+    return starts;
+}
+
+/**
+ * The next `count` periods starting after `after`
+ */
+export function listUpcomingPeriodStarts(schedule: any, after: string, count: number): string[] {
+    const starts: string[] = [];
+
+    for (let index = 0; index < 1200 && starts.length < count; index++) {
+        const start = periodStart(schedule, index);
+        if (schedule.end_date && start > schedule.end_date) break;
+        if (start > after) starts.push(start);
+    }
+
+    return starts;
+}
+
+/**
+ * Validate schedule fields; returns an error message or null
+ */
+export function validateFeeSchedule(input: FeeScheduleInput): string | null {
+    if (!input.title || !input.title.trim()) return 'Title is required';
+    if (!Number.isFinite(Number(input.amount)) || Number(input.amount) <= 0) return 'Amount must be greater than 0';
+    if (!FEE_AMOUNT_TYPES.includes(input.amountType)) return 'Amount type must be fixed or share';
+    if (!FEE_FREQUENCIES.includes(input.frequency)) return 'Frequency must be monthly, quarterly or yearly';
+    if (!input.startDate || !/^\d{4}-\d{2}-\d{2}$/.test(input.startDate)) return 'Start date is required (YYYY-MM-DD)';
+    if (input.endDate && input.endDate < input.startDate) return 'End date must be after the start date';
+
+    const dueDays = Number(input.dueDays ?? 0);
+    if (!Number.isInteger(dueDays) || dueDays < 0 || dueDays > 90) return 'Due days must be between 0 and 90';
+
+    return null;
+}
+
+/**
+ * One billable resident per apartment (the first verified occupant)
+ */
+export async function getBillableApartments(supabase: any, residenceId: number): Promise<BillableApartment[]> {
+    const { data, error } = await supabase
+        .from('profile_residences')
+        .select('profile_id, apartment_number, share, verified, created_at')
+        .eq('residence_id', residenceId)
+        .not('apartment_number', 'is', null)
+        .order('verified', { ascending: false })
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch apartments');
+    }
+
+    const apartments = new Map<string, BillableApartment>();
+    (data || []).forEach((row: any) => {
+        const apartment = String(row.apartment_number).trim();
+        if (!apartment || apartment === '0' || apartments.has(apartment)) return;
+        apartments.set(apartment, {
+            user_id: row.profile_id,
+            apartment_number: apartment,
+            share: row.share != null ? Number(row.share) : null,
+        });
+    });
+
+    return Array.from(apartments.values());
+}
+
+/**
+ * Amount each apartment owes for one period of a schedule, keyed by apartment number
+ * Share-based schedules split the total by share; apartments without a share are not billed
+ */
+export function computeScheduleAmounts(schedule: any, apartments: BillableApartment[]): Map<string, number> {
+    const amounts = new Map<string, number>();
+    const amount = Number(schedule.amount);
+
+    if (schedule.amount_type === 'share') {
+        const totalShares = apartments.reduce((sum, apt) => sum + (apt.share || 0), 0);
+        if (totalShares <= 0) return amounts;
+
+        apartments.forEach((apt) => {
+            if (!apt.share) return;
+            amounts.set(apt.apartment_number, Math.round((amount * apt.share * 100) / totalShares) / 100);
+        });
+        return amounts;
+    }
+
+    apartments.forEach((apt) => amounts.set(apt.apartment_number, amount));
+    return amounts;
+}
+
+/**
+ * Mark unpaid and partially paid fees past their due date as overdue
+ * and record it on their timeline
+ */
+export async function markOverdueFees(supabase: any, residenceId?: number): Promise<number> {
+    let query = supabase
+        .from('fees')
+        .update({ status: 'overdue' })
+        .in('status', ['unpaid', 'partially_paid'])
+        .lt('due_date', today());
+
+    if (residenceId) query = query.eq('residence_id', residenceId);
+
+    const { data, error } = await query.select('id, residence_id');
+
+    if (error) {
+        console.error('[Fee Schedule Utils] Error marking overdue fees:', error);
+        return 0;
+    }
+
+    if (data && data.length > 0) {
+        // Record the change on each fee's timeline
+        const { error: eventsError } = await supabase
+            .from('fee_events')
+            .insert(data.map((fee: any) => ({ residence_id: fee.residence_id, fee_id: fee.id, event_type: 'overdue' })));
+
+        if (eventsError) console.warn('[Fee Schedule Utils] Error recording overdue events:', eventsError);
+    }
+
+    return data?.length || 0;
+}
+
+/**
+ * Create the fees of every elapsed period of the residence's active schedules.
+ * Safe to run any number of times: each (schedule, apartment, period) is inserted once.
+ */
+export async function generateScheduledFees(
+    supabase: any,
+    residenceId: number
+): Promise<{ created: number; overdue: number }> {
+    const { data: schedules, error } = await supabase
+        .from('fee_schedules')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .eq('active', true)
+        .lte('start_date', today());
+
+    if (error) {
+        console.error('[Fee Schedule Utils] Error fetching schedules:', error);
+        return { created: 0, overdue: 0 };
+    }
+
+    let created = 0;
+    const billedUserIds = new Set<string>();
+
+    if (schedules && schedules.length > 0) {
+        const apartments = await getBillableApartments(supabase, residenceId);
+
+        for (const schedule of schedules) {
+            const amounts = computeScheduleAmounts(schedule, apartments);
+            if (amounts.size === 0) continue;
+
+            const starts = listPeriodStarts(schedule, today()).slice(-MAX_CATCH_UP_PERIODS);
+
+            for (const start of starts) {
+                const rows = apartments
+                    .filter((apt) => (amounts.get(apt.apartment_number) || 0) > 0)
+                    .map((apt) => ({
+                        residence_id: residenceId,
+                        user_id: apt.user_id,
+                        apartment_number: apt.apartment_number,
+                        title: schedule.title,
+                        amount: amounts.get(apt.apartment_number) as number,
+                        due_date: getDueDate(schedule, start),
+                        status: 'unpaid',
+                        schedule_id: schedule.id,
+                        period_start: start,
+                    }));
+
+                const { data: inserted, error: insertError } = await supabase
+                    .from('fees')
+                    .upsert(rows, { onConflict: 'schedule_id,apartment_number,period_start', ignoreDuplicates: true })
+                    .select();
+
+                if (insertError) {
+                    console.error('[Fee Schedule Utils] Error generating fees for schedule:', schedule.id, insertError);
+                    continue;
+                }
+
+                if (!inserted || inserted.length === 0) continue;
+                created += inserted.length;
+                inserted.forEach((fee: any) => billedUserIds.add(fee.user_id));
+
+                // One notification per distinct amount (share-based schedules differ per apartment)
+                const byAmount = new Map<number, any[]>();
+                inserted.forEach((fee: any) => {
+                    const key = Number(fee.amount);
+                    byAmount.set(key, [...(byAmount.get(key) || []), fee]);
+                });
+
+                for (const [amount, fees] of byAmount) {
+                    await notifyUsers(supabase, {
+                        userIds: fees.map((fee: any) => fee.user_id),
+                        category: 'fees',
+                        title: 'New Fee',
+                        message: `${schedule.title}: ${amount.toFixed(2)} MAD due on ${new Date(fees[0].due_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+                        residenceId,
+                        actionData: {
+                            schedule_id: schedule.id,
+                            type: 'fee',
+                        },
+                    });
+                }
+            }
+        }
+    }
+
+    // Residents with credit from earlier overpayments settle the new fees right away
+    for (const userId of billedUserIds) {
+        await applyResidentCredit(supabase, residenceId, userId);
+    }
+
+    const overdue = await markOverdueFees(supabase, residenceId);
+
+    if (created > 0 || overdue > 0) {
+        console.log('[Fee Schedule Utils] Residence', residenceId, '- fees created:', created, 'marked overdue:', overdue);
+    }
+
+    return { created, overdue };
+}
+
+/**
+ * Fee schedules of a residence, newest first
+ */
+export async function listFeeSchedules(supabase: any, residenceId: number) {
+    const { data, error } = await supabase
+        .from('fee_schedules')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch fee schedules');
+    }
+
+    return (data || []).map((schedule: any) => ({ ...schedule, amount: Number(schedule.amount) }));
+}
+
+/**
+ * Next charges of the active schedules. With `userId`, only that resident's amounts.
+ */
+export async function getUpcomingCharges(
+    supabase: any,
+    residenceId: number,
+    params: { userId?: string; periods?: number } = {}
+) {
+    const { data: schedules, error } = await supabase
+        .from('fee_schedules')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .eq('active', true);
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch fee schedules');
+    }
+
+    if (!schedules || schedules.length === 0) return [];
+
+    const apartments = await getBillableApartments(supabase, residenceId);
+    const userApartments = apartments
+        .filter((apt) => apt.user_id === params.userId)
+        .map((apt) => apt.apartment_number);
+    const charges: any[] = [];
+
+    schedules.forEach((schedule: any) => {
+        const amounts = computeScheduleAmounts(schedule, apartments);
+
+        listUpcomingPeriodStarts(schedule, today(), params.periods || 1).forEach((start) => {
+            const base = {
+                schedule_id: schedule.id,
+                title: schedule.title,
+                frequency: schedule.frequency,
+                period_start: start,
+                due_date: getDueDate(schedule, start),
+            };
+
+            if (params.userId) {
+                const amount = userApartments.reduce((sum, apt) => sum + (amounts.get(apt) || 0), 0);
+                if (amount) charges.push({ ...base, amount });
+                return;
+            }
+
+            charges.push({
+                ...base,
+                amount: Array.from(amounts.values()).reduce((sum, value) => sum + value, 0),
+                apartments: amounts.size,
+            });
+        });
+    });
+
+    return charges.sort((a, b) => a.due_date.localeCompare(b.due_date));
+}
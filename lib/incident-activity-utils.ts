@@ -0,0 +1,508 @@
+import { notifyUsers } from '@/lib/notification-utils';
+
+/**
+ * Incident Activity Utilities
+ * Append-only timeline of an incident: who created it, changed its status, assigned
+ * it, scheduled an intervention, commented or added a photo, and when. Entries are
+ * only ever inserted. Photos are kept as a set of `before` and `after` pictures in
+ * incident_photos; `incidents.photo_url` stays the first one for older clients.
+ */
+
+export type IncidentActivityType =
+    | 'created'
+    | 'status_changed'
+    | 'assigned'
+    | 'intervention_scheduled'
+    | 'comment'
+    | 'photo_added';
+
+export type IncidentPhotoPhase = 'before' | 'after';
+
+export const INCIDENT_PHOTO_PHASES: IncidentPhotoPhase[] = ['before', 'after'];
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+export const MAX_PHOTOS_PER_INCIDENT = 20;
+
+export interface IncidentPhoto {
+    id: number;
+    incident_id: number;
+    url: string;
+    phase: IncidentPhotoPhase;
+    caption: string | null;
+    uploaded_by: string | null;
+    uploader_name: string | null;
+    created_at: string;
+}
+
+export interface IncidentActivity {
+    id: number;
+    incident_id: number;
+    type: IncidentActivityType;
+    actor_id: string | null;
+    actor_name: string | null;
+    from_value: string | null;
+    to_value: string | null;
+    from_label: string | null; // names instead of profile ids for reassignments
+    to_label: string | null;
+    body: string | null;
+    photo_id: number | null;
+    created_at: string;
+}
+
+export interface IncidentTimeline {
+    activity: IncidentActivity[];
+    photos: IncidentPhoto[];
+    can_contribute: boolean; // viewer may comment and add photos
+}
+
+export interface IncidentViewer {
+    residenceId: number;
+    userId: string;
+    role: string;
+    canManage: boolean; // has the `incidents.manage` capability
+}
+
+export interface ActivityEntry {
+    incidentId: number;
+    actorId: string | null;
+    type: IncidentActivityType;
+    fromValue?: string | null;
+    toValue?: string | null;
+    body?: string | null;
+    photoId?: number | null;
+}
+
+/**
+ * Append entries to incident timelines. Never throws: a failed log entry must not
+ * undo the change it describes.
+ */
+export async function logIncidentActivity(supabase: any, entries: ActivityEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const { error } = await supabase
+        .from('incident_activity')
+        .insert(entries.map((entry) => ({
+            incident_id: entry.incidentId,
+            actor_id: entry.actorId,
+            type: entry.type,
+            from_value: entry.fromValue ?? null,
+            to_value: entry.toValue ?? null,
+            body: entry.body ?? null,
+            photo_id: entry.photoId ?? null,
+        })));
+
+    if (error) {
+        console.error('[Incident Activity Utils] Error logging activity:', error);
+    }
+}
+
+/**
+ * Log the changes an incident update made, comparing the row before and after it
+ */
+export async function logIncidentChanges(
+    supabase: any,
+    before: { id: number; status?: string; assigned_to?: string | null; intervention_at?: string | null },
+    after: { status?: string; assigned_to?: string | null; intervention_at?: string | null },
+    actorId: string | null
+): Promise<void> {
+    const entries: ActivityEntry[] = [];
+
+    if (after.status !== undefined && after.status !== before.status) {
+        entries.push({ incidentId: before.id, actorId, type: 'status_changed', fromValue: before.status, toValue: after.status });
+    }
+    if (after.assigned_to !== undefined && (after.assigned_to || null) !== (before.assigned_to || null)) {
+        entries.push({ incidentId: before.id, actorId, type: 'assigned', fromValue: before.assigned_to || null, toValue: after.assigned_to || null });
+    }
+    if (after.intervention_at !== undefined && !sameInstant(after.intervention_at, before.intervention_at)) {
+        entries.push({ incidentId: before.id, actorId, type: 'intervention_scheduled', fromValue: before.intervention_at || null, toValue: after.intervention_at || null });
+    }
+
+    await logIncidentActivity(supabase, entries);
+}
+
+function sameInstant(a?: string | null, b?: string | null): boolean {
+    if (!a || !b) return !a && !b;
+    return Date.parse(a) === Date.parse(b);
+}
+
+/**
+ * Record a photo of an incident and log it on the timeline
+ */
+export async function recordIncidentPhoto(
+    supabase: any,
+    incidentId: number,
+    actorId: string,
+    input: { url: string; phase?: IncidentPhotoPhase | null; caption?: string | null }
+): Promise<{ photo?: Omit<IncidentPhoto, 'uploader_name'>; error?: string }> {
+    const { data: photo, error } = await supabase
+        .from('incident_photos')
+        .insert({
+            incident_id: incidentId,
+            url: input.url,
+            phase: input.phase || 'before',
+            caption: input.caption?.trim() || null,
+            uploaded_by: actorId,
+        })
+        .select('id, incident_id, url, phase, caption, uploaded_by, created_at')
+        .single();
+
+    if (error) {
+        console.error('[Incident Activity Utils] Error recording photo:', error);
+        return { error: error.message || 'Failed to add photo' };
+    }
+
+    await logIncidentActivity(supabase, [
+        { incidentId, actorId, type: 'photo_added', toValue: photo.phase, body: photo.caption, photoId: photo.id },
+    ]);
+
+    return { photo };
+}
+
+/**
+ * Start the timeline of a new incident, with its photo as the first `before` picture
+ */
+export async function recordIncidentCreated(
+    supabase: any,
+    incident: { id: number; user_id: string; status?: string; photo_url?: string | null }
+): Promise<void> {
+    await logIncidentActivity(supabase, [
+        { incidentId: incident.id, actorId: incident.user_id, type: 'created', toValue: incident.status || 'open' },
+    ]);
+
+    if (incident.photo_url) {
+        await recordIncidentPhoto(supabase, incident.id, incident.user_id, { url: incident.photo_url, phase: 'before' });
+    }
+}
+
+/**
+ * Fetch an incident and check the viewer may see it: the syndic and guard of the
+ * residence, the reporter and the assignee. Only the syndic, the reporter and the
+ * assignee may contribute.
+ */
+async function loadIncidentAccess(
+    supabase: any,
+    incidentId: number,
+    viewer: IncidentViewer
+): Promise<{ incident?: any; canContribute?: boolean; error?: string }> {
+    const { data: incident, error } = await supabase
+        .from('incidents')
+        .select('id, residence_id, user_id, assigned_to, title, status, photo_url')
+        .eq('id', incidentId)
+        .maybeSingle();
+
+    if (error || !incident || Number(incident.residence_id) !== viewer.residenceId) {
+        return { error: 'Incident not found' };
+    }
+
+    const isParticipant = incident.user_id === viewer.userId || incident.assigned_to === viewer.userId;
+    const canView = viewer.canManage || viewer.role === 'guard' || isParticipant;
+    if (!canView) {
+        return { error: 'You do not have permission to view this incident' };
+    }
+
+    return { incident, canContribute: viewer.canManage || isParticipant };
+}
+
+/**
+ * Timeline and photos of an incident, oldest first
+ */
+export async function listIncidentTimeline(
+    supabase: any,
+    incidentId: number,
+    viewer: IncidentViewer
+): Promise<{ success: boolean; timeline?: IncidentTimeline; error?: string }> {
+    const { incident, canContribute, error } = await loadIncidentAccess(supabase, incidentId, viewer);
+    if (error || !incident) {
+        return { success: false, error };
+    }
+
+    const [activityResult, photosResult] = await Promise.all([
+        supabase
+            .from('incident_activity')
+            .select(`
+                id,
+                incident_id,
+                type,
+                actor_id,
+                from_value,
+                to_value,
+                body,
+                photo_id,
+                created_at,
+                actor:actor_id (
+                    full_name
+                )
+            `)
+            .eq('incident_id', incidentId)
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true }),
+        supabase
+            .from('incident_photos')
+            .select(`
+                id,
+                incident_id,
+                url,
+                phase,
+                caption,
+                uploaded_by,
+                created_at,
+                uploader:uploaded_by (
+                    full_name
+                )
+            `)
+            .eq('incident_id', incidentId)
+            .order('created_at', { ascending: true }),
+    ]);
+
+    if (activityResult.error || photosResult.error) {
+        console.error('[Incident Activity Utils] Error fetching timeline:', activityResult.error || photosResult.error);
+        return { success: false, error: 'Failed to fetch incident activity' };
+    }
+
+    const rows = activityResult.data || [];
+
+    // Reassignments store profile ids; show names
+    const assigneeIds = Array.from(new Set(
+        rows
+            .filter((row: any) => row.type === 'assigned')
+            .flatMap((row: any) => [row.from_value, row.to_value])
+            .filter((id: string | null): id is string => !!id)
+    ));
+    const names = new Map<string, string>();
+    if (assigneeIds.length > 0) {
+        const { data: profiles } = await supabase
+            .from('profiles')
+            .select('id, full_name')
+            .in('id', assigneeIds);
+        for (const profile of profiles || []) {
+            names.set(profile.id, profile.full_name);
+        }
+    }
+
+    const label = (row: any, value: string | null) => {
+        if (!value) return null;
+        return row.type === 'assigned' ? names.get(value) || 'Unknown' : value;
+    };
+
+    return {
+        success: true,
+        timeline: {
+            activity: rows.map((row: any) => ({
+                id: row.id,
+                incident_id: row.incident_id,
+                type: row.type,
+                actor_id: row.actor_id,
+                actor_name: row.actor?.full_name || null,
+                from_value: row.from_value,
+                to_value: row.to_value,
+                from_label: label(row, row.from_value),
+                to_label: label(row, row.to_value),
+                body: row.body,
+                photo_id: row.photo_id,
+                created_at: row.created_at,
+            })),
+            photos: (photosResult.data || []).map((row: any) => ({
+                id: row.id,
+                incident_id: row.incident_id,
+                url: row.url,
+                phase: row.phase,
+                caption: row.caption,
+                uploaded_by: row.uploaded_by,
+                uploader_name: row.uploader?.full_name || null,
+                created_at: row.created_at,
+            })),
+            can_contribute: !!canContribute,
+        },
+    };
+}
+
+/**
+ * Notify the other side of an incident: the syndic when the reporter or assignee
+ * writes, the reporter when the syndic does
+ */
+async function notifyIncidentParticipants(
+    supabase: any,
+    incident: any,
+    viewer: IncidentViewer,
+    title: string,
+    message: string
+): Promise<void> {
+    try {
+        const recipients: string[] = [];
+
+        if (viewer.canManage) {
+            recipients.push(incident.user_id);
+        } else {
+            const { data: residence } = await supabase
+                .from('residences')
+                .select('syndic_user_id')
+                .eq('id', viewer.residenceId)
+                .maybeSingle();
+            if (residence?.syndic_user_id) recipients.push(residence.syndic_user_id);
+        }
+        if (incident.assigned_to) recipients.push(incident.assigned_to);
+
+        await notifyUsers(supabase, {
+            userIds: recipients.filter((id) => id !== viewer.userId),
+            category: 'incidents',
+            title,
+            message,
+            residenceId: viewer.residenceId,
+            actionData: {
+                incident_id: incident.id,
+                type: 'incident',
+            },
+        });
+    } catch (notifError) {
+        console.warn('[Incident Activity Utils] Failed to send incident notification:', notifError);
+        // Don't fail the comment or photo if notification fails
+    }
+}
+
+/**
+ * Comment on an incident
+ */
+export async function postIncidentComment(
+    supabase: any,
+    incidentId: number,
+    viewer: IncidentViewer,
+    input: { body: string }
+): Promise<{ success: boolean; activity?: IncidentActivity; error?: string }> {
+    const body = (input.body || '').trim();
+    if (!body) {
+        return { success: false, error: 'Comment cannot be empty' };
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+        return { success: false, error: `Comment cannot be longer than ${MAX_COMMENT_LENGTH} characters` };
+    }
+
+    const { incident, canContribute, error } = await loadIncidentAccess(supabase, incidentId, viewer);
+    if (error || !incident) {
+        return { success: false, error };
+    }
+    if (!canContribute) {
+        return { success: false, error: 'Only the reporter, the assignee and the syndic can comment on this incident' };
+    }
+    if (incident.status === 'closed') {
+        return { success: false, error: 'This incident is closed' };
+    }
+
+    const { data: row, error: insertError } = await supabase
+        .from('incident_activity')
+        .insert({
+            incident_id: incidentId,
+            actor_id: viewer.userId,
+            type: 'comment',
+            body,
+        })
+        .select('id, incident_id, type, actor_id, from_value, to_value, body, photo_id, created_at')
+        .single();
+
+    if (insertError) {
+        console.error('[Incident Activity Utils] Error posting comment:', insertError);
+        return { success: false, error: insertError.message || 'Failed to post comment' };
+    }
+
+    const { data: actor } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('id', viewer.userId)
+        .maybeSingle();
+
+    await notifyIncidentParticipants(
+        supabase,
+        incident,
+        viewer,
+        'New Comment on Incident',
+        `${actor?.full_name || 'Someone'} commented on the incident "${incident.title}"`
+    );
+
+    return {
+        success: true,
+        activity: {
+            ...row,
+            actor_name: actor?.full_name || null,
+            from_label: null,
+            to_label: null,
+        },
+    };
+}
+
+/**
+ * Add a before or after photo to an incident. The photo is uploaded first (see
+ * uploadIncidentPhoto); this records it and logs it on the timeline.
+ */
+export async function attachIncidentPhoto(
+    supabase: any,
+    incidentId: number,
+    viewer: IncidentViewer,
+    input: { url: string; phase?: IncidentPhotoPhase | null; caption?: string | null }
+): Promise<{ success: boolean; photo?: IncidentPhoto; error?: string }> {
+    if (!input.url) {
+        return { success: false, error: 'Photo URL is required' };
+    }
+
+    const phase = input.phase || 'before';
+    if (!INCIDENT_PHOTO_PHASES.includes(phase)) {
+        return { success: false, error: 'Photo phase must be before or after' };
+    }
+
+    const { incident, canContribute, error } = await loadIncidentAccess(supabase, incidentId, viewer);
+    if (error || !incident) {
+        return { success: false, error };
+    }
+    if (!canContribute) {
+        return { success: false, error: 'Only the reporter, the assignee and the syndic can add photos to this incident' };
+    }
+    if (incident.status === 'closed') {
+        return { success: false, error: 'This incident is closed' };
+    }
+
+    const { count } = await supabase
+        .from('incident_photos')
+        .select('id', { count: 'exact', head: true })
+        .eq('incident_id', incidentId);
+
+    if ((count || 0) >= MAX_PHOTOS_PER_INCIDENT) {
+        return { success: false, error: `An incident can have at most ${MAX_PHOTOS_PER_INCIDENT} photos` };
+    }
+
+    const { photo, error: photoError } = await recordIncidentPhoto(supabase, incidentId, viewer.userId, {
+        url: input.url,
+        phase,
+        caption: input.caption,
+    });
+    if (photoError || !photo) {
+        return { success: false, error: photoError || 'Failed to add photo' };
+    }
+
+    if (!incident.photo_url) {
+        await supabase
+            .from('incidents')
+            .update({ photo_url: photo.url })
+            .eq('id', incidentId);
+    }
+
+    const { data: uploader } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('id', viewer.userId)
+        .maybeSingle();
+
+    await notifyIncidentParticipants(
+        supabase,
+        incident,
+        viewer,
+        'New Photo on Incident',
+        `${uploader?.full_name || 'Someone'} added ${phase === 'after' ? 'an after-repair' : 'a'} photo to the incident "${incident.title}"`
+    );
+
+    return {
+        success: true,
+        photo: {
+            ...photo,
+            uploader_name: uploader?.full_name || null,
+        },
+    };
+}
@@ -0,0 +1,196 @@
+import { notifyUsers } from '@/lib/notification-utils';
+import { can, ownsRecord, type Actor } from '@/lib/permissions';
+import { logIncidentChanges, recordIncidentPhoto } from '@/lib/incident-activity-utils';
+import {
+    INCIDENT_CATEGORIES,
+    INCIDENT_PRIORITIES,
+    isIncidentCategory,
+    isIncidentPriority,
+    type IncidentCategory,
+    type IncidentPriority,
+} from '@/lib/incident-sla-utils';
+
+/**
+ * Incident Utilities
+ * Editing and deleting incidents on behalf of an authorized actor. Shared by the
+ * incidents server actions and the /api/mobile/incidents/[id] route so both apply
+ * the same permissions, activity log entries and notifications.
+ */
+
+export type IncidentStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+
+export interface IncidentUpdate {
+    id: number;
+    title?: string;
+    description?: string;
+    status?: IncidentStatus;
+    assigned_to?: string | null;
+    intervention_at?: string | null;
+    photo_url?: string;
+    category?: IncidentCategory;
+    priority?: IncidentPriority;
+}
+
+const STATUS_MESSAGES: Record<IncidentStatus, string> = {
+    open: 'has been reopened',
+    in_progress: 'is being worked on',
+    resolved: 'has been resolved',
+    closed: 'has been closed',
+};
+
+/**
+ * Update an incident. Syndics edit every incident of their residence and alone change
+ * its status, assignee, intervention date and priority; residents edit their own reports.
+ */
+export async function updateIncidentAs(
+    supabase: any,
+    actor: Actor,
+    data: IncidentUpdate
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    const { data: existingIncident, error: fetchError } = await supabase
+        .from('incidents')
+        .select('residence_id, user_id, status, assigned_to, intervention_at, photo_url')
+        .eq('id', data.id)
+        .maybeSingle();
+
+    if (fetchError || !existingIncident) {
+        return { success: false, error: 'Incident not found' };
+    }
+
+    const canManage = can(actor.role, 'incidents.manage') && ownsRecord(actor, existingIncident);
+    const canUpdate = canManage ||
+        (actor.role === 'resident' && existingIncident.user_id === actor.userId);
+
+    if (!canUpdate) {
+        return { success: false, error: 'You do not have permission to update this incident' };
+    }
+
+    // Build update object with only provided fields
+    const updateData: any = {
+        updated_at: new Date().toISOString(),
+    };
+
+    if (data.title !== undefined) updateData.title = data.title;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.status !== undefined && canManage) {
+        updateData.status = data.status;
+
+        // Keep the resolution time for analytics: set when first resolved or closed, cleared on reopen
+        const wasDone = existingIncident.status === 'resolved' || existingIncident.status === 'closed';
+        const isDone = data.status === 'resolved' || data.status === 'closed';
+        if (isDone && !wasDone) updateData.resolved_at = new Date().toISOString();
+        if (!isDone && wasDone) updateData.resolved_at = null;
+    }
+    if (data.assigned_to !== undefined && canManage) {
+        updateData.assigned_to = data.assigned_to;
+    }
+    if (data.intervention_at !== undefined && canManage) {
+        const interventionAt = data.intervention_at ? new Date(data.intervention_at) : null;
+        if (interventionAt && isNaN(interventionAt.getTime())) {
+            return { success: false, error: 'Invalid intervention date' };
+        }
+        updateData.intervention_at = interventionAt ? interventionAt.toISOString() : null;
+    }
+    if (data.photo_url !== undefined) updateData.photo_url = data.photo_url;
+    if (data.category !== undefined) {
+        if (!isIncidentCategory(data.category)) {
+            return { success: false, error: `Category must be one of: ${INCIDENT_CATEGORIES.join(', ')}` };
+        }
+        updateData.category = data.category;
+    }
+    if (data.priority !== undefined && canManage) {
+        if (!isIncidentPriority(data.priority)) {
+            return { success: false, error: `Priority must be one of: ${INCIDENT_PRIORITIES.join(', ')}` };
+        }
+        updateData.priority = data.priority;
+    }
+
+    const { data: incident, error } = await supabase
+        .from('incidents')
+        .update(updateData)
+        .eq('id', data.id)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('[Incident Utils] Error updating incident:', error);
+        return { success: false, error: error.message || 'Failed to update incident' };
+    }
+
+    await logIncidentChanges(supabase, { id: data.id, ...existingIncident }, updateData, actor.userId);
+    if (updateData.photo_url && updateData.photo_url !== existingIncident.photo_url) {
+        await recordIncidentPhoto(supabase, data.id, actor.userId, { url: updateData.photo_url, phase: 'before' });
+    }
+
+    // Notify the newly assigned person
+    if (updateData.assigned_to && updateData.assigned_to !== existingIncident.assigned_to && updateData.assigned_to !== actor.userId) {
+        await notifyUsers(supabase, {
+            userIds: [updateData.assigned_to],
+            category: 'incidents',
+            title: 'Incident Assigned to You',
+            message: `You have been assigned the incident "${incident.title}"`,
+            residenceId: incident.residence_id,
+            actionData: {
+                incident_id: incident.id,
+                type: 'incident',
+            },
+        });
+    }
+
+    // Notify the reporter when the status changes
+    if (updateData.status && updateData.status !== existingIncident.status && existingIncident.user_id !== actor.userId) {
+        await notifyUsers(supabase, {
+            userIds: [existingIncident.user_id],
+            category: 'incidents',
+            type: updateData.status === 'resolved' ? 'success' : 'info',
+            title: 'Incident Status Updated',
+            message: `Your incident "${incident.title}" ${STATUS_MESSAGES[updateData.status as IncidentStatus]}`,
+            residenceId: incident.residence_id,
+            actionData: {
+                incident_id: incident.id,
+                type: 'incident',
+            },
+        });
+    }
+
+    return { success: true, data: incident };
+}
+
+/**
+ * Delete an incident of the actor's residence (syndics only)
+ */
+export async function deleteIncidentAs(
+    supabase: any,
+    actor: Actor,
+    incidentId: number
+): Promise<{ success: boolean; error?: string }> {
+    if (!can(actor.role, 'incidents.manage')) {
+        return { success: false, error: 'You do not have permission to delete this incident' };
+    }
+
+    const { data: existingIncident, error: fetchError } = await supabase
+        .from('incidents')
+        .select('residence_id, user_id')
+        .eq('id', incidentId)
+        .maybeSingle();
+
+    if (fetchError || !existingIncident) {
+        return { success: false, error: 'Incident not found' };
+    }
+
+    if (!ownsRecord(actor, existingIncident)) {
+        return { success: false, error: 'You do not have permission to delete this incident' };
+    }
+
+    const { error } = await supabase
+        .from('incidents')
+        .delete()
+        .eq('id', incidentId);
+
+    if (error) {
+        console.error('[Incident Utils] Error deleting incident:', error);
+        return { success: false, error: error.message || 'Failed to delete incident' };
+    }
+
+    return { success: true };
+}
@@ -0,0 +1,288 @@
+/**
+ * Ledger Utilities
+ * Posts cash and bank movements to transaction_history and reads balances from it.
+ * Entries are never edited: corrections post adjustment or reversal entries.
+ */
+
+export const LEDGER_ACCOUNTS = ['cash', 'bank'] as const;
+
+export type LedgerAccount = typeof LEDGER_ACCOUNTS[number];
+
+export type LedgerEntryType = 'payment' | 'expense' | 'refund' | 'adjustment' | 'reversal';
+
+// Payment statuses that mean the money was actually received
+export const SETTLED_PAYMENT_STATUSES = ['verified', 'completed'];
+
+export interface LedgerEntryInput {
+    residenceId: number;
+    account: LedgerAccount;
+    type: LedgerEntryType;
+    amount: number; // Signed: positive in, negative out
+    referenceTable?: string | null;
+    referenceId?: number | null;
+    method?: string | null;
+    description?: string | null;
+    createdBy?: string | null;
+}
+
+export interface LedgerBalances {
+    cash: number;
+    bank: number;
+}
+
+/**
+ * Account a payment lands in: cash stays in the syndic's hands, everything else goes to the bank
+ */
+export function getPaymentAccount(method: string): LedgerAccount {
+    return method === 'cash' ? 'cash' : 'bank';
+}
+
+/**
+ * Post one entry; the database computes balance_after under a per-account lock
+ */
+export async function postLedgerEntry(
+    supabase: any,
+    entry: LedgerEntryInput
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    const amount = Math.round(Number(entry.amount) * 100) / 100;
+
+    if (!Number.isFinite(amount) || amount === 0) {
+        return { success: false, error: 'Ledger amount must be a non-zero number' };
+    }
+
+    const { data, error } = await supabase.rpc('post_ledger_entry', {
+        p_residence_id: entry.residenceId,
+        p_account: entry.account,
+        p_transaction_type: entry.type,
+        p_amount: amount,
+        p_reference_table: entry.referenceTable ?? null,
+        p_reference_id: entry.referenceId ?? null,
+        p_method: entry.method ?? null,
+        p_description: entry.description ?? null,
+        p_created_by: entry.createdBy ?? null,
+    });
+
+    if (error) {
+        // A payment or expense can only be posted once
+        if (error.code === '23505') {
+            return { success: true, data: null };
+        }
+        console.error('[Ledger Utils] Error posting entry:', error);
+        return { success: false, error: error.message || 'Failed to post ledger entry' };
+    }
+
+    return { success: true, data: Array.isArray(data) ? data[0] : data };
+}
+
+/**
+ * Post a received payment (ignored until the payment is settled)
+ */
+export async function postPaymentEntry(supabase: any, payment: any, createdBy?: string | null) {
+    if (!SETTLED_PAYMENT_STATUSES.includes(payment.status)) {
+        return { success: true, data: null };
+    }
+
+    return postLedgerEntry(supabase, {
+        residenceId: payment.residence_id,
+        account: getPaymentAccount(payment.method),
+        type: 'payment',
+        amount: Number(payment.amount),
+        referenceTable: 'payments',
+        referenceId: payment.id,
+        method: payment.method,
+        description: `Payment #${payment.id}${payment.apartment_number ? ` - Apt ${payment.apartment_number}` : ''}`,
+        createdBy: createdBy ?? payment.verified_by ?? null,
+    });
+}
+
+/**
+ * Account an expense was paid from (expenses without a funding source were paid in cash)
+ */
+export function getExpenseAccount(expense: { funding_source?: string | null }): LedgerAccount {
+    return expense.funding_source === 'bank' ? 'bank' : 'cash';
+}
+
+/**
+ * Post a new expense as money out of the account that paid it
+ */
+export async function postExpenseEntry(supabase: any, expense: any, createdBy?: string | null) {
+    return postLedgerEntry(supabase, {
+        residenceId: expense.residence_id,
+        account: getExpenseAccount(expense),
+        type: 'expense',
+        amount: -Number(expense.amount),
+        referenceTable: 'expenses',
+        referenceId: expense.id,
+        description: expense.description,
+        createdBy: createdBy ?? expense.created_by ?? null,
+    });
+}
+
+/**
+ * Net amount posted so far for a source row, per account
+ */
+async function getPostedByAccount(supabase: any, referenceTable: string, referenceId: number) {
+    const { data, error } = await supabase
+        .from('transaction_history')
+        .select('account, amount')
+        .eq('reference_table', referenceTable)
+        .eq('reference_id', referenceId);
+
+    if (error) {
+        throw new Error(error.message || 'Failed to read ledger entries');
+    }
+
+    const totals = new Map<LedgerAccount, number>();
+    (data || []).forEach((row: any) => {
+        totals.set(row.account, (totals.get(row.account) || 0) + Number(row.amount));
+    });
+    return totals;
+}
+
+/**
+ * Bring the ledger in line with a source row after an edit or deletion.
+ * `target` is what the row should now weigh on each account (empty when deleted);
+ * the difference with what was already posted is posted as one entry per account.
+ */
+export async function syncReferenceEntries(
+    supabase: any,
+    params: {
+        residenceId: number;
+        referenceTable: string;
+        referenceId: number;
+        target: Partial<Record<LedgerAccount, number>>;
+        description: string;
+        createdBy?: string | null;
+        method?: string | null;
+    }
+): Promise<{ success: boolean; error?: string }> {
+    let posted: Map<LedgerAccount, number>;
+    try {
+        posted = await getPostedByAccount(supabase, params.referenceTable, params.referenceId);
+    } catch (error: any) {
+        return { success: false, error: error.message };
+    }
+
+    const isRemoval = Object.keys(params.target).length === 0;
+
+    for (const account of LEDGER_ACCOUNTS) {
+        const delta = (params.target[account] || 0) - (posted.get(account) || 0);
+        if (Math.abs(delta) < 0.005) continue;
+
+        const result = await postLedgerEntry(supabase, {
+            residenceId: params.residenceId,
+            account,
+            type: isRemoval ? 'reversal' : 'adjustment',
+            amount: delta,
+            referenceTable: params.referenceTable,
+            referenceId: params.referenceId,
+            method: params.method,
+            description: params.description,
+            createdBy: params.createdBy,
+        });
+
+        if (!result.success) return result;
+    }
+
+    return { success: true };
+}
+
+/**
+ * Re-align an edited expense with the ledger (posts the amount difference,
+ * or moves it between accounts when the funding source changed).
+ * Draft expenses weigh nothing until they are recorded.
+ */
+export async function syncExpenseEntries(supabase: any, expense: any, createdBy?: string | null) {
+    return syncReferenceEntries(supabase, {
+        residenceId: expense.residence_id,
+        referenceTable: 'expenses',
+        referenceId: expense.id,
+        target: expense.status === 'draft' ? {} : { [getExpenseAccount(expense)]: -Number(expense.amount) },
+        description: `Expense edited: ${expense.description}`,
+        createdBy,
+    });
+}
+
+/**
+ * Cancel everything a deleted expense posted
+ */
+export async function reverseExpenseEntries(supabase: any, expense: any, createdBy?: string | null) {
+    return syncReferenceEntries(supabase, {
+        residenceId: expense.residence_id,
+        referenceTable: 'expenses',
+        referenceId: expense.id,
+        target: {},
+        description: `Expense deleted: ${expense.description}`,
+        createdBy,
+    });
+}
+
+/**
+ * Balance of each account (latest running balance, or the last one posted up to `asOf`)
+ */
+export async function getLedgerBalances(supabase: any, residenceId: number, asOf?: string): Promise<LedgerBalances> {
+    const balances: LedgerBalances = { cash: 0, bank: 0 };
+
+    await Promise.all(
+        LEDGER_ACCOUNTS.map(async (account) => {
+            let query = supabase
+                .from('transaction_history')
+                .select('balance_after')
+                .eq('residence_id', residenceId)
+                .eq('account', account);
+
+            if (asOf) query = query.lte('created_at', asOf);
+
+            const { data, error } = await query
+                .order('id', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            if (error) {
+                throw new Error(error.message || 'Failed to read ledger balance');
+            }
+
+            balances[account] = Number(data?.balance_after || 0);
+        })
+    );
+
+    return balances;
+}
+
+/**
+ * Ledger entries, newest first
+ */
+export async function listLedgerEntries(
+    supabase: any,
+    params: { residenceId: number; account?: LedgerAccount; from?: string; to?: string; limit?: number }
+) {
+    let query = supabase
+        .from('transaction_history')
+        .select(`
+            *,
+            author:created_by (
+                id,
+                full_name
+            )
+        `)
+        .eq('residence_id', params.residenceId)
+        .order('id', { ascending: false })
+        .limit(Math.min(Math.max(params.limit || 100, 1), 500));
+
+    if (params.account) query = query.eq('account', params.account);
+    if (params.from) query = query.gte('created_at', params.from);
+    if (params.to) query = query.lte('created_at', params.to);
+
+    const { data, error } = await query;
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch ledger entries');
+    }
+
+    return (data || []).map(({ author, ...entry }: any) => ({
+        ...entry,
+        amount: Number(entry.amount),
+        balance_after: Number(entry.balance_after),
+        created_by_name: author?.full_name || null,
+    }));
+}
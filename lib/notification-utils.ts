@@ -0,0 +1,209 @@
+/**
+ * Notification Utilities
+ * Single entry point for in-app notifications, used by server actions and mobile routes
+ */
+
+export const NOTIFICATION_CATEGORIES = [
+    'general',
+    'fees',
+    'complaints',
+    'incidents',
+    'announcements',
+    'polls',
+    'deliveries',
+    'visitors',
+] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export type NotificationType = 'info' | 'success' | 'warning' | 'error';
+
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+export interface NotifyParams {
+    userIds: (string | null | undefined)[];
+    category: NotificationCategory;
+    type?: NotificationType;
+    title: string;
+    message: string;
+    residenceId?: number | null;
+    actionData?: Record<string, any>;
+}
+
+/**
+ * Notify users, skipping anyone who turned the category off
+ * Never throws: a failed notification must not fail the action that triggered it
+ */
+export async function notifyUsers(supabase: any, params: NotifyParams): Promise<number> {
+    const recipients = Array.from(new Set(params.userIds.filter((id): id is string => !!id)));
+    if (recipients.length === 0) return 0;
+
+    try {
+        const { data: optedOut } = await supabase
+            .from('notification_preferences')
+            .select('user_id')
+            .in('user_id', recipients)
+            .eq('category', params.category)
+            .eq('enabled', false);
+
+        const mutedIds = new Set((optedOut || []).map((row: any) => row.user_id));
+        const rows = recipients
+            .filter((id) => !mutedIds.has(id))
+            .map((id) => ({
+                user_id: id,
+                type: params.type || 'info',
+                category: params.category,
+                title: params.title,
+                message: params.message,
+                residence_id: params.residenceId ?? null,
+                action_data: params.actionData || {},
+            }));
+
+        if (rows.length === 0) return 0;
+
+        const { error } = await supabase.from('notifications').insert(rows);
+        if (error) {
+            console.warn('[Notification Utils] Failed to insert notifications:', error);
+            return 0;
+        }
+
+        return rows.length;
+    } catch (error) {
+        console.warn('[Notification Utils] Failed to send notifications:', error);
+        return 0;
+    }
+}
+
+/**
+ * List a user's notifications, newest first (archived ones are left out)
+ */
+export async function listNotifications(
+    supabase: any,
+    params: { userId: string; unreadOnly?: boolean; limit?: number }
+) {
+    let query = supabase
+        .from('notifications')
+        .select('id, type, category, status, title, message, action_data, residence_id, created_at, read_at')
+        .eq('user_id', params.userId)
+        .neq('status', 'archived')
+        .order('created_at', { ascending: false })
+        .limit(Math.min(Math.max(params.limit || 20, 1), 100));
+
+    if (params.unreadOnly) {
+        query = query.eq('status', 'unread');
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch notifications');
+    }
+
+    return data || [];
+}
+
+/**
+ * Number of unread notifications for the bell badge
+ */
+export async function getUnreadCount(supabase: any, userId: string): Promise<number> {
+    const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('status', 'unread');
+
+    if (error) {
+        throw new Error(error.message || 'Failed to count notifications');
+    }
+
+    return count || 0;
+}
+
+/**
+ * Mark the given notifications as read, or all of them when no IDs are passed
+ * Scoped to the user so nobody can mark someone else's notifications
+ */
+export async function markNotificationsRead(
+    supabase: any,
+    params: { userId: string; ids?: number[] }
+): Promise<{ success: boolean; updated?: number; error?: string }> {
+    let query = supabase
+        .from('notifications')
+        .update({ status: 'read', read_at: new Date().toISOString() })
+        .eq('user_id', params.userId)
+        .eq('status', 'unread');
+
+    if (params.ids) {
+        const ids = params.ids.filter((id) => Number.isInteger(id));
+        if (ids.length === 0) return { success: true, updated: 0 };
+        query = query.in('id', ids);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+        return { success: false, error: error.message || 'Failed to update notifications' };
+    }
+
+    return { success: true, updated: (data || []).length };
+}
+
+/**
+ * Preferences for every category (categories without a row are enabled)
+ */
+export async function getNotificationPreferences(supabase: any, userId: string): Promise<NotificationPreferences> {
+    const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('category, enabled')
+        .eq('user_id', userId);
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch notification preferences');
+    }
+
+    const preferences = Object.fromEntries(
+        NOTIFICATION_CATEGORIES.map((category) => [category, true])
+    ) as NotificationPreferences;
+
+    (data || []).forEach((row: any) => {
+        if (row.category in preferences) {
+            preferences[row.category as NotificationCategory] = row.enabled;
+        }
+    });
+
+    return preferences;
+}
+
+/**
+ * Save preferences for the given categories (others are left untouched)
+ */
+export async function updateNotificationPreferences(
+    supabase: any,
+    userId: string,
+    updates: Partial<Record<string, boolean>>
+): Promise<{ success: boolean; data?: NotificationPreferences; error?: string }> {
+    const rows = Object.entries(updates)
+        .filter(([category, enabled]) =>
+            NOTIFICATION_CATEGORIES.includes(category as NotificationCategory) && typeof enabled === 'boolean'
+        )
+        .map(([category, enabled]) => ({
+            user_id: userId,
+            category,
+            enabled,
+            updated_at: new Date().toISOString(),
+        }));
+
+    if (rows.length === 0) {
+        return { success: false, error: 'No valid notification category provided' };
+    }
+
+    const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(rows, { onConflict: 'user_id,category' });
+
+    if (error) {
+        return { success: false, error: error.message || 'Failed to save notification preferences' };
+    }
+
+    return { success: true, data: await getNotificationPreferences(supabase, userId) };
+}
@@ -1,10 +1,12 @@
 /**
  * PDF Generation Utility
- * Generates PDF receipts for cash payments
+ * Generates PDF receipts for payments, residents' statements of account and the
+ * general assembly bundle
  * Uses pdf-lib for PDF generation
  */
 
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { Color, PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { embedUnicodeFont } from './unicode-font';
 
 export interface ReceiptData {
 	paymentId: number;
@@ -16,13 +18,109 @@ export interface ReceiptData {
 	residenceName: string;
 	residenceAddress: string;
 	syndicName: string;
+	method?: string; // payment method, cash when omitted
+	reference?: string | null; // e.g. Stripe payment intent of online payments
 }
 
+const RECEIPT_METHOD_LABELS: Record<string, string> = {
+	cash: 'Espèces / Cash',
+	bank_transfer: 'Virement bancaire / Bank transfer',
+	online_card: 'Carte bancaire en ligne / Online card',
+};
+
+const RECEIPT_FOOTERS: Record<string, string> = {
+	cash: 'Ce reçu confirme le paiement en espèces. / This receipt confirms cash payment.',
+	bank_transfer: 'Ce reçu confirme le paiement par virement. / This receipt confirms bank transfer payment.',
+	online_card: 'Ce reçu confirme le paiement par carte en ligne. / This receipt confirms online card payment.',
+};
+
+export interface StatementLine {
+	date: Date;
+	description: string;
+	reference: string;
+	debit: number;
+	credit: number;
+	balance: number;
+	details: string[]; // e.g. how a payment was allocated
+}
+
+export interface StatementData
+	extends Pick<ReceiptData, 'residentName' | 'apartmentNumber' | 'residenceName' | 'residenceAddress' | 'syndicName'> {
+	statementNumber: string;
+	periodStart: Date;
+	periodEnd: Date;
+	openingBalance: number; // positive = owed by the resident, negative = credit
+	closingBalance: number;
+	totalDebit: number;
+	totalCredit: number;
+	lines: StatementLine[];
+}
+
+export interface AssemblyAmountRow {
+	label: string;
+	count: number;
+	amount: number;
+}
+
+// The `assembly` messages of the chosen locale, with {placeholders}
+export type AssemblyPackLabels = Record<string, string>;
+
+export interface AssemblyPackData {
+	locale: string;
+	direction: 'ltr' | 'rtl';
+	labels: AssemblyPackLabels;
+	residenceName: string;
+	residenceAddress: string;
+	syndicName: string;
+	fiscalYear: number;
+	meeting: {
+		date: string; // YYYY-MM-DD
+		time: string; // HH:MM
+		location: string;
+		agenda: string[];
+	};
+	income: AssemblyAmountRow[];
+	totalIncome: number;
+	expenses: AssemblyAmountRow[];
+	totalExpenses: number;
+	result: number;
+	treasury: {
+		opening: { cash: number; bank: number };
+		closing: { cash: number; bank: number };
+	};
+	arrears: {
+		asOf: string; // YYYY-MM-DD
+		rows: { apartmentNumber: string; residentName: string; feeCount: number; oldestDueDate: string; amount: number }[];
+		total: number;
+	};
+	budget: {
+		rows: { label: string; actual: number; proposed: number }[];
+		total: number;
+		increasePercent: number;
+		apartmentCount: number;
+		perApartment: number | null;
+	};
+}
+
+// TrueType fonts for text the standard fonts cannot draw
+export interface AssemblyPackFonts {
+	regular: Uint8Array;
+	bold: Uint8Array;
+}
+
+// Served from public/fonts (DejaVu Sans, see LICENSE-DejaVu.txt there)
+export const ASSEMBLY_FONT_FILES = {
+	regular: 'DejaVuSans.ttf',
+	bold: 'DejaVuSans-Bold.ttf',
+};
+
 /**
- * Generate a cash payment receipt PDF
+ * Generate a payment receipt PDF
  */
-export async function generateCashReceiptPDF(data: ReceiptData): Promise<Uint8Array> {
+export async function generateReceiptPDF(data: ReceiptData): Promise<Uint8Array> {
 	try {
+		const method = data.method || 'cash';
+
 		console.log('[PDF Generator] Generating receipt for payment:', data.paymentId);
 
 		// Create a new PDF document
@@ -184,7 +282,7 @@ export async function generateCashReceiptPDF(data: ReceiptData): Promise<Uint8Ar
 		});
 
 		yPosition -= 60;
-		page.drawText('Méthode / Method: Espèces / Cash', {
+		page.drawText(`Méthode / Method: ${RECEIPT_METHOD_LABELS[method] || method}`, {
 			x: 70,
 			y: yPosition,
 			size: 11,
@@ -192,10 +290,21 @@ export async function generateCashReceiptPDF(data: ReceiptData): Promise<Uint8Ar
 			color: textColor,
 		});
 
+		if (data.reference) {
+			yPosition -= 18;
+			page.drawText(`Référence / Reference: ${data.reference}`, {
+				x: 70,
+				y: yPosition,
+				size: 10,
+				font: font,
+				color: textColor,
+			});
+		}
+
 		yPosition -= 60;
 
-		// Syndic signature
-		page.drawText('VÉRIFIÉ PAR / VERIFIED BY', {
+		// Syndic signature, or the processor for online payments
+		page.drawText(method === 'online_card' ? 'ENCAISSÉ PAR / COLLECTED BY' : 'VÉRIFIÉ PAR / VERIFIED BY', {
 			x: 50,
 			y: yPosition,
 			size: 12,
@@ -204,7 +313,7 @@ export async function generateCashReceiptPDF(data: ReceiptData): Promise<Uint8Ar
 		});
 
 		yPosition -= 20;
-		page.drawText(data.syndicName, {
+		page.drawText(method === 'online_card' ? 'Stripe' : data.syndicName, {
 			x: 50,
 			y: yPosition,
 			size: 11,
@@ -213,7 +322,7 @@ export async function generateCashReceiptPDF(data: ReceiptData): Promise<Uint8Ar
 		});
 
 		yPosition -= 18;
-		page.drawText('Syndic', {
+		page.drawText(method === 'online_card' ? `Pour le compte de / On behalf of ${data.residenceName}` : 'Syndic', {
 			x: 50,
 			y: yPosition,
 			size: 10,
@@ -231,7 +340,7 @@ export async function generateCashReceiptPDF(data: ReceiptData): Promise<Uint8Ar
 		});
 
 		yPosition -= 15;
-		page.drawText('Ce reçu confirme le paiement en espèces. / This receipt confirms cash payment.', {
+		page.drawText(RECEIPT_FOOTERS[method] || RECEIPT_FOOTERS.cash, {
 			x: 50,
 			y: yPosition,
 			size: 9,
@@ -250,6 +359,675 @@ export async function generateCashReceiptPDF(data: ReceiptData): Promise<Uint8Ar
 	}
 }
 
+/**
+ * Standard fonts only encode Latin characters; replace anything else
+ */
+function toPdfText(text: string): string {
+	return text.replace(/[^\x20-\x7E\u00A0-\u00FF]/g, '?');
+}
+
+/**
+ * Shorten text to fit a width, with an ellipsis
+ */
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+	let value = toPdfText(text);
+	if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+	while (value.length > 1 && font.widthOfTextAtSize(`${value}...`, size) > maxWidth) {
+		value = value.slice(0, -1);
+	}
+	return `${value}...`;
+}
+
+/**
+ * Format a statement amount; balances below zero are credit
+ */
+function formatStatementAmount(amount: number): string {
+	return `${amount.toFixed(2)} MAD`;
+}
+
+/**
+ * Generate a statement of account PDF for one apartment over a period
+ */
+export async function generateStatementPDF(data: StatementData): Promise<Uint8Array> {
+	try {
+		console.log('[PDF Generator] Generating statement:', data.statementNumber);
+
+		const pdfDoc = await PDFDocument.create();
+		const fontBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+		const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+		// Define colors
+		const primaryColor = rgb(0.2, 0.3, 0.5); // Dark blue
+		const textColor = rgb(0.2, 0.2, 0.2); // Dark gray
+		const accentColor = rgb(0.4, 0.6, 0.8); // Light blue
+		const mutedColor = rgb(0.5, 0.5, 0.5);
+
+		const formatDate = (date: Date) =>
+			date.toLocaleDateString('fr-FR', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' });
+
+		// Table columns (x of the left edge, or right edge for amounts)
+		const columns = { date: 50, reference: 112, description: 190, debit: 400, credit: 470, balance: 545 };
+
+		let page: PDFPage = pdfDoc.addPage([595, 842]); // A4 size in points
+		const { width, height } = page.getSize();
+		let yPosition = height - 80;
+
+		const drawRight = (text: string, right: number, y: number, size: number, bold = false) => {
+			const usedFont = bold ? fontBold : font;
+			page.drawText(text, {
+				x: right - usedFont.widthOfTextAtSize(text, size),
+				y,
+				size,
+				font: usedFont,
+				color: textColor,
+			});
+		};
+
+		const drawTableHeader = () => {
+			page.drawRectangle({
+				x: 45,
+				y: yPosition - 6,
+				width: width - 90,
+				height: 20,
+				color: rgb(0.95, 0.97, 1),
+			});
+			const headerY = yPosition;
+			page.drawText('Date', { x: columns.date, y: headerY, size: 9, font: fontBold, color: primaryColor });
+			page.drawText('Réf. / Ref.', { x: columns.reference, y: headerY, size: 9, font: fontBold, color: primaryColor });
+			page.drawText('Libellé / Description', { x: columns.description, y: headerY, size: 9, font: fontBold, color: primaryColor });
+			drawRight('Débit', columns.debit, headerY, 9, true);
+			drawRight('Crédit', columns.credit, headerY, 9, true);
+			drawRight('Solde / Balance', columns.balance, headerY, 9, true);
+			yPosition -= 24;
+		};
+
+		// Start a new page when the next block does not fit above the footer
+		const ensureSpace = (needed: number) => {
+			if (yPosition - needed >= 100) return;
+			page = pdfDoc.addPage([595, 842]);
+			yPosition = height - 60;
+			drawTableHeader();
+		};
+
+		// Title
+		page.drawText('RELEVÉ DE COMPTE / STATEMENT OF ACCOUNT', {
+			x: 50,
+			y: yPosition,
+			size: 18,
+			font: fontBold,
+			color: primaryColor,
+		});
+
+		yPosition -= 10;
+		page.drawLine({
+			start: { x: 50, y: yPosition },
+			end: { x: width - 50, y: yPosition },
+			thickness: 2,
+			color: accentColor,
+		});
+
+		yPosition -= 30;
+		page.drawText(`Relevé N°: ${toPdfText(data.statementNumber)}`, {
+			x: 50,
+			y: yPosition,
+			size: 11,
+			font: fontBold,
+			color: textColor,
+		});
+		page.drawText(`Période / Period: ${formatDate(data.periodStart)} - ${formatDate(data.periodEnd)}`, {
+			x: width - 270,
+			y: yPosition,
+			size: 10,
+			font: font,
+			color: textColor,
+		});
+
+		yPosition -= 35;
+
+		// Residence and resident information side by side
+		page.drawText('RÉSIDENCE / RESIDENCE', { x: 50, y: yPosition, size: 12, font: fontBold, color: primaryColor });
+		page.drawText('RÉSIDENT / RESIDENT', { x: 320, y: yPosition, size: 12, font: fontBold, color: primaryColor });
+
+		yPosition -= 20;
+		page.drawText(fitText(data.residenceName, fontBold, 11, 250), { x: 50, y: yPosition, size: 11, font: fontBold, color: textColor });
+		page.drawText(fitText(data.residentName, fontBold, 11, 225), { x: 320, y: yPosition, size: 11, font: fontBold, color: textColor });
+
+		yPosition -= 18;
+		page.drawText(fitText(data.residenceAddress, font, 10, 250), { x: 50, y: yPosition, size: 10, font: font, color: textColor });
+		page.drawText(`Appartement / Apartment: ${toPdfText(data.apartmentNumber)}`, { x: 320, y: yPosition, size: 10, font: font, color: textColor });
+
+		yPosition -= 18;
+		page.drawText(`Syndic: ${fitText(data.syndicName, font, 10, 200)}`, { x: 50, y: yPosition, size: 10, font: font, color: textColor });
+
+		yPosition -= 35;
+
+		// Opening balance
+		page.drawText(`Solde d'ouverture / Opening balance (${formatDate(data.periodStart)})`, {
+			x: 50,
+			y: yPosition,
+			size: 10,
+			font: fontBold,
+			color: textColor,
+		});
+		drawRight(formatStatementAmount(data.openingBalance), columns.balance, yPosition, 10, true);
+
+		yPosition -= 25;
+		drawTableHeader();
+
+		if (data.lines.length === 0) {
+			page.drawText('Aucun mouvement sur la période / No activity in this period', {
+				x: columns.description,
+				y: yPosition,
+				size: 9,
+				font: font,
+				color: mutedColor,
+			});
+			yPosition -= 18;
+		}
+
+		for (const line of data.lines) {
+			ensureSpace(16 + line.details.length * 11);
+
+			page.drawText(formatDate(line.date), { x: columns.date, y: yPosition, size: 9, font: font, color: textColor });
+			page.drawText(fitText(line.reference, font, 9, 75), { x: columns.reference, y: yPosition, size: 9, font: font, color: textColor });
+			page.drawText(fitText(line.description, font, 9, 140), { x: columns.description, y: yPosition, size: 9, font: font, color: textColor });
+			if (line.debit) drawRight(line.debit.toFixed(2), columns.debit, yPosition, 9);
+			if (line.credit) drawRight(line.credit.toFixed(2), columns.credit, yPosition, 9);
+			drawRight(line.balance.toFixed(2), columns.balance, yPosition, 9, true);
+			yPosition -= 13;
+
+			for (const detail of line.details) {
+				page.drawText(fitText(detail, font, 8, 250), { x: columns.description + 8, y: yPosition, size: 8, font: font, color: mutedColor });
+				yPosition -= 11;
+			}
+
+			yPosition -= 3;
+		}
+
+		// Totals and closing balance
+		ensureSpace(90);
+		page.drawLine({
+			start: { x: 50, y: yPosition + 6 },
+			end: { x: width - 50, y: yPosition + 6 },
+			thickness: 1,
+			color: rgb(0.8, 0.8, 0.8),
+		});
+		yPosition -= 8;
+		page.drawText('Total de la période / Period total', { x: columns.description, y: yPosition, size: 9, font: fontBold, color: textColor });
+		drawRight(data.totalDebit.toFixed(2), columns.debit, yPosition, 9, true);
+		drawRight(data.totalCredit.toFixed(2), columns.credit, yPosition, 9, true);
+
+		yPosition -= 25;
+		page.drawRectangle({
+			x: 50,
+			y: yPosition - 40,
+			width: width - 100,
+			height: 50,
+			borderColor: accentColor,
+			borderWidth: 2,
+			color: rgb(0.95, 0.97, 1),
+		});
+
+		page.drawText(
+			data.closingBalance < 0
+				? `Solde créditeur / Credit balance (${formatDate(data.periodEnd)}):`
+				: `Solde de clôture / Closing balance (${formatDate(data.periodEnd)}):`,
+			{
+				x: 70,
+				y: yPosition - 15,
+				size: 11,
+				font: font,
+				color: textColor,
+			}
+		);
+		drawRight(formatStatementAmount(Math.abs(data.closingBalance)), width - 70, yPosition - 15, 16, true);
+
+		// Footer with page numbers on every page
+		const pages = pdfDoc.getPages();
+		pages.forEach((footerPage, index) => {
+			footerPage.drawLine({
+				start: { x: 50, y: 80 },
+				end: { x: width - 50, y: 80 },
+				thickness: 1,
+				color: rgb(0.8, 0.8, 0.8),
+			});
+			footerPage.drawText('Solde positif: montant dû. Solde négatif: crédit. / Positive balance: amount owed. Negative balance: credit.', {
+				x: 50,
+				y: 65,
+				size: 8,
+				font: font,
+				color: mutedColor,
+			});
+			footerPage.drawText(`${index + 1} / ${pages.length}`, {
+				x: width - 50 - font.widthOfTextAtSize(`${index + 1} / ${pages.length}`, 8),
+				y: 52,
+				size: 8,
+				font: font,
+				color: mutedColor,
+			});
+		});
+
+		const pdfBytes = await pdfDoc.save();
+		console.log('[PDF Generator] Statement generated successfully:', pages.length, 'page(s)');
+
+		return pdfBytes;
+	} catch (error: any) {
+		console.error('[PDF Generator] Error generating statement:', error);
+		throw new Error(`Failed to generate statement: ${error.message}`);
+	}
+}
+
+// Text drawing shared by the standard fonts and embedded Unicode fonts
+interface PackFont {
+	widthOfTextAtSize: (text: string, size: number) => number;
+	draw: (page: PDFPage, text: string, options: { x: number; y: number; size: number; color: Color }) => void;
+}
+
+interface PackColumn {
+	start: number; // left edge in a left-to-right page
+	end: number;
+	align: 'start' | 'end';
+}
+
+function standardPackFont(font: PDFFont): PackFont {
+	return {
+		widthOfTextAtSize: (text, size) => font.widthOfTextAtSize(toPdfText(text), size),
+		draw: (page, text, options) => page.drawText(toPdfText(text), { ...options, font }),
+	};
+}
+
+/**
+ * Replace {placeholders} in a label
+ */
+function fillLabel(template: string | undefined, values: Record<string, string | number> = {}): string {
+	return (template || '').replace(/\{(\w+)\}/g, (match, key) => (values[key] !== undefined ? String(values[key]) : match));
+}
+
+/**
+ * Break a paragraph into lines that fit a width
+ */
+function wrapPackText(text: string, font: PackFont, size: number, maxWidth: number): string[] {
+	const lines: string[] = [];
+	let line = '';
+	for (const word of text.split(/\s+/).filter(Boolean)) {
+		const candidate = line ? `${line} ${word}` : word;
+		if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+			lines.push(line);
+			line = word;
+		} else {
+			line = candidate;
+		}
+	}
+	if (line) lines.push(line);
+	return lines;
+}
+
+/**
+ * Generate the general assembly bundle: convocation, accounts of the fiscal year,
+ * arrears per apartment and proposed budget, in the locale of `data.labels`.
+ * Right-to-left locales need `fonts`, the standard fonts only cover Latin text.
+ */
+export async function generateAssemblyPackPDF(data: AssemblyPackData, fonts?: AssemblyPackFonts): Promise<Uint8Array> {
+	try {
+		console.log('[PDF Generator] Generating assembly pack:', data.fiscalYear, data.locale);
+
+		const rtl = data.direction === 'rtl';
+		if (rtl && !fonts) {
+			throw new Error('Right-to-left text needs the Unicode fonts');
+		}
+
+		const pdfDoc = await PDFDocument.create();
+		const unicodeFonts = fonts
+			? [
+					embedUnicodeFont(pdfDoc, fonts.regular, { name: 'DejaVuSans', direction: data.direction }),
+					embedUnicodeFont(pdfDoc, fonts.bold, { name: 'DejaVuSans-Bold', direction: data.direction }),
+				]
+			: null;
+		const [font, fontBold]: PackFont[] = unicodeFonts || [
+			standardPackFont(await pdfDoc.embedFont(StandardFonts.Helvetica)),
+			standardPackFont(await pdfDoc.embedFont(StandardFonts.HelveticaBold)),
+		];
+
+		const labels = data.labels;
+		const year = data.fiscalYear;
+
+		// Define colors
+		const primaryColor = rgb(0.2, 0.3, 0.5); // Dark blue
+		const textColor = rgb(0.2, 0.2, 0.2); // Dark gray
+		const accentColor = rgb(0.4, 0.6, 0.8); // Light blue
+		const mutedColor = rgb(0.5, 0.5, 0.5);
+
+		const intlLocale = data.locale === 'ar' ? 'ar-MA' : data.locale === 'en' ? 'en-GB' : 'fr-FR';
+		const formatDate = (date: string, long = false) =>
+			new Date(`${date}T00:00:00Z`).toLocaleDateString(
+				intlLocale,
+				long
+					? { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }
+					: { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' }
+			);
+		const formatAmount = (amount: number) => `${amount.toFixed(2)} ${labels.currency || 'MAD'}`;
+
+		let page: PDFPage = pdfDoc.addPage([595, 842]); // A4 size in points
+		const { width, height } = page.getSize();
+		let yPosition = height - 80;
+
+		// Positions are given for a left-to-right page and mirrored for right-to-left text
+		const drawStart = (text: string, x: number, y: number, size: number, bold = false, color: Color = textColor) => {
+			const usedFont = bold ? fontBold : font;
+			const textWidth = usedFont.widthOfTextAtSize(text, size);
+			usedFont.draw(page, text, { x: rtl ? width - x - textWidth : x, y, size, color });
+		};
+		const drawEnd = (text: string, x: number, y: number, size: number, bold = false, color: Color = textColor) => {
+			const usedFont = bold ? fontBold : font;
+			const textWidth = usedFont.widthOfTextAtSize(text, size);
+			usedFont.draw(page, text, { x: rtl ? width - x : x - textWidth, y, size, color });
+		};
+		const fit = (text: string, size: number, maxWidth: number, bold = false) => {
+			const usedFont = bold ? fontBold : font;
+			let value = text;
+			if (usedFont.widthOfTextAtSize(value, size) <= maxWidth) return value;
+			while (value.length > 1 && usedFont.widthOfTextAtSize(`${value}...`, size) > maxWidth) {
+				value = value.slice(0, -1);
+			}
+			return `${value}...`;
+		};
+		const drawParagraph = (text: string, size: number, color: Color = textColor) => {
+			for (const line of wrapPackText(text, font, size, width - 100)) {
+				ensureSpace(size + 4);
+				drawStart(line, 50, yPosition, size, false, color);
+				yPosition -= size + 5;
+			}
+		};
+
+		let repeatHeader: (() => void) | null = null;
+
+		// Start a new page when the next block does not fit above the footer
+		const ensureSpace = (needed: number) => {
+			if (yPosition - needed >= 100) return;
+			page = pdfDoc.addPage([595, 842]);
+			yPosition = height - 60;
+			repeatHeader?.();
+		};
+
+		const startSection = (title: string, subtitle: string) => {
+			if (pdfDoc.getPageCount() > 1 || yPosition < height - 80) {
+				page = pdfDoc.addPage([595, 842]);
+			}
+			yPosition = height - 80;
+			repeatHeader = null;
+
+			drawStart(fit(data.residenceName, 9, 250), 50, yPosition + 30, 9, false, mutedColor);
+			drawEnd(fillLabel(labels.fiscalYear, { year }), width - 50, yPosition + 30, 9, false, mutedColor);
+			drawStart(title, 50, yPosition, 18, true, primaryColor);
+			yPosition -= 10;
+			page.drawLine({
+				start: { x: 50, y: yPosition },
+				end: { x: width - 50, y: yPosition },
+				thickness: 2,
+				color: accentColor,
+			});
+			yPosition -= 22;
+			if (subtitle) {
+				drawStart(subtitle, 50, yPosition, 11, false, textColor);
+				yPosition -= 30;
+			}
+		};
+
+		const drawRow = (cells: string[], columns: PackColumn[], size: number, bold = false, color: Color = textColor) => {
+			cells.forEach((cell, index) => {
+				const column = columns[index];
+				const text = fit(cell, size, column.end - column.start, bold);
+				if (column.align === 'end') {
+					drawEnd(text, column.end, yPosition, size, bold, color);
+				} else {
+					drawStart(text, column.start, yPosition, size, bold, color);
+				}
+			});
+		};
+
+		const drawTable = (
+			headers: string[],
+			columns: PackColumn[],
+			rows: string[][],
+			options: { empty: string; total?: string[] }
+		) => {
+			const drawHeader = () => {
+				page.drawRectangle({
+					x: 45,
+					y: yPosition - 6,
+					width: width - 90,
+					height: 20,
+					color: rgb(0.95, 0.97, 1),
+				});
+				drawRow(headers, columns, 9, true, primaryColor);
+				yPosition -= 22;
+			};
+
+			ensureSpace(60);
+			drawHeader();
+			repeatHeader = drawHeader;
+
+			if (rows.length === 0) {
+				drawStart(options.empty, columns[0].start, yPosition, 9, false, mutedColor);
+				yPosition -= 16;
+			}
+
+			for (const row of rows) {
+				ensureSpace(16);
+				drawRow(row, columns, 9);
+				yPosition -= 15;
+			}
+
+			if (options.total) {
+				ensureSpace(24);
+				page.drawLine({
+					start: { x: 50, y: yPosition + 8 },
+					end: { x: width - 50, y: yPosition + 8 },
+					thickness: 1,
+					color: rgb(0.8, 0.8, 0.8),
+				});
+				yPosition -= 4;
+				drawRow(options.total, columns, 9, true);
+				yPosition -= 15;
+			}
+
+			repeatHeader = null;
+			yPosition -= 18;
+		};
+
+		const drawHighlight = (label: string, value: string) => {
+			ensureSpace(60);
+			page.drawRectangle({
+				x: 50,
+				y: yPosition - 22,
+				width: width - 100,
+				height: 36,
+				borderColor: accentColor,
+				borderWidth: 2,
+				color: rgb(0.95, 0.97, 1),
+			});
+			drawStart(label, 70, yPosition - 8, 11, false, textColor);
+			drawEnd(value, width - 70, yPosition - 9, 14, true, textColor);
+			yPosition -= 50;
+		};
+
+		// 1. Convocation letter
+		startSection(labels.title, fillLabel(labels.fiscalYear, { year }));
+
+		drawStart(fit(data.residenceName, 12, width - 100, true), 50, yPosition, 12, true);
+		yPosition -= 16;
+		if (data.residenceAddress) {
+			drawStart(fit(data.residenceAddress, 10, width - 100), 50, yPosition, 10);
+			yPosition -= 14;
+		}
+		drawStart(`${labels.signature}: ${fit(data.syndicName, 10, 250)}`, 50, yPosition, 10);
+		yPosition -= 35;
+
+		drawStart(labels.convocationTitle, 50, yPosition, 14, true, primaryColor);
+		yPosition -= 18;
+		drawStart(labels.convocationRecipient, 50, yPosition, 10, false, mutedColor);
+		yPosition -= 30;
+
+		drawStart(labels.greeting, 50, yPosition, 10);
+		yPosition -= 20;
+		drawParagraph(fillLabel(labels.convocationIntro, { residence: data.residenceName, year, nextYear: year + 1 }), 10);
+		yPosition -= 15;
+
+		// Date, time and place
+		const meetingRows: [string, string][] = [
+			[labels.meetingDate, formatDate(data.meeting.date, true)],
+			[labels.meetingTime, data.meeting.time],
+			[labels.meetingLocation, data.meeting.location],
+		];
+		page.drawRectangle({
+			x: 50,
+			y: yPosition - meetingRows.length * 18 + 4,
+			width: width - 100,
+			height: meetingRows.length * 18 + 10,
+			borderColor: accentColor,
+			borderWidth: 1,
+			color: rgb(0.95, 0.97, 1),
+		});
+		yPosition -= 8;
+		for (const [label, value] of meetingRows) {
+			drawStart(label, 70, yPosition, 10, true);
+			drawStart(fit(value, 10, width - 260), 180, yPosition, 10);
+			yPosition -= 18;
+		}
+		yPosition -= 25;
+
+		drawStart(labels.agendaTitle, 50, yPosition, 12, true, primaryColor);
+		yPosition -= 20;
+		data.meeting.agenda.forEach((item, index) => {
+			const lines = wrapPackText(item, font, 10, width - 130);
+			ensureSpace(lines.length * 15);
+			drawStart(`${index + 1}.`, 60, yPosition, 10, true);
+			for (const line of lines) {
+				drawStart(line, 80, yPosition, 10);
+				yPosition -= 15;
+			}
+		});
+		yPosition -= 15;
+
+		drawParagraph(labels.proxyNotice, 9, mutedColor);
+		yPosition -= 30;
+
+		ensureSpace(50);
+		drawStart(fillLabel(labels.generatedOn, { date: formatDate(data.arrears.asOf, true) }), 50, yPosition, 10);
+		drawEnd(labels.signature, width - 50, yPosition, 10, true);
+		yPosition -= 15;
+		drawEnd(fit(data.syndicName, 10, 200), width - 50, yPosition, 10);
+
+		// 2. Income and expense statement
+		startSection(
+			fillLabel(labels.accountsTitle, { year }),
+			fillLabel(labels.accountsPeriod, { from: formatDate(`${year}-01-01`), to: formatDate(`${year}-12-31`) })
+		);
+
+		const amountColumns: PackColumn[] = [
+			{ start: 50, end: 330, align: 'start' },
+			{ start: 340, end: 420, align: 'end' },
+			{ start: 430, end: 545, align: 'end' },
+		];
+		const amountRows = (rows: AssemblyAmountRow[]) =>
+			rows.map((row) => [row.label, String(row.count), formatAmount(row.amount)]);
+
+		drawTable([labels.income, labels.operations, labels.amount], amountColumns, amountRows(data.income), {
+			empty: labels.noIncome,
+			total: [labels.incomeTotal, '', formatAmount(data.totalIncome)],
+		});
+		drawTable([labels.expenses, labels.operations, labels.amount], amountColumns, amountRows(data.expenses), {
+			empty: labels.noExpenses,
+			total: [labels.expensesTotal, '', formatAmount(data.totalExpenses)],
+		});
+		drawHighlight(`${labels.result}:`, formatAmount(data.result));
+
+		const { opening, closing } = data.treasury;
+		drawTable(
+			[labels.account, labels.opening, labels.closing],
+			amountColumns,
+			[
+				[labels.cash, formatAmount(opening.cash), formatAmount(closing.cash)],
+				[labels.bank, formatAmount(opening.bank), formatAmount(closing.bank)],
+			],
+			{
+				empty: '',
+				total: [labels.total, formatAmount(opening.cash + opening.bank), formatAmount(closing.cash + closing.bank)],
+			}
+		);
+
+		// 3. Arrears per apartment
+		startSection(labels.arrearsTitle, fillLabel(labels.arrearsAsOf, { date: formatDate(data.arrears.asOf, true) }));
+
+		drawTable(
+			[labels.apartment, labels.owner, labels.unpaidFees, labels.oldestDue, labels.balanceDue],
+			[
+				{ start: 50, end: 120, align: 'start' },
+				{ start: 125, end: 300, align: 'start' },
+				{ start: 305, end: 370, align: 'end' },
+				{ start: 380, end: 460, align: 'end' },
+				{ start: 465, end: 545, align: 'end' },
+			],
+			data.arrears.rows.map((row) => [
+				row.apartmentNumber,
+				row.residentName,
+				String(row.feeCount),
+				formatDate(row.oldestDueDate),
+				formatAmount(row.amount),
+			]),
+			{
+				empty: labels.noArrears,
+				total: data.arrears.rows.length > 0 ? [labels.arrearsTotal, '', '', '', formatAmount(data.arrears.total)] : undefined,
+			}
+		);
+
+		// 4. Proposed budget
+		const percent = `${data.budget.increasePercent > 0 ? '+' : ''}${data.budget.increasePercent}`;
+		startSection(fillLabel(labels.budgetTitle, { year: year + 1 }), '');
+		drawParagraph(fillLabel(labels.budgetIntro, { year, percent }), 10);
+		yPosition -= 15;
+
+		drawTable(
+			[labels.category, fillLabel(labels.actual, { year }), fillLabel(labels.proposed, { year: year + 1 })],
+			amountColumns,
+			data.budget.rows.map((row) => [row.label, formatAmount(row.actual), formatAmount(row.proposed)]),
+			{
+				empty: labels.noBudget,
+				total: [labels.budgetTotal, '', formatAmount(data.budget.total)],
+			}
+		);
+
+		if (data.budget.perApartment !== null) {
+			drawHighlight(fillLabel(labels.perApartment, { count: data.budget.apartmentCount }), formatAmount(data.budget.perApartment));
+			drawEnd(`${labels.perMonth}: ${formatAmount(data.budget.perApartment / 12)}`, width - 70, yPosition + 20, 10);
+		}
+
+		// Footer with page numbers on every page
+		const pages = pdfDoc.getPages();
+		pages.forEach((footerPage, index) => {
+			page = footerPage;
+			page.drawLine({
+				start: { x: 50, y: 80 },
+				end: { x: width - 50, y: 80 },
+				thickness: 1,
+				color: rgb(0.8, 0.8, 0.8),
+			});
+			drawStart(fit(labels.footer, 8, width - 160), 50, 65, 8, false, mutedColor);
+			drawEnd(`${index + 1} / ${pages.length}`, width - 50, 52, 8, false, mutedColor);
+		});
+
+		unicodeFonts?.forEach((unicodeFont) => unicodeFont.finalize());
+
+		const pdfBytes = await pdfDoc.save();
+		console.log('[PDF Generator] Assembly pack generated successfully:', pages.length, 'page(s)');
+
+		return pdfBytes;
+	} catch (error: any) {
+		console.error('[PDF Generator] Error generating assembly pack:', error);
+		throw new Error(`Failed to generate assembly pack: ${error.message}`);
+	}
+}
+
 /**
  * Download PDF blob as file
  */
@@ -0,0 +1,405 @@
+/**
+ * Unicode Font Embedding
+ * Standard PDF fonts only cover Latin text and fontkit is not a dependency, so this
+ * embeds a TrueType font as a composite (Type0 / CIDFontType2) font with pdf-lib's
+ * low-level objects. Arabic is shaped with the Presentation Forms-B glyphs and laid
+ * out right-to-left, which is enough for labels, names and tables (no kerning and
+ * no GSUB/GPOS features). The whole font file is embedded.
+ */
+
+import {
+	beginText,
+	Color,
+	endText,
+	moveText,
+	PDFDict,
+	PDFDocument,
+	PDFHexString,
+	PDFName,
+	PDFPage,
+	PDFRef,
+	PDFString,
+	popGraphicsState,
+	pushGraphicsState,
+	setFillingColor,
+	setFontAndSize,
+	showText,
+} from 'pdf-lib';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface UnicodeFont {
+	name: string;
+	widthOfTextAtSize: (text: string, size: number) => number;
+	draw: (page: PDFPage, text: string, options: { x: number; y: number; size: number; color: Color }) => void;
+	// Writes the widths and the ToUnicode map of the glyphs used; call once before saving
+	finalize: () => void;
+}
+
+interface TrueTypeFont {
+	unitsPerEm: number;
+	bbox: [number, number, number, number];
+	ascent: number;
+	descent: number;
+	advances: number[];
+	glyphFor: (codePoint: number) => number;
+}
+
+/**
+ * Read the metrics and the Unicode cmap of a TrueType font
+ */
+function parseTrueType(bytes: Uint8Array): TrueTypeFont {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const tables: Record<string, number> = {};
+	const numTables = view.getUint16(4);
+	for (let i = 0; i < numTables; i++) {
+		const record = 12 + i * 16;
+		const tag = String.fromCharCode(bytes[record], bytes[record + 1], bytes[record + 2], bytes[record + 3]);
+		tables[tag] = view.getUint32(record + 8);
+	}
+
+	for (const tag of ['head', 'hhea', 'maxp', 'hmtx', 'cmap']) {
+		if (tables[tag] === undefined) throw new Error(`Font has no ${tag} table`);
+	}
+
+	const head = tables.head;
+	const unitsPerEm = view.getUint16(head + 18);
+	const bbox: [number, number, number, number] = [
+		view.getInt16(head + 36),
+		view.getInt16(head + 38),
+		view.getInt16(head + 40),
+		view.getInt16(head + 42),
+	];
+
+	const hhea = tables.hhea;
+	const ascent = view.getInt16(hhea + 4);
+	const descent = view.getInt16(hhea + 6);
+	const numberOfHMetrics = view.getUint16(hhea + 34);
+	const numGlyphs = view.getUint16(tables.maxp + 4);
+
+	// Glyphs past numberOfHMetrics repeat the last advance
+	const advances: number[] = [];
+	for (let gid = 0; gid < numGlyphs; gid++) {
+		advances.push(view.getUint16(tables.hmtx + Math.min(gid, numberOfHMetrics - 1) * 4));
+	}
+
+	// Windows Unicode BMP subtable (format 4)
+	const cmap = tables.cmap;
+	let subtable = -1;
+	for (let i = 0; i < view.getUint16(cmap + 2); i++) {
+		const record = cmap + 4 + i * 8;
+		if (view.getUint16(record) === 3 && view.getUint16(record + 2) === 1) {
+			subtable = cmap + view.getUint32(record + 4);
+		}
+	}
+	if (subtable < 0 || view.getUint16(subtable) !== 4) {
+		throw new Error('Font has no Unicode BMP cmap');
+	}
+
+	const segCountX2 = view.getUint16(subtable + 6);
+	const endCodes = subtable + 14;
+	const startCodes = endCodes + segCountX2 + 2;
+	const idDeltas = startCodes + segCountX2;
+	const idRangeOffsets = idDeltas + segCountX2;
+
+	const glyphFor = (codePoint: number): number => {
+		if (codePoint > 0xffff) return 0;
+		for (let segment = 0; segment < segCountX2; segment += 2) {
+			if (codePoint > view.getUint16(endCodes + segment)) continue;
+			const start = view.getUint16(startCodes + segment);
+			if (codePoint < start) return 0;
+			const delta = view.getInt16(idDeltas + segment);
+			const rangeOffset = view.getUint16(idRangeOffsets + segment);
+			if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+			const glyph = view.getUint16(idRangeOffsets + segment + rangeOffset + (codePoint - start) * 2);
+			return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+		}
+		return 0;
+	};
+
+	return { unitsPerEm, bbox, ascent, descent, advances, glyphFor };
+}
+
+// Arabic letters: isolated form in Presentation Forms-B and whether the letter joins
+// on both sides (dual) or only to the previous letter (right). Final, initial and
+// medial forms follow the isolated one.
+const ARABIC_FORMS: Record<number, [number, 'dual' | 'right' | 'none']> = {
+	0x0621: [0xfe80, 'none'],
+	0x0622: [0xfe81, 'right'],
+	0x0623: [0xfe83, 'right'],
+	0x0624: [0xfe85, 'right'],
+	0x0625: [0xfe87, 'right'],
+	0x0626: [0xfe89, 'dual'],
+	0x0627: [0xfe8d, 'right'],
+	0x0628: [0xfe8f, 'dual'],
+	0x0629: [0xfe93, 'right'],
+	0x062a: [0xfe95, 'dual'],
+	0x062b: [0xfe99, 'dual'],
+	0x062c: [0xfe9d, 'dual'],
+	0x062d: [0xfea1, 'dual'],
+	0x062e: [0xfea5, 'dual'],
+	0x062f: [0xfea9, 'right'],
+	0x0630: [0xfeab, 'right'],
+	0x0631: [0xfead, 'right'],
+	0x0632: [0xfeaf, 'right'],
+	0x0633: [0xfeb1, 'dual'],
+	0x0634: [0xfeb5, 'dual'],
+	0x0635: [0xfeb9, 'dual'],
+	0x0636: [0xfebd, 'dual'],
+	0x0637: [0xfec1, 'dual'],
+	0x0638: [0xfec5, 'dual'],
+	0x0639: [0xfec9, 'dual'],
+	0x063a: [0xfecd, 'dual'],
+	0x0641: [0xfed1, 'dual'],
+	0x0642: [0xfed5, 'dual'],
+	0x0643: [0xfed9, 'dual'],
+	0x0644: [0xfedd, 'dual'],
+	0x0645: [0xfee1, 'dual'],
+	0x0646: [0xfee5, 'dual'],
+	0x0647: [0xfee9, 'dual'],
+	0x0648: [0xfeed, 'right'],
+	0x0649: [0xfeef, 'right'],
+	0x064a: [0xfef1, 'dual'],
+};
+
+// Lam followed by one of these alefs is written as a single ligature (isolated form)
+const LAM_ALEF: Record<number, number> = {
+	0x0622: 0xfef5,
+	0x0623: 0xfef7,
+	0x0625: 0xfef9,
+	0x0627: 0xfefb,
+};
+
+const TATWEEL = 0x0640;
+
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<' };
+
+// Arabic-Indic digits are numbers, written left to right like Latin ones
+function isArabic(codePoint: number): boolean {
+	if (codePoint >= 0x0660 && codePoint <= 0x0669) return false;
+	return (codePoint >= 0x0600 && codePoint <= 0x06ff) || (codePoint >= 0xfb50 && codePoint <= 0xfeff);
+}
+
+function isStrongLtr(char: string): boolean {
+	return /[A-Za-z0-9\u00C0-\u024F\u0660-\u0669]/.test(char);
+}
+
+/**
+ * Replace Arabic letters with their contextual forms (logical order is kept)
+ */
+function shapeArabic(text: string): string {
+	// Harakat and directional marks are dropped
+	const chars = Array.from(text.replace(/[\u064B-\u065F\u0670\u061C\u200E\u200F\u202A-\u202E\u2066-\u2069]/g, ''));
+	const joinsForward = (char: string | undefined) => {
+		if (!char) return false;
+		const codePoint = char.codePointAt(0)!;
+		return codePoint === TATWEEL || ARABIC_FORMS[codePoint]?.[1] === 'dual';
+	};
+	const joinsBackward = (char: string | undefined) => {
+		if (!char) return false;
+		const codePoint = char.codePointAt(0)!;
+		const type = ARABIC_FORMS[codePoint]?.[1];
+		return codePoint === TATWEEL || type === 'dual' || type === 'right';
+	};
+
+	let shaped = '';
+	for (let i = 0; i < chars.length; i++) {
+		const codePoint = chars[i].codePointAt(0)!;
+		const forms = ARABIC_FORMS[codePoint];
+		if (!forms) {
+			shaped += chars[i];
+			continue;
+		}
+
+		const afterPrevious = joinsForward(chars[i - 1]);
+		const ligature = codePoint === 0x0644 ? LAM_ALEF[chars[i + 1]?.codePointAt(0) ?? 0] : undefined;
+		if (ligature) {
+			shaped += String.fromCodePoint(ligature + (afterPrevious ? 1 : 0));
+			i++;
+			continue;
+		}
+
+		const [isolated, joining] = forms;
+		const beforeNext = joining === 'dual' && joinsBackward(chars[i + 1]);
+		let form = 0;
+		if (joining === 'dual') {
+			form = afterPrevious && beforeNext ? 3 : afterPrevious ? 1 : beforeNext ? 2 : 0;
+		} else if (joining === 'right') {
+			form = afterPrevious ? 1 : 0;
+		}
+		shaped += String.fromCodePoint(isolated + form);
+	}
+	return shaped;
+}
+
+/**
+ * Visual order of a line. Neutrals (spaces, punctuation) between two characters of
+ * the same direction take it, the others take the paragraph direction: the one
+ * given, or the one of the first strong character
+ */
+function toVisualOrder(text: string, direction?: TextDirection): string {
+	const chars = Array.from(text);
+	const isStrong = (char: string) => isStrongLtr(char) || isArabic(char.codePointAt(0)!);
+	const firstStrong = chars.find(isStrong);
+	// Text with no Arabic at all (names, references, amounts) stays left to right
+	if (!firstStrong || !chars.some((char) => isArabic(char.codePointAt(0)!))) return text;
+	const rtl = direction ? direction === 'rtl' : !isStrongLtr(firstStrong);
+
+	type Run = { ltr: boolean; chars: string[] };
+	const runs: Run[] = [];
+	chars.forEach((char, index) => {
+		let ltr: boolean;
+		if (isStrong(char)) {
+			ltr = isStrongLtr(char);
+		} else {
+			const before = chars.slice(0, index).reverse().find(isStrong);
+			const after = chars.slice(index + 1).find(isStrong);
+			ltr = before && after && isStrongLtr(before) === isStrongLtr(after) ? isStrongLtr(before) : !rtl;
+		}
+		const last = runs[runs.length - 1];
+		if (last && last.ltr === ltr) {
+			last.chars.push(char);
+		} else {
+			runs.push({ ltr, chars: [char] });
+		}
+	});
+
+	const ordered = rtl ? runs.reverse() : runs;
+	return ordered
+		.map((run) => (run.ltr ? run.chars.join('') : run.chars.reverse().map((char) => MIRRORED[char] || char).join('')))
+		.join('');
+}
+
+/**
+ * Embed a TrueType font (the bytes of a .ttf file) into a document. `direction` is
+ * the paragraph direction of every text drawn with it, detected per text when omitted
+ */
+export function embedUnicodeFont(
+	pdfDoc: PDFDocument,
+	bytes: Uint8Array,
+	options: { name: string; direction?: TextDirection }
+): UnicodeFont {
+	const { name, direction } = options;
+	const font = parseTrueType(bytes);
+	const context = pdfDoc.context;
+	const scale = 1000 / font.unitsPerEm;
+	const toPdfUnits = (value: number) => Math.round(value * scale);
+
+	const fontFileRef = context.register(context.flateStream(bytes, { Length1: bytes.length }));
+	const descriptorRef = context.register(
+		context.obj({
+			Type: 'FontDescriptor',
+			FontName: name,
+			Flags: 32, // non-symbolic
+			FontBBox: font.bbox.map(toPdfUnits),
+			ItalicAngle: 0,
+			Ascent: toPdfUnits(font.ascent),
+			Descent: toPdfUnits(font.descent),
+			CapHeight: toPdfUnits(font.ascent),
+			StemV: 80,
+			FontFile2: fontFileRef,
+		})
+	);
+	const cidFont = context.obj({
+		Type: 'Font',
+		Subtype: 'CIDFontType2',
+		BaseFont: name,
+		CIDSystemInfo: {
+			Registry: PDFString.of('Adobe'),
+			Ordering: PDFString.of('Identity'),
+			Supplement: 0,
+		},
+		FontDescriptor: descriptorRef,
+		CIDToGIDMap: 'Identity',
+	}) as PDFDict;
+	const type0Font = context.obj({
+		Type: 'Font',
+		Subtype: 'Type0',
+		BaseFont: name,
+		Encoding: 'Identity-H',
+		DescendantFonts: [context.register(cidFont)],
+	}) as PDFDict;
+	const fontRef: PDFRef = context.register(type0Font);
+
+	// Glyphs drawn so far, with the text they stand for
+	const usedGlyphs = new Map<number, string>();
+	const pageKeys = new WeakMap<PDFPage, PDFName>();
+
+	const toGlyphs = (text: string) =>
+		Array.from(toVisualOrder(shapeArabic(text), direction)).map((char) => ({
+			char,
+			glyph: font.glyphFor(char.codePointAt(0)!),
+		}));
+
+	const widthOfTextAtSize = (text: string, size: number) =>
+		toGlyphs(text).reduce((sum, { glyph }) => sum + (font.advances[glyph] || 0), 0) * (size / font.unitsPerEm);
+
+	const draw = (page: PDFPage, text: string, options: { x: number; y: number; size: number; color: Color }) => {
+		let key = pageKeys.get(page);
+		if (!key) {
+			key = page.node.newFontDictionary(name, fontRef);
+			pageKeys.set(page, key);
+		}
+
+		const glyphs = toGlyphs(text);
+		glyphs.forEach(({ char, glyph }) => usedGlyphs.set(glyph, char));
+		const hex = glyphs.map(({ glyph }) => glyph.toString(16).padStart(4, '0')).join('');
+
+		page.pushOperators(
+			pushGraphicsState(),
+			beginText(),
+			setFillingColor(options.color),
+			setFontAndSize(key, options.size),
+			moveText(options.x, options.y),
+			showText(PDFHexString.of(hex)),
+			endText(),
+			popGraphicsState()
+		);
+	};
+
+	const finalize = () => {
+		const glyphs = Array.from(usedGlyphs.keys()).sort((a, b) => a - b);
+
+		cidFont.set(PDFName.of('DW'), context.obj(toPdfUnits(font.advances[0] || 0)));
+		cidFont.set(PDFName.of('W'), context.obj(glyphs.flatMap((glyph) => [glyph, [toPdfUnits(font.advances[glyph] || 0)]])));
+
+		// ToUnicode map, so the text can be searched and copied
+		const toHex = (value: number) => value.toString(16).padStart(4, '0').toUpperCase();
+		const entries = glyphs.map((glyph) => {
+			const utf16 = Array.from(usedGlyphs.get(glyph)!)
+				.flatMap((char) => {
+					const codePoint = char.codePointAt(0)!;
+					if (codePoint <= 0xffff) return [codePoint];
+					const offset = codePoint - 0x10000;
+					return [0xd800 + (offset >> 10), 0xdc00 + (offset & 0x3ff)];
+				})
+				.map(toHex)
+				.join('');
+			return `<${toHex(glyph)}> <${utf16}>`;
+		});
+		const blocks: string[] = [];
+		for (let i = 0; i < entries.length; i += 100) {
+			const block = entries.slice(i, i + 100);
+			blocks.push(`${block.length} beginbfchar\n${block.join('\n')}\nendbfchar`);
+		}
+		const cmap = [
+			'/CIDInit /ProcSet findresource begin',
+			'12 dict begin',
+			'begincmap',
+			'/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+			'/CMapName /Adobe-Identity-UCS def',
+			'/CMapType 2 def',
+			'1 begincodespacerange',
+			'<0000> <FFFF>',
+			'endcodespacerange',
+			...blocks,
+			'endcmap',
+			'CMapName currentdict /CMap defineresource pop',
+			'end',
+			'end',
+		].join('\n');
+		type0Font.set(PDFName.of('ToUnicode'), context.register(context.flateStream(cmap)));
+	};
+
+	return { name, widthOfTextAtSize, draw, finalize };
+}
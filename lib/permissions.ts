@@ -0,0 +1,245 @@
+import { getRequestedResidenceId, getUserResidenceId, getUserResidences } from '@/lib/residence-utils';
+
+/**
+ * Permissions
+ * What each user_role may do, and guards that resolve the acting user's role and
+ * residence in one place. Shared by server actions and /api/mobile route handlers:
+ *
+ *     const access = await authorize(supabase, userId, 'fees.manage');
+ *     if (!access.ok) return { success: false, error: access.error };
+ *     const { residenceId } = access.actor;
+ */
+
+export type UserRole = 'syndic' | 'resident' | 'guard';
+
+export type Capability =
+    | 'residence.view'
+    | 'residents.manage'
+    | 'fees.view_all'
+    | 'fees.manage'
+    | 'payments.view_all'
+    | 'payments.record'
+    | 'payments.declare'
+    | 'payments.verify'
+    | 'accounts.view_all'
+    | 'expenses.view'
+    | 'expenses.manage'
+    | 'ledger.view'
+    | 'ledger.manage'
+    | 'reconciliations.manage'
+    | 'announcements.manage'
+    | 'polls.manage'
+    | 'polls.vote'
+    | 'complaints.create'
+    | 'complaints.review'
+    | 'incidents.create'
+    | 'incidents.manage'
+    | 'deliveries.manage'
+    | 'deliveries.report'
+    | 'visitor_passes.create'
+    | 'visitor_passes.verify'
+    | 'calendar.manage'
+    | 'analytics.view';
+
+const ROLE_CAPABILITIES: Record<UserRole, readonly Capability[]> = {
+    syndic: [
+        'residence.view',
+        'residents.manage',
+        'fees.view_all',
+        'fees.manage',
+        'payments.view_all',
+        'payments.record',
+        'payments.verify',
+        'accounts.view_all',
+        'expenses.view',
+        'expenses.manage',
+        'ledger.view',
+        'ledger.manage',
+        'reconciliations.manage',
+        'announcements.manage',
+        'polls.manage',
+        'polls.vote',
+        'complaints.review',
+        'incidents.create',
+        'incidents.manage',
+        'deliveries.manage',
+        'deliveries.report',
+        'visitor_passes.create',
+        'visitor_passes.verify',
+        'calendar.manage',
+        'analytics.view',
+    ],
+    resident: [
+        'residence.view',
+        'payments.declare',
+        'expenses.view',
+        'polls.vote',
+        'complaints.create',
+        'incidents.create',
+        'visitor_passes.create',
+    ],
+    guard: [
+        'residence.view',
+        'fees.view_all',
+        'payments.view_all',
+        'expenses.view',
+        'incidents.create',
+        'deliveries.manage',
+        'visitor_passes.verify',
+    ],
+};
+
+// Used in "Only syndics can ..." errors
+const CAPABILITY_LABELS: Record<Capability, string> = {
+    'residence.view': 'view this residence',
+    'residents.manage': 'manage residents',
+    'fees.view_all': 'view all fees',
+    'fees.manage': 'manage fees',
+    'payments.view_all': 'view all payments',
+    'payments.record': 'record payments',
+    'payments.declare': 'declare bank transfers',
+    'payments.verify': 'verify bank transfers',
+    'accounts.view_all': 'view resident accounts',
+    'expenses.view': 'view expenses',
+    'expenses.manage': 'manage expenses',
+    'ledger.view': 'view the ledger',
+    'ledger.manage': 'post refunds and adjustments',
+    'reconciliations.manage': 'close periods',
+    'announcements.manage': 'manage announcements',
+    'polls.manage': 'manage polls',
+    'polls.vote': 'vote in polls',
+    'complaints.create': 'file complaints',
+    'complaints.review': 'review complaints',
+    'incidents.create': 'report incidents',
+    'incidents.manage': 'manage incidents',
+    'deliveries.manage': 'log deliveries',
+    'deliveries.report': 'view the uncollected parcels report',
+    'visitor_passes.create': 'create visitor passes',
+    'visitor_passes.verify': 'verify visitor passes',
+    'calendar.manage': 'manage calendar events',
+    'analytics.view': 'view analytics',
+};
+
+const ROLE_PLURALS: Record<UserRole, string> = {
+    syndic: 'syndics',
+    resident: 'residents',
+    guard: 'guards',
+};
+
+export interface Actor {
+    userId: string;
+    role: UserRole;
+    residenceId: number;
+}
+
+export type Authorization =
+    | { ok: true; actor: Actor }
+    | { ok: false; status: 400 | 401 | 403; error: string };
+
+export function isUserRole(role: unknown): role is UserRole {
+    return role === 'syndic' || role === 'resident' || role === 'guard';
+}
+
+/**
+ * Whether a role has a capability
+ */
+export function can(role: string | null | undefined, capability: Capability): boolean {
+    return isUserRole(role) && ROLE_CAPABILITIES[role].includes(capability);
+}
+
+/**
+ * Roles that have a capability
+ */
+export function rolesWith(capability: Capability): UserRole[] {
+    return (Object.keys(ROLE_CAPABILITIES) as UserRole[]).filter((role) => can(role, capability));
+}
+
+/**
+ * Error shown when a role lacks a capability, e.g. "Only syndics can manage fees"
+ */
+export function forbiddenMessage(capability: Capability): string {
+    const roles = rolesWith(capability).map((role) => ROLE_PLURALS[role]);
+    const who = roles.length > 1 ? `${roles.slice(0, -1).join(', ')} and ${roles[roles.length - 1]}` : roles[0];
+    return `Only ${who} can ${CAPABILITY_LABELS[capability]}`;
+}
+
+/**
+ * Role of a user, or null when they have no profile
+ */
+export async function getUserRole(supabase: any, userId: string): Promise<UserRole | null> {
+    const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', userId)
+        .maybeSingle();
+
+    return isUserRole(profile?.role) ? profile.role : null;
+}
+
+/**
+ * Role a user acts as. Users holding several roles (a syndic who also lives in one of
+ * the residences) switch between them in the mobile app; a requested role is only
+ * honoured when the user manages, guards or lives in a residence in that role.
+ */
+export async function resolveActingRole(
+    supabase: any,
+    userId: string,
+    profileRole: UserRole,
+    requestedRole?: string | null
+): Promise<UserRole | null> {
+    if (!requestedRole || requestedRole === profileRole) return profileRole;
+    if (!isUserRole(requestedRole)) return null;
+
+    const residences = await getUserResidences(supabase, userId, requestedRole);
+    return residences.length > 0 ? requestedRole : null;
+}
+
+/**
+ * Resolve the acting user and check they hold `capability` in their active residence.
+ * `actingRole` is the role picked in the mobile app's role switcher, if any.
+ * Fails with 401 without a user, 403 without a profile or the capability, when the
+ * requested role or residence is not theirs, and 400 when the user has no residence.
+ */
+export async function authorize(
+    supabase: any,
+    userId: string | null | undefined,
+    capability: Capability = 'residence.view',
+    residenceId?: number | null,
+    actingRole?: string | null
+): Promise<Authorization> {
+    if (!userId) {
+        return { ok: false, status: 401, error: 'User not authenticated' };
+    }
+
+    const profileRole = await getUserRole(supabase, userId);
+    if (!profileRole) {
+        return { ok: false, status: 403, error: 'User profile not found' };
+    }
+
+    const role = await resolveActingRole(supabase, userId, profileRole, actingRole);
+    if (!role) {
+        return { ok: false, status: 403, error: `You are not registered as a ${actingRole}` };
+    }
+
+    if (!can(role, capability)) {
+        return { ok: false, status: 403, error: forbiddenMessage(capability) };
+    }
+
+    const activeResidenceId = await getUserResidenceId(supabase, userId, role, residenceId);
+    if (!activeResidenceId) {
+        if (residenceId ?? await getRequestedResidenceId()) {
+            return { ok: false, status: 403, error: 'You do not have access to this residence' };
+        }
+        return { ok: false, status: 400, error: 'User has no residence assigned' };
+    }
+
+    return { ok: true, actor: { userId, role, residenceId: activeResidenceId } };
+}
+
+/**
+ * Check that a record belongs to the actor's residence.
+ * Records of other residences are reported as not found so their existence does not leak.
+ */
+export function ownsRecord(actor: Actor, record: { residence_id?: number | null } | null | undefined): boolean {
+    return !!record && Number(record.residence_id) === actor.residenceId;
+}
@@ -0,0 +1,455 @@
+import { toCSV } from '@/lib/csv';
+
+/**
+ * Poll Utilities
+ * Shared voting rules and result computation used by server actions and mobile routes
+ */
+
+export type PollVoteScope = 'apartment' | 'profile';
+
+export interface PollRecord {
+    id: number;
+    residence_id: number;
+    question: string;
+    description?: string | null;
+    is_active: boolean | null;
+    closes_at: string | null;
+    closed_at: string | null;
+    vote_scope: PollVoteScope;
+    quorum_percent: number | null;
+    is_anonymous: boolean;
+    created_at?: string;
+}
+
+export interface PollOptionResult {
+    id: number;
+    option_text: string;
+    votes: number;
+    percent: number;
+}
+
+export interface PollParticipationRow {
+    apartment_number: string;
+    residents: string[];
+    voted: boolean;
+    voted_at: string | null;
+    // Only filled for non-anonymous polls
+    choice: string | null;
+}
+
+export interface PollResults {
+    pollId: number;
+    isOpen: boolean;
+    totalVotes: number;
+    eligibleVoters: number;
+    participationPercent: number;
+    quorumPercent: number | null;
+    quorumReached: boolean;
+    options: PollOptionResult[];
+    participation: PollParticipationRow[];
+}
+
+/**
+ * A poll accepts votes while it is active, not closed and before its closing date
+ */
+export function isPollOpen(poll: Pick<PollRecord, 'is_active' | 'closes_at' | 'closed_at'>): boolean {
+    if (poll.is_active === false || poll.closed_at) return false;
+    if (poll.closes_at && new Date(poll.closes_at).getTime() <= Date.now()) return false;
+    return true;
+}
+
+export interface CreatePollInput {
+    question: string;
+    description?: string | null;
+    options: string[];
+    closes_at?: string | null;
+    vote_scope?: PollVoteScope;
+    quorum_percent?: number | null;
+    is_anonymous?: boolean;
+}
+
+/**
+ * Validate poll input and create the poll with its options
+ */
+export async function createPollWithOptions(
+    supabase: any,
+    residenceId: number,
+    userId: string,
+    input: CreatePollInput
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    const question = input.question?.trim();
+    const options = (input.options || []).map((o) => String(o).trim()).filter(Boolean);
+
+    if (!question) {
+        return { success: false, error: 'Question is required' };
+    }
+
+    if (options.length < 2) {
+        return { success: false, error: 'A poll needs at least two options' };
+    }
+
+    if (new Set(options.map((o) => o.toLowerCase())).size !== options.length) {
+        return { success: false, error: 'Poll options must be different' };
+    }
+
+    const voteScope = input.vote_scope || 'apartment';
+    if (voteScope !== 'apartment' && voteScope !== 'profile') {
+        return { success: false, error: 'Invalid vote scope' };
+    }
+
+    let closesAt: string | null = null;
+    if (input.closes_at) {
+        const date = new Date(input.closes_at);
+        if (isNaN(date.getTime())) {
+            return { success: false, error: 'Invalid closing date' };
+        }
+        if (date.getTime() <= Date.now()) {
+            return { success: false, error: 'Closing date must be in the future' };
+        }
+        closesAt = date.toISOString();
+    }
+
+    let quorumPercent: number | null = null;
+    if (input.quorum_percent != null && String(input.quorum_percent) !== '') {
+        quorumPercent = Number(input.quorum_percent);
+        if (isNaN(quorumPercent) || quorumPercent <= 0 || quorumPercent > 100) {
+            return { success: false, error: 'Quorum must be between 1 and 100 percent' };
+        }
+    }
+
+    const { data: poll, error: pollError } = await supabase
+        .from('polls')
+        .insert({
+            residence_id: residenceId,
+            question,
+            description: input.description?.trim() || null,
+            is_active: true,
+            created_by: userId,
+            closes_at: closesAt,
+            vote_scope: voteScope,
+            quorum_percent: quorumPercent,
+            is_anonymous: input.is_anonymous === true,
+        })
+        .select()
+        .single();
+
+    if (pollError || !poll) {
+        return { success: false, error: pollError?.message || 'Failed to create poll' };
+    }
+
+    const { data: pollOptions, error: optionsError } = await supabase
+        .from('poll_options')
+        .insert(options.map((option_text) => ({ poll_id: poll.id, option_text })))
+        .select();
+
+    if (optionsError) {
+        // Do not leave a poll without options behind
+        await supabase.from('polls').delete().eq('id', poll.id);
+        return { success: false, error: optionsError.message || 'Failed to create poll options' };
+    }
+
+    return { success: true, data: { ...poll, options: pollOptions || [] } };
+}
+
+/**
+ * Delete a poll with its votes and options
+ */
+export async function deletePollCascade(supabase: any, pollId: number): Promise<{ error?: string }> {
+    const { error: votesError } = await supabase.from('poll_votes').delete().eq('poll_id', pollId);
+    if (votesError) return { error: votesError.message };
+
+    const { error: optionsError } = await supabase.from('poll_options').delete().eq('poll_id', pollId);
+    if (optionsError) return { error: optionsError.message };
+
+    const { error: pollError } = await supabase.from('polls').delete().eq('id', pollId);
+    if (pollError) return { error: pollError.message };
+
+    return {};
+}
+
+/**
+ * Normalise an apartment number so "a12 " and "A12" count as the same apartment
+ */
+function normalizeApartment(apartmentNumber: string | null | undefined): string {
+    return (apartmentNumber || '').trim().toUpperCase();
+}
+
+/**
+ * Build the uniqueness key stored in poll_votes.voter_key
+ */
+export function getVoterKey(scope: PollVoteScope, userId: string, apartmentNumber?: string | null): string {
+    return scope === 'apartment'
+        ? `apartment:${normalizeApartment(apartmentNumber)}`
+        : `profile:${userId}`;
+}
+
+/**
+ * Get verified residents of a residence with their apartments
+ */
+async function getVerifiedMemberships(supabase: any, residenceId: number) {
+    const { data, error } = await supabase
+        .from('profile_residences')
+        .select('id, profile_id, apartment_number, profiles(full_name)')
+        .eq('residence_id', residenceId)
+        .eq('verified', true);
+
+    if (error) throw error;
+    return (data || []) as any[];
+}
+
+/**
+ * Record a vote, enforcing the poll's scope and closing rules
+ * The database also rejects duplicate voter keys and votes on closed polls
+ */
+export async function castPollVote(
+    supabase: any,
+    params: { pollId: number; optionId: number; userId: string; profileResidenceId?: number | null }
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    const { data: poll, error: pollError } = await supabase
+        .from('polls')
+        .select('*')
+        .eq('id', params.pollId)
+        .maybeSingle();
+
+    if (pollError || !poll) {
+        return { success: false, error: 'Poll not found' };
+    }
+
+    if (!isPollOpen(poll)) {
+        return { success: false, error: 'This poll is closed' };
+    }
+
+    const { data: option } = await supabase
+        .from('poll_options')
+        .select('id')
+        .eq('id', params.optionId)
+        .eq('poll_id', params.pollId)
+        .maybeSingle();
+
+    if (!option) {
+        return { success: false, error: 'Invalid option for this poll' };
+    }
+
+    // Only verified residents of the poll's residence can vote
+    let membershipQuery = supabase
+        .from('profile_residences')
+        .select('id, apartment_number')
+        .eq('profile_id', params.userId)
+        .eq('residence_id', poll.residence_id)
+        .eq('verified', true);
+
+    if (params.profileResidenceId) {
+        membershipQuery = membershipQuery.eq('id', params.profileResidenceId);
+    }
+
+    const { data: memberships } = await membershipQuery;
+
+    if (!memberships || memberships.length === 0) {
+        return { success: false, error: 'Only verified residents of this residence can vote' };
+    }
+
+    if (poll.vote_scope === 'apartment' && memberships.length > 1 && !params.profileResidenceId) {
+        return { success: false, error: 'You own several apartments: choose the apartment you are voting for' };
+    }
+
+    const membership = memberships[0];
+    const voterKey = getVoterKey(poll.vote_scope, params.userId, membership.apartment_number);
+
+    const { data: vote, error: voteError } = await supabase
+        .from('poll_votes')
+        .insert({
+            poll_id: params.pollId,
+            option_id: params.optionId,
+            user_id: params.userId,
+            profile_residence_id: membership.id,
+            apartment_number: membership.apartment_number,
+            voter_key: voterKey,
+        })
+        .select()
+        .single();
+
+    if (voteError) {
+        // 23505 = unique_violation on (poll_id, voter_key)
+        if (voteError.code === '23505') {
+            return {
+                success: false,
+                error: poll.vote_scope === 'apartment'
+                    ? 'A vote has already been cast for this apartment'
+                    : 'You have already voted in this poll',
+            };
+        }
+        return { success: false, error: voteError.message || 'Failed to record vote' };
+    }
+
+    return { success: true, data: vote };
+}
+
+/**
+ * Compute option totals, participation by apartment and quorum status
+ */
+export async function getPollResults(supabase: any, poll: PollRecord): Promise<PollResults> {
+    const [{ data: options, error: optionsError }, { data: votes, error: votesError }, memberships] = await Promise.all([
+        supabase.from('poll_options').select('id, option_text').eq('poll_id', poll.id).order('id', { ascending: true }),
+        supabase
+            .from('poll_votes')
+            .select('id, option_id, user_id, apartment_number, created_at')
+            .eq('poll_id', poll.id),
+        getVerifiedMemberships(supabase, poll.residence_id),
+    ]);
+
+    if (optionsError) throw optionsError;
+    if (votesError) throw votesError;
+
+    const voteList = (votes || []) as any[];
+    const optionList = (options || []) as any[];
+    const totalVotes = voteList.length;
+
+    const optionResults: PollOptionResult[] = optionList.map((option) => {
+        const count = voteList.filter((v) => v.option_id === option.id).length;
+        return {
+            id: option.id,
+            option_text: option.option_text,
+            votes: count,
+            percent: totalVotes > 0 ? Math.round((count / totalVotes) * 1000) / 10 : 0,
+        };
+    });
+
+    // Group residents by apartment for the participation table
+    const apartments = new Map<string, { apartment_number: string; residents: string[] }>();
+    memberships.forEach((m) => {
+        const key = normalizeApartment(m.apartment_number);
+        if (!key) return;
+        const entry = apartments.get(key) || { apartment_number: String(m.apartment_number).trim(), residents: [] as string[] };
+        const name: string | undefined = Array.isArray(m.profiles) ? m.profiles[0]?.full_name : m.profiles?.full_name;
+        if (name && !entry.residents.includes(name)) entry.residents.push(name);
+        apartments.set(key, entry);
+    });
+
+    const optionText = new Map(optionList.map((o) => [o.id, o.option_text]));
+
+    const participation: PollParticipationRow[] = Array.from(apartments.entries())
+        .map(([key, apartment]) => {
+            const apartmentVotes = voteList.filter((v) => normalizeApartment(v.apartment_number) === key);
+            const firstVote = apartmentVotes[0];
+            return {
+                apartment_number: apartment.apartment_number,
+                residents: apartment.residents,
+                voted: apartmentVotes.length > 0,
+                voted_at: firstVote?.created_at || null,
+                choice: !poll.is_anonymous && apartmentVotes.length > 0
+                    ? apartmentVotes.map((v) => optionText.get(v.option_id)).filter(Boolean).join(', ')
+                    : null,
+            };
+        })
+        .sort((a, b) => a.apartment_number.localeCompare(b.apartment_number, undefined, { numeric: true }));
+
+    const eligibleVoters = poll.vote_scope === 'apartment'
+        ? apartments.size
+        : new Set(memberships.map((m) => m.profile_id)).size;
+
+    const participationPercent = eligibleVoters > 0
+        ? Math.round((totalVotes / eligibleVoters) * 1000) / 10
+        : 0;
+
+    const quorumPercent = poll.quorum_percent != null ? Number(poll.quorum_percent) : null;
+
+    return {
+        pollId: poll.id,
+        isOpen: isPollOpen(poll),
+        totalVotes,
+        eligibleVoters,
+        participationPercent,
+        quorumPercent,
+        quorumReached: quorumPercent == null || participationPercent >= quorumPercent,
+        options: optionResults,
+        participation,
+    };
+}
+
+/**
+ * List the polls of a residence with their results and the caller's voting status
+ * The participation table is only kept for syndics
+ */
+export async function listPollsWithResults(
+    supabase: any,
+    residenceId: number,
+    userId: string,
+    role: string
+) {
+    const { data: polls, error } = await supabase
+        .from('polls')
+        .select('*')
+        .eq('residence_id', residenceId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const { data: memberships } = await supabase
+        .from('profile_residences')
+        .select('id, apartment_number')
+        .eq('profile_id', userId)
+        .eq('residence_id', residenceId)
+        .eq('verified', true);
+
+    return await Promise.all(
+        ((polls || []) as PollRecord[]).map(async (poll) => {
+            const results = await getPollResults(supabase, poll);
+
+            // In apartment mode a vote by a co-resident counts for the whole apartment
+            const voterKeys = poll.vote_scope === 'apartment'
+                ? (memberships || []).map((m: any) => getVoterKey('apartment', userId, m.apartment_number))
+                : [getVoterKey('profile', userId)];
+
+            let myVote: any = null;
+            if (voterKeys.length > 0) {
+                const { data } = await supabase
+                    .from('poll_votes')
+                    .select('option_id, user_id, created_at')
+                    .eq('poll_id', poll.id)
+                    .in('voter_key', voterKeys)
+                    .limit(1)
+                    .maybeSingle();
+                myVote = data;
+            }
+
+            return {
+                ...poll,
+                results: role === 'syndic' ? results : { ...results, participation: [] },
+                can_vote: results.isOpen && (memberships || []).length > 0 && !myVote,
+                has_voted: !!myVote,
+                my_option_id: myVote && (myVote.user_id === userId || !poll.is_anonymous) ? myVote.option_id : null,
+                apartments: (memberships || []).map((m: any) => ({ id: m.id, apartment_number: m.apartment_number })),
+            };
+        })
+    );
+}
+
+/**
+ * Export poll results as CSV for the general assembly minutes
+ */
+export function pollResultsToCSV(poll: PollRecord, results: PollResults): string {
+    const rows: (string | number | null)[][] = [
+        ['Question', poll.question, '', ''],
+        ['Vote scope', poll.vote_scope === 'apartment' ? 'One vote per apartment' : 'One vote per resident', '', ''],
+        ['Anonymous', poll.is_anonymous ? 'Yes' : 'No', '', ''],
+        ['Closes at', poll.closed_at || poll.closes_at || '', '', ''],
+        ['Eligible voters', results.eligibleVoters, '', ''],
+        ['Votes cast', results.totalVotes, '', ''],
+        ['Participation (%)', results.participationPercent, '', ''],
+        ['Quorum (%)', results.quorumPercent ?? 'None', '', ''],
+        ['Quorum reached', results.quorumReached ? 'Yes' : 'No', '', ''],
+        ['', '', '', ''],
+        ['Option', 'Votes', 'Percent', ''],
+        ...results.options.map((o) => [o.option_text, o.votes, o.percent, '']),
+        ['', '', '', ''],
+        ['Apartment', 'Residents', 'Voted', poll.is_anonymous ? '' : 'Choice'],
+        ...results.participation.map((p) => [
+            p.apartment_number,
+            p.residents.join(' / '),
+            p.voted ? 'Yes' : 'No',
+            poll.is_anonymous ? '' : p.choice,
+        ]),
+    ];
+
+    return toCSV(['Poll results', `#${poll.id}`, '', ''], rows);
+}
@@ -0,0 +1,299 @@
+import { LEDGER_ACCOUNTS, getLedgerBalances, postLedgerEntry } from '@/lib/ledger-utils';
+
+/**
+ * Reconciliation Utilities
+ * Period close on balance_snapshots: counted cash and bank statement balance are
+ * compared to the ledger, then the period is locked so its expenses are frozen.
+ */
+
+const SNAPSHOT_SELECT = `
+    *,
+    author:created_by (
+        id,
+        full_name
+    ),
+    locker:locked_by (
+        id,
+        full_name
+    )
+`;
+
+/**
+ * Flatten joined names and make numeric columns numbers
+ */
+function formatSnapshot(snapshot: any) {
+    const { author, locker, ...rest } = snapshot;
+    return {
+        ...rest,
+        cash_balance: Number(rest.cash_balance),
+        bank_balance: Number(rest.bank_balance),
+        computed_cash_balance: Number(rest.computed_cash_balance),
+        computed_bank_balance: Number(rest.computed_bank_balance),
+        cash_discrepancy: Number(rest.cash_discrepancy),
+        bank_discrepancy: Number(rest.bank_discrepancy),
+        created_by_name: author?.full_name || null,
+        locked_by_name: locker?.full_name || null,
+    };
+}
+
+/**
+ * End of the day in ISO format, used to read the ledger as of a period end
+ */
+function endOfDay(date: string) {
+    return `${date}T23:59:59.999Z`;
+}
+
+/**
+ * Day after a YYYY-MM-DD date
+ */
+function nextDay(date: string) {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString().split('T')[0];
+}
+
+/**
+ * Last day of the latest locked period, or null when nothing is locked
+ */
+export async function getLockedThrough(supabase: any, residenceId: number): Promise<string | null> {
+    const { data, error } = await supabase
+        .from('balance_snapshots')
+        .select('snapshot_date')
+        .eq('residence_id', residenceId)
+        .eq('status', 'locked')
+        .order('snapshot_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(error.message || 'Failed to read locked periods');
+    }
+
+    return data?.snapshot_date || null;
+}
+
+/**
+ * Error message when one of the dates falls in a locked period, null otherwise
+ */
+export async function checkPeriodOpen(
+    supabase: any,
+    residenceId: number,
+    dates: Array<string | null | undefined>
+): Promise<string | null> {
+    const lockedThrough = await getLockedThrough(supabase, residenceId);
+    if (!lockedThrough) return null;
+
+    const locked = dates.some((date) => date && date.split('T')[0] <= lockedThrough);
+    return locked ? `The books are closed through ${lockedThrough}; expenses dated in a locked period cannot be changed` : null;
+}
+
+/**
+ * Reconciliations of a residence, newest period first
+ */
+export async function listBalanceSnapshots(supabase: any, residenceId: number, limit = 24) {
+    const { data, error } = await supabase
+        .from('balance_snapshots')
+        .select(SNAPSHOT_SELECT)
+        .eq('residence_id', residenceId)
+        .order('snapshot_date', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(error.message || 'Failed to fetch reconciliations');
+    }
+
+    return (data || []).map(formatSnapshot);
+}
+
+/**
+ * Record counted cash and the bank statement balance for a period end,
+ * next to the ledger balances at that date
+ */
+export async function createBalanceSnapshot(
+    supabase: any,
+    params: {
+        residenceId: number;
+        snapshotDate: string;
+        countedCash: number;
+        bankStatementBalance: number;
+        notes?: string | null;
+        createdBy: string;
+    }
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    if (!params.snapshotDate || !/^\d{4}-\d{2}-\d{2}$/.test(params.snapshotDate)) {
+        return { success: false, error: 'Period end date is required (YYYY-MM-DD)' };
+    }
+
+    if (params.snapshotDate > new Date().toISOString().split('T')[0]) {
+        return { success: false, error: 'Period end date cannot be in the future' };
+    }
+
+    const countedCash = Number(params.countedCash);
+    const bankStatementBalance = Number(params.bankStatementBalance);
+    if (!Number.isFinite(countedCash) || !Number.isFinite(bankStatementBalance)) {
+        return { success: false, error: 'Counted cash and bank statement balance must be numbers' };
+    }
+
+    try {
+        const lockedThrough = await getLockedThrough(supabase, params.residenceId);
+        if (lockedThrough && params.snapshotDate <= lockedThrough) {
+            return { success: false, error: `The books are already closed through ${lockedThrough}` };
+        }
+
+        const computed = await getLedgerBalances(supabase, params.residenceId, endOfDay(params.snapshotDate));
+
+        const { data, error } = await supabase
+            .from('balance_snapshots')
+            .insert({
+                residence_id: params.residenceId,
+                snapshot_date: params.snapshotDate,
+                period_start: lockedThrough ? nextDay(lockedThrough) : null,
+                cash_balance: countedCash,
+                bank_balance: bankStatementBalance,
+                computed_cash_balance: computed.cash,
+                computed_bank_balance: computed.bank,
+                notes: params.notes?.trim() || null,
+                created_by: params.createdBy,
+            })
+            .select(SNAPSHOT_SELECT)
+            .single();
+
+        if (error) {
+            if (error.code === '23505') {
+                return { success: false, error: 'A reconciliation already exists for this date' };
+            }
+            console.error('[Reconciliation Utils] Error creating snapshot:', error);
+            return { success: false, error: error.message || 'Failed to save reconciliation' };
+        }
+
+        return { success: true, data: formatSnapshot(data) };
+    } catch (error: any) {
+        console.error('[Reconciliation Utils] Error creating snapshot:', error);
+        return { success: false, error: error.message || 'Failed to save reconciliation' };
+    }
+}
+
+/**
+ * Lock a reconciled period. With `postAdjustments`, each discrepancy is posted
+ * to the ledger as an adjustment so the books match what was counted.
+ * A discrepancy must be explained in the notes before locking.
+ */
+export async function lockBalanceSnapshot(
+    supabase: any,
+    params: {
+        residenceId: number;
+        snapshotId: number;
+        lockedBy: string;
+        postAdjustments?: boolean;
+        notes?: string | null;
+    }
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    try {
+        const { data: snapshot, error: fetchError } = await supabase
+            .from('balance_snapshots')
+            .select('*')
+            .eq('id', params.snapshotId)
+            .eq('residence_id', params.residenceId)
+            .maybeSingle();
+
+        if (fetchError || !snapshot) {
+            return { success: false, error: 'Reconciliation not found' };
+        }
+
+        if (snapshot.status === 'locked') {
+            return { success: false, error: 'This period is already locked' };
+        }
+
+        const lockedThrough = await getLockedThrough(supabase, params.residenceId);
+        if (lockedThrough && snapshot.snapshot_date <= lockedThrough) {
+            return { success: false, error: `A later period is already locked (through ${lockedThrough})` };
+        }
+
+        const notes = params.notes?.trim() || snapshot.notes;
+        const discrepancies = {
+            cash: Number(snapshot.cash_discrepancy),
+            bank: Number(snapshot.bank_discrepancy),
+        };
+        const hasDiscrepancy = LEDGER_ACCOUNTS.some((account) => Math.abs(discrepancies[account]) >= 0.005);
+
+        if (hasDiscrepancy && !notes) {
+            return { success: false, error: 'Explain the discrepancy in the notes before locking the period' };
+        }
+
+        if (hasDiscrepancy && params.postAdjustments) {
+            for (const account of LEDGER_ACCOUNTS) {
+                if (Math.abs(discrepancies[account]) < 0.005) continue;
+
+                const result = await postLedgerEntry(supabase, {
+                    residenceId: params.residenceId,
+                    account,
+                    type: 'adjustment',
+                    amount: discrepancies[account],
+                    referenceTable: 'balance_snapshots',
+                    referenceId: snapshot.id,
+                    description: `Period close ${snapshot.snapshot_date}: ${notes}`,
+                    createdBy: params.lockedBy,
+                });
+
+                if (!result.success) return result;
+            }
+        }
+
+        const { data, error } = await supabase
+            .from('balance_snapshots')
+            .update({
+                status: 'locked',
+                locked_at: new Date().toISOString(),
+                locked_by: params.lockedBy,
+                notes,
+            })
+            .eq('id', snapshot.id)
+            .select(SNAPSHOT_SELECT)
+            .single();
+
+        if (error) {
+            console.error('[Reconciliation Utils] Error locking snapshot:', error);
+            return { success: false, error: error.message || 'Failed to lock period' };
+        }
+
+        return { success: true, data: formatSnapshot(data) };
+    } catch (error: any) {
+        console.error('[Reconciliation Utils] Error locking snapshot:', error);
+        return { success: false, error: error.message || 'Failed to lock period' };
+    }
+}
+
+/**
+ * Delete a reconciliation that has not been locked yet
+ */
+export async function deleteBalanceSnapshot(
+    supabase: any,
+    params: { residenceId: number; snapshotId: number }
+): Promise<{ success: boolean; error?: string }> {
+    const { data: snapshot } = await supabase
+        .from('balance_snapshots')
+        .select('id, status')
+        .eq('id', params.snapshotId)
+        .eq('residence_id', params.residenceId)
+        .maybeSingle();
+
+    if (!snapshot) {
+        return { success: false, error: 'Reconciliation not found' };
+    }
+
+    if (snapshot.status === 'locked') {
+        return { success: false, error: 'Locked periods cannot be deleted' };
+    }
+
+    const { error } = await supabase
+        .from('balance_snapshots')
+        .delete()
+        .eq('id', snapshot.id);
+
+    if (error) {
+        console.error('[Reconciliation Utils] Error deleting snapshot:', error);
+        return { success: false, error: error.message || 'Failed to delete reconciliation' };
+    }
+
+    return { success: true };
+}
@@ -1,5 +1,38 @@
-export async function getUserResidenceId(supabase: any, userId: string, role?: string) {
-    if (!userId) return null;
+import { cookies, headers } from 'next/headers';
+
+/**
+ * Residence Utilities
+ * Syndics and guards can work for several residences and residents can live in
+ * several. The residence a request acts on is, in order: the one passed in, the
+ * X-Residence-Id header sent by the mobile app, the one picked in the web app's
+ * residence switcher (stored on the session), or else the user's first residence.
+ */
+
+export const RESIDENCE_HEADER = 'x-residence-id';
+
+// NextAuth database session cookie (secure prefix on https)
+const SESSION_COOKIES = ['__Secure-authjs.session-token', 'authjs.session-token'];
+
+export interface UserResidence {
+    id: number;
+    name: string;
+    address: string;
+    city: string;
+}
+
+/**
+ * Residence id from a query parameter or header value, or null when missing or invalid
+ */
+export function parseResidenceId(value: unknown): number | null {
+    const id = parseInt(String(value ?? ''), 10);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Residences a user belongs to, oldest first
+ */
+export async function getUserResidences(supabase: any, userId: string, role?: string): Promise<UserResidence[]> {
+    if (!userId) return [];
 
     // If role is not provided, fetch it
     if (!role) {
@@ -8,37 +41,98 @@ export async function getUserResidenceId(supabase: any, userId: string, role?: s
             .select('role')
             .eq('id', userId)
             .maybeSingle();
-        
-        if (!profile) return null;
+
+        if (!profile) return [];
         role = profile.role;
     }
 
-    if (role === 'syndic') {
-        const { data: res } = await supabase
-            .from('residences')
-            .select('id')
-            .eq('syndic_user_id', userId)
-            .maybeSingle();
-        return res?.id || null;
-    } else if (role === 'guard') {
-        const { data: res } = await supabase
+    if (role === 'syndic' || role === 'guard') {
+        const { data } = await supabase
             .from('residences')
-            .select('id')
-            .eq('guard_user_id', userId)
-            .maybeSingle();
-        return res?.id || null;
-    } else {
-        // Resident
-        // For now, return the first residence found.
-        // In the future, if we support multiple residences, this logic will need to change
-        // or accept a context/residenceId to validate against.
-        const { data: pr } = await supabase
-            .from('profile_residences')
-            .select('residence_id')
-            .eq('profile_id', userId)
-            .limit(1)
-            .maybeSingle();
-        return pr?.residence_id || null;
+            .select('id, name, address, city')
+            .eq(role === 'syndic' ? 'syndic_user_id' : 'guard_user_id', userId)
+            .order('id', { ascending: true });
+        return (data || []).map((r: any) => ({ id: Number(r.id), name: r.name, address: r.address, city: r.city }));
+    }
+
+    // Resident: one row per apartment, so the same residence can appear more than once
+    const { data } = await supabase
+        .from('profile_residences')
+        .select('residence_id, residences:residence_id (id, name, address, city)')
+        .eq('profile_id', userId)
+        .order('residence_id', { ascending: true });
+
+    const residences = new Map<number, UserResidence>();
+    (data || []).forEach((row: any) => {
+        const id = Number(row.residence_id);
+        if (!residences.has(id)) {
+            residences.set(id, {
+                id,
+                name: row.residences?.name || `Residence #${id}`,
+                address: row.residences?.address || '',
+                city: row.residences?.city || '',
+            });
+        }
+    });
+
+    return Array.from(residences.values());
+}
+
+/**
+ * Residence explicitly requested by the mobile app through the X-Residence-Id header
+ */
+export async function getRequestedResidenceId(): Promise<number | null> {
+    try {
+        return parseResidenceId((await headers()).get(RESIDENCE_HEADER));
+    } catch {
+        // Outside a request (scripts, cron jobs)
+        return null;
     }
 }
 
+/**
+ * Residence picked in the residence switcher for the current web session
+ */
+export async function getSessionResidenceId(supabase: any): Promise<number | null> {
+    let sessionToken: string | undefined;
+
+    try {
+        const cookieStore = await cookies();
+        sessionToken = SESSION_COOKIES.map((name) => cookieStore.get(name)?.value).find(Boolean);
+    } catch {
+        return null;
+    }
+
+    if (!sessionToken) return null;
+
+    const { data: session } = await supabase
+        .from('sessions')
+        .select('activeResidenceId')
+        .eq('sessionToken', sessionToken)
+        .maybeSingle();
+
+    return parseResidenceId(session?.activeResidenceId);
+}
+
+/**
+ * Residence the user is acting on.
+ * An explicitly requested residence (argument or X-Residence-Id header) the user does
+ * not belong to gives null; a stale switcher choice falls back to the first residence.
+ */
+export async function getUserResidenceId(
+    supabase: any,
+    userId: string,
+    role?: string,
+    residenceId?: number | null
+): Promise<number | null> {
+    const residences = await getUserResidences(supabase, userId, role);
+    if (residences.length === 0) return null;
+
+    const requested = residenceId ?? await getRequestedResidenceId();
+    if (requested) {
+        return residences.some((r) => r.id === requested) ? requested : null;
+    }
+
+    const active = await getSessionResidenceId(supabase);
+    return residences.find((r) => r.id === active)?.id ?? residences[0].id;
+}
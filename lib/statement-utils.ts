@@ -0,0 +1,208 @@
+import type { StatementData, StatementLine } from '@/lib/pdf/generator';
+import { SETTLED_PAYMENT_STATUSES } from '@/lib/ledger-utils';
+
+/**
+ * Statement Utilities
+ * Builds a resident's statement of account for one apartment over a date range:
+ * opening balance, fees, payments with their allocations, refunds and closing balance.
+ * Balances are what the apartment owes; a negative balance is credit.
+ */
+
+// Amounts below half a centime are rounding noise
+const EPSILON = 0.005;
+
+function round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+function dateOnly(value: string): string {
+    return String(value).split('T')[0];
+}
+
+/**
+ * Apartment numbers a resident holds in a residence
+ */
+export async function getResidentApartments(supabase: any, residenceId: number, userId: string): Promise<string[]> {
+    const { data } = await supabase
+        .from('profile_residences')
+        .select('apartment_number')
+        .eq('residence_id', residenceId)
+        .eq('profile_id', userId)
+        .not('apartment_number', 'is', null);
+
+    return Array.from(new Set((data || []).map((row: any) => String(row.apartment_number).trim()))) as string[];
+}
+
+/**
+ * Apartment a new fee is billed to: the one given, or the resident's only apartment
+ */
+export async function resolveFeeApartment(
+    supabase: any,
+    residenceId: number,
+    userId: string,
+    apartmentNumber?: string | null
+): Promise<string | null> {
+    if (apartmentNumber && apartmentNumber.trim()) return apartmentNumber.trim();
+
+    const apartments = await getResidentApartments(supabase, residenceId, userId);
+    return apartments.length === 1 ? apartments[0] : null;
+}
+
+/**
+ * Statement of account of `userId` for one apartment between `from` and `to` (YYYY-MM-DD, inclusive).
+ * Fees billed to the apartment count, plus the resident's fees with no apartment recorded.
+ */
+export async function buildAccountStatement(
+    supabase: any,
+    params: { residenceId: number; userId: string; apartmentNumber: string; from: string; to: string }
+): Promise<StatementData> {
+    const { residenceId, userId, apartmentNumber, from, to } = params;
+
+    const [residenceResult, residentResult, apartmentFeesResult, unassignedFeesResult, paymentsResult] = await Promise.all([
+        supabase
+            .from('residences')
+            .select('name, address, city, syndic_user_id')
+            .eq('id', residenceId)
+            .single(),
+        supabase
+            .from('profiles')
+            .select('full_name')
+            .eq('id', userId)
+            .maybeSingle(),
+        supabase
+            .from('fees')
+            .select('id, title, amount, due_date')
+            .eq('residence_id', residenceId)
+            .eq('apartment_number', apartmentNumber)
+            .lte('due_date', to),
+        supabase
+            .from('fees')
+            .select('id, title, amount, due_date')
+            .eq('residence_id', residenceId)
+            .eq('user_id', userId)
+            .is('apartment_number', null)
+            .lte('due_date', to),
+        supabase
+            .from('payments')
+            .select('id, amount, method, status, paid_at, allocations:payment_allocations (amount, fees:fee_id (title))')
+            .eq('residence_id', residenceId)
+            .eq('apartment_number', apartmentNumber)
+            .in('status', SETTLED_PAYMENT_STATUSES)
+            .lte('paid_at', `${to}T23:59:59.999Z`),
+    ]);
+
+    if (residenceResult.error || !residenceResult.data) {
+        throw new Error('Residence not found');
+    }
+
+    for (const result of [apartmentFeesResult, unassignedFeesResult, paymentsResult]) {
+        if (result.error) {
+            throw new Error(result.error.message || 'Failed to load statement data');
+        }
+    }
+
+    const residence = residenceResult.data;
+    const fees = [...(apartmentFeesResult.data || []), ...(unassignedFeesResult.data || [])];
+    const payments = paymentsResult.data || [];
+
+    const { data: syndic } = residence.syndic_user_id
+        ? await supabase.from('profiles').select('full_name').eq('id', residence.syndic_user_id).maybeSingle()
+        : { data: null };
+
+    // Refunds are ledger entries posted against the payments
+    const { data: refunds } = payments.length > 0
+        ? await supabase
+            .from('transaction_history')
+            .select('reference_id, amount, created_at')
+            .eq('reference_table', 'payments')
+            .eq('transaction_type', 'refund')
+            .in('reference_id', payments.map((p: any) => p.id))
+            .lte('created_at', `${to}T23:59:59.999Z`)
+        : { data: [] };
+
+    type Movement = { date: string; order: number; description: string; reference: string; debit: number; credit: number; details: string[] };
+    const movements: Movement[] = [];
+
+    fees.forEach((fee: any) => {
+        movements.push({
+            date: dateOnly(fee.due_date),
+            order: 0,
+            description: fee.title,
+            reference: `FEE-${fee.id}`,
+            debit: Number(fee.amount),
+            credit: 0,
+            details: [],
+        });
+    });
+
+    payments.forEach((payment: any) => {
+        const allocations = payment.allocations || [];
+        const allocated = allocations.reduce((sum: number, a: any) => sum + Number(a.amount), 0);
+        const details = allocations.map((a: any) => `Applied to ${a.fees?.title || 'fee'}: ${Number(a.amount).toFixed(2)} MAD`);
+        const unallocated = round(Number(payment.amount) - allocated);
+        if (unallocated > EPSILON) details.push(`Unallocated (credit): ${unallocated.toFixed(2)} MAD`);
+
+        movements.push({
+            date: dateOnly(payment.paid_at),
+            order: 1,
+            description: `Payment (${String(payment.method).replace('_', ' ')})`,
+            reference: `REC-${payment.id.toString().padStart(6, '0')}`,
+            debit: 0,
+            credit: Number(payment.amount),
+            details,
+        });
+    });
+
+    (refunds || []).forEach((refund: any) => {
+        movements.push({
+            date: dateOnly(refund.created_at),
+            order: 2,
+            description: 'Refund',
+            reference: `REC-${refund.reference_id.toString().padStart(6, '0')}`,
+            debit: -Number(refund.amount),
+            credit: 0,
+            details: [],
+        });
+    });
+
+    movements.sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order);
+
+    let openingBalance = 0;
+    let balance = 0;
+    const lines: StatementLine[] = [];
+
+    movements.forEach((movement) => {
+        balance = round(balance + movement.debit - movement.credit);
+
+        if (movement.date < from) {
+            openingBalance = balance;
+            return;
+        }
+
+        lines.push({
+            date: new Date(`${movement.date}T00:00:00Z`),
+            description: movement.description,
+            reference: movement.reference,
+            debit: movement.debit,
+            credit: movement.credit,
+            balance,
+            details: movement.details,
+        });
+    });
+
+    return {
+        statementNumber: `STM-${apartmentNumber}-${to.replace(/-/g, '')}`,
+        residentName: residentResult.data?.full_name || 'Resident',
+        apartmentNumber,
+        residenceName: residence.name,
+        residenceAddress: [residence.address, residence.city].filter(Boolean).join(', '),
+        syndicName: syndic?.full_name || 'Syndic',
+        periodStart: new Date(`${from}T00:00:00Z`),
+        periodEnd: new Date(`${to}T00:00:00Z`),
+        openingBalance,
+        closingBalance: balance,
+        totalDebit: round(lines.reduce((sum, line) => sum + line.debit, 0)),
+        totalCredit: round(lines.reduce((sum, line) => sum + line.credit, 0)),
+        lines,
+    };
+}
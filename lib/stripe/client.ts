@@ -1,7 +1,14 @@
 import Stripe from 'stripe';
 
+// STRIPE_API_BASE points the SDK at another API host, e.g. stripe-mock (http://localhost:12111)
+const apiBase = process.env.STRIPE_API_BASE ? new URL(process.env.STRIPE_API_BASE) : null;
+
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
 	apiVersion: "2025-01-27.acacia",
 	typescript: true,
+	...(apiBase && {
+		host: apiBase.hostname,
+		port: apiBase.port || (apiBase.protocol === 'http:' ? 80 : 443),
+		protocol: apiBase.protocol === 'http:' ? 'http' : 'https',
+	}),
 });
-
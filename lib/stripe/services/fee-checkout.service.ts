@@ -0,0 +1,261 @@
+import { stripe } from '@/lib/stripe/client';
+import Stripe from 'stripe';
+import { PlannedAllocation, settlePaymentForFees } from '@/lib/allocation-utils';
+import { postPaymentEntry } from '@/lib/ledger-utils';
+import { notifyUsers } from '@/lib/notification-utils';
+import { generateReceiptPDF } from '@/lib/pdf/generator';
+import { sendPaymentReceiptEmail } from '@/lib/email/receipt';
+
+/**
+ * Stripe Fee Checkout Service
+ * Residents pay their outstanding fees by card through Stripe Checkout.
+ * The session carries the fee IDs in its metadata; the webhook records the payment.
+ */
+
+// Marks Checkout sessions that pay fees, as opposed to the syndic's subscription
+export const FEE_PAYMENT_SESSION_TYPE = 'fee_payment';
+
+// Keeps the fee_ids metadata value well under Stripe's 500 character limit
+export const MAX_FEES_PER_CHECKOUT = 20;
+
+export interface FeeCheckoutParams {
+	residenceId: number;
+	userId: string;
+	fees: any[]; // outstanding fees, from selectFeesToPay in allocation-utils
+	successUrl: string;
+	cancelUrl: string;
+}
+
+/**
+ * Create a Checkout session paying a resident's outstanding fees
+ * @param supabase - Admin Supabase client
+ * @param params - Resident, fees to pay and redirect URLs
+ * @returns Checkout session (its `url` is where the resident pays)
+ */
+export async function createFeeCheckoutSession(
+	supabase: any,
+	params: FeeCheckoutParams
+): Promise<Stripe.Checkout.Session> {
+	const { fees } = params;
+	console.log('[Stripe Fee Checkout Service] Creating checkout for user:', params.userId, 'fees:', fees.map((fee: any) => fee.id));
+
+	const { data: user } = await supabase
+		.from('users')
+		.select('email')
+		.eq('id', params.userId)
+		.maybeSingle();
+
+	const metadata: Record<string, string> = {
+		type: FEE_PAYMENT_SESSION_TYPE,
+		user_id: params.userId,
+		residence_id: String(params.residenceId),
+		fee_ids: fees.map((fee: any) => fee.id).join(','),
+		apartment_number: fees[0].apartment_number || '',
+	};
+
+	try {
+		const session = await stripe.checkout.sessions.create({
+			mode: 'payment',
+			payment_method_types: ['card'],
+			customer_email: user?.email || undefined,
+			client_reference_id: params.userId,
+			metadata,
+			payment_intent_data: { metadata },
+			line_items: fees.map((fee: any) => ({
+				quantity: 1,
+				price_data: {
+					currency: 'mad',
+					unit_amount: Math.round(fee.balance_due * 100),
+					product_data: {
+						name: fee.title,
+						...(fee.apartment_number && { description: `Apartment ${fee.apartment_number}` }),
+					},
+				},
+			})),
+			success_url: params.successUrl,
+			cancel_url: params.cancelUrl,
+		});
+
+		console.log('[Stripe Fee Checkout Service] Checkout session created:', session.id);
+		return session;
+	} catch (error: any) {
+		console.error('[Stripe Fee Checkout Service] Error creating checkout session:', error);
+		throw new Error(`Failed to create checkout session: ${error.message}`);
+	}
+}
+
+/**
+ * Record the payment of a completed fee Checkout session: create the online_card payment,
+ * post it to the ledger, settle the fees it was for and send the resident a receipt.
+ * Safe to call again for the same session (webhook retries).
+ * @param supabase - Admin Supabase client
+ * @param session - Completed Checkout session with fee_payment metadata
+ * @returns The payment, or null when the session is not paid yet
+ */
+export async function recordFeeCheckoutPayment(
+	supabase: any,
+	session: Stripe.Checkout.Session
+): Promise<{ payment: any; duplicate: boolean } | null> {
+	console.log('[Stripe Fee Checkout Service] Recording checkout session:', session.id);
+
+	if (session.payment_status !== 'paid') {
+		console.log('[Stripe Fee Checkout Service] Session not paid yet:', session.payment_status);
+		return null;
+	}
+
+	const userId = session.metadata?.user_id;
+	const residenceId = Number(session.metadata?.residence_id);
+	if (!userId || !residenceId) {
+		throw new Error('Checkout session metadata is missing user_id or residence_id');
+	}
+
+	const feeIds = (session.metadata?.fee_ids || '')
+		.split(',')
+		.map((id) => Number(id))
+		.filter((id) => Number.isInteger(id) && id > 0);
+	const apartmentNumber = session.metadata?.apartment_number || null;
+
+	const { data: existing } = await supabase
+		.from('payments')
+		.select('*')
+		.eq('stripe_checkout_session_id', session.id)
+		.maybeSingle();
+
+	if (existing) {
+		console.log('[Stripe Fee Checkout Service] Session already recorded as payment:', existing.id);
+		return { payment: existing, duplicate: true };
+	}
+
+	let profileResidenceQuery = supabase
+		.from('profile_residences')
+		.select('id')
+		.eq('profile_id', userId)
+		.eq('residence_id', residenceId);
+	if (apartmentNumber) {
+		profileResidenceQuery = profileResidenceQuery.eq('apartment_number', apartmentNumber);
+	}
+	const { data: profileResidences } = await profileResidenceQuery.limit(1);
+
+	const paymentIntentId = typeof session.payment_intent === 'string'
+		? session.payment_intent
+		: session.payment_intent?.id || null;
+	const amount = (session.amount_total || 0) / 100;
+
+	const { data: payment, error: paymentError } = await supabase
+		.from('payments')
+		.insert({
+			residence_id: residenceId,
+			user_id: userId,
+			apartment_number: apartmentNumber,
+			profile_residence_id: profileResidences?.[0]?.id || null,
+			fee_id: feeIds.length === 1 ? feeIds[0] : null,
+			amount,
+			method: 'online_card',
+			status: 'completed',
+			paid_at: new Date().toISOString(),
+			stripe_checkout_session_id: session.id,
+			stripe_payment_intent_id: paymentIntentId,
+		})
+		.select()
+		.single();
+
+	if (paymentError) {
+		// A concurrent delivery of the same event recorded it first
+		if (paymentError.code === '23505') {
+			const { data: recorded } = await supabase
+				.from('payments')
+				.select('*')
+				.eq('stripe_checkout_session_id', session.id)
+				.maybeSingle();
+			return { payment: recorded, duplicate: true };
+		}
+		console.error('[Stripe Fee Checkout Service] Error creating payment:', paymentError);
+		throw new Error(paymentError.message || 'Failed to record payment');
+	}
+
+	console.log('[Stripe Fee Checkout Service] Online payment created:', payment.id);
+
+	const ledgerResult = await postPaymentEntry(supabase, payment, null);
+	if (!ledgerResult.success) {
+		console.error('[Stripe Fee Checkout Service] Error posting payment to ledger:', ledgerResult.error);
+	}
+
+	// Settle the fees the resident chose; anything they no longer owe becomes credit
+	const settlement = await settlePaymentForFees(supabase, payment, feeIds, null);
+	if (!settlement.success) {
+		console.error('[Stripe Fee Checkout Service] Error allocating payment:', settlement.error);
+	}
+
+	await notifyUsers(supabase, {
+		userIds: [userId],
+		category: 'fees',
+		type: 'success',
+		title: 'Payment received',
+		message: `Your card payment of ${amount.toFixed(2)} MAD was received. Your receipt has been emailed to you.`,
+		residenceId,
+		actionData: {
+			payment_id: payment.id,
+			type: 'payment',
+		},
+	});
+
+	try {
+		await sendFeePaymentReceipt(supabase, payment, settlement.plan, session.customer_details?.email || null);
+	} catch (error: any) {
+		// The payment is recorded; the receipt can still be downloaded by the syndic
+		console.error('[Stripe Fee Checkout Service] Error sending receipt:', error);
+	}
+
+	return { payment, duplicate: false };
+}
+
+/**
+ * Email the receipt PDF of an online payment to the resident
+ */
+async function sendFeePaymentReceipt(
+	supabase: any,
+	payment: any,
+	plan: PlannedAllocation[],
+	checkoutEmail: string | null
+) {
+	const [{ data: profile }, { data: user }, { data: residence }] = await Promise.all([
+		supabase.from('profiles').select('full_name').eq('id', payment.user_id).maybeSingle(),
+		supabase.from('users').select('email').eq('id', payment.user_id).maybeSingle(),
+		supabase.from('residences').select('name, address, city').eq('id', payment.residence_id).maybeSingle(),
+	]);
+
+	const email = checkoutEmail || user?.email;
+	if (!email) {
+		console.log('[Stripe Fee Checkout Service] No email address for receipt of payment:', payment.id);
+		return;
+	}
+
+	const receiptNumber = `REC-${payment.id.toString().padStart(6, '0')}`;
+	const paidAt = new Date(payment.paid_at);
+
+	const pdf = await generateReceiptPDF({
+		paymentId: payment.id,
+		residentName: profile?.full_name || 'Resident',
+		apartmentNumber: payment.apartment_number || 'N/A',
+		amount: Number(payment.amount),
+		paymentDate: paidAt,
+		receiptNumber,
+		residenceName: residence?.name || 'Residence',
+		residenceAddress: [residence?.address, residence?.city].filter(Boolean).join(', '),
+		syndicName: 'Syndic',
+		method: payment.method,
+		reference: payment.stripe_payment_intent_id,
+	});
+
+	await sendPaymentReceiptEmail({
+		email,
+		residentName: profile?.full_name,
+		residenceName: residence?.name,
+		apartmentNumber: payment.apartment_number,
+		receiptNumber,
+		amount: Number(payment.amount),
+		paidAt,
+		fees: plan.map((item) => ({ title: item.fee.title, amount: item.amount })),
+		pdf,
+	});
+}
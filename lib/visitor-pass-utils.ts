@@ -0,0 +1,337 @@
+import { SignJWT, jwtVerify } from 'jose';
+import { randomUUID } from 'crypto';
+import { rolesWith } from '@/lib/permissions';
+
+/**
+ * Visitor Pass Utilities
+ * Signed QR passes stored in access_logs, shared by server actions and mobile routes
+ */
+
+export const PASS_SCANNER_ROLES: string[] = rolesWith('visitor_passes.verify');
+
+// Longest validity window a resident can give a visitor
+const MAX_PASS_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Tolerance for clock drift between the app and the gate device
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+const PASS_ISSUER = 'sakan:visitor-pass';
+
+const PASS_SELECT = `
+    *,
+    host:generated_by (
+        id,
+        full_name
+    ),
+    scanner:scanned_by (
+        id,
+        full_name
+    )
+`;
+
+export type PassVerificationReason =
+    | 'invalid_signature'
+    | 'wrong_residence'
+    | 'not_found'
+    | 'revoked'
+    | 'not_yet_valid'
+    | 'expired'
+    | 'already_used';
+
+export interface PassVerificationResult {
+    valid: boolean;
+    reason?: PassVerificationReason;
+    message: string;
+    pass?: any;
+}
+
+/**
+ * Secret used to sign QR payloads
+ */
+function getPassSecret() {
+    const secret = process.env.VISITOR_PASS_SECRET || process.env.AUTH_SECRET;
+    if (!secret) {
+        throw new Error('VISITOR_PASS_SECRET is not configured');
+    }
+    return new TextEncoder().encode(secret);
+}
+
+/**
+ * Flatten joined names for API responses
+ */
+export function formatVisitorPass(pass: any) {
+    const { host, scanner, ...rest } = pass;
+    return {
+        ...rest,
+        host_name: host?.full_name || 'Unknown',
+        scanned_by_name: scanner?.full_name || null,
+    };
+}
+
+/**
+ * Strip the QR content, which works as a bearer credential at the gate
+ */
+function hideQrCode(pass: any) {
+    return { ...pass, qr_code_data: null };
+}
+
+/**
+ * Add the apartment of each host to a list of passes
+ */
+async function withHostApartments(supabase: any, residenceId: number, passes: any[]) {
+    const hostIds = Array.from(new Set(passes.map((p) => p.generated_by)));
+    if (hostIds.length === 0) return passes;
+
+    const { data } = await supabase
+        .from('profile_residences')
+        .select('profile_id, apartment_number')
+        .eq('residence_id', residenceId)
+        .in('profile_id', hostIds);
+
+    const apartments = new Map<string, string>();
+    (data || []).forEach((row: any) => {
+        if (!apartments.has(row.profile_id)) apartments.set(row.profile_id, row.apartment_number);
+    });
+
+    return passes.map((p) => ({ ...p, host_apartment: apartments.get(p.generated_by) || null }));
+}
+
+/**
+ * Create a time-bound visitor pass with a signed QR payload
+ */
+export async function createVisitorPass(
+    supabase: any,
+    params: {
+        residenceId: number;
+        generatedBy: string;
+        visitorName: string;
+        validFrom?: string | null;
+        validTo: string;
+        isSingleUse?: boolean;
+    }
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    const visitorName = params.visitorName?.trim();
+    if (!visitorName) {
+        return { success: false, error: 'Visitor name is required' };
+    }
+
+    const validFrom = params.validFrom ? new Date(params.validFrom) : new Date();
+    const validTo = new Date(params.validTo);
+
+    if (isNaN(validFrom.getTime()) || isNaN(validTo.getTime())) {
+        return { success: false, error: 'Invalid validity dates' };
+    }
+
+    if (validTo.getTime() <= validFrom.getTime()) {
+        return { success: false, error: 'The pass must end after it starts' };
+    }
+
+    if (validTo.getTime() <= Date.now()) {
+        return { success: false, error: 'The pass end date is already in the past' };
+    }
+
+    if (validTo.getTime() - validFrom.getTime() > MAX_PASS_DURATION_MS) {
+        return { success: false, error: 'A visitor pass cannot be valid for more than 30 days' };
+    }
+
+    // The signed token is the QR content; it is also the lookup key at the gate
+    const qrCodeData = await new SignJWT({ rid: params.residenceId, vis: visitorName })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setIssuer(PASS_ISSUER)
+        .setJti(randomUUID())
+        .setNotBefore(Math.floor(validFrom.getTime() / 1000))
+        .setExpirationTime(Math.floor(validTo.getTime() / 1000))
+        .sign(getPassSecret());
+
+    const { data: pass, error } = await supabase
+        .from('access_logs')
+        .insert({
+            residence_id: params.residenceId,
+            generated_by: params.generatedBy,
+            visitor_name: visitorName,
+            qr_code_data: qrCodeData,
+            valid_from: validFrom.toISOString(),
+            valid_to: validTo.toISOString(),
+            is_single_use: params.isSingleUse !== false,
+        })
+        .select(PASS_SELECT)
+        .single();
+
+    if (error || !pass) {
+        return { success: false, error: error?.message || 'Failed to create visitor pass' };
+    }
+
+    return { success: true, data: formatVisitorPass(pass) };
+}
+
+/**
+ * List visitor passes
+ * Residents see the passes they created, guards and syndics see the whole residence
+ */
+export async function listVisitorPasses(
+    supabase: any,
+    params: { residenceId: number; userId: string; role: string; activeOnly?: boolean }
+) {
+    let query = supabase
+        .from('access_logs')
+        .select(PASS_SELECT)
+        .eq('residence_id', params.residenceId);
+
+    if (!PASS_SCANNER_ROLES.includes(params.role)) {
+        query = query.eq('generated_by', params.userId);
+    }
+
+    if (params.activeOnly) {
+        query = query
+            .is('revoked_at', null)
+            .gte('valid_to', new Date().toISOString());
+    }
+
+    const { data, error } = await query.order('valid_from', { ascending: false });
+    if (error) throw error;
+
+    const passes = (data || []).map((p: any) => {
+        const pass = formatVisitorPass(p);
+        // The QR content is a bearer credential: only its creator gets it back
+        return pass.generated_by === params.userId ? pass : hideQrCode(pass);
+    });
+
+    return await withHostApartments(supabase, params.residenceId, passes);
+}
+
+/**
+ * Revoke a pass before it is used (its creator or the syndic)
+ */
+export async function revokeVisitorPass(
+    supabase: any,
+    params: { passId: number; residenceId: number; userId: string; role: string }
+): Promise<{ success: boolean; data?: any; error?: string }> {
+    const { data: pass } = await supabase
+        .from('access_logs')
+        .select('id, residence_id, generated_by, revoked_at')
+        .eq('id', params.passId)
+        .maybeSingle();
+
+    if (!pass || pass.residence_id !== params.residenceId) {
+        return { success: false, error: 'Visitor pass not found' };
+    }
+
+    if (pass.generated_by !== params.userId && params.role !== 'syndic') {
+        return { success: false, error: 'You can only revoke your own visitor passes' };
+    }
+
+    if (pass.revoked_at) {
+        return { success: false, error: 'This visitor pass is already revoked' };
+    }
+
+    const { data: updated, error } = await supabase
+        .from('access_logs')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', params.passId)
+        .select(PASS_SELECT)
+        .single();
+
+    if (error) {
+        return { success: false, error: error.message || 'Failed to revoke visitor pass' };
+    }
+
+    return { success: true, data: formatVisitorPass(updated) };
+}
+
+/**
+ * Verify a scanned QR payload at the gate and stamp the scan
+ * Checks the signature, the residence, the validity window, revocation and single use
+ */
+export async function verifyVisitorPass(
+    supabase: any,
+    params: { qrCodeData: string; residenceId: number; scannedBy: string }
+): Promise<PassVerificationResult> {
+    const token = params.qrCodeData?.trim();
+
+    let payload: any;
+    try {
+        const verified = await jwtVerify(token, getPassSecret(), {
+            issuer: PASS_ISSUER,
+            algorithms: ['HS256'],
+            clockTolerance: CLOCK_TOLERANCE_SECONDS,
+        });
+        payload = verified.payload;
+    } catch (error: any) {
+        if (error?.code === 'ERR_JWT_EXPIRED') {
+            return { valid: false, reason: 'expired', message: 'This visitor pass has expired' };
+        }
+        if (error?.code === 'ERR_JWT_CLAIM_VALIDATION_FAILED' && error?.claim === 'nbf') {
+            return { valid: false, reason: 'not_yet_valid', message: 'This visitor pass is not valid yet' };
+        }
+        return { valid: false, reason: 'invalid_signature', message: 'This QR code is not a valid visitor pass' };
+    }
+
+    if (payload.rid !== params.residenceId) {
+        return { valid: false, reason: 'wrong_residence', message: 'This pass was issued for another residence' };
+    }
+
+    const { data: pass } = await supabase
+        .from('access_logs')
+        .select(PASS_SELECT)
+        .eq('qr_code_data', token)
+        .eq('residence_id', params.residenceId)
+        .maybeSingle();
+
+    if (!pass) {
+        return { valid: false, reason: 'not_found', message: 'This visitor pass no longer exists' };
+    }
+
+    const [safePass] = await withHostApartments(supabase, params.residenceId, [hideQrCode(formatVisitorPass(pass))]);
+
+    if (pass.revoked_at) {
+        return { valid: false, reason: 'revoked', message: 'This visitor pass has been revoked', pass: safePass };
+    }
+
+    const now = Date.now();
+    const toleranceMs = CLOCK_TOLERANCE_SECONDS * 1000;
+
+    if (new Date(pass.valid_from).getTime() - toleranceMs > now) {
+        return { valid: false, reason: 'not_yet_valid', message: 'This visitor pass is not valid yet', pass: safePass };
+    }
+
+    if (new Date(pass.valid_to).getTime() + toleranceMs < now) {
+        return { valid: false, reason: 'expired', message: 'This visitor pass has expired', pass: safePass };
+    }
+
+    const scannedAt = new Date().toISOString();
+
+    let updateQuery = supabase
+        .from('access_logs')
+        .update({
+            scanned_at: scannedAt,
+            scanned_by: params.scannedBy,
+            scan_count: (pass.scan_count || 0) + 1,
+        })
+        .eq('id', pass.id);
+
+    // Single-use passes are stamped only once, even if two guards scan at the same time
+    if (pass.is_single_use) {
+        updateQuery = updateQuery.is('scanned_at', null);
+    }
+
+    const { data: stamped, error } = await updateQuery.select(PASS_SELECT).maybeSingle();
+
+    if (error) {
+        throw error;
+    }
+
+    if (!stamped) {
+        return {
+            valid: false,
+            reason: 'already_used',
+            message: 'This single-use pass has already been used',
+            pass: safePass,
+        };
+    }
+
+    return {
+        valid: true,
+        message: `Access granted for ${pass.visitor_name}`,
+        pass: { ...hideQrCode(formatVisitorPass(stamped)), host_apartment: safePass.host_apartment },
+    };
+}
@@ -0,0 +1,533 @@
+import { logIncidentChanges } from '@/lib/incident-activity-utils';
+import { LEDGER_ACCOUNTS, LedgerAccount, postExpenseEntry } from '@/lib/ledger-utils';
+import { notifyUsers } from '@/lib/notification-utils';
+import { checkPeriodOpen } from '@/lib/reconciliation-utils';
+
+/**
+ * Work Order Utilities
+ * Outside contractors of a residence and the work orders that send an incident to
+ * them: requested -> quoted -> approved (or rejected) -> scheduled -> completed.
+ * Scheduling sets the incident's intervention date; completing records the final
+ * invoice as an expense linked to the incident and posts it to the ledger.
+ */
+
+export type ContractorTrade = 'plumbing' | 'electrical' | 'locksmith' | 'cleaning' | 'elevator' | 'painting' | 'general' | 'other';
+
+export const CONTRACTOR_TRADES: ContractorTrade[] = [
+    'plumbing',
+    'electrical',
+    'locksmith',
+    'cleaning',
+    'elevator',
+    'painting',
+    'general',
+    'other',
+];
+
+export type WorkOrderStatus = 'requested' | 'quoted' | 'approved' | 'rejected' | 'scheduled' | 'completed' | 'cancelled';
+
+export const WORK_ORDER_STATUSES: WorkOrderStatus[] = [
+    'requested',
+    'quoted',
+    'approved',
+    'rejected',
+    'scheduled',
+    'completed',
+    'cancelled',
+];
+
+export type WorkOrderAction = 'quote' | 'approve' | 'reject' | 'schedule' | 'complete' | 'cancel';
+
+// Statuses each action can be applied from, and the status it leads to
+const TRANSITIONS: Record<WorkOrderAction, { from: WorkOrderStatus[]; to: WorkOrderStatus }> = {
+    quote: { from: ['requested', 'quoted'], to: 'quoted' },
+    approve: { from: ['quoted'], to: 'approved' },
+    reject: { from: ['quoted'], to: 'rejected' },
+    schedule: { from: ['approved', 'scheduled'], to: 'scheduled' },
+    complete: { from: ['approved', 'scheduled'], to: 'completed' },
+    cancel: { from: ['requested', 'quoted', 'approved', 'rejected', 'scheduled'], to: 'cancelled' },
+};
+
+// Expense category of an invoice, from the contractor's trade
+const TRADE_EXPENSE_CATEGORIES: Partial<Record<ContractorTrade, string>> = {
+    plumbing: 'Plumbing',
+    electrical: 'Electrical',
+    elevator: 'Elevator',
+    cleaning: 'Cleaning',
+};
+
+export interface Contractor {
+    id: number;
+    residence_id: number;
+    name: string;
+    trade: ContractorTrade;
+    phone: string | null;
+    email: string | null;
+    notes: string | null;
+    active: boolean;
+    created_at: string;
+}
+
+export interface ContractorInput {
+    id?: number | null;
+    name?: string;
+    trade?: ContractorTrade | null;
+    phone?: string | null;
+    email?: string | null;
+    notes?: string | null;
+    active?: boolean;
+}
+
+export interface WorkOrder {
+    id: number;
+    incident_id: number;
+    residence_id: number;
+    contractor_id: number;
+    contractor_name: string | null;
+    contractor_trade: ContractorTrade | null;
+    contractor_phone: string | null;
+    description: string;
+    status: WorkOrderStatus;
+    quote_amount: number | null;
+    quote_url: string | null;
+    quoted_at: string | null;
+    approved_at: string | null;
+    rejection_reason: string | null;
+    scheduled_at: string | null;
+    completed_at: string | null;
+    invoice_amount: number | null;
+    invoice_url: string | null;
+    expense_id: number | null;
+    created_at: string;
+}
+
+export interface WorkOrderUpdate {
+    action: WorkOrderAction;
+    quote_amount?: number | null;
+    quote_url?: string | null;
+    rejection_reason?: string | null;
+    scheduled_at?: string | null;
+    invoice_amount?: number | null;
+    invoice_url?: string | null;
+    expense_date?: string | null; // defaults to today
+    funding_source?: LedgerAccount | null; // defaults to cash, as for other expenses
+}
+
+const WORK_ORDER_SELECT = `
+    *,
+    contractor:contractor_id (
+        name,
+        trade,
+        phone
+    )
+`;
+
+function toWorkOrder(row: any): WorkOrder {
+    return {
+        id: row.id,
+        incident_id: row.incident_id,
+        residence_id: row.residence_id,
+        contractor_id: row.contractor_id,
+        contractor_name: row.contractor?.name || null,
+        contractor_trade: row.contractor?.trade || null,
+        contractor_phone: row.contractor?.phone || null,
+        description: row.description,
+        status: row.status,
+        quote_amount: row.quote_amount !== null ? Number(row.quote_amount) : null,
+        quote_url: row.quote_url,
+        quoted_at: row.quoted_at,
+        approved_at: row.approved_at,
+        rejection_reason: row.rejection_reason,
+        scheduled_at: row.scheduled_at,
+        completed_at: row.completed_at,
+        invoice_amount: row.invoice_amount !== null ? Number(row.invoice_amount) : null,
+        invoice_url: row.invoice_url,
+        expense_id: row.expense_id,
+        created_at: row.created_at,
+    };
+}
+
+/**
+ * Contractors of a residence, active ones first
+ */
+export async function listContractors(
+    supabase: any,
+    residenceId: number,
+    options: { includeInactive?: boolean } = {}
+): Promise<{ success: boolean; contractors?: Contractor[]; error?: string }> {
+    let query = supabase
+        .from('contractors')
+        .select('id, residence_id, name, trade, phone, email, notes, active, created_at')
+        .eq('residence_id', residenceId)
+        .order('active', { ascending: false })
+        .order('name', { ascending: true });
+
+    if (!options.includeInactive) {
+        query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error('[Work Order Utils] Error fetching contractors:', error);
+        return { success: false, error: error.message || 'Failed to fetch contractors' };
+    }
+
+    return { success: true, contractors: data || [] };
+}
+
+/**
+ * Add a contractor to the residence directory, or update one when `id` is given.
+ * On update, fields left undefined are kept as they are.
+ */
+export async function upsertContractor(
+    supabase: any,
+    residenceId: number,
+    userId: string,
+    input: ContractorInput
+): Promise<{ success: boolean; contractor?: Contractor; error?: string }> {
+    const isUpdate = !!input.id;
+    const fields: Record<string, any> = {
+        updated_at: new Date().toISOString(),
+    };
+
+    if (!isUpdate || input.name !== undefined) {
+        const name = (input.name || '').trim();
+        if (!name) {
+            return { success: false, error: 'Contractor name is required' };
+        }
+        fields.name = name;
+    }
+
+    if (input.trade && !CONTRACTOR_TRADES.includes(input.trade)) {
+        return { success: false, error: `Trade must be one of: ${CONTRACTOR_TRADES.join(', ')}` };
+    }
+    if (input.trade || !isUpdate) {
+        fields.trade = input.trade || 'general';
+    }
+
+    if (input.email !== undefined) {
+        const email = input.email?.trim() || null;
+        if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+            return { success: false, error: 'Invalid email address' };
+        }
+        fields.email = email;
+    }
+    if (input.phone !== undefined) fields.phone = input.phone?.trim() || null;
+    if (input.notes !== undefined) fields.notes = input.notes?.trim() || null;
+    if (input.active !== undefined) fields.active = input.active;
+
+    const query = input.id
+        ? supabase
+            .from('contractors')
+            .update(fields)
+            .eq('id', input.id)
+            .eq('residence_id', residenceId)
+        : supabase
+            .from('contractors')
+            .insert({ ...fields, residence_id: residenceId, created_by: userId });
+
+    const { data: contractor, error } = await query
+        .select('id, residence_id, name, trade, phone, email, notes, active, created_at')
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Work Order Utils] Error saving contractor:', error);
+        return { success: false, error: error.message || 'Failed to save contractor' };
+    }
+    if (!contractor) {
+        return { success: false, error: 'Contractor not found' };
+    }
+
+    return { success: true, contractor };
+}
+
+/**
+ * Work orders of an incident of the residence, oldest first
+ */
+export async function listWorkOrders(
+    supabase: any,
+    residenceId: number,
+    incidentId: number
+): Promise<{ success: boolean; workOrders?: WorkOrder[]; error?: string }> {
+    const { data, error } = await supabase
+        .from('work_orders')
+        .select(WORK_ORDER_SELECT)
+        .eq('residence_id', residenceId)
+        .eq('incident_id', incidentId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('[Work Order Utils] Error fetching work orders:', error);
+        return { success: false, error: error.message || 'Failed to fetch work orders' };
+    }
+
+    return { success: true, workOrders: (data || []).map(toWorkOrder) };
+}
+
+/**
+ * Send an incident to a contractor: a work order waiting for their quote
+ */
+export async function openWorkOrder(
+    supabase: any,
+    residenceId: number,
+    userId: string,
+    input: { incident_id: number; contractor_id: number; description: string }
+): Promise<{ success: boolean; workOrder?: WorkOrder; error?: string }> {
+    const description = (input.description || '').trim();
+    if (!input.incident_id || !input.contractor_id || !description) {
+        return { success: false, error: 'Missing required fields: incident_id, contractor_id and description are required' };
+    }
+
+    const { data: incident } = await supabase
+        .from('incidents')
+        .select('id, residence_id, status')
+        .eq('id', input.incident_id)
+        .maybeSingle();
+
+    if (!incident || Number(incident.residence_id) !== residenceId) {
+        return { success: false, error: 'Incident not found' };
+    }
+    if (incident.status === 'closed') {
+        return { success: false, error: 'Work orders cannot be opened on a closed incident' };
+    }
+
+    const { data: contractor } = await supabase
+        .from('contractors')
+        .select('id, residence_id, active')
+        .eq('id', input.contractor_id)
+        .maybeSingle();
+
+    if (!contractor || Number(contractor.residence_id) !== residenceId) {
+        return { success: false, error: 'Contractor not found' };
+    }
+    if (!contractor.active) {
+        return { success: false, error: 'This contractor is inactive' };
+    }
+
+    const { data: row, error } = await supabase
+        .from('work_orders')
+        .insert({
+            incident_id: incident.id,
+            residence_id: residenceId,
+            contractor_id: contractor.id,
+            description,
+            status: 'requested' as WorkOrderStatus,
+            created_by: userId,
+        })
+        .select(WORK_ORDER_SELECT)
+        .single();
+
+    if (error) {
+        console.error('[Work Order Utils] Error creating work order:', error);
+        return { success: false, error: error.message || 'Failed to create work order' };
+    }
+
+    return { success: true, workOrder: toWorkOrder(row) };
+}
+
+/**
+ * Record the final invoice of a work order as an expense linked to its incident
+ */
+async function recordInvoiceExpense(
+    supabase: any,
+    workOrder: any,
+    incident: any,
+    userId: string,
+    update: WorkOrderUpdate
+): Promise<{ expense?: any; error?: string }> {
+    const amount = Number(update.invoice_amount);
+    if (!amount || amount <= 0) {
+        return { error: 'Invoice amount must be greater than 0' };
+    }
+
+    if (update.funding_source && !LEDGER_ACCOUNTS.includes(update.funding_source)) {
+        return { error: 'Funding source must be cash or bank' };
+    }
+
+    const expenseDate = update.expense_date || new Date().toISOString().split('T')[0];
+    if (isNaN(Date.parse(expenseDate))) {
+        return { error: 'Invalid expense date' };
+    }
+
+    const lockedError = await checkPeriodOpen(supabase, workOrder.residence_id, [expenseDate]);
+    if (lockedError) {
+        return { error: lockedError };
+    }
+
+    const trade = workOrder.contractor?.trade as ContractorTrade | undefined;
+    const { data: expense, error } = await supabase
+        .from('expenses')
+        .insert({
+            description: `Repair: ${incident.title} (${workOrder.contractor?.name || 'contractor'})`,
+            category: (trade && TRADE_EXPENSE_CATEGORIES[trade]) || 'Maintenance',
+            amount,
+            expense_date: expenseDate,
+            residence_id: workOrder.residence_id,
+            created_by: userId,
+            attachment_url: update.invoice_url || null,
+            funding_source: update.funding_source || 'cash',
+            incident_id: incident.id,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('[Work Order Utils] Error recording invoice expense:', error);
+        return { error: error.message || 'Failed to record the invoice as an expense' };
+    }
+
+    return { expense };
+}
+
+/**
+ * Move a work order forward: record the quote, approve or reject it, schedule the
+ * intervention, record the final invoice, or cancel. Only valid transitions apply.
+ */
+export async function applyWorkOrderAction(
+    supabase: any,
+    residenceId: number,
+    userId: string,
+    workOrderId: number,
+    update: WorkOrderUpdate
+): Promise<{ success: boolean; workOrder?: WorkOrder; error?: string }> {
+    const transition = TRANSITIONS[update.action];
+    if (!transition) {
+        return { success: false, error: `Action must be one of: ${Object.keys(TRANSITIONS).join(', ')}` };
+    }
+
+    const { data: workOrder, error: fetchError } = await supabase
+        .from('work_orders')
+        .select(WORK_ORDER_SELECT)
+        .eq('id', workOrderId)
+        .maybeSingle();
+
+    if (fetchError || !workOrder || Number(workOrder.residence_id) !== residenceId) {
+        return { success: false, error: 'Work order not found' };
+    }
+
+    if (!transition.from.includes(workOrder.status)) {
+        return { success: false, error: `A ${workOrder.status} work order cannot be ${transition.to}` };
+    }
+
+    const { data: incident } = await supabase
+        .from('incidents')
+        .select('id, title, status, user_id, residence_id, intervention_at')
+        .eq('id', workOrder.incident_id)
+        .maybeSingle();
+
+    if (!incident) {
+        return { success: false, error: 'Incident not found' };
+    }
+
+    const now = new Date().toISOString();
+    const fields: Record<string, any> = {
+        status: transition.to,
+        updated_at: now,
+    };
+    let expense: any = null;
+
+    switch (update.action) {
+        case 'quote': {
+            const amount = Number(update.quote_amount);
+            if (!amount || amount <= 0) {
+                return { success: false, error: 'Quote amount must be greater than 0' };
+            }
+            fields.quote_amount = amount;
+            fields.quote_url = update.quote_url || workOrder.quote_url || null;
+            fields.quoted_at = now;
+            break;
+        }
+        case 'approve':
+            fields.approved_at = now;
+            fields.approved_by = userId;
+            fields.rejection_reason = null;
+            break;
+        case 'reject':
+            fields.rejection_reason = update.rejection_reason?.trim() || null;
+            break;
+        case 'schedule': {
+            const scheduledAt = update.scheduled_at ? new Date(update.scheduled_at) : null;
+            if (!scheduledAt || isNaN(scheduledAt.getTime())) {
+                return { success: false, error: 'A valid intervention date is required' };
+            }
+            fields.scheduled_at = scheduledAt.toISOString();
+            break;
+        }
+        case 'complete': {
+            const result = await recordInvoiceExpense(supabase, workOrder, incident, userId, update);
+            if (result.error || !result.expense) {
+                return { success: false, error: result.error || 'Failed to record the invoice' };
+            }
+            expense = result.expense;
+            fields.completed_at = now;
+            fields.invoice_amount = Number(expense.amount);
+            fields.invoice_url = update.invoice_url || null;
+            fields.expense_id = expense.id;
+            break;
+        }
+    }
+
+    // Only apply if nobody moved the work order in the meantime
+    const { data: row, error } = await supabase
+        .from('work_orders')
+        .update(fields)
+        .eq('id', workOrder.id)
+        .eq('status', workOrder.status)
+        .select(WORK_ORDER_SELECT)
+        .maybeSingle();
+
+    if (error || !row) {
+        if (expense) {
+            // Don't leave an expense behind for an invoice that wasn't recorded
+            await supabase.from('expenses').delete().eq('id', expense.id);
+        }
+        console.error('[Work Order Utils] Error updating work order:', error);
+        return { success: false, error: error?.message || 'The work order was changed by someone else; reload it and try again' };
+    }
+
+    if (expense) {
+        const ledgerResult = await postExpenseEntry(supabase, expense, userId);
+        if (!ledgerResult.success) {
+            console.error('[Work Order Utils] Error posting invoice to ledger:', ledgerResult.error);
+        }
+    }
+
+    if (update.action === 'schedule') {
+        // The intervention shows on the incident and the calendar
+        const incidentFields: Record<string, any> = {
+            intervention_at: fields.scheduled_at,
+            updated_at: now,
+        };
+        if (incident.status === 'open') {
+            incidentFields.status = 'in_progress';
+        }
+
+        const { error: incidentError } = await supabase
+            .from('incidents')
+            .update(incidentFields)
+            .eq('id', incident.id);
+
+        if (incidentError) {
+            console.warn('[Work Order Utils] Failed to set the intervention date on the incident:', incidentError);
+        } else {
+            await logIncidentChanges(supabase, incident, incidentFields, userId);
+        }
+
+        if (incident.user_id && incident.user_id !== userId) {
+            await notifyUsers(supabase, {
+                userIds: [incident.user_id],
+                category: 'incidents',
+                title: 'Intervention Scheduled',
+                message: `${row.contractor?.name || 'A contractor'} will come for your incident "${incident.title}" on ${new Date(fields.scheduled_at).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}`,
+                residenceId,
+                actionData: {
+                    incident_id: incident.id,
+                    type: 'incident',
+                },
+            });
+        }
+    }
+
+    return { success: true, workOrder: toWorkOrder(row) };
+}
@@ -31,6 +31,12 @@ const nextConfig: NextConfig = {
   
   // Enable standalone output for Docker
   output: 'standalone',
+
+  // Fonts read at request time for Arabic assembly packs (web action and mobile API)
+  outputFileTracingIncludes: {
+    '/app/analytics': ['./public/fonts/**/*'],
+    '/api/mobile/analytics/assembly-pack': ['./public/fonts/**/*'],
+  },
   
   // Optimize for faster development with Turbopack
   experimental: {
@@ -39,8 +45,8 @@ const nextConfig: NextConfig = {
     
     // Server Actions configuration
     serverActions: {
-      // Increase body size limit to 25MB to allow document uploads (2 files × 10MB max + overhead)
-      bodySizeLimit: '25mb',
+      // Allow document uploads (2 files × 10MB max) and complaint evidence videos (50MB max) plus overhead
+      bodySizeLimit: '55mb',
     },
   },
 };
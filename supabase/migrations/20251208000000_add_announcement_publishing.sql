@@ -0,0 +1,73 @@
+-- ============================================================================
+-- Migration: Announcement Publishing Workflow
+-- Description: Adds pinning, scheduling and archiving to announcements so
+--              syndics can publish notices to their residence
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD COLUMNS
+-- ============================================================================
+
+-- Pinned announcements are always listed first
+ALTER TABLE dbasakan.announcements
+  ADD COLUMN IF NOT EXISTS is_pinned boolean NOT NULL DEFAULT false;
+
+-- Residents only see an announcement once publish_at has passed
+ALTER TABLE dbasakan.announcements
+  ADD COLUMN IF NOT EXISTS publish_at timestamp with time zone NOT NULL DEFAULT now();
+
+-- Archived announcements are hidden from residents but kept for history
+ALTER TABLE dbasakan.announcements
+  ADD COLUMN IF NOT EXISTS archived_at timestamp with time zone;
+
+ALTER TABLE dbasakan.announcements
+  ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now();
+
+-- Backfill publish_at for announcements created before this migration
+UPDATE dbasakan.announcements
+  SET publish_at = created_at
+  WHERE created_at IS NOT NULL AND publish_at > created_at;
+
+COMMENT ON COLUMN dbasakan.announcements.is_pinned IS 'Pinned announcements are listed before all others';
+COMMENT ON COLUMN dbasakan.announcements.publish_at IS 'Scheduled publication time. Residents only see announcements where publish_at <= now()';
+COMMENT ON COLUMN dbasakan.announcements.archived_at IS 'Set when the syndic archives the announcement. Archived announcements are hidden from residents';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_announcements_residence_id ON dbasakan.announcements(residence_id);
+
+-- Resident feed: visible announcements of a residence, pinned first
+CREATE INDEX IF NOT EXISTS idx_announcements_residence_feed
+  ON dbasakan.announcements(residence_id, is_pinned DESC, publish_at DESC)
+  WHERE archived_at IS NULL;
+
+-- ============================================================================
+-- PART 3: CREATE TRIGGER FOR UPDATED_AT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION dbasakan.update_announcements_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_announcements_updated_at ON dbasakan.announcements;
+CREATE TRIGGER trigger_update_announcements_updated_at
+BEFORE UPDATE ON dbasakan.announcements
+FOR EACH ROW
+EXECUTE FUNCTION dbasakan.update_announcements_updated_at();
+
+-- ============================================================================
+-- PART 4: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT SELECT ON dbasakan.announcements TO authenticated;
+GRANT ALL ON dbasakan.announcements TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
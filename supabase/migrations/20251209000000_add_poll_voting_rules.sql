@@ -0,0 +1,150 @@
+-- ============================================================================
+-- Migration: Poll Voting Rules
+-- Description: Adds closing dates, vote scope (one vote per apartment or per
+--              profile), quorum thresholds and anonymous mode to polls.
+--              Vote uniqueness and closing are enforced in the database.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: POLLS COLUMNS
+-- ============================================================================
+
+ALTER TABLE dbasakan.polls
+  ADD COLUMN IF NOT EXISTS description text;
+
+-- Votes are rejected once closes_at has passed
+ALTER TABLE dbasakan.polls
+  ADD COLUMN IF NOT EXISTS closes_at timestamp with time zone;
+
+-- Set when the syndic closes the poll before closes_at
+ALTER TABLE dbasakan.polls
+  ADD COLUMN IF NOT EXISTS closed_at timestamp with time zone;
+
+-- apartment: one vote per apartment number, whoever of its residents casts it
+-- profile: one vote per resident profile
+ALTER TABLE dbasakan.polls
+  ADD COLUMN IF NOT EXISTS vote_scope text NOT NULL DEFAULT 'apartment';
+
+-- Minimum participation (percentage of eligible voters) for the result to be valid
+ALTER TABLE dbasakan.polls
+  ADD COLUMN IF NOT EXISTS quorum_percent numeric;
+
+-- Anonymous polls never expose which option a voter chose
+ALTER TABLE dbasakan.polls
+  ADD COLUMN IF NOT EXISTS is_anonymous boolean NOT NULL DEFAULT false;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'polls_vote_scope_check') THEN
+    ALTER TABLE dbasakan.polls
+      ADD CONSTRAINT polls_vote_scope_check CHECK (vote_scope IN ('apartment', 'profile'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'polls_quorum_percent_check') THEN
+    ALTER TABLE dbasakan.polls
+      ADD CONSTRAINT polls_quorum_percent_check CHECK (quorum_percent IS NULL OR (quorum_percent > 0 AND quorum_percent <= 100));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.polls.vote_scope IS 'apartment: one vote per apartment. profile: one vote per resident profile';
+COMMENT ON COLUMN dbasakan.polls.quorum_percent IS 'Minimum participation percentage of eligible voters. NULL means no quorum';
+COMMENT ON COLUMN dbasakan.polls.is_anonymous IS 'Anonymous polls never expose the option chosen by a voter';
+
+-- ============================================================================
+-- PART 2: POLL VOTES COLUMNS
+-- ============================================================================
+
+-- Apartment the vote was cast for (always recorded, used for participation by apartment)
+ALTER TABLE dbasakan.poll_votes
+  ADD COLUMN IF NOT EXISTS profile_residence_id bigint;
+
+ALTER TABLE dbasakan.poll_votes
+  ADD COLUMN IF NOT EXISTS apartment_number text;
+
+-- Uniqueness key derived from the poll vote_scope:
+-- 'apartment:<APARTMENT_NUMBER>' or 'profile:<user_id>'
+ALTER TABLE dbasakan.poll_votes
+  ADD COLUMN IF NOT EXISTS voter_key text;
+
+UPDATE dbasakan.poll_votes
+  SET voter_key = 'profile:' || user_id
+  WHERE voter_key IS NULL;
+
+ALTER TABLE dbasakan.poll_votes
+  ALTER COLUMN voter_key SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'poll_votes_profile_residence_id_fkey') THEN
+    ALTER TABLE dbasakan.poll_votes
+      ADD CONSTRAINT poll_votes_profile_residence_id_fkey
+      FOREIGN KEY (profile_residence_id)
+      REFERENCES dbasakan.profile_residences(id)
+      ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'poll_votes_poll_voter_key_unique') THEN
+    ALTER TABLE dbasakan.poll_votes
+      ADD CONSTRAINT poll_votes_poll_voter_key_unique UNIQUE (poll_id, voter_key);
+  END IF;
+END $$;
+
+-- ============================================================================
+-- PART 3: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_polls_residence_id ON dbasakan.polls(residence_id);
+CREATE INDEX IF NOT EXISTS idx_poll_options_poll_id ON dbasakan.poll_options(poll_id);
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_id ON dbasakan.poll_votes(poll_id);
+
+-- ============================================================================
+-- PART 4: BLOCK VOTES ON CLOSED POLLS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION dbasakan.check_poll_open_for_vote()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_poll dbasakan.polls%ROWTYPE;
+BEGIN
+  SELECT * INTO v_poll FROM dbasakan.polls WHERE id = NEW.poll_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll % does not exist', NEW.poll_id;
+  END IF;
+
+  IF v_poll.is_active IS NOT TRUE
+    OR v_poll.closed_at IS NOT NULL
+    OR (v_poll.closes_at IS NOT NULL AND v_poll.closes_at <= NOW()) THEN
+    RAISE EXCEPTION 'Poll % is closed', NEW.poll_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM dbasakan.poll_options
+    WHERE id = NEW.option_id AND poll_id = NEW.poll_id
+  ) THEN
+    RAISE EXCEPTION 'Option % does not belong to poll %', NEW.option_id, NEW.poll_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_poll_open_for_vote ON dbasakan.poll_votes;
+CREATE TRIGGER trigger_check_poll_open_for_vote
+BEFORE INSERT OR UPDATE ON dbasakan.poll_votes
+FOR EACH ROW
+EXECUTE FUNCTION dbasakan.check_poll_open_for_vote();
+
+-- ============================================================================
+-- PART 5: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT SELECT ON dbasakan.polls TO authenticated;
+GRANT SELECT ON dbasakan.poll_options TO authenticated;
+GRANT ALL ON dbasakan.polls TO service_role;
+GRANT ALL ON dbasakan.poll_options TO service_role;
+GRANT ALL ON dbasakan.poll_votes TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,62 @@
+-- ============================================================================
+-- Migration: Delivery Pickup Tracking
+-- Description: Adds carrier, pickup confirmation code and handover tracking to
+--              deliveries so guards can log parcels and record their pickup.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: DELIVERIES COLUMNS
+-- ============================================================================
+
+ALTER TABLE dbasakan.deliveries
+  ADD COLUMN IF NOT EXISTS carrier text;
+
+-- Code sent to the recipient, checked by the guard at pickup
+ALTER TABLE dbasakan.deliveries
+  ADD COLUMN IF NOT EXISTS pickup_code text;
+
+-- Guard (or syndic) who handed the parcel over
+ALTER TABLE dbasakan.deliveries
+  ADD COLUMN IF NOT EXISTS handed_over_by text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'deliveries_handed_over_by_fkey') THEN
+    ALTER TABLE dbasakan.deliveries
+      ADD CONSTRAINT deliveries_handed_over_by_fkey
+      FOREIGN KEY (handed_over_by)
+      REFERENCES dbasakan.profiles(id)
+      ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'deliveries_pickup_consistency_check') THEN
+    ALTER TABLE dbasakan.deliveries
+      ADD CONSTRAINT deliveries_pickup_consistency_check
+      CHECK (handed_over_by IS NULL OR picked_up_at IS NOT NULL);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.deliveries.pickup_code IS 'Confirmation code sent to the recipient and checked at pickup';
+COMMENT ON COLUMN dbasakan.deliveries.handed_over_by IS 'Profile of the guard or syndic who handed the parcel over';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_deliveries_residence_id ON dbasakan.deliveries(residence_id);
+CREATE INDEX IF NOT EXISTS idx_deliveries_recipient_id ON dbasakan.deliveries(recipient_id);
+
+-- Uncollected parcels report
+CREATE INDEX IF NOT EXISTS idx_deliveries_uncollected
+  ON dbasakan.deliveries(residence_id, created_at)
+  WHERE picked_up_at IS NULL;
+
+-- ============================================================================
+-- PART 3: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.deliveries TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,54 @@
+-- ============================================================================
+-- Migration: Visitor Passes
+-- Description: Turns access_logs into signed visitor QR passes. Adds single-use
+--              and revocation rules and a scan counter for multi-use passes.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ACCESS LOGS COLUMNS
+-- ============================================================================
+
+ALTER TABLE dbasakan.access_logs
+  ADD COLUMN IF NOT EXISTS created_at timestamp with time zone NOT NULL DEFAULT now();
+
+-- Single-use passes are refused after their first scan
+ALTER TABLE dbasakan.access_logs
+  ADD COLUMN IF NOT EXISTS is_single_use boolean NOT NULL DEFAULT true;
+
+-- Number of accepted scans (scanned_at/scanned_by hold the latest one)
+ALTER TABLE dbasakan.access_logs
+  ADD COLUMN IF NOT EXISTS scan_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE dbasakan.access_logs
+  ADD COLUMN IF NOT EXISTS revoked_at timestamp with time zone;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'access_logs_validity_window_check') THEN
+    ALTER TABLE dbasakan.access_logs
+      ADD CONSTRAINT access_logs_validity_window_check CHECK (valid_to > valid_from);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.access_logs.qr_code_data IS 'Signed QR payload (HS256 JWT) shown by the visitor at the gate';
+COMMENT ON COLUMN dbasakan.access_logs.is_single_use IS 'Single-use passes are refused after their first scan';
+COMMENT ON COLUMN dbasakan.access_logs.scan_count IS 'Number of accepted scans; scanned_at/scanned_by hold the latest one';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+-- The QR payload is the lookup key at the gate
+CREATE UNIQUE INDEX IF NOT EXISTS idx_access_logs_qr_code_data ON dbasakan.access_logs(qr_code_data);
+CREATE INDEX IF NOT EXISTS idx_access_logs_residence_valid_to ON dbasakan.access_logs(residence_id, valid_to);
+CREATE INDEX IF NOT EXISTS idx_access_logs_generated_by ON dbasakan.access_logs(generated_by);
+
+-- ============================================================================
+-- PART 3: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.access_logs TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,62 @@
+-- ============================================================================
+-- Migration: Notification Center
+-- Description: Adds a category to notifications and per-category preferences
+--              so users choose which events reach them.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: NOTIFICATIONS COLUMNS
+-- ============================================================================
+
+-- Category of the event (fees, complaints, incidents, ...), matched against preferences
+ALTER TABLE dbasakan.notifications
+  ADD COLUMN IF NOT EXISTS category text NOT NULL DEFAULT 'general';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'notifications_category_check') THEN
+    ALTER TABLE dbasakan.notifications
+      ADD CONSTRAINT notifications_category_check CHECK (
+        category IN ('general', 'fees', 'complaints', 'incidents', 'announcements', 'polls', 'deliveries', 'visitors')
+      );
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.notifications.category IS 'Event category, used to honour notification_preferences';
+
+-- ============================================================================
+-- PART 2: NOTIFICATION PREFERENCES TABLE
+-- ============================================================================
+
+-- One row per user and category. A missing row means the category is enabled.
+CREATE TABLE IF NOT EXISTS dbasakan.notification_preferences (
+  user_id text NOT NULL,
+  category text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT notification_preferences_pkey PRIMARY KEY (user_id, category),
+  CONSTRAINT notification_preferences_user_id_fkey FOREIGN KEY (user_id) REFERENCES dbasakan.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT notification_preferences_category_check CHECK (
+    category IN ('general', 'fees', 'complaints', 'incidents', 'announcements', 'polls', 'deliveries', 'visitors')
+  )
+);
+
+COMMENT ON TABLE dbasakan.notification_preferences IS 'Per-category opt-out of in-app notifications; a missing row means enabled';
+
+-- ============================================================================
+-- PART 3: CREATE INDEXES
+-- ============================================================================
+
+-- Bell list and unread count
+CREATE INDEX IF NOT EXISTS idx_notifications_user_status_created ON dbasakan.notifications(user_id, status, created_at DESC);
+
+-- ============================================================================
+-- PART 4: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.notifications TO service_role;
+GRANT ALL ON dbasakan.notification_preferences TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,174 @@
+-- ============================================================================
+-- Migration: Transaction Ledger
+-- Description: Turns transaction_history into a ledger with a running balance
+--              per account (cash or bank). Every verified payment, expense,
+--              refund and manual adjustment posts an entry; balances are read
+--              from the latest entry instead of being recomputed.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: PAYMENT STATUS
+-- ============================================================================
+
+-- The app records syndic-verified payments with status 'verified'
+ALTER TYPE dbasakan.payment_status ADD VALUE IF NOT EXISTS 'verified';
+
+-- ============================================================================
+-- PART 2: TRANSACTION HISTORY COLUMNS
+-- ============================================================================
+
+-- Account the entry moves money in or out of
+ALTER TABLE dbasakan.transaction_history
+  ADD COLUMN IF NOT EXISTS account text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'transaction_history_account_check') THEN
+    ALTER TABLE dbasakan.transaction_history
+      ADD CONSTRAINT transaction_history_account_check CHECK (account IN ('cash', 'bank'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'transaction_history_type_check') THEN
+    ALTER TABLE dbasakan.transaction_history
+      ADD CONSTRAINT transaction_history_type_check CHECK (
+        transaction_type IN ('payment', 'expense', 'refund', 'adjustment', 'reversal')
+      );
+  END IF;
+END $$;
+
+COMMENT ON TABLE dbasakan.transaction_history IS 'Ledger of every cash and bank movement; rows are never updated or deleted, corrections post new entries';
+COMMENT ON COLUMN dbasakan.transaction_history.account IS 'cash or bank';
+COMMENT ON COLUMN dbasakan.transaction_history.amount IS 'Signed amount: positive for money in, negative for money out';
+COMMENT ON COLUMN dbasakan.transaction_history.balance_after IS 'Running balance of the account after this entry';
+COMMENT ON COLUMN dbasakan.transaction_history.transaction_type IS 'payment, expense, refund, adjustment (manual or edit delta) or reversal (deleted source)';
+
+-- ============================================================================
+-- PART 3: POSTING FUNCTION
+-- ============================================================================
+
+-- Posts one entry and computes balance_after under a per-account lock so
+-- concurrent postings cannot read the same previous balance
+CREATE OR REPLACE FUNCTION dbasakan.post_ledger_entry(
+  p_residence_id bigint,
+  p_account text,
+  p_transaction_type text,
+  p_amount numeric,
+  p_reference_table text DEFAULT NULL,
+  p_reference_id bigint DEFAULT NULL,
+  p_method text DEFAULT NULL,
+  p_description text DEFAULT NULL,
+  p_created_by text DEFAULT NULL
+)
+RETURNS SETOF dbasakan.transaction_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = dbasakan, pg_temp
+AS $$
+DECLARE
+  v_previous numeric;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('ledger:' || p_residence_id || ':' || p_account));
+
+  SELECT th.balance_after INTO v_previous
+  FROM dbasakan.transaction_history th
+  WHERE th.residence_id = p_residence_id
+    AND th.account = p_account
+  ORDER BY th.id DESC
+  LIMIT 1;
+
+  RETURN QUERY
+  INSERT INTO dbasakan.transaction_history (
+    residence_id, account, transaction_type, amount, balance_after,
+    reference_table, reference_id, method, description, created_by
+  )
+  VALUES (
+    p_residence_id, p_account, p_transaction_type, p_amount, COALESCE(v_previous, 0) + p_amount,
+    p_reference_table, p_reference_id, p_method, p_description, p_created_by
+  )
+  RETURNING *;
+END;
+$$;
+
+-- ============================================================================
+-- PART 4: BACKFILL EXISTING PAYMENTS AND EXPENSES
+-- ============================================================================
+
+-- Opening entries so existing residences keep their current balances
+-- (expenses had no funding source, they were all counted as cash)
+INSERT INTO dbasakan.transaction_history (
+  residence_id, account, transaction_type, amount, balance_after,
+  reference_table, reference_id, method, description, created_by, created_at
+)
+SELECT
+  src.residence_id,
+  src.account,
+  src.transaction_type,
+  src.amount,
+  SUM(src.amount) OVER (
+    PARTITION BY src.residence_id, src.account
+    ORDER BY src.occurred_at, src.reference_table, src.reference_id
+  ),
+  src.reference_table,
+  src.reference_id,
+  src.method,
+  src.description,
+  src.created_by,
+  src.occurred_at
+FROM (
+  SELECT
+    p.residence_id,
+    CASE WHEN p.method::text = 'cash' THEN 'cash' ELSE 'bank' END AS account,
+    'payment' AS transaction_type,
+    p.amount,
+    'payments' AS reference_table,
+    p.id AS reference_id,
+    p.method::text AS method,
+    'Payment #' || p.id AS description,
+    p.verified_by AS created_by,
+    COALESCE(p.paid_at, now()) AS occurred_at
+  FROM dbasakan.payments p
+  WHERE p.status::text IN ('verified', 'completed')
+  UNION ALL
+  SELECT
+    e.residence_id,
+    'cash',
+    'expense',
+    -e.amount,
+    'expenses',
+    e.id,
+    NULL,
+    e.description,
+    e.created_by,
+    COALESCE(e.created_at, e.expense_date::timestamp with time zone)
+  FROM dbasakan.expenses e
+) src
+WHERE NOT EXISTS (
+  SELECT 1 FROM dbasakan.transaction_history th
+  WHERE th.residence_id = src.residence_id
+)
+-- Insert in running-balance order: the highest id holds the current balance
+ORDER BY src.residence_id, src.account, src.occurred_at, src.reference_table, src.reference_id;
+
+-- ============================================================================
+-- PART 5: CREATE INDEXES
+-- ============================================================================
+
+-- Latest entry per account gives the balance
+CREATE INDEX IF NOT EXISTS idx_transaction_history_residence_account ON dbasakan.transaction_history(residence_id, account, id DESC);
+CREATE INDEX IF NOT EXISTS idx_transaction_history_reference ON dbasakan.transaction_history(reference_table, reference_id) WHERE reference_id IS NOT NULL;
+
+-- A payment or expense is posted once; edits and deletions post adjustment/reversal entries
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transaction_history_source_once
+  ON dbasakan.transaction_history(reference_table, reference_id)
+  WHERE transaction_type IN ('payment', 'expense');
+
+-- ============================================================================
+-- PART 6: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.transaction_history TO service_role;
+GRANT EXECUTE ON FUNCTION dbasakan.post_ledger_entry(bigint, text, text, numeric, text, bigint, text, text, text) TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
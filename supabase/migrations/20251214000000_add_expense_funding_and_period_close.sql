@@ -0,0 +1,94 @@
+-- ============================================================================
+-- Migration: Expense Funding Source & Period Close
+-- Description: Records whether an expense was paid from cash or from the bank,
+--              and turns balance_snapshots into a period-close reconciliation:
+--              the syndic enters the counted cash and the bank statement
+--              balance, the computed ledger balances are stored next to them,
+--              and the period is locked once the discrepancy is explained.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: EXPENSE FUNDING SOURCE
+-- ============================================================================
+
+ALTER TABLE dbasakan.expenses
+  ADD COLUMN IF NOT EXISTS funding_source text NOT NULL DEFAULT 'cash';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'expenses_funding_source_check') THEN
+    ALTER TABLE dbasakan.expenses
+      ADD CONSTRAINT expenses_funding_source_check CHECK (funding_source IN ('cash', 'bank'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.expenses.funding_source IS 'Account the expense was paid from: cash or bank';
+
+-- ============================================================================
+-- PART 2: BALANCE SNAPSHOT RECONCILIATION COLUMNS
+-- ============================================================================
+
+-- cash_balance / bank_balance hold what the syndic counted and what the bank
+-- statement says; computed_* hold the ledger balances at the same date
+ALTER TABLE dbasakan.balance_snapshots
+  ADD COLUMN IF NOT EXISTS period_start date,
+  ADD COLUMN IF NOT EXISTS computed_cash_balance numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS computed_bank_balance numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open',
+  ADD COLUMN IF NOT EXISTS locked_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS locked_by text;
+
+ALTER TABLE dbasakan.balance_snapshots
+  ADD COLUMN IF NOT EXISTS cash_discrepancy numeric GENERATED ALWAYS AS (cash_balance - computed_cash_balance) STORED,
+  ADD COLUMN IF NOT EXISTS bank_discrepancy numeric GENERATED ALWAYS AS (bank_balance - computed_bank_balance) STORED;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'balance_snapshots_status_check') THEN
+    ALTER TABLE dbasakan.balance_snapshots
+      ADD CONSTRAINT balance_snapshots_status_check CHECK (status IN ('open', 'locked'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'balance_snapshots_locked_by_fkey') THEN
+    ALTER TABLE dbasakan.balance_snapshots
+      ADD CONSTRAINT balance_snapshots_locked_by_fkey FOREIGN KEY (locked_by) REFERENCES dbasakan.profiles(id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'balance_snapshots_period_check') THEN
+    ALTER TABLE dbasakan.balance_snapshots
+      ADD CONSTRAINT balance_snapshots_period_check CHECK (period_start IS NULL OR period_start <= snapshot_date);
+  END IF;
+END $$;
+
+-- Snapshots taken before this migration were informational only
+UPDATE dbasakan.balance_snapshots
+SET computed_cash_balance = cash_balance,
+    computed_bank_balance = bank_balance
+WHERE status = 'open'
+  AND computed_cash_balance = 0
+  AND computed_bank_balance = 0;
+
+COMMENT ON TABLE dbasakan.balance_snapshots IS 'Period-close reconciliations: counted cash and bank statement balance against the ledger';
+COMMENT ON COLUMN dbasakan.balance_snapshots.snapshot_date IS 'Last day of the closed period';
+COMMENT ON COLUMN dbasakan.balance_snapshots.cash_balance IS 'Cash counted by the syndic';
+COMMENT ON COLUMN dbasakan.balance_snapshots.bank_balance IS 'Balance shown on the bank statement';
+COMMENT ON COLUMN dbasakan.balance_snapshots.computed_cash_balance IS 'Ledger cash balance at the end of the period';
+COMMENT ON COLUMN dbasakan.balance_snapshots.computed_bank_balance IS 'Ledger bank balance at the end of the period';
+COMMENT ON COLUMN dbasakan.balance_snapshots.status IS 'open (can be edited or deleted) or locked (expenses dated in the period are frozen)';
+
+-- ============================================================================
+-- PART 3: CREATE INDEXES
+-- ============================================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_balance_snapshots_residence_date ON dbasakan.balance_snapshots(residence_id, snapshot_date);
+CREATE INDEX IF NOT EXISTS idx_balance_snapshots_locked ON dbasakan.balance_snapshots(residence_id, snapshot_date DESC) WHERE status = 'locked';
+
+-- ============================================================================
+-- PART 4: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.balance_snapshots TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
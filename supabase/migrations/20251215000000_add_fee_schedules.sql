@@ -0,0 +1,122 @@
+-- ============================================================================
+-- Migration: Fee Schedules
+-- Description: Recurring charges billed to every apartment of a residence.
+--              A schedule has a fixed amount per apartment, or a total split by
+--              apartment share (quote-part). Generated fees point back to their
+--              schedule and period so each period is billed exactly once.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: APARTMENT SHARES
+-- ============================================================================
+
+ALTER TABLE dbasakan.profile_residences
+  ADD COLUMN IF NOT EXISTS share numeric;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'profile_residences_share_check') THEN
+    ALTER TABLE dbasakan.profile_residences
+      ADD CONSTRAINT profile_residences_share_check CHECK (share IS NULL OR share > 0);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.profile_residences.share IS 'Apartment share of common charges (e.g. thousandths); used by share-based fee schedules';
+
+-- ============================================================================
+-- PART 2: CREATE FEE_SCHEDULES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.fee_schedules (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  residence_id bigint NOT NULL,
+  title text NOT NULL,
+  amount numeric NOT NULL,
+  amount_type text NOT NULL DEFAULT 'fixed',
+  frequency text NOT NULL DEFAULT 'monthly',
+  start_date date NOT NULL,
+  end_date date,
+  due_days integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_by text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT fee_schedules_pkey PRIMARY KEY (id),
+  CONSTRAINT fee_schedules_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id) ON DELETE CASCADE,
+  CONSTRAINT fee_schedules_created_by_fkey FOREIGN KEY (created_by) REFERENCES dbasakan.profiles(id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fee_schedules_amount_check') THEN
+    ALTER TABLE dbasakan.fee_schedules
+      ADD CONSTRAINT fee_schedules_amount_check CHECK (amount > 0);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fee_schedules_amount_type_check') THEN
+    ALTER TABLE dbasakan.fee_schedules
+      ADD CONSTRAINT fee_schedules_amount_type_check CHECK (amount_type IN ('fixed', 'share'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fee_schedules_frequency_check') THEN
+    ALTER TABLE dbasakan.fee_schedules
+      ADD CONSTRAINT fee_schedules_frequency_check CHECK (frequency IN ('monthly', 'quarterly', 'yearly'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fee_schedules_dates_check') THEN
+    ALTER TABLE dbasakan.fee_schedules
+      ADD CONSTRAINT fee_schedules_dates_check CHECK (end_date IS NULL OR end_date >= start_date);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fee_schedules_due_days_check') THEN
+    ALTER TABLE dbasakan.fee_schedules
+      ADD CONSTRAINT fee_schedules_due_days_check CHECK (due_days BETWEEN 0 AND 90);
+  END IF;
+END $$;
+
+COMMENT ON TABLE dbasakan.fee_schedules IS 'Recurring charges generated as fees for every apartment each period';
+COMMENT ON COLUMN dbasakan.fee_schedules.amount IS 'Per-apartment amount (fixed) or total amount split by apartment share (share)';
+COMMENT ON COLUMN dbasakan.fee_schedules.amount_type IS 'fixed or share';
+COMMENT ON COLUMN dbasakan.fee_schedules.frequency IS 'monthly, quarterly or yearly; periods start on start_date';
+COMMENT ON COLUMN dbasakan.fee_schedules.due_days IS 'Days after the period start when the generated fee is due';
+COMMENT ON COLUMN dbasakan.fee_schedules.active IS 'Paused schedules generate nothing';
+
+-- ============================================================================
+-- PART 3: LINK FEES TO THEIR SCHEDULE
+-- ============================================================================
+
+ALTER TABLE dbasakan.fees
+  ADD COLUMN IF NOT EXISTS schedule_id bigint,
+  ADD COLUMN IF NOT EXISTS period_start date;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fees_schedule_id_fkey') THEN
+    ALTER TABLE dbasakan.fees
+      ADD CONSTRAINT fees_schedule_id_fkey FOREIGN KEY (schedule_id) REFERENCES dbasakan.fee_schedules(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.fees.schedule_id IS 'Schedule that generated this fee (null for one-off fees)';
+COMMENT ON COLUMN dbasakan.fees.period_start IS 'First day of the billed period for scheduled fees';
+
+-- ============================================================================
+-- PART 4: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_fee_schedules_residence_active ON dbasakan.fee_schedules(residence_id) WHERE active = true;
+
+-- One fee per schedule, resident and period (one-off fees have a null schedule_id)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fees_schedule_period ON dbasakan.fees(schedule_id, user_id, period_start);
+
+CREATE INDEX IF NOT EXISTS idx_fees_unpaid_due ON dbasakan.fees(residence_id, due_date) WHERE status = 'unpaid';
+
+-- ============================================================================
+-- PART 5: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.fee_schedules TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
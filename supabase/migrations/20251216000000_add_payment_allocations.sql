@@ -0,0 +1,100 @@
+-- ============================================================================
+-- Migration: Payment Allocations
+-- Description: Lets one payment settle several fees and a fee be paid in
+--              several instalments. Each allocation moves part of a payment
+--              onto a fee; fees track what was paid and the remaining
+--              balance, and the unallocated part of a payment is credit the
+--              resident's later fees use automatically.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: FEE BALANCE
+-- ============================================================================
+
+ALTER TABLE dbasakan.fees
+  ADD COLUMN IF NOT EXISTS amount_paid numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE dbasakan.fees
+  ADD COLUMN IF NOT EXISTS balance_due numeric GENERATED ALWAYS AS (amount - amount_paid) STORED;
+
+-- Fees settled before allocations existed were paid in full
+UPDATE dbasakan.fees
+SET amount_paid = amount
+WHERE status = 'paid'
+  AND amount_paid = 0;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fees_amount_paid_check') THEN
+    ALTER TABLE dbasakan.fees
+      ADD CONSTRAINT fees_amount_paid_check CHECK (amount_paid >= 0);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fees_status_check') THEN
+    ALTER TABLE dbasakan.fees
+      ADD CONSTRAINT fees_status_check CHECK (status IN ('unpaid', 'partially_paid', 'paid', 'overdue'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.fees.amount_paid IS 'Sum of payment allocations applied to the fee';
+COMMENT ON COLUMN dbasakan.fees.balance_due IS 'Amount still owed on the fee';
+COMMENT ON COLUMN dbasakan.fees.status IS 'unpaid, partially_paid, paid or overdue (past due with a balance left)';
+
+-- ============================================================================
+-- PART 2: CREATE PAYMENT_ALLOCATIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.payment_allocations (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  residence_id bigint NOT NULL,
+  payment_id bigint NOT NULL,
+  fee_id bigint NOT NULL,
+  amount numeric NOT NULL,
+  created_by text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT payment_allocations_pkey PRIMARY KEY (id),
+  CONSTRAINT payment_allocations_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id),
+  CONSTRAINT payment_allocations_payment_id_fkey FOREIGN KEY (payment_id) REFERENCES dbasakan.payments(id) ON DELETE CASCADE,
+  CONSTRAINT payment_allocations_fee_id_fkey FOREIGN KEY (fee_id) REFERENCES dbasakan.fees(id) ON DELETE CASCADE,
+  CONSTRAINT payment_allocations_created_by_fkey FOREIGN KEY (created_by) REFERENCES dbasakan.profiles(id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'payment_allocations_amount_check') THEN
+    ALTER TABLE dbasakan.payment_allocations
+      ADD CONSTRAINT payment_allocations_amount_check CHECK (amount > 0);
+  END IF;
+END $$;
+
+COMMENT ON TABLE dbasakan.payment_allocations IS 'Part of a payment applied to a fee; a payment can cover several fees and a fee several payments';
+COMMENT ON COLUMN dbasakan.payment_allocations.amount IS 'Amount of the payment applied to the fee';
+
+-- Payments linked to a single fee before allocations existed
+INSERT INTO dbasakan.payment_allocations (residence_id, payment_id, fee_id, amount, created_by)
+SELECT p.residence_id, p.id, p.fee_id, LEAST(p.amount, f.amount), p.verified_by
+FROM dbasakan.payments p
+JOIN dbasakan.fees f ON f.id = p.fee_id
+WHERE p.status IN ('verified', 'completed')
+  AND p.amount > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM dbasakan.payment_allocations a WHERE a.payment_id = p.id
+  );
+
+-- ============================================================================
+-- PART 3: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_payment ON dbasakan.payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_fee ON dbasakan.payment_allocations(fee_id);
+CREATE INDEX IF NOT EXISTS idx_fees_user_outstanding ON dbasakan.fees(residence_id, user_id, due_date) WHERE status <> 'paid';
+
+-- ============================================================================
+-- PART 4: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.payment_allocations TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration: Fee Apartment
+-- Description: Records the apartment each fee is billed to, so statements of
+--              account can be produced per apartment for residents who hold
+--              several apartments. Scheduled fees become unique per apartment
+--              instead of per resident.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: FEE APARTMENT NUMBER
+-- ============================================================================
+
+ALTER TABLE dbasakan.fees
+  ADD COLUMN IF NOT EXISTS apartment_number text;
+
+-- Residents with a single apartment in the residence own all their fees there
+UPDATE dbasakan.fees f
+SET apartment_number = pr.apartment_number
+FROM (
+  SELECT profile_id, residence_id, MIN(apartment_number) AS apartment_number
+  FROM dbasakan.profile_residences
+  WHERE apartment_number IS NOT NULL
+  GROUP BY profile_id, residence_id
+  HAVING COUNT(DISTINCT apartment_number) = 1
+) pr
+WHERE f.apartment_number IS NULL
+  AND pr.profile_id = f.user_id
+  AND pr.residence_id = f.residence_id;
+
+COMMENT ON COLUMN dbasakan.fees.apartment_number IS 'Apartment the fee is billed to (null when the resident has several apartments and none was given)';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+-- One scheduled fee per apartment and period, even when a resident holds several apartments
+DROP INDEX IF EXISTS dbasakan.idx_fees_schedule_period;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fees_schedule_apartment_period ON dbasakan.fees(schedule_id, apartment_number, period_start);
+
+CREATE INDEX IF NOT EXISTS idx_fees_residence_apartment ON dbasakan.fees(residence_id, apartment_number);
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
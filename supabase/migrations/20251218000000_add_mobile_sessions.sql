@@ -0,0 +1,63 @@
+-- ============================================================================
+-- Migration: Mobile Sessions
+-- Description: Replaces the unsigned `otp_verified_<userId>` mobile token with
+--              signed, short-lived access tokens tied to a per-device session.
+--              Each session keeps the hash of its current refresh token, which
+--              rotates on every refresh; a reused refresh token revokes the
+--              session.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE MOBILE_SESSIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.mobile_sessions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  refresh_token_hash text NOT NULL,
+  device_id text,
+  device_name text,
+  platform text,
+  ip_address text,
+  user_agent text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_used_at timestamp with time zone NOT NULL DEFAULT now(),
+  expires_at timestamp with time zone NOT NULL,
+  revoked_at timestamp with time zone,
+  revoked_reason text,
+  CONSTRAINT mobile_sessions_pkey PRIMARY KEY (id),
+  CONSTRAINT mobile_sessions_user_id_fkey FOREIGN KEY (user_id) REFERENCES dbasakan.users(id) ON DELETE CASCADE
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'mobile_sessions_revoked_reason_check') THEN
+    ALTER TABLE dbasakan.mobile_sessions
+      ADD CONSTRAINT mobile_sessions_revoked_reason_check CHECK (
+        revoked_reason IS NULL OR revoked_reason IN ('logout', 'revoked', 'token_reuse', 'replaced')
+      );
+  END IF;
+END $$;
+
+COMMENT ON TABLE dbasakan.mobile_sessions IS 'Signed-in mobile devices; access tokens carry the session id and stop working once it is revoked or expired';
+COMMENT ON COLUMN dbasakan.mobile_sessions.refresh_token_hash IS 'SHA-256 of the current refresh token secret; replaced on every refresh';
+COMMENT ON COLUMN dbasakan.mobile_sessions.device_id IS 'Identifier sent by the app; signing in again on the same device replaces the previous session';
+COMMENT ON COLUMN dbasakan.mobile_sessions.expires_at IS 'End of the refresh window, pushed back on every refresh';
+COMMENT ON COLUMN dbasakan.mobile_sessions.revoked_reason IS 'logout, revoked (from another device), token_reuse (old refresh token presented) or replaced (new sign-in on the device)';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_mobile_sessions_user_active ON dbasakan.mobile_sessions(user_id, last_used_at DESC) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_mobile_sessions_user_device ON dbasakan.mobile_sessions(user_id, device_id) WHERE revoked_at IS NULL;
+
+-- ============================================================================
+-- PART 3: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.mobile_sessions TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- Migration: Active Residence
+-- Description: Syndics, guards and residents can belong to several residences.
+--              The residence a web session is working in is stored on the
+--              NextAuth session, so switching residences on one browser does
+--              not affect the user's other sessions.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ACTIVE RESIDENCE ON SESSIONS
+-- ============================================================================
+
+ALTER TABLE dbasakan.sessions
+  ADD COLUMN IF NOT EXISTS "activeResidenceId" bigint;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'sessions_active_residence_id_fkey'
+  ) THEN
+    ALTER TABLE dbasakan.sessions
+      ADD CONSTRAINT sessions_active_residence_id_fkey
+      FOREIGN KEY ("activeResidenceId") REFERENCES dbasakan.residences(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.sessions."activeResidenceId" IS 'Residence selected in the residence switcher (null = the user''s first residence)';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+-- Listing the residences a user belongs to
+CREATE INDEX IF NOT EXISTS idx_residences_syndic_user_id ON dbasakan.residences(syndic_user_id);
+CREATE INDEX IF NOT EXISTS idx_residences_guard_user_id ON dbasakan.residences(guard_user_id);
+CREATE INDEX IF NOT EXISTS idx_profile_residences_profile_id ON dbasakan.profile_residences(profile_id);
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,87 @@
+-- ============================================================================
+-- Migration: Residence Calendar
+-- Description: Events created by the syndic (general assemblies, maintenance
+--              windows, ...) for the residence calendar. The calendar also
+--              shows fee due dates, incident interventions and poll closing
+--              dates, read from their own tables. Each profile gets a secret
+--              token for its iCalendar (.ics) feed.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE CALENDAR_EVENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.calendar_events (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  residence_id bigint NOT NULL,
+  title text NOT NULL,
+  description text,
+  event_type text NOT NULL DEFAULT 'other'::text,
+  location text,
+  starts_at timestamp with time zone NOT NULL,
+  ends_at timestamp with time zone,
+  all_day boolean NOT NULL DEFAULT false,
+  created_by text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT calendar_events_pkey PRIMARY KEY (id),
+  CONSTRAINT calendar_events_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id) ON DELETE CASCADE,
+  CONSTRAINT calendar_events_created_by_fkey FOREIGN KEY (created_by) REFERENCES dbasakan.profiles(id) ON DELETE SET NULL
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'calendar_events_event_type_check') THEN
+    ALTER TABLE dbasakan.calendar_events
+      ADD CONSTRAINT calendar_events_event_type_check CHECK (event_type IN ('meeting', 'maintenance', 'other'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'calendar_events_dates_check') THEN
+    ALTER TABLE dbasakan.calendar_events
+      ADD CONSTRAINT calendar_events_dates_check CHECK (ends_at IS NULL OR ends_at >= starts_at);
+  END IF;
+END $$;
+
+COMMENT ON TABLE dbasakan.calendar_events IS 'Residence calendar events created by the syndic';
+COMMENT ON COLUMN dbasakan.calendar_events.event_type IS 'meeting (general assembly, council), maintenance (water or power cut, works) or other';
+COMMENT ON COLUMN dbasakan.calendar_events.all_day IS 'Whole-day event; only the date part of starts_at and ends_at is meaningful';
+
+-- ============================================================================
+-- PART 2: INCIDENT INTERVENTIONS AND FEED TOKENS
+-- ============================================================================
+
+ALTER TABLE dbasakan.incidents
+  ADD COLUMN IF NOT EXISTS intervention_at timestamp with time zone;
+
+COMMENT ON COLUMN dbasakan.incidents.intervention_at IS 'When a technician is scheduled to come; shown on the residence calendar';
+
+ALTER TABLE dbasakan.profiles
+  ADD COLUMN IF NOT EXISTS calendar_feed_token text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'profiles_calendar_feed_token_key') THEN
+    ALTER TABLE dbasakan.profiles
+      ADD CONSTRAINT profiles_calendar_feed_token_key UNIQUE (calendar_feed_token);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.profiles.calendar_feed_token IS 'Secret in the URL of the user''s iCalendar feed; regenerating it invalidates old subscriptions';
+
+-- ============================================================================
+-- PART 3: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_residence_starts_at ON dbasakan.calendar_events(residence_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_incidents_residence_intervention_at ON dbasakan.incidents(residence_id, intervention_at) WHERE intervention_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_fees_residence_due_date ON dbasakan.fees(residence_id, due_date);
+
+-- ============================================================================
+-- PART 4: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.calendar_events TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
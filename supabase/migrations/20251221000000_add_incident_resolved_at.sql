@@ -0,0 +1,32 @@
+-- ============================================================================
+-- Migration: Incident Resolution Time
+-- Description: Records when an incident was resolved or closed, so analytics
+--              can report how long incidents take to fix. Existing resolved
+--              and closed incidents use their last update as an estimate.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: RESOLVED_AT ON INCIDENTS
+-- ============================================================================
+
+ALTER TABLE dbasakan.incidents
+  ADD COLUMN IF NOT EXISTS resolved_at timestamp with time zone;
+
+UPDATE dbasakan.incidents
+SET resolved_at = updated_at
+WHERE resolved_at IS NULL
+  AND status IN ('resolved', 'closed');
+
+COMMENT ON COLUMN dbasakan.incidents.resolved_at IS 'When the incident was first marked resolved or closed; cleared when it is reopened';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_incidents_residence_created_at ON dbasakan.incidents(residence_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_complaints_residence_created_at ON dbasakan.complaints(residence_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_expenses_residence_expense_date ON dbasakan.expenses(residence_id, expense_date);
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
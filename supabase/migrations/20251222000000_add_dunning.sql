@@ -0,0 +1,135 @@
+-- ============================================================================
+-- Migration: Arrears Dunning
+-- Description: Per-residence dunning policy made of escalating steps (reminder
+--              before the due date, notice on the due date, formal letter,
+--              late-fee surcharge), and a timeline of what happened to each fee.
+--              Each step is applied to a fee at most once.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE DUNNING_STEPS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.dunning_steps (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  residence_id bigint NOT NULL,
+  kind text NOT NULL,
+  offset_days integer NOT NULL DEFAULT 0,
+  late_fee_type text,
+  late_fee_amount numeric,
+  active boolean NOT NULL DEFAULT true,
+  created_by text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT dunning_steps_pkey PRIMARY KEY (id),
+  CONSTRAINT dunning_steps_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id) ON DELETE CASCADE,
+  CONSTRAINT dunning_steps_created_by_fkey FOREIGN KEY (created_by) REFERENCES dbasakan.profiles(id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dunning_steps_kind_check') THEN
+    ALTER TABLE dbasakan.dunning_steps
+      ADD CONSTRAINT dunning_steps_kind_check CHECK (kind IN ('reminder', 'notice', 'formal_letter', 'late_fee'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dunning_steps_offset_days_check') THEN
+    ALTER TABLE dbasakan.dunning_steps
+      ADD CONSTRAINT dunning_steps_offset_days_check CHECK (offset_days BETWEEN -30 AND 365);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dunning_steps_late_fee_check') THEN
+    ALTER TABLE dbasakan.dunning_steps
+      ADD CONSTRAINT dunning_steps_late_fee_check CHECK (
+        kind <> 'late_fee'
+        OR (late_fee_type IN ('fixed', 'percent') AND late_fee_amount > 0)
+      );
+  END IF;
+END $$;
+
+COMMENT ON TABLE dbasakan.dunning_steps IS 'Escalating reminders applied to unpaid fees of a residence';
+COMMENT ON COLUMN dbasakan.dunning_steps.kind IS 'reminder, notice, formal_letter or late_fee';
+COMMENT ON COLUMN dbasakan.dunning_steps.offset_days IS 'Days relative to the fee due date (negative = before it)';
+COMMENT ON COLUMN dbasakan.dunning_steps.late_fee_type IS 'fixed amount or percent of the outstanding balance (late_fee steps only)';
+COMMENT ON COLUMN dbasakan.dunning_steps.active IS 'Inactive steps are kept in the policy but never applied';
+
+-- ============================================================================
+-- PART 2: LINK LATE-FEE SURCHARGES TO THEIR FEE
+-- ============================================================================
+
+ALTER TABLE dbasakan.fees
+  ADD COLUMN IF NOT EXISTS late_fee_of bigint;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fees_late_fee_of_fkey') THEN
+    ALTER TABLE dbasakan.fees
+      ADD CONSTRAINT fees_late_fee_of_fkey FOREIGN KEY (late_fee_of) REFERENCES dbasakan.fees(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.fees.late_fee_of IS 'Fee this late-fee surcharge was charged on (null for regular fees)';
+
+-- ============================================================================
+-- PART 3: CREATE FEE_EVENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.fee_events (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  residence_id bigint NOT NULL,
+  fee_id bigint NOT NULL,
+  event_type text NOT NULL,
+  step_id bigint,
+  email_status text,
+  recipient_email text,
+  late_fee_id bigint,
+  message text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT fee_events_pkey PRIMARY KEY (id),
+  CONSTRAINT fee_events_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id) ON DELETE CASCADE,
+  CONSTRAINT fee_events_fee_id_fkey FOREIGN KEY (fee_id) REFERENCES dbasakan.fees(id) ON DELETE CASCADE,
+  CONSTRAINT fee_events_step_id_fkey FOREIGN KEY (step_id) REFERENCES dbasakan.dunning_steps(id) ON DELETE SET NULL,
+  CONSTRAINT fee_events_late_fee_id_fkey FOREIGN KEY (late_fee_id) REFERENCES dbasakan.fees(id) ON DELETE SET NULL
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fee_events_event_type_check') THEN
+    ALTER TABLE dbasakan.fee_events
+      ADD CONSTRAINT fee_events_event_type_check CHECK (event_type IN ('overdue', 'reminder', 'notice', 'formal_letter', 'late_fee'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fee_events_email_status_check') THEN
+    ALTER TABLE dbasakan.fee_events
+      ADD CONSTRAINT fee_events_email_status_check CHECK (email_status IS NULL OR email_status IN ('pending', 'sent', 'failed', 'skipped'));
+  END IF;
+END $$;
+
+COMMENT ON TABLE dbasakan.fee_events IS 'Timeline of a fee: overdue marking and every dunning step applied to it';
+COMMENT ON COLUMN dbasakan.fee_events.step_id IS 'Dunning step that produced the event (null for overdue marking or deleted steps)';
+COMMENT ON COLUMN dbasakan.fee_events.email_status IS 'pending, sent, failed or skipped (resident has no email address)';
+COMMENT ON COLUMN dbasakan.fee_events.late_fee_id IS 'Surcharge fee created by a late_fee step';
+
+-- ============================================================================
+-- PART 4: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_dunning_steps_residence ON dbasakan.dunning_steps(residence_id) WHERE active = true;
+
+-- Each step is applied to a fee once, even when the cron runs concurrently
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fee_events_fee_step ON dbasakan.fee_events(fee_id, step_id) WHERE step_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_fee_events_fee ON dbasakan.fee_events(fee_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_fee_events_residence_created_at ON dbasakan.fee_events(residence_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_fees_late_fee_of ON dbasakan.fees(late_fee_of) WHERE late_fee_of IS NOT NULL;
+
+-- ============================================================================
+-- PART 5: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.dunning_steps TO service_role;
+GRANT ALL ON dbasakan.fee_events TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- Migration: Online Fee Payments
+-- Description: Residents pay outstanding fees by card through Stripe Checkout.
+--              Each completed Checkout session records one payment; the
+--              session id makes webhook retries idempotent.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD STRIPE REFERENCES TO PAYMENTS
+-- ============================================================================
+
+ALTER TABLE dbasakan.payments
+  ADD COLUMN IF NOT EXISTS stripe_checkout_session_id text,
+  ADD COLUMN IF NOT EXISTS stripe_payment_intent_id text;
+
+COMMENT ON COLUMN dbasakan.payments.stripe_checkout_session_id IS 'Stripe Checkout session that paid this online_card payment';
+COMMENT ON COLUMN dbasakan.payments.stripe_payment_intent_id IS 'Stripe payment intent of the Checkout session, used for refunds';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+-- A Checkout session is recorded once, even when Stripe retries the webhook
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_stripe_checkout_session
+  ON dbasakan.payments(stripe_checkout_session_id)
+  WHERE stripe_checkout_session_id IS NOT NULL;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Migration: Bank Transfer Verification
+-- Description: Residents declare bank transfers with a proof (transfer receipt)
+--              against one or more fees. Declarations stay pending until the
+--              syndic approves them (fees are then settled) or rejects them
+--              with a reason.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD DECLARATION AND REVIEW COLUMNS TO PAYMENTS
+-- ============================================================================
+
+ALTER TABLE dbasakan.payments
+  ADD COLUMN IF NOT EXISTS requested_fee_ids bigint[],
+  ADD COLUMN IF NOT EXISTS transfer_reference text,
+  ADD COLUMN IF NOT EXISTS submitted_at timestamp with time zone DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS rejection_reason text;
+
+COMMENT ON COLUMN dbasakan.payments.requested_fee_ids IS 'Fees the resident declared the transfer for; settled when the syndic approves it';
+COMMENT ON COLUMN dbasakan.payments.transfer_reference IS 'Bank reference of the transfer, as given by the resident';
+COMMENT ON COLUMN dbasakan.payments.submitted_at IS 'When the resident declared the payment';
+COMMENT ON COLUMN dbasakan.payments.reviewed_at IS 'When the syndic approved or rejected the declaration';
+COMMENT ON COLUMN dbasakan.payments.rejection_reason IS 'Why the syndic rejected the declaration, shown to the resident';
+
+-- ============================================================================
+-- PART 2: CREATE INDEXES
+-- ============================================================================
+
+-- Verification queue
+CREATE INDEX IF NOT EXISTS idx_payments_pending_review
+  ON dbasakan.payments(residence_id, submitted_at)
+  WHERE status = 'pending';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
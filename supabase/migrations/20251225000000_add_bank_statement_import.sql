@@ -0,0 +1,147 @@
+-- ============================================================================
+-- Migration: Bank Statement Import
+-- Description: Syndics upload bank statements (CSV, CAMT.053 or OFX) of the
+--              residence account. Each transaction becomes a statement line;
+--              credits are matched to pending bank transfers or open fees,
+--              debits become draft expenses. The syndic confirms or corrects
+--              every match, and draft expenses only reach the ledger once
+--              confirmed.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE BANK_STATEMENTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.bank_statements (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  residence_id bigint NOT NULL,
+  filename text NOT NULL,
+  format text NOT NULL,
+  account_number text,
+  period_start date,
+  period_end date,
+  line_count integer NOT NULL DEFAULT 0,
+  uploaded_by text,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT bank_statements_pkey PRIMARY KEY (id),
+  CONSTRAINT bank_statements_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id) ON DELETE CASCADE,
+  CONSTRAINT bank_statements_uploaded_by_fkey FOREIGN KEY (uploaded_by) REFERENCES dbasakan.profiles(id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bank_statements_format_check') THEN
+    ALTER TABLE dbasakan.bank_statements
+      ADD CONSTRAINT bank_statements_format_check CHECK (format IN ('csv', 'camt053', 'ofx'));
+  END IF;
+END $$;
+
+COMMENT ON TABLE dbasakan.bank_statements IS 'Bank statements of the residence account uploaded by the syndic';
+COMMENT ON COLUMN dbasakan.bank_statements.format IS 'csv, camt053 or ofx';
+COMMENT ON COLUMN dbasakan.bank_statements.account_number IS 'IBAN / account number read from the statement, when it has one';
+COMMENT ON COLUMN dbasakan.bank_statements.line_count IS 'Transactions imported (lines already imported from an earlier statement are skipped)';
+
+-- ============================================================================
+-- PART 2: CREATE BANK_STATEMENT_LINES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.bank_statement_lines (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  statement_id bigint NOT NULL,
+  residence_id bigint NOT NULL,
+  booking_date date NOT NULL,
+  amount numeric NOT NULL,
+  direction text NOT NULL,
+  description text,
+  reference text,
+  counterparty text,
+  fingerprint text NOT NULL,
+  match_status text NOT NULL DEFAULT 'unmatched',
+  match_type text,
+  match_score integer,
+  matched_payment_id bigint,
+  matched_user_id text,
+  matched_fee_ids bigint[],
+  expense_id bigint,
+  reviewed_by text,
+  reviewed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT bank_statement_lines_pkey PRIMARY KEY (id),
+  CONSTRAINT bank_statement_lines_statement_id_fkey FOREIGN KEY (statement_id) REFERENCES dbasakan.bank_statements(id) ON DELETE CASCADE,
+  CONSTRAINT bank_statement_lines_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id) ON DELETE CASCADE,
+  CONSTRAINT bank_statement_lines_matched_payment_id_fkey FOREIGN KEY (matched_payment_id) REFERENCES dbasakan.payments(id) ON DELETE SET NULL,
+  CONSTRAINT bank_statement_lines_matched_user_id_fkey FOREIGN KEY (matched_user_id) REFERENCES dbasakan.profiles(id) ON DELETE SET NULL,
+  CONSTRAINT bank_statement_lines_expense_id_fkey FOREIGN KEY (expense_id) REFERENCES dbasakan.expenses(id) ON DELETE SET NULL,
+  CONSTRAINT bank_statement_lines_reviewed_by_fkey FOREIGN KEY (reviewed_by) REFERENCES dbasakan.profiles(id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bank_statement_lines_amount_check') THEN
+    ALTER TABLE dbasakan.bank_statement_lines
+      ADD CONSTRAINT bank_statement_lines_amount_check CHECK (amount > 0);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bank_statement_lines_direction_check') THEN
+    ALTER TABLE dbasakan.bank_statement_lines
+      ADD CONSTRAINT bank_statement_lines_direction_check CHECK (direction IN ('credit', 'debit'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bank_statement_lines_match_status_check') THEN
+    ALTER TABLE dbasakan.bank_statement_lines
+      ADD CONSTRAINT bank_statement_lines_match_status_check CHECK (match_status IN ('unmatched', 'suggested', 'confirmed', 'ignored'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bank_statement_lines_match_type_check') THEN
+    ALTER TABLE dbasakan.bank_statement_lines
+      ADD CONSTRAINT bank_statement_lines_match_type_check CHECK (match_type IS NULL OR match_type IN ('transfer', 'fees', 'expense'));
+  END IF;
+END $$;
+
+COMMENT ON TABLE dbasakan.bank_statement_lines IS 'Transactions read from an imported bank statement and how they were matched';
+COMMENT ON COLUMN dbasakan.bank_statement_lines.amount IS 'Absolute amount of the transaction; direction tells whether money came in or out';
+COMMENT ON COLUMN dbasakan.bank_statement_lines.fingerprint IS 'Date, amount, direction and reference of the transaction, so overlapping statements are not imported twice';
+COMMENT ON COLUMN dbasakan.bank_statement_lines.match_status IS 'unmatched, suggested (automatic match waiting for review), confirmed or ignored';
+COMMENT ON COLUMN dbasakan.bank_statement_lines.match_type IS 'transfer (pending bank transfer), fees (open fees of a resident) or expense (draft expense for a debit)';
+COMMENT ON COLUMN dbasakan.bank_statement_lines.match_score IS 'Confidence of the automatic match, 0 to 100';
+COMMENT ON COLUMN dbasakan.bank_statement_lines.matched_payment_id IS 'Pending transfer matched, or the payment recorded when the match was confirmed';
+
+-- ============================================================================
+-- PART 3: DRAFT EXPENSES
+-- ============================================================================
+
+ALTER TABLE dbasakan.expenses
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'recorded';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'expenses_status_check') THEN
+    ALTER TABLE dbasakan.expenses
+      ADD CONSTRAINT expenses_status_check CHECK (status IN ('draft', 'recorded'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.expenses.status IS 'draft (created from a bank statement debit, not in the ledger yet) or recorded';
+
+-- ============================================================================
+-- PART 4: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_bank_statements_residence ON dbasakan.bank_statements(residence_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_statement ON dbasakan.bank_statement_lines(statement_id, booking_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statement_lines_fingerprint ON dbasakan.bank_statement_lines(residence_id, fingerprint);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_to_review
+  ON dbasakan.bank_statement_lines(residence_id, booking_date)
+  WHERE match_status IN ('unmatched', 'suggested');
+CREATE INDEX IF NOT EXISTS idx_expenses_drafts ON dbasakan.expenses(residence_id) WHERE status = 'draft';
+
+-- ============================================================================
+-- PART 5: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON dbasakan.bank_statements TO service_role;
+GRANT ALL ON dbasakan.bank_statement_lines TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Migration: Complaint Evidence Storage
+-- Description: Private storage bucket for complaint evidence (photos, audio,
+--              video). Files are only reachable through short-lived signed
+--              URLs handed out to the syndic of the residence; the
+--              complained-about resident never gets access to them.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE PRIVATE STORAGE BUCKET
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'complaint-evidence',
+  'complaint-evidence',
+  false,
+  52428800, -- 50MB, the largest per-type limit (video)
+  ARRAY[
+    'image/jpeg', 'image/png', 'image/webp', 'image/heic',
+    'audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/wav', 'audio/webm', 'audio/ogg',
+    'video/mp4', 'video/quicktime', 'video/webm'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- PART 2: STORAGE POLICIES
+-- ============================================================================
+
+-- Only the backend (service role) reads and writes evidence files; there is
+-- deliberately no public or authenticated read policy on this bucket
+DROP POLICY IF EXISTS "Service role manages complaint evidence" ON storage.objects;
+CREATE POLICY "Service role manages complaint evidence"
+ON storage.objects
+FOR ALL
+TO service_role
+USING (bucket_id = 'complaint-evidence')
+WITH CHECK (bucket_id = 'complaint-evidence');
+
+-- ============================================================================
+-- PART 3: DOCUMENT STORAGE PATHS
+-- ============================================================================
+
+COMMENT ON COLUMN dbasakan.complaint_evidence.file_url IS 'Object path in the private complaint-evidence bucket ({residence_id}/{complaint_id}/...); served through signed URLs only';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
@@ -0,0 +1,99 @@
+-- ============================================================================
+-- Migration: Complaint Mediation
+-- Description: Mediation threads between the syndic and each party of a
+--              complaint (one channel with the complainant, one with the
+--              complained-about resident, so anonymous complaints stay
+--              anonymous), escalation states, and the dates a warning was
+--              issued or the complaint escalated, which are kept to count
+--              repeat offences per resident.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD ESCALATION STATES
+-- ============================================================================
+
+ALTER TYPE dbasakan.complaint_status ADD VALUE IF NOT EXISTS 'in_mediation';
+ALTER TYPE dbasakan.complaint_status ADD VALUE IF NOT EXISTS 'warning_issued';
+ALTER TYPE dbasakan.complaint_status ADD VALUE IF NOT EXISTS 'escalated';
+
+COMMENT ON COLUMN dbasakan.complaints.status IS 'submitted: newly filed, reviewed: syndic has reviewed, in_mediation: syndic is talking to the parties, warning_issued: the complained-about resident was warned, escalated: referred beyond the syndic (general assembly, authorities), resolved: complaint resolved';
+
+-- ============================================================================
+-- PART 2: ADD ESCALATION HISTORY COLUMNS TO COMPLAINTS
+-- ============================================================================
+
+ALTER TABLE dbasakan.complaints
+  ADD COLUMN IF NOT EXISTS warning_issued_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS escalated_at timestamp with time zone;
+
+COMMENT ON COLUMN dbasakan.complaints.warning_issued_at IS 'When the complained-about resident was first warned; kept after the complaint is resolved';
+COMMENT ON COLUMN dbasakan.complaints.escalated_at IS 'When the complaint was first escalated; kept after the complaint is resolved';
+
+-- ============================================================================
+-- PART 3: CREATE COMPLAINT MESSAGES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.complaint_messages (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  complaint_id bigint NOT NULL,
+  channel text NOT NULL, -- 'complainant' or 'respondent'
+  sender_id text NOT NULL,
+  body text NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT complaint_messages_pkey PRIMARY KEY (id),
+  CONSTRAINT complaint_messages_complaint_id_fkey FOREIGN KEY (complaint_id) REFERENCES dbasakan.complaints(id) ON DELETE CASCADE,
+  CONSTRAINT complaint_messages_sender_id_fkey FOREIGN KEY (sender_id) REFERENCES dbasakan.profiles(id) ON DELETE CASCADE,
+  CONSTRAINT complaint_messages_valid_channel CHECK (channel IN ('complainant', 'respondent')),
+  CONSTRAINT complaint_messages_body_not_empty CHECK (length(trim(body)) > 0)
+);
+
+COMMENT ON TABLE dbasakan.complaint_messages IS 'Mediation messages of a complaint. Each channel is a private conversation between the syndic and one party.';
+COMMENT ON COLUMN dbasakan.complaint_messages.channel IS 'complainant: syndic and complainant, respondent: syndic and complained-about resident';
+
+-- ============================================================================
+-- PART 4: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_complaint_messages_thread ON dbasakan.complaint_messages(complaint_id, channel, created_at);
+CREATE INDEX IF NOT EXISTS idx_complaints_repeat_offences ON dbasakan.complaints(residence_id, complained_about_id);
+
+-- ============================================================================
+-- PART 5: ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE dbasakan.complaint_messages ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Syndics see both channels of the complaints of their residence,
+-- each party only sees their own channel
+DROP POLICY IF EXISTS "Participants can view complaint messages" ON dbasakan.complaint_messages;
+CREATE POLICY "Participants can view complaint messages" ON dbasakan.complaint_messages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM dbasakan.complaints c
+      WHERE c.id = complaint_messages.complaint_id
+      AND (
+        (channel = 'complainant' AND c.complainant_id = auth.uid()::text)
+        OR (channel = 'respondent' AND c.complained_about_id = auth.uid()::text)
+        OR (
+          EXISTS (
+            SELECT 1 FROM dbasakan.profiles p
+            WHERE p.id = auth.uid()::text
+            AND p.role = 'syndic'
+          )
+          AND (c.residence_id::bigint) = (dbasakan.get_user_residence_id(auth.uid())::bigint)
+        )
+      )
+    )
+  );
+
+-- ============================================================================
+-- PART 6: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT SELECT ON dbasakan.complaint_messages TO authenticated;
+GRANT ALL ON dbasakan.complaint_messages TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
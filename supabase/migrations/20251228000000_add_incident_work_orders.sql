@@ -0,0 +1,147 @@
+-- ============================================================================
+-- Migration: Incident Work Orders
+-- Description: A directory of outside contractors (plumbers, electricians...)
+--              per residence, and work orders that send an incident to one of
+--              them: quote with an amount, syndic approval, scheduled
+--              intervention, and the final invoice, which is recorded as an
+--              expense linked back to the incident.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE CONTRACTORS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.contractors (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  residence_id bigint NOT NULL,
+  name text NOT NULL,
+  trade text NOT NULL DEFAULT 'general',
+  phone text,
+  email text,
+  notes text,
+  active boolean NOT NULL DEFAULT true,
+  created_by text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT contractors_pkey PRIMARY KEY (id),
+  CONSTRAINT contractors_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id) ON DELETE CASCADE,
+  CONSTRAINT contractors_created_by_fkey FOREIGN KEY (created_by) REFERENCES dbasakan.profiles(id) ON DELETE SET NULL,
+  CONSTRAINT contractors_valid_trade CHECK (trade IN ('plumbing', 'electrical', 'locksmith', 'cleaning', 'elevator', 'painting', 'general', 'other')),
+  CONSTRAINT contractors_name_not_empty CHECK (length(trim(name)) > 0)
+);
+
+COMMENT ON TABLE dbasakan.contractors IS 'Outside companies and tradespeople a residence calls for repairs';
+COMMENT ON COLUMN dbasakan.contractors.active IS 'Inactive contractors are kept for the history of their work orders but cannot receive new ones';
+
+-- ============================================================================
+-- PART 2: CREATE WORK ORDERS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.work_orders (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  incident_id bigint NOT NULL,
+  residence_id bigint NOT NULL,
+  contractor_id bigint NOT NULL,
+  description text NOT NULL,
+  status text NOT NULL DEFAULT 'requested',
+  quote_amount numeric,
+  quote_url text,
+  quoted_at timestamp with time zone,
+  approved_at timestamp with time zone,
+  approved_by text,
+  rejection_reason text,
+  scheduled_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  invoice_amount numeric,
+  invoice_url text,
+  expense_id bigint,
+  created_by text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT work_orders_pkey PRIMARY KEY (id),
+  CONSTRAINT work_orders_incident_id_fkey FOREIGN KEY (incident_id) REFERENCES dbasakan.incidents(id) ON DELETE CASCADE,
+  CONSTRAINT work_orders_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id) ON DELETE CASCADE,
+  CONSTRAINT work_orders_contractor_id_fkey FOREIGN KEY (contractor_id) REFERENCES dbasakan.contractors(id),
+  CONSTRAINT work_orders_approved_by_fkey FOREIGN KEY (approved_by) REFERENCES dbasakan.profiles(id) ON DELETE SET NULL,
+  CONSTRAINT work_orders_created_by_fkey FOREIGN KEY (created_by) REFERENCES dbasakan.profiles(id) ON DELETE SET NULL,
+  CONSTRAINT work_orders_expense_id_fkey FOREIGN KEY (expense_id) REFERENCES dbasakan.expenses(id) ON DELETE SET NULL,
+  CONSTRAINT work_orders_valid_status CHECK (status IN ('requested', 'quoted', 'approved', 'rejected', 'scheduled', 'completed', 'cancelled')),
+  CONSTRAINT work_orders_quote_positive CHECK (quote_amount IS NULL OR quote_amount > 0),
+  CONSTRAINT work_orders_invoice_positive CHECK (invoice_amount IS NULL OR invoice_amount > 0)
+);
+
+COMMENT ON TABLE dbasakan.work_orders IS 'Repairs of an incident sent to an outside contractor';
+COMMENT ON COLUMN dbasakan.work_orders.status IS 'requested: quote asked, quoted: quote received, approved / rejected: syndic decision on the quote, scheduled: intervention date set, completed: invoice recorded, cancelled';
+COMMENT ON COLUMN dbasakan.work_orders.expense_id IS 'Expense recorded from the final invoice';
+
+-- ============================================================================
+-- PART 3: LINK EXPENSES TO INCIDENTS
+-- ============================================================================
+
+ALTER TABLE dbasakan.expenses
+  ADD COLUMN IF NOT EXISTS incident_id bigint;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'expenses_incident_id_fkey') THEN
+    ALTER TABLE dbasakan.expenses
+      ADD CONSTRAINT expenses_incident_id_fkey FOREIGN KEY (incident_id) REFERENCES dbasakan.incidents(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dbasakan.expenses.incident_id IS 'Incident whose repair this expense paid for';
+
+-- ============================================================================
+-- PART 4: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_contractors_residence ON dbasakan.contractors(residence_id, active, name);
+CREATE INDEX IF NOT EXISTS idx_work_orders_incident ON dbasakan.work_orders(incident_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_work_orders_residence_status ON dbasakan.work_orders(residence_id, status);
+CREATE INDEX IF NOT EXISTS idx_expenses_incident ON dbasakan.expenses(incident_id) WHERE incident_id IS NOT NULL;
+
+-- ============================================================================
+-- PART 5: ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE dbasakan.contractors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dbasakan.work_orders ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Syndics see the contractors of their residence
+DROP POLICY IF EXISTS "Syndics can view contractors" ON dbasakan.contractors;
+CREATE POLICY "Syndics can view contractors" ON dbasakan.contractors
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM dbasakan.profiles p
+      WHERE p.id = auth.uid()::text
+      AND p.role = 'syndic'
+    )
+    AND (residence_id::bigint) = (dbasakan.get_user_residence_id(auth.uid())::bigint)
+  );
+
+-- Policy: Syndics see the work orders of their residence
+DROP POLICY IF EXISTS "Syndics can view work orders" ON dbasakan.work_orders;
+CREATE POLICY "Syndics can view work orders" ON dbasakan.work_orders
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM dbasakan.profiles p
+      WHERE p.id = auth.uid()::text
+      AND p.role = 'syndic'
+    )
+    AND (residence_id::bigint) = (dbasakan.get_user_residence_id(auth.uid())::bigint)
+  );
+
+-- ============================================================================
+-- PART 6: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT SELECT ON dbasakan.contractors TO authenticated;
+GRANT SELECT ON dbasakan.work_orders TO authenticated;
+GRANT ALL ON dbasakan.contractors TO service_role;
+GRANT ALL ON dbasakan.work_orders TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
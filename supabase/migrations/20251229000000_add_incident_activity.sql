@@ -0,0 +1,163 @@
+-- ============================================================================
+-- Migration: Incident Activity Timeline
+-- Description: An append-only activity log per incident (creation, status
+--              transitions, reassignments, scheduled interventions, comments
+--              and photos, each with who did it and when), and a set of before
+--              and after photos per incident instead of a single photo_url.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE INCIDENT PHOTOS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.incident_photos (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  incident_id bigint NOT NULL,
+  url text NOT NULL,
+  phase text NOT NULL DEFAULT 'before',
+  caption text,
+  uploaded_by text,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT incident_photos_pkey PRIMARY KEY (id),
+  CONSTRAINT incident_photos_incident_id_fkey FOREIGN KEY (incident_id) REFERENCES dbasakan.incidents(id) ON DELETE CASCADE,
+  CONSTRAINT incident_photos_uploaded_by_fkey FOREIGN KEY (uploaded_by) REFERENCES dbasakan.profiles(id) ON DELETE SET NULL,
+  CONSTRAINT incident_photos_valid_phase CHECK (phase IN ('before', 'after'))
+);
+
+COMMENT ON TABLE dbasakan.incident_photos IS 'Photos of an incident: before (the problem) and after (the repair)';
+COMMENT ON COLUMN dbasakan.incidents.photo_url IS 'First photo of the incident, kept for older clients; all photos are in incident_photos';
+
+-- ============================================================================
+-- PART 2: CREATE INCIDENT ACTIVITY TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.incident_activity (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  incident_id bigint NOT NULL,
+  actor_id text,
+  type text NOT NULL,
+  from_value text,
+  to_value text,
+  body text,
+  photo_id bigint,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT incident_activity_pkey PRIMARY KEY (id),
+  CONSTRAINT incident_activity_incident_id_fkey FOREIGN KEY (incident_id) REFERENCES dbasakan.incidents(id) ON DELETE CASCADE,
+  CONSTRAINT incident_activity_actor_id_fkey FOREIGN KEY (actor_id) REFERENCES dbasakan.profiles(id) ON DELETE SET NULL,
+  CONSTRAINT incident_activity_photo_id_fkey FOREIGN KEY (photo_id) REFERENCES dbasakan.incident_photos(id) ON DELETE SET NULL,
+  CONSTRAINT incident_activity_valid_type CHECK (type IN ('created', 'status_changed', 'assigned', 'intervention_scheduled', 'comment', 'photo_added')),
+  CONSTRAINT incident_activity_comment_body CHECK (type <> 'comment' OR length(trim(coalesce(body, ''))) > 0)
+);
+
+COMMENT ON TABLE dbasakan.incident_activity IS 'Append-only history of an incident. Entries are never updated or deleted, except together with their incident.';
+COMMENT ON COLUMN dbasakan.incident_activity.type IS 'created, status_changed, assigned (to_value: assignee profile id), intervention_scheduled, comment (body), photo_added (to_value: before or after, photo_id)';
+COMMENT ON COLUMN dbasakan.incident_activity.actor_id IS 'Who made the change; null for changes made by the system';
+
+-- ============================================================================
+-- PART 3: KEEP THE ACTIVITY LOG APPEND-ONLY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION dbasakan.prevent_incident_activity_changes()
+RETURNS trigger AS $$
+BEGIN
+  -- Deleting the incident cascades to its log: by then the incident is gone
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM dbasakan.incidents WHERE id = OLD.incident_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'incident_activity is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS incident_activity_append_only ON dbasakan.incident_activity;
+CREATE TRIGGER incident_activity_append_only
+  BEFORE UPDATE OR DELETE ON dbasakan.incident_activity
+  FOR EACH ROW
+  EXECUTE FUNCTION dbasakan.prevent_incident_activity_changes();
+
+-- ============================================================================
+-- PART 4: BACKFILL EXISTING INCIDENTS
+-- ============================================================================
+
+INSERT INTO dbasakan.incident_photos (incident_id, url, phase, uploaded_by, created_at)
+SELECT i.id, i.photo_url, 'before', i.user_id, i.created_at
+FROM dbasakan.incidents i
+WHERE i.photo_url IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM dbasakan.incident_photos p WHERE p.incident_id = i.id);
+
+INSERT INTO dbasakan.incident_activity (incident_id, actor_id, type, to_value, created_at)
+SELECT i.id, i.user_id, 'created', 'open', i.created_at
+FROM dbasakan.incidents i
+WHERE NOT EXISTS (SELECT 1 FROM dbasakan.incident_activity a WHERE a.incident_id = i.id);
+
+-- ============================================================================
+-- PART 5: CREATE INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_incident_activity_incident ON dbasakan.incident_activity(incident_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_incident_photos_incident ON dbasakan.incident_photos(incident_id, created_at);
+
+-- ============================================================================
+-- PART 6: ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE dbasakan.incident_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dbasakan.incident_photos ENABLE ROW LEVEL SECURITY;
+
+-- Policy: The reporter, the assignee, and the syndic and guard of the residence
+-- see the activity of an incident
+DROP POLICY IF EXISTS "Participants can view incident activity" ON dbasakan.incident_activity;
+CREATE POLICY "Participants can view incident activity" ON dbasakan.incident_activity
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM dbasakan.incidents i
+      WHERE i.id = incident_activity.incident_id
+      AND (
+        i.user_id = auth.uid()::text
+        OR i.assigned_to = auth.uid()::text
+        OR (
+          EXISTS (
+            SELECT 1 FROM dbasakan.profiles p
+            WHERE p.id = auth.uid()::text
+            AND p.role IN ('syndic', 'guard')
+          )
+          AND (i.residence_id::bigint) = (dbasakan.get_user_residence_id(auth.uid())::bigint)
+        )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Participants can view incident photos" ON dbasakan.incident_photos;
+CREATE POLICY "Participants can view incident photos" ON dbasakan.incident_photos
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM dbasakan.incidents i
+      WHERE i.id = incident_photos.incident_id
+      AND (
+        i.user_id = auth.uid()::text
+        OR i.assigned_to = auth.uid()::text
+        OR (
+          EXISTS (
+            SELECT 1 FROM dbasakan.profiles p
+            WHERE p.id = auth.uid()::text
+            AND p.role IN ('syndic', 'guard')
+          )
+          AND (i.residence_id::bigint) = (dbasakan.get_user_residence_id(auth.uid())::bigint)
+        )
+      )
+    )
+  );
+
+-- ============================================================================
+-- PART 7: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT SELECT ON dbasakan.incident_activity TO authenticated;
+GRANT SELECT ON dbasakan.incident_photos TO authenticated;
+GRANT ALL ON dbasakan.incident_activity TO service_role;
+GRANT ALL ON dbasakan.incident_photos TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
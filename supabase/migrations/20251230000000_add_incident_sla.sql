@@ -0,0 +1,137 @@
+-- ============================================================================
+-- Migration: Incident SLA Targets
+-- Description: A category and a priority on every incident, the time it was
+--              first acknowledged, residence-level response targets per
+--              category and/or priority ("water leak: acknowledge in 2h,
+--              resolve in 48h"), and when each breach was escalated to the
+--              syndic so it is only escalated once.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: ADD CATEGORY, PRIORITY AND SLA TRACKING TO INCIDENTS
+-- ============================================================================
+
+ALTER TABLE dbasakan.incidents
+  ADD COLUMN IF NOT EXISTS category text NOT NULL DEFAULT 'other',
+  ADD COLUMN IF NOT EXISTS priority text NOT NULL DEFAULT 'normal',
+  ADD COLUMN IF NOT EXISTS acknowledged_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS ack_escalated_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS resolve_escalated_at timestamp with time zone;
+
+ALTER TABLE dbasakan.incidents DROP CONSTRAINT IF EXISTS incidents_valid_category;
+ALTER TABLE dbasakan.incidents
+  ADD CONSTRAINT incidents_valid_category CHECK (category IN ('water_leak', 'plumbing', 'electrical', 'elevator', 'security', 'cleaning', 'common_areas', 'other'));
+
+ALTER TABLE dbasakan.incidents DROP CONSTRAINT IF EXISTS incidents_valid_priority;
+ALTER TABLE dbasakan.incidents
+  ADD CONSTRAINT incidents_valid_priority CHECK (priority IN ('low', 'normal', 'high', 'urgent'));
+
+COMMENT ON COLUMN dbasakan.incidents.category IS 'What the incident is about; picks the SLA target together with the priority';
+COMMENT ON COLUMN dbasakan.incidents.priority IS 'low, normal, high or urgent; set by the syndic';
+COMMENT ON COLUMN dbasakan.incidents.acknowledged_at IS 'When the syndic first took the incident in hand (moved it out of open, assigned it or scheduled an intervention)';
+COMMENT ON COLUMN dbasakan.incidents.ack_escalated_at IS 'When the syndic was told the acknowledgement target was missed';
+COMMENT ON COLUMN dbasakan.incidents.resolve_escalated_at IS 'When the syndic was told the resolution target was missed';
+
+-- ============================================================================
+-- PART 2: RECORD THE FIRST ACKNOWLEDGEMENT
+-- ============================================================================
+
+-- Set on whichever path takes the incident in hand: the edit form, the status
+-- select, the mobile app or a scheduled work order
+CREATE OR REPLACE FUNCTION dbasakan.set_incident_acknowledged_at()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.acknowledged_at IS NULL AND (
+    NEW.status <> 'open'
+    OR NEW.assigned_to IS NOT NULL
+    OR NEW.intervention_at IS NOT NULL
+  ) THEN
+    NEW.acknowledged_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS incidents_set_acknowledged_at ON dbasakan.incidents;
+CREATE TRIGGER incidents_set_acknowledged_at
+  BEFORE UPDATE ON dbasakan.incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION dbasakan.set_incident_acknowledged_at();
+
+-- Best estimate for existing incidents: their last update
+UPDATE dbasakan.incidents
+SET acknowledged_at = updated_at
+WHERE acknowledged_at IS NULL
+AND (status <> 'open' OR assigned_to IS NOT NULL OR intervention_at IS NOT NULL);
+
+-- Do not escalate breaches of incidents already dealt with before targets existed
+UPDATE dbasakan.incidents
+SET ack_escalated_at = now(), resolve_escalated_at = now()
+WHERE status IN ('resolved', 'closed');
+
+-- ============================================================================
+-- PART 3: CREATE SLA TARGETS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dbasakan.incident_sla_targets (
+  id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+  residence_id bigint NOT NULL,
+  category text,
+  priority text,
+  acknowledge_hours integer NOT NULL,
+  resolve_hours integer NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT incident_sla_targets_pkey PRIMARY KEY (id),
+  CONSTRAINT incident_sla_targets_residence_id_fkey FOREIGN KEY (residence_id) REFERENCES dbasakan.residences(id) ON DELETE CASCADE,
+  CONSTRAINT incident_sla_targets_valid_category CHECK (category IS NULL OR category IN ('water_leak', 'plumbing', 'electrical', 'elevator', 'security', 'cleaning', 'common_areas', 'other')),
+  CONSTRAINT incident_sla_targets_valid_priority CHECK (priority IS NULL OR priority IN ('low', 'normal', 'high', 'urgent')),
+  CONSTRAINT incident_sla_targets_valid_hours CHECK (acknowledge_hours > 0 AND resolve_hours >= acknowledge_hours)
+);
+
+COMMENT ON TABLE dbasakan.incident_sla_targets IS 'Response targets of a residence. The most specific row wins: category and priority, then category, then priority, then the residence-wide row (both null); built-in defaults per priority apply when none matches.';
+COMMENT ON COLUMN dbasakan.incident_sla_targets.acknowledge_hours IS 'Hours from report to acknowledgement';
+COMMENT ON COLUMN dbasakan.incident_sla_targets.resolve_hours IS 'Hours from report to resolution';
+
+-- ============================================================================
+-- PART 4: CREATE INDEXES
+-- ============================================================================
+
+-- One target per residence, category and priority (null meaning "any")
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incident_sla_targets_scope
+  ON dbasakan.incident_sla_targets(residence_id, coalesce(category, ''), coalesce(priority, ''));
+
+-- The escalation run looks at unresolved incidents only
+CREATE INDEX IF NOT EXISTS idx_incidents_unresolved
+  ON dbasakan.incidents(residence_id, created_at)
+  WHERE status IN ('open', 'in_progress');
+
+-- ============================================================================
+-- PART 5: ROW LEVEL SECURITY POLICIES
+-- ============================================================================
+
+ALTER TABLE dbasakan.incident_sla_targets ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Syndics see the SLA targets of their residence
+DROP POLICY IF EXISTS "Syndics can view incident SLA targets" ON dbasakan.incident_sla_targets;
+CREATE POLICY "Syndics can view incident SLA targets" ON dbasakan.incident_sla_targets
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM dbasakan.profiles p
+      WHERE p.id = auth.uid()::text
+      AND p.role = 'syndic'
+    )
+    AND (residence_id::bigint) = (dbasakan.get_user_residence_id(auth.uid())::bigint)
+  );
+
+-- ============================================================================
+-- PART 6: GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT SELECT ON dbasakan.incident_sla_targets TO authenticated;
+GRANT ALL ON dbasakan.incident_sla_targets TO service_role;
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================
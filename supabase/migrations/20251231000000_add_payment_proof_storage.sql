@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Migration: Payment Proof Storage
+-- Description: Private storage bucket for bank transfer receipts. Receipts are
+--              personal financial documents, so they are only reachable
+--              through short-lived signed URLs handed out to the declaring
+--              resident and the syndic of the residence.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: CREATE PRIVATE STORAGE BUCKET
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'payment-proofs',
+  'payment-proofs',
+  false,
+  10485760, -- 10MB
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/jpg']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- PART 2: STORAGE POLICIES
+-- ============================================================================
+
+-- Only the backend (service role) reads and writes receipts; there is
+-- deliberately no public or authenticated read policy on this bucket
+DROP POLICY IF EXISTS "Service role manages payment proofs" ON storage.objects;
+CREATE POLICY "Service role manages payment proofs"
+ON storage.objects
+FOR ALL
+TO service_role
+USING (bucket_id = 'payment-proofs')
+WITH CHECK (bucket_id = 'payment-proofs');
+
+-- ============================================================================
+-- PART 3: DOCUMENT STORAGE PATHS
+-- ============================================================================
+
+COMMENT ON COLUMN dbasakan.payments.proof_url IS 'Object path in the private payment-proofs bucket ({residence_id}/{user_id}/...); served through signed URLs only. Declarations made before this migration hold a public URL of the SAKAN bucket';
+
+-- ============================================================================
+-- END OF MIGRATION
+-- ============================================================================